@@ -23,16 +23,28 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
+      if (isSignUp) {
+        const response = await fetch("/api/account/signup", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(formData)
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          toast.error(data.error || "Erro ao criar conta");
+          return;
+        }
+      }
+
       const result = await signIn("credentials", {
         email: formData.email,
         password: formData.password,
-        name: formData.name,
-        action: isSignUp ? "signup" : "login",
         redirect: false
       });
 
       if (result?.error) {
-        toast.error(result.error);
+        toast.error("Email ou senha inválidos");
       } else {
         toast.success(isSignUp ? "Conta criada com sucesso!" : "Login efetuado!");
         router.push("/");
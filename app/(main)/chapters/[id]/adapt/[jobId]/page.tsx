@@ -130,14 +130,14 @@ export default function ChapterAdaptPage() {
     }
   };
 
-  const handleApply = async (acceptedIds: string[]) => {
+  const handleApply = async (acceptedIds: string[], mode: 'replace' | 'track') => {
     toast.loading('Aplicando adaptações selecionadas...');
 
     try {
       const res = await fetch(`/api/chapters/${chapterId}/operations/${jobId}/apply`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ acceptedSuggestionIds: acceptedIds })
+        body: JSON.stringify({ acceptedSuggestionIds: acceptedIds, mode })
       });
 
       if (!res.ok) {
@@ -283,6 +283,7 @@ export default function ChapterAdaptPage() {
         documentTitle={chapterTitle}
         fullDocumentText={fullText}
         onApply={handleApply}
+        allowTrackChanges
         typeLabels={{
           adaptation: { label: 'Adaptação', color: 'bg-purple-500' }
         }}
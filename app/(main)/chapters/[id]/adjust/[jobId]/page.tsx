@@ -96,14 +96,14 @@ export default function ChapterAdjustPage() {
     }
   };
 
-  const handleApply = async (acceptedIds: string[]) => {
+  const handleApply = async (acceptedIds: string[], mode: 'replace' | 'track') => {
     toast.loading('Aplicando ajustes selecionados...');
 
     try {
       const res = await fetch(`/api/chapters/${chapterId}/operations/${jobId}/apply`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ acceptedSuggestionIds: acceptedIds })
+        body: JSON.stringify({ acceptedSuggestionIds: acceptedIds, mode })
       });
 
       if (!res.ok) {
@@ -238,6 +238,7 @@ export default function ChapterAdjustPage() {
         documentTitle={chapterTitle}
         fullDocumentText={fullText}
         onApply={handleApply}
+        allowTrackChanges
         typeLabels={{
           adjustment: { label: 'Ajuste', color: 'bg-yellow-500' }
         }}
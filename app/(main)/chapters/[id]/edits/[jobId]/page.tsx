@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { Loader2, XCircle, ArrowLeft, MessageSquare } from 'lucide-react';
+import Link from 'next/link';
+import { SuggestionReviewPanel, Suggestion } from '@/components/suggestion-review-panel';
+
+type ChatEditJob = {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'error';
+  error?: string;
+};
+
+/**
+ * Revisão das edições propostas no modo edição do chat do capítulo
+ */
+export default function ChapterChatEditsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const chapterId = params.id as string;
+  const jobId = params.jobId as string;
+
+  const [job, setJob] = useState<ChatEditJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [chapterTitle, setChapterTitle] = useState<string>('');
+  const [instruction, setInstruction] = useState<string>('');
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [fullText, setFullText] = useState<string>('');
+
+  useEffect(() => {
+    loadJob();
+    loadChapterInfo();
+  }, [chapterId, jobId]);
+
+  const loadChapterInfo = async () => {
+    try {
+      const res = await fetch(`/api/chapters/${chapterId}`);
+      if (res.ok) {
+        const data = await res.json();
+        setChapterTitle(data.chapter.title);
+      }
+    } catch (error) {
+      console.error('Failed to load chapter:', error);
+    }
+  };
+
+  const loadJob = async () => {
+    try {
+      const res = await fetch(`/api/chapters/${chapterId}/operations/${jobId}`);
+      if (!res.ok) throw new Error('Edição não encontrada');
+      const data = await res.json();
+      setJob(data.job);
+
+      if (data.job.status === 'completed') {
+        const suggestionsRes = await fetch(`/api/chapters/${chapterId}/operations/${jobId}/suggestions`);
+        if (!suggestionsRes.ok) throw new Error('Falha ao carregar sugestões');
+        const suggestionsData = await suggestionsRes.json();
+
+        setSuggestions(suggestionsData.suggestions || []);
+        setFullText(suggestionsData.fullText || '');
+        setInstruction(suggestionsData.job?.instruction || '');
+      }
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async (acceptedIds: string[], mode: 'replace' | 'track') => {
+    toast.loading('Aplicando edições selecionadas...');
+
+    try {
+      const res = await fetch(`/api/chapters/${chapterId}/operations/${jobId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ acceptedSuggestionIds: acceptedIds, mode })
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Falha ao aplicar edições');
+      }
+
+      const data = await res.json();
+
+      toast.dismiss();
+      toast.success(`${data.appliedCount} edições aplicadas! Nova versão criada.`);
+
+      router.push(`/chapters/${chapterId}/versions/${data.newVersionId}`);
+    } catch (error: any) {
+      toast.dismiss();
+      toast.error(error.message);
+      throw error;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+        <p className="text-muted-foreground mt-4">Carregando edições...</p>
+      </div>
+    );
+  }
+
+  if (!job || job.status !== 'completed') {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Link href={`/chapters/${chapterId}`}>
+            <Button variant="outline" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold">Edições do Chat</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-600">
+              <XCircle className="h-5 w-5" />
+              {job ? 'Não foi possível gerar as edições' : 'Edição não encontrada'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {job?.error && <p className="text-muted-foreground">{job.error}</p>}
+            <Button className="mt-4" onClick={() => router.push(`/chapters/${chapterId}`)}>
+              Voltar ao Capítulo
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href={`/chapters/${chapterId}`}>
+          <Button variant="outline" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold">Edições do Chat</h1>
+          <p className="text-muted-foreground mt-1">{chapterTitle}</p>
+        </div>
+      </div>
+
+      {instruction && (
+        <Card>
+          <CardContent className="pt-6 flex items-start gap-2 text-sm">
+            <MessageSquare className="h-4 w-4 mt-0.5 text-primary" />
+            <p className="italic">{instruction}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {suggestions.length === 0 ? (
+        <p className="text-muted-foreground">O modelo não propôs nenhuma edição para este pedido.</p>
+      ) : (
+        <SuggestionReviewPanel
+          suggestions={suggestions}
+          documentTitle={chapterTitle}
+          fullDocumentText={fullText}
+          onApply={handleApply}
+          allowTrackChanges
+        />
+      )}
+    </div>
+  );
+}
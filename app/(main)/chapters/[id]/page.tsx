@@ -23,6 +23,7 @@ type ChapterVersion = {
   createdAt: string;
   isCurrent: boolean;
   parentVersionId: string | null;
+  mergeParentVersionId?: string | null;
 };
 
 type Chapter = {
@@ -139,6 +140,10 @@ export default function ChapterPage() {
         return 'bg-pink-500';
       case 'update':
         return 'bg-yellow-500';
+      case 'merge':
+        return 'bg-cyan-500';
+      case 'chat_edit':
+        return 'bg-teal-500';
       default:
         return 'bg-gray-500';
     }
@@ -158,6 +163,10 @@ export default function ChapterPage() {
         return 'Adaptado';
       case 'update':
         return 'Atualizado';
+      case 'merge':
+        return 'Mesclado';
+      case 'chat_edit':
+        return 'Editado pelo chat';
       default:
         return operation;
     }
@@ -260,6 +269,7 @@ export default function ChapterPage() {
           <ChapterChat
             currentChapterId={chapterId}
             allChapters={allChapters}
+            thesisId={chapter.thesisId}
           />
         )}
       </div>
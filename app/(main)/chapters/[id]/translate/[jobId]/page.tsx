@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -16,7 +16,9 @@ import {
   Info,
   FileOutput,
   Link as LinkIcon,
-  FileText
+  FileText,
+  Download,
+  Upload
 } from 'lucide-react';
 import Link from 'next/link';
 import { SuggestionReviewPanel, Suggestion } from '@/components/suggestion-review-panel';
@@ -58,6 +60,10 @@ export default function ChapterTranslatePage() {
   const [references, setReferences] = useState<OperationReference[]>([]);
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [fullText, setFullText] = useState<string>('');
+  const [memoryHits, setMemoryHits] = useState<number>(0);
+  const [terminologyViolations, setTerminologyViolations] = useState<number>(0);
+  const [importingXliff, setImportingXliff] = useState(false);
+  const xliffInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadJob();
@@ -111,6 +117,8 @@ export default function ChapterTranslatePage() {
 
       setSuggestions(data.suggestions || []);
       setFullText(data.fullText || '');
+      setMemoryHits(data.job?.memoryHits || 0);
+      setTerminologyViolations(data.job?.terminologyViolations || 0);
     } catch (error: any) {
       toast.error(error.message);
     }
@@ -130,14 +138,39 @@ export default function ChapterTranslatePage() {
     }
   };
 
-  const handleApply = async (acceptedIds: string[]) => {
+  // XLIFF pós-editado pelo tradutor: gera a versão traduzida direto do arquivo
+  const handleImportXliff = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportingXliff(true);
+    try {
+      const res = await fetch(`/api/chapters/${chapterId}/operations/${jobId}/xliff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: await file.text() })
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao importar o XLIFF');
+
+      toast.success(`${data.stats.applied} trechos aplicados (${data.stats.edited} revisados pelo tradutor). Nova versão criada.`);
+      router.push(`/chapters/${chapterId}/versions/${data.newVersionId}`);
+    } catch (error: any) {
+      toast.error(error.message);
+      setImportingXliff(false);
+    }
+  };
+
+  const handleApply = async (acceptedIds: string[], mode: 'replace' | 'track') => {
     toast.loading('Aplicando traduções selecionadas...');
 
     try {
       const res = await fetch(`/api/chapters/${chapterId}/operations/${jobId}/apply`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ acceptedSuggestionIds: acceptedIds })
+        body: JSON.stringify({ acceptedSuggestionIds: acceptedIds, mode })
       });
 
       if (!res.ok) {
@@ -276,6 +309,38 @@ export default function ChapterTranslatePage() {
           <h1 className="text-3xl font-bold">Sugestões de Tradução</h1>
           <p className="text-muted-foreground mt-1">{chapterTitle}</p>
         </div>
+        {memoryHits > 0 && (
+          <Badge variant="secondary" title="Parágrafos já traduzidos em outras versões da tese, reaproveitados sem IA">
+            {memoryHits} da memória de tradução
+          </Badge>
+        )}
+        {terminologyViolations > 0 && (
+          <Badge variant="destructive" title="Traduções sem o termo preferido da termbase ou com tradução proibida (ver o motivo de cada sugestão)">
+            {terminologyViolations} problemas de terminologia
+          </Badge>
+        )}
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/chapters/${chapterId}/operations/${jobId}/xliff`} title="Exporta o texto original e a tradução para revisão numa ferramenta de tradução">
+            <Download className="h-4 w-4 mr-2" />
+            Exportar XLIFF
+          </a>
+        </Button>
+        <input
+          ref={xliffInputRef}
+          type="file"
+          accept=".xlf,.xliff,.xml"
+          className="hidden"
+          onChange={handleImportXliff}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => xliffInputRef.current?.click()}
+          disabled={importingXliff}
+        >
+          {importingXliff ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          Importar XLIFF revisado
+        </Button>
       </div>
 
       <SuggestionReviewPanel
@@ -283,6 +348,7 @@ export default function ChapterTranslatePage() {
         documentTitle={chapterTitle}
         fullDocumentText={fullText}
         onApply={handleApply}
+        allowTrackChanges
         typeLabels={{
           translation: { label: 'Tradução', color: 'bg-green-500' }
         }}
@@ -1,11 +1,11 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, FileText, Clock, Layers, Download, Info, Sparkles, Languages, Sliders, Wand2, RefreshCw } from 'lucide-react';
+import { ArrowLeft, FileText, Clock, Layers, Download, Info, Sparkles, Languages, Sliders, Wand2, RefreshCw, CheckCircle2, GitMerge } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   Dialog,
@@ -30,6 +30,11 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { ExpandableTextarea } from '@/components/expandable-textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ContextSelector } from '@/components/thesis/context-selector';
+import type { SearchModeOption } from '@/components/thesis/search-mode-select';
+import { CommentThreads } from '@/components/thesis/comment-threads';
+import { TermbaseEditor } from '@/components/thesis/termbase-editor';
+import { PromptVersionSelect } from '@/components/prompt-version-select';
+import type { PromptVersions } from '@/lib/ai/prompt-templates';
 
 type ChapterVersion = {
   id: string;
@@ -42,6 +47,7 @@ type ChapterVersion = {
   metadata: any;
   createdAt: string;
   parentVersionId: string | null;
+  mergeParentVersionId?: string | null;
   isCurrent: boolean;
   chapterTitle?: string;
   chapterOrder?: number;
@@ -52,6 +58,7 @@ type ChapterVersion = {
 export default function ChapterVersionPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const chapterId = params.id as string;
   const versionId = params.versionId as string;
 
@@ -60,6 +67,7 @@ export default function ChapterVersionPage() {
   const [loading, setLoading] = useState(true);
   const [allChapters, setAllChapters] = useState<any[]>([]);
   const [contextVersionIds, setContextVersionIds] = useState<string[]>([]);
+  const [contextSearchMode, setContextSearchMode] = useState<SearchModeOption>('full');
 
   // Operation states
   const [improveDialogOpen, setImproveDialogOpen] = useState(false);
@@ -77,6 +85,13 @@ export default function ChapterVersionPage() {
   const [adaptReferences, setAdaptReferences] = useState<ReferenceItem[]>([]);
   const [updateReferences, setUpdateReferences] = useState<ReferenceItem[]>([]);
 
+  // Prompt versions pinned per operation (empty = active versions)
+  const [improvePromptVersions, setImprovePromptVersions] = useState<PromptVersions>({});
+  const [translatePromptVersions, setTranslatePromptVersions] = useState<PromptVersions>({});
+  const [adjustPromptVersions, setAdjustPromptVersions] = useState<PromptVersions>({});
+  const [adaptPromptVersions, setAdaptPromptVersions] = useState<PromptVersions>({});
+  const [updatePromptVersions, setUpdatePromptVersions] = useState<PromptVersions>({});
+
   // Prompts for operations
   const [adjustPrompt, setAdjustPrompt] = useState('');
   const [adjustCreativity, setAdjustCreativity] = useState(5);
@@ -185,6 +200,27 @@ export default function ChapterVersionPage() {
     }
   };
 
+  const handleSetCurrent = async () => {
+    try {
+      const response = await fetch(`/api/chapters/${chapterId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentVersionId: versionId })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Falha ao definir versão atual');
+      }
+
+      toast.success(`Versão ${version?.versionNumber} definida como atual`);
+      await loadVersionData();
+    } catch (error: any) {
+      console.error('[SET-CURRENT] Error:', error);
+      toast.error(error.message || 'Erro ao definir versão atual');
+    }
+  };
+
   const handleImprove = async () => {
     try {
       setProcessing(true);
@@ -208,7 +244,9 @@ export default function ChapterVersionPage() {
         body: JSON.stringify({
           versionId,
           references: referencesForAPI,
-          contextVersionIds
+          contextVersionIds,
+          contextSearchMode: contextSearchMode === 'full' ? undefined : contextSearchMode,
+          promptVersions: improvePromptVersions
         })
       });
 
@@ -257,7 +295,8 @@ export default function ChapterVersionPage() {
         body: JSON.stringify({
           versionId,
           targetLanguage,
-          references: referencesForAPI
+          references: referencesForAPI,
+          promptVersions: translatePromptVersions
         })
       });
 
@@ -310,7 +349,9 @@ export default function ChapterVersionPage() {
           model: adjustModel,
           useGrounding: adjustUseGrounding,
           references: referencesForAPI,
-          contextVersionIds
+          contextVersionIds,
+          contextSearchMode: contextSearchMode === 'full' ? undefined : contextSearchMode,
+          promptVersions: adjustPromptVersions
         })
       });
 
@@ -361,7 +402,9 @@ export default function ChapterVersionPage() {
           style: adaptStyle,
           targetAudience: adaptStyle === 'custom' ? adaptTargetAudience.trim() : undefined,
           references: referencesForAPI,
-          contextVersionIds
+          contextVersionIds,
+          contextSearchMode: contextSearchMode === 'full' ? undefined : contextSearchMode,
+          promptVersions: adaptPromptVersions
         })
       });
 
@@ -410,7 +453,9 @@ export default function ChapterVersionPage() {
         body: JSON.stringify({
           versionId,
           references: referencesForAPI,
-          contextVersionIds
+          contextVersionIds,
+          contextSearchMode: contextSearchMode === 'full' ? undefined : contextSearchMode,
+          promptVersions: updatePromptVersions
         })
       });
 
@@ -454,6 +499,8 @@ export default function ChapterVersionPage() {
       case 'adjust': return 'bg-orange-500';
       case 'adapt': return 'bg-pink-500';
       case 'update': return 'bg-yellow-500';
+      case 'merge': return 'bg-cyan-500';
+      case 'chat_edit': return 'bg-teal-500';
       default: return 'bg-gray-500';
     }
   };
@@ -466,6 +513,8 @@ export default function ChapterVersionPage() {
       case 'adjust': return 'Ajustado';
       case 'adapt': return 'Adaptado';
       case 'update': return 'Atualizado';
+      case 'merge': return 'Mesclado';
+      case 'chat_edit': return 'Editado pelo chat';
       default: return operation;
     }
   };
@@ -474,7 +523,13 @@ export default function ChapterVersionPage() {
     ? allVersions.find((v) => v.id === version.parentVersionId)
     : null;
 
-  const childVersions = allVersions.filter((v) => v.parentVersionId === version.id);
+  const mergeParentVersion = version.mergeParentVersionId
+    ? allVersions.find((v) => v.id === version.mergeParentVersionId)
+    : null;
+
+  const childVersions = allVersions.filter(
+    (v) => v.parentVersionId === version.id || v.mergeParentVersionId === version.id
+  );
 
   return (
     <div className="space-y-6">
@@ -498,10 +553,15 @@ export default function ChapterVersionPage() {
             <div>
               <div className="flex items-center gap-2">
                 <h1 className="text-3xl font-bold">Versão {version.versionNumber}</h1>
-                {version.isCurrent && (
+                {version.isCurrent ? (
                   <Badge variant="default" className="bg-red-600">
                     Versão Atual
                   </Badge>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={handleSetCurrent}>
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Definir como atual
+                  </Button>
                 )}
               </div>
               {version.chapterTitle && (
@@ -552,7 +612,7 @@ export default function ChapterVersionPage() {
         </Card>
 
         {/* Version Lineage */}
-        {(parentVersion || childVersions.length > 0) && (
+        {(parentVersion || mergeParentVersion || childVersions.length > 0) && (
           <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
@@ -588,13 +648,66 @@ export default function ChapterVersionPage() {
                         </p>
                       </div>
                     </div>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => router.push(`/chapters/${chapterId}/versions/${parentVersion.id}`)}
-                    >
-                      Ver
-                    </Button>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => router.push(`/chapters/${chapterId}/versions/compare?a=${parentVersion.id}&b=${version.id}`)}
+                      >
+                        Comparar
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => router.push(`/chapters/${chapterId}/versions/${parentVersion.id}`)}
+                      >
+                        Ver
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Second parent (merged versions) */}
+              {mergeParentVersion && (
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">Mesclada com:</p>
+                  <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <GitMerge className="h-4 w-4 text-muted-foreground" />
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">
+                            Versão {mergeParentVersion.versionNumber}
+                          </span>
+                          <Badge
+                            variant="outline"
+                            className={`text-xs ${getOperationColor(mergeParentVersion.createdByOperation)} text-white border-0`}
+                          >
+                            {getOperationLabel(mergeParentVersion.createdByOperation)}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {new Date(mergeParentVersion.createdAt).toLocaleDateString('pt-BR')}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => router.push(`/chapters/${chapterId}/versions/compare?a=${mergeParentVersion.id}&b=${version.id}`)}
+                      >
+                        Comparar
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => router.push(`/chapters/${chapterId}/versions/${mergeParentVersion.id}`)}
+                      >
+                        Ver
+                      </Button>
+                    </div>
                   </div>
                 </div>
               )}
@@ -651,6 +764,14 @@ export default function ChapterVersionPage() {
           </Card>
         )}
 
+        {/* Review Comments */}
+        <CommentThreads
+          chapterId={chapterId}
+          versionId={versionId}
+          focusChunkId={searchParams.get('chunk')}
+          focusQuote={searchParams.get('quote')}
+        />
+
         {/* Actions Card */}
         <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
           <CardHeader>
@@ -696,6 +817,8 @@ export default function ChapterVersionPage() {
                         currentChapterId={chapterId}
                         selectedVersionIds={contextVersionIds}
                         onSelectionChange={setContextVersionIds}
+                        searchMode={contextSearchMode}
+                        onSearchModeChange={setContextSearchMode}
                       />
                     )}
                     <div className="space-y-2">
@@ -708,6 +831,11 @@ export default function ChapterVersionPage() {
                       references={improveReferences}
                       onChange={setImproveReferences}
                     />
+                    <PromptVersionSelect
+                      keys={['improve.global_context', 'improve.section']}
+                      value={improvePromptVersions}
+                      onChange={setImprovePromptVersions}
+                    />
                   </div>
                 </ScrollArea>
                 <DialogFooter>
@@ -765,6 +893,12 @@ export default function ChapterVersionPage() {
                       </Select>
                     </div>
 
+                    {version.thesisId && targetLanguage && (
+                      <div className="border-t pt-4">
+                        <TermbaseEditor thesisId={version.thesisId} targetLanguage={targetLanguage} />
+                      </div>
+                    )}
+
                     <div className="border-t pt-4 space-y-2">
                       <Label>Materiais de Referência (Opcional)</Label>
                       <p className="text-sm text-muted-foreground">
@@ -774,6 +908,11 @@ export default function ChapterVersionPage() {
                         references={translateReferences}
                         onChange={setTranslateReferences}
                       />
+                      <PromptVersionSelect
+                        keys={['translate.chapter']}
+                        value={translatePromptVersions}
+                        onChange={setTranslatePromptVersions}
+                      />
                     </div>
                   </div>
                 </ScrollArea>
@@ -821,6 +960,8 @@ export default function ChapterVersionPage() {
                         currentChapterId={chapterId}
                         selectedVersionIds={contextVersionIds}
                         onSelectionChange={setContextVersionIds}
+                        searchMode={contextSearchMode}
+                        onSearchModeChange={setContextSearchMode}
                       />
                     )}
                     <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
@@ -915,6 +1056,11 @@ export default function ChapterVersionPage() {
                         references={adjustReferences}
                         onChange={setAdjustReferences}
                       />
+                      <PromptVersionSelect
+                        keys={['adjust.section']}
+                        value={adjustPromptVersions}
+                        onChange={setAdjustPromptVersions}
+                      />
                     </div>
                   </div>
                 </ScrollArea>
@@ -962,6 +1108,8 @@ export default function ChapterVersionPage() {
                         currentChapterId={chapterId}
                         selectedVersionIds={contextVersionIds}
                         onSelectionChange={setContextVersionIds}
+                        searchMode={contextSearchMode}
+                        onSearchModeChange={setContextSearchMode}
                       />
                     )}
                     <div className="space-y-2">
@@ -1009,6 +1157,11 @@ export default function ChapterVersionPage() {
                         references={adaptReferences}
                         onChange={setAdaptReferences}
                       />
+                      <PromptVersionSelect
+                        keys={['adapt.section']}
+                        value={adaptPromptVersions}
+                        onChange={setAdaptPromptVersions}
+                      />
                     </div>
                   </div>
                 </ScrollArea>
@@ -1056,6 +1209,8 @@ export default function ChapterVersionPage() {
                         currentChapterId={chapterId}
                         selectedVersionIds={contextVersionIds}
                         onSelectionChange={setContextVersionIds}
+                        searchMode={contextSearchMode}
+                        onSearchModeChange={setContextSearchMode}
                       />
                     )}
                     <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
@@ -1083,6 +1238,11 @@ export default function ChapterVersionPage() {
                         references={updateReferences}
                         onChange={setUpdateReferences}
                       />
+                      <PromptVersionSelect
+                        keys={['improve.global_context', 'improve.section']}
+                        value={updatePromptVersions}
+                        onChange={setUpdatePromptVersions}
+                      />
                     </div>
                   </div>
                 </ScrollArea>
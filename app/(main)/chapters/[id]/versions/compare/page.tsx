@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, GitCompare, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ParagraphDiff, VersionComparison, WordDiffSegment } from '@/lib/thesis/types';
+
+type VersionOption = {
+  id: string;
+  versionNumber: number;
+  createdByOperation: string;
+};
+
+function Highlighted({ segments, side }: { segments: WordDiffSegment[]; side: 'a' | 'b' }) {
+  const hidden = side === 'a' ? 'added' : 'removed';
+
+  return (
+    <>
+      {segments
+        .filter((segment) => segment.type !== hidden)
+        .map((segment, i) =>
+          segment.type === 'equal' ? (
+            <span key={i}>{segment.text}</span>
+          ) : segment.type === 'removed' ? (
+            <del key={i} className="bg-red-500/30 text-red-200 decoration-red-400">{segment.text}</del>
+          ) : (
+            <ins key={i} className="bg-green-500/30 text-green-200 no-underline">{segment.text}</ins>
+          )
+        )}
+    </>
+  );
+}
+
+function DiffRow({ entry }: { entry: ParagraphDiff }) {
+  const cell = 'rounded p-2 text-sm whitespace-pre-wrap';
+
+  switch (entry.type) {
+    case 'unchanged':
+      return (
+        <>
+          <div className={`${cell} text-muted-foreground`}>{entry.text}</div>
+          <div className={`${cell} text-muted-foreground`}>{entry.text}</div>
+        </>
+      );
+    case 'removed':
+      return (
+        <>
+          <div className={`${cell} bg-red-500/10 border-l-2 border-red-500`}>{entry.text}</div>
+          <div />
+        </>
+      );
+    case 'added':
+      return (
+        <>
+          <div />
+          <div className={`${cell} bg-green-500/10 border-l-2 border-green-500`}>{entry.text}</div>
+        </>
+      );
+    case 'changed':
+      return (
+        <>
+          <div className={`${cell} bg-yellow-500/5 border-l-2 border-yellow-500`}>
+            <Highlighted segments={entry.words} side="a" />
+          </div>
+          <div className={`${cell} bg-yellow-500/5 border-l-2 border-yellow-500`}>
+            <Highlighted segments={entry.words} side="b" />
+          </div>
+        </>
+      );
+  }
+}
+
+export default function CompareVersionsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const chapterId = params.id as string;
+  const versionA = searchParams.get('a') || '';
+  const versionB = searchParams.get('b') || '';
+
+  const [versions, setVersions] = useState<VersionOption[]>([]);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [hideUnchanged, setHideUnchanged] = useState(true);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const res = await fetch(`/api/chapters/${chapterId}/versions`);
+        if (!res.ok) throw new Error('Falha ao carregar versões');
+
+        const data = await res.json();
+        setVersions(data.versions || []);
+      } catch (error: any) {
+        toast.error(error.message);
+      }
+    };
+
+    loadVersions();
+  }, [chapterId]);
+
+  useEffect(() => {
+    if (!versionA || !versionB) {
+      setComparison(null);
+      return;
+    }
+
+    const loadComparison = async () => {
+      try {
+        setLoading(true);
+        const res = await fetch(`/api/chapters/${chapterId}/versions/compare?a=${versionA}&b=${versionB}`);
+
+        if (!res.ok) {
+          const error = await res.json();
+          throw new Error(error.error || 'Falha ao comparar versões');
+        }
+
+        const data = await res.json();
+        setComparison(data.comparison);
+      } catch (error: any) {
+        toast.error(error.message);
+        setComparison(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComparison();
+  }, [chapterId, versionA, versionB]);
+
+  const selectVersion = (side: 'a' | 'b', id: string) => {
+    const next = new URLSearchParams(searchParams.toString());
+    next.set(side, id);
+    router.replace(`/chapters/${chapterId}/versions/compare?${next.toString()}`);
+  };
+
+  const entries = (comparison?.diff.paragraphs || []).filter(
+    (entry) => !hideUnchanged || entry.type !== 'unchanged'
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push(`/chapters/${chapterId}`)}
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Voltar para Capítulo
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <GitCompare className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">Comparar Versões</h1>
+      </div>
+
+      <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
+        <CardHeader>
+          <CardTitle className="text-lg">Versões</CardTitle>
+          <CardDescription>
+            Parágrafos removidos em vermelho, adicionados em verde e alterados em amarelo, com as palavras destacadas
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {(['a', 'b'] as const).map((side) => (
+              <Select
+                key={side}
+                value={side === 'a' ? versionA : versionB}
+                onValueChange={(value) => selectVersion(side, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={side === 'a' ? 'Versão base' : 'Versão comparada'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>
+                      Versão {v.versionNumber} ({v.createdByOperation})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+
+          {comparison && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-green-600">+{comparison.diff.added_paragraphs} adicionados</Badge>
+              <Badge className="bg-red-600">-{comparison.diff.removed_paragraphs} removidos</Badge>
+              <Badge className="bg-yellow-600">{comparison.diff.changed_paragraphs} alterados</Badge>
+              <Badge variant="outline">{comparison.diff.unchanged_paragraphs} inalterados</Badge>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground ml-auto cursor-pointer">
+                <Checkbox
+                  checked={hideUnchanged}
+                  onCheckedChange={(checked) => setHideUnchanged(checked as boolean)}
+                />
+                Ocultar parágrafos inalterados
+              </label>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+          <p className="text-muted-foreground mt-4">Comparando versões...</p>
+        </div>
+      ) : comparison && (
+        <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+              <p className="text-sm font-medium">Versão {comparison.version_a.version_number}</p>
+              <p className="text-sm font-medium">Versão {comparison.version_b.version_number}</p>
+              {entries.map((entry, i) => (
+                <DiffRow key={i} entry={entry} />
+              ))}
+            </div>
+            {entries.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Nenhuma diferença de texto entre as versões.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
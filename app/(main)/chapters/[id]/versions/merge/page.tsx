@@ -0,0 +1,314 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, GitMerge, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MergeHunk, MergePreview, MergeResolution } from '@/lib/thesis/types';
+
+type VersionOption = {
+  id: string;
+  versionNumber: number;
+  createdByOperation: string;
+};
+
+const CHOICES: Array<{ value: MergeResolution['choice']; label: string }> = [
+  { value: 'a', label: 'Usar A' },
+  { value: 'b', label: 'Usar B' },
+  { value: 'both', label: 'Ambos' },
+  { value: 'custom', label: 'Editar' },
+];
+
+function Paragraphs({ texts, className = '' }: { texts: string[]; className?: string }) {
+  if (texts.length === 0) {
+    return <p className="text-sm italic text-muted-foreground">(removido)</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {texts.map((text, i) => (
+        <p key={i} className={`text-sm whitespace-pre-wrap ${className}`}>{text}</p>
+      ))}
+    </div>
+  );
+}
+
+function AutoHunk({ hunk }: { hunk: MergeHunk }) {
+  const fromA = hunk.type === 'take_a';
+
+  return (
+    <div className="rounded-lg border border-border/50 p-3 space-y-2">
+      <Badge variant="outline" className={fromA ? 'border-blue-500 text-blue-400' : 'border-purple-500 text-purple-400'}>
+        Alterado só em {fromA ? 'A' : 'B'}
+      </Badge>
+      <Paragraphs texts={fromA ? hunk.a_text : hunk.b_text} />
+    </div>
+  );
+}
+
+export default function MergeVersionsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const chapterId = params.id as string;
+  const versionA = searchParams.get('a') || '';
+  const versionB = searchParams.get('b') || '';
+
+  const [versions, setVersions] = useState<VersionOption[]>([]);
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [loading, setLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const res = await fetch(`/api/chapters/${chapterId}/versions`);
+        if (!res.ok) throw new Error('Falha ao carregar versões');
+
+        const data = await res.json();
+        setVersions(data.versions || []);
+      } catch (error: any) {
+        toast.error(error.message);
+      }
+    };
+
+    loadVersions();
+  }, [chapterId]);
+
+  useEffect(() => {
+    setResolutions({});
+
+    if (!versionA || !versionB) {
+      setPreview(null);
+      return;
+    }
+
+    const loadPreview = async () => {
+      try {
+        setLoading(true);
+        const res = await fetch(`/api/chapters/${chapterId}/versions/merge?a=${versionA}&b=${versionB}`);
+
+        if (!res.ok) {
+          const error = await res.json();
+          throw new Error(error.error || 'Falha ao preparar mesclagem');
+        }
+
+        const data = await res.json();
+        setPreview(data.preview);
+      } catch (error: any) {
+        toast.error(error.message);
+        setPreview(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [chapterId, versionA, versionB]);
+
+  const selectVersion = (side: 'a' | 'b', id: string) => {
+    const next = new URLSearchParams(searchParams.toString());
+    next.set(side, id);
+    router.replace(`/chapters/${chapterId}/versions/merge?${next.toString()}`);
+  };
+
+  const chooseResolution = (hunk: MergeHunk, choice: MergeResolution['choice']) => {
+    setResolutions((prev) => ({
+      ...prev,
+      [hunk.id]: choice === 'custom'
+        ? { choice, text: [...hunk.a_text, ...hunk.b_text].join('\n\n') }
+        : { choice },
+    }));
+  };
+
+  const editCustomText = (hunkId: string, text: string) => {
+    setResolutions((prev) => ({ ...prev, [hunkId]: { choice: 'custom', text } }));
+  };
+
+  const changedHunks = (preview?.hunks || []).filter((hunk) => hunk.type !== 'unchanged');
+  const resolvedCount = changedHunks.filter((hunk) => hunk.type === 'conflict' && resolutions[hunk.id]).length;
+  const canMerge = !!preview && resolvedCount === preview.conflicts;
+
+  const handleMerge = async () => {
+    try {
+      setMerging(true);
+
+      const res = await fetch(`/api/chapters/${chapterId}/versions/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ a: versionA, b: versionB, resolutions }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Falha ao mesclar versões');
+      }
+
+      const data = await res.json();
+      toast.success('Versões mescladas!');
+      router.push(`/chapters/${chapterId}/versions/${data.newVersionId}`);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push(`/chapters/${chapterId}`)}
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Voltar para Capítulo
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <GitMerge className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">Mesclar Versões</h1>
+      </div>
+
+      <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
+        <CardHeader>
+          <CardTitle className="text-lg">Ramos</CardTitle>
+          <CardDescription>
+            Parágrafos alterados em só um dos ramos entram automaticamente; os alterados nos dois precisam de uma escolha.
+            A nova versão usa a formatação de A.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {(['a', 'b'] as const).map((side) => (
+              <Select
+                key={side}
+                value={side === 'a' ? versionA : versionB}
+                onValueChange={(value) => selectVersion(side, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={side === 'a' ? 'Versão A' : 'Versão B'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>
+                      Versão {v.versionNumber} ({v.createdByOperation})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+
+          {preview && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">
+                Ancestral comum: {preview.base_version ? `Versão ${preview.base_version.version_number}` : 'nenhum'}
+              </Badge>
+              <Badge className="bg-blue-600">{changedHunks.length - preview.conflicts} automáticos</Badge>
+              <Badge className={preview.conflicts > 0 ? 'bg-yellow-600' : 'bg-green-600'}>
+                {resolvedCount}/{preview.conflicts} conflitos resolvidos
+              </Badge>
+              <Button
+                className="ml-auto"
+                onClick={handleMerge}
+                disabled={!canMerge || merging}
+              >
+                {merging ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <GitMerge className="h-4 w-4 mr-2" />
+                )}
+                Criar versão mesclada
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+          <p className="text-muted-foreground mt-4">Preparando mesclagem...</p>
+        </div>
+      ) : preview && (
+        <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
+          <CardContent className="pt-6 space-y-4">
+            {changedHunks.map((hunk) => {
+              if (hunk.type !== 'conflict') return <AutoHunk key={hunk.id} hunk={hunk} />;
+
+              const resolution = resolutions[hunk.id];
+
+              return (
+                <div key={hunk.id} className="rounded-lg border border-yellow-500/50 bg-yellow-500/5 p-3 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className="bg-yellow-600">Conflito</Badge>
+                    <div className="flex gap-1 ml-auto">
+                      {CHOICES.map((choice) => (
+                        <Button
+                          key={choice.value}
+                          size="sm"
+                          variant={resolution?.choice === choice.value ? 'default' : 'outline'}
+                          onClick={() => chooseResolution(hunk, choice.value)}
+                        >
+                          {choice.label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {hunk.base_text.length > 0 && (
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Ancestral comum</p>
+                      <Paragraphs texts={hunk.base_text} className="text-muted-foreground" />
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Versão {preview.version_a.version_number} (A)</p>
+                      <Paragraphs texts={hunk.a_text} />
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-1">Versão {preview.version_b.version_number} (B)</p>
+                      <Paragraphs texts={hunk.b_text} />
+                    </div>
+                  </div>
+
+                  {resolution?.choice === 'custom' && (
+                    <Textarea
+                      value={resolution.text}
+                      onChange={(e) => editCustomText(hunk.id, e.target.value)}
+                      rows={6}
+                      placeholder="Um parágrafo por linha"
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            {changedHunks.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                Nenhuma diferença de texto entre os ramos.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,10 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { AnswerCompareGrid } from '@/components/answer-compare-grid';
+import { AnswerJudgment } from '@/components/answer-judgment';
+import { Checkbox } from '@/components/ui/checkbox';
 import { PipelineWizard } from '@/components/pipeline-wizard';
+import { streamChat } from '@/lib/chat-stream';
 import { toast } from 'sonner';
 import {
   FileText,
@@ -21,6 +24,8 @@ import {
   Sparkles
 } from 'lucide-react';
 import Link from 'next/link';
+import type { AIProvider, Citation } from '@/lib/ai/types';
+import type { JudgmentResult } from '@/lib/ai/judge';
 
 type Document = {
   id: string;
@@ -29,15 +34,26 @@ type Document = {
   chunksCount: number;
 };
 
+const PROVIDER_LABELS: Record<AIProvider, string> = {
+  openai: 'OpenAI',
+  gemini: 'Gemini',
+  grok: 'Grok',
+  local: 'Local',
+  mock: 'Simulado'
+};
+
+const NO_JUDGE = 'none';
+
 type AIResponse = {
   provider: string;
   model: string;
   text: string;
-  citations: Array<{ page: number; span: string }>;
+  citations: Citation[];
   latencyMs: number;
   tokensIn: number;
   tokensOut: number;
   costEstimatedUsd: number;
+  streaming?: boolean;
 };
 
 export default function DocumentPage() {
@@ -53,11 +69,16 @@ export default function DocumentPage() {
   const [pipelineSelectorOpen, setPipelineSelectorOpen] = useState(false);
 
   const [settings, setSettings] = useState<any>(null);
-  const [selectedProvider, setSelectedProvider] = useState<'openai' | 'gemini' | 'grok'>('openai');
+  const [selectedProvider, setSelectedProvider] = useState<AIProvider>('openai');
+  const [compareProviders, setCompareProviders] = useState<AIProvider[]>([]);
+  const [judgeProvider, setJudgeProvider] = useState<AIProvider | typeof NO_JUDGE>(NO_JUDGE);
+  const [judged, setJudged] = useState<{ judgment: JudgmentResult | null; error?: string; loading?: boolean } | null>(null);
   const [selectedModels, setSelectedModels] = useState({
     openai: '',
     gemini: '',
-    grok: ''
+    grok: '',
+    local: '',
+    mock: ''
   });
   const [pipelineJobs, setPipelineJobs] = useState<any[]>([]);
 
@@ -92,7 +113,9 @@ export default function DocumentPage() {
       setSelectedModels({
         openai: models.openai?.[0] || '',
         gemini: models.gemini?.[0] || '',
-        grok: models.grok?.[0] || ''
+        grok: models.grok?.[0] || '',
+        local: models.local?.[0] || '',
+        mock: models.mock?.[0] || ''
       });
     } catch (error: any) {
       console.error('Settings load error:', error);
@@ -137,33 +160,51 @@ export default function DocumentPage() {
 
     setChatting(true);
     setAnswers([]);
+    setJudged(null);
 
     try {
-      const providers = [selectedProvider];
-      const model = selectedModels[selectedProvider];
+      const providers = [selectedProvider, ...compareProviders.filter((p) => p !== selectedProvider)];
+      const missing = providers.find((provider) => !selectedModels[provider]);
 
-      if (!model) {
-        throw new Error(`Modelo não selecionado para ${selectedProvider}`);
+      if (missing) {
+        throw new Error(`Modelo não selecionado para ${missing}`);
       }
 
-      const models: any = { [selectedProvider]: model };
-
-      const res = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          documentId,
-          question,
-          providers,
-          models
-        })
+      const models: any = Object.fromEntries(providers.map((provider) => [provider, selectedModels[provider]]));
+      const judge = judgeProvider !== NO_JUDGE && providers.length > 1
+        ? { provider: judgeProvider, model: selectedModels[judgeProvider] }
+        : undefined;
+
+      // Um card por provedor, preenchido conforme os tokens chegam
+      setAnswers(providers.map((provider) => ({
+        provider,
+        model: models[provider],
+        text: '',
+        citations: [],
+        latencyMs: 0,
+        tokensIn: 0,
+        tokensOut: 0,
+        costEstimatedUsd: 0,
+        streaming: true
+      })));
+
+      let pending = providers.length;
+      await streamChat({ documentId, question, providers, models, judge }, {
+        onToken: (provider, delta) => setAnswers((prev) => prev.map((answer) =>
+          answer.provider === provider ? { ...answer, text: answer.text + delta } : answer
+        )),
+        onAnswer: (final) => {
+          setAnswers((prev) => prev.map((answer) =>
+            answer.provider === final.provider ? final : answer
+          ));
+          // Todas prontas: o juiz começa
+          if (judge && --pending === 0) setJudged({ judgment: null, loading: true });
+        },
+        onJudgment: (result) => setJudged(result)
       });
-
-      if (!res.ok) throw new Error('Falha na consulta');
-
-      const data = await res.json();
-      setAnswers(data.answers);
     } catch (error: any) {
+      setAnswers((prev) => prev.filter((answer) => !answer.streaming));
+      setJudged(null);
       toast.error(error.message || 'Erro ao consultar IA');
     } finally {
       setChatting(false);
@@ -376,6 +417,8 @@ export default function DocumentPage() {
                   <SelectItem value="openai">OpenAI</SelectItem>
                   <SelectItem value="gemini">Gemini</SelectItem>
                   <SelectItem value="grok">Grok</SelectItem>
+                  <SelectItem value="local">Local</SelectItem>
+                  {settings?.mockEnabled && <SelectItem value="mock">Simulado</SelectItem>}
                 </SelectContent>
               </Select>
             </div>
@@ -402,6 +445,57 @@ export default function DocumentPage() {
             </div>
           </div>
 
+          {/* Comparação e juiz */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Comparar com</Label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(PROVIDER_LABELS) as AIProvider[])
+                  .filter((provider) => provider !== selectedProvider && (provider !== 'mock' || settings?.mockEnabled))
+                  .map((provider) => (
+                    <label key={provider} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={compareProviders.includes(provider)}
+                        onCheckedChange={(checked) => setCompareProviders((prev) =>
+                          checked ? [...prev, provider] : prev.filter((p) => p !== provider)
+                        )}
+                      />
+                      {PROVIDER_LABELS[provider]}
+                      {selectedModels[provider] && (
+                        <span className="text-xs text-muted-foreground">({selectedModels[provider]})</span>
+                      )}
+                    </label>
+                  ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Juiz</Label>
+              <Select
+                value={judgeProvider}
+                onValueChange={(v) => setJudgeProvider(v as AIProvider | typeof NO_JUDGE)}
+                disabled={compareProviders.filter((p) => p !== selectedProvider).length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_JUDGE}>Sem juiz (só comparar)</SelectItem>
+                  {(Object.keys(PROVIDER_LABELS) as AIProvider[])
+                    .filter((provider) => selectedModels[provider] && (provider !== 'mock' || settings?.mockEnabled))
+                    .map((provider) => (
+                      <SelectItem key={provider} value={provider}>
+                        {PROVIDER_LABELS[provider]} ({selectedModels[provider]})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Com dois ou mais provedores, o juiz junta as respostas numa só, aponta divergências e dá nota a cada uma
+              </p>
+            </div>
+          </div>
+
           <Button onClick={handleChat} disabled={chatting} className="w-full">
             {chatting ? (
               <>
@@ -423,13 +517,14 @@ export default function DocumentPage() {
           <div className="flex items-center justify-between">
             <h2 className="text-2xl font-bold">Respostas</h2>
             {answers.length === 1 && (
-              <Button onClick={() => handleExport(answers[0])} variant="outline">
+              <Button onClick={() => handleExport(answers[0])} variant="outline" disabled={answers[0].streaming}>
                 <Download className="mr-2 h-4 w-4" />
                 Exportar DOCX
               </Button>
             )}
           </div>
-          <AnswerCompareGrid answers={answers} />
+          {judged && <AnswerJudgment {...judged} />}
+          <AnswerCompareGrid answers={answers} ratings={judged?.judgment?.ratings} />
         </div>
       )}
 
@@ -17,6 +17,7 @@ import {
   Download
 } from 'lucide-react';
 import Link from 'next/link';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ImprovementSuggestion } from '@/lib/improvement/types';
 
 type ImprovementJob = {
@@ -59,6 +60,7 @@ export default function ImprovementPage() {
   const [loading, setLoading] = useState(true);
   const [acceptedSuggestions, setAcceptedSuggestions] = useState<Set<string>>(new Set());
   const [applying, setApplying] = useState(false);
+  const [trackChanges, setTrackChanges] = useState(false);
 
   useEffect(() => {
     loadJob();
@@ -149,7 +151,8 @@ export default function ImprovementPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          acceptedSuggestionIds: Array.from(acceptedSuggestions)
+          acceptedSuggestionIds: Array.from(acceptedSuggestions),
+          mode: trackChanges ? 'track' : 'replace'
         })
       });
 
@@ -163,7 +166,7 @@ export default function ImprovementPage() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${job.globalContext.title || 'documento'}_melhorado.docx`;
+      a.download = `${job.globalContext.title || 'documento'}_melhorado${trackChanges ? '_revisao' : ''}.docx`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -308,6 +311,15 @@ export default function ImprovementPage() {
           <h1 className="text-3xl font-bold">Sugestões de Melhoria</h1>
           <p className="text-muted-foreground mt-1">{job.globalContext?.title || 'Sem título'}</p>
         </div>
+        {!pipelineId && (
+          <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+            <Checkbox
+              checked={trackChanges}
+              onCheckedChange={(checked) => setTrackChanges(checked as boolean)}
+            />
+            Controle de alterações (Word)
+          </label>
+        )}
         <Button
           onClick={applyImprovements}
           disabled={acceptedCount === 0 || applying}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Mail } from 'lucide-react';
+import { toast } from 'sonner';
+
+export default function InvitationPage() {
+  const params = useParams();
+  const router = useRouter();
+  const token = params.token as string;
+
+  const [accepting, setAccepting] = useState(false);
+
+  const handleAccept = async () => {
+    try {
+      setAccepting(true);
+      const res = await fetch(`/api/invitations/${token}/accept`, { method: 'POST' });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Falha ao aceitar convite');
+      }
+
+      toast.success('Convite aceito!');
+      router.push(`/theses/${data.thesisId}`);
+    } catch (error: any) {
+      console.error('[INVITATION-PAGE] Error accepting invitation:', error);
+      toast.error(error.message);
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5 text-primary" />
+            Convite para colaborar
+          </CardTitle>
+          <CardDescription>
+            Ao aceitar, a tese aparecerá no seu dashboard com o papel definido no convite.
+            O convite só vale para o email em que foi recebido.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => router.push('/')} disabled={accepting}>
+            Agora não
+          </Button>
+          <Button onClick={handleAccept} disabled={accepting}>
+            {accepting ? 'Aceitando...' : 'Aceitar Convite'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
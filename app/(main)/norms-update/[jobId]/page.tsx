@@ -19,6 +19,7 @@ import {
   Info
 } from 'lucide-react';
 import Link from 'next/link';
+import { Checkbox } from '@/components/ui/checkbox';
 import { NormReference } from '@/lib/norms-update/types';
 
 type NormUpdateJob = {
@@ -74,6 +75,7 @@ export default function NormUpdatePage() {
   const [loading, setLoading] = useState(true);
   const [acceptedReferences, setAcceptedReferences] = useState<Set<string>>(new Set());
   const [applying, setApplying] = useState(false);
+  const [trackChanges, setTrackChanges] = useState(false);
 
   useEffect(() => {
     loadJob();
@@ -160,7 +162,8 @@ export default function NormUpdatePage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          acceptedReferenceIds: Array.from(acceptedReferences)
+          acceptedReferenceIds: Array.from(acceptedReferences),
+          mode: trackChanges ? 'track' : 'replace'
         })
       });
 
@@ -174,7 +177,7 @@ export default function NormUpdatePage() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `documento_normas_atualizadas.docx`;
+      a.download = `documento_normas_atualizadas${trackChanges ? '_revisao' : ''}.docx`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -303,6 +306,15 @@ export default function NormUpdatePage() {
           <h1 className="text-3xl font-bold">Atualização de Normas</h1>
           <p className="text-muted-foreground mt-1">{job.stats.total} referências encontradas</p>
         </div>
+        {!pipelineId && (
+          <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+            <Checkbox
+              checked={trackChanges}
+              onCheckedChange={(checked) => setTrackChanges(checked as boolean)}
+            />
+            Controle de alterações (Word)
+          </label>
+        )}
         <Button
           onClick={applyUpdates}
           disabled={acceptedCount === 0 || applying}
@@ -7,7 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { NewProjectDialog } from '@/components/new-project-dialog';
 import { NewThesisDialog } from '@/components/thesis/new-thesis-dialog';
-import { FolderPlus, Folder, FileText, Sparkles, BookOpen, GraduationCap } from 'lucide-react';
+import { FolderPlus, Folder, FileText, Sparkles, BookOpen, GraduationCap, Mail } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
 
@@ -27,11 +27,20 @@ type Thesis = {
   createdAt: string;
   updatedAt: string;
   chapterCount: number;
+  role: 'owner' | 'coauthor' | 'reviewer';
+};
+
+type Invitation = {
+  id: string;
+  token: string;
+  role: 'coauthor' | 'reviewer';
+  thesisTitle: string;
 };
 
 export default function HomePage() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [theses, setTheses] = useState<Thesis[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'projects' | 'theses'>('theses');
   const [newProjectDialogOpen, setNewProjectDialogOpen] = useState(false);
@@ -59,9 +68,20 @@ export default function HomePage() {
     }
   };
 
+  const loadInvitations = async () => {
+    try {
+      const res = await fetch('/api/invitations');
+      if (!res.ok) return;
+      const data = await res.json();
+      setInvitations(data.invitations || []);
+    } catch (error) {
+      console.error('[HOME] Error loading invitations:', error);
+    }
+  };
+
   const loadAll = async () => {
     setLoading(true);
-    await Promise.all([loadProjects(), loadTheses()]);
+    await Promise.all([loadProjects(), loadTheses(), loadInvitations()]);
     setLoading(false);
   };
 
@@ -109,6 +129,25 @@ export default function HomePage() {
           </div>
         </div>
 
+        {/* Pending thesis invitations */}
+        {invitations.length > 0 && (
+          <Card className="bg-white/5 border-red-500/30">
+            <CardContent className="py-4 space-y-2">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-gray-300 flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-red-500" />
+                    Você foi convidado como {invitation.role === 'reviewer' ? 'orientador/revisor' : 'coautor'} na tese "{invitation.thesisTitle}"
+                  </p>
+                  <Link href={`/invitations/${invitation.token}`}>
+                    <Button size="sm" variant="outline">Ver convite</Button>
+                  </Link>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Content */}
         {loading ? (
           <div className="flex flex-col items-center justify-center py-20">
@@ -187,6 +226,11 @@ export default function HomePage() {
                                 <FileText className="h-3 w-3 mr-1.5" />
                                 {thesis.chapterCount} {thesis.chapterCount === 1 ? 'cap' : 'caps'}
                               </Badge>
+                              {thesis.role !== 'owner' && (
+                                <Badge variant="outline" className="border-red-500/30 text-gray-300">
+                                  {thesis.role === 'reviewer' ? 'Revisor' : 'Coautor'}
+                                </Badge>
+                              )}
                             </div>
                             <CardTitle className="line-clamp-1 text-xl font-bold text-white group-hover:text-red-400 transition-colors">
                               {thesis.title}
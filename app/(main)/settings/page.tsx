@@ -6,12 +6,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Save, CheckCircle, XCircle, Loader2, AlertCircle } from 'lucide-react';
+import type { AIProvider } from '@/lib/ai/types';
+import { formatFallbackChains } from '@/lib/ai/fallbacks';
+import { OPERATION_LABELS, UsageDashboard } from '@/components/usage-dashboard';
+import { PromptTemplateEditor } from '@/components/prompt-template-editor';
+import { JudgeLeaderboard } from '@/components/judge-leaderboard';
+import { AI_OPERATIONS, type AIOperation } from '@/lib/ai/types';
 
 export default function SettingsPage() {
   const [settings, setSettings] = useState<any>(null);
+  const [fallbackText, setFallbackText] = useState('');
+  const [cacheStats, setCacheStats] = useState<{ entries: number; hits: number; savedUsd: number } | null>(null);
+  const [clearingCache, setClearingCache] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState<Record<string, boolean>>({});
@@ -21,12 +31,14 @@ export default function SettingsPage() {
     openai: string[];
     gemini: string[];
     grok: string[];
-  }>({ openai: [], gemini: [], grok: [] });
+    local: string[];
+  }>({ openai: [], gemini: [], grok: [], local: [] });
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
     setMounted(true);
     loadSettings();
+    loadCacheStats();
   }, []);
 
   useEffect(() => {
@@ -34,14 +46,16 @@ export default function SettingsPage() {
       if (settings?.openaiKey) loadAllModels('openai');
       if (settings?.googleKey) loadAllModels('gemini');
       if (settings?.xaiKey) loadAllModels('grok');
+      if (settings?.localBaseUrl) loadAllModels('local');
     }
-  }, [mounted, settings?.openaiKey, settings?.googleKey, settings?.xaiKey]);
+  }, [mounted, settings?.openaiKey, settings?.googleKey, settings?.xaiKey, settings?.localBaseUrl]);
 
   const loadSettings = async () => {
     try {
       const res = await fetch('/api/settings');
       const data = await res.json();
       setSettings(data.settings);
+      setFallbackText(formatFallbackChains(data.settings?.fallbackChains || []));
     } catch (error: any) {
       toast.error('Erro ao carregar configurações');
     } finally {
@@ -49,16 +63,55 @@ export default function SettingsPage() {
     }
   };
 
+  const loadCacheStats = async () => {
+    try {
+      const res = await fetch('/api/settings/cache');
+      if (res.ok) setCacheStats(await res.json());
+    } catch {
+      setCacheStats(null);
+    }
+  };
+
+  const handleClearCache = async () => {
+    setClearingCache(true);
+    try {
+      const res = await fetch('/api/settings/cache', { method: 'DELETE' });
+      if (!res.ok) throw new Error('Falha ao limpar cache');
+
+      toast.success('Cache limpo');
+      await loadCacheStats();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setClearingCache(false);
+    }
+  };
+
+  const toggleCacheOperation = (operation: AIOperation, enabled: boolean) => {
+    setSettings((prev: any) => {
+      const disabled: AIOperation[] = prev.cacheDisabledOperations || [];
+      return {
+        ...prev,
+        cacheDisabledOperations: enabled
+          ? disabled.filter(op => op !== operation)
+          : [...disabled, operation]
+      };
+    });
+  };
+
   const handleSave = async () => {
     setSaving(true);
     try {
       const res = await fetch('/api/settings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(settings)
+        body: JSON.stringify({ ...settings, fallbackChains: fallbackText })
       });
 
-      if (!res.ok) throw new Error('Falha ao salvar');
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Falha ao salvar');
+      }
 
       toast.success('Configurações salvas com sucesso!');
     } catch (error: any) {
@@ -68,7 +121,7 @@ export default function SettingsPage() {
     }
   };
 
-  const loadAllModels = async (provider: 'openai' | 'gemini' | 'grok') => {
+  const loadAllModels = async (provider: AIProvider) => {
     setLoadingModels((prev) => ({ ...prev, [provider]: true }));
 
     try {
@@ -92,7 +145,7 @@ export default function SettingsPage() {
     }
   };
 
-  const toggleModel = (provider: 'openai' | 'gemini' | 'grok', model: string) => {
+  const toggleModel = (provider: AIProvider, model: string) => {
     const currentModels = settings?.models[provider] || [];
     const isSelected = currentModels.includes(model);
 
@@ -106,7 +159,7 @@ export default function SettingsPage() {
     }));
   };
 
-  const handleTest = async (provider: 'openai' | 'gemini' | 'grok') => {
+  const handleTest = async (provider: AIProvider) => {
     setTesting((prev) => ({ ...prev, [provider]: true }));
     setTestResults((prev) => ({ ...prev, [provider]: null }));
 
@@ -298,6 +351,106 @@ export default function SettingsPage() {
               Modelos: {settings?.models.grok?.join(', ')}
             </p>
           </div>
+
+          {/* Local (Ollama / llama.cpp / vLLM) */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="local-url">Servidor Local (compatível com OpenAI)</Label>
+              {testResults.local === 'success' && (
+                <Badge variant="secondary" className="bg-green-950/50 text-green-400 border-green-900">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Conectado
+                </Badge>
+              )}
+              {testResults.local === 'error' && (
+                <Badge variant="secondary" className="bg-red-950/50 text-red-400 border-red-900">
+                  <XCircle className="h-3 w-3 mr-1" />
+                  Erro
+                </Badge>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                id="local-url"
+                placeholder="http://localhost:11434/v1"
+                value={settings?.localBaseUrl || ''}
+                onChange={(e) =>
+                  setSettings((prev: any) => ({ ...prev, localBaseUrl: e.target.value }))
+                }
+              />
+              <Input
+                id="local-key"
+                type="password"
+                placeholder="Chave (opcional)"
+                className="max-w-[200px]"
+                value={settings?.localApiKey || ''}
+                onChange={(e) =>
+                  setSettings((prev: any) => ({ ...prev, localApiKey: e.target.value }))
+                }
+              />
+              <Button
+                variant="outline"
+                onClick={() => handleTest('local')}
+                disabled={testing.local || !settings?.localBaseUrl}
+              >
+                {testing.local ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  'Testar'
+                )}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Modelos: {settings?.models.local?.join(', ')} · Custo: $0 (roda na sua rede)
+            </p>
+          </div>
+
+          {/* Simulado (mock) */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="mock-enabled">Provedor Simulado (offline)</Label>
+              {testResults.mock === 'success' && (
+                <Badge variant="secondary" className="bg-green-950/50 text-green-400 border-green-900">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Conectado
+                </Badge>
+              )}
+              {testResults.mock === 'error' && (
+                <Badge variant="secondary" className="bg-red-950/50 text-red-400 border-red-900">
+                  <XCircle className="h-3 w-3 mr-1" />
+                  Erro
+                </Badge>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="mock-enabled"
+                checked={settings?.mockEnabled || false}
+                onChange={(e) =>
+                  setSettings((prev: any) => ({ ...prev, mockEnabled: e.target.checked }))
+                }
+                className="rounded"
+              />
+              <label htmlFor="mock-enabled" className="text-sm cursor-pointer flex-1">
+                Respostas determinísticas, sem rede e sem chave (demonstrações e testes)
+              </label>
+              <Button
+                variant="outline"
+                onClick={() => handleTest('mock')}
+                disabled={testing.mock || !settings?.mockEnabled}
+              >
+                {testing.mock ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  'Testar'
+                )}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Modelos: {settings?.models.mock?.join(', ')} · Custo: $0 · Salve antes de testar
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -422,9 +575,149 @@ export default function SettingsPage() {
               Selecionados: {settings?.models?.grok?.length || 0}
             </p>
           </div>
+
+          {/* Local */}
+          <div className="space-y-3 border-t pt-6">
+            <Label className="text-base font-semibold">Modelos Locais</Label>
+            {loadingModels.local ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Carregando modelos...
+              </div>
+            ) : availableModels.local.length > 0 ? (
+              <div className="grid grid-cols-2 gap-3">
+                {availableModels.local.map((model) => (
+                  <div key={model} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`local-${model}`}
+                      checked={settings?.models?.local?.includes(model) || false}
+                      onChange={() => toggleModel('local', model)}
+                      className="rounded"
+                    />
+                    <label
+                      htmlFor={`local-${model}`}
+                      className="text-sm cursor-pointer hover:text-primary"
+                    >
+                      {model}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Configure e salve a URL do servidor local para carregar modelos
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Selecionados: {settings?.models?.local?.length || 0}
+            </p>
+          </div>
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Fallback entre Provedores</CardTitle>
+          <CardDescription>
+            Se o modelo principal falhar (limite de taxa, instabilidade), tenta o próximo da cadeia
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="fallback-chains">Cadeias de fallback (uma por linha)</Label>
+          <Textarea
+            id="fallback-chains"
+            rows={4}
+            className="font-mono text-sm"
+            placeholder="gemini:gemini-2.5-flash > openai:gpt-4o-mini > local:llama3.1"
+            value={fallbackText}
+            onChange={(e) => setFallbackText(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Formato provedor:modelo, separados por &gt;. Erros 429/5xx são repetidos com backoff antes de
+            passar ao próximo; erros de chave ou requisição não acionam o fallback. Os fallbacks usados
+            ficam registrados no job.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cache de Respostas</CardTitle>
+          <CardDescription>
+            Reexecutar uma operação sobre texto que não mudou reaproveita a resposta anterior, sem custo
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="cache-enabled"
+              checked={settings?.cacheEnabled || false}
+              onChange={(e) =>
+                setSettings((prev: any) => ({ ...prev, cacheEnabled: e.target.checked }))
+              }
+              className="rounded"
+            />
+            <label htmlFor="cache-enabled" className="text-sm cursor-pointer">
+              Usar cache (chave: provedor, modelo, prompt normalizado e temperatura)
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cache-ttl">Validade (horas)</Label>
+            <Input
+              id="cache-ttl"
+              type="number"
+              min="1"
+              value={settings?.cacheTtlHours ?? 168}
+              disabled={!settings?.cacheEnabled}
+              onChange={(e) =>
+                setSettings((prev: any) => ({ ...prev, cacheTtlHours: Number(e.target.value) }))
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Operações que usam o cache</Label>
+            <div className="flex flex-wrap gap-4">
+              {AI_OPERATIONS.map((operation) => (
+                <label key={operation} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!settings?.cacheDisabledOperations?.includes(operation)}
+                    disabled={!settings?.cacheEnabled}
+                    onChange={(e) => toggleCacheOperation(operation, e.target.checked)}
+                    className="rounded"
+                  />
+                  {OPERATION_LABELS[operation]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Desmarque operações que devem sempre consultar o modelo (ex.: normas, se a verificação na web precisar estar atualizada)
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {cacheStats
+                ? `${cacheStats.entries} respostas em cache · ${cacheStats.hits} reaproveitadas · economia de $${cacheStats.savedUsd.toFixed(4)}`
+                : 'Estatísticas indisponíveis'}
+            </p>
+            <Button variant="outline" onClick={handleClearCache} disabled={clearingCache}>
+              {clearingCache ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Limpar cache'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <UsageDashboard />
+
+      <JudgeLeaderboard />
+
+      <PromptTemplateEditor />
+
       <Card>
         <CardHeader>
           <CardTitle>Estimativas de Custo</CardTitle>
@@ -8,7 +8,8 @@ import { Badge } from '@/components/ui/badge';
 import { ThesisTree } from '@/components/thesis/thesis-tree';
 import { UploadChapterDialog } from '@/components/thesis/upload-chapter-dialog';
 import { CompileThesisDialog } from '@/components/thesis/compile-thesis-dialog';
-import { BookOpen, Upload, ArrowLeft, Trash2, FileText, FileStack } from 'lucide-react';
+import { ShareThesisDialog, ROLE_NAMES } from '@/components/thesis/share-thesis-dialog';
+import { BookOpen, Upload, ArrowLeft, Trash2, FileText, FileStack, Users } from 'lucide-react';
 import { toast } from 'sonner';
 
 type Thesis = {
@@ -18,6 +19,7 @@ type Thesis = {
   createdAt: string;
   updatedAt: string;
   chapterCount: number;
+  role: 'owner' | 'coauthor' | 'reviewer';
 };
 
 type ChapterVersion = {
@@ -53,6 +55,7 @@ export default function ThesisPage() {
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
   const loadThesis = async () => {
@@ -186,6 +189,8 @@ export default function ThesisPage() {
   }
 
   const suggestedOrder = Math.max(0, ...chapters.map((c) => c.chapterOrder), 0) + 1;
+  const isOwner = thesis.role === 'owner';
+  const canEdit = thesis.role !== 'reviewer';
 
   return (
     <div className="space-y-6">
@@ -211,22 +216,31 @@ export default function ThesisPage() {
             <Badge variant="secondary">
               {thesis.chapterCount} {thesis.chapterCount === 1 ? 'capítulo' : 'capítulos'}
             </Badge>
+            {!isOwner && <Badge variant="outline">{ROLE_NAMES[thesis.role]}</Badge>}
             <span className="text-sm text-muted-foreground">
               Criada em {new Date(thesis.createdAt).toLocaleDateString('pt-BR')}
             </span>
           </div>
         </div>
         <div className="flex gap-2">
-          <Button
-            variant="destructive"
-            size="sm"
-            onClick={handleDeleteThesis}
-            disabled={deleting}
-          >
-            <Trash2 className="h-4 w-4 mr-2" />
-            {deleting ? 'Deletando...' : 'Deletar Tese'}
-          </Button>
-          {chapters.length > 0 && (
+          {isOwner && (
+            <>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={handleDeleteThesis}
+                disabled={deleting}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {deleting ? 'Deletando...' : 'Deletar Tese'}
+              </Button>
+              <Button variant="outline" onClick={() => setShareDialogOpen(true)}>
+                <Users className="mr-2 h-4 w-4" />
+                Compartilhar
+              </Button>
+            </>
+          )}
+          {canEdit && chapters.length > 0 && (
             <CompileThesisDialog
               thesisId={thesisId}
               thesisTitle={thesis.title}
@@ -250,10 +264,12 @@ export default function ThesisPage() {
               </Button>
             </CompileThesisDialog>
           )}
-          <Button onClick={() => setUploadDialogOpen(true)}>
-            <Upload className="mr-2 h-4 w-4" />
-            Adicionar Capítulo
-          </Button>
+          {canEdit && (
+            <Button onClick={() => setUploadDialogOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Adicionar Capítulo
+            </Button>
+          )}
         </div>
       </div>
 
@@ -266,16 +282,18 @@ export default function ThesisPage() {
             <p className="text-muted-foreground mb-4">
               Adicione capítulos para começar a trabalhar na sua tese
             </p>
-            <Button onClick={() => setUploadDialogOpen(true)}>
-              <Upload className="mr-2 h-4 w-4" />
-              Adicionar Capítulo
-            </Button>
+            {canEdit && (
+              <Button onClick={() => setUploadDialogOpen(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Adicionar Capítulo
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
         <ThesisTree
           chapters={chapters}
-          onDeleteChapter={handleDeleteChapter}
+          onDeleteChapter={isOwner ? handleDeleteChapter : undefined}
         />
       )}
 
@@ -287,6 +305,14 @@ export default function ThesisPage() {
         onUploadComplete={loadThesis}
         suggestedOrder={suggestedOrder}
       />
+
+      {isOwner && (
+        <ShareThesisDialog
+          thesisId={thesisId}
+          open={shareDialogOpen}
+          onOpenChange={setShareDialogOpen}
+        />
+      )}
     </div>
   );
 }
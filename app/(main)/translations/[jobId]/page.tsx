@@ -447,6 +447,16 @@ export default function TranslationViewPage() {
                       ⚠ {job.progress.stats.keptOriginal} kept original
                     </p>
                   )}
+                  {job.progress.stats.memoryHits > 0 && (
+                    <p className="text-xs text-gray-400">
+                      {job.progress.stats.memoryHits} reused from translation memory
+                    </p>
+                  )}
+                  {job.progress.stats.terminologyViolations > 0 && (
+                    <p className="text-xs text-red-600">
+                      {job.progress.stats.terminologyViolations} terminology violations
+                    </p>
+                  )}
                 </div>
               </div>
             </Card>
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { getUserById } from '@/lib/auth/users';
+import { listOutbox } from '@/lib/mail/outbox';
+
+/**
+ * GET /api/account/outbox - Emails "sent" to the logged-in user
+ *
+ * Stand-in for a real mail provider (see lib/mail/outbox.ts)
+ */
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const user = await getUserById(userId);
+    if (!user) return unauthorizedResponse();
+
+    const messages = await listOutbox(user.email);
+
+    return NextResponse.json({
+      messages: messages.map(m => ({
+        id: m.id,
+        subject: m.subject,
+        body: m.body,
+        createdAt: m.created_at
+      }))
+    });
+  } catch (error: any) {
+    console.error('[ACCOUNT] Error loading outbox:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { changePassword, UserError } from '@/lib/auth/users';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/account/password - Change the logged-in user's password
+ *
+ * Body: { currentPassword, newPassword }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { currentPassword, newPassword } = await req.json();
+
+    await changePassword(userId, currentPassword, newPassword);
+
+    return NextResponse.json({ message: 'Password changed successfully' });
+  } catch (error: any) {
+    if (error instanceof UserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[ACCOUNT] Password change error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUser, UserError } from '@/lib/auth/users';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/account/signup - Create a new user account
+ *
+ * Body: { email, password, name? }
+ * After signup the client logs in through next-auth (credentials provider).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { email, password, name } = await req.json();
+
+    const user = await createUser({ email, password, name });
+
+    return NextResponse.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        createdAt: user.created_at
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof UserError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[ACCOUNT] Signup error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
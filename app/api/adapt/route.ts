@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
+import type { AIProvider } from '@/lib/ai/types';
 
 /**
  * POST /api/adapt
@@ -19,7 +20,7 @@ export async function POST(req: NextRequest) {
       sourceDocumentPath?: string;
       style?: 'academic' | 'professional' | 'simplified' | 'custom';
       targetAudience?: string;
-      provider?: 'openai' | 'gemini';
+      provider?: AIProvider;
       model?: string;
     } = await req.json();
 
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findOwnedDocument, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import { randomUUID } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { analyzeDocumentForAdjustments } from '@/lib/adjust/processor';
+import type { AIProvider } from '@/lib/ai/types';
 
 /**
  * POST /api/adjust
@@ -12,6 +14,9 @@ import { analyzeDocumentForAdjustments } from '@/lib/adjust/processor';
  */
 export async function POST(req: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const {
       documentId,
       sourceDocumentPath, // Optional: for pipeline usage
@@ -24,7 +29,7 @@ export async function POST(req: NextRequest) {
       sourceDocumentPath?: string;
       instructions: string;
       creativity?: number;
-      provider?: 'openai' | 'gemini' | 'grok';
+      provider?: AIProvider;
       model?: string;
     } = await req.json();
 
@@ -52,13 +57,9 @@ export async function POST(req: NextRequest) {
       docId = documentId || 'pipeline';
     } else {
       // Standalone mode - download from Storage
-      const { data: doc, error: docError } = await supabase
-        .from('documents')
-        .select('*')
-        .eq('id', documentId)
-        .single();
+      const doc = await findOwnedDocument(documentId!, userId);
 
-      if (docError || !doc) {
+      if (!doc) {
         return NextResponse.json(
           { error: 'Document not found' },
           { status: 404 }
@@ -66,7 +67,7 @@ export async function POST(req: NextRequest) {
       }
 
       // Download document
-      const { data: fileBlob, error: downloadError } = await supabase.storage
+      const { data: fileBlob, error: downloadError } = await storage
         .from('documents')
         .download(doc.file_path);
 
@@ -122,25 +123,18 @@ async function executeAdjust(
   documentPath: string,
   instructions: string,
   creativity: number,
-  provider: 'openai' | 'gemini' | 'grok',
+  provider: AIProvider,
   model: string
 ) {
   try {
     console.log(`[ADJUST ${jobId}] Analyzing document with instructions...`);
 
-    const apiKey = provider === 'openai'
-      ? process.env.OPENAI_API_KEY!
-      : provider === 'gemini'
-      ? (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY)!
-      : process.env.GROK_API_KEY!;
-
     const suggestions = await analyzeDocumentForAdjustments(
       documentPath,
       instructions,
       creativity,
       provider,
-      model,
-      apiKey
+      model
     );
 
     console.log(`[ADJUST ${jobId}] Found ${suggestions.length} adjustments`);
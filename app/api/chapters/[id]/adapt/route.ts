@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createOperationJob, executeAdaptOperation } from '@/lib/thesis/chapter-operations';
 import { AIProvider } from '@/lib/ai/types';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findChapterVersionAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { CONTEXT_SEARCH_MODES, type ContextSearchMode } from '@/lib/thesis/types';
+import { runInAIScope } from '@/lib/ai/scope';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+import { parsePromptVersions, PromptTemplateError } from '@/lib/ai/prompt-templates';
 
 type ReferenceInput = {
   type: 'link' | 'file';
@@ -19,6 +24,9 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: chapterId } = await params;
     const body = await req.json();
     const {
@@ -28,7 +36,8 @@ export async function POST(
       provider = 'openai',
       model = 'gpt-4o-mini',
       references = [],
-      contextVersionIds = []
+      contextVersionIds = [],
+      contextSearchMode
     }: {
       versionId: string;
       style?: 'academic' | 'professional' | 'simplified' | 'custom';
@@ -37,6 +46,7 @@ export async function POST(
       model?: string;
       references?: ReferenceInput[];
       contextVersionIds?: string[];
+      contextSearchMode?: ContextSearchMode;
     } = body;
 
     if (!versionId) {
@@ -46,6 +56,39 @@ export async function POST(
       );
     }
 
+    if (contextSearchMode !== undefined && !CONTEXT_SEARCH_MODES.includes(contextSearchMode)) {
+      return NextResponse.json(
+        { error: `Invalid contextSearchMode. Use one of: ${CONTEXT_SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Running operations requires edit access; context versions only need to be readable
+    const access = await findChapterVersionAccess(versionId, userId);
+    if (!access || access.version.chapter_id !== chapterId) {
+      return NextResponse.json(
+        { error: 'Chapter version not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    // Orçamento de IA da tese ou do usuário estourado: não inicia o job
+    await assertWithinBudget({ userId, thesisId: access.chapter.thesis_id });
+
+    // Versões de prompt fixadas para este job (sem valor = as ativas)
+    const promptVersions = await parsePromptVersions(body.promptVersions, userId);
+
+    for (const contextVersionId of contextVersionIds) {
+      if (!(await findChapterVersionAccess(contextVersionId, userId))) {
+        return NextResponse.json(
+          { error: `Context version not found: ${contextVersionId}` },
+          { status: 404 }
+        );
+      }
+    }
+
     if (style === 'custom' && !targetAudience) {
       return NextResponse.json(
         { error: 'Target audience is required when style is custom' },
@@ -56,7 +99,7 @@ export async function POST(
     console.log(`[CHAPTER-ADAPT-API] Starting adapt for chapter ${chapterId}, version ${versionId}`);
     console.log(`[CHAPTER-ADAPT-API] Style: ${style}, Target audience: ${targetAudience || 'general'}`);
     console.log(`[CHAPTER-ADAPT-API] References provided: ${references.length}`);
-    console.log(`[CHAPTER-ADAPT-API] Context chapters: ${contextVersionIds.length}`);
+    console.log(`[CHAPTER-ADAPT-API] Context chapters: ${contextVersionIds.length}${contextSearchMode ? ` (${contextSearchMode})` : ''}`);
 
     // Cria job
     const jobId = await createOperationJob(chapterId, versionId, 'adapt');
@@ -74,7 +117,7 @@ export async function POST(
         mime_type: ref.mimeType || null,
       }));
 
-      const { error: refError } = await supabase
+      const { error: refError } = await db
         .from('operation_references')
         .insert(referencesToInsert);
 
@@ -86,16 +129,27 @@ export async function POST(
     }
 
     // Executa em background
-    executeAdaptOperation(
-      jobId,
-      chapterId,
-      versionId,
-      style,
-      targetAudience,
-      provider,
-      model,
-      references,
-      contextVersionIds
+    runInAIScope(
+      {
+        operation: 'adapt',
+        job: { table: 'chapter_operation_jobs', id: jobId },
+        userId,
+        thesisId: access.chapter.thesis_id,
+        chapterId,
+        promptVersions
+      },
+      () => executeAdaptOperation(
+        jobId,
+        chapterId,
+        versionId,
+        style,
+        targetAudience,
+        provider,
+        model,
+        references,
+        contextVersionIds,
+        contextSearchMode
+      )
     ).catch(err => {
       console.error('[CHAPTER-ADAPT-API] Background error:', err);
     });
@@ -112,6 +166,13 @@ export async function POST(
     });
 
   } catch (error: any) {
+    if (error instanceof BudgetExceededError || error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('[CHAPTER-ADAPT-API] Error:', error);
     return NextResponse.json(
       { error: error.message },
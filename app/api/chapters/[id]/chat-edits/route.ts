@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createOperationJob } from '@/lib/thesis/chapter-operations';
+import { ChatEditError, executeChatEditOperation, validateInstruction } from '@/lib/thesis/chat-edits';
+import { VersionContentError } from '@/lib/thesis/version-paragraphs';
+import { AIProvider } from '@/lib/ai/types';
+import { findChapterVersionAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { runInAIScope } from '@/lib/ai/scope';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+
+/**
+ * POST /api/chapters/[id]/chat-edits - Edit mode of the chapter chat
+ *
+ * Body: { versionId, instruction, provider?, model? }
+ *
+ * Turns the instruction into suggestions on the given version and stores them
+ * as a chat_edit operation job. Unlike the other operations it runs inline
+ * (a single AI call). Review and apply them through
+ * /api/chapters/[id]/operations/[jobId]/suggestions and .../apply.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId } = await params;
+    const {
+      versionId,
+      instruction: rawInstruction,
+      provider = 'openai',
+      model = 'gpt-4o-mini'
+    }: {
+      versionId: string;
+      instruction: string;
+      provider?: AIProvider;
+      model?: string;
+    } = await req.json();
+
+    if (!versionId) {
+      return NextResponse.json(
+        { error: 'Missing required field: versionId' },
+        { status: 400 }
+      );
+    }
+
+    const access = await findChapterVersionAccess(versionId, userId);
+    if (!access || access.version.chapter_id !== chapterId) {
+      return NextResponse.json(
+        { error: 'Chapter version not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    const instruction = validateInstruction(rawInstruction);
+
+    await assertWithinBudget({ userId, thesisId: access.chapter.thesis_id });
+
+    console.log(`[CHAT-EDIT-API] Chapter ${chapterId}, version ${versionId}, ${provider}/${model}: ${instruction.substring(0, 100)}`);
+
+    const jobId = await createOperationJob(chapterId, versionId, 'chat_edit');
+
+    const { message, suggestions } = await runInAIScope(
+      {
+        operation: 'chat',
+        job: { table: 'chapter_operation_jobs', id: jobId },
+        userId,
+        thesisId: access.chapter.thesis_id,
+        chapterId
+      },
+      () => executeChatEditOperation(jobId, versionId, access.chapter.title, instruction, provider, model)
+    );
+
+    return NextResponse.json({ jobId, message, suggestions });
+
+  } catch (error: any) {
+    if (
+      error instanceof ChatEditError ||
+      error instanceof VersionContentError ||
+      error instanceof BudgetExceededError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[CHAT-EDIT-API] Error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
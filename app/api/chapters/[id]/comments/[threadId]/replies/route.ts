@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findChapterAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { addReply, CommentError } from '@/lib/thesis/comments';
+
+/**
+ * POST /api/chapters/[id]/comments/[threadId]/replies - Reply to a thread
+ *
+ * Body: { body: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, threadId } = await params;
+    const { body } = await req.json();
+
+    const access = await findChapterAccess(chapterId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'review')) return forbiddenResponse('review');
+
+    await addReply({ chapterId, threadId, body, userId });
+
+    return NextResponse.json({ threadId }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[COMMENTS] Error adding reply:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
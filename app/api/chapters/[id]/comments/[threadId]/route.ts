@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findChapterAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { CommentError, setThreadStatus } from '@/lib/thesis/comments';
+
+/**
+ * PATCH /api/chapters/[id]/comments/[threadId] - Resolve or reopen a thread
+ *
+ * Body: { status: 'open' | 'resolved' }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, threadId } = await params;
+    const { status } = await req.json();
+
+    const access = await findChapterAccess(chapterId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'review')) return forbiddenResponse('review');
+
+    await setThreadStatus({ chapterId, threadId, status, userId });
+
+    return NextResponse.json({ threadId, status });
+  } catch (error: any) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[COMMENTS] Error updating thread:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
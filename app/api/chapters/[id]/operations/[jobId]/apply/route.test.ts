@@ -0,0 +1,90 @@
+import { Document, Packer, Paragraph } from 'docx';
+import JSZip from 'jszip';
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { db, storage } from '@/lib/storage';
+import { POST } from './route';
+
+// Usuário da sessão trocado por teste
+let sessionUserId: string | null = null;
+vi.mock('@/auth', () => ({ auth: async () => (sessionUserId ? { user: { id: sessionUserId } } : null) }));
+
+async function createUser(email: string) {
+  const { data } = await db.from('users').insert({ email, name: email, password_hash: 'x' }).select().single();
+  return data.id as string;
+}
+
+function apply(chapterId: string, jobId: string, body: object) {
+  const req = new NextRequest('http://localhost/api/apply', { method: 'POST', body: JSON.stringify(body) });
+  return POST(req, { params: Promise.resolve({ id: chapterId, jobId }) });
+}
+
+describe('POST /api/chapters/[id]/operations/[jobId]/apply', () => {
+  let owner: string;
+  let reviewer: string;
+  let stranger: string;
+  let chapterId: string;
+  let jobId: string;
+
+  beforeAll(async () => {
+    owner = await createUser('owner@apply.dev');
+    reviewer = await createUser('reviewer@apply.dev');
+    stranger = await createUser('stranger@apply.dev');
+
+    const thesisId = (await db.from('theses').insert({ title: 'Tese', owner_id: owner }).select().single()).data.id;
+    await db.from('thesis_members').insert({ thesis_id: thesisId, user_id: reviewer, role: 'reviewer', invited_by: owner });
+    chapterId = (await db.from('chapters').insert({ thesis_id: thesisId, title: 'Cap', chapter_order: 1 }).select().single()).data.id;
+
+    const buffer = await Packer.toBuffer(new Document({
+      sections: [{ children: [new Paragraph('O estudo analisa a politica educacional.')] }]
+    }));
+    await storage.from('documents').upload(`${chapterId}/v1.docx`, buffer);
+
+    const { data: versionId } = await db.rpc('create_chapter_version', {
+      p_chapter_id: chapterId,
+      p_file_path: `${chapterId}/v1.docx`,
+      p_parent_version_id: null,
+      p_created_by_operation: 'upload',
+      p_metadata: {}
+    });
+
+    jobId = (await db.from('chapter_operation_jobs').insert({
+      chapter_id: chapterId,
+      version_id: versionId,
+      operation: 'adjust',
+      status: 'completed',
+      metadata: {
+        suggestions: [{ id: 's1', originalText: 'politica', improvedText: 'política', reason: 'Acento', type: 'grammar', confidence: 1 }]
+      }
+    }).select().single()).data.id;
+  });
+
+  it('lets a reviewer approve suggestions into a new version', async () => {
+    sessionUserId = reviewer;
+    const res = await apply(chapterId, jobId, { acceptedSuggestionIds: ['s1'] });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.appliedCount).toBe(1);
+
+    const { data: version } = await db.from('chapter_versions').select('*').eq('id', body.newVersionId).single();
+    const { data: file } = await storage.from('documents').download(version.file_path);
+    const zip = await JSZip.loadAsync(Buffer.from(await file!.arrayBuffer()));
+    const text = (await zip.file('word/document.xml')!.async('string')).replace(/<[^>]+>/g, '');
+    expect(text).toContain('O estudo analisa a política educacional.');
+  });
+
+  it('hides the job from users outside the thesis', async () => {
+    sessionUserId = stranger;
+    expect((await apply(chapterId, jobId, { acceptedSuggestionIds: ['s1'] })).status).toBe(404);
+
+    sessionUserId = null;
+    expect((await apply(chapterId, jobId, { acceptedSuggestionIds: ['s1'] })).status).toBe(401);
+  });
+
+  it('rejects empty selections and unknown modes', async () => {
+    sessionUserId = owner;
+    expect((await apply(chapterId, jobId, { acceptedSuggestionIds: [] })).status).toBe(400);
+    expect((await apply(chapterId, jobId, { acceptedSuggestionIds: ['s1'], mode: 'merge' })).status).toBe(400);
+  });
+});
@@ -1,30 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findChapterAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { getUserById } from '@/lib/auth/users';
+import { carryForwardThreads, versionWordComments } from '@/lib/thesis/comments';
+import { applyChatEditsToDocx } from '@/lib/thesis/chat-edits';
+import { processChapterVersion } from '@/lib/thesis/chapter-processor';
+import { replaceParagraphText } from '@/lib/docx-xml';
+import { applyTrackedChangesToDocx, isApplyMode, trackChangesAuthor } from '@/lib/docx-track-changes';
+import type { ImprovementSuggestion } from '@/lib/improvement/types';
+import JSZip from 'jszip';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { randomUUID } from 'crypto';
 
+const PARAGRAPH_REGEX = /<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g;
+
+// POST /api/chapters/[id]/operations/[jobId]/apply - Cria uma nova versão com as sugestões aceitas
+// Body: { acceptedSuggestionIds, mode?: 'replace' | 'track' } - 'track' grava as sugestões como
+// controle de alterações do Word e os comentários abertos da versão como comentários do Word
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string; jobId: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: chapterId, jobId } = await params;
-    const body = await req.json();
-    const { acceptedSuggestionIds } = body;
 
-    console.log(`[APPLY-API] Applying ${acceptedSuggestionIds.length} suggestions for job: ${jobId}`);
+    const access = await findChapterAccess(chapterId, userId);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    // Aprovar sugestões é permitido também ao orientador (reviewer)
+    if (!roleCan(access.role, 'review')) return forbiddenResponse('review');
+
+    const body = await req.json();
+    const { acceptedSuggestionIds, mode = 'replace' } = body;
 
-    if (!acceptedSuggestionIds || acceptedSuggestionIds.length === 0) {
+    if (!Array.isArray(acceptedSuggestionIds) || acceptedSuggestionIds.length === 0) {
       return NextResponse.json(
         { error: 'No suggestions selected' },
         { status: 400 }
       );
     }
 
+    if (!isApplyMode(mode)) {
+      return NextResponse.json(
+        { error: `Invalid mode: ${mode}. Use 'replace' or 'track'` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[APPLY-API] Applying ${acceptedSuggestionIds.length} suggestions for job: ${jobId} (mode: ${mode})`);
+
     // Busca job
-    const { data: job, error: jobError } = await supabase
+    const { data: job, error: jobError } = await db
       .from('chapter_operation_jobs')
       .select('*')
       .eq('id', jobId)
@@ -40,7 +77,7 @@ export async function POST(
     }
 
     // Busca versão original
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('id', job.version_id)
@@ -55,7 +92,7 @@ export async function POST(
     }
 
     // Baixa arquivo original
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -83,15 +120,48 @@ export async function POST(
 
     console.log(`[APPLY-API] Applying ${acceptedSuggestions.length} accepted suggestions`);
 
-    // TODO: Implementar aplicação real das sugestões no documento DOCX
-    // Por enquanto, copia o arquivo original
-    await fs.copyFile(sourcePath, outputPath);
+    let edited: Buffer;
+    let appliedCount: number;
+
+    if (mode === 'track') {
+      // Sugestões viram w:del/w:ins com o motivo como comentário; as threads
+      // abertas da versão de origem vão junto como comentários do Word
+      const user = await getUserById(userId);
+      ({ buffer: edited, applied: appliedCount } = await applyTrackedChangesToDocx(
+        buffer,
+        acceptedSuggestions.map((s: ImprovementSuggestion) => ({
+          originalText: s.originalText,
+          newText: s.improvedText,
+          comment: s.reason
+        })),
+        {
+          author: trackChangesAuthor(user?.name),
+          paragraphComments: await versionWordComments(job.version_id)
+        }
+      ));
+    } else {
+      // Edições do chat apontam para parágrafos da versão; as das demais
+      // operações são localizadas pelo texto original
+      ({ buffer: edited, applied: appliedCount } = job.operation === 'chat_edit'
+        ? await applyChatEditsToDocx(buffer, acceptedSuggestions)
+        : await applySuggestionsToDocx(buffer, acceptedSuggestions));
+    }
+
+    if (appliedCount === 0) {
+      await fs.unlink(sourcePath).catch(() => {});
+      return NextResponse.json(
+        { error: 'None of the selected suggestions could be applied to the document' },
+        { status: 409 }
+      );
+    }
+
+    await fs.writeFile(outputPath, edited);
 
     // Faz upload do novo arquivo
     const newFileName = `${chapterId}/${randomUUID()}.docx`;
     const outputBuffer = await fs.readFile(outputPath);
 
-    const { error: uploadError } = await supabase.storage
+    const { error: uploadError } = await storage
       .from('documents')
       .upload(newFileName, outputBuffer, {
         contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
@@ -104,15 +174,17 @@ export async function POST(
     }
 
     // Cria nova versão usando RPC
-    const { data: newVersionId, error: versionRpcError } = await supabase.rpc('create_chapter_version', {
+    const { data: newVersionId, error: versionRpcError } = await db.rpc('create_chapter_version', {
       p_chapter_id: chapterId,
       p_file_path: newFileName,
       p_parent_version_id: job.version_id,
       p_created_by_operation: job.operation,
       p_metadata: {
         acceptedSuggestions: acceptedSuggestions.length,
+        appliedSuggestions: appliedCount,
         totalSuggestions: allSuggestions.length,
-        appliedIds: acceptedSuggestionIds
+        appliedIds: acceptedSuggestionIds,
+        trackChanges: mode === 'track'
       }
     });
 
@@ -121,8 +193,18 @@ export async function POST(
       throw new Error(`Failed to create version: ${versionRpcError.message}`);
     }
 
+    // Comentários abertos acompanham os parágrafos que sobreviveram às sugestões aplicadas
+    try {
+      await carryForwardThreads(job.version_id, newVersionId);
+    } catch (carryError: any) {
+      console.warn(`[APPLY-API] Failed to carry comments forward: ${carryError.message}`);
+    }
+
+    // A versão nova tem texto diferente da de origem: precisa dos próprios chunks
+    await processChapterVersion(newVersionId);
+
     // Atualiza job com newVersionId
-    await supabase
+    await db
       .from('chapter_operation_jobs')
       .update({ new_version_id: newVersionId })
       .eq('id', jobId);
@@ -136,7 +218,7 @@ export async function POST(
     return NextResponse.json({
       success: true,
       newVersionId,
-      appliedCount: acceptedSuggestions.length
+      appliedCount
     });
 
   } catch (error: any) {
@@ -147,3 +229,53 @@ export async function POST(
     );
   }
 }
+
+/**
+ * Aplica as sugestões aceitas no DOCX: cada uma troca a primeira ocorrência do
+ * texto original (dentro de um parágrafo), mantendo a formatação dos runs em volta
+ */
+async function applySuggestionsToDocx(
+  input: Buffer,
+  suggestions: ImprovementSuggestion[]
+): Promise<{ buffer: Buffer; applied: number }> {
+  const zip = await JSZip.loadAsync(input);
+
+  const file = zip.file('word/document.xml');
+  if (!file) throw new Error('document.xml not found');
+
+  let xmlContent = (await file.async('string')).normalize('NFC');
+
+  let applied = 0;
+  for (const suggestion of suggestions) {
+    if (!suggestion.originalText || !suggestion.improvedText) continue;
+
+    let done = false;
+    xmlContent = xmlContent.replace(PARAGRAPH_REGEX, paragraph => {
+      // Parágrafos com caixas de texto aninhadas não são seguros para a regex
+      if (done || paragraph.includes('<w:txbxContent')) return paragraph;
+
+      const edited = replaceParagraphText(paragraph, suggestion.originalText, suggestion.improvedText);
+      if (!edited) return paragraph;
+
+      done = true;
+      return edited;
+    });
+
+    if (done) {
+      applied++;
+    } else {
+      console.warn(`[APPLY-API] ⚠ Text not found: "${suggestion.originalText.substring(0, 50)}..."`);
+    }
+  }
+
+  zip.file('word/document.xml', Buffer.from(xmlContent, 'utf-8'));
+
+  console.log(`[APPLY-API] Applied ${applied}/${suggestions.length} suggestions`);
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE'
+  });
+
+  return { buffer, applied };
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findChapterAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,10 +9,31 @@ export async function GET(
   { params }: { params: Promise<{ id: string; jobId: string }> }
 ) {
   try {
-    const { jobId } = await params;
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, jobId } = await params;
+
+    if (!(await findChapterAccess(chapterId, userId))) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: job } = await db
+      .from('chapter_operation_jobs')
+      .select('id')
+      .eq('id', jobId)
+      .eq('chapter_id', chapterId)
+      .maybeSingle();
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
 
     // Fetch references for the job
-    const { data: referencesData, error: referencesError } = await supabase
+    const { data: referencesData, error: referencesError } = await db
       .from('operation_references')
       .select('*')
       .eq('job_id', jobId)
@@ -1,16 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getOperationJob } from '@/lib/thesis/chapter-operations';
+import { findChapterAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string; jobId: string }> }
 ) {
   try {
-    const { jobId } = await params;
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, jobId } = await params;
+
+    if (!(await findChapterAccess(chapterId, userId))) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
 
     const job = await getOperationJob(jobId);
 
-    if (!job) {
+    if (!job || job.chapterId !== chapterId) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
@@ -25,7 +36,7 @@ export async function GET(
         operation: job.operation,
         status: job.status,
         progress: job.progress,
-        error: job.error,
+        error: job.errorMessage,
         newVersionId: job.newVersionId,
         createdAt: job.createdAt,
         completedAt: job.completedAt
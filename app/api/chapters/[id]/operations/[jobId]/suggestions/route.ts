@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findChapterAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import { extractTextsFromDocx } from '@/lib/translation/docx-translator';
 import fs from 'fs/promises';
 import path from 'path';
@@ -10,12 +11,22 @@ export async function GET(
   { params }: { params: Promise<{ id: string; jobId: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: chapterId, jobId } = await params;
 
+    if (!(await findChapterAccess(chapterId, userId))) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
     console.log(`[SUGGESTIONS-API] Fetching suggestions for job: ${jobId}`);
 
     // Busca job
-    const { data: job, error: jobError } = await supabase
+    const { data: job, error: jobError } = await db
       .from('chapter_operation_jobs')
       .select('*')
       .eq('id', jobId)
@@ -38,7 +49,7 @@ export async function GET(
     }
 
     // Busca versão original
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('id', job.version_id)
@@ -53,7 +64,7 @@ export async function GET(
     }
 
     // Baixa arquivo original do Storage para extrair texto completo
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -124,7 +135,10 @@ export async function GET(
         id: job.id,
         operation: job.operation,
         status: job.status,
-        progress: job.progress
+        progress: job.progress,
+        instruction: metadata.instruction, // Pedido do chat (chat_edit) ou instruções do ajuste
+        memoryHits: metadata.memoryHits, // Tradução: parágrafos reaproveitados da memória de tradução
+        terminologyViolations: metadata.terminologyViolations // Tradução: termos da termbase não respeitados
       }
     });
 
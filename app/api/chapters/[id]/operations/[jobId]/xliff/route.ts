@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findChapterAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { exportTranslationXliff, importTranslationXliff } from '@/lib/thesis/translation-xliff';
+import { XliffError } from '@/lib/translation/xliff';
+
+// Capítulos traduzidos ficam bem abaixo disso mesmo com o contexto de cada unidade
+const XLIFF_MAX_CHARS = 10_000_000;
+
+type RouteParams = { params: Promise<{ id: string; jobId: string }> };
+
+function errorResponse(error: any, action: string) {
+  if (error instanceof XliffError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(`[XLIFF-API] Error ${action}:`, error);
+  return NextResponse.json(
+    { error: error.message },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/chapters/[id]/operations/[jobId]/xliff - Export a translation job as XLIFF 2.0
+ *
+ * One unit per text element of the source version, with the AI translation as
+ * target, the DOCX location (xmlPath/tagPath) as metadata and the surrounding
+ * paragraphs as a context note.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, jobId } = await params;
+
+    const access = await findChapterAccess(chapterId, userId);
+    if (!access) throw new XliffError('Chapter not found', 404);
+
+    const { content, fileName } = await exportTranslationXliff(chapterId, jobId, access.chapter.title);
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'application/xliff+xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+  } catch (error: any) {
+    return errorResponse(error, 'exporting XLIFF');
+  }
+}
+
+/**
+ * POST /api/chapters/[id]/operations/[jobId]/xliff - Import the post-edited XLIFF
+ * Body: { content: string }
+ *
+ * Rebuilds the translated DOCX from the job's source version and creates a new
+ * chapter version (created_by_operation = translate, metadata.postEdited).
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, jobId } = await params;
+
+    const access = await findChapterAccess(chapterId, userId);
+    if (!access) throw new XliffError('Chapter not found', 404);
+
+    // Como aplicar sugestões: cria uma nova versão, só dono e coautores
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    const { content }: { content: string } = await req.json();
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new XliffError('Missing required field: content');
+    }
+    if (content.length > XLIFF_MAX_CHARS) {
+      throw new XliffError('File too large', 413);
+    }
+
+    const result = await importTranslationXliff(chapterId, jobId, content, userId);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    return errorResponse(error, 'importing XLIFF');
+  }
+}
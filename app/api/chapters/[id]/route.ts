@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findChapterAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
 
 /**
  * GET /api/chapters/[id] - Get chapter with all versions
@@ -9,10 +10,22 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
 
+    const access = await findChapterAccess(id, userId);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
     // Fetch chapter details with current version
-    const { data: chapter, error: chapterError } = await supabase
+    const { data: chapter, error: chapterError } = await db
       .from('chapter_details')
       .select('*')
       .eq('chapter_id', id)
@@ -26,7 +39,7 @@ export async function GET(
     }
 
     // Fetch all versions of this chapter
-    const { data: versions, error: versionsError } = await supabase
+    const { data: versions, error: versionsError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('chapter_id', id)
@@ -54,12 +67,14 @@ export async function GET(
           metadata: chapter.metadata,
           createdAt: chapter.version_created_at
         } : null,
-        totalVersions: chapter.total_versions
+        totalVersions: chapter.total_versions,
+        role: access.role
       },
-      versions: (versions || []).map(v => ({
+      versions: (versions || []).map((v: any) => ({
         id: v.id,
         versionNumber: v.version_number,
         parentVersionId: v.parent_version_id,
+        mergeParentVersionId: v.merge_parent_version_id || null,
         filePath: v.file_path,
         pages: v.pages,
         chunksCount: v.chunks_count,
@@ -78,16 +93,30 @@ export async function GET(
 }
 
 /**
- * PATCH /api/chapters/[id] - Update chapter metadata (not version)
+ * PATCH /api/chapters/[id] - Update chapter metadata or switch the current version
  */
 export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
     const body = await req.json();
-    const { title, chapterOrder } = body;
+    const { title, chapterOrder, currentVersionId } = body;
+
+    const access = await findChapterAccess(id, userId);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
 
     // Prepare fields to update
     const updates: any = {};
@@ -106,7 +135,7 @@ export async function PATCH(
       }
 
       // Check if new order conflicts with existing chapter
-      const { data: chapter } = await supabase
+      const { data: chapter } = await db
         .from('chapters')
         .select('thesis_id')
         .eq('id', id)
@@ -119,7 +148,7 @@ export async function PATCH(
         );
       }
 
-      const { data: conflictingChapter } = await supabase
+      const { data: conflictingChapter } = await db
         .from('chapters')
         .select('id')
         .eq('thesis_id', chapter.thesis_id)
@@ -137,6 +166,25 @@ export async function PATCH(
       updates.chapter_order = order;
     }
 
+    if (currentVersionId !== undefined) {
+      // Qualquer ramo pode virar a versão atual, desde que seja deste capítulo
+      const { data: version } = await db
+        .from('chapter_versions')
+        .select('id')
+        .eq('id', currentVersionId)
+        .eq('chapter_id', id)
+        .single();
+
+      if (!version) {
+        return NextResponse.json(
+          { error: 'Version not found in this chapter' },
+          { status: 400 }
+        );
+      }
+
+      updates.current_version_id = version.id;
+    }
+
     // Validate
     if (Object.keys(updates).length === 0) {
       return NextResponse.json(
@@ -146,7 +194,7 @@ export async function PATCH(
     }
 
     // Update the chapter
-    const { data: updatedChapter, error } = await supabase
+    const { data: updatedChapter, error } = await db
       .from('chapters')
       .update(updates)
       .eq('id', id)
@@ -168,6 +216,7 @@ export async function PATCH(
         thesisId: updatedChapter.thesis_id,
         title: updatedChapter.title,
         chapterOrder: updatedChapter.chapter_order,
+        currentVersionId: updatedChapter.current_version_id,
         createdAt: updatedChapter.created_at,
         updatedAt: updatedChapter.updated_at
       }
@@ -189,24 +238,27 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
 
-    // Fetch chapter details
-    const { data: chapter } = await supabase
-      .from('chapters')
-      .select('id, title, thesis_id')
-      .eq('id', id)
-      .single();
+    // Fetch chapter details (only the thesis owner may delete chapters)
+    const access = await findChapterAccess(id, userId);
 
-    if (!chapter) {
+    if (!access) {
       return NextResponse.json(
         { error: 'Chapter not found' },
         { status: 404 }
       );
     }
 
+    if (!roleCan(access.role, 'manage')) return forbiddenResponse('manage');
+
+    const { chapter } = access;
+
     // Delete the chapter (CASCADE will delete versions and chunks)
-    const { error } = await supabase
+    const { error } = await db
       .from('chapters')
       .delete()
       .eq('id', id);
@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createOperationJob, executeTranslateOperation } from '@/lib/thesis/chapter-operations';
 import { AIProvider } from '@/lib/ai/types';
 import { SupportedLanguage } from '@/lib/translation/types';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findChapterVersionAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { runInAIScope } from '@/lib/ai/scope';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+import { parsePromptVersions, PromptTemplateError } from '@/lib/ai/prompt-templates';
 
 type ReferenceInput = {
   type: 'link' | 'file';
@@ -20,6 +24,9 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: chapterId } = await params;
     const body = await req.json();
     const {
@@ -47,6 +54,23 @@ export async function POST(
       );
     }
 
+    // Running operations requires edit access; context versions only need to be readable
+    const access = await findChapterVersionAccess(versionId, userId);
+    if (!access || access.version.chapter_id !== chapterId) {
+      return NextResponse.json(
+        { error: 'Chapter version not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    // Orçamento de IA da tese ou do usuário estourado: não inicia o job
+    await assertWithinBudget({ userId, thesisId: access.chapter.thesis_id });
+
+    // Versões de prompt fixadas para este job (sem valor = as ativas)
+    const promptVersions = await parsePromptVersions(body.promptVersions, userId);
+
     console.log(`[CHAPTER-TRANSLATE-API] Starting translation for chapter ${chapterId}, version ${versionId} to ${targetLanguage}`);
     console.log(`[CHAPTER-TRANSLATE-API] References provided: ${references.length}`);
 
@@ -66,7 +90,7 @@ export async function POST(
         mime_type: ref.mimeType || null,
       }));
 
-      const { error: refError } = await supabase
+      const { error: refError } = await db
         .from('operation_references')
         .insert(referencesToInsert);
 
@@ -78,16 +102,26 @@ export async function POST(
     }
 
     // Executa em background
-    executeTranslateOperation(
-      jobId,
-      chapterId,
-      versionId,
-      targetLanguage,
-      sourceLanguage,
-      provider,
-      model,
-      maxPages,
-      references
+    runInAIScope(
+      {
+        operation: 'translate',
+        job: { table: 'chapter_operation_jobs', id: jobId },
+        userId,
+        thesisId: access.chapter.thesis_id,
+        chapterId,
+        promptVersions
+      },
+      () => executeTranslateOperation(
+        jobId,
+        chapterId,
+        versionId,
+        targetLanguage,
+        sourceLanguage,
+        provider,
+        model,
+        maxPages,
+        references
+      )
     ).catch(err => {
       console.error('[CHAPTER-TRANSLATE-API] Background error:', err);
     });
@@ -102,6 +136,13 @@ export async function POST(
     });
 
   } catch (error: any) {
+    if (error instanceof BudgetExceededError || error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('[CHAPTER-TRANSLATE-API] Error:', error);
     return NextResponse.json(
       { error: error.message },
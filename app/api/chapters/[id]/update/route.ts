@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createOperationJob, executeUpdateOperation } from '@/lib/thesis/chapter-operations';
 import { AIProvider } from '@/lib/ai/types';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findChapterVersionAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { CONTEXT_SEARCH_MODES, type ContextSearchMode } from '@/lib/thesis/types';
+import { runInAIScope } from '@/lib/ai/scope';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+import { parsePromptVersions, PromptTemplateError } from '@/lib/ai/prompt-templates';
 
 type ReferenceInput = {
   type: 'link' | 'file';
@@ -19,6 +24,9 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: chapterId } = await params;
     const body = await req.json();
     const {
@@ -26,13 +34,15 @@ export async function POST(
       provider = 'gemini',
       model = 'gemini-2.5-flash',
       references = [],
-      contextVersionIds = []
+      contextVersionIds = [],
+      contextSearchMode
     }: {
       versionId: string;
       provider?: AIProvider;
       model?: string;
       references?: ReferenceInput[];
       contextVersionIds?: string[];
+      contextSearchMode?: ContextSearchMode;
     } = body;
 
     if (!versionId) {
@@ -42,10 +52,43 @@ export async function POST(
       );
     }
 
+    if (contextSearchMode !== undefined && !CONTEXT_SEARCH_MODES.includes(contextSearchMode)) {
+      return NextResponse.json(
+        { error: `Invalid contextSearchMode. Use one of: ${CONTEXT_SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Running operations requires edit access; context versions only need to be readable
+    const access = await findChapterVersionAccess(versionId, userId);
+    if (!access || access.version.chapter_id !== chapterId) {
+      return NextResponse.json(
+        { error: 'Chapter version not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    // Orçamento de IA da tese ou do usuário estourado: não inicia o job
+    await assertWithinBudget({ userId, thesisId: access.chapter.thesis_id });
+
+    // Versões de prompt fixadas para este job (sem valor = as ativas)
+    const promptVersions = await parsePromptVersions(body.promptVersions, userId);
+
+    for (const contextVersionId of contextVersionIds) {
+      if (!(await findChapterVersionAccess(contextVersionId, userId))) {
+        return NextResponse.json(
+          { error: `Context version not found: ${contextVersionId}` },
+          { status: 404 }
+        );
+      }
+    }
+
     // References are optional for update, but typically expected
     console.log(`[CHAPTER-UPDATE-API] Starting update for chapter ${chapterId}, version ${versionId}`);
     console.log(`[CHAPTER-UPDATE-API] References provided: ${references.length}`);
-    console.log(`[CHAPTER-UPDATE-API] Context chapters: ${contextVersionIds.length}`);
+    console.log(`[CHAPTER-UPDATE-API] Context chapters: ${contextVersionIds.length}${contextSearchMode ? ` (${contextSearchMode})` : ''}`);
 
     // Cria job
     const jobId = await createOperationJob(chapterId, versionId, 'update');
@@ -63,7 +106,7 @@ export async function POST(
         mime_type: ref.mimeType || null,
       }));
 
-      const { error: refError } = await supabase
+      const { error: refError } = await db
         .from('operation_references')
         .insert(referencesToInsert);
 
@@ -75,14 +118,25 @@ export async function POST(
     }
 
     // Executa em background
-    executeUpdateOperation(
-      jobId,
-      chapterId,
-      versionId,
-      provider,
-      model,
-      references,
-      contextVersionIds
+    runInAIScope(
+      {
+        operation: 'update',
+        job: { table: 'chapter_operation_jobs', id: jobId },
+        userId,
+        thesisId: access.chapter.thesis_id,
+        chapterId,
+        promptVersions
+      },
+      () => executeUpdateOperation(
+        jobId,
+        chapterId,
+        versionId,
+        provider,
+        model,
+        references,
+        contextVersionIds,
+        contextSearchMode
+      )
     ).catch(err => {
       console.error('[CHAPTER-UPDATE-API] Background error:', err);
     });
@@ -97,6 +151,13 @@ export async function POST(
     });
 
   } catch (error: any) {
+    if (error instanceof BudgetExceededError || error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('[CHAPTER-UPDATE-API] Error:', error);
     return NextResponse.json(
       { error: error.message },
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findChapterVersionAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { CommentError, createThread, listVersionThreads } from '@/lib/thesis/comments';
+import { VersionContentError } from '@/lib/thesis/version-paragraphs';
+
+/**
+ * GET /api/chapters/[id]/versions/[versionId]/comments - Review threads anchored to this version
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, versionId } = await params;
+
+    const access = await findChapterVersionAccess(versionId, userId);
+    if (!access || access.chapter.id !== chapterId) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    const threads = await listVersionThreads(versionId);
+
+    return NextResponse.json({
+      threads,
+      canComment: roleCan(access.role, 'review')
+    });
+  } catch (error: any) {
+    console.error('[COMMENTS] Error loading threads:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/chapters/[id]/versions/[versionId]/comments - Open a thread on a paragraph
+ *
+ * Body: { paragraphIndex: number, body: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, versionId } = await params;
+    const { paragraphIndex, body } = await req.json();
+
+    const access = await findChapterVersionAccess(versionId, userId);
+    if (!access || access.chapter.id !== chapterId) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'review')) return forbiddenResponse('review');
+
+    if (typeof paragraphIndex !== 'number') {
+      return NextResponse.json(
+        { error: 'paragraphIndex is required' },
+        { status: 400 }
+      );
+    }
+
+    const threadId = await createThread({ chapterId, versionId, paragraphIndex, body, userId });
+
+    return NextResponse.json({ threadId }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof CommentError || error instanceof VersionContentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[COMMENTS] Error creating thread:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
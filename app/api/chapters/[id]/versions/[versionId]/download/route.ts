@@ -1,17 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findChapterVersionAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string; versionId: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { versionId } = await params;
 
+    if (!(await findChapterVersionAccess(versionId, userId))) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
     console.log(`[DOWNLOAD] Fetching version: ${versionId}`);
 
     // Busca versão
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*, chapters!chapter_versions_chapter_id_fkey(title, chapter_order, thesis_id, theses(title))')
       .eq('id', versionId)
@@ -40,7 +51,7 @@ export async function GET(
     });
 
     // Baixa arquivo do Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findChapterVersionAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { getVersionParagraphs, locateChunkParagraph, VersionContentError } from '@/lib/thesis/version-paragraphs';
+
+/**
+ * GET /api/chapters/[id]/versions/[versionId]/paragraphs - Paragraphs of a version (for anchoring comments)
+ *
+ * Query: chunkId, quote (optional) - also returns focusIndex, the paragraph a chat citation points to
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId, versionId } = await params;
+
+    const access = await findChapterVersionAccess(versionId, userId);
+    if (!access || access.chapter.id !== chapterId) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    const paragraphs = await getVersionParagraphs(versionId);
+
+    const chunkId = req.nextUrl.searchParams.get('chunkId');
+    if (chunkId) {
+      const quote = req.nextUrl.searchParams.get('quote') || undefined;
+      const focusIndex = await locateChunkParagraph(versionId, paragraphs, chunkId, quote);
+      return NextResponse.json({ paragraphs, focusIndex });
+    }
+
+    return NextResponse.json({ paragraphs });
+  } catch (error: any) {
+    if (error instanceof VersionContentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[CHAPTERS] Error loading paragraphs:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
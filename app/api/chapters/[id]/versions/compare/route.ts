@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findChapterAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { compareChapterVersions } from '@/lib/thesis/version-diff';
+import { VersionContentError } from '@/lib/thesis/version-paragraphs';
+
+/**
+ * GET /api/chapters/[id]/versions/compare?a=<versionId>&b=<versionId>
+ *
+ * Paragraph-level diff from version A to version B, with word highlights on changed paragraphs
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId } = await params;
+    const versionIdA = req.nextUrl.searchParams.get('a');
+    const versionIdB = req.nextUrl.searchParams.get('b');
+
+    if (!versionIdA || !versionIdB) {
+      return NextResponse.json(
+        { error: 'Query params a and b (version ids) are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await findChapterAccess(chapterId, userId))) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    const comparison = await compareChapterVersions(chapterId, versionIdA, versionIdB);
+
+    return NextResponse.json({ comparison });
+  } catch (error: any) {
+    if (error instanceof VersionContentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[VERSION-DIFF] Error comparing versions:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
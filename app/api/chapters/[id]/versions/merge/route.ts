@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findChapterAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { createMergedVersion, MergeError, previewMerge } from '@/lib/thesis/version-merge';
+import type { MergeResolution } from '@/lib/thesis/types';
+
+/**
+ * GET /api/chapters/[id]/versions/merge?a=<versionId>&b=<versionId>
+ *
+ * Three-way merge preview: blocks taken automatically from one side and conflicts to resolve
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId } = await params;
+    const versionIdA = req.nextUrl.searchParams.get('a');
+    const versionIdB = req.nextUrl.searchParams.get('b');
+
+    if (!versionIdA || !versionIdB) {
+      return NextResponse.json(
+        { error: 'Query params a and b (version ids) are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await findChapterAccess(chapterId, userId))) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    const preview = await previewMerge(chapterId, versionIdA, versionIdB);
+
+    return NextResponse.json({ preview });
+  } catch (error: any) {
+    if (error instanceof MergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[VERSION-MERGE] Error previewing merge:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/chapters/[id]/versions/merge
+ *
+ * Body: { a: string, b: string, resolutions: { [hunkId]: MergeResolution } }
+ * Creates a new version whose parents are A and B
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: chapterId } = await params;
+    const body = await req.json();
+    const { a, b, resolutions } = body as {
+      a?: string;
+      b?: string;
+      resolutions?: Record<string, MergeResolution>;
+    };
+
+    if (!a || !b) {
+      return NextResponse.json(
+        { error: 'a and b (version ids) are required' },
+        { status: 400 }
+      );
+    }
+
+    const access = await findChapterAccess(chapterId, userId);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Chapter not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    const newVersionId = await createMergedVersion(chapterId, a, b, resolutions || {});
+
+    return NextResponse.json({ newVersionId });
+  } catch (error: any) {
+    if (error instanceof MergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[VERSION-MERGE] Error merging versions:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findChapterAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 /**
  * GET /api/chapters/[id]/versions - List all versions of a chapter
@@ -9,24 +10,25 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: chapterId } = await params;
 
-    // Verify chapter exists
-    const { data: chapter, error: chapterError } = await supabase
-      .from('chapters')
-      .select('id, title, current_version_id')
-      .eq('id', chapterId)
-      .single();
+    // Verify chapter exists and the caller is a member of its thesis
+    const access = await findChapterAccess(chapterId, userId);
 
-    if (chapterError || !chapter) {
+    if (!access) {
       return NextResponse.json(
         { error: 'Chapter not found' },
         { status: 404 }
       );
     }
 
+    const { chapter } = access;
+
     // Fetch all versions
-    const { data: versions, error: versionsError } = await supabase
+    const { data: versions, error: versionsError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('chapter_id', chapterId)
@@ -41,10 +43,11 @@ export async function GET(
       chapterTitle: chapter.title,
       currentVersionId: chapter.current_version_id,
       totalVersions: versions?.length || 0,
-      versions: (versions || []).map(v => ({
+      versions: (versions || []).map((v: any) => ({
         id: v.id,
         versionNumber: v.version_number,
         parentVersionId: v.parent_version_id,
+        mergeParentVersionId: v.merge_parent_version_id || null,
         filePath: v.file_path,
         pages: v.pages,
         chunksCount: v.chunks_count,
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import { randomUUID } from 'crypto';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -17,6 +18,9 @@ export const dynamic = 'force-dynamic';
  */
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     // Get form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -45,20 +49,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify thesis exists
-    const { data: thesis, error: thesisError } = await supabase
-      .from('theses')
-      .select('id')
-      .eq('id', thesisId)
-      .single();
+    // Verify thesis exists and the caller may add chapters to it
+    const access = await findThesisAccess(thesisId, userId);
 
-    if (thesisError || !thesis) {
+    if (!access) {
       return NextResponse.json(
         { error: 'Thesis not found' },
         { status: 404 }
       );
     }
 
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
     // Determine chapter order
     let chapterOrder: number;
     if (chapterOrderStr) {
@@ -71,7 +73,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Check if order is already taken
-      const { data: existingChapter } = await supabase
+      const { data: existingChapter } = await db
         .from('chapters')
         .select('id')
         .eq('thesis_id', thesisId)
@@ -86,7 +88,7 @@ export async function POST(request: NextRequest) {
       }
     } else {
       // Auto-assign next available order
-      const { data: nextOrderData } = await supabase
+      const { data: nextOrderData } = await db
         .rpc('get_next_chapter_order', { p_thesis_id: thesisId });
 
       chapterOrder = nextOrderData || 1;
@@ -104,7 +106,7 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(await file.arrayBuffer());
 
     // Upload to Supabase Storage
-    const { error: uploadError } = await supabase.storage
+    const { error: uploadError } = await storage
       .from('documents')
       .upload(storagePath, buffer, {
         contentType: file.type,
@@ -122,14 +124,15 @@ export async function POST(request: NextRequest) {
     console.log(`[CHAPTERS] File uploaded to Storage: ${storagePath}`);
 
     // Create chapter (without current_version_id initially)
-    const { data: chapter, error: chapterError } = await supabase
+    const { data: chapter, error: chapterError } = await db
       .from('chapters')
       .insert({
         id: chapterId,
         thesis_id: thesisId,
         title: title.trim(),
         chapter_order: chapterOrder,
-        current_version_id: null
+        current_version_id: null,
+        created_by: userId
       })
       .select()
       .single();
@@ -137,14 +140,14 @@ export async function POST(request: NextRequest) {
     if (chapterError) {
       console.error('[CHAPTERS] Error creating chapter:', chapterError);
       // Cleanup: delete uploaded file
-      await supabase.storage.from('documents').remove([storagePath]);
+      await storage.from('documents').remove([storagePath]);
       throw chapterError;
     }
 
     console.log(`[CHAPTERS] Chapter created: ${chapter.id}`);
 
     // Create first version (v1) using helper function
-    const { data: versionData, error: versionError } = await supabase
+    const { data: versionData, error: versionError } = await db
       .rpc('create_chapter_version', {
         p_chapter_id: chapterId,
         p_file_path: storagePath,
@@ -158,15 +161,15 @@ export async function POST(request: NextRequest) {
     if (versionError) {
       console.error('[CHAPTERS] Error creating version:', versionError);
       // Cleanup: delete chapter and file
-      await supabase.from('chapters').delete().eq('id', chapterId);
-      await supabase.storage.from('documents').remove([storagePath]);
+      await db.from('chapters').delete().eq('id', chapterId);
+      await storage.from('documents').remove([storagePath]);
       throw versionError;
     }
 
     console.log(`[CHAPTERS] Version created: ${versionData} (v1) for chapter: ${chapterId}`);
 
     // Fetch the created version
-    const { data: version, error: fetchError } = await supabase
+    const { data: version, error: fetchError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('chapter_id', chapterId)
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { getJudgeLeaderboard } from '@/lib/ai/judge';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/chat/judgments - How each provider/model was rated by the chat judge
+ *
+ * Query: thesisId (optional; default is the logged-in user's own judgments), months (default 12)
+ * Returns { leaderboard, recent, total }: average score and wins per provider/model,
+ * and the latest judgments with their ratings.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const thesisId = req.nextUrl.searchParams.get('thesisId');
+    const months = Math.min(Math.max(parseInt(req.nextUrl.searchParams.get('months') || '12', 10) || 12, 1), 60);
+
+    const now = new Date();
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1)).toISOString();
+
+    if (thesisId && !(await findThesisAccess(thesisId, userId))) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await getJudgeLeaderboard(thesisId ? { thesisId } : { userId }, since);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('[JUDGE] Error loading judgments:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { searchIndex } from '@/lib/state';
 import { executeMultipleAI } from '@/lib/ai/executor';
 import { AIProvider } from '@/lib/ai/types';
-import { ensureDocumentInMemory } from '@/lib/document-loader';
-import { buildMultiChapterContext, determineCitationMode, formatCitation } from '@/lib/thesis/context-builder';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { ChatContextError, resolveChatContext } from '@/lib/chat-context';
+import { runInAIScope } from '@/lib/ai/scope';
+import { JudgeError, judgeAndRecord, parseJudgeTarget } from '@/lib/ai/judge';
+import { CONTEXT_SEARCH_MODES, type ContextSearchMode } from '@/lib/thesis/types';
+import {
+  ConversationError,
+  findConversation,
+  getConversationHistory,
+  saveChatExchange
+} from '@/lib/thesis/conversations';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const body = await request.json();
     const {
       documentId,
@@ -17,7 +28,10 @@ export async function POST(request: NextRequest) {
       question,
       providers,
       models,
-      action
+      action,
+      searchMode = 'bm25',
+      conversationId,
+      judge
     } = body as {
       documentId?: string;
       chapterVersionIds?: string[];
@@ -25,6 +39,9 @@ export async function POST(request: NextRequest) {
       providers: AIProvider[];
       models: Partial<Record<AIProvider, string>>;
       action?: 'translate' | 'suggest' | 'adapt' | 'update' | null;
+      searchMode?: ContextSearchMode;
+      conversationId?: string;
+      judge?: { provider: AIProvider; model: string };
     };
 
     // Validação: precisa ter ou documentId (sistema antigo) ou chapterVersionIds (sistema novo)
@@ -42,77 +59,94 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let topChunks: any[];
-    let citationMode: string | undefined;
-
-    // Sistema novo: múltiplos capítulos
-    if (chapterVersionIds && chapterVersionIds.length > 0) {
-      console.log(`[CHAT] Multi-chapter mode: ${chapterVersionIds.length} versions`);
-
-      const contextResult = await buildMultiChapterContext(
-        { chapter_version_ids: chapterVersionIds, top_k_per_version: 5 },
-        question
+    if (!CONTEXT_SEARCH_MODES.includes(searchMode)) {
+      return NextResponse.json(
+        { error: `Invalid searchMode. Use one of: ${CONTEXT_SEARCH_MODES.join(', ')}` },
+        { status: 400 }
       );
-
-      if (!contextResult || contextResult.chunks.length === 0) {
-        return NextResponse.json(
-          { error: 'No relevant context found' },
-          { status: 400 }
-        );
-      }
-
-      // Converte chunks para formato esperado pela AI
-      topChunks = contextResult.chunks.map(chunk => ({
-        text: chunk.text,
-        pageFrom: chunk.page_from,
-        pageTo: chunk.page_to,
-        metadata: {
-          chapterTitle: chunk.chapter_title,
-          chapterOrder: chunk.chapter_order,
-          versionNumber: chunk.version_number
-        }
-      }));
-
-      // Determina modo de citação
-      citationMode = determineCitationMode(contextResult);
-
-      console.log(`[CHAT] Found ${topChunks.length} chunks from ${contextResult.chapters_included.length} chapters`);
-      console.log(`[CHAT] Citation mode: ${citationMode}`);
-
     }
-    // Sistema antigo: documento único
-    else if (documentId) {
-      console.log(`[CHAT] Single document mode: ${documentId}`);
-
-      const doc = await ensureDocumentInMemory(documentId);
 
-      if (!doc) {
-        return NextResponse.json(
-          { error: 'Document not found' },
-          { status: 404 }
-        );
-      }
-
-      topChunks = searchIndex(doc.index, doc.chunks, question, 8);
+    const judgeTarget = parseJudgeTarget(judge);
+
+    // Conversa: turnos anteriores vão ao modelo e reescrevem a pergunta para a busca
+    const conversation = conversationId ? await findConversation(conversationId, userId) : null;
+    const history = conversation ? await getConversationHistory(conversation.id) : [];
+    const rewriteModel = models[providers[0]];
+
+    const { chunks, citationMode, sources, thesisId, retrievalQuery } = await runInAIScope(
+      { operation: 'chat', userId, thesisId: conversation?.thesis_id, documentId },
+      () => resolveChatContext({
+        documentId,
+        chapterVersionIds,
+        question,
+        searchMode,
+        thesisId: conversation?.thesis_id,
+        history,
+        rewriteWith: history.length > 0 && rewriteModel ? { provider: providers[0], model: rewriteModel } : undefined
+      }, userId)
+    );
 
-      if (topChunks.length === 0) {
-        return NextResponse.json(
-          { error: 'No relevant context found' },
-          { status: 400 }
-        );
+    // Execute AI requests (and the judge, when requested)
+    const { answers, judged } = await runInAIScope(
+      { operation: 'chat', userId, thesisId, documentId },
+      async () => {
+        const answers = await executeMultipleAI(providers, models, {
+          question,
+          context: chunks,
+          action: action ?? null,
+          history
+        });
+
+        const judged = judgeTarget
+          ? await judgeAndRecord({
+              question,
+              context: chunks,
+              answers,
+              judge: judgeTarget,
+              userId,
+              thesisId,
+              documentId,
+              conversationId: conversation?.id
+            })
+          : null;
+
+        return { answers, judged };
       }
-    }
+    );
 
-    // Execute AI requests
-    const answers = await executeMultipleAI(providers, models, {
-      question,
-      context: topChunks,
-      action: action ?? null,
-      citationMode
+    const saved = conversation
+      ? await saveChatExchange({
+          conversation,
+          question,
+          answers,
+          chapterVersionIds: chapterVersionIds!,
+          searchMode,
+          retrievalQuery,
+          citationMode,
+          sources
+        })
+      : null;
+
+    return NextResponse.json({
+      answers,
+      citationMode,
+      sources,
+      searchMode: sources ? searchMode : undefined,
+      conversationId: conversation?.id,
+      retrievalQuery: conversation ? retrievalQuery : undefined,
+      questionId: saved?.questionId,
+      answerIds: saved?.answerIds,
+      judgment: judged?.judgment,
+      judgeError: judged?.error
     });
-
-    return NextResponse.json({ answers, citationMode });
   } catch (error: any) {
+    if (error instanceof ChatContextError || error instanceof ConversationError || error instanceof JudgeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('[CHAT] Error:', error);
     return NextResponse.json(
       { error: `Chat failed: ${error.message}` },
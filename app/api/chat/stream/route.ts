@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { streamMultipleAI } from '@/lib/ai/executor';
+import { AIProvider } from '@/lib/ai/types';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { ChatContextError, resolveChatContext } from '@/lib/chat-context';
+import { formatSSE } from '@/lib/sse';
+import { runInAIScope } from '@/lib/ai/scope';
+import { JudgeError, judgeAndRecord, parseJudgeTarget } from '@/lib/ai/judge';
+import { CONTEXT_SEARCH_MODES, type ContextSearchMode } from '@/lib/thesis/types';
+import {
+  ConversationError,
+  findConversation,
+  getConversationHistory,
+  saveChatExchange
+} from '@/lib/thesis/conversations';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * POST /api/chat/stream
+ *
+ * Same body as POST /api/chat, but answers stream as Server-Sent Events:
+ * - context: { citationMode, sources, searchMode } (before any token)
+ * - token:   { provider, delta } (as each provider generates text)
+ * - answer:  AIResponse (final text, token counts and cost of one provider)
+ * - judgment: { judgment, error } (with judge: synthesis, disagreements and
+ *            ratings; a failed judge doesn't fail the chat)
+ * - done:    { answers } (all providers finished; in a conversation also
+ *            conversationId, questionId and answerIds of the saved messages)
+ * - error:   { error }
+ *
+ * With conversationId, the previous turns are sent to the models, the question
+ * is rewritten with them for retrieval (context event: retrievalQuery) and the
+ * exchange is saved in the conversation.
+ *
+ * Validation and context errors are returned as JSON before the stream starts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const body = await request.json();
+    const {
+      documentId,
+      chapterVersionIds,
+      question,
+      providers,
+      models,
+      action,
+      searchMode = 'bm25',
+      conversationId,
+      judge
+    } = body as {
+      documentId?: string;
+      chapterVersionIds?: string[];
+      question: string;
+      providers: AIProvider[];
+      models: Partial<Record<AIProvider, string>>;
+      action?: 'translate' | 'suggest' | 'adapt' | 'update' | null;
+      searchMode?: ContextSearchMode;
+      conversationId?: string;
+      judge?: { provider: AIProvider; model: string };
+    };
+
+    if ((!documentId && !chapterVersionIds) || !question || !providers || !models) {
+      return NextResponse.json(
+        { error: 'Missing required fields: (documentId or chapterVersionIds), question, providers, models' },
+        { status: 400 }
+      );
+    }
+
+    if (!CONTEXT_SEARCH_MODES.includes(searchMode)) {
+      return NextResponse.json(
+        { error: `Invalid searchMode. Use one of: ${CONTEXT_SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const judgeTarget = parseJudgeTarget(judge);
+
+    // Conversa: turnos anteriores vão ao modelo e reescrevem a pergunta para a busca
+    const conversation = conversationId ? await findConversation(conversationId, userId) : null;
+    const history = conversation ? await getConversationHistory(conversation.id) : [];
+    const rewriteModel = models[providers[0]];
+
+    const { chunks, citationMode, sources, thesisId, retrievalQuery } = await runInAIScope(
+      { operation: 'chat', userId, thesisId: conversation?.thesis_id, documentId },
+      () => resolveChatContext({
+        documentId,
+        chapterVersionIds,
+        question,
+        searchMode,
+        thesisId: conversation?.thesis_id,
+        history,
+        rewriteWith: history.length > 0 && rewriteModel ? { provider: providers[0], model: rewriteModel } : undefined
+      }, userId)
+    );
+
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          // O cliente pode ter fechado a conexão; os provedores terminam mesmo assim
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(formatSSE(event, data)));
+          } catch {
+            closed = true;
+          }
+        };
+
+        send('context', {
+          citationMode,
+          sources,
+          searchMode: sources ? searchMode : undefined,
+          retrievalQuery: conversation ? retrievalQuery : undefined
+        });
+
+        try {
+          const answers = await runInAIScope(
+            { operation: 'chat', userId, thesisId, documentId },
+            () => streamMultipleAI(providers, models, {
+              question,
+              context: chunks,
+              action: action ?? null,
+              history
+            }, {
+              onToken: (provider, delta) => send('token', { provider, delta }),
+              onDone: (answer) => send('answer', answer)
+            }).then(async (answers) => {
+              if (judgeTarget) {
+                const judged = await judgeAndRecord({
+                  question,
+                  context: chunks,
+                  answers,
+                  judge: judgeTarget,
+                  userId,
+                  thesisId,
+                  documentId,
+                  conversationId: conversation?.id
+                });
+                send('judgment', judged);
+              }
+              return answers;
+            })
+          );
+
+          console.log(`[CHAT-STREAM] Finished ${answers.length} providers`);
+
+          // Grava mesmo se o cliente fechou a conexão
+          const saved = conversation
+            ? await saveChatExchange({
+                conversation,
+                question,
+                answers,
+                chapterVersionIds: chapterVersionIds!,
+                searchMode,
+                retrievalQuery,
+                citationMode,
+                sources
+              })
+            : null;
+
+          send('done', { answers: answers.length, conversationId: conversation?.id, ...saved });
+        } catch (error: any) {
+          console.error('[CHAT-STREAM] Error:', error);
+          send('error', { error: `Chat failed: ${error.message}` });
+        } finally {
+          if (!closed) controller.close();
+          closed = true;
+        }
+      },
+      cancel() {
+        closed = true;
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof ChatContextError || error instanceof ConversationError || error instanceof JudgeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[CHAT-STREAM] Error:', error);
+    return NextResponse.json(
+      { error: `Chat failed: ${error.message}` },
+      { status: 500 }
+    );
+  }
+}
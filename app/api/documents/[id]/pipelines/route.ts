@@ -1,18 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const documentId = params.id;
 
     // Fetch pipeline jobs for this document
-    const { data: jobs, error } = await supabase
+    const { data: jobs, error } = await db
       .from('pipeline_jobs')
       .select('*')
       .eq('document_id', documentId)
+      .eq('created_by', userId)
       .order('created_at', { ascending: false })
       .limit(10);
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
 import { ensureDocumentInMemory } from '@/lib/document-loader';
+import { findOwnedDocument, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 
@@ -9,17 +9,16 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
     console.log(`[GET DOC] Looking for document: ${id}`);
 
-    // Busca no Supabase (source of truth)
-    const { data: doc, error } = await supabase
-      .from('documents')
-      .select('*')
-      .eq('id', id)
-      .single();
+    // Busca no banco (source of truth), apenas documentos do usuário
+    const doc = await findOwnedDocument(id, userId);
 
-    if (error || !doc) {
+    if (!doc) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findOwnedDocument, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 
@@ -12,10 +13,20 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: documentId } = await params;
 
+    if (!(await findOwnedDocument(documentId, userId))) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
     // Busca traduções do documento no Supabase
-    const { data: translations, error } = await supabase
+    const { data: translations, error } = await db
       .from('translation_jobs')
       .select('*')
       .eq('document_id', documentId)
@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
   try {
-    // Busca documentos do Supabase (não mais de memória)
-    const { data: documents, error } = await supabase
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    // Busca documentos do usuário no banco (não mais de memória)
+    const { data: documents, error } = await db
       .from('documents')
       .select('id, title, pages, chunks_count, project_id, created_at')
+      .eq('owner_id', userId)
       .order('created_at', { ascending: false });
 
     if (error) {
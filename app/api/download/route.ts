@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { storage } from '@/lib/storage';
+import { getCurrentUserId, unauthorizedResponse, resolveUserStoragePath } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 
@@ -9,21 +10,33 @@ export const runtime = 'nodejs';
  */
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const searchParams = request.nextUrl.searchParams;
     const bucket = searchParams.get('bucket');
-    const filePath = searchParams.get('path');
+    const requestedPath = searchParams.get('path');
 
-    if (!bucket || !filePath) {
+    if (!bucket || !requestedPath) {
       return NextResponse.json(
         { error: 'Missing bucket or path parameter' },
         { status: 400 }
       );
     }
 
+    // O bucket faz parte da verificação: o caminho só vale no bucket do registro dele
+    const filePath = await resolveUserStoragePath(bucket, requestedPath, userId);
+    if (!filePath) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
     console.log(`[DOWNLOAD] Fetching ${filePath} from bucket ${bucket}`);
 
     // Download do Supabase Storage
-    const { data, error } = await supabase.storage
+    const { data, error } = await storage
       .from(bucket)
       .download(filePath);
 
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findOwnedDocument, findOwnedDocumentJob, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { getUserById } from '@/lib/auth/users';
+import { applyTrackedChangesToDocx, isApplyMode, trackChangesAuthor, type ApplyMode } from '@/lib/docx-track-changes';
 import JSZip from 'jszip';
 import { parseStringPromise, Builder } from 'xml2js';
 import fs from 'fs/promises';
@@ -8,13 +11,17 @@ import os from 'os';
 import { ImprovementSuggestion } from '@/lib/improvement/types';
 
 // POST /api/improve/[id]/apply - Aplica melhorias aceitas ao documento
+// Body: { acceptedSuggestionIds, mode?: 'replace' | 'track' } - 'track' gera controle de alterações do Word
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
-    const { acceptedSuggestionIds }: { acceptedSuggestionIds: string[] } = await req.json();
+    const { acceptedSuggestionIds, mode = 'replace' }: { acceptedSuggestionIds: string[]; mode?: ApplyMode } = await req.json();
 
     if (!acceptedSuggestionIds || acceptedSuggestionIds.length === 0) {
       return NextResponse.json(
@@ -23,14 +30,17 @@ export async function POST(
       );
     }
 
+    if (!isApplyMode(mode)) {
+      return NextResponse.json(
+        { error: `Invalid mode: ${mode}. Use 'replace' or 'track'` },
+        { status: 400 }
+      );
+    }
+
     // Busca job no Supabase
-    const { data: job, error: jobError } = await supabase
-      .from('improvement_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedDocumentJob('improvement_jobs', jobId, userId);
 
-    if (jobError || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Improvement job not found' },
         { status: 404 }
@@ -38,13 +48,9 @@ export async function POST(
     }
 
     // Busca documento original
-    const { data: doc, error: docError } = await supabase
-      .from('documents')
-      .select('*')
-      .eq('id', job.document_id)
-      .single();
+    const doc = await findOwnedDocument(job.document_id, userId);
 
-    if (docError || !doc) {
+    if (!doc) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -60,7 +66,7 @@ export async function POST(
     console.log(`[IMPROVE-APPLY] Applying ${acceptedSuggestions.length} improvements`);
 
     // Download arquivo original
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(doc.file_path);
 
@@ -73,6 +79,34 @@ export async function POST(
     const tempOutputPath = path.join(tempDir, `${job.document_id}_improved.docx`);
 
     const buffer = Buffer.from(await fileBlob.arrayBuffer());
+
+    // Modo revisão: sugestões viram w:del/w:ins + comentários, para aceitar/rejeitar no Word
+    if (mode === 'track') {
+      const user = await getUserById(userId);
+      const { buffer: trackedBuffer, applied } = await applyTrackedChangesToDocx(
+        buffer,
+        acceptedSuggestions.map(s => ({
+          originalText: s.originalText,
+          newText: s.improvedText,
+          comment: s.reason
+        })),
+        { author: trackChangesAuthor(user?.name) }
+      );
+
+      console.log(`[IMPROVE-APPLY] Marked ${applied} improvements as tracked changes`);
+
+      const sanitizedTitle = (doc.title || 'documento')
+        .replace(/[^a-zA-Z0-9_-]/g, '_')
+        .substring(0, 50);
+
+      return new NextResponse(new Uint8Array(trackedBuffer), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          'Content-Disposition': `attachment; filename="${sanitizedTitle}_melhorado_revisao.docx"`
+        }
+      });
+    }
+
     await fs.writeFile(tempInputPath, buffer);
 
     // Aplica melhorias
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findOwnedDocument, findOwnedDocumentJob, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import { extractDocumentStructure, generateGlobalContext } from '@/lib/improvement/document-analyzer';
 import { analyzeSectionForImprovements } from '@/lib/improvement/section-analyzer';
+import type { AIProvider } from '@/lib/ai/types';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import { runInAIScope } from '@/lib/ai/scope';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+import { parsePromptVersions, PromptTemplateError } from '@/lib/ai/prompt-templates';
 
 // POST /api/improve/[id] - Inicia análise de melhorias
 export async function POST(
@@ -12,29 +17,35 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: documentId } = await params;
+    const body = await req.json();
     const {
       provider = 'openai',
       model = 'gpt-4o-mini',
       sourceDocumentPath // Optional: for pipeline usage
-    } = await req.json();
+    } = body;
 
     // Busca documento no Supabase
-    const { data: doc, error: docError } = await supabase
-      .from('documents')
-      .select('*')
-      .eq('id', documentId)
-      .single();
+    const doc = await findOwnedDocument(documentId, userId);
 
-    if (docError || !doc) {
+    if (!doc) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       );
     }
 
+    // Orçamento de IA do usuário estourado: não inicia o job
+    await assertWithinBudget({ userId });
+
+    // Versões de prompt fixadas para este job (sem valor = as ativas)
+    const promptVersions = await parsePromptVersions(body.promptVersions, userId);
+
     // Cria job no Supabase
-    const { data: job, error: jobError } = await supabase
+    const { data: job, error: jobError } = await db
       .from('improvement_jobs')
       .insert({
         document_id: documentId,
@@ -50,13 +61,23 @@ export async function POST(
     console.log(`[IMPROVE] Created job ${job.id} for document ${documentId}`);
 
     // Executa análise em background (não bloqueia resposta)
-    executeImprovement(job.id, documentId, doc, provider, model, sourceDocumentPath).catch(err => {
+    runInAIScope(
+      { operation: 'improve', job: { table: 'improvement_jobs', id: job.id }, userId, documentId, promptVersions },
+      () => executeImprovement(job.id, documentId, doc, provider, model, sourceDocumentPath)
+    ).catch(err => {
       console.error('[IMPROVE] Background error:', err);
     });
 
     return NextResponse.json({ jobId: job.id });
 
   } catch (error: any) {
+    if (error instanceof BudgetExceededError || error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('[IMPROVE] Error:', error);
     return NextResponse.json(
       { error: error.message },
@@ -71,15 +92,14 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
 
-    const { data: job, error } = await supabase
-      .from('improvement_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedDocumentJob('improvement_jobs', jobId, userId);
 
-    if (error || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
@@ -118,7 +138,7 @@ async function executeImprovement(
   jobId: string,
   documentId: string,
   doc: any,
-  provider: 'openai' | 'gemini',
+  provider: AIProvider,
   model: string,
   sourceDocumentPath?: string
 ) {
@@ -126,7 +146,7 @@ async function executeImprovement(
     console.log(`[IMPROVE] Starting analysis for job ${jobId}`);
 
     // Atualiza status
-    await supabase
+    await db
       .from('improvement_jobs')
       .update({ status: 'analyzing', started_at: new Date().toISOString() })
       .eq('id', jobId);
@@ -139,7 +159,7 @@ async function executeImprovement(
       tempPath = sourceDocumentPath;
     } else {
       // Standalone mode - download from Storage
-      const { data: fileBlob, error: downloadError } = await supabase.storage
+      const { data: fileBlob, error: downloadError } = await storage
         .from('documents')
         .download(doc.file_path);
 
@@ -159,20 +179,15 @@ async function executeImprovement(
 
     // Gera contexto global
     console.log(`[IMPROVE] Generating global context...`);
-    const apiKey = provider === 'openai'
-      ? process.env.OPENAI_API_KEY!
-      : (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY)!;
-
     const globalContext = await generateGlobalContext(
       paragraphs,
       structure,
       provider,
-      model,
-      apiKey
+      model
     );
 
     // Atualiza job com estrutura e contexto
-    await supabase
+    await db
       .from('improvement_jobs')
       .update({
         global_context: globalContext,
@@ -212,8 +227,7 @@ async function executeImprovement(
             section.title,
             section.startParagraphIndex + batchStart,
             provider,
-            model,
-            apiKey
+            model
           );
 
           allSuggestions.push(...suggestions);
@@ -226,8 +240,7 @@ async function executeImprovement(
           section.title,
           section.startParagraphIndex,
           provider,
-          model,
-          apiKey
+          model
         );
 
         allSuggestions.push(...suggestions);
@@ -235,7 +248,7 @@ async function executeImprovement(
 
       // Atualiza progresso
       const percentage = Math.round(((i + 1) / structure.sections.length) * 100);
-      await supabase
+      await db
         .from('improvement_jobs')
         .update({
           current_section: i + 1,
@@ -246,7 +259,7 @@ async function executeImprovement(
 
     // Finaliza job
     console.log(`[IMPROVE] Analysis completed! ${allSuggestions.length} suggestions found`);
-    await supabase
+    await db
       .from('improvement_jobs')
       .update({
         status: 'completed',
@@ -262,7 +275,7 @@ async function executeImprovement(
 
   } catch (error: any) {
     console.error('[IMPROVE] Error:', error);
-    await supabase
+    await db
       .from('improvement_jobs')
       .update({
         status: 'error',
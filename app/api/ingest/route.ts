@@ -1,29 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { state, buildIndex } from '@/lib/state';
 import { parseDocument } from '@/lib/parsers';
-import { chunkText } from '@/lib/chunking';
-import { supabase } from '@/lib/supabase';
+import { chunkDocument } from '@/lib/chunking';
+import { db, storage } from '@/lib/storage';
+import { findOwnedProject, getCurrentUserId, normalizeStoragePath, unauthorizedResponse } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
   try {
-    const { documentId, filePath, fileName, projectId } = await request.json();
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
 
-    if (!documentId || !filePath) {
+    const { documentId, filePath: requestedPath, fileName, projectId } = await request.json();
+
+    if (!documentId || !requestedPath) {
       return NextResponse.json(
         { error: 'Missing documentId or filePath' },
         { status: 400 }
       );
     }
 
-    // Valida projectId se fornecido (agora no Supabase)
+    const filePath = normalizeStoragePath(requestedPath);
+    if (!filePath || !filePath.startsWith(`uploads/${userId}/`)) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    // Valida projectId se fornecido (precisa pertencer ao usuário)
     if (projectId) {
-      const { data: project } = await supabase
-        .from('projects')
-        .select('id')
-        .eq('id', projectId)
-        .single();
+      const project = await findOwnedProject(projectId, userId);
 
       if (!project) {
         return NextResponse.json(
@@ -35,7 +43,7 @@ export async function POST(request: NextRequest) {
 
     // Download file from Supabase Storage
     console.log(`[INGEST] Downloading file from Storage: ${filePath}`);
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(filePath);
 
@@ -52,22 +60,24 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(arrayBuffer);
 
     // Parse document
-    const { text, pages } = await parseDocument(buffer, fileName);
+    const parseResult = await parseDocument(buffer, fileName);
+    const { pages } = parseResult;
 
-    // Chunk text
-    const chunks = chunkText(text, pages);
+    // Chunk text (respecting headings, tables and real page numbers when available)
+    const chunks = chunkDocument(parseResult);
 
     // Build search index
     const index = buildIndex(chunks);
 
     // Save metadata to Supabase DB
-    const { error: dbError } = await supabase.from('documents').insert({
+    const { error: dbError } = await db.from('documents').insert({
       id: documentId,
       project_id: projectId || null,
       title: fileName,
       pages,
       file_path: filePath,
       chunks_count: chunks.length,
+      owner_id: userId,
     });
 
     if (dbError) {
@@ -91,7 +101,7 @@ export async function POST(request: NextRequest) {
 
     // Atualiza timestamp do projeto no Supabase
     if (projectId) {
-      await supabase
+      await db
         .from('projects')
         .update({ updated_at: new Date().toISOString() })
         .eq('id', projectId);
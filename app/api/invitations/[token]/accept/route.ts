@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { acceptInvitation, MembershipError } from '@/lib/thesis/members';
+
+/**
+ * POST /api/invitations/[token]/accept - Join the thesis with the invited role
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { token } = await params;
+
+    const { thesisId, role } = await acceptInvitation(token, userId);
+
+    return NextResponse.json({ thesisId, role });
+  } catch (error: any) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[INVITATIONS] Error accepting invitation:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { listInvitationsForUser } from '@/lib/thesis/members';
+
+/**
+ * GET /api/invitations - Pending thesis invitations addressed to the caller's email
+ */
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const invitations = await listInvitationsForUser(userId);
+
+    return NextResponse.json({ invitations });
+  } catch (error: any) {
+    console.error('[INVITATIONS] Error listing invitations:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
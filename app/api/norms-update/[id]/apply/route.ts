@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findOwnedDocument, findOwnedDocumentJob, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { getUserById } from '@/lib/auth/users';
+import { applyTrackedChangesToDocx, isApplyMode, trackChangesAuthor, type ApplyMode } from '@/lib/docx-track-changes';
 import JSZip from 'jszip';
 import fs from 'fs/promises';
 import path from 'path';
@@ -7,13 +10,17 @@ import os from 'os';
 import { NormReference } from '@/lib/norms-update/types';
 
 // POST /api/norms-update/[id]/apply - Aplica atualizações aceitas
+// Body: { acceptedReferenceIds, mode?: 'replace' | 'track' } - 'track' gera controle de alterações do Word
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
-    const { acceptedReferenceIds }: { acceptedReferenceIds: string[] } = await req.json();
+    const { acceptedReferenceIds, mode = 'replace' }: { acceptedReferenceIds: string[]; mode?: ApplyMode } = await req.json();
 
     if (!acceptedReferenceIds || acceptedReferenceIds.length === 0) {
       return NextResponse.json(
@@ -22,14 +29,17 @@ export async function POST(
       );
     }
 
+    if (!isApplyMode(mode)) {
+      return NextResponse.json(
+        { error: `Invalid mode: ${mode}. Use 'replace' or 'track'` },
+        { status: 400 }
+      );
+    }
+
     // Busca job no Supabase
-    const { data: job, error: jobError } = await supabase
-      .from('norm_update_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedDocumentJob('norm_update_jobs', jobId, userId);
 
-    if (jobError || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
@@ -37,13 +47,9 @@ export async function POST(
     }
 
     // Busca documento original
-    const { data: doc, error: docError } = await supabase
-      .from('documents')
-      .select('*')
-      .eq('id', job.document_id)
-      .single();
+    const doc = await findOwnedDocument(job.document_id, userId);
 
-    if (docError || !doc) {
+    if (!doc) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -59,7 +65,7 @@ export async function POST(
     console.log(`[NORMS-APPLY] Applying ${acceptedReferences.length} updates`);
 
     // Download arquivo original
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(doc.file_path);
 
@@ -72,6 +78,36 @@ export async function POST(
     const tempOutputPath = path.join(tempDir, `${job.document_id}_updated.docx`);
 
     const buffer = Buffer.from(await fileBlob.arrayBuffer());
+
+    // Modo revisão: sugestões viram w:del/w:ins + comentários, para aceitar/rejeitar no Word
+    if (mode === 'track') {
+      const user = await getUserById(userId);
+      const { buffer: trackedBuffer, applied } = await applyTrackedChangesToDocx(
+        buffer,
+        acceptedReferences
+          .filter(r => r.suggestedText)
+          .map(r => ({
+            originalText: r.fullText,
+            newText: r.suggestedText!,
+            comment: normUpdateComment(r)
+          })),
+        { author: trackChangesAuthor(user?.name) }
+      );
+
+      console.log(`[NORMS-APPLY] Marked ${applied} updates as tracked changes`);
+
+      const sanitizedTitle = (doc.title || 'documento')
+        .replace(/[^a-zA-Z0-9_-]/g, '_')
+        .substring(0, 50);
+
+      return new NextResponse(new Uint8Array(trackedBuffer), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          'Content-Disposition': `attachment; filename="${sanitizedTitle}_normas_atualizadas_revisao.docx"`
+        }
+      });
+    }
+
     await fs.writeFile(tempInputPath, buffer);
 
     // Aplica atualizações
@@ -178,3 +214,13 @@ async function applyNormUpdatesToDocx(
   });
   await fs.writeFile(outputPath, outputBuffer);
 }
+
+/**
+ * Comentário da revisão: o que mudou na norma e onde conferir
+ */
+function normUpdateComment(ref: NormReference): string {
+  return [
+    ref.updateDescription || `${ref.number} → ${ref.updatedNumber || 'atualizada'}`,
+    ref.sourceUrl ? `Fonte: ${ref.sourceUrl}` : null
+  ].filter(Boolean).join('\n');
+}
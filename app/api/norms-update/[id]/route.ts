@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findOwnedDocumentJob, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 // GET /api/norms-update/[id] - Busca status do job
 export async function GET(
@@ -7,15 +8,14 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
 
-    const { data: job, error } = await supabase
-      .from('norm_update_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedDocumentJob('norm_update_jobs', jobId, userId);
 
-    if (error || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findOwnedDocument, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
@@ -8,16 +9,24 @@ import { extractDocumentStructure } from '@/lib/improvement/document-analyzer';
 import { detectNormsInDocument } from '@/lib/norms-update/norm-detector';
 import { verifyMultipleNorms } from '@/lib/norms-update/norm-verifier';
 import { NormReference } from '@/lib/norms-update/types';
+import type { AIProvider } from '@/lib/ai/types';
+import { runInAIScope } from '@/lib/ai/scope';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+import { parsePromptVersions, PromptTemplateError } from '@/lib/ai/prompt-templates';
 
 // POST /api/norms-update - Inicia análise de normas
 export async function POST(req: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const body = await req.json();
     const {
       documentId,
       provider = 'gemini',
       model = 'gemini-2.5-flash',
       sourceDocumentPath // Optional: for pipeline usage
-    } = await req.json();
+    } = body;
 
     if (!documentId && !sourceDocumentPath) {
       return NextResponse.json(
@@ -27,22 +36,24 @@ export async function POST(req: NextRequest) {
     }
 
     // Busca documento no Supabase
-    const { data: doc, error: docError } = await supabase
-      .from('documents')
-      .select('*')
-      .eq('id', documentId)
-      .single();
+    const doc = await findOwnedDocument(documentId, userId);
 
-    if (docError || !doc) {
+    if (!doc) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       );
     }
 
+    // Orçamento de IA do usuário estourado: não inicia o job
+    await assertWithinBudget({ userId });
+
+    // Versões de prompt fixadas para este job (sem valor = as ativas)
+    const promptVersions = await parsePromptVersions(body.promptVersions, userId);
+
     // Cria job no Supabase
     const jobId = randomUUID();
-    const { error: insertError } = await supabase
+    const { error: insertError } = await db
       .from('norm_update_jobs')
       .insert({
         id: jobId,
@@ -69,13 +80,23 @@ export async function POST(req: NextRequest) {
     }
 
     // Inicia processamento em background
-    processNormsUpdate(jobId, doc, provider, model, sourceDocumentPath).catch(err => {
+    runInAIScope(
+      { operation: 'update', job: { table: 'norm_update_jobs', id: jobId }, userId, documentId, promptVersions },
+      () => processNormsUpdate(jobId, doc, provider, model, sourceDocumentPath)
+    ).catch(err => {
       console.error('[NORMS] Background processing error:', err);
     });
 
     return NextResponse.json({ jobId });
 
   } catch (error: any) {
+    if (error instanceof BudgetExceededError || error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('[NORMS] Error:', error);
     return NextResponse.json(
       { error: error.message },
@@ -90,13 +111,13 @@ export async function POST(req: NextRequest) {
 async function processNormsUpdate(
   jobId: string,
   doc: any,
-  provider: 'openai' | 'gemini',
+  provider: AIProvider,
   model: string,
   sourceDocumentPath?: string
 ) {
   try {
     // Atualiza status para analyzing
-    await supabase
+    await db
       .from('norm_update_jobs')
       .update({
         status: 'analyzing',
@@ -114,7 +135,7 @@ async function processNormsUpdate(
       tempFilePath = sourceDocumentPath;
     } else {
       // Standalone mode - download from Storage
-      const { data: fileBlob, error: downloadError } = await supabase.storage
+      const { data: fileBlob, error: downloadError } = await storage
         .from('documents')
         .download(doc.file_path);
 
@@ -143,21 +164,16 @@ async function processNormsUpdate(
 
     // Detecta normas no documento
     console.log('[NORMS] Detecting norms...');
-    const apiKey = provider === 'openai'
-      ? process.env.OPENAI_API_KEY!
-      : (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY)!;
-
     let references = await detectNormsInDocument(
       paragraphsWithContext,
       provider,
-      model,
-      apiKey
+      model
     );
 
     console.log(`[NORMS] Found ${references.length} references`);
 
     // Atualiza job com referências encontradas
-    await supabase
+    await db
       .from('norm_update_jobs')
       .update({
         total_references: references.length,
@@ -167,7 +183,7 @@ async function processNormsUpdate(
 
     if (references.length === 0) {
       // Nenhuma norma encontrada
-      await supabase
+      await db
         .from('norm_update_jobs')
         .update({
           status: 'completed',
@@ -187,12 +203,11 @@ async function processNormsUpdate(
       references,
       provider,
       model,
-      apiKey,
       undefined, // Gemini não precisa de função de web search externa
       async (current: number, total: number) => {
         // Callback de progresso
         const percentage = 10 + Math.floor((current / total) * 90);
-        await supabase
+        await db
           .from('norm_update_jobs')
           .update({
             current_reference: current,
@@ -206,7 +221,7 @@ async function processNormsUpdate(
     const stats = calculateStats(verifiedReferences);
 
     // Salva resultado final
-    await supabase
+    await db
       .from('norm_update_jobs')
       .update({
         status: 'completed',
@@ -229,7 +244,7 @@ async function processNormsUpdate(
   } catch (error: any) {
     console.error('[NORMS] Processing error:', error);
 
-    await supabase
+    await db
       .from('norm_update_jobs')
       .update({
         status: 'error',
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findOwnedPipelineJob, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import { startPipelineExecution } from '@/lib/pipeline/engine';
 
 /**
@@ -11,19 +12,18 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
     const { approvedItems }: { approvedItems: string[] } = await req.json();
 
     console.log(`[PIPELINE-APPROVE] Job ${jobId}, approved items:`, approvedItems);
 
     // Load pipeline job
-    const { data: job, error: jobError } = await supabase
-      .from('pipeline_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedPipelineJob(jobId, userId);
 
-    if (jobError || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Pipeline job not found' },
         { status: 404 }
@@ -52,7 +52,7 @@ export async function POST(
     }
 
     // Update job with approved items
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({
         operation_results: operationResults,
@@ -90,7 +90,7 @@ async function applyApprovedChanges(
 ) {
   try {
     // Load job
-    const { data: job, error } = await supabase
+    const { data: job, error } = await db
       .from('pipeline_jobs')
       .select('*')
       .eq('id', jobId)
@@ -135,7 +135,7 @@ async function applyApprovedChanges(
     };
 
     // Move to next operation
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({
         operation_results: updatedResults,
@@ -153,7 +153,7 @@ async function applyApprovedChanges(
     console.error('[PIPELINE-APPROVE] Apply error:', error);
 
     // Mark as failed
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({
         status: 'failed',
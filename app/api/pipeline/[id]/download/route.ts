@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findOwnedPipelineJob, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 /**
  * GET /api/pipeline/[id]/download?type=final|intermediate&index=N
@@ -10,19 +11,18 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
     const { searchParams } = new URL(req.url);
     const type = searchParams.get('type') || 'final';
     const operationIndex = searchParams.get('index');
 
     // Load pipeline job
-    const { data: job, error: jobError } = await supabase
-      .from('pipeline_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedPipelineJob(jobId, userId);
 
-    if (jobError || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Pipeline job not found' },
         { status: 404 }
@@ -53,7 +53,7 @@ export async function GET(
         );
       }
 
-      const { data: intermediateDoc, error: docError } = await supabase
+      const { data: intermediateDoc, error: docError } = await db
         .from('pipeline_intermediate_documents')
         .select('*')
         .eq('pipeline_job_id', jobId)
@@ -78,7 +78,7 @@ export async function GET(
     }
 
     // Download from Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('pipeline-outputs')
       .download(downloadPath);
 
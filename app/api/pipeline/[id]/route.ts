@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findOwnedPipelineJob, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import { PipelineStatusResponse } from '@/lib/pipeline/types';
 
 /**
@@ -11,16 +12,15 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
 
     // Load pipeline job
-    const { data: job, error: jobError } = await supabase
-      .from('pipeline_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedPipelineJob(jobId, userId);
 
-    if (jobError || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Pipeline job not found' },
         { status: 404 }
@@ -28,7 +28,7 @@ export async function GET(
     }
 
     // Load intermediate documents
-    const { data: intermediateDocuments, error: docsError } = await supabase
+    const { data: intermediateDocuments, error: docsError } = await db
       .from('pipeline_intermediate_documents')
       .select('*')
       .eq('pipeline_job_id', jobId)
@@ -65,10 +65,20 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
 
+    if (!(await findOwnedPipelineJob(jobId, userId))) {
+      return NextResponse.json(
+        { error: 'Pipeline job not found' },
+        { status: 404 }
+      );
+    }
+
     // Update status to cancelled
-    const { error } = await supabase
+    const { error } = await db
       .from('pipeline_jobs')
       .update({
         status: 'cancelled',
@@ -105,6 +115,9 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
     const { action }: { action: 'pause' | 'resume' } = await req.json();
 
@@ -115,9 +128,16 @@ export async function PATCH(
       );
     }
 
+    if (!(await findOwnedPipelineJob(jobId, userId))) {
+      return NextResponse.json(
+        { error: 'Pipeline job not found' },
+        { status: 404 }
+      );
+    }
+
     const newStatus = action === 'pause' ? 'paused' : 'running';
 
-    const { error } = await supabase
+    const { error } = await db
       .from('pipeline_jobs')
       .update({ status: newStatus })
       .eq('id', jobId);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findOwnedDocument, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import { randomUUID } from 'crypto';
 import {
   CreatePipelineRequest,
@@ -8,6 +9,8 @@ import {
   OperationConfigs
 } from '@/lib/pipeline/types';
 import { startPipelineExecution } from '@/lib/pipeline/engine';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+import { parsePromptVersions, PromptTemplateError } from '@/lib/ai/prompt-templates';
 
 /**
  * POST /api/pipeline
@@ -15,6 +18,9 @@ import { startPipelineExecution } from '@/lib/pipeline/engine';
  */
 export async function POST(req: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const body: CreatePipelineRequest = await req.json();
     const { documentId, operations, configs } = body;
 
@@ -26,14 +32,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Verify document exists
-    const { data: doc, error: docError } = await supabase
-      .from('documents')
-      .select('id, title')
-      .eq('id', documentId)
-      .single();
+    // Verify document exists and belongs to the user
+    const doc = await findOwnedDocument(documentId, userId);
 
-    if (docError || !doc) {
+    if (!doc) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -51,9 +53,17 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Pinned prompt versions must exist before the first operation runs
+    for (const config of Object.values(configs || {})) {
+      await parsePromptVersions(config?.promptVersions, userId);
+    }
+
+    // AI budget already exceeded: don't start
+    await assertWithinBudget({ userId });
+
     // Create pipeline job
     const jobId = randomUUID();
-    const { error: insertError } = await supabase
+    const { error: insertError } = await db
       .from('pipeline_jobs')
       .insert({
         id: jobId,
@@ -64,6 +74,7 @@ export async function POST(req: NextRequest) {
         current_operation_index: 0,
         operation_results: [],
         total_cost_usd: 0,
+        created_by: userId,
         created_at: new Date().toISOString()
       });
 
@@ -89,6 +100,13 @@ export async function POST(req: NextRequest) {
     return NextResponse.json(response);
 
   } catch (error: any) {
+    if (error instanceof BudgetExceededError || error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('[PIPELINE] Error:', error);
     return NextResponse.json(
       { error: error.message },
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findOwnedProject, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 // GET /api/projects/[id] - Retorna projeto com seus documentos
 export async function GET(
@@ -7,16 +8,15 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
 
-    // Busca o projeto
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', id)
-      .single();
+    // Busca o projeto (apenas se pertencer ao usuário)
+    const project = await findOwnedProject(id, userId);
 
-    if (projectError || !project) {
+    if (!project) {
       return NextResponse.json(
         { error: 'Project not found' },
         { status: 404 }
@@ -24,10 +24,11 @@ export async function GET(
     }
 
     // Busca todos os documentos do projeto
-    const { data: documents, error: docsError } = await supabase
+    const { data: documents, error: docsError } = await db
       .from('documents')
       .select('id, title, pages, chunks_count')
-      .eq('project_id', id);
+      .eq('project_id', id)
+      .eq('owner_id', userId);
 
     if (docsError) throw docsError;
 
@@ -40,7 +41,7 @@ export async function GET(
         updatedAt: project.updated_at,
         documentCount: documents?.length || 0
       },
-      documents: (documents || []).map(doc => ({
+      documents: (documents || []).map((doc: any) => ({
         id: doc.id,
         title: doc.title,
         pages: doc.pages,
@@ -62,14 +63,13 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
 
-    // Verifica se o projeto existe
-    const { data: project } = await supabase
-      .from('projects')
-      .select('id')
-      .eq('id', id)
-      .single();
+    // Verifica se o projeto existe e pertence ao usuário
+    const project = await findOwnedProject(id, userId);
 
     if (!project) {
       return NextResponse.json(
@@ -79,13 +79,13 @@ export async function DELETE(
     }
 
     // Remove projectId de todos os documentos do projeto (SET NULL)
-    await supabase
+    await db
       .from('documents')
       .update({ project_id: null })
       .eq('project_id', id);
 
     // Deleta o projeto
-    const { error } = await supabase
+    const { error } = await db
       .from('projects')
       .delete()
       .eq('id', id);
@@ -111,10 +111,20 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
     const body = await req.json();
     const { name, description } = body;
 
+    if (!(await findOwnedProject(id, userId))) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
     // Prepara campos para atualizar
     const updates: any = {};
     if (name !== undefined && name.trim().length > 0) {
@@ -125,7 +135,7 @@ export async function PATCH(
     }
 
     // Atualiza o projeto
-    const { data: project, error } = await supabase
+    const { data: project, error } = await db
       .from('projects')
       .update(updates)
       .eq('id', id)
@@ -140,10 +150,11 @@ export async function PATCH(
     }
 
     // Conta documentos do projeto
-    const { count } = await supabase
+    const { count } = await db
       .from('documents')
       .select('*', { count: 'exact', head: true })
-      .eq('project_id', id);
+      .eq('project_id', id)
+      .eq('owner_id', userId);
 
     return NextResponse.json({
       project: {
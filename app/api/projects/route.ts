@@ -1,24 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
-// GET /api/projects - Lista todos os projetos
+// GET /api/projects - Lista os projetos do usuário
 export async function GET() {
   try {
-    // Busca todos os projetos
-    const { data: projects, error } = await supabase
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    // Busca os projetos do usuário
+    const { data: projects, error } = await db
       .from('projects')
       .select('id, name, description, created_at, updated_at')
+      .eq('owner_id', userId)
       .order('updated_at', { ascending: false });
 
     if (error) throw error;
 
     // Para cada projeto, conta quantos documentos ele tem
     const projectsWithCounts = await Promise.all(
-      (projects || []).map(async (project) => {
-        const { count } = await supabase
+      (projects || []).map(async (project: any) => {
+        const { count } = await db
           .from('documents')
           .select('*', { count: 'exact', head: true })
-          .eq('project_id', project.id);
+          .eq('project_id', project.id)
+          .eq('owner_id', userId);
 
         return {
           id: project.id,
@@ -44,6 +50,9 @@ export async function GET() {
 // POST /api/projects - Cria novo projeto
 export async function POST(req: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const body = await req.json();
     const { name, description } = body;
 
@@ -54,11 +63,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { data: project, error } = await supabase
+    const { data: project, error } = await db
       .from('projects')
       .insert({
         name: name.trim(),
-        description: description?.trim() || null
+        description: description?.trim() || null,
+        owner_id: userId
       })
       .select()
       .single();
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import {
+  activatePromptVersion,
+  isPromptKey,
+  listPromptVersions,
+  PromptTemplateError,
+  savePromptVersion
+} from '@/lib/ai/prompt-templates';
+
+export const runtime = 'nodejs';
+
+function notFound(key: string) {
+  return NextResponse.json(
+    { error: `Unknown prompt: ${key}` },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/prompts/[key] - The caller's versions of the prompt, newest first (version 0 = built-in default)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { key } = await params;
+    if (!isPromptKey(key)) return notFound(key);
+
+    return NextResponse.json({ versions: await listPromptVersions(key, userId) });
+  } catch (error: any) {
+    console.error('[PROMPTS] Versions error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/prompts/[key] - Save a new version of the caller's prompt
+ *
+ * Body: { body, note?, activate?: boolean (default true) }
+ * The body may only use the variables declared for the prompt.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { key } = await params;
+    if (!isPromptKey(key)) return notFound(key);
+
+    const { body, note, activate } = await req.json();
+    if (typeof body !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: body' },
+        { status: 400 }
+      );
+    }
+
+    const version = await savePromptVersion(key, { body, note, activate }, userId);
+
+    return NextResponse.json({ version });
+  } catch (error: any) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[PROMPTS] Save error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/prompts/[key] - Choose the caller's active version (used by the jobs they start)
+ *
+ * Body: { activeVersion } (0 restores the built-in default)
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { key } = await params;
+    if (!isPromptKey(key)) return notFound(key);
+
+    const { activeVersion } = await req.json();
+    await activatePromptVersion(key, activeVersion, userId);
+
+    return NextResponse.json({ success: true, activeVersion });
+  } catch (error: any) {
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[PROMPTS] Activate error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { listPromptTemplates } from '@/lib/ai/prompt-templates';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/prompts - Every prompt template with its variables and the caller's active and latest version
+ */
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    return NextResponse.json({ templates: await listPromptTemplates(userId) });
+  } catch (error: any) {
+    console.error('[PROMPTS] List error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { storage } from '@/lib/storage';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -14,6 +15,8 @@ const ALLOWED_MIME_TYPES = [
 
 export async function POST(req: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
 
     // Parse form data
     const formData = await req.formData();
@@ -44,11 +47,11 @@ export async function POST(req: NextRequest) {
     // Generate unique file path
     const timestamp = Date.now();
     const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-    const filePath = `refs/${timestamp}_${sanitizedName}`;
+    const filePath = `refs/${userId}/${timestamp}_${sanitizedName}`;
 
     // Upload to Supabase Storage
     const buffer = await file.arrayBuffer();
-    const { data: uploadData, error: uploadError } = await supabase.storage
+    const { data: uploadData, error: uploadError } = await storage
       .from('reference-materials')
       .upload(filePath, buffer, {
         contentType: file.type,
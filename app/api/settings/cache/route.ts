@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { clearAICache, getCacheStats } from '@/lib/ai/cache';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/settings/cache - AI response cache stats: { entries, hits, savedUsd }
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getCacheStats());
+  } catch (error: any) {
+    console.error('Cache stats error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/settings/cache - Remove every cached AI response
+ */
+export async function DELETE() {
+  try {
+    await clearAICache();
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Cache clear error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { state } from '@/lib/state';
+import { AI_OPERATIONS } from '@/lib/ai/types';
+import { FallbackChainError, formatFallbackChains, parseFallbackChains } from '@/lib/ai/fallbacks';
 
 export const runtime = 'nodejs';
 
@@ -20,19 +22,52 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { openaiKey, googleKey, xaiKey, models } = body;
+    const {
+      openaiKey,
+      googleKey,
+      xaiKey,
+      localBaseUrl,
+      localApiKey,
+      mockEnabled,
+      models,
+      fallbackChains,
+      cacheEnabled,
+      cacheTtlHours,
+      cacheDisabledOperations
+    } = body;
+
+    // Texto ("gemini:gemini-2.5-flash > openai:gpt-4o-mini", uma cadeia por linha) ou a lista já estruturada
+    const parsedChains = fallbackChains === undefined
+      ? undefined
+      : parseFallbackChains(typeof fallbackChains === 'string' ? fallbackChains : formatFallbackChains(fallbackChains));
 
     // Update settings in memory
     if (openaiKey !== undefined) state.settings.openaiKey = openaiKey;
     if (googleKey !== undefined) state.settings.googleKey = googleKey;
     if (xaiKey !== undefined) state.settings.xaiKey = xaiKey;
+    if (localBaseUrl !== undefined) state.settings.localBaseUrl = localBaseUrl.trim().replace(/\/+$/, '');
+    if (localApiKey !== undefined) state.settings.localApiKey = localApiKey;
+    if (mockEnabled !== undefined) state.settings.mockEnabled = !!mockEnabled;
     if (models !== undefined) state.settings.models = models;
+    if (parsedChains !== undefined) state.settings.fallbackChains = parsedChains;
+    if (cacheEnabled !== undefined) state.settings.cacheEnabled = !!cacheEnabled;
+    if (cacheTtlHours !== undefined && Number(cacheTtlHours) > 0) state.settings.cacheTtlHours = Number(cacheTtlHours);
+    if (Array.isArray(cacheDisabledOperations)) {
+      state.settings.cacheDisabledOperations = cacheDisabledOperations.filter(op => AI_OPERATIONS.includes(op));
+    }
 
     return NextResponse.json({
       success: true,
       settings: state.settings
     });
   } catch (error: any) {
+    if (error instanceof FallbackChainError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('Settings update error:', error);
     return NextResponse.json(
       { error: `Failed to update settings: ${error.message}` },
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { state } from '@/lib/state';
-import { executeAI } from '@/lib/ai/executor';
+import { getProvider } from '@/lib/ai/registry';
+import type { AIProvider } from '@/lib/ai/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 
 export async function POST(request: NextRequest) {
   try {
-    const { provider } = await request.json() as { provider: 'openai' | 'gemini' | 'grok' };
+    const { provider } = await request.json() as { provider: AIProvider };
 
     if (!provider) {
       return NextResponse.json(
@@ -16,45 +16,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get model for provider
-    let model = '';
-    switch (provider) {
-      case 'openai':
-        model = state.settings.models.openai[0];
-        break;
-      case 'gemini':
-        model = state.settings.models.gemini[0];
-        break;
-      case 'grok':
-        model = state.settings.models.grok[0];
-        break;
-    }
-
-    if (!model) {
-      return NextResponse.json(
-        { error: 'No model configured for provider' },
-        { status: 400 }
-      );
-    }
-
-    // Test with simple ping
-    const result = await executeAI(provider, {
-      question: 'Responda apenas: OK',
-      context: [
-        {
-          ix: 0,
-          pageFrom: 1,
-          pageTo: 1,
-          text: 'Teste de conexão'
-        }
-      ],
-      model
-    });
+    // Test with simple ping (primeiro modelo configurado do provedor)
+    const result = await getProvider(provider).testConnection();
 
     return NextResponse.json({
       success: true,
       provider,
-      model,
+      model: result.model,
       latencyMs: result.latencyMs
     });
   } catch (error: any) {
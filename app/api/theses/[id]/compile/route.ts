@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
 import { mergeChapterVersions, uploadMergedDocument, ChapterSelection } from '@/lib/thesis/document-merger';
 
 type CompileRequest = {
@@ -18,32 +19,35 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: thesisId } = await params;
     const body: CompileRequest = await request.json();
 
     console.log('[COMPILE-API] Starting compilation for thesis:', thesisId);
     console.log('[COMPILE-API] Selections:', body.chapterSelections);
 
-    // 1. Validate thesis exists
-    const { data: thesis, error: thesisError } = await supabase
-      .from('theses')
-      .select('id, title')
-      .eq('id', thesisId)
-      .single();
+    // 1. Validate thesis exists and the caller may edit it
+    const access = await findThesisAccess(thesisId, userId);
 
-    if (thesisError || !thesis) {
+    if (!access) {
       return NextResponse.json(
         { error: 'Thesis not found' },
         { status: 404 }
       );
     }
 
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    const { thesis } = access;
+
     // 2. Validate and fetch all selected chapter versions
     const selections: ChapterSelection[] = [];
 
     for (const selection of body.chapterSelections) {
       // Get chapter info
-      const { data: chapter, error: chapterError } = await supabase
+      const { data: chapter, error: chapterError } = await db
         .from('chapters')
         .select('id, thesis_id, title, chapter_order')
         .eq('id', selection.chapterId)
@@ -65,7 +69,7 @@ export async function POST(
       }
 
       // Get version info
-      const { data: version, error: versionError } = await supabase
+      const { data: version, error: versionError } = await db
         .from('chapter_versions')
         .select('id, file_path, pages')
         .eq('id', selection.versionId)
@@ -121,12 +125,12 @@ export async function POST(
     }, 0);
 
     // Query actual pages
-    const { data: versionsData } = await supabase
+    const { data: versionsData } = await db
       .from('chapter_versions')
       .select('id, pages')
       .in('id', selections.map(s => s.versionId));
 
-    const calculatedTotalPages = (versionsData || []).reduce((sum, v) => sum + (v.pages || 0), 0);
+    const calculatedTotalPages = (versionsData || []).reduce((sum: number, v: any) => sum + (v.pages || 0), 0);
 
     // 7. Create thesis_version record
     const chaptersIncludedData = selections.map(s => ({
@@ -137,7 +141,7 @@ export async function POST(
     }));
 
     // Get next version number
-    const { data: maxVersionData } = await supabase
+    const { data: maxVersionData } = await db
       .from('thesis_versions')
       .select('version_number')
       .eq('thesis_id', thesisId)
@@ -156,7 +160,7 @@ export async function POST(
       chapters_included: chaptersIncludedData,
     });
 
-    const { data: thesisVersion, error: createError } = await supabase
+    const { data: thesisVersion, error: createError } = await db
       .from('thesis_versions')
       .insert({
         thesis_id: thesisId,
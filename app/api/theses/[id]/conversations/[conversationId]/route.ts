@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import {
+  ConversationError,
+  deleteConversation,
+  findConversation,
+  listConversationMessages,
+  renameConversation
+} from '@/lib/thesis/conversations';
+
+type RouteParams = { params: Promise<{ id: string; conversationId: string }> };
+
+async function findThesisConversation(params: RouteParams['params'], userId: string) {
+  const { id: thesisId, conversationId } = await params;
+  const conversation = await findConversation(conversationId, userId);
+
+  if (conversation.thesis_id !== thesisId) {
+    throw new ConversationError('Conversation not found', 404);
+  }
+
+  return conversation;
+}
+
+function errorResponse(error: any, action: string) {
+  if (error instanceof ConversationError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(`[CONVERSATIONS] Error ${action}:`, error);
+  return NextResponse.json(
+    { error: error.message },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/theses/[id]/conversations/[conversationId] - Conversation with its messages
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const conversation = await findThesisConversation(params, userId);
+    const messages = await listConversationMessages(conversation.id);
+
+    return NextResponse.json({ conversation, messages });
+  } catch (error: any) {
+    return errorResponse(error, 'loading conversation');
+  }
+}
+
+/**
+ * PATCH /api/theses/[id]/conversations/[conversationId] - Rename
+ * Body: { title: string }
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const conversation = await findThesisConversation(params, userId);
+    const body = await req.json();
+
+    await renameConversation(conversation.id, body.title);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return errorResponse(error, 'renaming conversation');
+  }
+}
+
+/**
+ * DELETE /api/theses/[id]/conversations/[conversationId] - Delete with its messages
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const conversation = await findThesisConversation(params, userId);
+    await deleteConversation(conversation.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return errorResponse(error, 'deleting conversation');
+  }
+}
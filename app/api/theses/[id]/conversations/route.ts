@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { ConversationError, createConversation, listConversations } from '@/lib/thesis/conversations';
+
+/**
+ * GET /api/theses/[id]/conversations - List the current user's chat conversations in the thesis
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+
+    if (!(await findThesisAccess(thesisId, userId))) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    const conversations = await listConversations(thesisId, userId);
+    return NextResponse.json({ conversations });
+  } catch (error: any) {
+    console.error('[CONVERSATIONS] Error listing conversations:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/theses/[id]/conversations - Start a conversation
+ * Body: { title?: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+
+    if (!(await findThesisAccess(thesisId, userId))) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const conversation = await createConversation({ thesisId, userId, title: body.title });
+
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[CONVERSATIONS] Error creating conversation:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { MembershipError, revokeInvitation } from '@/lib/thesis/members';
+
+/**
+ * DELETE /api/theses/[id]/invitations/[invitationId] - Revoke a pending invitation (owner only)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId, invitationId } = await params;
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'manage')) return forbiddenResponse('manage');
+
+    await revokeInvitation(thesisId, invitationId);
+
+    return NextResponse.json({ message: 'Invitation revoked successfully' });
+  } catch (error: any) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[MEMBERS] Error revoking invitation:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { inviteToThesis, MembershipError } from '@/lib/thesis/members';
+
+/**
+ * POST /api/theses/[id]/invitations - Invite someone by email (owner only)
+ *
+ * Body: { email, role: 'coauthor' | 'reviewer' }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+    const { email, role } = await req.json();
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'manage')) return forbiddenResponse('manage');
+
+    const invitation = await inviteToThesis({ thesisId, email, role, invitedBy: userId });
+
+    return NextResponse.json({
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        createdAt: invitation.created_at
+      }
+    });
+  } catch (error: any) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[MEMBERS] Error creating invitation:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
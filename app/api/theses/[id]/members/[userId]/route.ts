@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { MembershipError, removeMember, updateMemberRole } from '@/lib/thesis/members';
+
+/**
+ * PATCH /api/theses/[id]/members/[userId] - Change a member's role (owner only)
+ *
+ * Body: { role: 'coauthor' | 'reviewer' }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId, userId: memberUserId } = await params;
+    const { role } = await req.json();
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'manage')) return forbiddenResponse('manage');
+
+    const member = await updateMemberRole(thesisId, memberUserId, role);
+
+    console.log(`[MEMBERS] User ${memberUserId} is now ${member.role} on thesis ${thesisId}`);
+
+    return NextResponse.json({ member: { userId: member.user_id, role: member.role } });
+  } catch (error: any) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[MEMBERS] Error updating member:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/theses/[id]/members/[userId] - Remove a member (owner), or leave the thesis (self)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId, userId: memberUserId } = await params;
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (memberUserId !== userId && !roleCan(access.role, 'manage')) {
+      return forbiddenResponse('manage');
+    }
+
+    await removeMember(thesisId, memberUserId);
+
+    return NextResponse.json({ message: 'Member removed successfully' });
+  } catch (error: any) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[MEMBERS] Error removing member:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { listPendingInvitations, listThesisMembers } from '@/lib/thesis/members';
+
+/**
+ * GET /api/theses/[id]/members - List thesis members (and pending invitations, for the owner)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    const members = await listThesisMembers(thesisId);
+    const invitations = roleCan(access.role, 'manage')
+      ? (await listPendingInvitations(thesisId)).map(inv => ({
+          id: inv.id,
+          email: inv.email,
+          role: inv.role,
+          createdAt: inv.created_at
+        }))
+      : [];
+
+    return NextResponse.json({ role: access.role, members, invitations });
+  } catch (error: any) {
+    console.error('[MEMBERS] Error listing members:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
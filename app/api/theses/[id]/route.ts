@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
 
 /**
  * GET /api/theses/[id] - Get thesis with its chapters
@@ -9,24 +10,25 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
 
-    // Fetch the thesis
-    const { data: thesis, error: thesisError } = await supabase
-      .from('theses')
-      .select('*')
-      .eq('id', id)
-      .single();
+    // Fetch the thesis (only if the caller is a member)
+    const access = await findThesisAccess(id, userId);
 
-    if (thesisError || !thesis) {
+    if (!access) {
       return NextResponse.json(
         { error: 'Thesis not found' },
         { status: 404 }
       );
     }
 
+    const { thesis, role } = access;
+
     // Fetch all chapters of the thesis with current version details
-    const { data: chapters, error: chaptersError } = await supabase
+    const { data: chapters, error: chaptersError } = await db
       .from('chapter_details')
       .select('*')
       .eq('thesis_id', id)
@@ -43,9 +45,10 @@ export async function GET(
         description: thesis.description,
         createdAt: thesis.created_at,
         updatedAt: thesis.updated_at,
-        chapterCount: chapters?.length || 0
+        chapterCount: chapters?.length || 0,
+        role
       },
-      chapters: (chapters || []).map(ch => ({
+      chapters: (chapters || []).map((ch: any) => ({
         id: ch.chapter_id,
         thesisId: ch.thesis_id,
         title: ch.chapter_title,
@@ -82,10 +85,24 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
     const body = await req.json();
     const { title, description } = body;
 
+    const access = await findThesisAccess(id, userId);
+
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'manage')) return forbiddenResponse('manage');
+
     // Prepare fields to update
     const updates: any = {};
     if (title !== undefined && title.trim().length > 0) {
@@ -104,7 +121,7 @@ export async function PATCH(
     }
 
     // Update the thesis
-    const { data: thesis, error } = await supabase
+    const { data: thesis, error } = await db
       .from('theses')
       .update(updates)
       .eq('id', id)
@@ -119,7 +136,7 @@ export async function PATCH(
     }
 
     // Count chapters in the thesis
-    const { count } = await supabase
+    const { count } = await db
       .from('chapters')
       .select('*', { count: 'exact', head: true })
       .eq('thesis_id', id);
@@ -133,7 +150,8 @@ export async function PATCH(
         description: thesis.description,
         createdAt: thesis.created_at,
         updatedAt: thesis.updated_at,
-        chapterCount: count || 0
+        chapterCount: count || 0,
+        role: access.role
       }
     });
   } catch (error: any) {
@@ -153,24 +171,27 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id } = await params;
 
-    // Verify thesis exists
-    const { data: thesis } = await supabase
-      .from('theses')
-      .select('id, title')
-      .eq('id', id)
-      .single();
+    // Verify thesis exists and the caller is its owner
+    const access = await findThesisAccess(id, userId);
 
-    if (!thesis) {
+    if (!access) {
       return NextResponse.json(
         { error: 'Thesis not found' },
         { status: 404 }
       );
     }
 
+    if (!roleCan(access.role, 'manage')) return forbiddenResponse('manage');
+
+    const { thesis } = access;
+
     // Delete the thesis (CASCADE will delete chapters, versions, and chunks)
-    const { error } = await supabase
+    const { error } = await db
       .from('theses')
       .delete()
       .eq('id', id);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { deleteTermbaseEntry, TermbaseError, updateTermbaseEntry } from '@/lib/translation/termbase';
+
+type RouteParams = { params: Promise<{ id: string; entryId: string }> };
+
+function errorResponse(error: any, action: string) {
+  if (error instanceof TermbaseError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(`[TERMBASE] Error ${action}:`, error);
+  return NextResponse.json(
+    { error: error.message },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH /api/theses/[id]/termbase/[entryId] - Update a term
+ * Body: any of { sourceTerm, targetLanguage, translation, forbidden, partOfSpeech, notes, caseSensitive }
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId, entryId } = await params;
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) throw new TermbaseError('Thesis not found', 404);
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    const entry = await updateTermbaseEntry(thesisId, entryId, await req.json());
+    return NextResponse.json({ entry });
+  } catch (error: any) {
+    return errorResponse(error, 'updating term');
+  }
+}
+
+/**
+ * DELETE /api/theses/[id]/termbase/[entryId] - Remove a term
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId, entryId } = await params;
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) throw new TermbaseError('Thesis not found', 404);
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    await deleteTermbaseEntry(thesisId, entryId);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return errorResponse(error, 'deleting term');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { isSupportedLanguage, listTermbase } from '@/lib/translation/termbase';
+import { termbaseToCsv, termbaseToTbx } from '@/lib/translation/termbase-formats';
+
+/**
+ * GET /api/theses/[id]/termbase/export - Download the termbase
+ * Query: ?format=tbx|csv (default tbx), ?targetLanguage=en (optional),
+ * ?sourceLanguage=pt (language of the source terms in the TBX, default pt)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+
+    if (!(await findThesisAccess(thesisId, userId))) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    const format = req.nextUrl.searchParams.get('format') || 'tbx';
+    const targetLanguage = req.nextUrl.searchParams.get('targetLanguage');
+    const sourceLanguage = req.nextUrl.searchParams.get('sourceLanguage') || 'pt';
+
+    if (format !== 'tbx' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'format must be tbx or csv' },
+        { status: 400 }
+      );
+    }
+
+    if ((targetLanguage && !isSupportedLanguage(targetLanguage)) || !isSupportedLanguage(sourceLanguage)) {
+      return NextResponse.json(
+        { error: 'Unsupported language' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await listTermbase(thesisId, targetLanguage || undefined);
+    const content = format === 'csv' ? termbaseToCsv(entries) : termbaseToTbx(entries, sourceLanguage);
+    const fileName = `termbase${targetLanguage ? `_${targetLanguage}` : ''}.${format}`;
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-tbx+xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+  } catch (error: any) {
+    console.error('[TERMBASE] Error exporting termbase:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { importTermbase, isSupportedLanguage, TermbaseError } from '@/lib/translation/termbase';
+import { parseTermbaseFile, type TermbaseFormat } from '@/lib/translation/termbase-formats';
+
+// Termbases de tese têm no máximo alguns milhares de termos
+const IMPORT_MAX_CHARS = 2_000_000;
+
+/**
+ * POST /api/theses/[id]/termbase/import - Import terms from a TBX or CSV file
+ * Body: { content: string, format?: 'tbx' | 'csv', sourceLanguage?: string }
+ *
+ * The format is detected from the content when omitted. sourceLanguage picks
+ * the source langSet of each TBX entry (default pt). Existing terms with the
+ * same source term and target language are replaced.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    const {
+      content,
+      format,
+      sourceLanguage = 'pt'
+    }: {
+      content: string;
+      format?: TermbaseFormat;
+      sourceLanguage?: string;
+    } = await req.json();
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new TermbaseError('Missing required field: content');
+    }
+    if (content.length > IMPORT_MAX_CHARS) {
+      throw new TermbaseError('File too large', 413);
+    }
+    if (format && format !== 'tbx' && format !== 'csv') {
+      throw new TermbaseError('format must be tbx or csv');
+    }
+    if (!isSupportedLanguage(sourceLanguage)) {
+      throw new TermbaseError(`Unsupported sourceLanguage: ${sourceLanguage}`);
+    }
+
+    const inputs = await parseTermbaseFile(content, { format, sourceLanguage });
+    const result = await importTermbase(thesisId, inputs, userId);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    if (error instanceof TermbaseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[TERMBASE] Error importing termbase:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { isSupportedLanguage, listTermbase, saveTermbaseEntry, TermbaseError } from '@/lib/translation/termbase';
+
+/**
+ * GET /api/theses/[id]/termbase - Terms of the thesis termbase
+ * Query: ?targetLanguage=en (optional)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+
+    if (!(await findThesisAccess(thesisId, userId))) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    const targetLanguage = req.nextUrl.searchParams.get('targetLanguage');
+    if (targetLanguage && !isSupportedLanguage(targetLanguage)) {
+      return NextResponse.json(
+        { error: `Unsupported targetLanguage: ${targetLanguage}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = await listTermbase(thesisId, targetLanguage || undefined);
+    return NextResponse.json({ entries });
+  } catch (error: any) {
+    console.error('[TERMBASE] Error listing terms:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/theses/[id]/termbase - Add a term (same term and target language = update)
+ * Body: { sourceTerm, targetLanguage, translation, forbidden?, partOfSpeech?, notes?, caseSensitive? }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { id: thesisId } = await params;
+
+    const access = await findThesisAccess(thesisId, userId);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!roleCan(access.role, 'edit')) return forbiddenResponse('edit');
+
+    const entry = await saveTermbaseEntry(thesisId, await req.json(), userId);
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof TermbaseError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[TERMBASE] Error saving term:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
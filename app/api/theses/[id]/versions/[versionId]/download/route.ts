@@ -1,17 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findThesisAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; versionId: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: thesisId, versionId } = await params;
 
+    if (!(await findThesisAccess(thesisId, userId))) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
     console.log('[THESIS-VERSION-DOWNLOAD] Downloading:', { thesisId, versionId });
 
     // Get thesis version info
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('thesis_versions')
       .select('file_path, version_number')
       .eq('id', versionId)
@@ -26,7 +37,7 @@ export async function GET(
     }
 
     // Download file from storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
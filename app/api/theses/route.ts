@@ -1,23 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { db } from '@/lib/storage';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { ThesisRole } from '@/lib/thesis/types';
 
 /**
- * GET /api/theses - List all theses with chapter counts
+ * GET /api/theses - List theses the caller owns or is a member of, with chapter counts
  */
 export async function GET() {
   try {
-    // Fetch all theses
-    const { data: theses, error } = await supabase
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    // Theses shared with the user (co-author / reviewer)
+    const { data: memberships, error: membershipsError } = await db
+      .from('thesis_members')
+      .select('thesis_id, role')
+      .eq('user_id', userId);
+
+    if (membershipsError) throw membershipsError;
+
+    const roles = new Map<string, ThesisRole>(
+      (memberships || []).map((m: any) => [m.thesis_id, m.role])
+    );
+
+    // Fetch owned theses plus shared ones
+    const { data: owned, error } = await db
       .from('theses')
       .select('id, title, description, created_at, updated_at')
-      .order('updated_at', { ascending: false });
+      .eq('owner_id', userId);
 
     if (error) throw error;
 
+    let shared: any[] = [];
+    if (roles.size > 0) {
+      const { data, error: sharedError } = await db
+        .from('theses')
+        .select('id, title, description, created_at, updated_at')
+        .in('id', Array.from(roles.keys()));
+
+      if (sharedError) throw sharedError;
+      shared = data || [];
+    }
+
+    for (const thesis of owned || []) {
+      roles.set(thesis.id, 'owner');
+    }
+
+    const theses = [...(owned || []), ...shared].sort(
+      (a, b) => b.updated_at.localeCompare(a.updated_at)
+    );
+
     // For each thesis, count how many chapters it has
     const thesesWithCounts = await Promise.all(
-      (theses || []).map(async (thesis) => {
-        const { count } = await supabase
+      theses.map(async (thesis: any) => {
+        const { count } = await db
           .from('chapters')
           .select('*', { count: 'exact', head: true })
           .eq('thesis_id', thesis.id);
@@ -28,7 +64,8 @@ export async function GET() {
           description: thesis.description,
           createdAt: thesis.created_at,
           updatedAt: thesis.updated_at,
-          chapterCount: count || 0
+          chapterCount: count || 0,
+          role: roles.get(thesis.id)
         };
       })
     );
@@ -48,6 +85,9 @@ export async function GET() {
  */
 export async function POST(req: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const body = await req.json();
     const { title, description } = body;
 
@@ -60,11 +100,12 @@ export async function POST(req: NextRequest) {
     }
 
     // Create thesis
-    const { data: thesis, error } = await supabase
+    const { data: thesis, error } = await db
       .from('theses')
       .insert({
         title: title.trim(),
-        description: description?.trim() || null
+        description: description?.trim() || null,
+        owner_id: userId
       })
       .select()
       .single();
@@ -80,7 +121,8 @@ export async function POST(req: NextRequest) {
         description: thesis.description,
         createdAt: thesis.created_at,
         updatedAt: thesis.updated_at,
-        chapterCount: 0
+        chapterCount: 0,
+        role: 'owner'
       }
     });
   } catch (error: any) {
@@ -2,12 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { translateDocx } from '@/lib/translation/docx-translator';
 import { TranslationOptions, SupportedLanguage } from '@/lib/translation/types';
 import { AIProvider } from '@/lib/ai/types';
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
+import { findOwnedDocument, findOwnedDocumentJob, findThesisAccess, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
+import { listTermbase } from '@/lib/translation/termbase';
 import { ensureDocumentInMemory } from '@/lib/document-loader';
 import { randomUUID } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import { runInAIScope } from '@/lib/ai/scope';
+import { assertWithinBudget, BudgetExceededError } from '@/lib/ai/budgets';
+import { parsePromptVersions, PromptTemplateError } from '@/lib/ai/prompt-templates';
 
 // POST /api/translate/[id] - Inicia tradução
 export async function POST(
@@ -15,22 +20,24 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: documentId } = await params;
 
     // Busca documento no Supabase
-    const { data: doc, error: docError } = await supabase
-      .from('documents')
-      .select('*')
-      .eq('id', documentId)
-      .single();
+    const doc = await findOwnedDocument(documentId, userId);
 
-    if (docError || !doc) {
+    if (!doc) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       );
     }
 
+    // Orçamento de IA do usuário estourado: não inicia o job
+    await assertWithinBudget({ userId });
+
     const body = await req.json();
     const {
       targetLanguage,
@@ -38,7 +45,8 @@ export async function POST(
       provider,
       model,
       maxPages,
-      sourceDocumentPath // Optional: for pipeline usage
+      sourceDocumentPath, // Optional: for pipeline usage
+      thesisId // Optional: enforce the thesis termbase
     }: {
       targetLanguage: SupportedLanguage;
       sourceLanguage?: SupportedLanguage;
@@ -46,6 +54,7 @@ export async function POST(
       model: string;
       maxPages?: number;
       sourceDocumentPath?: string;
+      thesisId?: string;
     } = body;
 
     if (!targetLanguage || !provider || !model) {
@@ -55,9 +64,19 @@ export async function POST(
       );
     }
 
+    if (thesisId && !(await findThesisAccess(thesisId, userId))) {
+      return NextResponse.json(
+        { error: 'Thesis not found' },
+        { status: 404 }
+      );
+    }
+
+    // Versões de prompt fixadas para este job (sem valor = as ativas)
+    const promptVersions = await parsePromptVersions(body.promptVersions, userId);
+
     // Cria job de tradução no Supabase
     const jobId = randomUUID();
-    const { error: jobError } = await supabase.from('translation_jobs').insert({
+    const { error: jobError } = await db.from('translation_jobs').insert({
       id: jobId,
       document_id: documentId,
       target_language: targetLanguage,
@@ -78,7 +97,10 @@ export async function POST(
     }
 
     // Executa tradução em background
-    executeTranslation(jobId, documentId, doc, targetLanguage, sourceLanguage, provider, model, maxPages, sourceDocumentPath);
+    runInAIScope(
+      { operation: 'translate', job: { table: 'translation_jobs', id: jobId }, userId, documentId, promptVersions },
+      () => executeTranslation(jobId, documentId, doc, targetLanguage, sourceLanguage, provider, model, maxPages, sourceDocumentPath, thesisId)
+    );
 
     return NextResponse.json({
       jobId,
@@ -87,6 +109,13 @@ export async function POST(
     });
 
   } catch (error: any) {
+    if (error instanceof BudgetExceededError || error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('Translation error:', error);
     return NextResponse.json(
       { error: error.message },
@@ -105,7 +134,8 @@ async function executeTranslation(
   provider: AIProvider,
   model: string,
   maxPages?: number,
-  sourceDocumentPath?: string
+  sourceDocumentPath?: string,
+  thesisId?: string
 ) {
   const tempDir = os.tmpdir();
   const tempInputPath = sourceDocumentPath || path.join(tempDir, `${documentId}_input.docx`);
@@ -115,7 +145,7 @@ async function executeTranslation(
     if (!sourceDocumentPath) {
       // Standalone mode - download from Storage
       console.log('[TRANSLATE] Downloading original from Storage:', doc.file_path);
-      const { data: fileBlob, error: downloadError } = await supabase.storage
+      const { data: fileBlob, error: downloadError } = await storage
         .from('documents')
         .download(doc.file_path);
 
@@ -138,8 +168,9 @@ async function executeTranslation(
       provider,
       model,
       maxPages, // Limit pages if specified
+      termbase: thesisId ? await listTermbase(thesisId, targetLanguage) : undefined,
       onProgress: async (progress) => {
-        await supabase.from('translation_jobs').update({
+        await db.from('translation_jobs').update({
           status: progress.status,
           progress_percentage: progress.percentage,
           current_chunk: progress.currentChunk,
@@ -167,7 +198,7 @@ async function executeTranslation(
     const translatedBuffer = await fs.readFile(tempOutputPath);
 
     console.log('[TRANSLATE] Uploading translated file to Storage:', storagePath);
-    const { error: uploadError } = await supabase.storage
+    const { error: uploadError } = await storage
       .from('translations')
       .upload(storagePath, translatedBuffer, {
         contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
@@ -179,7 +210,7 @@ async function executeTranslation(
     }
 
     // 4. Atualiza job como concluído
-    await supabase.from('translation_jobs').update({
+    await db.from('translation_jobs').update({
       status: 'completed',
       progress_percentage: 100,
       output_path: storagePath,
@@ -191,7 +222,7 @@ async function executeTranslation(
 
   } catch (error: any) {
     console.error('[TRANSLATE] Translation failed:', error);
-    await supabase.from('translation_jobs').update({
+    await db.from('translation_jobs').update({
       status: 'error',
       error_message: error.message
     }).eq('id', jobId);
@@ -210,16 +241,15 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { id: jobId } = await params;
 
     // Busca job no Supabase
-    const { data: job, error } = await supabase
-      .from('translation_jobs')
-      .select('*')
-      .eq('id', jobId)
-      .single();
+    const job = await findOwnedDocumentJob('translation_jobs', jobId, userId);
 
-    if (error || !job) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Translation job not found' },
         { status: 404 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { state } from '@/lib/state';
+import { findOwnedDocument, getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -9,10 +10,13 @@ export async function GET(
   { params }: { params: Promise<{ jobId: string }> }
 ) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const { jobId } = await params;
     const job = state.translations.get(jobId);
 
-    if (!job) {
+    if (!job || !(await findOwnedDocument(job.documentId, userId))) {
       return NextResponse.json(
         { error: 'Translation job not found' },
         { status: 404 }
@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import { randomUUID } from 'crypto';
-import { supabase } from '@/lib/supabase';
+import { storage } from '@/lib/storage';
+import { getCurrentUserId, unauthorizedResponse } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
     const documentId = randomUUID();
 
     // Get file from form data
@@ -29,11 +33,12 @@ export async function POST(request: NextRequest) {
 
     // Prepare file for upload
     const fileName = `${documentId}${ext}`;
-    const storagePath = `uploads/${fileName}`;
+    // Prefixo por usuário: o ingest só aceita arquivos enviados pelo próprio usuário
+    const storagePath = `uploads/${userId}/${fileName}`;
     const buffer = Buffer.from(await file.arrayBuffer());
 
     // Upload to Supabase Storage
-    const { error: uploadError } = await supabase.storage
+    const { error: uploadError } = await storage
       .from('documents')
       .upload(storagePath, buffer, {
         contentType: file.type,
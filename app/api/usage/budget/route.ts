@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, forbiddenResponse, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { BudgetError, BudgetScope, deleteBudget, getBudgetStatus, saveBudget } from '@/lib/ai/budgets';
+
+export const runtime = 'nodejs';
+
+/**
+ * Resolves which budget the request targets: the thesis (requires 'manage')
+ * or the logged-in user's own budget
+ */
+async function resolveBudgetTarget(
+  thesisId: string | null | undefined,
+  userId: string
+): Promise<{ scope: BudgetScope; id: string } | NextResponse> {
+  if (!thesisId) return { scope: 'user', id: userId };
+
+  const access = await findThesisAccess(thesisId, userId);
+  if (!access) {
+    return NextResponse.json(
+      { error: 'Thesis not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!roleCan(access.role, 'manage')) return forbiddenResponse('manage');
+
+  return { scope: 'thesis', id: thesisId };
+}
+
+/**
+ * PUT /api/usage/budget - Create or update an AI budget
+ *
+ * Body: { thesisId?, limitUsd, period?: 'monthly' | 'total', onExceed?: 'block' | 'pause' }
+ * Without thesisId the budget applies to the logged-in user. An existing budget
+ * can only be changed by whoever created it.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const { thesisId, limitUsd, period, onExceed } = await req.json();
+
+    const target = await resolveBudgetTarget(thesisId, userId);
+    if (target instanceof NextResponse) return target;
+
+    const budget = await saveBudget(target.scope, target.id, { limitUsd, period, onExceed }, userId);
+
+    return NextResponse.json({ budget: await getBudgetStatus(budget) });
+  } catch (error: any) {
+    if (error instanceof BudgetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[USAGE] Budget update error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/usage/budget?thesisId= - Remove the thesis (or the user's own) budget
+ *
+ * Only whoever created the budget can remove it, so a cap set by someone else stays.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const target = await resolveBudgetTarget(req.nextUrl.searchParams.get('thesisId'), userId);
+    if (target instanceof NextResponse) return target;
+
+    await deleteBudget(target.scope, target.id, userId);
+
+    return NextResponse.json({ message: 'Budget removed' });
+  } catch (error: any) {
+    if (error instanceof BudgetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[USAGE] Budget delete error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findThesisAccess, getCurrentUserId, roleCan, unauthorizedResponse } from '@/lib/auth/access';
+import { getUsageSummary } from '@/lib/ai/usage';
+import { canChangeBudget, getBudget, getBudgetStatus } from '@/lib/ai/budgets';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/usage - AI usage (cost ledger) broken down by operation and month
+ *
+ * Query: thesisId (optional; default is the logged-in user's own usage), months (default 12)
+ * Returns { summary, budget, canManage } where budget includes the current spending.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) return unauthorizedResponse();
+
+    const thesisId = req.nextUrl.searchParams.get('thesisId');
+    const months = Math.min(Math.max(parseInt(req.nextUrl.searchParams.get('months') || '12', 10) || 12, 1), 60);
+
+    const now = new Date();
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1)).toISOString();
+
+    let canManage = true;
+    if (thesisId) {
+      const access = await findThesisAccess(thesisId, userId);
+      if (!access) {
+        return NextResponse.json(
+          { error: 'Thesis not found' },
+          { status: 404 }
+        );
+      }
+      canManage = roleCan(access.role, 'manage');
+    }
+
+    const [summary, budget] = await Promise.all([
+      getUsageSummary(thesisId ? { thesisId } : { userId }, since),
+      thesisId ? getBudget('thesis', thesisId) : getBudget('user', userId)
+    ]);
+
+    return NextResponse.json({
+      summary,
+      budget: budget ? await getBudgetStatus(budget) : null,
+      // Orçamento definido por outra pessoa fica só leitura
+      canManage: canManage && (!budget || canChangeBudget(budget, userId))
+    });
+  } catch (error: any) {
+    console.error('[USAGE] Error:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import type { NextAuthConfig } from "next-auth"
+
+// Configuração compartilhada com o middleware (Edge runtime):
+// não pode importar nada que dependa do banco (lib/storage usa fs/sql.js)
+export const authConfig = {
+  providers: [],
+  pages: {
+    signIn: "/login"
+  },
+  callbacks: {
+    async session({ session, token }) {
+      if (token.sub) {
+        session.user.id = token.sub;
+      }
+      return session;
+    },
+    async jwt({ token, user }) {
+      if (user) {
+        token.sub = user.id;
+      }
+      return token;
+    }
+  }
+} satisfies NextAuthConfig
@@ -1,58 +1,26 @@
 import NextAuth from "next-auth"
 import Credentials from "next-auth/providers/credentials"
+import { authConfig } from "./auth.config"
+import { verifyCredentials } from "@/lib/auth/users"
 
-// In-memory user storage (for MVP - replace with database later)
-const users = new Map<string, { id: string; name: string; email: string; password: string }>();
-
-// Pre-create admin user
-users.set("admin@tese.com", {
-  id: "admin-001",
-  name: "Administrador",
-  email: "admin@tese.com",
-  password: "Alterar@01"
-});
-
+// Usuários persistidos na tabela `users` (senhas em bcrypt).
+// Cadastro: POST /api/account/signup, troca de senha: POST /api/account/password
 export const { handlers, signIn, signOut, auth } = NextAuth({
+  ...authConfig,
   providers: [
     Credentials({
       credentials: {
         email: { label: "Email", type: "email" },
-        password: { label: "Senha", type: "password" },
-        name: { label: "Nome", type: "text" },
-        action: { label: "Ação", type: "text" }
+        password: { label: "Senha", type: "password" }
       },
       async authorize(credentials) {
-        const action = credentials.action as string;
-        const email = credentials.email as string;
-        const password = credentials.password as string;
-        const name = credentials.name as string;
-
-        if (action === "signup") {
-          // Check if user already exists
-          if (users.has(email)) {
-            throw new Error("Email já cadastrado");
-          }
-
-          // Create new user
-          const newUser = {
-            id: Math.random().toString(36).substring(7),
-            name: name || email.split("@")[0],
-            email,
-            password // In production, hash this!
-          };
-          users.set(email, newUser);
+        const user = await verifyCredentials(
+          credentials.email as string,
+          credentials.password as string
+        );
 
-          return {
-            id: newUser.id,
-            name: newUser.name,
-            email: newUser.email
-          };
-        }
-
-        // Login
-        const user = users.get(email);
-        if (!user || user.password !== password) {
-          throw new Error("Email ou senha inválidos");
+        if (!user) {
+          return null;
         }
 
         return {
@@ -62,22 +30,5 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         };
       }
     })
-  ],
-  pages: {
-    signIn: "/login"
-  },
-  callbacks: {
-    async session({ session, token }) {
-      if (token.sub) {
-        session.user.id = token.sub;
-      }
-      return session;
-    },
-    async jwt({ token, user }) {
-      if (user) {
-        token.sub = user.id;
-      }
-      return token;
-    }
-  }
+  ]
 })
@@ -3,12 +3,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import ReactMarkdown from 'react-markdown';
-import { Clock, DollarSign, Hash } from 'lucide-react';
-
-type Citation = {
-  page: number;
-  span: string;
-};
+import { Clock, DollarSign, Hash, Loader2 } from 'lucide-react';
+import { CitationBadge, isUnsupportedCitation } from '@/components/thesis/citation-badge';
+import type { JudgeRating } from '@/lib/ai/judge';
+import type { Citation } from '@/lib/ai/types';
 
 type AIResponse = {
   provider: string;
@@ -19,10 +17,12 @@ type AIResponse = {
   tokensIn: number;
   tokensOut: number;
   costEstimatedUsd: number;
+  streaming?: boolean; // Ainda recebendo tokens; métricas chegam no final
 };
 
 interface AnswerCompareGridProps {
   answers: AIResponse[];
+  ratings?: JudgeRating[]; // Notas do juiz, quando houver
 }
 
 const providerColors: Record<string, string> = {
@@ -31,61 +31,97 @@ const providerColors: Record<string, string> = {
   grok: 'bg-purple-950/50 text-purple-400 border-purple-900'
 };
 
-export function AnswerCompareGrid({ answers }: AnswerCompareGridProps) {
+export function AnswerCompareGrid({ answers, ratings = [] }: AnswerCompareGridProps) {
   if (answers.length === 0) return null;
 
   return (
     <div className={`grid gap-4 ${answers.length === 1 ? 'grid-cols-1' : answers.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
-      {answers.map((answer, idx) => (
-        <Card key={idx} className="flex flex-col">
-          <CardHeader className="pb-3">
-            <div className="flex items-center justify-between">
-              <CardTitle className="text-lg capitalize">{answer.provider}</CardTitle>
-              <Badge className={providerColors[answer.provider] || ''} variant="outline">
-                {answer.model}
-              </Badge>
-            </div>
-          </CardHeader>
-          <CardContent className="flex-1 space-y-4">
-            {/* Resposta */}
-            <div className="prose prose-sm max-w-none">
-              <ReactMarkdown>{answer.text}</ReactMarkdown>
-            </div>
-
-            {/* Citações */}
-            {answer.citations.length > 0 && (
-              <div className="border-t pt-3">
-                <p className="text-xs font-semibold text-muted-foreground mb-2">Citações:</p>
-                <div className="flex flex-wrap gap-2">
-                  {answer.citations.map((citation, cidx) => (
-                    <Badge key={cidx} variant="secondary" className="text-xs">
-                      Pág. {citation.page}
+      {answers.map((answer, idx) => {
+        const rating = ratings.find(r => r.provider === answer.provider && r.model === answer.model);
+        return (
+          <Card key={idx} className="flex flex-col">
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg capitalize">{answer.provider}</CardTitle>
+                <div className="flex gap-2">
+                  {rating && (
+                    <Badge variant="secondary" title={rating.rationale}>
+                      Nota {rating.score}/5
                     </Badge>
-                  ))}
+                  )}
+                  <Badge className={providerColors[answer.provider] || ''} variant="outline">
+                    {answer.model}
+                  </Badge>
                 </div>
               </div>
-            )}
-
-            {/* Métricas */}
-            <div className="border-t pt-3 space-y-2 text-xs text-muted-foreground">
-              <div className="flex items-center gap-2">
-                <Clock className="h-3 w-3" />
-                <span>Latência: {answer.latencyMs}ms</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <Hash className="h-3 w-3" />
-                <span>
-                  Tokens: {answer.tokensIn} in / {answer.tokensOut} out
-                </span>
-              </div>
-              <div className="flex items-center gap-2">
-                <DollarSign className="h-3 w-3" />
-                <span>Custo estimado: ${answer.costEstimatedUsd.toFixed(4)}</span>
+            </CardHeader>
+            <CardContent className="flex-1 space-y-4">
+              {/* Resposta */}
+              <div className="prose prose-sm max-w-none">
+                <ReactMarkdown>{answer.text}</ReactMarkdown>
+                {answer.streaming && !answer.text && (
+                  <p className="text-sm text-muted-foreground">Aguardando resposta...</p>
+                )}
               </div>
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+
+              {/* Citações */}
+              {answer.citations.length > 0 && (
+                <div className="border-t pt-3">
+                  <p className="text-xs font-semibold text-muted-foreground mb-2">Citações:</p>
+                  <div className="flex flex-wrap gap-2">
+                    {answer.citations.map((citation, cidx) => (
+                      <CitationBadge
+                        key={cidx}
+                        citation={{ pageFrom: citation.page, status: citation.status, claim: citation.claim }}
+                        showIcon={false}
+                      />
+                    ))}
+                  </div>
+
+                  {answer.citations.some(isUnsupportedCitation) && (
+                    <div className="mt-2 text-xs text-destructive">
+                      <p className="font-semibold">Afirmações sem apoio nos trechos:</p>
+                      <ul className="list-disc pl-4">
+                        {answer.citations.filter(isUnsupportedCitation).map((citation, cidx) => (
+                          <li key={cidx}>
+                            {citation.claim || `Pág. ${citation.page}`}
+                            {citation.status === 'wrong_page' && ' (texto está em outra página)'}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Métricas */}
+              {answer.streaming ? (
+                <div className="border-t pt-3 flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  <span>Gerando...</span>
+                </div>
+              ) : (
+                <div className="border-t pt-3 space-y-2 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-3 w-3" />
+                    <span>Latência: {answer.latencyMs}ms</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Hash className="h-3 w-3" />
+                    <span>
+                      Tokens: {answer.tokensIn} in / {answer.tokensOut} out
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <DollarSign className="h-3 w-3" />
+                    <span>Custo estimado: ${answer.costEstimatedUsd.toFixed(4)}</span>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,112 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import ReactMarkdown from 'react-markdown';
+import { Gavel, Loader2 } from 'lucide-react';
+import type { JudgmentResult } from '@/lib/ai/judge';
+
+interface AnswerJudgmentProps {
+  judgment: JudgmentResult | null;
+  error?: string;
+  loading?: boolean; // Respostas prontas, juiz ainda avaliando
+}
+
+/**
+ * Resposta consolidada pelo juiz, divergências entre os provedores e notas
+ */
+export function AnswerJudgment({ judgment, error, loading }: AnswerJudgmentProps) {
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-6 flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Juiz comparando as respostas...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-red-400">
+          O juiz não conseguiu avaliar as respostas: {error}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!judgment) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Síntese do juiz
+          </CardTitle>
+          <Badge variant="outline">{judgment.judge.provider} · {judgment.judge.model}</Badge>
+        </div>
+        <CardDescription>
+          Resposta única a partir das respostas dos provedores, só com citações dos trechos recuperados
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="prose prose-sm max-w-none">
+          <ReactMarkdown>{judgment.synthesis}</ReactMarkdown>
+        </div>
+
+        {(judgment.citations.length > 0 || judgment.droppedCitations > 0) && (
+          <div className="border-t pt-3 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {judgment.citations.map((citation, idx) => (
+                <Badge key={idx} variant="secondary" className="text-xs">
+                  Pág. {citation.page}
+                </Badge>
+              ))}
+            </div>
+            {judgment.droppedCitations > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {judgment.droppedCitations} citação(ões) removida(s): não apontavam para os trechos recuperados
+              </p>
+            )}
+          </div>
+        )}
+
+        {judgment.disagreements.length > 0 && (
+          <div className="border-t pt-3 space-y-3">
+            <p className="text-xs font-semibold text-muted-foreground">Divergências entre as respostas:</p>
+            {judgment.disagreements.map((disagreement, idx) => (
+              <div key={idx} className="rounded-md border border-yellow-900 bg-yellow-950/30 p-3 space-y-1">
+                <p className="text-sm font-medium">{disagreement.claim}</p>
+                {disagreement.positions.map((position, pidx) => (
+                  <p key={pidx} className="text-xs text-muted-foreground">
+                    <span className="capitalize font-medium">{position.provider}</span>: {position.position}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-3 space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground">Notas:</p>
+          {judgment.ratings.map((rating) => (
+            <div key={`${rating.provider}:${rating.model}`} className="flex justify-between gap-4 text-sm">
+              <span>
+                <span className="capitalize font-medium">{rating.provider}</span>
+                <span className="text-muted-foreground"> · {rating.rationale}</span>
+                {rating.unsupportedCitations > 0 && (
+                  <span className="text-xs text-red-400"> ({rating.unsupportedCitations} citação(ões) fora dos trechos)</span>
+                )}
+              </span>
+              <Badge variant="secondary">{rating.score}/5</Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import type { JudgeLeaderboardEntry, JudgmentSummary } from '@/lib/ai/judge';
+
+const ACCOUNT = 'account';
+
+/**
+ * Notas dadas pelo juiz do chat a cada provedor/modelo, na conta ou numa tese
+ */
+export function JudgeLeaderboard() {
+  const [theses, setTheses] = useState<Array<{ id: string; title: string }>>([]);
+  const [target, setTarget] = useState(ACCOUNT);
+  const [leaderboard, setLeaderboard] = useState<JudgeLeaderboardEntry[]>([]);
+  const [recent, setRecent] = useState<JudgmentSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/theses')
+      .then(res => res.ok ? res.json() : { theses: [] })
+      .then(data => setTheses(data.theses || []))
+      .catch(() => setTheses([]));
+  }, []);
+
+  useEffect(() => {
+    loadJudgments();
+  }, [target]);
+
+  const loadJudgments = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/chat/judgments${target !== ACCOUNT ? `?thesisId=${target}` : ''}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao carregar julgamentos');
+
+      setLeaderboard(data.leaderboard);
+      setRecent(data.recent);
+      setTotal(data.total);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Qualidade das Respostas</CardTitle>
+        <CardDescription>
+          Notas (1 a 5) dadas pelo juiz do chat quando vários provedores respondem à mesma pergunta
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ACCOUNT}>Minha conta (todas as minhas perguntas)</SelectItem>
+            {theses.map((thesis) => (
+              <SelectItem key={thesis.id} value={thesis.id}>
+                Tese: {thesis.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Carregando julgamentos...
+          </div>
+        ) : total === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum julgamento ainda. Compare provedores no chat de um documento e escolha um juiz.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Por modelo · {total} julgamentos</Label>
+              <div className="space-y-2 text-sm">
+                {leaderboard.map((entry) => (
+                  <div key={`${entry.provider}:${entry.model}`} className="flex justify-between items-center py-2 border-b">
+                    <span className="font-medium">
+                      <span className="capitalize">{entry.provider}</span> · {entry.model}
+                    </span>
+                    <span className="text-muted-foreground">
+                      nota média {entry.avgScore.toFixed(2)} · melhor em {entry.wins} de {entry.judged}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Últimos julgamentos</Label>
+              <div className="space-y-2 text-sm">
+                {recent.map((judgment) => (
+                  <div key={judgment.id} className="py-2 border-b space-y-1">
+                    <p className="truncate">{judgment.question}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(judgment.createdAt).toLocaleString('pt-BR')} · juiz {judgment.judge.provider}/{judgment.judge.model}
+                      {judgment.disagreements > 0 ? ` · ${judgment.disagreements} divergência(s)` : ''}
+                      {' · '}
+                      {judgment.ratings.map(r => `${r.provider} ${r.score}`).join(', ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
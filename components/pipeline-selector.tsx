@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Loader2, Rocket } from 'lucide-react';
+import { useLocalModels } from '@/lib/use-local-models';
 import { PipelineOperation, OperationConfigs, OPERATION_METADATA } from '@/lib/pipeline/types';
 
 type PipelineSelectorProps = {
@@ -309,17 +310,17 @@ function AdjustConfig({ config, onChange }: any) {
         />
         <p className="text-xs text-gray-500 mt-1">Nível: {config?.creativity || 5}</p>
       </div>
-      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'grok']} />
+      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'grok', 'local', 'mock']} />
     </>
   );
 }
 
 function UpdateConfig({ config, onChange }: any) {
-  return <ModelSelector config={config} onChange={onChange} providers={['gemini']} />;
+  return <ModelSelector config={config} onChange={onChange} providers={['gemini', 'mock']} />;
 }
 
 function ImproveConfig({ config, onChange }: any) {
-  return <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini']} />;
+  return <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'local', 'mock']} />;
 }
 
 function AdaptConfig({ config, onChange }: any) {
@@ -351,7 +352,7 @@ function AdaptConfig({ config, onChange }: any) {
           />
         </div>
       )}
-      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini']} />
+      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'local', 'mock']} />
     </>
   );
 }
@@ -397,16 +398,19 @@ function TranslateConfig({ config, onChange }: any) {
           </Select>
         </div>
       </div>
-      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'grok']} />
+      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'grok', 'local', 'mock']} />
     </>
   );
 }
 
 function ModelSelector({ config, onChange, providers }: { config: any; onChange: any; providers: string[] }) {
+  const localModels = useLocalModels(providers.includes('local'));
   const MODELS: Record<string, string[]> = {
     openai: ['gpt-4o', 'gpt-4o-mini'],
     gemini: ['gemini-2.5-flash', 'gemini-2.5-pro'],
-    grok: ['grok-2-1212']
+    grok: ['grok-2-1212'],
+    local: localModels,
+    mock: ['mock-1']
   };
 
   return (
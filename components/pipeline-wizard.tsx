@@ -11,6 +11,7 @@ import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Loader2, Rocket, ArrowLeft, ArrowRight, SkipForward, Check } from 'lucide-react';
 import { PipelineOperation, OperationConfigs, OPERATION_METADATA } from '@/lib/pipeline/types';
+import { useLocalModels } from '@/lib/use-local-models';
 
 type PipelineWizardProps = {
   documentId: string;
@@ -431,7 +432,7 @@ function AdjustConfig({ config, onChange }: any) {
         />
         <p className="text-xs text-gray-500 mt-1">Nível: {config?.creativity || 5}</p>
       </div>
-      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'grok']} />
+      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'grok', 'local', 'mock']} />
     </>
   );
 }
@@ -442,7 +443,7 @@ function UpdateConfig({ config, onChange }: any) {
       <div className="p-3 border rounded bg-yellow-50 text-sm text-yellow-800">
         ⚠️ Esta operação requer aprovação manual após a análise
       </div>
-      <ModelSelector config={config} onChange={onChange} providers={['gemini']} />
+      <ModelSelector config={config} onChange={onChange} providers={['gemini', 'mock']} />
     </>
   );
 }
@@ -453,7 +454,7 @@ function ImproveConfig({ config, onChange }: any) {
       <div className="p-3 border rounded bg-yellow-50 text-sm text-yellow-800">
         ⚠️ Esta operação requer aprovação manual após a análise
       </div>
-      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini']} />
+      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'local', 'mock']} />
     </>
   );
 }
@@ -487,7 +488,7 @@ function AdaptConfig({ config, onChange }: any) {
           />
         </div>
       )}
-      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini']} />
+      <ModelSelector config={config} onChange={onChange} providers={['openai', 'gemini', 'local', 'mock']} />
     </>
   );
 }
@@ -533,15 +534,18 @@ function TranslateConfig({ config, onChange }: any) {
           </Select>
         </div>
       </div>
-      <ModelSelector config={config} onChange={onChange} providers={['openai']} />
+      <ModelSelector config={config} onChange={onChange} providers={['openai', 'local', 'mock']} />
     </>
   );
 }
 
 function ModelSelector({ config, onChange, providers }: { config: any; onChange: any; providers: string[] }) {
+  const localModels = useLocalModels(providers.includes('local'));
+  const modelsFor = (p: string) => (p === 'local' ? localModels : MODELS[p]);
+
   const defaultProvider = providers[0];
   const currentProvider = config?.provider || defaultProvider;
-  const currentModel = config?.model || MODELS[currentProvider]?.[0];
+  const currentModel = config?.model || modelsFor(currentProvider)?.[0];
 
   return (
     <div className="grid grid-cols-2 gap-3">
@@ -549,7 +553,7 @@ function ModelSelector({ config, onChange, providers }: { config: any; onChange:
         <Label>Provedor</Label>
         <Select value={currentProvider} onValueChange={(v) => {
           onChange('provider', v);
-          onChange('model', MODELS[v]?.[0]);
+          onChange('model', modelsFor(v)?.[0]);
         }}>
           <SelectTrigger className="mt-1">
             <SelectValue />
@@ -571,7 +575,7 @@ function ModelSelector({ config, onChange, providers }: { config: any; onChange:
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            {MODELS[currentProvider]?.map((m) => (
+            {modelsFor(currentProvider)?.map((m) => (
               <SelectItem key={m} value={m}>{m}</SelectItem>
             ))}
           </SelectContent>
@@ -588,21 +592,22 @@ function ModelSelector({ config, onChange, providers }: { config: any; onChange:
 const MODELS: Record<string, string[]> = {
   openai: ['gpt-4o', 'gpt-4o-mini'],
   gemini: ['gemini-2.5-flash', 'gemini-2.5-pro'],
-  grok: ['grok-2-1212']
+  grok: ['grok-2-1212'],
+  mock: ['mock-1']
 };
 
 function getDefaultProviders(op: PipelineOperation): string[] {
   switch (op) {
     case 'adjust':
-      return ['openai', 'gemini', 'grok'];
+      return ['openai', 'gemini', 'grok', 'local', 'mock'];
     case 'update':
-      return ['gemini'];
+      return ['gemini', 'mock'];
     case 'improve':
-      return ['openai', 'gemini'];
+      return ['openai', 'gemini', 'local', 'mock'];
     case 'adapt':
-      return ['openai', 'gemini'];
+      return ['openai', 'gemini', 'local', 'mock'];
     case 'translate':
-      return ['openai'];
+      return ['openai', 'local', 'mock'];
     default:
       return ['openai'];
   }
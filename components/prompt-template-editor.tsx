@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import type { PromptTemplateSummary, PromptTemplateVersion } from '@/lib/ai/prompt-templates';
+
+/**
+ * Editor dos templates de prompt: cada salvamento vira uma nova versão
+ * (a versão 0 é o padrão embutido) e qualquer versão pode voltar a ser a ativa
+ */
+export function PromptTemplateEditor() {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string>('');
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [viewedVersion, setViewedVersion] = useState<number>(0);
+  const [body, setBody] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const template = templates.find(t => t.key === selectedKey);
+  const viewed = versions.find(v => v.version === viewedVersion);
+  const changed = !!viewed && body !== viewed.body;
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    if (selectedKey) loadVersions(selectedKey);
+  }, [selectedKey]);
+
+  const loadTemplates = async () => {
+    try {
+      const res = await fetch('/api/prompts');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao carregar prompts');
+
+      setTemplates(data.templates);
+      setSelectedKey(current => current || data.templates[0]?.key || '');
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showVersion = (version: PromptTemplateVersion | undefined) => {
+    if (!version) return;
+    setViewedVersion(version.version);
+    setBody(version.body);
+    setNote('');
+  };
+
+  const loadVersions = async (key: string) => {
+    try {
+      const res = await fetch(`/api/prompts/${key}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao carregar versões');
+
+      setVersions(data.versions);
+      showVersion(data.versions.find((v: PromptTemplateVersion) => v.is_active));
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/prompts/${selectedKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body, note })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao salvar prompt');
+
+      toast.success(`Versão ${data.version.version} salva e ativada`);
+      await Promise.all([loadTemplates(), loadVersions(selectedKey)]);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/prompts/${selectedKey}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ activeVersion: viewedVersion })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao ativar versão');
+
+      toast.success(viewedVersion === 0 ? 'Prompt padrão restaurado' : `Versão ${viewedVersion} ativada`);
+      await Promise.all([loadTemplates(), loadVersions(selectedKey)]);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Prompts</CardTitle>
+        <CardDescription>
+          Textos enviados aos modelos nas operações que você inicia. Cada edição vira uma nova
+          versão sua; os jobs registram a versão usada e os diálogos das operações permitem
+          escolher outra versão para uma execução
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Carregando prompts...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={selectedKey} onValueChange={setSelectedKey}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((t) => (
+                    <SelectItem key={t.key} value={t.key}>
+                      {t.label}{t.activeVersion > 0 ? ` (v${t.activeVersion})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(viewedVersion)} onValueChange={(value) => showVersion(versions.find(v => v.version === Number(value)))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.version} value={String(v.version)}>
+                      {v.version === 0 ? 'v0 · padrão' : `v${v.version}${v.note ? ` · ${v.note}` : ''}`}
+                      {v.is_active ? ' (ativa)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {template && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="font-mono text-xs text-muted-foreground">{template.key}</Label>
+                  {viewed?.is_active && (
+                    <Badge variant="secondary" className="bg-green-950/50 text-green-400 border-green-900">
+                      Ativa
+                    </Badge>
+                  )}
+                </div>
+                {template.variables.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {template.variables.map((variable) => (
+                      <Badge key={variable.name} variant="outline" className="font-mono" title={variable.description}>
+                        {`{{${variable.name}}}`}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Este prompt não tem variáveis</p>
+                )}
+              </div>
+            )}
+
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={16}
+              className="font-mono text-xs"
+            />
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Nota da versão (opcional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                disabled={!changed}
+              />
+              <Button variant="outline" onClick={handleSave} disabled={saving || !changed}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar nova versão'}
+              </Button>
+              {!changed && viewed && !viewed.is_active && (
+                <Button variant="ghost" onClick={handleActivate} disabled={saving}>
+                  {viewedVersion === 0 ? 'Restaurar padrão' : 'Ativar esta versão'}
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A resposta de cada prompt é lida pelo código (JSON, campos): mantenha o formato pedido ao modelo.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
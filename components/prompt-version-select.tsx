@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { PromptKey, PromptTemplateSummary, PromptTemplateVersion, PromptVersions } from '@/lib/ai/prompt-templates';
+
+// Sem versão fixada o job usa a versão ativa do usuário
+const ACTIVE = 'active';
+
+type PromptVersionSelectProps = {
+  keys: PromptKey[]; // Prompts usados pela operação
+  value: PromptVersions;
+  onChange: (value: PromptVersions) => void;
+};
+
+/**
+ * Escolha da versão de cada prompt da operação para este job (promptVersions).
+ * Só aparecem os prompts com versões editadas em /settings
+ */
+export function PromptVersionSelect({ keys, value, onChange }: PromptVersionSelectProps) {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [versions, setVersions] = useState<Partial<Record<PromptKey, PromptTemplateVersion[]>>>({});
+
+  useEffect(() => {
+    loadVersions();
+  }, [keys.join(',')]);
+
+  const loadVersions = async () => {
+    try {
+      const res = await fetch('/api/prompts');
+      if (!res.ok) return;
+      const data = await res.json();
+
+      const edited = (data.templates as PromptTemplateSummary[])
+        .filter(t => keys.includes(t.key) && t.latestVersion > 0);
+
+      const loaded = await Promise.all(edited.map(async (t) => {
+        const versionsRes = await fetch(`/api/prompts/${t.key}`);
+        const versionsData = await versionsRes.json();
+        return [t.key, versionsRes.ok ? versionsData.versions : []] as const;
+      }));
+
+      setTemplates(edited);
+      setVersions(Object.fromEntries(loaded));
+    } catch (error) {
+      console.error('[PROMPT-VERSIONS] Load error:', error);
+    }
+  };
+
+  const handleChange = (key: PromptKey, selected: string) => {
+    const { [key]: _, ...rest } = value;
+    onChange(selected === ACTIVE ? rest : { ...rest, [key]: Number(selected) });
+  };
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label>Versões dos prompts</Label>
+      {templates.map((t) => (
+        <div key={t.key} className="grid grid-cols-2 items-center gap-2">
+          <span className="text-xs text-muted-foreground">{t.label}</span>
+          <Select
+            value={value[t.key] !== undefined ? String(value[t.key]) : ACTIVE}
+            onValueChange={(selected) => handleChange(t.key, selected)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ACTIVE}>
+                Ativa ({t.activeVersion === 0 ? 'padrão' : `v${t.activeVersion}`})
+              </SelectItem>
+              {(versions[t.key] || []).map((v) => (
+                <SelectItem key={v.version} value={String(v.version)}>
+                  {v.version === 0 ? 'v0 · padrão' : `v${v.version}${v.note ? ` · ${v.note}` : ''}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   CheckCircle2,
   XCircle,
@@ -32,10 +33,11 @@ export interface SuggestionReviewPanelProps {
   suggestions: Suggestion[];
   documentTitle: string;
   fullDocumentText: string;
-  onApply: (acceptedIds: string[]) => Promise<void>;
+  onApply: (acceptedIds: string[], mode: 'replace' | 'track') => Promise<void>;
   typeLabels?: Record<string, { label: string; color: string }>;
   showPipelineMode?: boolean;
   pipelineId?: string;
+  allowTrackChanges?: boolean; // Opção de aplicar como controle de alterações do Word
 }
 
 const DEFAULT_TYPE_LABELS: Record<string, { label: string; color: string }> = {
@@ -57,11 +59,13 @@ export function SuggestionReviewPanel({
   onApply,
   typeLabels = DEFAULT_TYPE_LABELS,
   showPipelineMode = false,
-  pipelineId
+  pipelineId,
+  allowTrackChanges = false
 }: SuggestionReviewPanelProps) {
   const [acceptedSuggestions, setAcceptedSuggestions] = useState<Set<string>>(new Set());
   const [hoveredSuggestionId, setHoveredSuggestionId] = useState<string | null>(null);
   const [applying, setApplying] = useState(false);
+  const [trackChanges, setTrackChanges] = useState(false);
 
   const toggleSuggestion = (suggestionId: string) => {
     setAcceptedSuggestions(prev => {
@@ -100,7 +104,7 @@ export function SuggestionReviewPanel({
 
     try {
       setApplying(true);
-      await onApply(Array.from(acceptedSuggestions));
+      await onApply(Array.from(acceptedSuggestions), trackChanges ? 'track' : 'replace');
     } catch (error: any) {
       toast.error(error.message || 'Erro ao aplicar sugestões');
     } finally {
@@ -208,6 +212,15 @@ export function SuggestionReviewPanel({
             Rejeitar Todas
           </Button>
           <div className="flex-1" />
+          {allowTrackChanges && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <Checkbox
+                checked={trackChanges}
+                onCheckedChange={(checked) => setTrackChanges(checked as boolean)}
+              />
+              Controle de alterações (Word)
+            </label>
+          )}
           <Button
             onClick={handleApply}
             disabled={acceptedCount === 0 || applying}
@@ -1,14 +1,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { MessageSquare, Send, Loader2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MessageSquare, Send, Loader2, Plus, Pencil, Trash2, Check, Wand2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { ChapterSelector } from './chapter-selector';
-import { CitationBadge, CitationDisplayMode } from './citation-badge';
+import { CitationBadge, CitationDisplayMode, isUnsupportedCitation } from './citation-badge';
+import { SearchModeSelect } from './search-mode-select';
+import { RetrievalSources, type RetrievalSource } from './retrieval-sources';
+import { streamChat } from '@/lib/chat-stream';
+import type { Citation } from '@/lib/ai/types';
+import type { ChatConversation, ChatMessage, ContextSearchMode } from '@/lib/thesis/types';
 
 type ChapterVersion = {
   id: string;
@@ -29,21 +36,54 @@ type Message = {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  citations?: any[];
+  streaming?: boolean; // Recebendo tokens
+  citations?: Citation[]; // Citações da resposta, verificadas contra os trechos
   citationMode?: CitationDisplayMode;
+  sources?: RetrievalSource[];
+  chapterVersionIds?: string[]; // Capítulos selecionados quando a pergunta foi feita
+  retrievalQuery?: string; // Pergunta reescrita com o histórico para a busca
+  editJobId?: string; // Modo edição: job com as sugestões para revisar
+  suggestionCount?: number;
   timestamp: Date;
 };
 
+// Perguntar responde sobre os capítulos; Editar propõe alterações no capítulo atual
+type ChatMode = 'ask' | 'edit';
+
 type ChapterChatProps = {
   currentChapterId: string;
   allChapters: Chapter[];
+  thesisId?: string; // Com a tese, as conversas ficam salvas
 };
 
-export function ChapterChat({ currentChapterId, allChapters }: ChapterChatProps) {
+// Mensagem gravada -> mensagem da tela
+function toMessage(message: ChatMessage): Message {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    citations: message.role === 'assistant' ? message.citations : undefined,
+    citationMode: message.citation_mode || undefined,
+    sources: message.role === 'assistant' ? message.sources : undefined,
+    chapterVersionIds: message.chapter_version_ids,
+    retrievalQuery: message.retrieval_query || undefined,
+    timestamp: new Date(message.created_at)
+  };
+}
+
+export function ChapterChat({ currentChapterId, allChapters, thesisId }: ChapterChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [selectedVersionIds, setSelectedVersionIds] = useState<string[]>([]);
+  const [searchMode, setSearchMode] = useState<ContextSearchMode>('bm25');
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState('');
+  const [mode, setMode] = useState<ChatMode>('ask');
+
+  const conversation = conversations.find(c => c.id === conversationId);
 
   // Auto-seleciona a versão atual do capítulo atual
   useEffect(() => {
@@ -56,11 +96,109 @@ export function ChapterChat({ currentChapterId, allChapters }: ChapterChatProps)
     }
   }, [currentChapterId, allChapters]);
 
-  const handleSend = async () => {
-    if (!input.trim() || selectedVersionIds.length === 0) {
-      if (selectedVersionIds.length === 0) {
-        toast.error('Selecione pelo menos um capítulo');
+  useEffect(() => {
+    if (thesisId) loadConversations(true);
+  }, [thesisId]);
+
+  const loadConversations = async (openLatest = false) => {
+    try {
+      const res = await fetch(`/api/theses/${thesisId}/conversations`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao carregar conversas');
+
+      setConversations(data.conversations);
+      if (openLatest && data.conversations.length > 0) openConversation(data.conversations[0].id);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    setConversationId(id);
+    setRenaming(false);
+
+    try {
+      const res = await fetch(`/api/theses/${thesisId}/conversations/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao carregar conversa');
+
+      const loaded: Message[] = data.messages.map(toMessage);
+      setMessages(loaded);
+
+      // Retoma com os capítulos da última pergunta
+      const lastQuestion = [...loaded].reverse().find(m => m.role === 'user');
+      if (lastQuestion?.chapterVersionIds?.length) setSelectedVersionIds(lastQuestion.chapterVersionIds);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleNewConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+    setRenaming(false);
+  };
+
+  const createConversation = async (): Promise<string> => {
+    const res = await fetch(`/api/theses/${thesisId}/conversations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({})
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Falha ao criar conversa');
+
+    setConversations(prev => [data.conversation, ...prev]);
+    setConversationId(data.conversation.id);
+    return data.conversation.id;
+  };
+
+  const handleRename = async () => {
+    if (!conversationId || !title.trim()) return;
+
+    try {
+      const res = await fetch(`/api/theses/${thesisId}/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao renomear conversa');
+
+      setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, title: title.trim() } : c));
+      setRenaming(false);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!conversationId || !confirm('Excluir esta conversa e todas as mensagens?')) return;
+
+    try {
+      const res = await fetch(`/api/theses/${thesisId}/conversations/${conversationId}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Falha ao excluir conversa');
       }
+
+      setConversations(prev => prev.filter(c => c.id !== conversationId));
+      handleNewConversation();
+      toast.success('Conversa excluída');
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const currentVersionId = allChapters
+    .find(c => c.id === currentChapterId)
+    ?.versions.find(v => v.isCurrent)?.id;
+
+  // Modo edição: o pedido vira sugestões na versão atual (não fica na conversa)
+  const handleEdit = async () => {
+    if (!input.trim()) return;
+    if (!currentVersionId) {
+      toast.error('Capítulo sem versão atual para editar');
       return;
     }
 
@@ -76,46 +214,115 @@ export function ChapterChat({ currentChapterId, allChapters }: ChapterChatProps)
     setLoading(true);
 
     try {
-      const response = await fetch('/api/chat', {
+      const res = await fetch(`/api/chapters/${currentChapterId}/chat-edits`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          chapterVersionIds: selectedVersionIds,
-          question: input,
-          providers: ['openai'],
-          models: { openai: 'gpt-4o-mini' }
+          versionId: currentVersionId,
+          instruction: userMessage.content,
+          provider: 'openai',
+          model: 'gpt-4o-mini'
         })
       });
 
-      if (!response.ok) {
-        throw new Error('Falha ao enviar mensagem');
-      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao gerar edições');
 
-      const data = await response.json();
+      setMessages(prev => [...prev, {
+        id: `${userMessage.id}-edit`,
+        role: 'assistant',
+        content: data.message,
+        editJobId: data.jobId,
+        suggestionCount: data.suggestions.length,
+        timestamp: new Date()
+      }]);
 
-      // Pega a primeira resposta (openai)
-      const answer = data.answers?.openai;
-      const citationMode = data.citationMode;
+    } catch (error: any) {
+      console.error('[CHAT] Edit error:', error);
+      toast.error(error.message || 'Erro ao gerar edições');
+      setMessages(prev => prev.filter(m => m.id !== userMessage.id));
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (answer) {
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: answer.answer || answer,
-          citations: answer.citations,
-          citationMode: citationMode,
-          timestamp: new Date()
-        };
+  const handleSend = async () => {
+    if (mode === 'edit') return handleEdit();
 
-        setMessages(prev => [...prev, assistantMessage]);
+    if (!input.trim() || selectedVersionIds.length === 0) {
+      if (selectedVersionIds.length === 0) {
+        toast.error('Selecione pelo menos um capítulo');
       }
+      return;
+    }
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: input,
+      chapterVersionIds: selectedVersionIds,
+      timestamp: new Date()
+    };
+
+    const providers = ['openai'];
+    const assistantId = (provider: string) => `${userMessage.id}-${provider}`;
+
+    // Uma mensagem por provedor, preenchida conforme os tokens chegam
+    const assistantMessages: Message[] = providers.map(provider => ({
+      id: assistantId(provider),
+      role: 'assistant',
+      content: '',
+      streaming: true,
+      timestamp: new Date()
+    }));
+
+    const updateAssistant = (provider: string, update: (message: Message) => Partial<Message>) => {
+      setMessages(prev => prev.map(m => m.id === assistantId(provider) ? { ...m, ...update(m) } : m));
+    };
+
+    setMessages(prev => [...prev, userMessage, ...assistantMessages]);
+    setInput('');
+    setLoading(true);
+
+    try {
+      // Primeira pergunta de uma conversa nova: cria a conversa
+      const activeConversationId = thesisId ? conversationId || await createConversation() : undefined;
+
+      await streamChat({
+        chapterVersionIds: selectedVersionIds,
+        question: input,
+        searchMode,
+        providers,
+        models: { openai: 'gpt-4o-mini' },
+        conversationId: activeConversationId
+      }, {
+        // Trechos usados chegam antes da resposta
+        onContext: ({ citationMode, sources, retrievalQuery }) => {
+          setMessages(prev => prev.map(m => m.id === userMessage.id
+            ? { ...m, retrievalQuery }
+            : m.role === 'assistant' && m.id.startsWith(`${userMessage.id}-`)
+              ? { ...m, citationMode, sources }
+              : m
+          ));
+        },
+        onToken: (provider, delta) => updateAssistant(provider, m => ({ content: m.content + delta })),
+        onAnswer: (answer) => updateAssistant(answer.provider, () => ({
+          content: answer.text,
+          citations: answer.citations,
+          streaming: false
+        })),
+        // Título gerado da primeira pergunta e ordem da lista
+        onDone: ({ conversationId: savedId }) => {
+          if (savedId) loadConversations();
+        }
+      });
 
     } catch (error: any) {
       console.error('[CHAT] Error:', error);
       toast.error(error.message || 'Erro ao enviar mensagem');
 
-      // Remove a mensagem do usuário em caso de erro
-      setMessages(prev => prev.filter(m => m.id !== userMessage.id));
+      // Remove a pergunta e as respostas incompletas em caso de erro
+      setMessages(prev => prev.filter(m => m.id !== userMessage.id && !(m.streaming && m.id.startsWith(`${userMessage.id}-`))));
     } finally {
       setLoading(false);
     }
@@ -143,6 +350,55 @@ export function ChapterChat({ currentChapterId, allChapters }: ChapterChatProps)
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {/* Conversas */}
+            {thesisId && (
+              <div className="flex gap-2">
+                {renaming ? (
+                  <Input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                    className="flex-1"
+                    autoFocus
+                  />
+                ) : (
+                  <Select value={conversationId || ''} onValueChange={openConversation} disabled={loading}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder={conversations.length > 0 ? 'Nova conversa' : 'Nenhuma conversa salva'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {conversations.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {renaming ? (
+                  <Button variant="outline" size="icon" onClick={handleRename} disabled={!title.trim()} title="Salvar nome">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => { setTitle(conversation?.title || ''); setRenaming(true); }}
+                    disabled={!conversation || loading}
+                    title="Renomear conversa"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="outline" size="icon" onClick={handleDelete} disabled={!conversation || loading} title="Excluir conversa">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={handleNewConversation} disabled={loading} title="Nova conversa">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
             {/* Messages */}
             <ScrollArea className="h-[400px] pr-4">
               {messages.length === 0 ? (
@@ -167,31 +423,80 @@ export function ChapterChat({ currentChapterId, allChapters }: ChapterChatProps)
                             : 'bg-muted'
                         }`}
                       >
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        {message.streaming && !message.content ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        ) : (
+                          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        )}
 
                         {/* Citations */}
                         {message.citations && message.citations.length > 0 && (
                           <div className="mt-2 pt-2 border-t border-border/50">
-                            <p className="text-xs text-muted-foreground mb-1">Fontes:</p>
+                            <p className="text-xs text-muted-foreground mb-1">Citações:</p>
                             <div className="flex flex-wrap gap-1">
-                              {message.citations.map((citation, idx) => (
-                                <CitationBadge
-                                  key={idx}
-                                  citation={{
-                                    pageFrom: citation.pageFrom,
-                                    pageTo: citation.pageTo,
-                                    chapterOrder: citation.metadata?.chapterOrder,
-                                    chapterTitle: citation.metadata?.chapterTitle,
-                                    versionNumber: citation.metadata?.versionNumber
-                                  }}
-                                  mode={message.citationMode || 'minimal'}
-                                  showIcon={idx === 0}
-                                />
-                              ))}
+                              {message.citations.map((citation, idx) => {
+                                // Capítulo/versão vêm do trecho de origem entre as fontes
+                                const source = message.sources?.find(s => s.chunkId && s.chunkId === citation.chunkId);
+                                return (
+                                  <CitationBadge
+                                    key={idx}
+                                    citation={{
+                                      pageFrom: citation.page,
+                                      chapterOrder: source?.chapterOrder,
+                                      chapterTitle: source?.chapterTitle,
+                                      versionNumber: source?.versionNumber,
+                                      status: citation.status,
+                                      claim: citation.claim,
+                                      quote: citation.quote,
+                                      chapterId: citation.chapterId,
+                                      chapterVersionId: citation.chapterVersionId,
+                                      chunkId: citation.chunkId
+                                    }}
+                                    mode={message.citationMode || 'minimal'}
+                                    showIcon={idx === 0}
+                                  />
+                                );
+                              })}
                             </div>
+
+                            {message.citations.some(isUnsupportedCitation) && (
+                              <div className="mt-2 text-xs text-destructive">
+                                <p className="font-medium">Afirmações sem apoio nos trechos:</p>
+                                <ul className="list-disc pl-4">
+                                  {message.citations.filter(isUnsupportedCitation).map((citation, idx) => (
+                                    <li key={idx}>
+                                      {citation.claim || `pág ${citation.page}`}
+                                      {citation.status === 'wrong_page' && ' (texto está em outra página)'}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {message.sources && <RetrievalSources sources={message.sources} />}
+
+                        {message.editJobId && (
+                          <div className="mt-2 pt-2 border-t border-border/50 flex items-center justify-between gap-2">
+                            <span className="text-xs text-muted-foreground">
+                              {message.suggestionCount} {message.suggestionCount === 1 ? 'sugestão' : 'sugestões'}
+                            </span>
+                            {!!message.suggestionCount && (
+                              <Link href={`/chapters/${currentChapterId}/edits/${message.editJobId}`}>
+                                <Button size="sm" variant="outline">
+                                  <Wand2 className="h-3 w-3 mr-1" />
+                                  Revisar sugestões
+                                </Button>
+                              </Link>
+                            )}
                           </div>
                         )}
 
+                        {message.retrievalQuery && message.retrievalQuery !== message.content && (
+                          <p className="text-xs opacity-70 mt-2">Busca: {message.retrievalQuery}</p>
+                        )}
+
                         <p className="text-xs opacity-70 mt-2">
                           {message.timestamp.toLocaleTimeString('pt-BR', {
                             hour: '2-digit',
@@ -207,17 +512,35 @@ export function ChapterChat({ currentChapterId, allChapters }: ChapterChatProps)
 
             {/* Input */}
             <div className="flex gap-2">
+              <Select value={mode} onValueChange={(value) => setMode(value as ChatMode)} disabled={loading}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ask">Perguntar</SelectItem>
+                  <SelectItem value="edit">Editar</SelectItem>
+                </SelectContent>
+              </Select>
+              {mode === 'ask' && (
+                <SearchModeSelect
+                  value={searchMode}
+                  onChange={(mode) => setSearchMode(mode as ContextSearchMode)}
+                  className="w-56"
+                />
+              )}
               <Input
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyPress={handleKeyPress}
-                placeholder="Digite sua pergunta..."
-                disabled={loading || selectedVersionIds.length === 0}
+                placeholder={mode === 'edit'
+                  ? 'Ex.: reescreva o segundo parágrafo da seção 2.3 de forma mais formal'
+                  : 'Digite sua pergunta...'}
+                disabled={loading || (mode === 'ask' && selectedVersionIds.length === 0)}
                 className="flex-1"
               />
               <Button
                 onClick={handleSend}
-                disabled={loading || !input.trim() || selectedVersionIds.length === 0}
+                disabled={loading || !input.trim() || (mode === 'ask' && selectedVersionIds.length === 0)}
                 size="icon"
               >
                 {loading ? (
@@ -228,7 +551,13 @@ export function ChapterChat({ currentChapterId, allChapters }: ChapterChatProps)
               </Button>
             </div>
 
-            {selectedVersionIds.length === 0 && (
+            {mode === 'edit' && (
+              <p className="text-sm text-muted-foreground text-center">
+                As edições são propostas na versão atual deste capítulo e passam pela revisão antes de gerar uma nova versão
+              </p>
+            )}
+
+            {mode === 'ask' && selectedVersionIds.length === 0 && (
               <p className="text-sm text-muted-foreground text-center">
                 ← Selecione capítulos no painel ao lado
               </p>
@@ -1,7 +1,9 @@
 'use client';
 
+import Link from 'next/link';
 import { Badge } from '@/components/ui/badge';
-import { BookOpen, FileText } from 'lucide-react';
+import { AlertTriangle, BookOpen, CheckCircle2, FileText } from 'lucide-react';
+import type { CitationStatus } from '@/lib/ai/types';
 
 export type CitationDisplayMode = 'minimal' | 'chapter' | 'version' | 'full';
 
@@ -11,13 +13,42 @@ type CitationData = {
   chapterOrder?: number;
   chapterTitle?: string;
   versionNumber?: number;
+  // Citação verificada contra os trechos (ver lib/ai/grounding.ts)
+  status?: CitationStatus;
+  claim?: string;
+  quote?: string;
+  chapterId?: string;
+  chapterVersionId?: string;
+  chunkId?: string;
 };
 
+const STATUS_LABELS: Record<CitationStatus, string> = {
+  verified: 'Verificada no trecho',
+  page_only: 'Página nos trechos (texto não conferido)',
+  wrong_page: 'Texto encontrado em outra página',
+  unsupported: 'Sem apoio nos trechos enviados'
+};
+
+export function isUnsupportedCitation(citation: { status?: CitationStatus }): boolean {
+  return citation.status === 'unsupported' || citation.status === 'wrong_page';
+}
+
+/**
+ * Link para o parágrafo do trecho na versão do capítulo
+ */
+export function citationHref(citation: CitationData): string | null {
+  if (!citation.chapterId || !citation.chapterVersionId || !citation.chunkId) return null;
+
+  const query = new URLSearchParams({ chunk: citation.chunkId });
+  if (citation.quote) query.set('quote', citation.quote);
+  return `/chapters/${citation.chapterId}/versions/${citation.chapterVersionId}?${query}`;
+}
+
 type CitationBadgeProps = {
   citation: CitationData;
   mode?: CitationDisplayMode;
   showIcon?: boolean;
-  variant?: 'default' | 'secondary' | 'outline' | 'ghost';
+  variant?: 'default' | 'secondary' | 'outline';
 };
 
 /**
@@ -78,6 +109,8 @@ export function CitationBadge({
   };
 
   const getIcon = () => {
+    if (isUnsupportedCitation(citation)) return <AlertTriangle className="h-3 w-3 mr-1" />;
+    if (citation.status === 'verified') return <CheckCircle2 className="h-3 w-3 mr-1" />;
     if (!showIcon) return null;
 
     // Mostra ícone de livro se tiver capítulo, senão ícone de arquivo
@@ -96,19 +129,29 @@ export function CitationBadge({
       parts.push(`Versão: ${citation.versionNumber}`);
     }
     parts.push(`Página${citation.pageTo && citation.pageTo !== citation.pageFrom ? 's' : ''}: ${citation.pageFrom}${citation.pageTo && citation.pageTo !== citation.pageFrom ? `-${citation.pageTo}` : ''}`);
+    if (citation.status) {
+      parts.push(STATUS_LABELS[citation.status]);
+    }
+    if (citation.claim) {
+      parts.push(`"${citation.claim}"`);
+    }
     return parts.join(' | ');
   };
 
-  return (
+  const href = citationHref(citation);
+
+  const badge = (
     <Badge
-      variant={variant}
-      className="text-xs inline-flex items-center cursor-help"
+      variant={isUnsupportedCitation(citation) ? 'destructive' : variant}
+      className={`text-xs inline-flex items-center ${href ? 'cursor-pointer' : 'cursor-help'}`}
       title={getTooltip()}
     >
       {getIcon()}
       {getText()}
     </Badge>
   );
+
+  return href ? <Link href={href}>{badge}</Link> : badge;
 }
 
 /**
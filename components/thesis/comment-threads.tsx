@@ -0,0 +1,300 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { CheckCircle2, MessageSquare, RotateCcw } from 'lucide-react';
+
+type Paragraph = {
+  index: number;
+  text: string;
+  isHeader: boolean;
+};
+
+type ThreadMessage = {
+  id: string;
+  body: string;
+  authorId: string | null;
+  authorName: string | null;
+  createdAt: string;
+};
+
+type Thread = {
+  id: string;
+  status: 'open' | 'resolved';
+  paragraphIndex: number;
+  paragraphText: string;
+  carriedOver: boolean;
+  createdAt: string;
+  messages: ThreadMessage[];
+};
+
+type CommentThreadsProps = {
+  chapterId: string;
+  versionId: string;
+  // Trecho citado no chat: seleciona o parágrafo de origem (?chunk=&quote=)
+  focusChunkId?: string | null;
+  focusQuote?: string | null;
+};
+
+export function CommentThreads({ chapterId, versionId, focusChunkId, focusQuote }: CommentThreadsProps) {
+  const [paragraphs, setParagraphs] = useState<Paragraph[]>([]);
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [canComment, setCanComment] = useState(false);
+  const [unsupported, setUnsupported] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [newComment, setNewComment] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const baseUrl = `/api/chapters/${chapterId}/versions/${versionId}`;
+
+  const loadThreads = async () => {
+    const res = await fetch(`${baseUrl}/comments`);
+    if (!res.ok) throw new Error('Falha ao carregar comentários');
+
+    const data = await res.json();
+    setThreads(data.threads || []);
+    setCanComment(!!data.canComment);
+  };
+
+  const loadAll = async () => {
+    try {
+      const query = new URLSearchParams();
+      if (focusChunkId) query.set('chunkId', focusChunkId);
+      if (focusQuote) query.set('quote', focusQuote);
+
+      const res = await fetch(`${baseUrl}/paragraphs${query.size > 0 ? `?${query}` : ''}`);
+      if (!res.ok) {
+        const error = await res.json();
+        setUnsupported(error.error || 'Falha ao carregar parágrafos');
+        return;
+      }
+
+      const data = await res.json();
+      setParagraphs(data.paragraphs || []);
+      if (typeof data.focusIndex === 'number') setSelectedIndex(data.focusIndex);
+      await loadThreads();
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  useEffect(() => {
+    setSelectedIndex(null);
+    loadAll();
+  }, [chapterId, versionId, focusChunkId, focusQuote]);
+
+  // Leva o parágrafo citado para a área visível
+  useEffect(() => {
+    if (selectedIndex === null || !focusChunkId) return;
+    document.getElementById(`paragraph-${selectedIndex}`)?.scrollIntoView({ block: 'center' });
+  }, [paragraphs, focusChunkId]);
+
+  const request = async (url: string, method: string, body: any, fallback: string) => {
+    try {
+      setSaving(true);
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || fallback);
+      }
+
+      await loadThreads();
+      return true;
+    } catch (error: any) {
+      toast.error(error.message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (selectedIndex === null) return;
+    const ok = await request(
+      `${baseUrl}/comments`,
+      'POST',
+      { paragraphIndex: selectedIndex, body: newComment },
+      'Falha ao criar comentário'
+    );
+    if (ok) setNewComment('');
+  };
+
+  const handleReply = async (threadId: string) => {
+    const ok = await request(
+      `/api/chapters/${chapterId}/comments/${threadId}/replies`,
+      'POST',
+      { body: replies[threadId] || '' },
+      'Falha ao responder'
+    );
+    if (ok) setReplies(prev => ({ ...prev, [threadId]: '' }));
+  };
+
+  const handleStatus = (threadId: string, status: Thread['status']) =>
+    request(
+      `/api/chapters/${chapterId}/comments/${threadId}`,
+      'PATCH',
+      { status },
+      'Falha ao atualizar comentário'
+    );
+
+  const threadsFor = (index: number) => threads.filter(t => t.paragraphIndex === index);
+  const openCount = threads.filter(t => t.status === 'open').length;
+  const selectedThreads = selectedIndex !== null ? threadsFor(selectedIndex) : [];
+
+  return (
+    <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-primary" />
+          Comentários de Revisão
+          {openCount > 0 && <Badge variant="secondary">{openCount} abertos</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Selecione um parágrafo para ver ou abrir discussões. Comentários abertos seguem
+          para a próxima versão quando o parágrafo não é alterado.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {unsupported ? (
+          <p className="text-sm text-muted-foreground">{unsupported}</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <ScrollArea className="h-[420px] pr-4">
+              <div className="space-y-1">
+                {paragraphs.map((p) => {
+                  const count = threadsFor(p.index).length;
+                  return (
+                    <button
+                      key={p.index}
+                      id={`paragraph-${p.index}`}
+                      type="button"
+                      onClick={() => setSelectedIndex(p.index)}
+                      className={`w-full text-left rounded px-2 py-1 text-sm transition-colors hover:bg-white/5 ${
+                        selectedIndex === p.index ? 'bg-white/10' : ''
+                      } ${p.isHeader ? 'font-semibold' : 'text-muted-foreground'}`}
+                    >
+                      <span className="line-clamp-2">{p.text}</span>
+                      {count > 0 && (
+                        <Badge variant="outline" className="mt-1">
+                          <MessageSquare className="h-3 w-3 mr-1" />
+                          {count}
+                        </Badge>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            <div className="space-y-4">
+              {selectedIndex === null ? (
+                <p className="text-sm text-muted-foreground">Nenhum parágrafo selecionado.</p>
+              ) : (
+                <>
+                  <p className="text-sm italic border-l-2 border-primary pl-3">
+                    {paragraphs.find(p => p.index === selectedIndex)?.text}
+                  </p>
+
+                  {selectedThreads.map((thread) => (
+                    <div key={thread.id} className="rounded border border-white/10 p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={thread.status === 'open' ? 'default' : 'secondary'}>
+                          {thread.status === 'open' ? 'Aberto' : 'Resolvido'}
+                        </Badge>
+                        {thread.carriedOver && (
+                          <Badge variant="outline">Versão anterior</Badge>
+                        )}
+                      </div>
+
+                      {thread.messages.map((message) => (
+                        <div key={message.id} className="text-sm">
+                          <span className="font-medium">{message.authorName || 'Usuário'}</span>
+                          <span className="text-xs text-muted-foreground ml-2">
+                            {new Date(message.createdAt).toLocaleString('pt-BR')}
+                          </span>
+                          <p className="whitespace-pre-wrap">{message.body}</p>
+                        </div>
+                      ))}
+
+                      {canComment && (
+                        <div className="space-y-2">
+                          {thread.status === 'open' && (
+                            <Textarea
+                              rows={2}
+                              placeholder="Responder..."
+                              value={replies[thread.id] || ''}
+                              onChange={(e) => setReplies(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                            />
+                          )}
+                          <div className="flex gap-2 justify-end">
+                            {thread.status === 'open' ? (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={saving}
+                                  onClick={() => handleStatus(thread.id, 'resolved')}
+                                >
+                                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                                  Resolver
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  disabled={saving || !(replies[thread.id] || '').trim()}
+                                  onClick={() => handleReply(thread.id)}
+                                >
+                                  Responder
+                                </Button>
+                              </>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={saving}
+                                onClick={() => handleStatus(thread.id, 'open')}
+                              >
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Reabrir
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+
+                  {canComment && (
+                    <div className="space-y-2">
+                      <Textarea
+                        rows={3}
+                        placeholder="Novo comentário sobre este parágrafo..."
+                        value={newComment}
+                        onChange={(e) => setNewComment(e.target.value)}
+                      />
+                      <div className="flex justify-end">
+                        <Button size="sm" disabled={saving || !newComment.trim()} onClick={handleCreate}>
+                          Comentar
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
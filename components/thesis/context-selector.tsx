@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ChevronDown, ChevronUp, BookOpen, Info } from 'lucide-react';
 import { ChapterSelector } from './chapter-selector';
+import { SearchModeSelect, type SearchModeOption } from './search-mode-select';
 
 type ChapterVersion = {
   id: string;
@@ -28,6 +29,9 @@ type ContextSelectorProps = {
   selectedVersionIds: string[];
   onSelectionChange: (versionIds: string[]) => void;
   description?: string;
+  // Como o contexto é montado (capítulos inteiros ou só os trechos relevantes)
+  searchMode?: SearchModeOption;
+  onSearchModeChange?: (mode: SearchModeOption) => void;
 };
 
 export function ContextSelector({
@@ -35,7 +39,9 @@ export function ContextSelector({
   currentChapterId,
   selectedVersionIds,
   onSelectionChange,
-  description = "Selecione capítulos para usar como contexto. A IA considerará o conteúdo desses capítulos ao processar o capítulo atual."
+  description = "Selecione capítulos para usar como contexto. A IA considerará o conteúdo desses capítulos ao processar o capítulo atual.",
+  searchMode,
+  onSearchModeChange
 }: ContextSelectorProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -129,6 +135,18 @@ export function ContextSelector({
                 </div>
               </div>
 
+              {searchMode && onSearchModeChange && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Contexto:</span>
+                  <SearchModeSelect
+                    value={searchMode}
+                    onChange={onSearchModeChange}
+                    allowFull
+                    className="w-64"
+                  />
+                </div>
+              )}
+
               <ChapterSelector
                 chapters={availableChapters}
                 selectedVersionIds={selectedVersionIds}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ChevronDown, ChevronUp, Search } from 'lucide-react';
+import type { ChunkRelevance } from '@/lib/thesis/types';
+
+export type RetrievalSource = {
+  chunkId?: string; // Ausente em conversas gravadas antes da verificação de citações
+  chapterOrder: number;
+  chapterTitle: string;
+  versionNumber: number;
+  pageFrom: number;
+  pageTo: number;
+  sectionPath?: string[];
+  excerpt: string;
+  relevance?: ChunkRelevance;
+};
+
+const percent = (value?: number) => `${Math.round((value ?? 0) * 100)}%`;
+
+/**
+ * Lista recolhível dos trechos enviados à IA, com os scores que os fizeram ser escolhidos
+ */
+export function RetrievalSources({ sources }: { sources: RetrievalSource[] }) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-border/50">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-1 text-xs text-muted-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <Search className="h-3 w-3 mr-1" />
+        {sources.length} trechos usados
+        {expanded ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+      </Button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          {sources.map((source, idx) => (
+            <div key={idx} className="rounded border border-border/50 p-2 space-y-1">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium">
+                  #{source.relevance?.rank ?? idx + 1} · Cap {source.chapterOrder} v{source.versionNumber}, pág {source.pageFrom}
+                  {source.pageTo !== source.pageFrom ? `-${source.pageTo}` : ''}
+                </span>
+                <span className="text-muted-foreground">{percent(source.relevance?.score)}</span>
+              </div>
+              {source.sectionPath && source.sectionPath.length > 0 && (
+                <p className="text-[11px] text-muted-foreground truncate">{source.sectionPath.join(' › ')}</p>
+              )}
+              <Progress value={(source.relevance?.score ?? 0) * 100} className="h-1" />
+              <div className="flex gap-3 text-[11px] text-muted-foreground">
+                {source.relevance?.bm25 !== undefined && <span>BM25 {percent(source.relevance.bm25)}</span>}
+                {source.relevance?.semantic !== undefined && <span>Semântica {percent(source.relevance.semantic)}</span>}
+              </div>
+              <p className="text-xs text-muted-foreground line-clamp-2">{source.excerpt}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
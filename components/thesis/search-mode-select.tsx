@@ -0,0 +1,48 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ContextSearchMode } from '@/lib/thesis/types';
+
+// 'full' = capítulos inteiros, sem busca (padrão das operações)
+export type SearchModeOption = ContextSearchMode | 'full';
+
+const LABELS: Record<SearchModeOption, string> = {
+  full: 'Capítulos inteiros',
+  bm25: 'Palavras-chave (BM25)',
+  semantic: 'Semântica (embeddings)',
+  hybrid: 'Híbrida (BM25 + semântica)',
+};
+
+type SearchModeSelectProps = {
+  value: SearchModeOption;
+  onChange: (value: SearchModeOption) => void;
+  allowFull?: boolean;
+  className?: string;
+};
+
+export function SearchModeSelect({ value, onChange, allowFull = false, className }: SearchModeSelectProps) {
+  const options: SearchModeOption[] = allowFull
+    ? ['full', 'bm25', 'semantic', 'hybrid']
+    : ['bm25', 'semantic', 'hybrid'];
+
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as SearchModeOption)}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Modo de busca" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {LABELS[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
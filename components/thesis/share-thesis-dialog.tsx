@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Mail, Trash2, UserPlus } from 'lucide-react';
+
+type Role = 'owner' | 'coauthor' | 'reviewer';
+
+type Member = {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  role: Role;
+};
+
+type Invitation = {
+  id: string;
+  email: string;
+  role: Exclude<Role, 'owner'>;
+  createdAt: string;
+};
+
+export const ROLE_NAMES: Record<Role, string> = {
+  owner: 'Dono',
+  coauthor: 'Coautor',
+  reviewer: 'Orientador/Revisor'
+};
+
+type ShareThesisDialogProps = {
+  thesisId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function ShareThesisDialog({ thesisId, open, onOpenChange }: ShareThesisDialogProps) {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Exclude<Role, 'owner'>>('reviewer');
+  const [inviting, setInviting] = useState(false);
+
+  const loadMembers = async () => {
+    try {
+      const res = await fetch(`/api/theses/${thesisId}/members`);
+      if (!res.ok) throw new Error('Falha ao carregar membros');
+
+      const data = await res.json();
+      setMembers(data.members || []);
+      setInvitations(data.invitations || []);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, thesisId]);
+
+  const handleInvite = async () => {
+    try {
+      setInviting(true);
+      const res = await fetch(`/api/theses/${thesisId}/invitations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role })
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Falha ao enviar convite');
+      }
+
+      toast.success(`Convite enviado para ${email}`);
+      setEmail('');
+      loadMembers();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, newRole: string) => {
+    const res = await fetch(`/api/theses/${thesisId}/members/${userId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: newRole })
+    });
+
+    if (!res.ok) {
+      toast.error('Falha ao alterar papel');
+      return;
+    }
+    loadMembers();
+  };
+
+  const handleRemove = async (userId: string) => {
+    const res = await fetch(`/api/theses/${thesisId}/members/${userId}`, { method: 'DELETE' });
+
+    if (!res.ok) {
+      toast.error('Falha ao remover membro');
+      return;
+    }
+    loadMembers();
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    const res = await fetch(`/api/theses/${thesisId}/invitations/${invitationId}`, { method: 'DELETE' });
+
+    if (!res.ok) {
+      toast.error('Falha ao revogar convite');
+      return;
+    }
+    loadMembers();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Compartilhar Tese</DialogTitle>
+          <DialogDescription>
+            Coautores podem enviar versões e rodar operações. Orientadores/revisores têm acesso
+            somente leitura, mas podem comentar e aprovar sugestões.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="flex gap-2 items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="orientador@universidade.br"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <Select value={role} onValueChange={(value) => setRole(value as Exclude<Role, 'owner'>)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reviewer">{ROLE_NAMES.reviewer}</SelectItem>
+                <SelectItem value="coauthor">{ROLE_NAMES.coauthor}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleInvite} disabled={inviting || !email.trim()}>
+              <UserPlus className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Membros</Label>
+            {members.map((member) => (
+              <div key={member.userId} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{member.name}</p>
+                  <p className="text-muted-foreground truncate">{member.email}</p>
+                </div>
+                {member.role === 'owner' ? (
+                  <Badge variant="secondary">{ROLE_NAMES.owner}</Badge>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Select value={member.role} onValueChange={(value) => handleRoleChange(member.userId, value)}>
+                      <SelectTrigger className="w-[170px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="reviewer">{ROLE_NAMES.reviewer}</SelectItem>
+                        <SelectItem value="coauthor">{ROLE_NAMES.coauthor}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(member.userId)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {invitations.length > 0 && (
+            <div className="space-y-2">
+              <Label>Convites pendentes</Label>
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Mail className="w-4 h-4 text-muted-foreground shrink-0" />
+                    <span className="truncate">{invitation.email}</span>
+                    <Badge variant="outline">{ROLE_NAMES[invitation.role]}</Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation.id)}>
+                    Revogar
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,339 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { BookText, Download, Loader2, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import type { PartOfSpeech, TermbaseEntry } from '@/lib/translation/types';
+
+type TermbaseEditorProps = {
+  thesisId: string;
+  targetLanguage: string;
+  readOnly?: boolean;
+};
+
+const PART_OF_SPEECH_LABELS: Record<PartOfSpeech, string> = {
+  noun: 'Substantivo',
+  verb: 'Verbo',
+  adjective: 'Adjetivo',
+  adverb: 'Advérbio',
+  phrase: 'Expressão',
+  other: 'Outro'
+};
+
+const EMPTY_FORM = {
+  sourceTerm: '',
+  translation: '',
+  forbidden: '',
+  partOfSpeech: '',
+  notes: '',
+  caseSensitive: false
+};
+
+/**
+ * Termbase da tese para o idioma de destino: termos obrigatórios na tradução
+ */
+export function TermbaseEditor({ thesisId, targetLanguage, readOnly = false }: TermbaseEditorProps) {
+  const [entries, setEntries] = useState<TermbaseEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const baseUrl = `/api/theses/${thesisId}/termbase`;
+
+  useEffect(() => {
+    loadEntries();
+    resetForm();
+  }, [thesisId, targetLanguage]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`${baseUrl}?targetLanguage=${targetLanguage}`);
+      if (!res.ok) throw new Error('Falha ao carregar a terminologia');
+      const data = await res.json();
+      setEntries(data.entries || []);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (entry: TermbaseEntry) => {
+    setEditingId(entry.id);
+    setForm({
+      sourceTerm: entry.source_term,
+      translation: entry.translation,
+      forbidden: entry.forbidden.join(', '),
+      partOfSpeech: entry.part_of_speech || '',
+      notes: entry.notes || '',
+      caseSensitive: entry.case_sensitive
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.sourceTerm.trim() || !form.translation.trim()) {
+      toast.error('Informe o termo e a tradução');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(editingId ? `${baseUrl}/${editingId}` : baseUrl, {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceTerm: form.sourceTerm,
+          targetLanguage,
+          translation: form.translation,
+          forbidden: form.forbidden.split(',').map(term => term.trim()).filter(Boolean),
+          partOfSpeech: form.partOfSpeech || null,
+          notes: form.notes,
+          caseSensitive: form.caseSensitive
+        })
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Falha ao salvar o termo');
+      }
+
+      toast.success(editingId ? 'Termo atualizado' : 'Termo adicionado');
+      resetForm();
+      await loadEntries();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: TermbaseEntry) => {
+    if (!confirm(`Remover "${entry.source_term}" da terminologia?`)) return;
+
+    try {
+      const res = await fetch(`${baseUrl}/${entry.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Falha ao remover o termo');
+      }
+
+      if (editingId === entry.id) resetForm();
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const res = await fetch(`${baseUrl}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: await file.text() })
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao importar a terminologia');
+
+      if (data.skipped.length > 0) {
+        toast.warning(`${data.imported} termos importados, ${data.skipped.length} ignorados (${data.skipped[0].error})`);
+      } else {
+        toast.success(`${data.imported} termos importados`);
+      }
+      await loadEntries();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-2">
+          <BookText className="h-4 w-4" />
+          Terminologia da Tese
+          <Badge variant="secondary">{entries.length}</Badge>
+        </Label>
+        <div className="flex gap-1">
+          {!readOnly && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".tbx,.xml,.csv"
+                className="hidden"
+                onChange={handleImport}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importing}
+              >
+                {importing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+                Importar
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" asChild>
+            <a href={`${baseUrl}/export?format=tbx&targetLanguage=${targetLanguage}`}>
+              <Download className="h-4 w-4 mr-1" />
+              TBX
+            </a>
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <a href={`${baseUrl}/export?format=csv&targetLanguage=${targetLanguage}`}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Termos com tradução obrigatória neste idioma. Traduções proibidas são apontadas na revisão.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">Nenhum termo para este idioma.</p>
+      ) : (
+        <div className="border rounded-md divide-y max-h-56 overflow-y-auto">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-start gap-2 p-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <p>
+                  <span className="font-medium">{entry.source_term}</span>
+                  {' → '}
+                  <span>{entry.translation === entry.source_term ? 'não traduzir' : entry.translation}</span>
+                  {entry.part_of_speech && (
+                    <Badge variant="outline" className="ml-2 text-xs">
+                      {PART_OF_SPEECH_LABELS[entry.part_of_speech]}
+                    </Badge>
+                  )}
+                </p>
+                {entry.forbidden.length > 0 && (
+                  <p className="text-xs text-red-600">Proibido: {entry.forbidden.join(', ')}</p>
+                )}
+                {entry.notes && <p className="text-xs text-muted-foreground">{entry.notes}</p>}
+              </div>
+              {!readOnly && (
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(entry)}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(entry)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="border rounded-md p-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              placeholder="Termo de origem"
+              value={form.sourceTerm}
+              onChange={e => setForm({ ...form, sourceTerm: e.target.value })}
+            />
+            <Input
+              placeholder="Tradução preferida"
+              value={form.translation}
+              onChange={e => setForm({ ...form, translation: e.target.value })}
+            />
+            <Input
+              placeholder="Traduções proibidas (separadas por vírgula)"
+              value={form.forbidden}
+              onChange={e => setForm({ ...form, forbidden: e.target.value })}
+            />
+            <Select
+              value={form.partOfSpeech || 'none'}
+              onValueChange={value => setForm({ ...form, partOfSpeech: value === 'none' ? '' : value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Classe gramatical" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Classe gramatical</SelectItem>
+                {Object.entries(PART_OF_SPEECH_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            placeholder="Notas (opcional)"
+            value={form.notes}
+            onChange={e => setForm({ ...form, notes: e.target.value })}
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="termbase-case-sensitive"
+                checked={form.caseSensitive}
+                onCheckedChange={checked => setForm({ ...form, caseSensitive: checked === true })}
+              />
+              <Label htmlFor="termbase-case-sensitive" className="text-sm font-normal">
+                Diferenciar maiúsculas
+              </Label>
+            </div>
+            <div className="flex gap-1">
+              {editingId && (
+                <Button variant="ghost" size="sm" onClick={resetForm}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancelar
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : editingId ? (
+                  <Pencil className="h-4 w-4 mr-1" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-1" />
+                )}
+                {editingId ? 'Salvar' : 'Adicionar'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
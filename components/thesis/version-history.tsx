@@ -3,7 +3,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { GitBranch, Circle, ArrowRight, CheckCircle2 } from 'lucide-react';
+import { GitBranch, GitMerge, Circle, ArrowRight, CheckCircle2 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 
 type ChapterVersion = {
@@ -13,6 +13,7 @@ type ChapterVersion = {
   createdAt: string;
   isCurrent: boolean;
   parentVersionId: string | null;
+  mergeParentVersionId?: string | null; // Segundo pai (versões mescladas)
   pages: number | null;
 };
 
@@ -44,7 +45,10 @@ export function VersionHistory({ versions, chapterId, showHeader = true }: Versi
     return { roots, children, versionMap };
   };
 
-  const { roots, children } = buildTree();
+  const { roots, children, versionMap } = buildTree();
+
+  // Mesclar só faz sentido quando existe pelo menos uma bifurcação
+  const hasBranches = Array.from(children.values()).some(siblings => siblings.length > 1);
 
   const getOperationColor = (operation: string) => {
     switch (operation) {
@@ -54,6 +58,8 @@ export function VersionHistory({ versions, chapterId, showHeader = true }: Versi
       case 'adjust': return 'bg-orange-500';
       case 'adapt': return 'bg-pink-500';
       case 'update': return 'bg-yellow-500';
+      case 'merge': return 'bg-cyan-500';
+      case 'chat_edit': return 'bg-teal-500';
       default: return 'bg-gray-500';
     }
   };
@@ -66,6 +72,8 @@ export function VersionHistory({ versions, chapterId, showHeader = true }: Versi
       case 'adjust': return 'Ajustado';
       case 'adapt': return 'Adaptado';
       case 'update': return 'Atualizado';
+      case 'merge': return 'Mesclado';
+      case 'chat_edit': return 'Editado pelo chat';
       default: return operation;
     }
   };
@@ -73,6 +81,7 @@ export function VersionHistory({ versions, chapterId, showHeader = true }: Versi
   const renderVersion = (version: ChapterVersion, level: number = 0, isLast: boolean = false) => {
     const versionChildren = children.get(version.id) || [];
     const hasChildren = versionChildren.length > 0;
+    const mergeParent = version.mergeParentVersionId ? versionMap.get(version.mergeParentVersionId) : null;
 
     return (
       <div key={version.id} className="relative">
@@ -138,6 +147,15 @@ export function VersionHistory({ versions, chapterId, showHeader = true }: Versi
                   <span>{version.pages} {version.pages === 1 ? 'pág' : 'págs'}</span>
                 </>
               )}
+              {mergeParent && (
+                <>
+                  <span>•</span>
+                  <span className="flex items-center gap-1">
+                    <GitMerge className="h-3 w-3" />
+                    mescla de v{mergeParent.versionNumber}
+                  </span>
+                </>
+              )}
             </div>
           </div>
 
@@ -195,13 +213,27 @@ export function VersionHistory({ versions, chapterId, showHeader = true }: Versi
     <Card className="bg-gradient-to-br from-white/[0.07] to-white/[0.02] backdrop-blur-xl border-white/10">
       {showHeader && (
         <CardHeader>
-          <CardTitle className="text-lg flex items-center gap-2">
-            <GitBranch className="h-5 w-5" />
-            Árvore de Versões
-          </CardTitle>
-          <CardDescription>
-            Visualização hierárquica das {versions.length} versões
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <GitBranch className="h-5 w-5" />
+                Árvore de Versões
+              </CardTitle>
+              <CardDescription>
+                Visualização hierárquica das {versions.length} versões
+              </CardDescription>
+            </div>
+            {hasBranches && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push(`/chapters/${chapterId}/versions/merge`)}
+              >
+                <GitMerge className="h-4 w-4 mr-2" />
+                Mesclar versões
+              </Button>
+            )}
+          </div>
         </CardHeader>
       )}
       <CardContent>
@@ -225,6 +257,10 @@ export function VersionHistory({ versions, chapterId, showHeader = true }: Versi
               <ArrowRight className="h-3 w-3 text-muted-foreground" />
               <span className="text-muted-foreground">Tem Derivações</span>
             </div>
+            <div className="flex items-center gap-1 text-xs">
+              <GitMerge className="h-3 w-3 text-muted-foreground" />
+              <span className="text-muted-foreground">Mescla de Ramos</span>
+            </div>
           </div>
         </div>
       </CardContent>
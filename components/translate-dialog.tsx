@@ -21,6 +21,9 @@ import {
 import { Label } from '@/components/ui/label';
 import { Languages, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { useLocalModels } from '@/lib/use-local-models';
+import { PromptVersionSelect } from '@/components/prompt-version-select';
+import type { PromptVersions } from '@/lib/ai/prompt-templates';
 
 type TranslationDialogProps = {
   documentId: string;
@@ -43,13 +46,16 @@ const LANGUAGES = {
 const PROVIDERS = {
   openai: 'OpenAI',
   gemini: 'Google Gemini',
-  grok: 'xAI Grok'
+  grok: 'xAI Grok',
+  local: 'Servidor Local',
+  mock: 'Simulado (offline)'
 };
 
 const MODELS_BY_PROVIDER: Record<string, string[]> = {
   openai: ['gpt-4o', 'gpt-4o-mini'],
   gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.0-flash'],
-  grok: ['grok-2-1212', 'grok-2-vision-1212']
+  grok: ['grok-2-1212', 'grok-2-vision-1212'],
+  mock: ['mock-1']
 };
 
 export function TranslateDialog({ documentId, documentTitle }: TranslationDialogProps) {
@@ -60,7 +66,10 @@ export function TranslateDialog({ documentId, documentTitle }: TranslationDialog
   const [provider, setProvider] = useState<string>('');
   const [model, setModel] = useState<string>('');
   const [maxPages, setMaxPages] = useState<string>(''); // NEW: Limit pages to translate
+  const [promptVersions, setPromptVersions] = useState<PromptVersions>({});
   const [isTranslating, setIsTranslating] = useState(false);
+  const localModels = useLocalModels(open);
+  const modelOptions = provider === 'local' ? localModels : MODELS_BY_PROVIDER[provider];
 
   const handleStartTranslation = async () => {
     if (!targetLanguage || !provider || !model) {
@@ -79,7 +88,8 @@ export function TranslateDialog({ documentId, documentTitle }: TranslationDialog
           targetLanguage,
           provider,
           model,
-          maxPages: maxPages ? parseInt(maxPages) : undefined // Limit pages if specified
+          maxPages: maxPages ? parseInt(maxPages) : undefined, // Limit pages if specified
+          promptVersions
         })
       });
 
@@ -201,7 +211,7 @@ export function TranslateDialog({ documentId, documentTitle }: TranslationDialog
                   <SelectValue placeholder="Selecione o modelo" />
                 </SelectTrigger>
                 <SelectContent>
-                  {MODELS_BY_PROVIDER[provider]?.map((modelName) => (
+                  {modelOptions?.map((modelName) => (
                     <SelectItem key={modelName} value={modelName}>
                       {modelName}
                     </SelectItem>
@@ -211,6 +221,12 @@ export function TranslateDialog({ documentId, documentTitle }: TranslationDialog
             </div>
           )}
 
+          <PromptVersionSelect
+            keys={['translate.direct']}
+            value={promptVersions}
+            onChange={setPromptVersions}
+          />
+
           <div className="pt-2">
             <Button
               onClick={handleStartTranslation}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import type { UsageSummary } from '@/lib/ai/usage';
+import type { BudgetAction, BudgetPeriod, BudgetStatus } from '@/lib/ai/budgets';
+
+export const OPERATION_LABELS: Record<string, string> = {
+  chat: 'Chat',
+  improve: 'Melhorias',
+  update: 'Normas',
+  translate: 'Tradução',
+  adjust: 'Ajustes',
+  adapt: 'Adaptação',
+  other: 'Outros'
+};
+
+const ACCOUNT = 'account';
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Painel de uso de IA (ledger) por operação e mês, com o orçamento da conta
+ * ou de uma tese
+ */
+export function UsageDashboard() {
+  const [theses, setTheses] = useState<Array<{ id: string; title: string }>>([]);
+  const [target, setTarget] = useState(ACCOUNT);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [limitUsd, setLimitUsd] = useState('');
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly');
+  const [onExceed, setOnExceed] = useState<BudgetAction>('block');
+
+  const thesisId = target === ACCOUNT ? null : target;
+
+  useEffect(() => {
+    fetch('/api/theses')
+      .then(res => res.ok ? res.json() : { theses: [] })
+      .then(data => setTheses(data.theses || []))
+      .catch(() => setTheses([]));
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [target]);
+
+  const applyBudget = (next: BudgetStatus | null) => {
+    setBudget(next);
+    setLimitUsd(next ? String(next.limit_usd) : '');
+    setPeriod(next?.period || 'monthly');
+    setOnExceed(next?.on_exceed || 'block');
+  };
+
+  const loadUsage = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/usage${thesisId ? `?thesisId=${thesisId}` : ''}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao carregar uso');
+
+      setSummary(data.summary);
+      setCanManage(data.canManage);
+      applyBudget(data.budget);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveBudget = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/usage/budget', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ thesisId, limitUsd: parseFloat(limitUsd), period, onExceed })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Falha ao salvar orçamento');
+
+      applyBudget(data.budget);
+      toast.success('Orçamento salvo');
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveBudget = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/usage/budget${thesisId ? `?thesisId=${thesisId}` : ''}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Falha ao remover orçamento');
+      }
+
+      applyBudget(null);
+      toast.success('Orçamento removido');
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const operations = summary?.byOperation.map(o => o.operation) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Uso de IA e Orçamento</CardTitle>
+        <CardDescription>
+          Custo estimado de cada chamada (tabela de preços abaixo), por operação e mês
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ACCOUNT}>Minha conta (tudo que eu executei)</SelectItem>
+            {theses.map((thesis) => (
+              <SelectItem key={thesis.id} value={thesis.id}>
+                Tese: {thesis.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Carregando uso...
+          </div>
+        ) : (
+          <>
+            {/* Orçamento */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">Orçamento</Label>
+                {budget && (
+                  <Badge
+                    variant="secondary"
+                    className={budget.exceeded
+                      ? 'bg-red-950/50 text-red-400 border-red-900'
+                      : 'bg-green-950/50 text-green-400 border-green-900'}
+                  >
+                    {formatUsd(budget.spentUsd)} de {formatUsd(Number(budget.limit_usd))}
+                    {budget.period === 'monthly' ? ' neste mês' : ' no total'}
+                  </Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Limite (USD)"
+                  value={limitUsd}
+                  disabled={!canManage}
+                  onChange={(e) => setLimitUsd(e.target.value)}
+                />
+                <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)} disabled={!canManage}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">Mensal</SelectItem>
+                    <SelectItem value="total">Total</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={onExceed} onValueChange={(value) => setOnExceed(value as BudgetAction)} disabled={!canManage}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="block">Bloquear ao estourar</SelectItem>
+                    <SelectItem value="pause">Pausar ao estourar</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {canManage ? (
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleSaveBudget} disabled={saving || limitUsd === ''}>
+                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Salvar orçamento'}
+                  </Button>
+                  {budget && (
+                    <Button variant="ghost" onClick={handleRemoveBudget} disabled={saving}>
+                      Remover
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {target === ACCOUNT
+                    ? 'Orçamento definido por outra pessoa: só ela pode alterá-lo'
+                    : 'Só o dono da tese altera o orçamento'}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Bloquear: novos jobs são recusados e os em andamento param na próxima chamada.
+                Pausar: novos jobs são recusados; os em andamento terminam e pipelines pausam até o orçamento ser aumentado.
+              </p>
+            </div>
+
+            {/* Por operação */}
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">
+                Por operação · {formatUsd(summary?.costUsd || 0)} em {summary?.calls || 0} chamadas
+              </Label>
+              {operations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma chamada registrada ainda</p>
+              ) : (
+                <div className="space-y-2 text-sm">
+                  {summary!.byOperation.map((entry) => (
+                    <div key={entry.operation} className="flex justify-between items-center py-2 border-b">
+                      <span className="font-medium">{OPERATION_LABELS[entry.operation] || entry.operation}</span>
+                      <span className="text-muted-foreground">
+                        {entry.calls} chamadas{entry.cacheHits > 0 ? ` + ${entry.cacheHits} do cache` : ''} · {(entry.tokensIn + entry.tokensOut).toLocaleString('pt-BR')} tokens · {formatUsd(entry.costUsd)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Por mês */}
+            {summary && summary.byMonth.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-base font-semibold">Por mês</Label>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 font-medium">Mês</th>
+                        {operations.map((operation) => (
+                          <th key={operation} className="py-2 font-medium text-right">
+                            {OPERATION_LABELS[operation] || operation}
+                          </th>
+                        ))}
+                        <th className="py-2 font-medium text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.byMonth.map((entry) => (
+                        <tr key={entry.month} className="border-b">
+                          <td className="py-2 font-medium">{entry.month}</td>
+                          {operations.map((operation) => (
+                            <td key={operation} className="py-2 text-right text-muted-foreground">
+                              {entry.operations[operation] ? formatUsd(entry.operations[operation]) : '-'}
+                            </td>
+                          ))}
+                          <td className="py-2 text-right">{formatUsd(entry.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,14 @@
 "use client";
 
+import { useState } from "react";
 import { signOut, useSession } from "next-auth/react";
 import { Button } from "@/components/ui/button";
-import { LogOut, User } from "lucide-react";
+import { ChangePasswordDialog } from "@/components/change-password-dialog";
+import { KeyRound, LogOut, User } from "lucide-react";
 
 export function UserMenu() {
   const { data: session } = useSession();
+  const [passwordOpen, setPasswordOpen] = useState(false);
 
   if (!session?.user) {
     return null;
@@ -17,6 +20,15 @@ export function UserMenu() {
         <User className="h-4 w-4 text-gray-400" />
         <span className="text-gray-300">{session.user.name || session.user.email}</span>
       </div>
+      <Button
+        onClick={() => setPasswordOpen(true)}
+        variant="ghost"
+        size="sm"
+        className="text-gray-400 hover:text-red-500 hover:bg-gray-900"
+        title="Alterar senha"
+      >
+        <KeyRound className="h-4 w-4" />
+      </Button>
       <Button
         onClick={() => signOut({ callbackUrl: "/login" })}
         variant="ghost"
@@ -26,6 +38,7 @@ export function UserMenu() {
         <LogOut className="h-4 w-4 mr-1" />
         Sair
       </Button>
+      <ChangePasswordDialog open={passwordOpen} onOpenChange={setPasswordOpen} />
     </div>
   );
 }
@@ -5,8 +5,9 @@
 
 import { AdaptationSuggestion } from './types';
 import { extractDocumentStructure } from '@/lib/improvement/document-analyzer';
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { completeAI } from '@/lib/ai/executor';
+import { renderPrompt } from '@/lib/ai/prompt-templates';
+import type { AIProvider } from '@/lib/ai/types';
 import { randomUUID } from 'crypto';
 
 /**
@@ -16,9 +17,8 @@ export async function analyzeDocumentForAdaptation(
   documentPath: string,
   style: 'academic' | 'professional' | 'simplified' | 'custom',
   targetAudience: string | undefined,
-  provider: 'openai' | 'gemini' | 'grok',
-  model: string,
-  apiKey: string
+  provider: AIProvider,
+  model: string
 ): Promise<AdaptationSuggestion[]> {
   console.log('[ADAPT] Extracting document structure...');
 
@@ -53,8 +53,7 @@ export async function analyzeDocumentForAdaptation(
         style,
         targetAudience,
         provider,
-        model,
-        apiKey
+        model
       );
 
       allSuggestions.push(...suggestions);
@@ -74,48 +73,19 @@ async function analyzeBatch(
   sectionTitle: string,
   style: 'academic' | 'professional' | 'simplified' | 'custom',
   targetAudience: string | undefined,
-  provider: 'openai' | 'gemini' | 'grok',
-  model: string,
-  apiKey: string
+  provider: AIProvider,
+  model: string
 ): Promise<AdaptationSuggestion[]> {
 
-  const prompt = buildPrompt(paragraphs, sectionTitle, style, targetAudience);
-
-  let responseText: string;
-
-  if (provider === 'openai' || provider === 'grok') {
-    const client = new OpenAI({
-      apiKey,
-      baseURL: provider === 'grok' ? 'https://api.x.ai/v1' : undefined
-    });
-
-    const response = await client.chat.completions.create({
-      model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.3, // Lower temperature for style adaptation
-      response_format: { type: 'json_object' }
-    });
-
-    responseText = response.choices[0].message.content || '{}';
-
-  } else {
-    // Gemini
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const geminiModel = genAI.getGenerativeModel({ model });
-
-    const result = await geminiModel.generateContent({
-      contents: [{
-        role: 'user',
-        parts: [{ text: prompt }]
-      }],
-      generationConfig: {
-        temperature: 0.3,
-        responseMimeType: 'application/json'
-      }
-    });
-
-    responseText = result.response.text();
-  }
+  const prompt = await buildPrompt(paragraphs, sectionTitle, style, targetAudience);
+
+  const completion = await completeAI(provider, {
+    model,
+    prompt,
+    temperature: 0.3, // Lower temperature for style adaptation
+    json: true
+  });
+  const responseText = completion.text || '{}';
 
   // Parse response
   try {
@@ -126,7 +96,9 @@ async function analyzeBatch(
       adaptedText: s.adaptedText || '',
       reason: s.reason || '',
       sectionTitle,
-      adaptationType: s.adaptationType || 'style'
+      adaptationType: s.adaptationType || 'style',
+      provider: completion.provider,
+      model: completion.model
     }));
 
     return suggestions;
@@ -144,7 +116,7 @@ function buildPrompt(
   sectionTitle: string,
   style: 'academic' | 'professional' | 'simplified' | 'custom',
   targetAudience: string | undefined
-): string {
+): Promise<string> {
   const styleDescriptions = {
     academic: 'formal academic style with precise terminology, citations, and scholarly tone',
     professional: 'professional business style with clear, concise language suitable for corporate environments',
@@ -152,31 +124,10 @@ function buildPrompt(
     custom: targetAudience || 'general audience'
   };
 
-  const styleDescription = styleDescriptions[style];
-  const audienceText = targetAudience ? ` for ${targetAudience}` : '';
-
-  return `You are a document adaptation expert. Analyze the following text from section "${sectionTitle}" and suggest adaptations to ${styleDescription}${audienceText}.
-
-For each paragraph that needs adaptation, provide:
-- originalText: the exact original text (unchanged)
-- adaptedText: the adapted version in the target style
-- reason: brief explanation of the adaptation (why this change improves style/audience fit)
-- adaptationType: one of: "style", "tone", "terminology", "structure"
-
-Focus on paragraphs that would significantly benefit from adaptation. Skip paragraphs that are already appropriate for the target style.
-
-Paragraphs to analyze:
-${paragraphs.map((p, i) => `[${i + 1}] ${p.text}`).join('\n\n')}
-
-Respond with ONLY a JSON object in this format:
-{
-  "suggestions": [
-    {
-      "originalText": "...",
-      "adaptedText": "...",
-      "reason": "...",
-      "adaptationType": "..."
-    }
-  ]
-}`;
+  return renderPrompt('adapt.section', {
+    section_title: sectionTitle,
+    style_description: styleDescriptions[style],
+    audience: targetAudience ? ` for ${targetAudience}` : '',
+    paragraphs: paragraphs.map((p, i) => `[${i + 1}] ${p.text}`).join('\n\n')
+  });
 }
@@ -3,6 +3,8 @@
  * Style and audience adaptation
  */
 
+import type { AIProvider } from '../ai/types';
+
 export interface AdaptationSuggestion {
   id: string;
   originalText: string;
@@ -10,4 +12,6 @@ export interface AdaptationSuggestion {
   reason: string;
   sectionTitle: string;
   adaptationType: 'style' | 'tone' | 'terminology' | 'structure';
+  provider?: AIProvider; // Who produced it (differs from the job's provider after a fallback)
+  model?: string;
 }
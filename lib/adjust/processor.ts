@@ -5,8 +5,10 @@
 
 import { AdjustSuggestion } from './types';
 import { extractDocumentStructure } from '@/lib/improvement/document-analyzer';
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { completeAI } from '@/lib/ai/executor';
+import { renderPrompt } from '@/lib/ai/prompt-templates';
+import { getProvider } from '@/lib/ai/registry';
+import type { AIProvider } from '@/lib/ai/types';
 
 /**
  * Analyze document and generate adjustments based on instructions
@@ -15,9 +17,8 @@ export async function analyzeDocumentForAdjustments(
   documentPath: string,
   instructions: string,
   creativity: number,
-  provider: 'openai' | 'gemini' | 'grok',
+  provider: AIProvider,
   model: string,
-  apiKey: string,
   useGrounding: boolean = false
 ): Promise<AdjustSuggestion[]> {
   console.log('[ADJUST] Extracting document structure...');
@@ -54,7 +55,6 @@ export async function analyzeDocumentForAdjustments(
         creativity,
         provider,
         model,
-        apiKey,
         useGrounding
       );
 
@@ -75,61 +75,27 @@ async function analyzeBatch(
   sectionTitle: string,
   instructions: string,
   creativity: number,
-  provider: 'openai' | 'gemini' | 'grok',
+  provider: AIProvider,
   model: string,
-  apiKey: string,
   useGrounding: boolean = false
 ): Promise<AdjustSuggestion[]> {
 
-  const prompt = buildPrompt(paragraphs, sectionTitle, instructions, creativity);
-
-  let responseText: string;
-
-  if (provider === 'openai' || provider === 'grok') {
-    const client = new OpenAI({
-      apiKey,
-      baseURL: provider === 'grok' ? 'https://api.x.ai/v1' : undefined
-    });
-
-    const response = await client.chat.completions.create({
-      model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: creativity / 10, // Convert 0-10 to 0-1
-      response_format: { type: 'json_object' }
-    });
-
-    responseText = response.choices[0].message.content || '{}';
-
-  } else {
-    // Gemini
-    const genAI = new GoogleGenerativeAI(apiKey);
-
-    // Configure grounding if enabled
-    const modelConfig: any = {
-      model,
-      generationConfig: {
-        temperature: creativity / 10
-      }
-    };
-
-    // Add Google Search Grounding if enabled
-    if (useGrounding) {
-      console.log('[ADJUST] Using Google Search Grounding');
-      modelConfig.tools = [{
-        googleSearch: {}
-      }];
-    } else {
-      // Only set responseMimeType when NOT using tools
-      // Tool use with responseMimeType is unsupported
-      modelConfig.generationConfig.responseMimeType = 'application/json';
-    }
-
-    const geminiModel = genAI.getGenerativeModel(modelConfig);
+  const prompt = await buildPrompt(paragraphs, sectionTitle, instructions, creativity);
 
-    const result = await geminiModel.generateContent(prompt);
-    responseText = result.response.text();
+  // Grounding (busca na web) só nos provedores que o suportam
+  if (useGrounding && getProvider(provider).webSearch) {
+    console.log(`[ADJUST] Using ${provider} web search grounding`);
   }
 
+  const completion = await completeAI(provider, {
+    model,
+    prompt,
+    temperature: creativity / 10, // Convert 0-10 to 0-1
+    json: true,
+    webSearch: useGrounding
+  });
+  const responseText = completion.text || '{}';
+
   // Parse response
   try {
     // Strip markdown code blocks if present (happens with grounding)
@@ -148,7 +114,9 @@ async function analyzeBatch(
       originalText: adj.originalText || '',
       adjustedText: adj.adjustedText || '',
       reason: adj.reason || '',
-      instructionReference: adj.instructionReference || ''
+      instructionReference: adj.instructionReference || '',
+      provider: completion.provider,
+      model: completion.model
     }));
 
     return suggestions;
@@ -168,50 +136,20 @@ function buildPrompt(
   sectionTitle: string,
   instructions: string,
   creativity: number
-): string {
+): Promise<string> {
   const paragraphsText = paragraphs
     .map((p, idx) => `[${idx}] ${p.text}`)
     .join('\n\n');
 
-  return `You are an expert document editor. You have been given the following instructions by the user:
-
-INSTRUCTIONS:
-${instructions}
-
-SECTION: "${sectionTitle}"
-
-PARAGRAPHS:
-${paragraphsText}
-
-TASK:
-Analyze the paragraphs and suggest adjustments that follow the user's instructions EXACTLY AND ONLY. Do NOT suggest improvements, clarifications, or changes that are not explicitly requested in the instructions above.
-
-Creativity level: ${creativity}/10
-${creativity < 3
-  ? '(Conservative - apply instructions with minimal changes, stay as close as possible to the original text)'
-  : creativity < 7
-  ? '(Moderate - apply instructions with some flexibility in rephrasing, but ONLY make changes related to the instructions)'
-  : '(Creative - apply instructions with freedom to rephrase significantly, but ONLY make changes that fulfill the instructions)'}
-
-Return your response as JSON in this exact format:
-{
-  "adjustments": [
-    {
-      "paragraphIndex": 0,
-      "originalText": "exact original text",
-      "adjustedText": "your adjusted version that addresses the instructions",
-      "reason": "why this change was made to fulfill the instructions",
-      "instructionReference": "which part of the instructions this addresses"
-    }
-  ]
-}
-
-CRITICAL RULES:
-- ONLY make changes that directly address the user's instructions
-- Do NOT improve clarity, grammar, style, or anything else unless explicitly instructed to do so
-- Only include paragraphs that need adjustment to fulfill the instructions
-- Match the originalText EXACTLY as it appears
-- The creativity level controls HOW you apply the instructions, NOT whether to make additional improvements
-- If creativity is 0, make minimal changes (only those absolutely required by instructions)
-`;
+  return renderPrompt('adjust.section', {
+    instructions,
+    section_title: sectionTitle,
+    paragraphs: paragraphsText,
+    creativity,
+    creativity_guidance: creativity < 3
+      ? '(Conservative - apply instructions with minimal changes, stay as close as possible to the original text)'
+      : creativity < 7
+      ? '(Moderate - apply instructions with some flexibility in rephrasing, but ONLY make changes related to the instructions)'
+      : '(Creative - apply instructions with freedom to rephrase significantly, but ONLY make changes that fulfill the instructions)'
+  });
 }
@@ -3,6 +3,8 @@
  * For following custom user instructions to modify documents
  */
 
+import type { AIProvider } from '../ai/types';
+
 export interface AdjustSuggestion {
   id: string;
   paragraphIndex: number;
@@ -11,6 +13,8 @@ export interface AdjustSuggestion {
   adjustedText: string;
   reason: string; // Why this adjustment was made based on instructions
   instructionReference: string; // Which part of the instructions this addresses
+  provider?: AIProvider; // Who produced it (differs from the job's provider after a fallback)
+  model?: string;
 }
 
 export interface AdjustJobResult {
@@ -0,0 +1,239 @@
+import { db } from '../storage';
+import { currentAIScope } from './scope';
+import { sumUsageCost } from './usage';
+
+/**
+ * Orçamentos de IA por tese e por usuário
+ *
+ * O gasto vem do ledger (usage.ts): tese = tudo que rodou em capítulos dela
+ * (qualquer membro); usuário = tudo que ele disparou. Período mensal (mês UTC
+ * corrente) ou total.
+ *
+ * Ao estourar:
+ * - block: novos jobs são recusados e os em andamento param na próxima chamada de IA
+ * - pause: novos jobs são recusados; os em andamento terminam e pipelines
+ *   pausam antes da próxima operação até o orçamento ser aumentado
+ *
+ * Um orçamento só é alterado ou removido por quem o criou (created_by): um
+ * teto definido por outra pessoa não pode ser desfeito pelo próprio usuário.
+ */
+
+export type BudgetScope = 'thesis' | 'user';
+export type BudgetPeriod = 'monthly' | 'total';
+export type BudgetAction = 'block' | 'pause';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['monthly', 'total'];
+export const BUDGET_ACTIONS: BudgetAction[] = ['block', 'pause'];
+
+export type AIBudget = {
+  id: string;
+  scope: BudgetScope;
+  thesis_id: string | null;
+  user_id: string | null;
+  limit_usd: number;
+  period: BudgetPeriod;
+  on_exceed: BudgetAction;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BudgetStatus = AIBudget & {
+  spentUsd: number;
+  remainingUsd: number;
+  exceeded: boolean;
+  periodStart: string | null;
+};
+
+// A quem um job/chamada é atribuído
+export type BudgetTarget = {
+  userId?: string;
+  thesisId?: string;
+};
+
+export class BudgetError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'BudgetError';
+  }
+}
+
+export class BudgetExceededError extends Error {
+  status: number;
+  budget: BudgetStatus;
+
+  constructor(budget: BudgetStatus) {
+    super(
+      `AI budget exceeded for this ${budget.scope}: $${budget.spentUsd.toFixed(2)} of $${Number(budget.limit_usd).toFixed(2)}` +
+      (budget.period === 'monthly' ? ' this month' : '')
+    );
+    this.name = 'BudgetExceededError';
+    this.status = 402;
+    this.budget = budget;
+  }
+}
+
+/**
+ * Início do período do orçamento (ISO) ou null para "desde sempre"
+ */
+export function budgetPeriodStart(period: BudgetPeriod, now = new Date()): string | null {
+  if (period === 'total') return null;
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+export async function getBudget(scope: BudgetScope, id: string): Promise<AIBudget | null> {
+  const { data, error } = await db
+    .from('ai_budgets')
+    .select('*')
+    .eq('scope', scope)
+    .eq(scope === 'thesis' ? 'thesis_id' : 'user_id', id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load budget: ${error.message}`);
+  return data || null;
+}
+
+export async function getBudgetStatus(budget: AIBudget): Promise<BudgetStatus> {
+  const periodStart = budgetPeriodStart(budget.period);
+  const spentUsd = await sumUsageCost(
+    budget.scope === 'thesis' ? { thesisId: budget.thesis_id! } : { userId: budget.user_id! },
+    periodStart ?? undefined
+  );
+  const limit = Number(budget.limit_usd);
+
+  return {
+    ...budget,
+    spentUsd,
+    remainingUsd: Math.max(0, limit - spentUsd),
+    exceeded: spentUsd >= limit,
+    periodStart
+  };
+}
+
+/**
+ * Orçamentos que valem para o alvo (da tese e do usuário), com o gasto atual
+ */
+export async function getBudgetStatuses(target: BudgetTarget): Promise<BudgetStatus[]> {
+  const budgets = await Promise.all([
+    target.thesisId ? getBudget('thesis', target.thesisId) : null,
+    target.userId ? getBudget('user', target.userId) : null
+  ]);
+
+  return Promise.all(
+    budgets.filter((b): b is AIBudget => !!b).map(getBudgetStatus)
+  );
+}
+
+export async function findExceededBudgets(target: BudgetTarget): Promise<BudgetStatus[]> {
+  return (await getBudgetStatuses(target)).filter(b => b.exceeded);
+}
+
+/**
+ * Antes de criar um job: qualquer orçamento estourado (block ou pause) recusa
+ */
+export async function assertWithinBudget(target: BudgetTarget): Promise<void> {
+  const [exceeded] = await findExceededBudgets(target);
+  if (exceeded) throw new BudgetExceededError(exceeded);
+}
+
+// O executor verifica antes de cada chamada; o gasto é relido no máximo a cada 10s
+const STATUS_TTL_MS = 10_000;
+const statusCache = new Map<string, { statuses: BudgetStatus[]; loadedAt: number }>();
+
+/**
+ * Antes de cada chamada de IA (executor.ts): orçamento "block" estourado
+ * interrompe o job em andamento. Sem usuário/tese no escopo, não há orçamento.
+ */
+export async function enforceScopeBudgets(): Promise<void> {
+  const scope = currentAIScope();
+  if (!scope?.userId && !scope?.thesisId) return;
+
+  const key = `${scope.userId ?? ''}|${scope.thesisId ?? ''}`;
+  let cached = statusCache.get(key);
+
+  if (!cached || Date.now() - cached.loadedAt > STATUS_TTL_MS) {
+    cached = { statuses: await getBudgetStatuses(scope), loadedAt: Date.now() };
+    statusCache.set(key, cached);
+  }
+
+  const blocking = cached.statuses.find(b => b.exceeded && b.on_exceed === 'block');
+  if (blocking) {
+    console.warn(`[AI-BUDGET] Blocking ${scope.operation ?? 'AI'} call: ${blocking.scope} budget ${blocking.id} exceeded`);
+    throw new BudgetExceededError(blocking);
+  }
+}
+
+/**
+ * Só quem criou o orçamento pode alterá-lo ou removê-lo
+ */
+export function canChangeBudget(budget: AIBudget, userId: string): boolean {
+  return budget.created_by === userId;
+}
+
+export async function saveBudget(
+  scope: BudgetScope,
+  id: string,
+  input: { limitUsd: number; period?: BudgetPeriod; onExceed?: BudgetAction },
+  createdBy: string
+): Promise<AIBudget> {
+  const limitUsd = Number(input.limitUsd);
+  if (!Number.isFinite(limitUsd) || limitUsd < 0) {
+    throw new BudgetError('limitUsd must be a number >= 0');
+  }
+  if (input.period !== undefined && !BUDGET_PERIODS.includes(input.period)) {
+    throw new BudgetError(`Invalid period. Use one of: ${BUDGET_PERIODS.join(', ')}`);
+  }
+  if (input.onExceed !== undefined && !BUDGET_ACTIONS.includes(input.onExceed)) {
+    throw new BudgetError(`Invalid onExceed. Use one of: ${BUDGET_ACTIONS.join(', ')}`);
+  }
+
+  const existing = await getBudget(scope, id);
+  if (existing && !canChangeBudget(existing, createdBy)) {
+    throw new BudgetError('Only whoever set this budget can change it', 403);
+  }
+
+  const values = {
+    limit_usd: limitUsd,
+    period: input.period ?? existing?.period ?? 'monthly',
+    on_exceed: input.onExceed ?? existing?.on_exceed ?? 'block',
+    updated_at: new Date().toISOString()
+  };
+
+  const { data, error } = existing
+    ? await db.from('ai_budgets').update(values).eq('id', existing.id).select().single()
+    : await db
+        .from('ai_budgets')
+        .insert({
+          scope,
+          thesis_id: scope === 'thesis' ? id : null,
+          user_id: scope === 'user' ? id : null,
+          created_by: createdBy,
+          ...values
+        })
+        .select()
+        .single();
+
+  if (error || !data) throw new Error(`Failed to save budget: ${error?.message}`);
+
+  statusCache.clear();
+  console.log(`[AI-BUDGET] ${scope} ${id}: $${limitUsd} ${values.period} (${values.on_exceed})`);
+
+  return data;
+}
+
+export async function deleteBudget(scope: BudgetScope, id: string, userId: string): Promise<void> {
+  const existing = await getBudget(scope, id);
+  if (!existing) throw new BudgetError('Budget not found', 404);
+  if (!canChangeBudget(existing, userId)) {
+    throw new BudgetError('Only whoever set this budget can remove it', 403);
+  }
+
+  const { error } = await db
+    .from('ai_budgets')
+    .delete()
+    .eq('id', existing.id);
+
+  if (error) throw new Error(`Failed to delete budget: ${error.message}`);
+
+  statusCache.clear();
+}
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { db } from '../storage';
+import { state } from '../state';
+import { currentAIScope } from './scope';
+import type { AIOperation, AIProvider, CompletionRequest, CompletionResponse } from './types';
+
+/**
+ * Cache de respostas de IA
+ *
+ * completeAI consulta o cache antes de chamar o provedor. A chave é o hash de
+ * provedor + modelo + prompt/system normalizados + temperatura + modo de saída:
+ * reexecutar melhorias ou normas numa versão quase igual só paga pelas seções
+ * que mudaram, e o contexto global não é recalculado a cada operação.
+ *
+ * Liga/desliga, TTL e operações excluídas ficam em /settings. As respostas do
+ * chat não usam cache (só a reescrita da pergunta nas conversas, que passa por
+ * completeAI). Hits entram no ledger com custo zero (ver usage.ts).
+ */
+
+/**
+ * Diferenças só de espaços/quebras de linha não mudam a chave
+ */
+export function normalizePrompt(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function cacheKey(provider: AIProvider, request: CompletionRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      provider,
+      model: request.model,
+      system: normalizePrompt(request.system ?? ''),
+      prompt: normalizePrompt(request.prompt),
+      temperature: request.temperature ?? null,
+      maxTokens: request.maxTokens ?? null,
+      json: !!request.json,
+      webSearch: !!request.webSearch
+    }))
+    .digest('hex');
+}
+
+function cacheEnabled(): boolean {
+  if (!state.settings.cacheEnabled) return false;
+
+  const operation = currentAIScope()?.operation;
+  return !(operation && state.settings.cacheDisabledOperations.includes(operation as AIOperation));
+}
+
+/**
+ * Resposta em cache (não expirada) para a chamada, já com custo e tokens zerados
+ */
+export async function getCachedCompletion(
+  provider: AIProvider,
+  request: CompletionRequest
+): Promise<CompletionResponse | null> {
+  if (!cacheEnabled()) return null;
+
+  const startTime = Date.now();
+  const key = cacheKey(provider, request);
+
+  const { data, error } = await db
+    .from('ai_response_cache')
+    .select('response, hit_count')
+    .eq('key', key)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`[AI-CACHE] Lookup failed: ${error.message}`);
+    return null;
+  }
+  if (!data) return null;
+
+  await db
+    .from('ai_response_cache')
+    .update({ hit_count: (data.hit_count || 0) + 1, last_hit_at: new Date().toISOString() })
+    .eq('key', key);
+
+  console.log(`[AI-CACHE] Hit ${provider}/${request.model} (${key.substring(0, 12)})`);
+
+  return {
+    ...data.response,
+    latencyMs: Date.now() - startTime,
+    tokensIn: 0,
+    tokensOut: 0,
+    costEstimatedUsd: 0,
+    cached: true
+  };
+}
+
+/**
+ * Guarda a resposta do modelo pedido (respostas cortadas ou bloqueadas não entram)
+ */
+export async function storeCompletion(
+  provider: AIProvider,
+  request: CompletionRequest,
+  response: CompletionResponse
+): Promise<void> {
+  if (!cacheEnabled()) return;
+  if (response.finishReason !== 'stop' || !response.text.trim()) return;
+
+  const now = Date.now();
+  const { error } = await db
+    .from('ai_response_cache')
+    .upsert({
+      key: cacheKey(provider, request),
+      provider,
+      model: request.model,
+      operation: currentAIScope()?.operation || null,
+      response,
+      cost_usd: response.costEstimatedUsd,
+      hit_count: 0,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + state.settings.cacheTtlHours * 60 * 60 * 1000).toISOString(),
+      last_hit_at: null
+    }, { onConflict: 'key' });
+
+  if (error) {
+    console.warn(`[AI-CACHE] Failed to store ${provider}/${request.model} response: ${error.message}`);
+  }
+}
+
+/**
+ * Entradas válidas, hits e quanto os hits economizaram (custo original × hits)
+ */
+export async function getCacheStats(): Promise<{ entries: number; hits: number; savedUsd: number }> {
+  const { data, error } = await db
+    .from('ai_response_cache')
+    .select('hit_count, cost_usd')
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) throw new Error(`Failed to load cache stats: ${error.message}`);
+
+  return (data || []).reduce(
+    (stats: { entries: number; hits: number; savedUsd: number }, row: any) => ({
+      entries: stats.entries + 1,
+      hits: stats.hits + (row.hit_count || 0),
+      savedUsd: stats.savedUsd + (row.hit_count || 0) * Number(row.cost_usd || 0)
+    }),
+    { entries: 0, hits: 0, savedUsd: 0 }
+  );
+}
+
+export async function clearAICache(): Promise<void> {
+  const { error } = await db.from('ai_response_cache').delete().neq('key', '');
+  if (error) throw new Error(`Failed to clear cache: ${error.message}`);
+
+  console.log('[AI-CACHE] Cleared');
+}
@@ -1,34 +1,110 @@
-import { AIProvider, AIResponse, ChatRequest } from './types';
-import { executeOpenAI } from './openai';
-import { executeGemini } from './gemini';
-import { executeGrok } from './grok';
+import { AIProvider, AIResponse, AITarget, ChatRequest, CompletionRequest, CompletionResponse, EmbeddingRequest, EmbeddingResponse, TokenHandler } from './types';
+import { getProvider } from './registry';
+import { isTransientError, withResilience, ResilienceOptions } from './resilience';
+import { fallbackTargets } from './fallbacks';
+import { recordFallback } from './scope';
+import { enforceScopeBudgets } from './budgets';
+import { recordUsage } from './usage';
+import { getCachedCompletion, storeCompletion } from './cache';
+import { renderSystemPrompt } from './prompts';
+import { groundCitations } from './grounding';
 import { state } from '../state';
 
 export async function executeAI(
   provider: AIProvider,
   request: ChatRequest
 ): Promise<AIResponse> {
-  let apiKey = '';
-
-  switch (provider) {
-    case 'openai':
-      apiKey = state.settings.openaiKey;
-      if (!apiKey) throw new Error('OpenAI API key not configured');
-      return executeOpenAI(request, apiKey);
-
-    case 'gemini':
-      apiKey = state.settings.googleKey;
-      if (!apiKey) throw new Error('Gemini API key not configured');
-      return executeGemini(request, apiKey);
-
-    case 'grok':
-      apiKey = state.settings.xaiKey;
-      if (!apiKey) throw new Error('Grok API key not configured');
-      return executeGrok(request, apiKey);
-
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
+  await enforceScopeBudgets();
+
+  const chatRequest = { ...request, system: request.system ?? await renderSystemPrompt(request.action) };
+  const response = await withResilience(provider, () => getProvider(provider).chat(chatRequest));
+  response.citations = groundCitations(response.text, request.context);
+  await recordUsage(response);
+  return response;
+}
+
+/**
+ * Chamada genérica (prompt livre, modo JSON, busca na web) usada pelas
+ * operações de documento.
+ *
+ * Erros transitórios são repetidos com backoff (ver resilience.ts); se o
+ * modelo continuar falhando, segue a cadeia de fallback configurada para ele.
+ * A resposta traz o provedor/modelo que de fato respondeu, e o fallback fica
+ * registrado no job (ver scope.ts).
+ *
+ * Resposta em cache (cache.ts) evita a chamada e sai com custo zero. Antes
+ * de chamar valem os orçamentos do escopo (budgets.ts); depois, o custo vai
+ * para o ledger (usage.ts).
+ */
+export async function completeAI(
+  provider: AIProvider,
+  request: CompletionRequest,
+  options: Pick<ResilienceOptions, 'maxRetries'> = {}
+): Promise<CompletionResponse> {
+  const cached = await getCachedCompletion(provider, request);
+  if (cached) {
+    await recordUsage(cached);
+    return cached;
   }
+
+  await enforceScopeBudgets();
+
+  const requested: AITarget = { provider, model: request.model };
+
+  // Busca na web só faz sentido em provedores que a fazem
+  const fallbacks = fallbackTargets(state.settings.fallbackChains, requested)
+    .filter(target => !request.webSearch || getProvider(target.provider).webSearch);
+  const chain = [requested, ...fallbacks];
+
+  const failures: Array<AITarget & { error: string }> = [];
+
+  for (let i = 0; i < chain.length; i++) {
+    const target = chain[i];
+    const isLast = i === chain.length - 1;
+
+    try {
+      const response = await withResilience(
+        target.provider,
+        () => getProvider(target.provider).complete({ ...request, model: target.model }),
+        { ...options, failFast: !isLast }
+      );
+
+      if (i > 0) recordFallback({ requested, usedBy: target, failures });
+      await recordUsage(response);
+      // Só a resposta do modelo pedido vai para o cache
+      if (i === 0) await storeCompletion(provider, request, response);
+      return response;
+    } catch (error: any) {
+      if (isLast || !isTransientError(error)) throw error;
+
+      failures.push({ ...target, error: error.message });
+      console.warn(`[AI-FALLBACK] ${target.provider}/${target.model} failed: ${error.message}`);
+    }
+  }
+
+  throw new Error(`No provider available for ${provider}/${request.model}`);
+}
+
+/**
+ * Embeddings pelo provedor registrado, com as mesmas credenciais, retry e
+ * circuit breaker das demais chamadas. Sem cadeia de fallback: os vetores
+ * são persistidos por (provider, model) e não se misturam com os de outro modelo.
+ *
+ * Como as demais chamadas, respeita os orçamentos do escopo e vai para o
+ * ledger (só tokens de entrada).
+ */
+export async function embedAI(
+  provider: AIProvider,
+  request: EmbeddingRequest
+): Promise<EmbeddingResponse> {
+  const client = getProvider(provider);
+  if (!client.embed) throw new Error(`Provider ${provider} does not support embeddings`);
+
+  await enforceScopeBudgets();
+
+  const response = await withResilience(provider, () => client.embed!(request));
+  await recordUsage({ ...response, tokensOut: 0 });
+  return response;
 }
 
 export async function executeMultipleAI(
@@ -54,10 +130,84 @@ export async function executeMultipleAI(
         latencyMs: 0,
         tokensIn: 0,
         tokensOut: 0,
-        costEstimatedUsd: 0
+        costEstimatedUsd: 0,
+        error: error.message
       } as AIResponse;
     }
   });
 
   return Promise.all(promises);
 }
+
+/**
+ * Streaming com retry apenas enquanto nenhum token foi repassado
+ * (depois disso, repetir duplicaria texto na tela)
+ */
+export async function streamAI(
+  provider: AIProvider,
+  request: ChatRequest,
+  onToken: TokenHandler
+): Promise<AIResponse> {
+  await enforceScopeBudgets();
+
+  const chatRequest = { ...request, system: request.system ?? await renderSystemPrompt(request.action) };
+  let streamed = false;
+
+  const response = await withResilience(
+    provider,
+    () => getProvider(provider).stream(chatRequest, (delta) => {
+      streamed = true;
+      onToken(delta);
+    }),
+    { canRetry: () => !streamed }
+  );
+
+  response.citations = groundCitations(response.text, request.context);
+  await recordUsage(response);
+  return response;
+}
+
+/**
+ * Como executeMultipleAI, mas com os provedores em paralelo repassando tokens
+ * conforme chegam. onDone recebe a resposta final de cada provedor (ou o erro).
+ */
+export async function streamMultipleAI(
+  providers: AIProvider[],
+  models: Partial<Record<AIProvider, string>>,
+  baseRequest: Omit<ChatRequest, 'model'>,
+  handlers: {
+    onToken: (provider: AIProvider, delta: string) => void;
+    onDone: (answer: AIResponse) => void;
+  }
+): Promise<AIResponse[]> {
+  const promises = providers.map(async (provider) => {
+    const model = models[provider];
+    let answer: AIResponse;
+
+    try {
+      if (!model) {
+        throw new Error(`No model specified for provider: ${provider}`);
+      }
+
+      answer = await streamAI(provider, { ...baseRequest, model }, (delta) => handlers.onToken(provider, delta));
+    } catch (error: any) {
+      // Retorna erro como resposta
+      answer = {
+        provider,
+        model: model || '',
+        text: `❌ Erro: ${error.message}`,
+        citations: [],
+        latencyMs: 0,
+        tokensIn: 0,
+        tokensOut: 0,
+        costEstimatedUsd: 0,
+        error: error.message
+      };
+    }
+
+    handlers.onDone(answer);
+    return answer;
+  });
+
+  return Promise.all(promises);
+}
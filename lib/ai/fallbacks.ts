@@ -0,0 +1,62 @@
+import type { AIProvider, AITarget } from './types';
+
+/**
+ * Cadeias de fallback: "gemini:gemini-2.5-flash > openai:gpt-4o-mini > local:llama3.1:8b"
+ * O primeiro passo é o modelo principal; os seguintes são tentados em ordem
+ * quando ele falha com erro transitório (429, 5xx, circuito aberto).
+ * Várias cadeias separadas por linha ou ';' (em /settings ou AI_FALLBACK_CHAINS).
+ */
+
+const PROVIDERS: AIProvider[] = ['openai', 'gemini', 'grok', 'local', 'mock'];
+
+export class FallbackChainError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'FallbackChainError';
+    this.status = status;
+  }
+}
+
+function parseTarget(step: string): AITarget {
+  // Só o primeiro ':' separa: modelos locais costumam ter ':' no nome (llama3.1:8b)
+  const separator = step.indexOf(':');
+  const provider = step.substring(0, separator).trim() as AIProvider;
+  const model = step.substring(separator + 1).trim();
+
+  if (separator === -1 || !model) {
+    throw new FallbackChainError(`Invalid fallback step "${step}". Use provider:model`);
+  }
+  if (!PROVIDERS.includes(provider)) {
+    throw new FallbackChainError(`Invalid provider "${provider}" in fallback chain. Use one of: ${PROVIDERS.join(', ')}`);
+  }
+
+  return { provider, model };
+}
+
+export function parseFallbackChains(text: string): AITarget[][] {
+  return text
+    .split(/[\n;]/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const chain = line.split('>').map(step => parseTarget(step.trim()));
+      if (chain.length < 2) {
+        throw new FallbackChainError(`Fallback chain "${line}" needs at least two steps`);
+      }
+      return chain;
+    });
+}
+
+export function formatFallbackChains(chains: AITarget[][]): string {
+  return chains.map(chain => chain.map(t => `${t.provider}:${t.model}`).join(' > ')).join('\n');
+}
+
+/**
+ * Modelos a tentar depois de `primary`, na ordem da primeira cadeia que começa nele
+ */
+export function fallbackTargets(chains: AITarget[][], primary: AITarget): AITarget[] {
+  const chain = chains.find(c => c[0].provider === primary.provider && c[0].model === primary.model);
+  return chain ? chain.slice(1) : [];
+}
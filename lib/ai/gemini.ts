@@ -1,8 +1,27 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { ChatRequest, AIResponse } from './types';
+import { FinishReason, GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  ChatRequest,
+  AIResponse,
+  TokenHandler,
+  CompletionRequest,
+  CompletionResponse,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  ProviderDefinition
+} from './types';
 import { buildSystemPrompt, buildUserPrompt, extractCitations } from './prompts';
+import { estimateCostUsd, modelPricing } from './pricing';
+import { providerError } from './resilience';
 import { state } from '../state';
 
+// Turnos anteriores da conversa (o Gemini chama o assistente de "model")
+function historyContents(request: ChatRequest) {
+  return (request.history ?? []).map(turn => ({
+    role: turn.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: turn.content }]
+  }));
+}
+
 export async function executeGemini(
   request: ChatRequest,
   apiKey: string
@@ -12,55 +31,253 @@ export async function executeGemini(
   const genAI = new GoogleGenerativeAI(apiKey);
   const model = genAI.getGenerativeModel({ model: request.model });
 
-  const systemPrompt = buildSystemPrompt(request.action);
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
   const userPrompt = buildUserPrompt(request.question, request.context);
 
   const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
 
-  let attempts = 0;
-  const maxAttempts = 2;
-
-  while (attempts < maxAttempts) {
-    try {
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: fullPrompt }] }],
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 2000
-        }
-      });
+  try {
+    const result = await model.generateContent({
+      contents: [...historyContents(request), { role: 'user', parts: [{ text: fullPrompt }] }],
+      generationConfig: {
+        temperature: 0.3,
+        maxOutputTokens: 2000
+      }
+    });
+
+    const latencyMs = Date.now() - startTime;
+    const response = result.response;
+    const text = response.text();
+
+    // Estimativa de tokens
+    const tokensIn = Math.round(fullPrompt.length / 4);
+    const tokensOut = Math.round(text.length / 4);
+
+    const costEstimatedUsd = estimateCostUsd(modelPricing(request.model), tokensIn, tokensOut);
+
+    const citations = extractCitations(text);
+
+    return {
+      provider: 'gemini',
+      model: request.model,
+      text,
+      citations,
+      latencyMs,
+      tokensIn,
+      tokensOut,
+      costEstimatedUsd
+    };
+  } catch (error: any) {
+    throw providerError('Gemini', error);
+  }
+}
+
+/**
+ * Mesma chamada em modo streaming: repassa os tokens conforme chegam e
+ * retorna a resposta completa (com uso de tokens e custo) no final.
+ * Retry (só antes do primeiro token) fica em streamAI (executor.ts).
+ */
+export async function streamGemini(
+  request: ChatRequest,
+  apiKey: string,
+  onToken: TokenHandler
+): Promise<AIResponse> {
+  const startTime = Date.now();
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: request.model });
+
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
+  const userPrompt = buildUserPrompt(request.question, request.context);
+
+  const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
+
+  let text = '';
+
+  try {
+    const result = await model.generateContentStream({
+      contents: [...historyContents(request), { role: 'user', parts: [{ text: fullPrompt }] }],
+      generationConfig: {
+        temperature: 0.3,
+        maxOutputTokens: 2000
+      }
+    });
 
-      const latencyMs = Date.now() - startTime;
-      const response = result.response;
-      const text = response.text();
-
-      // Estimativa de tokens
-      const tokensIn = Math.round(fullPrompt.length / 4);
-      const tokensOut = Math.round(text.length / 4);
-
-      const pricing = state.settings.pricesUSD[request.model] ?? { in: 0, out: 0 };
-      const costEstimatedUsd = (tokensIn / 1000) * pricing.in + (tokensOut / 1000) * pricing.out;
-
-      const citations = extractCitations(text);
-
-      return {
-        provider: 'gemini',
-        model: request.model,
-        text,
-        citations,
-        latencyMs,
-        tokensIn,
-        tokensOut,
-        costEstimatedUsd
-      };
-    } catch (error: any) {
-      attempts++;
-      if (attempts >= maxAttempts) {
-        throw new Error(`Gemini error: ${error.message}`);
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        onToken(delta);
       }
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
+
+    const response = await result.response;
+    const latencyMs = Date.now() - startTime;
+
+    // Uso real quando o Gemini informa; senão, estimativa
+    const tokensIn = response.usageMetadata?.promptTokenCount ?? Math.round(fullPrompt.length / 4);
+    const tokensOut = response.usageMetadata?.candidatesTokenCount ?? Math.round(text.length / 4);
+
+    const costEstimatedUsd = estimateCostUsd(modelPricing(request.model), tokensIn, tokensOut);
+
+    return {
+      provider: 'gemini',
+      model: request.model,
+      text,
+      citations: extractCitations(text),
+      latencyMs,
+      tokensIn,
+      tokensOut,
+      costEstimatedUsd
+    };
+  } catch (error: any) {
+    throw providerError('Gemini', error);
   }
+}
 
-  throw new Error('Gemini execution failed after retries');
+// Modelos conhecidos que funcionam (quando a listagem falha)
+const KNOWN_GEMINI_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.5-pro',
+  'gemini-2.0-flash'
+];
+
+/**
+ * Chamada genérica. Com webSearch usa Google Search (grounding), que não
+ * aceita responseMimeType - o JSON fica a cargo do prompt.
+ */
+export async function completeGemini(
+  request: CompletionRequest,
+  apiKey: string
+): Promise<CompletionResponse> {
+  const startTime = Date.now();
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const geminiModel = genAI.getGenerativeModel({
+    model: request.model,
+    systemInstruction: request.system,
+    generationConfig: {
+      temperature: request.temperature ?? 0.3,
+      maxOutputTokens: request.maxTokens,
+      responseMimeType: request.json && !request.webSearch ? 'application/json' : undefined
+    },
+    // googleSearch ainda não está nos tipos do SDK
+    tools: request.webSearch ? [{ googleSearch: {} } as any] : undefined
+  });
+
+  const result = await geminiModel.generateContent(request.prompt);
+  const response = result.response;
+
+  // STOP = ok, MAX_TOKENS = cortado; o resto (SAFETY, RECITATION...) = bloqueado
+  const reason = response.candidates?.[0]?.finishReason;
+  const blocked = !!response.promptFeedback?.blockReason ||
+    (!!reason && reason !== FinishReason.STOP && reason !== FinishReason.MAX_TOKENS);
+  const finishReason = blocked ? 'blocked' : reason === FinishReason.MAX_TOKENS ? 'length' : 'stop';
+
+  const text = finishReason === 'blocked' ? '' : response.text().trim();
+  const tokensIn = response.usageMetadata?.promptTokenCount ?? Math.round(request.prompt.length / 4);
+  const tokensOut = response.usageMetadata?.candidatesTokenCount ?? Math.round(text.length / 4);
+
+  return {
+    provider: 'gemini',
+    model: request.model,
+    text,
+    finishReason,
+    latencyMs: Date.now() - startTime,
+    tokensIn,
+    tokensOut,
+    costEstimatedUsd: estimateCostUsd(modelPricing(request.model), tokensIn, tokensOut)
+  };
 }
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * batchEmbedContents não informa tokens: a estimativa é pelo tamanho do texto
+ */
+export async function embedGemini(
+  request: EmbeddingRequest,
+  apiKey: string
+): Promise<EmbeddingResponse> {
+  const startTime = Date.now();
+
+  const embeddingModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: request.model });
+
+  try {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < request.texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const result = await embeddingModel.batchEmbedContents({
+        requests: request.texts.slice(i, i + EMBEDDING_BATCH_SIZE).map(text => ({
+          content: { role: 'user', parts: [{ text }] }
+        }))
+      });
+
+      vectors.push(...result.embeddings.map(embedding => embedding.values));
+    }
+
+    const tokensIn = Math.round(request.texts.join('').length / 4);
+
+    return {
+      provider: 'gemini',
+      model: request.model,
+      vectors,
+      latencyMs: Date.now() - startTime,
+      tokensIn,
+      costEstimatedUsd: estimateCostUsd(modelPricing(request.model), tokensIn, 0)
+    };
+  } catch (error: any) {
+    throw providerError('Gemini', error);
+  }
+}
+
+export async function listGeminiModels(apiKey: string): Promise<string[]> {
+  try {
+    // Fazer requisição direta à API do Gemini para listar modelos
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`
+    );
+
+    // Se falhar, retornar modelos conhecidos que funcionam
+    if (!response.ok) return KNOWN_GEMINI_MODELS;
+
+    const data = await response.json();
+
+    // Filtrar apenas modelos que suportam generateContent
+    const models = data.models
+      ?.filter((m: any) =>
+        m.supportedGenerationMethods?.includes('generateContent') &&
+        m.name.includes('gemini') &&
+        !m.name.includes('embedding') &&
+        !m.name.includes('image-generation') &&
+        !m.name.includes('robotics') &&
+        !m.name.includes('computer-use')
+      )
+      .map((m: any) => m.name.replace('models/', ''))
+      .sort() || [];
+
+    return models.length > 0 ? models : KNOWN_GEMINI_MODELS;
+  } catch (error: any) {
+    // Retornar modelos conhecidos em caso de erro
+    return KNOWN_GEMINI_MODELS;
+  }
+}
+
+function googleKey(): string {
+  const apiKey = state.settings.googleKey;
+  if (!apiKey) throw new Error('Gemini API key not configured');
+  return apiKey;
+}
+
+export const geminiProvider: ProviderDefinition = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  webSearch: true,
+  isConfigured: () => !!state.settings.googleKey,
+  chat: (request) => executeGemini(request, googleKey()),
+  stream: (request, onToken) => streamGemini(request, googleKey(), onToken),
+  complete: (request) => completeGemini(request, googleKey()),
+  embed: (request) => embedGemini(request, googleKey()),
+  listModels: () => listGeminiModels(googleKey()),
+  pricing: modelPricing
+};
@@ -1,8 +1,14 @@
-import { ChatRequest, AIResponse } from './types';
-import { buildSystemPrompt, buildUserPrompt, extractCitations } from './prompts';
+import OpenAI from 'openai';
+import { ChatRequest, AIResponse, TokenHandler, ProviderDefinition } from './types';
+import { buildChatMessages, buildSystemPrompt, buildUserPrompt, extractCitations } from './prompts';
+import { completeWithOpenAIClient } from './openai';
+import { estimateCostUsd, modelPricing } from './pricing';
+import { AIProviderError, providerError, retryAfterMs } from './resilience';
 import { state } from '../state';
+import { readSSE } from '../sse';
 
-const GROK_API_URL = 'https://api.x.ai/v1/chat/completions';
+const GROK_BASE_URL = 'https://api.x.ai/v1';
+const GROK_API_URL = `${GROK_BASE_URL}/chat/completions`;
 
 export async function executeGrok(
   request: ChatRequest,
@@ -10,65 +16,182 @@ export async function executeGrok(
 ): Promise<AIResponse> {
   const startTime = Date.now();
 
-  const systemPrompt = buildSystemPrompt(request.action);
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
   const userPrompt = buildUserPrompt(request.question, request.context);
 
-  let attempts = 0;
-  const maxAttempts = 2;
-
-  while (attempts < maxAttempts) {
-    try {
-      const response = await fetch(GROK_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: request.model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.3,
-          max_tokens: 2000
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Grok API error: ${response.status} ${response.statusText}`);
-      }
+  try {
+    const response = await fetch(GROK_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: buildChatMessages(systemPrompt, userPrompt, request.history),
+        temperature: 0.3,
+        max_tokens: 2000
+      })
+    });
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        `Grok API error: ${response.status} ${response.statusText}`,
+        response.status,
+        retryAfterMs({ headers: response.headers })
+      );
+    }
+
+    const data = await response.json();
+    const latencyMs = Date.now() - startTime;
+
+    const text = data.choices?.[0]?.message?.content ?? '';
+    const tokensIn = data.usage?.prompt_tokens ?? Math.round(userPrompt.length / 4);
+    const tokensOut = data.usage?.completion_tokens ?? Math.round(text.length / 4);
+
+    const costEstimatedUsd = estimateCostUsd(modelPricing(request.model), tokensIn, tokensOut);
+
+    const citations = extractCitations(text);
 
-      const data = await response.json();
-      const latencyMs = Date.now() - startTime;
+    return {
+      provider: 'grok',
+      model: request.model,
+      text,
+      citations,
+      latencyMs,
+      tokensIn,
+      tokensOut,
+      costEstimatedUsd
+    };
+  } catch (error: any) {
+    throw providerError('Grok', error);
+  }
+}
 
-      const text = data.choices?.[0]?.message?.content ?? '';
-      const tokensIn = data.usage?.prompt_tokens ?? Math.round(userPrompt.length / 4);
-      const tokensOut = data.usage?.completion_tokens ?? Math.round(text.length / 4);
+/**
+ * Mesma chamada em modo streaming (SSE compatível com a OpenAI): repassa os
+ * tokens conforme chegam e retorna a resposta completa no final.
+ * Retry (só antes do primeiro token) fica em streamAI (executor.ts).
+ */
+export async function streamGrok(
+  request: ChatRequest,
+  apiKey: string,
+  onToken: TokenHandler
+): Promise<AIResponse> {
+  const startTime = Date.now();
 
-      const pricing = state.settings.pricesUSD[request.model] ?? { in: 0, out: 0 };
-      const costEstimatedUsd = (tokensIn / 1000) * pricing.in + (tokensOut / 1000) * pricing.out;
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
+  const userPrompt = buildUserPrompt(request.question, request.context);
 
-      const citations = extractCitations(text);
+  let text = '';
 
-      return {
-        provider: 'grok',
+  try {
+    const response = await fetch(GROK_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
         model: request.model,
-        text,
-        citations,
-        latencyMs,
-        tokensIn,
-        tokensOut,
-        costEstimatedUsd
-      };
-    } catch (error: any) {
-      attempts++;
-      if (attempts >= maxAttempts) {
-        throw new Error(`Grok error: ${error.message}`);
-      }
-      await new Promise(resolve => setTimeout(resolve, 1000));
+        messages: buildChatMessages(systemPrompt, userPrompt, request.history),
+        temperature: 0.3,
+        max_tokens: 2000,
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+    });
+
+    if (!response.ok || !response.body) {
+      throw new AIProviderError(
+        `Grok API error: ${response.status} ${response.statusText}`,
+        response.status,
+        retryAfterMs({ headers: response.headers })
+      );
     }
+
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+    await readSSE(response, ({ data }) => {
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      if (chunk.usage) usage = chunk.usage;
+    });
+
+    const latencyMs = Date.now() - startTime;
+    const tokensIn = usage?.prompt_tokens ?? Math.round(userPrompt.length / 4);
+    const tokensOut = usage?.completion_tokens ?? Math.round(text.length / 4);
+
+    const costEstimatedUsd = estimateCostUsd(modelPricing(request.model), tokensIn, tokensOut);
+
+    return {
+      provider: 'grok',
+      model: request.model,
+      text,
+      citations: extractCitations(text),
+      latencyMs,
+      tokensIn,
+      tokensOut,
+      costEstimatedUsd
+    };
+  } catch (error: any) {
+    throw providerError('Grok', error);
+  }
+}
+
+// Modelos conhecidos (quando a listagem falha)
+const KNOWN_GROK_MODELS = [
+  'grok-2-1212',
+  'grok-2-vision-1212'
+];
+
+export async function listGrokModels(apiKey: string): Promise<string[]> {
+  try {
+    const response = await fetch(`${GROK_BASE_URL}/models`, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Se falhar, retornar modelos conhecidos
+    if (!response.ok) return KNOWN_GROK_MODELS;
+
+    const data = await response.json();
+    const models = data.data?.map((m: any) => m.id) || [];
+
+    return models.length > 0 ? models : KNOWN_GROK_MODELS;
+  } catch (error: any) {
+    // Retornar modelos conhecidos em caso de erro
+    return KNOWN_GROK_MODELS;
   }
+}
 
-  throw new Error('Grok execution failed after retries');
+function xaiKey(): string {
+  const apiKey = state.settings.xaiKey;
+  if (!apiKey) throw new Error('Grok API key not configured');
+  return apiKey;
 }
+
+export const grokProvider: ProviderDefinition = {
+  id: 'grok',
+  label: 'xAI Grok',
+  webSearch: false,
+  isConfigured: () => !!state.settings.xaiKey,
+  chat: (request) => executeGrok(request, xaiKey()),
+  stream: (request, onToken) => streamGrok(request, xaiKey(), onToken),
+  // A API da xAI é compatível com a da OpenAI
+  complete: (request) => completeWithOpenAIClient(
+    new OpenAI({ apiKey: xaiKey(), baseURL: GROK_BASE_URL }),
+    'grok',
+    request,
+    modelPricing(request.model)
+  ),
+  listModels: () => listGrokModels(xaiKey()),
+  pricing: modelPricing
+};
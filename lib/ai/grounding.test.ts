@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { groundCitations, isGrounded, matchScore, normalizeForMatch } from './grounding';
+import type { Chunk } from '../state';
+
+const context: Chunk[] = [
+  { ix: 0, pageFrom: 3, pageTo: 3, text: 'A pesquisa coletou dados em escolas públicas de três estados brasileiros.' },
+  {
+    ix: 1,
+    pageFrom: 7,
+    pageTo: 8,
+    text: 'Os resultados indicam desigualdades persistentes no acesso à educação básica.',
+    source: { chunkId: 'chunk-1', chapterId: 'chapter-1', chapterVersionId: 'version-1' }
+  }
+];
+
+describe('normalizeForMatch / matchScore', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(normalizeForMatch('Educação, Básica!')).toBe('educacao basica');
+    expect(matchScore('desigualdades persistentes', 'Há desigualdades  persistentes.')).toBe(1);
+    expect(matchScore('desigualdades persistentes no acesso', 'desigualdades persistentes na renda')).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('groundCitations', () => {
+  it('verifies a claim against the chunk on the cited page and links its source', () => {
+    const [citation] = groundCitations(
+      'Os resultados mostram desigualdades persistentes no acesso à educação [página: 7].',
+      context
+    );
+
+    expect(citation).toMatchObject({
+      page: 7,
+      span: '§7',
+      status: 'verified',
+      chunkIx: 1,
+      chunkId: 'chunk-1',
+      chapterVersionId: 'version-1'
+    });
+    expect(isGrounded(citation)).toBe(true);
+  });
+
+  it('checks quoted text with the stricter quote match', () => {
+    const [quoted, misquoted] = groundCitations(
+      'Segundo o texto, "coletou dados em escolas públicas" [página: 3]. ' +
+      'E também "mediu a renda das famílias em cada cidade" [página: 3].',
+      context
+    );
+
+    expect(quoted).toMatchObject({ status: 'verified', quote: 'coletou dados em escolas públicas' });
+    expect(misquoted.status).toBe('unsupported');
+    expect(isGrounded(misquoted)).toBe(false);
+  });
+
+  it('detects text that comes from another page', () => {
+    const [citation] = groundCitations(
+      'A pesquisa coletou dados em escolas públicas de três estados [página: 8].',
+      context
+    );
+
+    expect(citation).toMatchObject({ status: 'wrong_page', chunkIx: 0 });
+  });
+
+  it('accepts page ranges, §N markers and short claims by page only', () => {
+    const [range, short, missing] = groundCitations(
+      'Resultados [página: 7-8, §1]. Ver dados [página: 3]. Algo sobre metodologia qualitativa aprofundada [página: 42].',
+      context
+    );
+
+    expect(range).toMatchObject({ span: '§7-§8', status: 'page_only', chunkIx: 1 });
+    expect(short.status).toBe('page_only');
+    expect(missing).toMatchObject({ page: 42, status: 'unsupported' });
+  });
+});
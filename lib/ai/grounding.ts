@@ -0,0 +1,180 @@
+import type { Chunk } from '../state';
+import type { Citation } from './types';
+
+/**
+ * Verificação das citações do chat
+ *
+ * Cada marcador [página: X] (ou [página: X-Y, §N]) da resposta é conferido
+ * contra os trechos que de fato foram enviados ao modelo: a página precisa
+ * estar num trecho e o texto da frase (ou a citação entre aspas, se houver)
+ * precisa aparecer nele. A comparação é aproximada (palavras sem acento e
+ * pontuação), para aceitar pequenas diferenças de transcrição. A citação
+ * volta com o status, o trecho de origem (chunkIx e, no chat de capítulos,
+ * chunkId/versão) e a frase que ela sustenta.
+ */
+
+export const CITATION_PATTERN = /\[p[aá]gina:?\s*(\d+)(?:\s*-\s*(\d+))?(?:\s*,\s*§\s*(\d+))?\]/gi;
+
+// Parte do texto que precisa estar no trecho para contar como verificado
+const QUOTE_MATCH = 0.6;
+const CLAIM_MATCH = 0.5;
+
+// Frases curtas demais não são comparadas (só a página conta)
+const MIN_CLAIM_WORDS = 3;
+
+/**
+ * Texto comparável: minúsculas, sem acentos e sem pontuação
+ */
+export function normalizeForMatch(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function words(text: string, minLength = 1): string[] {
+  return normalizeForMatch(text).split(' ').filter(word => word.length >= minLength);
+}
+
+/**
+ * Quanto de `needle` aparece em `haystack` (0-1): pares de palavras
+ * consecutivas encontrados, ou palavras quando só há uma
+ */
+export function matchScore(needle: string, haystack: string): number {
+  const needleWords = words(needle);
+  if (needleWords.length === 0) return 0;
+
+  const haystackWords = words(haystack);
+  if (needleWords.length === 1) return haystackWords.includes(needleWords[0]) ? 1 : 0;
+
+  const pairs = (list: string[]) => list.slice(1).map((word, i) => `${list[i]} ${word}`);
+  const haystackPairs = new Set(pairs(haystackWords));
+  const needlePairs = pairs(needleWords);
+
+  return needlePairs.filter(pair => haystackPairs.has(pair)).length / needlePairs.length;
+}
+
+// Palavras de conteúdo da frase que precisam estar no trecho
+function claimScore(claim: string, text: string): number {
+  const claimWords = Array.from(new Set(words(claim, 4)));
+  if (claimWords.length === 0) return 0;
+
+  const textWords = new Set(words(text));
+  return claimWords.filter(word => textWords.has(word)).length / claimWords.length;
+}
+
+/**
+ * Frase que termina no marcador (desde o fim da frase anterior ou da linha),
+ * sem os demais marcadores
+ */
+function claimBefore(text: string, markerIndex: number): string {
+  const before = text.substring(0, markerIndex);
+  const boundary = Math.max(
+    before.lastIndexOf('\n'),
+    ...['. ', '! ', '? '].map(end => before.lastIndexOf(end))
+  );
+
+  return before
+    .substring(boundary + 1)
+    .replace(CITATION_PATTERN, '')
+    .replace(/^[\s\-*•>#]+|^\d+[.)]\s+/g, '')
+    .trim();
+}
+
+function quoteIn(claim: string): string | undefined {
+  const match = claim.match(/["“”«]([^"“”«»]{8,})["“”»]/);
+  return match && words(match[1]).length >= MIN_CLAIM_WORDS ? match[1].trim() : undefined;
+}
+
+function best(chunks: Chunk[], score: (chunk: Chunk) => number): { chunk?: Chunk; score: number } {
+  let result: { chunk?: Chunk; score: number } = { score: 0 };
+  for (const chunk of chunks) {
+    const value = score(chunk);
+    if (!result.chunk || value > result.score) result = { chunk, score: value };
+  }
+  return result;
+}
+
+function withSource(citation: Citation, chunk: Chunk | undefined): Citation {
+  if (!chunk) return citation;
+  return {
+    ...citation,
+    chunkIx: chunk.ix,
+    chunkId: chunk.source?.chunkId,
+    chapterId: chunk.source?.chapterId,
+    chapterVersionId: chunk.source?.chapterVersionId
+  };
+}
+
+function verify(
+  marker: { pageFrom: number; pageTo: number; chunkIx?: number },
+  claim: string,
+  context: Chunk[]
+): Pick<Citation, 'status' | 'quote' | 'score'> & { chunk?: Chunk } {
+  const quote = quoteIn(claim);
+  const textToFind = quote || claim;
+  const score = (chunk: Chunk) => quote ? matchScore(quote, chunk.text) : claimScore(claim, chunk.text);
+  const threshold = quote ? QUOTE_MATCH : CLAIM_MATCH;
+  const comparable = words(textToFind).length >= MIN_CLAIM_WORDS;
+
+  // §N aponta o trecho exato (se ele cobre a página); sem ele, os trechos que cobrem a página
+  const onPage = context.filter(chunk => chunk.pageFrom <= marker.pageTo && chunk.pageTo >= marker.pageFrom);
+  const byIx = onPage.find(chunk => chunk.ix === marker.chunkIx);
+  const candidates = byIx ? [byIx] : onPage;
+
+  const cited = best(candidates, score);
+
+  if (cited.chunk && (!comparable || cited.score >= threshold)) {
+    return { status: comparable ? 'verified' : 'page_only', quote, score: comparable ? cited.score : undefined, chunk: cited.chunk };
+  }
+
+  // O texto pode estar em outro trecho (página errada)
+  if (comparable) {
+    const elsewhere = best(context.filter(chunk => !candidates.includes(chunk)), score);
+    if (elsewhere.chunk && elsewhere.score >= threshold) {
+      return { status: 'wrong_page', quote, score: elsewhere.score, chunk: elsewhere.chunk };
+    }
+  }
+
+  // Página sem trecho, ou frase que não aparece em nenhum trecho (o trecho da página fica como referência)
+  return { status: 'unsupported', quote, score: cited.chunk ? cited.score : undefined, chunk: cited.chunk };
+}
+
+/**
+ * Citações da resposta, verificadas contra os trechos enviados ao modelo
+ */
+export function groundCitations(text: string, context: Chunk[]): Citation[] {
+  const citations: Citation[] = [];
+
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    const pageFrom = parseInt(match[1]);
+    const pageTo = match[2] ? parseInt(match[2]) : pageFrom;
+    const chunkIx = match[3] !== undefined ? parseInt(match[3]) : undefined;
+    const claim = claimBefore(text, match.index!);
+
+    const { chunk, ...verification } = verify({ pageFrom, pageTo, chunkIx }, claim, context);
+
+    citations.push(withSource({
+      page: pageFrom,
+      span: pageTo !== pageFrom ? `§${pageFrom}-§${pageTo}` : `§${pageFrom}`,
+      claim: claim || undefined,
+      ...verification
+    }, chunk));
+  }
+
+  const unsupported = citations.filter(c => c.status === 'unsupported' || c.status === 'wrong_page').length;
+  if (unsupported > 0) {
+    console.warn(`[GROUNDING] ${unsupported}/${citations.length} citations not supported by the context`);
+  }
+
+  return citations;
+}
+
+/**
+ * Citação apoiada pelos trechos: verificada, ou com a página nos trechos quando não há o que conferir
+ */
+export function isGrounded(citation: Citation): boolean {
+  return citation.status === 'verified' || citation.status === 'page_only';
+}
@@ -0,0 +1,341 @@
+import { db } from '../storage';
+import type { Chunk } from '../state';
+import { completeAI } from './executor';
+import { renderPrompt } from './prompt-templates';
+import { CITATION_PATTERN, groundCitations, isGrounded } from './grounding';
+import { formatContext } from './prompts';
+import { listProviders } from './registry';
+import type { AIProvider, AIResponse, AITarget, Citation } from './types';
+
+/**
+ * Modo juiz do chat
+ *
+ * Depois das respostas dos provedores, um modelo escolhido (o juiz) recebe a
+ * pergunta, os trechos e as respostas identificadas só por letra, e devolve
+ * uma resposta consolidada, as afirmações em que elas divergem e uma nota de
+ * 1 a 5 para cada uma. Citações da síntese que não se sustentam nos trechos
+ * recuperados (ver grounding.ts) são descartadas. Cada julgamento fica em chat_judgments
+ * (notas em chat_judgment_ratings) para comparar os modelos ao longo do tempo.
+ */
+
+export type JudgeRating = {
+  provider: AIProvider;
+  model: string;
+  score: number; // 1 a 5
+  rationale: string;
+  unsupportedCitations: number; // Citações da resposta fora dos trechos recuperados
+};
+
+export type JudgeDisagreement = {
+  claim: string;
+  positions: Array<{ provider: AIProvider; model: string; position: string }>;
+};
+
+export type JudgmentResult = {
+  id?: string; // Depois de gravado
+  judge: AITarget;
+  synthesis: string;
+  citations: Citation[];
+  droppedCitations: number; // Citações da síntese descartadas (fora dos trechos)
+  disagreements: JudgeDisagreement[];
+  ratings: JudgeRating[];
+  latencyMs: number;
+  tokensIn: number;
+  tokensOut: number;
+  costEstimatedUsd: number;
+};
+
+export type JudgeLeaderboardEntry = {
+  provider: AIProvider;
+  model: string;
+  judged: number;
+  avgScore: number;
+  wins: number; // Julgamentos em que teve a maior nota (empates contam para todos)
+};
+
+export type JudgmentSummary = {
+  id: string;
+  question: string;
+  judge: AITarget;
+  disagreements: number;
+  ratings: Array<{ provider: AIProvider; model: string; score: number }>;
+  createdAt: string;
+};
+
+export class JudgeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'JudgeError';
+  }
+}
+
+const LETTERS = 'ABCDEFGHIJ';
+
+/**
+ * Valida o juiz pedido no chat ({ provider, model })
+ */
+export function parseJudgeTarget(input: unknown): AITarget | undefined {
+  if (input === undefined || input === null) return undefined;
+
+  const { provider, model } = (input || {}) as Partial<AITarget>;
+  const providers = listProviders().map(p => p.id);
+
+  if (typeof provider !== 'string' || !providers.includes(provider)) {
+    throw new JudgeError(`Invalid judge provider. Use one of: ${providers.join(', ')}`);
+  }
+  if (typeof model !== 'string' || !model.trim()) {
+    throw new JudgeError('Judge model is required');
+  }
+
+  return { provider, model: model.trim() };
+}
+
+/**
+ * Remove do texto as citações [página: X] que não se sustentam nos trechos
+ */
+function dropUnsupportedCitations(text: string, context: Chunk[]): { text: string; dropped: number } {
+  const citations = groundCitations(text, context);
+  let index = 0;
+  let dropped = 0;
+
+  const cleaned = text.replace(new RegExp(`\\s?${CITATION_PATTERN.source}`, CITATION_PATTERN.flags), (match) => {
+    if (isGrounded(citations[index++])) return match;
+    dropped++;
+    return '';
+  });
+  return { text: cleaned, dropped };
+}
+
+function clampScore(value: unknown): number {
+  const score = Math.round(Number(value));
+  return Number.isFinite(score) ? Math.min(Math.max(score, 1), 5) : 1;
+}
+
+/**
+ * Julga as respostas que não falharam; exige pelo menos uma
+ */
+export async function judgeAnswers(input: {
+  question: string;
+  context: Chunk[];
+  answers: AIResponse[];
+  judge: AITarget;
+}): Promise<JudgmentResult> {
+  const answers = input.answers.filter(answer => !answer.error).slice(0, LETTERS.length);
+  if (answers.length === 0) throw new JudgeError('No answers to judge');
+
+  const byLetter = new Map(answers.map((answer, i) => [LETTERS[i], answer]));
+  const answersText = answers
+    .map((answer, i) => `RESPOSTA ${LETTERS[i]}:\n${answer.text}`)
+    .join('\n\n---\n\n');
+
+  const completion = await completeAI(input.judge.provider, {
+    model: input.judge.model,
+    prompt: await renderPrompt('chat.judge', {
+      question: input.question,
+      context: formatContext(input.context),
+      answers: answersText
+    }),
+    temperature: 0.2,
+    json: true
+  });
+
+  const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : completion.text);
+  } catch (error: any) {
+    console.error('[JUDGE] Invalid JSON from judge:', completion.text.substring(0, 200));
+    throw new JudgeError(`Judge returned invalid JSON: ${error.message}`, 502);
+  }
+
+  const synthesis = dropUnsupportedCitations(String(parsed.synthesis || ''), input.context);
+  if (!synthesis.text.trim()) throw new JudgeError('Judge returned an empty synthesis', 502);
+
+  const ratedLetters = new Map<string, any>(
+    (Array.isArray(parsed.ratings) ? parsed.ratings : [])
+      .map((rating: any) => [String(rating?.answer || '').trim().toUpperCase(), rating])
+  );
+
+  // Toda resposta julgada recebe nota (a que o juiz esqueceu fica com 1)
+  const ratings: JudgeRating[] = Array.from(byLetter.entries()).map(([letter, answer]) => {
+    const rating = ratedLetters.get(letter);
+    return {
+      provider: answer.provider,
+      model: answer.model,
+      score: clampScore(rating?.score),
+      rationale: String(rating?.rationale || (rating ? '' : 'Sem nota do juiz')),
+      unsupportedCitations: answer.citations.filter(citation => !isGrounded(citation)).length
+    };
+  });
+
+  const disagreements: JudgeDisagreement[] = (Array.isArray(parsed.disagreements) ? parsed.disagreements : [])
+    .filter((d: any) => d?.claim)
+    .map((d: any) => ({
+      claim: String(d.claim),
+      positions: (Array.isArray(d.positions) ? d.positions : [])
+        .filter((p: any) => byLetter.has(String(p?.answer || '').trim().toUpperCase()))
+        .map((p: any) => {
+          const answer = byLetter.get(String(p.answer).trim().toUpperCase())!;
+          return { provider: answer.provider, model: answer.model, position: String(p.position || '') };
+        })
+    }));
+
+  console.log(
+    `[JUDGE] ${input.judge.provider}/${input.judge.model} rated ${ratings.map(r => `${r.provider}=${r.score}`).join(', ')}` +
+    (synthesis.dropped > 0 ? ` (dropped ${synthesis.dropped} citations)` : '')
+  );
+
+  return {
+    judge: { provider: completion.provider, model: completion.model },
+    synthesis: synthesis.text.trim(),
+    citations: groundCitations(synthesis.text, input.context),
+    droppedCitations: synthesis.dropped,
+    disagreements,
+    ratings,
+    latencyMs: completion.latencyMs,
+    tokensIn: completion.tokensIn,
+    tokensOut: completion.tokensOut,
+    costEstimatedUsd: completion.costEstimatedUsd
+  };
+}
+
+/**
+ * Grava o julgamento e as notas; devolve o id
+ */
+export async function saveJudgment(
+  judgment: JudgmentResult,
+  context: {
+    question: string;
+    userId: string;
+    thesisId?: string;
+    documentId?: string;
+    conversationId?: string;
+  }
+): Promise<string> {
+  const { data, error } = await db
+    .from('chat_judgments')
+    .insert({
+      user_id: context.userId,
+      thesis_id: context.thesisId || null,
+      document_id: context.documentId || null,
+      conversation_id: context.conversationId || null,
+      question: context.question,
+      judge_provider: judgment.judge.provider,
+      judge_model: judgment.judge.model,
+      synthesis: judgment.synthesis,
+      citations: judgment.citations,
+      dropped_citations: judgment.droppedCitations,
+      disagreements: judgment.disagreements,
+      tokens_in: judgment.tokensIn,
+      tokens_out: judgment.tokensOut,
+      cost_usd: judgment.costEstimatedUsd
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) throw new Error(`Failed to save judgment: ${error?.message}`);
+
+  const { error: ratingsError } = await db.from('chat_judgment_ratings').insert(
+    judgment.ratings.map(rating => ({
+      judgment_id: data.id,
+      provider: rating.provider,
+      model: rating.model,
+      score: rating.score,
+      rationale: rating.rationale,
+      unsupported_citations: rating.unsupportedCitations
+    }))
+  );
+
+  if (ratingsError) throw new Error(`Failed to save judgment ratings: ${ratingsError.message}`);
+
+  return data.id;
+}
+
+async function loadJudgments(filter: { userId?: string; thesisId?: string }, since?: string): Promise<any[]> {
+  let query = db.from('chat_judgments').select('*');
+
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.thesisId) query = query.eq('thesis_id', filter.thesisId);
+  if (since) query = query.gte('created_at', since);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load judgments: ${error.message}`);
+
+  return data || [];
+}
+
+/**
+ * Julgamentos recentes e nota média de cada provedor/modelo julgado
+ */
+export async function getJudgeLeaderboard(
+  filter: { userId?: string; thesisId?: string },
+  since?: string
+): Promise<{ leaderboard: JudgeLeaderboardEntry[]; recent: JudgmentSummary[]; total: number }> {
+  const judgments = await loadJudgments(filter, since);
+  if (judgments.length === 0) return { leaderboard: [], recent: [], total: 0 };
+
+  const { data: ratings, error } = await db
+    .from('chat_judgment_ratings')
+    .select('judgment_id, provider, model, score')
+    .in('judgment_id', judgments.map(j => j.id));
+
+  if (error) throw new Error(`Failed to load judgment ratings: ${error.message}`);
+
+  const bestScore = new Map<string, number>();
+  for (const rating of ratings || []) {
+    bestScore.set(rating.judgment_id, Math.max(bestScore.get(rating.judgment_id) || 0, rating.score));
+  }
+
+  const entries = new Map<string, JudgeLeaderboardEntry & { totalScore: number }>();
+  for (const rating of ratings || []) {
+    const key = `${rating.provider}:${rating.model}`;
+    if (!entries.has(key)) {
+      entries.set(key, { provider: rating.provider, model: rating.model, judged: 0, avgScore: 0, wins: 0, totalScore: 0 });
+    }
+    const entry = entries.get(key)!;
+    entry.judged++;
+    entry.totalScore += rating.score;
+    if (rating.score === bestScore.get(rating.judgment_id)) entry.wins++;
+  }
+
+  const leaderboard = Array.from(entries.values())
+    .map(({ totalScore, ...entry }) => ({ ...entry, avgScore: totalScore / entry.judged }))
+    .sort((a, b) => b.avgScore - a.avgScore || b.judged - a.judged);
+
+  const recent: JudgmentSummary[] = judgments.slice(0, 20).map(judgment => ({
+    id: judgment.id,
+    question: judgment.question,
+    judge: { provider: judgment.judge_provider, model: judgment.judge_model },
+    disagreements: (judgment.disagreements || []).length,
+    ratings: (ratings || [])
+      .filter((rating: any) => rating.judgment_id === judgment.id)
+      .map((rating: any) => ({ provider: rating.provider, model: rating.model, score: rating.score })),
+    createdAt: judgment.created_at
+  }));
+
+  return { leaderboard, recent, total: judgments.length };
+}
+
+/**
+ * Julga e grava; usado pelas rotas do chat. Falha do juiz não derruba as
+ * respostas já geradas: volta como `error`.
+ */
+export async function judgeAndRecord(input: {
+  question: string;
+  context: Chunk[];
+  answers: AIResponse[];
+  judge: AITarget;
+  userId: string;
+  thesisId?: string;
+  documentId?: string;
+  conversationId?: string;
+}): Promise<{ judgment: JudgmentResult | null; error?: string }> {
+  try {
+    const judgment = await judgeAnswers(input);
+    judgment.id = await saveJudgment(judgment, input);
+    return { judgment };
+  } catch (error: any) {
+    console.error(`[JUDGE] ${input.judge.provider}/${input.judge.model} failed:`, error.message);
+    return { judgment: null, error: error.message };
+  }
+}
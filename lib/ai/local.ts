@@ -0,0 +1,127 @@
+import OpenAI from 'openai';
+import { ChatRequest, AIResponse, TokenHandler, ProviderDefinition } from './types';
+import { buildChatMessages, buildSystemPrompt, buildUserPrompt, extractCitations } from './prompts';
+import { completeWithOpenAIClient } from './openai';
+import { providerError } from './resilience';
+import { state } from '../state';
+
+/**
+ * Provedor local: qualquer servidor compatível com a API da OpenAI
+ * (Ollama, llama.cpp server, vLLM, LM Studio...) na rede da universidade.
+ * Nada sai da máquina/rede configurada e o custo é sempre zero.
+ */
+
+/**
+ * Cliente OpenAI apontando para o servidor local (ex.: http://localhost:11434/v1)
+ */
+export function createLocalClient(): OpenAI {
+  const baseURL = state.settings.localBaseUrl;
+  if (!baseURL) throw new Error('Local AI base URL not configured');
+
+  // O SDK exige uma chave; servidores locais normalmente ignoram
+  return new OpenAI({ apiKey: state.settings.localApiKey || 'local', baseURL });
+}
+
+export async function listLocalModels(): Promise<string[]> {
+  try {
+    const models = await createLocalClient().models.list();
+    return models.data.map(m => m.id).sort();
+  } catch (error: any) {
+    throw new Error(`Local: ${error.message}`);
+  }
+}
+
+export async function executeLocal(request: ChatRequest): Promise<AIResponse> {
+  const startTime = Date.now();
+
+  const client = createLocalClient();
+
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
+  const userPrompt = buildUserPrompt(request.question, request.context);
+
+  try {
+    const response = await client.chat.completions.create({
+      model: request.model,
+      messages: buildChatMessages(systemPrompt, userPrompt, request.history),
+      temperature: 0.3,
+      max_tokens: 2000
+    });
+
+    const latencyMs = Date.now() - startTime;
+    const text = response.choices[0]?.message?.content ?? '';
+
+    return {
+      provider: 'local',
+      model: request.model,
+      text,
+      citations: extractCitations(text),
+      latencyMs,
+      tokensIn: response.usage?.prompt_tokens ?? Math.round(userPrompt.length / 4),
+      tokensOut: response.usage?.completion_tokens ?? Math.round(text.length / 4),
+      costEstimatedUsd: 0
+    };
+  } catch (error: any) {
+    throw providerError('Local', error);
+  }
+}
+
+/**
+ * Streaming. Não pede stream_options (nem todo servidor local aceita);
+ * usa o uso informado no último chunk quando houver, senão estima.
+ */
+export async function streamLocal(request: ChatRequest, onToken: TokenHandler): Promise<AIResponse> {
+  const startTime = Date.now();
+
+  const client = createLocalClient();
+
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
+  const userPrompt = buildUserPrompt(request.question, request.context);
+
+  try {
+    const stream = await client.chat.completions.create({
+      model: request.model,
+      messages: buildChatMessages(systemPrompt, userPrompt, request.history),
+      temperature: 0.3,
+      max_tokens: 2000,
+      stream: true
+    });
+
+    let text = '';
+    let usage: OpenAI.CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      if (chunk.usage) usage = chunk.usage;
+    }
+
+    return {
+      provider: 'local',
+      model: request.model,
+      text,
+      citations: extractCitations(text),
+      latencyMs: Date.now() - startTime,
+      tokensIn: usage?.prompt_tokens ?? Math.round(userPrompt.length / 4),
+      tokensOut: usage?.completion_tokens ?? Math.round(text.length / 4),
+      costEstimatedUsd: 0
+    };
+  } catch (error: any) {
+    throw providerError('Local', error);
+  }
+}
+
+const FREE = { in: 0, out: 0 };
+
+export const localProvider: ProviderDefinition = {
+  id: 'local',
+  label: 'Servidor Local',
+  webSearch: false,
+  isConfigured: () => !!state.settings.localBaseUrl,
+  chat: executeLocal,
+  stream: streamLocal,
+  complete: (request) => completeWithOpenAIClient(createLocalClient(), 'local', request, FREE),
+  listModels: listLocalModels,
+  pricing: () => FREE
+};
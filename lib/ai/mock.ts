@@ -0,0 +1,422 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import {
+  ChatRequest,
+  AIResponse,
+  TokenHandler,
+  ProviderDefinition,
+  CompletionRequest,
+  CompletionResponse
+} from './types';
+import { buildSystemPrompt, buildUserPrompt, extractCitations } from './prompts';
+import { state } from '../state';
+import bundledFixtures from './mock-fixtures.json';
+
+/**
+ * Provedor simulado (mock): respostas determinísticas, sem rede e sem chave,
+ * para demonstrações e testes ponta a ponta (PipelineEngine, chapter-operations).
+ *
+ * Ordem de resolução de cada chamada:
+ * 1. Fixture registrada para o hash do prompt (mockPromptHash)
+ * 2. Resposta gerada a partir do próprio prompt, no formato JSON que cada
+ *    operação espera (melhorias, ajustes, adaptação, normas, tradução...)
+ * 3. Texto genérico
+ *
+ * Fixtures: lib/ai/mock-fixtures.json, o arquivo apontado por MOCK_AI_FIXTURES
+ * ({ "<hash>": "resposta" | {...} }) e registerMockFixture() em testes.
+ */
+
+export const MOCK_MODELS = ['mock-1'];
+
+const FREE = { in: 0, out: 0 };
+
+type FixtureValue = string | Record<string, unknown>;
+
+const runtimeFixtures = new Map<string, string>();
+let fileFixtures: Record<string, FixtureValue> | null = null;
+
+/**
+ * Hash usado como chave das fixtures (system + prompt; o modelo não entra)
+ */
+export function mockPromptHash(prompt: string, system?: string): string {
+  return createHash('sha256').update(`${system ?? ''}\n${prompt}`).digest('hex').substring(0, 16);
+}
+
+/**
+ * Registra uma resposta fixa para um prompt (ou para um hash já calculado)
+ */
+export function registerMockFixture(
+  key: { prompt: string; system?: string } | string,
+  response: FixtureValue
+): string {
+  const hash = typeof key === 'string' ? key : mockPromptHash(key.prompt, key.system);
+  runtimeFixtures.set(hash, toText(response));
+  return hash;
+}
+
+export function clearMockFixtures(): void {
+  runtimeFixtures.clear();
+  fileFixtures = null;
+}
+
+function toText(value: FixtureValue): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function loadFileFixtures(): Record<string, FixtureValue> {
+  if (fileFixtures) return fileFixtures;
+
+  fileFixtures = { ...(bundledFixtures as Record<string, FixtureValue>) };
+
+  const path = process.env.MOCK_AI_FIXTURES;
+  if (path && existsSync(path)) {
+    try {
+      Object.assign(fileFixtures, JSON.parse(readFileSync(path, 'utf-8')));
+    } catch (error: any) {
+      console.warn(`[MOCK-AI] Could not read fixtures from ${path}: ${error.message}`);
+    }
+  }
+
+  return fileFixtures;
+}
+
+function findFixture(hash: string): string | undefined {
+  const runtime = runtimeFixtures.get(hash);
+  if (runtime !== undefined) return runtime;
+
+  const fromFile = loadFileFixtures()[hash];
+  return fromFile !== undefined ? toText(fromFile) : undefined;
+}
+
+function ensureEnabled(): void {
+  if (!state.settings.mockEnabled) {
+    throw new Error('Mock AI provider disabled (enable it in /settings or set MOCK_AI=true)');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Leitura dos prompts das operações
+// ---------------------------------------------------------------------------
+
+/**
+ * Trecho do prompt entre dois marcadores (ou até o fim)
+ */
+function between(prompt: string, start: string, end?: string): string {
+  const from = prompt.indexOf(start);
+  if (from === -1) return '';
+  const rest = prompt.substring(from + start.length);
+  const to = end ? rest.indexOf(end) : -1;
+  return (to === -1 ? rest : rest.substring(0, to)).trim();
+}
+
+/**
+ * Parágrafos no formato "[N] texto" separados por linha em branco
+ */
+function numberedParagraphs(block: string): Array<{ index: number; text: string }> {
+  return block
+    .split(/\n\n(?=\[\d+\] )/)
+    .map(part => part.match(/^\[(\d+)\] ([\s\S]*)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => ({ index: parseInt(match[1], 10), text: match[2].trim() }));
+}
+
+/**
+ * Primeira frase com pelo menos 30 caracteres (exigência do analisador de melhorias)
+ */
+function firstSentence(text: string): string {
+  const sentence = text.match(/^[\s\S]*?[.!?](?=\s|$)/)?.[0] ?? text;
+  return sentence.length >= 30 ? sentence : text;
+}
+
+function rewrite(text: string): string {
+  return `[mock] ${text.replace(/\s+/g, ' ').trim()}`;
+}
+
+/**
+ * Um parágrafo a cada três, para que nem todo parágrafo receba sugestão
+ */
+function pick<T>(items: T[]): T[] {
+  return items.filter((_, i) => i % 3 === 0);
+}
+
+const NORM_PATTERNS: Array<{ type: string; pattern: RegExp }> = [
+  { type: 'lei', pattern: /\b(?:Lei|Ley)(?:\s+Federal)?(?:\s+n[º°o.]*)?\s+(\d[\d.]*\/\d{2,4})/gi },
+  { type: 'decreto', pattern: /\b(?:Real\s+)?Decreto(?:\s+n[º°o.]*)?\s+(\d[\d.]*\/\d{2,4})/gi },
+  { type: 'portaria', pattern: /\bPortaria(?:\s+n[º°o.]*)?\s+(\d[\d.]*\/\d{2,4})/gi },
+  { type: 'resolucao', pattern: /\bResolu(?:ção|ción)(?:\s+n[º°o.]*)?\s+(\d[\d.]*\/\d{2,4})/gi },
+  { type: 'abnt', pattern: /\b(?:ABNT\s+)?(NBR\s+(?:ISO\s+)?\d[\d.]*(?::\d{4})?)/g },
+  { type: 'iso', pattern: /(?<!NBR\s)\b(ISO(?:\/IEC)?\s+\d[\d.]*(?::\d{4})?)/g }
+];
+
+function detectNorms(prompt: string) {
+  const paragraphs = numberedParagraphs(between(prompt, 'TEXTO PARA ANÁLISE:\n---', '\n---'));
+  const references: Array<Record<string, unknown>> = [];
+
+  for (const paragraph of paragraphs) {
+    for (const { type, pattern } of NORM_PATTERNS) {
+      for (const match of Array.from(paragraph.text.matchAll(pattern))) {
+        const at = match.index ?? 0;
+        references.push({
+          type,
+          number: match[1],
+          fullText: match[0],
+          paragraphIndex: paragraph.index,
+          context: paragraph.text.substring(Math.max(0, at - 40), at + match[0].length + 40)
+        });
+      }
+    }
+  }
+
+  return { references };
+}
+
+/**
+ * Status derivado do número da norma: a mesma norma sempre recebe o mesmo resultado
+ */
+function verifyNorm(prompt: string) {
+  const type = between(prompt, 'Tipo:', '\n');
+  const number = between(prompt, 'Número:', '\n');
+  const fullText = between(prompt, 'Texto:', '\n');
+  const isPaid = type === 'abnt' || type === 'iso';
+  const bucket = parseInt(mockPromptHash(number).substring(0, 2), 16) % 3;
+
+  if (bucket === 0) {
+    return { status: 'vigente', updateType: 'none', isPaid, confidence: 0.9 };
+  }
+
+  const status = bucket === 1 ? 'alterada' : 'revogada';
+  return {
+    status,
+    updatedNumber: `${number} (redação atualizada)`,
+    updatedDate: '2024-01-01',
+    updateDescription: `Norma ${status} (resposta simulada)`,
+    updateType: isPaid ? 'manual' : 'auto',
+    sourceUrl: 'https://example.org/mock-norma',
+    isPaid,
+    suggestedText: isPaid ? undefined : `${fullText} (${status})`,
+    confidence: 0.8
+  };
+}
+
+function globalContext(prompt: string) {
+  const chapters = between(prompt, 'CAPÍTULOS E TRECHOS:', '\nRetorne APENAS')
+    .split('\n')
+    .map(line => line.match(/^\d+\. (.+)$/)?.[1])
+    .filter((title): title is string => !!title);
+
+  return {
+    theme: 'Documento de demonstração (resposta simulada)',
+    objective: 'Exercitar o sistema sem chamar provedores reais',
+    type: 'tese',
+    chapterSummaries: chapters.map(title => ({ title, summary: `Resumo simulado de "${title}".` }))
+  };
+}
+
+function targetLanguage(prompt: string, pattern: RegExp): string {
+  return (prompt.match(pattern)?.[1] ?? 'xx').trim().toLowerCase();
+}
+
+/**
+ * Resposta no formato esperado pelo prompt de cada operação
+ */
+function respondTo(prompt: string): string | null {
+  if (prompt.includes('"adjustments": [')) {
+    const paragraphs = numberedParagraphs(between(prompt, 'PARAGRAPHS:', '\n\nTASK:'));
+    return JSON.stringify({
+      adjustments: pick(paragraphs).map(p => ({
+        paragraphIndex: p.index,
+        originalText: p.text,
+        adjustedText: rewrite(p.text),
+        reason: 'Ajuste simulado',
+        instructionReference: between(prompt, 'INSTRUCTIONS:', '\n\nSECTION:').substring(0, 80)
+      }))
+    });
+  }
+
+  if (prompt.includes('"edits"')) {
+    // Edição pelo chat: reescreve a primeira frase do primeiro parágrafo que não é título
+    const paragraph = numberedParagraphs(between(prompt, 'PARÁGRAFOS:')).find(p => !p.text.startsWith('## '));
+    const originalText = paragraph && firstSentence(paragraph.text);
+    return JSON.stringify({
+      message: paragraph ? 'Edição simulada (mock)' : 'Nenhum parágrafo para editar',
+      edits: paragraph
+        ? [{ paragraphIndex: paragraph.index, originalText, improvedText: rewrite(originalText!), reason: 'Edição simulada', type: 'style', confidence: 0.9 }]
+        : []
+    });
+  }
+
+  if (prompt.includes('"improvedText"')) {
+    const paragraphs = between(prompt, 'TEXTO PARA ANÁLISE:\n---', '\n---\n').split('\n\n');
+    return JSON.stringify({
+      suggestions: pick(paragraphs.map((text, index) => ({ text, index })))
+        .filter(p => p.text.trim().length >= 30)
+        .map(p => {
+          const originalText = firstSentence(p.text.trim());
+          return {
+            paragraphIndex: p.index,
+            originalText,
+            improvedText: rewrite(originalText),
+            reason: 'Sugestão simulada',
+            type: 'clarity',
+            confidence: 0.9
+          };
+        })
+    });
+  }
+
+  if (prompt.includes('"adaptedText"')) {
+    const paragraphs = numberedParagraphs(between(prompt, 'Paragraphs to analyze:', '\n\nRespond with'));
+    return JSON.stringify({
+      suggestions: pick(paragraphs).map(p => ({
+        originalText: p.text,
+        adaptedText: rewrite(p.text),
+        reason: 'Adaptação simulada',
+        adaptationType: 'style'
+      }))
+    });
+  }
+
+  if (prompt.includes('"translatedText"')) {
+    const language = targetLanguage(prompt, / to ([^\s.]+)\./);
+    const paragraphs = numberedParagraphs(between(prompt, 'Paragraphs to translate:', '\n\nRespond with'));
+    return JSON.stringify({
+      translations: paragraphs.map(p => ({
+        originalText: p.text,
+        translatedText: `[${language}] ${p.text}`
+      }))
+    });
+  }
+
+  if (prompt.includes('"references": [')) return JSON.stringify(detectNorms(prompt));
+  if (prompt.includes('"updateType"')) return JSON.stringify(verifyNorm(prompt));
+  if (prompt.includes('"chapterSummaries"')) return JSON.stringify(globalContext(prompt));
+
+  if (prompt.includes('"synthesis"')) {
+    // Juiz do chat: notas decrescentes (A = 5) e citação da primeira página dos trechos
+    const letters = Array.from(prompt.matchAll(/^RESPOSTA ([A-Z]):$/gm), match => match[1]);
+    const page = prompt.match(/\[Página: (\d+)/)?.[1];
+    return JSON.stringify({
+      synthesis: `Síntese simulada (mock) de ${letters.length} respostas.${page ? ` [página: ${page}]` : ''}`,
+      disagreements: letters.length > 1
+        ? [{
+            claim: 'Divergência simulada',
+            positions: letters.slice(0, 2).map(answer => ({ answer, position: `Posição da resposta ${answer}` }))
+          }]
+        : [],
+      ratings: letters.map((answer, i) => ({ answer, score: Math.max(5 - i, 1), rationale: 'Nota simulada' }))
+    });
+  }
+
+  if (prompt.includes('ÚLTIMA PERGUNTA:')) {
+    // Reescrita da pergunta do chat: pergunta atual + última pergunta do histórico
+    const lastQuestion = between(prompt, 'HISTÓRICO:', '\n\nÚLTIMA PERGUNTA:')
+      .split('\n')
+      .filter(line => line.startsWith('Usuário: '))
+      .pop()
+      ?.substring('Usuário: '.length);
+    const question = between(prompt, 'ÚLTIMA PERGUNTA:', '\n\nRetorne');
+    return lastQuestion ? `${question} (${lastQuestion})` : question;
+  }
+
+  if (prompt.includes('ORIGINAL TEXT (')) {
+    // Tradução direta: devolve o texto (com os placeholders intactos) marcado com o idioma
+    const language = targetLanguage(prompt, /TARGET LANGUAGE: (\S+)/);
+    return `[${language}] ${between(between(prompt, 'ORIGINAL TEXT ('), '---\n', '\n---')}`;
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Provedor
+// ---------------------------------------------------------------------------
+
+function estimateTokens(text: string): number {
+  return Math.round(text.length / 4);
+}
+
+export async function completeMock(request: CompletionRequest): Promise<CompletionResponse> {
+  ensureEnabled();
+  const startTime = Date.now();
+
+  const hash = mockPromptHash(request.prompt, request.system);
+  let text = findFixture(hash);
+
+  if (text === undefined) {
+    text = respondTo(request.prompt) ?? (request.json ? '{}' : 'Resposta simulada (mock).');
+    console.log(`[MOCK-AI] No fixture for ${hash}; generated fallback response`);
+  }
+
+  return {
+    provider: 'mock',
+    model: request.model,
+    text,
+    finishReason: 'stop',
+    latencyMs: Date.now() - startTime,
+    tokensIn: estimateTokens(`${request.system ?? ''}${request.prompt}`),
+    tokensOut: estimateTokens(text),
+    costEstimatedUsd: 0
+  };
+}
+
+/**
+ * Chat: cita as páginas dos primeiros trechos do contexto, como um provedor real faria
+ */
+function chatAnswer(request: ChatRequest): string {
+  const sources = request.context.slice(0, 3).map(chunk => {
+    const excerpt = chunk.text.replace(/\s+/g, ' ').trim().substring(0, 160);
+    return `- "${excerpt}" [página: ${chunk.pageFrom}, §${chunk.ix}]`;
+  });
+
+  const turns = request.history?.length ?? 0;
+
+  return [
+    `Resposta simulada (mock) para: "${request.question}"` + (turns > 0 ? ` (com ${turns} mensagens anteriores da conversa)` : ''),
+    sources.length > 0 ? `\nTrechos mais relevantes:\n${sources.join('\n')}` : '\nNenhum trecho do documento foi enviado como contexto.'
+  ].join('\n');
+}
+
+export async function executeMock(request: ChatRequest): Promise<AIResponse> {
+  ensureEnabled();
+  const startTime = Date.now();
+
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
+  const userPrompt = buildUserPrompt(request.question, request.context);
+  const text = findFixture(mockPromptHash(userPrompt, systemPrompt)) ?? chatAnswer(request);
+
+  return {
+    provider: 'mock',
+    model: request.model,
+    text,
+    citations: extractCitations(text),
+    latencyMs: Date.now() - startTime,
+    tokensIn: estimateTokens(systemPrompt + (request.history ?? []).map(turn => turn.content).join('') + userPrompt),
+    tokensOut: estimateTokens(text),
+    costEstimatedUsd: 0
+  };
+}
+
+/**
+ * Streaming: mesma resposta do chat, entregue palavra por palavra
+ */
+export async function streamMock(request: ChatRequest, onToken: TokenHandler): Promise<AIResponse> {
+  const response = await executeMock(request);
+
+  for (const delta of response.text.match(/\S+\s*|\s+/g) ?? []) {
+    onToken(delta);
+  }
+
+  return response;
+}
+
+export const mockProvider: ProviderDefinition = {
+  id: 'mock',
+  label: 'Simulado (offline)',
+  webSearch: false,
+  isConfigured: () => state.settings.mockEnabled,
+  chat: executeMock,
+  stream: streamMock,
+  complete: completeMock,
+  listModels: async () => MOCK_MODELS,
+  pricing: () => FREE
+};
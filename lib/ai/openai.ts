@@ -1,6 +1,19 @@
 import OpenAI from 'openai';
-import { ChatRequest, AIResponse } from './types';
-import { buildSystemPrompt, buildUserPrompt, extractCitations } from './prompts';
+import {
+  ChatRequest,
+  AIProvider,
+  AIResponse,
+  TokenHandler,
+  CompletionRequest,
+  CompletionResponse,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  ModelPricing,
+  ProviderDefinition
+} from './types';
+import { buildChatMessages, buildSystemPrompt, buildUserPrompt, extractCitations } from './prompts';
+import { estimateCostUsd, modelPricing } from './pricing';
+import { providerError } from './resilience';
 import { state } from '../state';
 
 export async function executeOpenAI(
@@ -11,52 +24,216 @@ export async function executeOpenAI(
 
   const openai = new OpenAI({ apiKey });
 
-  const systemPrompt = buildSystemPrompt(request.action);
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
   const userPrompt = buildUserPrompt(request.question, request.context);
 
-  let attempts = 0;
-  const maxAttempts = 2;
-
-  while (attempts < maxAttempts) {
-    try {
-      const response = await openai.chat.completions.create({
-        model: request.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000
-      });
-
-      const latencyMs = Date.now() - startTime;
-      const text = response.choices[0]?.message?.content ?? '';
-      const tokensIn = response.usage?.prompt_tokens ?? Math.round(userPrompt.length / 4);
-      const tokensOut = response.usage?.completion_tokens ?? Math.round(text.length / 4);
-
-      const pricing = state.settings.pricesUSD[request.model] ?? { in: 0, out: 0 };
-      const costEstimatedUsd = (tokensIn / 1000) * pricing.in + (tokensOut / 1000) * pricing.out;
-
-      const citations = extractCitations(text);
-
-      return {
-        provider: 'openai',
-        model: request.model,
-        text,
-        citations,
-        latencyMs,
-        tokensIn,
-        tokensOut,
-        costEstimatedUsd
-      };
-    } catch (error: any) {
-      attempts++;
-      if (attempts >= maxAttempts) {
-        throw new Error(`OpenAI error: ${error.message}`);
+  try {
+    const response = await openai.chat.completions.create({
+      model: request.model,
+      messages: buildChatMessages(systemPrompt, userPrompt, request.history),
+      temperature: 0.3,
+      max_tokens: 2000
+    });
+
+    const latencyMs = Date.now() - startTime;
+    const text = response.choices[0]?.message?.content ?? '';
+    const tokensIn = response.usage?.prompt_tokens ?? Math.round(userPrompt.length / 4);
+    const tokensOut = response.usage?.completion_tokens ?? Math.round(text.length / 4);
+
+    const costEstimatedUsd = estimateCostUsd(modelPricing(request.model), tokensIn, tokensOut);
+
+    const citations = extractCitations(text);
+
+    return {
+      provider: 'openai',
+      model: request.model,
+      text,
+      citations,
+      latencyMs,
+      tokensIn,
+      tokensOut,
+      costEstimatedUsd
+    };
+  } catch (error: any) {
+    throw providerError('OpenAI', error);
+  }
+}
+
+/**
+ * Mesma chamada em modo streaming: repassa os tokens conforme chegam e
+ * retorna a resposta completa (com uso de tokens e custo) no final.
+ * Retry (só antes do primeiro token) fica em streamAI (executor.ts).
+ */
+export async function streamOpenAI(
+  request: ChatRequest,
+  apiKey: string,
+  onToken: TokenHandler
+): Promise<AIResponse> {
+  const startTime = Date.now();
+
+  const openai = new OpenAI({ apiKey });
+
+  const systemPrompt = request.system ?? buildSystemPrompt(request.action);
+  const userPrompt = buildUserPrompt(request.question, request.context);
+
+  let text = '';
+
+  try {
+    const stream = await openai.chat.completions.create({
+      model: request.model,
+      messages: buildChatMessages(systemPrompt, userPrompt, request.history),
+      temperature: 0.3,
+      max_tokens: 2000,
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    let usage: OpenAI.CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
       }
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (chunk.usage) usage = chunk.usage;
     }
+
+    const latencyMs = Date.now() - startTime;
+    const tokensIn = usage?.prompt_tokens ?? Math.round(userPrompt.length / 4);
+    const tokensOut = usage?.completion_tokens ?? Math.round(text.length / 4);
+
+    const costEstimatedUsd = estimateCostUsd(modelPricing(request.model), tokensIn, tokensOut);
+
+    return {
+      provider: 'openai',
+      model: request.model,
+      text,
+      citations: extractCitations(text),
+      latencyMs,
+      tokensIn,
+      tokensOut,
+      costEstimatedUsd
+    };
+  } catch (error: any) {
+    throw providerError('OpenAI', error);
   }
+}
+
+/**
+ * Chamada genérica em qualquer API compatível com a OpenAI (OpenAI, xAI, servidor local)
+ */
+export async function completeWithOpenAIClient(
+  client: OpenAI,
+  provider: AIProvider,
+  request: CompletionRequest,
+  pricing: ModelPricing
+): Promise<CompletionResponse> {
+  const startTime = Date.now();
+
+  const messages: OpenAI.ChatCompletionMessageParam[] = [];
+  if (request.system) messages.push({ role: 'system', content: request.system });
+  messages.push({ role: 'user', content: request.prompt });
 
-  throw new Error('OpenAI execution failed after retries');
+  const response = await client.chat.completions.create({
+    model: request.model,
+    messages,
+    temperature: request.temperature ?? 0.3,
+    max_tokens: request.maxTokens,
+    response_format: request.json ? { type: 'json_object' } : undefined
+  });
+
+  const choice = response.choices[0];
+  const text = choice?.message?.content?.trim() ?? '';
+  const tokensIn = response.usage?.prompt_tokens ?? Math.round(request.prompt.length / 4);
+  const tokensOut = response.usage?.completion_tokens ?? Math.round(text.length / 4);
+
+  return {
+    provider,
+    model: request.model,
+    text,
+    finishReason: choice?.finish_reason === 'length'
+      ? 'length'
+      : choice?.finish_reason === 'content_filter' ? 'blocked' : 'stop',
+    latencyMs: Date.now() - startTime,
+    tokensIn,
+    tokensOut,
+    costEstimatedUsd: estimateCostUsd(pricing, tokensIn, tokensOut)
+  };
+}
+
+export async function listOpenAIModels(apiKey: string): Promise<string[]> {
+  try {
+    const openai = new OpenAI({ apiKey });
+    const models = await openai.models.list();
+
+    // Filtrar apenas modelos GPT úteis para chat
+    const gptModels = models.data
+      .filter(m =>
+        m.id.startsWith('gpt-') &&
+        !m.id.includes('instruct') &&
+        !m.id.includes('vision')
+      )
+      .map(m => m.id)
+      .sort();
+
+    return gptModels;
+  } catch (error: any) {
+    throw new Error(`OpenAI: ${error.message}`);
+  }
 }
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+export async function embedOpenAI(
+  request: EmbeddingRequest,
+  apiKey: string
+): Promise<EmbeddingResponse> {
+  const startTime = Date.now();
+
+  const openai = new OpenAI({ apiKey });
+
+  try {
+    const vectors: number[][] = [];
+    let tokensIn = 0;
+
+    for (let i = 0; i < request.texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = request.texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const response = await openai.embeddings.create({ model: request.model, input: batch });
+
+      const sorted = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...sorted.map(item => item.embedding));
+      tokensIn += response.usage?.prompt_tokens ?? Math.round(batch.join('').length / 4);
+    }
+
+    return {
+      provider: 'openai',
+      model: request.model,
+      vectors,
+      latencyMs: Date.now() - startTime,
+      tokensIn,
+      costEstimatedUsd: estimateCostUsd(modelPricing(request.model), tokensIn, 0)
+    };
+  } catch (error: any) {
+    throw providerError('OpenAI', error);
+  }
+}
+
+function openaiKey(): string {
+  const apiKey = state.settings.openaiKey;
+  if (!apiKey) throw new Error('OpenAI API key not configured');
+  return apiKey;
+}
+
+export const openaiProvider: ProviderDefinition = {
+  id: 'openai',
+  label: 'OpenAI',
+  webSearch: false,
+  isConfigured: () => !!state.settings.openaiKey,
+  chat: (request) => executeOpenAI(request, openaiKey()),
+  stream: (request, onToken) => streamOpenAI(request, openaiKey(), onToken),
+  complete: (request) =>
+    completeWithOpenAIClient(new OpenAI({ apiKey: openaiKey() }), 'openai', request, modelPricing(request.model)),
+  embed: (request) => embedOpenAI(request, openaiKey()),
+  listModels: () => listOpenAIModels(openaiKey()),
+  pricing: modelPricing
+};
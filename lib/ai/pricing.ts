@@ -0,0 +1,13 @@
+import { state } from '../state';
+import type { ModelPricing } from './types';
+
+/**
+ * Preço por 1K tokens configurado em settings.pricesUSD (zero se desconhecido)
+ */
+export function modelPricing(model: string): ModelPricing {
+  return state.settings.pricesUSD[model] ?? { in: 0, out: 0 };
+}
+
+export function estimateCostUsd(pricing: ModelPricing, tokensIn: number, tokensOut: number): number {
+  return (tokensIn / 1000) * pricing.in + (tokensOut / 1000) * pricing.out;
+}
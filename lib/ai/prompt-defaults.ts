@@ -0,0 +1,602 @@
+/**
+ * Prompts padrão (versão 0 de cada template)
+ *
+ * Cada chave é um prompt enviado aos modelos; as variáveis {{nome}} são
+ * preenchidas pelo código que monta a chamada. Versões editadas em /settings
+ * ficam em prompt_templates (ver prompt-templates.ts) e só podem usar as
+ * variáveis declaradas aqui.
+ */
+
+export type PromptKey =
+  | 'chat.system'
+  | 'chat.translate'
+  | 'chat.suggest'
+  | 'chat.adapt'
+  | 'chat.update'
+  | 'chat.rewrite_query'
+  | 'chat.judge'
+  | 'chat.edit'
+  | 'improve.global_context'
+  | 'improve.section'
+  | 'norms.detect'
+  | 'norms.verify'
+  | 'translate.direct'
+  | 'translate.chapter'
+  | 'adjust.section'
+  | 'adapt.section';
+
+export type PromptVariable = {
+  name: string;
+  description: string;
+};
+
+export type PromptDefinition = {
+  key: PromptKey;
+  label: string;
+  operation: string; // Operação de IA que usa o prompt (ver OPERATION_LABELS)
+  variables: PromptVariable[];
+  body: string;
+};
+
+export const PROMPT_DEFINITIONS: Record<PromptKey, PromptDefinition> = {
+  'chat.system': {
+    key: 'chat.system',
+    label: 'Chat: instruções do sistema',
+    operation: 'chat',
+    variables: [],
+    body: `Você é um assistente técnico/editorial. Responda **apenas** com base nos trechos fornecidos.
+
+Regras:
+1. Se faltar base, diga: 'informação insuficiente no documento'.
+2. Inclua **citações** logo após cada afirmação, no formato [página: X, §N] (página e número do trecho indicados no cabeçalho de cada trecho), com um trecho curto entre aspas copiado do documento.
+3. Entregue: (a) **resumo** em 3–5 bullets e (b) **resposta final** objetiva.`
+  },
+
+  'chat.translate': {
+    key: 'chat.translate',
+    label: 'Chat: ação Traduzir',
+    operation: 'chat',
+    variables: [],
+    body: `Traduza PT-BR ↔ EN mantendo sentido e marcações [página:X].`
+  },
+
+  'chat.suggest': {
+    key: 'chat.suggest',
+    label: 'Chat: ação Sugerir melhorias',
+    operation: 'chat',
+    variables: [],
+    body: `Melhore clareza/concisão sem mudar o sentido; liste alterações em bullets.`
+  },
+
+  'chat.adapt': {
+    key: 'chat.adapt',
+    label: 'Chat: ação Adaptar',
+    operation: 'chat',
+    variables: [],
+    body: `Reestruture em seções lógicas (H2/H3); normalize termos; não invente fatos.`
+  },
+
+  'chat.update': {
+    key: 'chat.update',
+    label: 'Chat: ação Atualizar',
+    operation: 'chat',
+    variables: [],
+    body: `Aponte possíveis trechos desatualizados **com base apenas no texto**; marque o que exige verificação externa.`
+  },
+
+  'chat.rewrite_query': {
+    key: 'chat.rewrite_query',
+    label: 'Chat: pergunta de busca a partir do histórico',
+    operation: 'chat',
+    variables: [
+      { name: 'history', description: 'Mensagens anteriores da conversa' },
+      { name: 'question', description: 'Pergunta atual do usuário' }
+    ],
+    body: `Reescreva a última pergunta do usuário como uma consulta de busca autônoma, que possa ser entendida sem o histórico da conversa.
+
+Regras:
+- Substitua pronomes e referências ("isso", "esse autor", "o capítulo anterior") pelos termos a que se referem no histórico
+- Mantenha o idioma da pergunta e os termos técnicos
+- Não responda à pergunta nem acrescente informações que não estejam no histórico
+- Se a pergunta já for autônoma, repita-a como está
+
+HISTÓRICO:
+{{history}}
+
+ÚLTIMA PERGUNTA:
+{{question}}
+
+Retorne APENAS a consulta reescrita, em uma linha.`
+  },
+
+  'chat.judge': {
+    key: 'chat.judge',
+    label: 'Chat: juiz das respostas dos provedores',
+    operation: 'chat',
+    variables: [
+      { name: 'question', description: 'Pergunta do usuário' },
+      { name: 'context', description: 'Trechos do documento enviados aos provedores' },
+      { name: 'answers', description: 'Respostas dos provedores, identificadas por letra (A, B, C...)' }
+    ],
+    body: `Você é o juiz das respostas de vários modelos de IA para a mesma pergunta sobre um documento acadêmico. As respostas estão identificadas só por letra.
+
+Tarefas:
+1. Escreva uma resposta única combinando o que as respostas têm de correto e apoiado pelos trechos do documento. Cite as páginas no formato [página: X], apenas páginas que aparecem nos trechos.
+2. Liste as afirmações em que as respostas discordam entre si ou contradizem os trechos, com a posição de cada resposta envolvida.
+3. Dê a cada resposta uma nota de 1 a 5 (5 = correta, completa e fundamentada nos trechos; 1 = errada ou sem apoio nos trechos) com uma justificativa curta.
+
+PERGUNTA:
+{{question}}
+
+TRECHOS DO DOCUMENTO:
+{{context}}
+
+RESPOSTAS:
+{{answers}}
+
+FORMATO DA RESPOSTA:
+Retorne APENAS um objeto JSON válido, sem markdown, sem explicações.
+
+{
+  "synthesis": "resposta consolidada com citações [página: X]",
+  "disagreements": [
+    {
+      "claim": "afirmação em disputa",
+      "positions": [{ "answer": "A", "position": "o que a resposta A afirma" }]
+    }
+  ],
+  "ratings": [
+    { "answer": "A", "score": 4, "rationale": "justificativa curta" }
+  ]
+}`
+  },
+
+  'chat.edit': {
+    key: 'chat.edit',
+    label: 'Chat: edição de trechos do capítulo',
+    operation: 'chat',
+    variables: [
+      { name: 'chapter_title', description: 'Título do capítulo' },
+      { name: 'instruction', description: 'Pedido de edição do usuário' },
+      { name: 'paragraphs', description: 'Parágrafos da versão, cada um prefixado por [índice]; títulos de seção marcados com ##' }
+    ],
+    body: `Você é um revisor acadêmico. O usuário pediu uma edição no capítulo abaixo. Proponha as alterações que atendem ao pedido, e só elas.
+
+CAPÍTULO: {{chapter_title}}
+
+PEDIDO:
+{{instruction}}
+
+REGRAS:
+- Localize os parágrafos pelo índice [N] e pelos títulos de seção (##); "o segundo parágrafo da seção 2.3" é o segundo parágrafo depois do título 2.3
+- Altere apenas o que o pedido exige; não mude fatos, dados, citações ou termos técnicos
+- "originalText" deve ser copiado EXATAMENTE do parágrafo (o parágrafo inteiro ou um trecho dele)
+- Se o pedido não puder ser atendido com o texto disponível, retorne "edits" vazio e explique em "message"
+
+FORMATO DA RESPOSTA:
+Retorne APENAS um objeto JSON válido, sem markdown, sem explicações.
+
+{
+  "message": "resumo curto do que foi proposto",
+  "edits": [
+    {
+      "paragraphIndex": 12,
+      "originalText": "texto original exato",
+      "improvedText": "texto proposto",
+      "reason": "motivo da alteração (1 frase)",
+      "type": "grammar|style|clarity|coherence|conciseness",
+      "confidence": 0.9
+    }
+  ]
+}
+
+PARÁGRAFOS:
+{{paragraphs}}`
+  },
+
+  'improve.global_context': {
+    key: 'improve.global_context',
+    label: 'Melhorias: contexto global do documento',
+    operation: 'improve',
+    variables: [
+      { name: 'initial_text', description: 'Início do documento (até 3000 caracteres)' },
+      { name: 'chapter_previews', description: 'Título e início de cada capítulo, numerados' },
+      { name: 'references_context', description: 'Referências fornecidas pelo usuário (vazio se não houver)' }
+    ],
+    body: `Você é um analista de documentos acadêmicos. Analise este documento e extraia:
+
+1. TEMA PRINCIPAL: Qual é o assunto central do documento? (1 frase)
+2. OBJETIVO: Qual o objetivo/propósito do documento? (1 frase)
+3. TIPO: Que tipo de documento é? (tese, dissertação, artigo, etc)
+4. RESUMO DE CADA CAPÍTULO: Para cada capítulo, faça um resumo de 1-2 frases do conteúdo
+
+INÍCIO DO DOCUMENTO:
+---
+{{initial_text}}
+---
+
+CAPÍTULOS E TRECHOS:
+{{chapter_previews}}
+{{references_context}}
+
+Retorne APENAS um JSON válido no formato:
+{
+  "theme": "tema principal em 1 frase",
+  "objective": "objetivo em 1 frase",
+  "type": "tipo do documento",
+  "chapterSummaries": [
+    {"title": "título do capítulo 1", "summary": "resumo em 1-2 frases"},
+    {"title": "título do capítulo 2", "summary": "resumo em 1-2 frases"}
+  ]
+}`
+  },
+
+  'improve.section': {
+    key: 'improve.section',
+    label: 'Melhorias: análise de uma seção',
+    operation: 'improve',
+    variables: [
+      { name: 'theme', description: 'Tema do documento (contexto global)' },
+      { name: 'objective', description: 'Objetivo do documento' },
+      { name: 'chapter_title', description: 'Título do capítulo atual' },
+      { name: 'chapter_context', description: 'Resumo dos capítulos (vazio se não houver)' },
+      { name: 'text', description: 'Parágrafos da seção' }
+    ],
+    body: `Você é um revisor acadêmico especializado. Analise o texto abaixo e sugira melhorias APENAS quando houver real necessidade.
+
+CONTEXTO DO DOCUMENTO:
+- Tema: {{theme}}
+- Objetivo: {{objective}}
+- Capítulo atual: {{chapter_title}}{{chapter_context}}
+
+ÁREAS DE ANÁLISE:
+1. GRAMÁTICA: Erros gramaticais, concordância, pontuação
+2. CLAREZA: Frases confusas ou ambíguas que podem ser simplificadas
+3. ESTILO ACADÊMICO: Linguagem informal, voz passiva excessiva, falta de precisão
+4. COERÊNCIA: Falta de coesão entre ideias, transições abruptas
+5. CONCISÃO: Redundâncias, verbosidade desnecessária
+
+REGRAS IMPORTANTES:
+❌ NÃO sugira mudanças apenas por estilo pessoal
+❌ NÃO mude termos técnicos corretos
+❌ NÃO altere significados ou fatos
+✅ APENAS sugira quando houver melhoria CLARA e OBJETIVA
+✅ Mantenha o tom acadêmico e formal
+✅ Preserve a voz do autor
+
+TEXTO PARA ANÁLISE:
+---
+{{text}}
+---
+
+Para cada melhoria sugerida, retorne JSON no formato:
+{
+  "suggestions": [
+    {
+      "paragraphIndex": 0,
+      "originalText": "texto original exato da frase ou trecho (mínimo 30 caracteres)",
+      "improvedText": "texto melhorado",
+      "reason": "explicação clara do motivo (1-2 frases)",
+      "type": "grammar|style|clarity|coherence|conciseness",
+      "confidence": 0.95
+    }
+  ]
+}
+
+IMPORTANTE:
+- "paragraphIndex" deve ser 0 para o primeiro parágrafo da seção, 1 para o segundo, etc
+- "originalText" deve ser um trecho COMPLETO e EXATO do texto (mínimo 30 caracteres, incluindo pontuação)
+- NÃO truncar ou resumir o "originalText" - deve ser copiado EXATAMENTE como está
+- Se não houver melhorias necessárias, retorne: {"suggestions": []}
+- Confidence: 1.0 = certeza absoluta, 0.7 = sugestão moderada
+- Foque em 3-5 sugestões mais importantes (não precisa sugerir tudo)
+
+Retorne APENAS o JSON, sem texto adicional.`
+  },
+
+  'norms.detect': {
+    key: 'norms.detect',
+    label: 'Normas: detecção de referências',
+    operation: 'update',
+    variables: [
+      { name: 'text', description: 'Lote de parágrafos, cada um prefixado por [índice]' }
+    ],
+    body: `Você é um especialista em análise de documentos jurídicos e técnicos. Analise o texto abaixo e identifique TODAS as referências a normas, leis, decretos, portarias, resoluções e normas técnicas.
+
+TIPOS DE NORMAS A IDENTIFICAR (com número/identificação específica):
+1. LEIS: Lei nº 8.078/1990, Lei Federal 12.345/2020, Ley 123/2020, etc
+2. DECRETOS: Decreto nº 10.024/2019, Real Decreto 456/2019, etc
+3. PORTARIAS: Portaria nº 123/2021, etc
+4. RESOLUÇÕES: Resolución nº 456/2022, etc
+5. NORMAS ABNT: ABNT NBR 14724:2011, NBR ISO 9001:2015, etc
+6. NORMAS ISO: ISO 9001:2015, ISO/IEC 27001:2013, etc
+7. REGULAMENTOS COM NÚMERO: Regulamento (UE) 2016/679, Directiva 2011/16/UE, etc
+8. TRATADOS/CONVENIOS ESPECÍFICOS: Convenio de Mutua Asistencia Administrativa en Materia Fiscal de la OCDE, etc
+
+NÃO IDENTIFIQUE (falsos positivos):
+❌ Menções genéricas a organizações: "OCDE", "UE", "ONU"
+❌ Referências genéricas: "esta ley", "la legislación", "normas de la organización"
+❌ Informes/relatórios: "informe de 1998", "informe de la OCDE"
+❌ Artigos sem contexto: "artículo 6º" (a menos que seja parte de uma norma específica citada antes)
+❌ Siglas sem número: "FATCA" (a menos que seja uma lei específica com número)
+
+TEXTO PARA ANÁLISE:
+---
+{{text}}
+---
+
+Para cada referência encontrada, retorne JSON no formato:
+{
+  "references": [
+    {
+      "type": "lei|decreto|portaria|resolucao|abnt|iso|regulamento|outro",
+      "number": "número da norma (ex: 8.078/1990, NBR 14724:2011)",
+      "fullText": "texto completo como aparece (ex: Lei nº 8.078/1990)",
+      "paragraphIndex": 0,
+      "context": "trecho do texto ao redor (30-50 chars antes e depois)"
+    }
+  ]
+}
+
+REGRAS IMPORTANTES:
+- Extraia APENAS referências explícitas a normas
+- NÃO invente números ou referências que não existem
+- Capture o texto EXATO como aparece no documento
+- Se não houver referências, retorne: {"references": []}
+- paragraphIndex deve corresponder ao número entre colchetes [X]
+
+FORMATO DA RESPOSTA:
+Retorne APENAS um objeto JSON válido, sem markdown, sem explicações, sem texto adicional.
+Comece sua resposta com { e termine com }
+Não use blocos de código markdown.
+
+Retorne APENAS o JSON.`
+  },
+
+  'norms.verify': {
+    key: 'norms.verify',
+    label: 'Normas: verificação do status',
+    operation: 'update',
+    variables: [
+      { name: 'task', description: 'Como verificar (pesquisa na web do provedor ou resultados de busca)' },
+      { name: 'type', description: 'Tipo da norma (lei, decreto, abnt...)' },
+      { name: 'number', description: 'Número da norma' },
+      { name: 'full_text', description: 'Texto da referência como aparece no documento' },
+      { name: 'search_context', description: 'Instruções de pesquisa na web ou resultados da busca' },
+      { name: 'is_paid', description: 'true para normas pagas (ABNT/ISO)' }
+    ],
+    body: `Você é um especialista em análise de normas jurídicas e técnicas. {{task}} o status da seguinte norma:
+
+NORMA ANALISADA:
+Tipo: {{type}}
+Número: {{number}}
+Texto: {{full_text}}
+
+{{search_context}}
+
+Determine:
+1. STATUS atual da norma:
+   - "vigente": Norma está em vigor sem alterações
+   - "alterada": Norma está em vigor mas foi modificada/atualizada
+   - "revogada": Norma foi revogada/cancelada
+   - "substituida": Norma foi substituída por outra
+   - "desconhecido": Não há informação suficiente
+
+2. Se foi ALTERADA ou SUBSTITUÍDA:
+   - Qual o número/identificação da nova versão?
+   - Quando foi alterada/substituída?
+   - Breve descrição da mudança
+
+3. TIPO DE ATUALIZAÇÃO necessária (OBRIGATÓRIO - escolha um):
+   - "auto": Pode atualizar automaticamente (leis/decretos públicos revogadas ou substituídas)
+   - "manual": Requer verificação manual (normas ABNT/ISO pagas OU não há info suficiente)
+   - "none": Não precisa atualização (norma está vigente sem alterações)
+
+4. Se possível ATUALIZAR AUTOMATICAMENTE:
+   - Sugira o texto atualizado para substituir no documento
+   - Ex: "Lei nº 8.078/1990 (alterada pela Lei 14.181/2021)"
+
+IMPORTANTE:
+- Normas ABNT/ISO são PAGAS → sempre "manual"
+- Leis/Decretos brasileiros são PÚBLICOS → pode ser "auto"
+- Se não tiver certeza, marque como "desconhecido"
+- URL oficial da fonte (se disponível)
+
+FORMATO DA RESPOSTA:
+Retorne APENAS um objeto JSON válido, sem markdown, sem explicações, sem texto adicional.
+Comece sua resposta com { e termine com }
+
+JSON:
+{
+  "status": "vigente|alterada|revogada|substituida|desconhecido",
+  "updatedNumber": "número da versão atualizada (se houver)",
+  "updatedDate": "data da atualização (se disponível)",
+  "updateDescription": "descrição breve da mudança",
+  "updateType": "auto|manual|none",
+  "sourceUrl": "URL oficial da fonte",
+  "isPaid": {{is_paid}},
+  "suggestedText": "texto sugerido para substituição (se updateType = auto)",
+  "confidence": 0.95
+}`
+  },
+
+  'translate.direct': {
+    key: 'translate.direct',
+    label: 'Tradução: documento (parágrafo a parágrafo)',
+    operation: 'translate',
+    variables: [
+      { name: 'target_language', description: 'Idioma de destino (maiúsculas)' },
+      { name: 'source_language', description: 'Linha com o idioma de origem, ou pedido de detecção automática' },
+      { name: 'placeholder_rule', description: 'Regra sobre __NUM_X__/__DATE_X__ (vazio se o texto não tiver)' },
+      { name: 'text_length', description: 'Tamanho do texto em caracteres' },
+      { name: 'sentence_count', description: 'Número de frases do texto' },
+      { name: 'text', description: 'Texto a traduzir (números e datas já protegidos)' },
+      { name: 'placeholder_reminder', description: 'Lembrete final sobre placeholders (vazio se o texto não tiver)' },
+      { name: 'terminology', description: 'Termos obrigatórios da termbase da tese presentes no texto (vazio se não houver)' },
+      { name: 'memory_hints', description: 'Segmentos parecidos da memória de tradução da tese (vazio se não houver)' }
+    ],
+    body: `You are a PROFESSIONAL TRANSLATOR. Your ONLY job is to translate text WORD-BY-WORD with ABSOLUTE FIDELITY.
+
+TARGET LANGUAGE: {{target_language}}
+{{source_language}}
+
+CRITICAL RULES - VIOLATING ANY WILL RESULT IN FAILURE:
+❌ DO NOT summarize, shorten, or condense the text
+❌ DO NOT paraphrase or change sentence structure
+❌ DO NOT add explanations, notes, or extra content
+❌ DO NOT skip any sentences, paragraphs, or words
+❌ DO NOT change the meaning or interpretation
+❌❌❌ NEVER EVER MERGE WORDS TOGETHER - THIS IS THE MOST CRITICAL RULE ❌❌❌
+   WRONG EXAMPLE: "OCDEestácaracterizacomouma" (NO SPACES - UNACCEPTABLE!)
+   RIGHT EXAMPLE: "OCDE está caracterizada como uma" (WITH SPACES - CORRECT!)
+
+✅ TRANSLATE EVERY SINGLE WORD faithfully based on CONTEXT:
+   - Articles (el/la/los/las/le/the/a/an) should be translated even in UPPERCASE unless they are acronyms
+   - Example: "LA Organización" (Spanish article) → "A Organização" (Portuguese)
+   - But: "LA" (Los Angeles city) → keep "LA"
+   - Analyze context to determine if capitalized words are articles, acronyms, or proper nouns
+✅ PRESERVE exact same number of sentences
+✅ PRESERVE exact same paragraph structure
+✅ PRESERVE all line breaks and spacing (especially double line breaks \\n\\n between paragraphs)
+✅✅✅ EVERY WORD MUST BE SEPARATED BY SPACES - MANDATORY! ✅✅✅
+✅ Each word must have AT LEAST ONE SPACE before and after it
+✅ IF the text contains multiple paragraphs separated by blank lines, you MUST preserve these separations in the translation
+✅ KEEP technical terms accurate (translate if appropriate, keep if universally used)
+✅ MAINTAIN the same academic/formal tone
+✅ Double-check your translation has proper spacing between ALL words before returning it
+{{placeholder_rule}}
+✅ Return ONLY the direct translation, nothing else
+
+{{terminology}}{{memory_hints}}ORIGINAL TEXT ({{text_length}} characters, {{sentence_count}} sentences):
+---
+{{text}}
+---
+
+⚠️ CRITICAL REMINDER BEFORE YOU START:
+- EVERY word MUST be separated by spaces
+- "palavra1palavra2palavra3" = WRONG ❌
+- "palavra1 palavra2 palavra3" = CORRECT ✅
+- Check your translation has spaces between ALL words before submitting
+
+TRANSLATION (must have similar length and same number of sentences, with MANDATORY SPACES between ALL words{{placeholder_reminder}}):`
+  },
+
+  'translate.chapter': {
+    key: 'translate.chapter',
+    label: 'Tradução: capítulo (sugestões)',
+    operation: 'translate',
+    variables: [
+      { name: 'source_language', description: 'Trecho "from <idioma>" (vazio se detectado automaticamente)' },
+      { name: 'target_language', description: 'Idioma de destino' },
+      { name: 'paragraphs', description: 'Parágrafos do lote, numerados [1], [2]...' },
+      { name: 'terminology', description: 'Termos obrigatórios da termbase da tese presentes no texto (vazio se não houver)' },
+      { name: 'memory_hints', description: 'Segmentos parecidos da memória de tradução da tese (vazio se não houver)' }
+    ],
+    body: `You are a professional translator. Translate the following text {{source_language}} to {{target_language}}.
+
+For each paragraph, provide:
+- originalText: the exact original text (unchanged)
+- translatedText: the professional translation in {{target_language}}
+
+Maintain the same tone, style, and technical accuracy. Preserve formatting, numbers, and technical terms appropriately.
+
+{{terminology}}{{memory_hints}}Paragraphs to translate:
+{{paragraphs}}
+
+Respond with ONLY a JSON object in this format:
+{
+  "translations": [
+    {
+      "originalText": "...",
+      "translatedText": "..."
+    }
+  ]
+}`
+  },
+
+  'adjust.section': {
+    key: 'adjust.section',
+    label: 'Ajustes: instruções do usuário',
+    operation: 'adjust',
+    variables: [
+      { name: 'instructions', description: 'Instruções do usuário (com as referências anexadas)' },
+      { name: 'section_title', description: 'Título da seção' },
+      { name: 'paragraphs', description: 'Parágrafos do lote, numerados [0], [1]...' },
+      { name: 'creativity', description: 'Nível de criatividade (0-10)' },
+      { name: 'creativity_guidance', description: 'Explicação do nível de criatividade' }
+    ],
+    body: `You are an expert document editor. You have been given the following instructions by the user:
+
+INSTRUCTIONS:
+{{instructions}}
+
+SECTION: "{{section_title}}"
+
+PARAGRAPHS:
+{{paragraphs}}
+
+TASK:
+Analyze the paragraphs and suggest adjustments that follow the user's instructions EXACTLY AND ONLY. Do NOT suggest improvements, clarifications, or changes that are not explicitly requested in the instructions above.
+
+Creativity level: {{creativity}}/10
+{{creativity_guidance}}
+
+Return your response as JSON in this exact format:
+{
+  "adjustments": [
+    {
+      "paragraphIndex": 0,
+      "originalText": "exact original text",
+      "adjustedText": "your adjusted version that addresses the instructions",
+      "reason": "why this change was made to fulfill the instructions",
+      "instructionReference": "which part of the instructions this addresses"
+    }
+  ]
+}
+
+CRITICAL RULES:
+- ONLY make changes that directly address the user's instructions
+- Do NOT improve clarity, grammar, style, or anything else unless explicitly instructed to do so
+- Only include paragraphs that need adjustment to fulfill the instructions
+- Match the originalText EXACTLY as it appears
+- The creativity level controls HOW you apply the instructions, NOT whether to make additional improvements
+- If creativity is 0, make minimal changes (only those absolutely required by instructions)
+`
+  },
+
+  'adapt.section': {
+    key: 'adapt.section',
+    label: 'Adaptação: estilo e público',
+    operation: 'adapt',
+    variables: [
+      { name: 'section_title', description: 'Título da seção' },
+      { name: 'style_description', description: 'Descrição do estilo alvo' },
+      { name: 'audience', description: 'Trecho " for <público>" (vazio sem público-alvo)' },
+      { name: 'paragraphs', description: 'Parágrafos do lote, numerados [1], [2]...' }
+    ],
+    body: `You are a document adaptation expert. Analyze the following text from section "{{section_title}}" and suggest adaptations to {{style_description}}{{audience}}.
+
+For each paragraph that needs adaptation, provide:
+- originalText: the exact original text (unchanged)
+- adaptedText: the adapted version in the target style
+- reason: brief explanation of the adaptation (why this change improves style/audience fit)
+- adaptationType: one of: "style", "tone", "terminology", "structure"
+
+Focus on paragraphs that would significantly benefit from adaptation. Skip paragraphs that are already appropriate for the target style.
+
+Paragraphs to analyze:
+{{paragraphs}}
+
+Respond with ONLY a JSON object in this format:
+{
+  "suggestions": [
+    {
+      "originalText": "...",
+      "adaptedText": "...",
+      "reason": "...",
+      "adaptationType": "..."
+    }
+  ]
+}`
+  }
+};
@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { db } from '@/lib/storage';
+import { runInAIScope } from './scope';
+import {
+  activatePromptVersion,
+  listPromptTemplates,
+  listPromptVersions,
+  parsePromptVersions,
+  renderPrompt,
+  savePromptVersion
+} from './prompt-templates';
+
+async function createUser(email: string) {
+  const { data } = await db.from('users').insert({ email, name: email, password_hash: 'x' }).select().single();
+  return data.id as string;
+}
+
+const renderAs = (userId: string | undefined, promptVersions?: Record<string, number>) =>
+  runInAIScope({ operation: 'adjust', userId, promptVersions }, () =>
+    renderPrompt('adjust.section', { instructions: 'Formalize', section_title: 'Intro' })
+  );
+
+describe('prompt templates', () => {
+  let alice: string;
+  let bob: string;
+
+  beforeAll(async () => {
+    alice = await createUser('alice@prompts.dev');
+    bob = await createUser('bob@prompts.dev');
+  });
+
+  it('saves versions per user and renders the active version of the job user', async () => {
+    const saved = await savePromptVersion('adjust.section', { body: 'A1 {{instructions}} / {{section_title}}' }, alice);
+    expect(saved).toMatchObject({ version: 1, is_active: true });
+
+    expect(await renderAs(alice)).toBe('A1 Formalize / Intro');
+    expect(await renderAs(bob)).toContain('You are an expert document editor');
+    expect(await renderAs(undefined)).toContain('You are an expert document editor');
+
+    const bobTemplate = (await listPromptTemplates(bob)).find(t => t.key === 'adjust.section');
+    expect(bobTemplate).toMatchObject({ activeVersion: 0, latestVersion: 0 });
+    expect((await listPromptVersions('adjust.section', bob)).map(v => v.version)).toEqual([0]);
+  });
+
+  it('numbers and activates versions independently for each user', async () => {
+    const bobVersion = await savePromptVersion('adjust.section', { body: 'B1 {{instructions}}', activate: false }, bob);
+    expect(bobVersion).toMatchObject({ version: 1, is_active: false });
+
+    await activatePromptVersion('adjust.section', 1, bob);
+    expect(await renderAs(bob)).toBe('B1 Formalize');
+    expect(await renderAs(alice)).toBe('A1 Formalize / Intro');
+
+    await activatePromptVersion('adjust.section', 0, alice);
+    expect(await renderAs(alice)).toContain('You are an expert document editor');
+    expect(await renderAs(bob)).toBe('B1 Formalize');
+  });
+
+  it('pins versions per job only among the versions of the job user', async () => {
+    await savePromptVersion('adjust.section', { body: 'A2 {{section_title}}', activate: false }, alice);
+
+    const pinned = await parsePromptVersions({ 'adjust.section': 2 }, alice);
+    expect(await renderAs(alice, pinned)).toBe('A2 Intro');
+
+    await expect(parsePromptVersions({ 'adjust.section': 2 }, bob)).rejects.toMatchObject({ status: 404 });
+    await expect(activatePromptVersion('adjust.section', 2, bob)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('rejects variables the prompt does not declare', async () => {
+    await expect(savePromptVersion('adjust.section', { body: '{{nope}}' }, alice)).rejects.toThrow(/Unknown variable/);
+  });
+});
@@ -0,0 +1,307 @@
+import { db } from '../storage';
+import { currentAIScope } from './scope';
+import { PROMPT_DEFINITIONS, type PromptDefinition, type PromptKey } from './prompt-defaults';
+
+/**
+ * Templates de prompt com versões
+ *
+ * A versão 0 de cada chave é o padrão embutido (prompt-defaults.ts). Editar
+ * um prompt em /settings grava uma nova versão em prompt_templates; versões
+ * não mudam depois de gravadas. Cada usuário tem as próprias versões e a
+ * própria versão ativa (owner_id): os jobs usam as do usuário que os iniciou
+ * (scope.userId). Vale a versão ativa da chave (nenhuma ativa = padrão), a
+ * não ser que o job tenha fixado outra (scope.promptVersions). Sem usuário
+ * no escopo, vale o padrão.
+ *
+ * Dentro de um job, a primeira renderização de cada chave fixa a versão para
+ * o resto do job; as versões usadas vão para metadata.prompts (ver scope.ts).
+ */
+
+export type { PromptKey } from './prompt-defaults';
+
+export type PromptVersions = Partial<Record<PromptKey, number>>;
+
+export type PromptTemplateVersion = {
+  key: PromptKey;
+  version: number;
+  body: string;
+  note: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string | null; // null na versão 0 (padrão)
+};
+
+export type PromptTemplateSummary = Omit<PromptDefinition, 'body'> & {
+  activeVersion: number;
+  latestVersion: number;
+};
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export function isPromptKey(key: string): key is PromptKey {
+  return Object.prototype.hasOwnProperty.call(PROMPT_DEFINITIONS, key);
+}
+
+export function promptVariables(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1])));
+}
+
+/**
+ * Substitui {{nome}} pelos valores; variáveis sem valor ficam como estão
+ */
+export function fillTemplate(body: string, variables: Record<string, string | number | boolean>): string {
+  return body.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? String(variables[name]) : match
+  );
+}
+
+function defaultVersion(key: PromptKey, isActive: boolean): PromptTemplateVersion {
+  return {
+    key,
+    version: 0,
+    body: PROMPT_DEFINITIONS[key].body,
+    note: 'Padrão',
+    is_active: isActive,
+    created_by: null,
+    created_at: null
+  };
+}
+
+// Versões não mudam: o corpo fica em memória. As versões ativas de cada usuário são relidas no máximo a cada 30s.
+const ACTIVE_TTL_MS = 30_000;
+const bodyCache = new Map<string, string>();
+const activeCache = new Map<string, { versions: PromptVersions; loadedAt: number }>();
+
+async function loadActiveVersions(ownerId: string): Promise<PromptVersions> {
+  const cached = activeCache.get(ownerId);
+  if (cached && Date.now() - cached.loadedAt <= ACTIVE_TTL_MS) {
+    return cached.versions;
+  }
+
+  const { data, error } = await db
+    .from('prompt_templates')
+    .select('key, version')
+    .eq('owner_id', ownerId)
+    .eq('is_active', true);
+
+  if (error) throw new Error(`Failed to load active prompts: ${error.message}`);
+
+  const versions: PromptVersions = {};
+  for (const { key, version } of (data || []) as Array<{ key: string; version: number }>) {
+    if (isPromptKey(key)) versions[key] = version;
+  }
+
+  activeCache.set(ownerId, { versions, loadedAt: Date.now() });
+  return versions;
+}
+
+async function loadBody(key: PromptKey, version: number, ownerId: string | undefined): Promise<string> {
+  if (version === 0) return PROMPT_DEFINITIONS[key].body;
+  if (!ownerId) throw new PromptTemplateError(`Prompt ${key} has no version ${version}`, 404);
+
+  const cacheKey = `${ownerId}:${key}@${version}`;
+  const cached = bodyCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  const { data, error } = await db
+    .from('prompt_templates')
+    .select('body')
+    .eq('owner_id', ownerId)
+    .eq('key', key)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load prompt ${key} v${version}: ${error.message}`);
+  if (!data) throw new PromptTemplateError(`Prompt ${key} has no version ${version}`, 404);
+
+  bodyCache.set(cacheKey, data.body);
+  return data.body;
+}
+
+/**
+ * Renderiza o prompt da chave com as variáveis, na versão do job
+ * (fixada, já usada neste job ou a ativa do usuário do job)
+ */
+export async function renderPrompt(
+  key: PromptKey,
+  variables: Record<string, string | number | boolean> = {}
+): Promise<string> {
+  const scope = currentAIScope();
+  const ownerId = scope?.userId;
+
+  let version = scope?.prompts[key] ?? scope?.promptVersions?.[key];
+  if (version === undefined) {
+    version = ownerId ? (await loadActiveVersions(ownerId))[key] ?? 0 : 0;
+  }
+
+  if (scope) scope.prompts[key] = version;
+
+  return fillTemplate(await loadBody(key, version, ownerId), variables);
+}
+
+/**
+ * Prompts conhecidos com a versão ativa e a mais recente de cada um, do usuário
+ */
+export async function listPromptTemplates(ownerId: string): Promise<PromptTemplateSummary[]> {
+  const { data, error } = await db
+    .from('prompt_templates')
+    .select('key, version, is_active')
+    .eq('owner_id', ownerId);
+
+  if (error) throw new Error(`Failed to load prompts: ${error.message}`);
+
+  return Object.values(PROMPT_DEFINITIONS).map(({ body, ...definition }) => {
+    const rows = (data || []).filter((row: any) => row.key === definition.key);
+    return {
+      ...definition,
+      activeVersion: rows.find((row: any) => row.is_active)?.version ?? 0,
+      latestVersion: rows.reduce((max: number, row: any) => Math.max(max, row.version), 0)
+    };
+  });
+}
+
+/**
+ * Todas as versões da chave do usuário, da mais recente ao padrão (versão 0)
+ */
+export async function listPromptVersions(key: PromptKey, ownerId: string): Promise<PromptTemplateVersion[]> {
+  const { data, error } = await db
+    .from('prompt_templates')
+    .select('key, version, body, note, is_active, created_by, created_at')
+    .eq('owner_id', ownerId)
+    .eq('key', key)
+    .order('version', { ascending: false });
+
+  if (error) throw new Error(`Failed to load prompt versions: ${error.message}`);
+
+  const versions: PromptTemplateVersion[] = data || [];
+  return [...versions, defaultVersion(key, !versions.some(v => v.is_active))];
+}
+
+/**
+ * Só as variáveis declaradas na definição podem aparecer no corpo
+ */
+export function validatePromptBody(key: PromptKey, body: string): void {
+  if (!body.trim()) throw new PromptTemplateError('Prompt body cannot be empty');
+
+  const declared = PROMPT_DEFINITIONS[key].variables.map(v => v.name);
+  const unknown = promptVariables(body).filter(name => !declared.includes(name));
+
+  if (unknown.length > 0) {
+    throw new PromptTemplateError(
+      `Unknown variable(s) in ${key}: ${unknown.map(name => `{{${name}}}`).join(', ')}. ` +
+      (declared.length > 0 ? `Available: ${declared.map(name => `{{${name}}}`).join(', ')}` : 'This prompt has no variables')
+    );
+  }
+}
+
+/**
+ * Grava o corpo como nova versão da chave do usuário (e a ativa dele, por padrão)
+ */
+export async function savePromptVersion(
+  key: PromptKey,
+  input: { body: string; note?: string; activate?: boolean },
+  ownerId: string
+): Promise<PromptTemplateVersion> {
+  validatePromptBody(key, input.body);
+
+  const { data: latest, error: latestError } = await db
+    .from('prompt_templates')
+    .select('version')
+    .eq('owner_id', ownerId)
+    .eq('key', key)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw new Error(`Failed to load prompt versions: ${latestError.message}`);
+
+  const { data, error } = await db
+    .from('prompt_templates')
+    .insert({
+      owner_id: ownerId,
+      key,
+      version: (latest?.version || 0) + 1,
+      body: input.body,
+      note: input.note?.trim() || null,
+      is_active: false,
+      created_by: ownerId
+    })
+    .select('key, version, body, note, is_active, created_by, created_at')
+    .single();
+
+  if (error || !data) throw new Error(`Failed to save prompt: ${error?.message}`);
+
+  console.log(`[PROMPTS] Saved ${key} v${data.version} for user ${ownerId}`);
+
+  if (input.activate !== false) {
+    await activatePromptVersion(key, data.version, ownerId);
+    return { ...data, is_active: true };
+  }
+
+  return data;
+}
+
+/**
+ * Torna a versão a ativa da chave para o usuário (0 = volta ao padrão embutido)
+ */
+export async function activatePromptVersion(key: PromptKey, version: number, ownerId: string): Promise<void> {
+  if (!Number.isInteger(version) || version < 0) {
+    throw new PromptTemplateError('version must be an integer >= 0');
+  }
+  if (version > 0) await loadBody(key, version, ownerId);
+
+  const { error: clearError } = await db
+    .from('prompt_templates')
+    .update({ is_active: false })
+    .eq('owner_id', ownerId)
+    .eq('key', key)
+    .eq('is_active', true);
+
+  if (clearError) throw new Error(`Failed to activate prompt: ${clearError.message}`);
+
+  if (version > 0) {
+    const { error } = await db
+      .from('prompt_templates')
+      .update({ is_active: true })
+      .eq('owner_id', ownerId)
+      .eq('key', key)
+      .eq('version', version);
+
+    if (error) throw new Error(`Failed to activate prompt: ${error.message}`);
+  }
+
+  activeCache.delete(ownerId);
+  console.log(`[PROMPTS] ${key}: active version ${version} for user ${ownerId}`);
+}
+
+/**
+ * Valida as versões fixadas num pedido de job ({ "improve.section": 2, ... })
+ * contra as versões do usuário que inicia o job
+ */
+export async function parsePromptVersions(input: unknown, ownerId: string): Promise<PromptVersions | undefined> {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new PromptTemplateError('promptVersions must be an object of { promptKey: version }');
+  }
+
+  const versions: PromptVersions = {};
+
+  for (const [key, version] of Object.entries(input as Record<string, unknown>)) {
+    if (!isPromptKey(key)) throw new PromptTemplateError(`Unknown prompt: ${key}`);
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+      throw new PromptTemplateError(`Invalid version for ${key}: use an integer >= 0`);
+    }
+
+    await loadBody(key, version, ownerId);
+    versions[key] = version;
+  }
+
+  return Object.keys(versions).length > 0 ? versions : undefined;
+}
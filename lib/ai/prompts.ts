@@ -1,47 +1,75 @@
 import { Chunk } from '../state';
+import type { ChatTurn } from './types';
+import { PROMPT_DEFINITIONS, type PromptKey } from './prompt-defaults';
+import { renderPrompt } from './prompt-templates';
+import { CITATION_PATTERN } from './grounding';
 
-const BASE_SYSTEM_PROMPT = `Você é um assistente técnico/editorial. Responda **apenas** com base nos trechos fornecidos.
-
-Regras:
-1. Se faltar base, diga: 'informação insuficiente no documento'.
-2. Inclua **citações** com página e trecho curto.
-3. Entregue: (a) **resumo** em 3–5 bullets e (b) **resposta final** objetiva.`;
-
-const ACTION_PROMPTS = {
-  translate: `Traduza PT-BR ↔ EN mantendo sentido e marcações [página:X].`,
-  suggest: `Melhore clareza/concisão sem mudar o sentido; liste alterações em bullets.`,
-  adapt: `Reestruture em seções lógicas (H2/H3); normalize termos; não invente fatos.`,
-  update: `Aponte possíveis trechos desatualizados **com base apenas no texto**; marque o que exige verificação externa.`
+const ACTION_PROMPT_KEYS: Record<string, PromptKey> = {
+  translate: 'chat.translate',
+  suggest: 'chat.suggest',
+  adapt: 'chat.adapt',
+  update: 'chat.update'
 };
 
+/**
+ * System prompt do chat com os templates padrão (versão 0)
+ */
 export function buildSystemPrompt(action?: string | null): string {
-  if (action && action in ACTION_PROMPTS) {
-    return BASE_SYSTEM_PROMPT + '\n\n' + ACTION_PROMPTS[action as keyof typeof ACTION_PROMPTS];
-  }
-  return BASE_SYSTEM_PROMPT;
+  const actionKey = action ? ACTION_PROMPT_KEYS[action] : undefined;
+  const base = PROMPT_DEFINITIONS['chat.system'].body;
+  return actionKey ? base + '\n\n' + PROMPT_DEFINITIONS[actionKey].body : base;
 }
 
-export function buildUserPrompt(question: string, context: Chunk[]): string {
-  const contextText = context
+/**
+ * System prompt do chat com as versões ativas/fixadas dos templates
+ * (o executor preenche ChatRequest.system com ele)
+ */
+export async function renderSystemPrompt(action?: string | null): Promise<string> {
+  const actionKey = action ? ACTION_PROMPT_KEYS[action] : undefined;
+  const base = await renderPrompt('chat.system');
+  return actionKey ? base + '\n\n' + await renderPrompt(actionKey) : base;
+}
+
+// Trechos com página/seção, como os provedores os recebem
+export function formatContext(context: Chunk[]): string {
+  return context
     .map(
       (chunk) =>
-        `[Página: ${chunk.pageFrom}${chunk.pageTo !== chunk.pageFrom ? `-${chunk.pageTo}` : ''}, §${chunk.ix}]\n${chunk.text}`
+        `[Página: ${chunk.pageFrom}${chunk.pageTo !== chunk.pageFrom ? `-${chunk.pageTo}` : ''}, §${chunk.ix}${chunk.sectionPath?.length ? `, Seção: ${chunk.sectionPath.join(' > ')}` : ''}]\n${chunk.text}`
     )
     .join('\n\n---\n\n');
+}
 
+export function buildUserPrompt(question: string, context: Chunk[]): string {
   return `PERGUNTA:
 ${question}
 
 CONTEXTO (trechos do documento):
-${contextText}`;
+${formatContext(context)}`;
+}
+
+/**
+ * Mensagens no formato OpenAI: system, turnos anteriores da conversa e a
+ * pergunta atual com os trechos (só a pergunta atual leva contexto)
+ */
+export function buildChatMessages(
+  systemPrompt: string,
+  userPrompt: string,
+  history: ChatTurn[] = []
+): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+  return [
+    { role: 'system', content: systemPrompt },
+    ...history.map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user', content: userPrompt }
+  ];
 }
 
-// Extrai citações do texto da resposta
+// Extrai citações do texto da resposta (verificadas depois pelo executor, ver grounding.ts)
 export function extractCitations(text: string): Array<{ page: number; span: string }> {
   const citations: Array<{ page: number; span: string }> = [];
 
-  // Pattern: [página:X] ou [Página:X-Y]
-  const pattern = /\[p[aá]gina:?\s*(\d+)(?:-(\d+))?\]/gi;
+  // Pattern: [página:X], [Página:X-Y] ou [página: X, §N]
+  const pattern = new RegExp(CITATION_PATTERN.source, CITATION_PATTERN.flags);
   let match;
 
   while ((match = pattern.exec(text)) !== null) {
@@ -0,0 +1,56 @@
+/**
+ * Registro de provedores de IA
+ *
+ * Chat, streaming, chamadas genéricas (JSON / busca na web), listagem de
+ * modelos, preços e teste de conexão passam todos por getProvider(id).
+ * Para adicionar um provedor: implemente ProviderDefinition (ver openai.ts)
+ * e registre abaixo.
+ */
+
+import { AIProvider, AIProviderClient, ProviderDefinition } from './types';
+import { openaiProvider } from './openai';
+import { geminiProvider } from './gemini';
+import { grokProvider } from './grok';
+import { localProvider } from './local';
+import { mockProvider } from './mock';
+import { state } from '../state';
+
+const providers = new Map<AIProvider, AIProviderClient>();
+
+export function registerProvider(definition: ProviderDefinition): AIProviderClient {
+  const client: AIProviderClient = {
+    ...definition,
+    testConnection: async (model) => {
+      // Primeiro modelo habilitado em /settings; senão, o primeiro que o provedor listar
+      const testModel = model || state.settings.models[definition.id]?.[0] || (await definition.listModels())[0];
+      if (!testModel) throw new Error(`No model configured for provider: ${definition.id}`);
+
+      const response = await definition.complete({
+        model: testModel,
+        prompt: 'Responda apenas: OK',
+        maxTokens: 10
+      });
+
+      return { model: testModel, latencyMs: response.latencyMs };
+    }
+  };
+
+  providers.set(definition.id, client);
+  return client;
+}
+
+export function getProvider(id: AIProvider): AIProviderClient {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unsupported provider: ${id}`);
+  return provider;
+}
+
+export function listProviders(): AIProviderClient[] {
+  return Array.from(providers.values());
+}
+
+registerProvider(openaiProvider);
+registerProvider(geminiProvider);
+registerProvider(grokProvider);
+registerProvider(localProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,233 @@
+import type { AIProvider } from './types';
+
+/**
+ * Resiliência das chamadas de IA
+ *
+ * - Retry com backoff exponencial (com jitter) em erros transitórios
+ *   (429, 5xx, timeout, conexão), respeitando Retry-After quando o provedor informa
+ * - Circuit breaker por provedor: após falhas seguidas, o provedor fica
+ *   "aberto" por um tempo e as chamadas falham na hora (ou esperam, se não
+ *   houver outro provedor na cadeia de fallback)
+ *
+ * A cadeia de fallback (qual modelo tentar em seguida) fica em executor.ts.
+ */
+
+export const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+export const MAX_DELAY_MS = 60_000;
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 60_000;
+
+/**
+ * Erro de provedor que preserva o status HTTP e o Retry-After da resposta original
+ */
+export class AIProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class CircuitOpenError extends Error {
+  status: number;
+  provider: AIProvider;
+  retryInMs: number;
+
+  constructor(provider: AIProvider, retryInMs: number) {
+    super(`${provider} temporarily disabled after repeated failures (retry in ${Math.ceil(retryInMs / 1000)}s)`);
+    this.name = 'CircuitOpenError';
+    this.status = 503;
+    this.provider = provider;
+    this.retryInMs = retryInMs;
+  }
+}
+
+/**
+ * Embrulha o erro do SDK com o nome do provedor sem perder status/Retry-After
+ */
+export function providerError(label: string, error: any): AIProviderError {
+  if (error instanceof AIProviderError) return error;
+  return new AIProviderError(`${label} error: ${error?.message ?? error}`, errorStatus(error), retryAfterMs(error));
+}
+
+function errorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function header(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return value ?? undefined;
+}
+
+/**
+ * Quanto esperar antes de tentar de novo, segundo o provedor:
+ * retry-after-ms / retry-after (segundos ou data HTTP) ou RetryInfo do Gemini ("retryDelay": "37s")
+ */
+export function retryAfterMs(error: any): number | undefined {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+
+  const headers = error?.headers ?? error?.response?.headers;
+  const ms = header(headers, 'retry-after-ms');
+  if (ms && !isNaN(Number(ms))) return Number(ms);
+
+  const retryAfter = header(headers, 'retry-after');
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const details = JSON.stringify(error?.errorDetails ?? '') + String(error?.message ?? '');
+  const delay = details.match(/retryDelay\\?"?:\s*\\?"(\d+(?:\.\d+)?)s/);
+  if (delay) return Math.round(parseFloat(delay[1]) * 1000);
+
+  return undefined;
+}
+
+/**
+ * Erros que valem retry/fallback. Chave inválida, requisição malformada etc. não.
+ */
+export function isTransientError(error: any): boolean {
+  if (error instanceof CircuitOpenError) return true;
+
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 425 || status === 429 || status >= 500;
+  }
+
+  if (['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(error?.code)) {
+    return true;
+  }
+
+  const message = String(error?.message ?? '');
+  return /\b(429|500|502|503|504)\b|rate limit|overloaded|resource.?exhausted|timed? ?out|fetch failed|socket hang up/i.test(message);
+}
+
+function backoffDelayMs(attempt: number): number {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(exponential * (0.5 + Math.random() / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Circuit breaker
+// ---------------------------------------------------------------------------
+
+type CircuitState = {
+  consecutiveFailures: number;
+  openUntil: number;
+};
+
+// globalThis: mantém o estado entre hot reloads (como lib/state.ts)
+const globalForCircuits = globalThis as unknown as { __aiCircuits?: Map<AIProvider, CircuitState> };
+const circuits = globalForCircuits.__aiCircuits ?? new Map<AIProvider, CircuitState>();
+globalForCircuits.__aiCircuits = circuits;
+
+function circuitFor(provider: AIProvider): CircuitState {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openUntil: 0 };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+function recordSuccess(provider: AIProvider): void {
+  const circuit = circuitFor(provider);
+  circuit.consecutiveFailures = 0;
+  circuit.openUntil = 0;
+}
+
+function recordFailure(provider: AIProvider): void {
+  const circuit = circuitFor(provider);
+  circuit.consecutiveFailures++;
+
+  if (circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    console.warn(`[AI-RESILIENCE] Circuit opened for ${provider} (${circuit.consecutiveFailures} consecutive failures)`);
+  }
+}
+
+/**
+ * Estado atual dos circuitos (ms até reabrir; 0 = fechado)
+ */
+export function getCircuitStates(): Record<string, { consecutiveFailures: number; openForMs: number }> {
+  const now = Date.now();
+  return Object.fromEntries(
+    Array.from(circuits.entries()).map(([provider, circuit]) => [
+      provider,
+      { consecutiveFailures: circuit.consecutiveFailures, openForMs: Math.max(0, circuit.openUntil - now) }
+    ])
+  );
+}
+
+export function resetCircuits(): void {
+  circuits.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Execução
+// ---------------------------------------------------------------------------
+
+export type ResilienceOptions = {
+  maxRetries?: number;
+  // Com outro provedor na cadeia, circuito aberto falha na hora em vez de esperar
+  failFast?: boolean;
+  // Ex.: streaming só repete se nenhum token foi enviado ainda
+  canRetry?: () => boolean;
+};
+
+export async function withResilience<T>(
+  provider: AIProvider,
+  call: () => Promise<T>,
+  options: ResilienceOptions = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const openForMs = circuitFor(provider).openUntil - Date.now();
+    if (openForMs > 0) {
+      if (options.failFast || openForMs > MAX_DELAY_MS) {
+        throw new CircuitOpenError(provider, openForMs);
+      }
+      console.warn(`[AI-RESILIENCE] Circuit open for ${provider}; waiting ${openForMs}ms`);
+      await sleep(openForMs);
+    }
+
+    try {
+      const result = await call();
+      recordSuccess(provider);
+      return result;
+    } catch (error: any) {
+      if (!isTransientError(error)) throw error;
+
+      recordFailure(provider);
+
+      const requestedDelay = retryAfterMs(error);
+      const giveUp =
+        attempt >= maxRetries ||
+        (options.canRetry && !options.canRetry()) ||
+        // Cota esgotada por muito tempo: melhor ir para o fallback
+        (requestedDelay !== undefined && requestedDelay > MAX_DELAY_MS);
+
+      if (giveUp) throw error;
+
+      const delay = requestedDelay ?? backoffDelayMs(attempt);
+      console.warn(
+        `[AI-RESILIENCE] ${provider} failed (${error.message}); retry ${attempt + 1}/${maxRetries} in ${delay}ms` +
+        (requestedDelay !== undefined ? ' (Retry-After)' : '')
+      );
+      await sleep(delay);
+    }
+  }
+}
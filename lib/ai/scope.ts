@@ -0,0 +1,120 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { db } from '../storage';
+import type { AITarget } from './types';
+import type { PromptKey } from './prompt-defaults';
+
+/**
+ * Escopo das chamadas de IA de um job
+ *
+ * Os jobs em background (melhorias, normas, tradução, operações de capítulo)
+ * e o chat rodam dentro de runInAIScope; o executor registra ali cada fallback
+ * e o custo de cada chamada sem que as operações precisem repassar nada.
+ * Usuário/tese/capítulo/documento do escopo atribuem o custo no ledger e
+ * definem quais orçamentos valem (ver usage.ts e budgets.ts). Ao final,
+ * fallbacks, totais (inclusive hits do cache) e versões dos prompts usados vão
+ * para metadata.fallbacks / metadata.usage / metadata.prompts do job.
+ */
+
+export type FallbackEvent = {
+  operation?: string;
+  requested: AITarget; // Modelo configurado no job
+  usedBy: AITarget; // Modelo que de fato respondeu
+  failures: Array<AITarget & { error: string }>; // Tentativas que falharam antes
+  at: string;
+};
+
+export type AIJobTable = 'improvement_jobs' | 'norm_update_jobs' | 'translation_jobs' | 'chapter_operation_jobs';
+
+export type AIUsageTotals = {
+  calls: number;
+  cacheHits: number; // Respostas do cache (não entram em calls/tokens/custo)
+  tokensIn: number;
+  tokensOut: number;
+  costUsd: number;
+};
+
+export type AIScope = {
+  operation?: string;
+  job?: { table: AIJobTable; id: string };
+  userId?: string;
+  thesisId?: string;
+  chapterId?: string;
+  documentId?: string;
+  promptVersions?: Partial<Record<PromptKey, number>>; // Versões fixadas no pedido do job
+  fallbacks: FallbackEvent[];
+  usage: AIUsageTotals;
+  prompts: Partial<Record<PromptKey, number>>; // Versão de cada prompt renderizado (prompt-templates.ts)
+};
+
+const storage = new AsyncLocalStorage<AIScope>();
+
+export function currentAIScope(): AIScope | undefined {
+  return storage.getStore();
+}
+
+export function recordFallback(event: Omit<FallbackEvent, 'operation' | 'at'>): void {
+  const scope = storage.getStore();
+  const entry: FallbackEvent = { operation: scope?.operation, ...event, at: new Date().toISOString() };
+
+  console.warn(
+    `[AI-FALLBACK] ${entry.requested.provider}/${entry.requested.model} → ${entry.usedBy.provider}/${entry.usedBy.model}` +
+    (scope?.job ? ` (job ${scope.job.id})` : '')
+  );
+
+  scope?.fallbacks.push(entry);
+}
+
+/**
+ * Executa fn com um escopo de IA; grava fallbacks, uso e prompts em metadata do job
+ * (também quando o job termina com erro)
+ */
+export async function runInAIScope<T>(
+  scope: Omit<AIScope, 'fallbacks' | 'usage' | 'prompts'>,
+  fn: () => Promise<T>
+): Promise<T> {
+  const store: AIScope = {
+    ...scope,
+    fallbacks: [],
+    usage: { calls: 0, cacheHits: 0, tokensIn: 0, tokensOut: 0, costUsd: 0 },
+    prompts: {}
+  };
+
+  try {
+    return await storage.run(store, fn);
+  } finally {
+    const used = store.fallbacks.length > 0 || store.usage.calls > 0 || store.usage.cacheHits > 0 || Object.keys(store.prompts).length > 0;
+    if (store.job && used) {
+      await saveJobMetadata(store.job.table, store.job.id, store);
+    }
+  }
+}
+
+async function saveJobMetadata(table: AIJobTable, jobId: string, store: AIScope): Promise<void> {
+  try {
+    const { data } = await db.from(table).select('metadata').eq('id', jobId).single();
+    const metadata = data?.metadata || {};
+    const usage: Partial<AIUsageTotals> = metadata.usage || {};
+
+    const { error } = await db
+      .from(table)
+      .update({
+        metadata: {
+          ...metadata,
+          fallbacks: [...(metadata.fallbacks || []), ...store.fallbacks],
+          prompts: { ...(metadata.prompts || {}), ...store.prompts },
+          usage: {
+            calls: (usage.calls || 0) + store.usage.calls,
+            cacheHits: (usage.cacheHits || 0) + store.usage.cacheHits,
+            tokensIn: (usage.tokensIn || 0) + store.usage.tokensIn,
+            tokensOut: (usage.tokensOut || 0) + store.usage.tokensOut,
+            costUsd: (usage.costUsd || 0) + store.usage.costUsd
+          }
+        }
+      })
+      .eq('id', jobId);
+
+    if (error) throw new Error(error.message);
+  } catch (error: any) {
+    console.error(`[AI-SCOPE] Failed to save metadata for ${table} ${jobId}:`, error.message);
+  }
+}
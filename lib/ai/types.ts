@@ -1,10 +1,27 @@
 import { Chunk } from '../state';
 
-export type AIProvider = 'openai' | 'gemini' | 'grok';
+export type AIProvider = 'openai' | 'gemini' | 'grok' | 'local' | 'mock';
+
+/**
+ * Verificação de uma citação contra os trechos enviados ao modelo (grounding.ts):
+ * - verified: o texto citado/afirmado está no trecho da página citada
+ * - page_only: a página está nos trechos; a frase é curta demais para conferir
+ * - wrong_page: o texto está num trecho de outra página (chunk aponta para ele)
+ * - unsupported: o texto não foi encontrado em nenhum trecho (ou a página não estava neles)
+ */
+export type CitationStatus = 'verified' | 'page_only' | 'wrong_page' | 'unsupported';
 
 export type Citation = {
   page: number;
   span: string;
+  status?: CitationStatus; // Depois da verificação (executor)
+  claim?: string; // Frase da resposta que a citação sustenta
+  quote?: string; // Trecho entre aspas na frase, se houver
+  score?: number; // 0-1: quanto do texto foi encontrado no trecho
+  chunkIx?: number; // Trecho do contexto (§N no prompt)
+  chunkId?: string; // chapter_chunks.id (chat de capítulos)
+  chapterId?: string;
+  chapterVersionId?: string;
 };
 
 export type AIResponse = {
@@ -16,16 +33,117 @@ export type AIResponse = {
   tokensIn: number;
   tokensOut: number;
   costEstimatedUsd: number;
+  error?: string; // executeMultipleAI/streamMultipleAI: o provedor falhou (text traz a mensagem)
+};
+
+// Turno anterior de uma conversa (enviado ao modelo antes da pergunta atual)
+export type ChatTurn = {
+  role: 'user' | 'assistant';
+  content: string;
 };
 
 export type ChatRequest = {
   question: string;
   context: Chunk[];
   model: string;
+  history?: ChatTurn[];
   action?: 'translate' | 'suggest' | 'adapt' | 'update' | null;
+  system?: string; // System prompt já renderizado (prompt-templates.ts); sem ele, o padrão
 };
 
 export type AIExecutor = (
   request: ChatRequest,
   apiKey: string
 ) => Promise<AIResponse>;
+
+// Recebe cada pedaço de texto assim que o provedor o envia
+export type TokenHandler = (delta: string) => void;
+
+export type AIStreamExecutor = (
+  request: ChatRequest,
+  apiKey: string,
+  onToken: TokenHandler
+) => Promise<AIResponse>;
+
+// Provedor + modelo (ex.: um passo de uma cadeia de fallback)
+export type AITarget = {
+  provider: AIProvider;
+  model: string;
+};
+
+// Preço em USD por 1K tokens
+export type ModelPricing = {
+  in: number;
+  out: number;
+};
+
+/**
+ * Chamada genérica (prompt livre), usada pelas operações de documento
+ * (melhorar, ajustar, adaptar, traduzir, normas)
+ */
+export type CompletionRequest = {
+  model: string;
+  prompt: string;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Resposta em JSON (response_format / responseMimeType)
+  webSearch?: boolean; // Busca na web quando o provedor suporta (Gemini: Google Search); desliga o modo JSON
+};
+
+export type CompletionResponse = {
+  provider: AIProvider;
+  model: string;
+  text: string;
+  finishReason: 'stop' | 'length' | 'blocked';
+  latencyMs: number;
+  tokensIn: number;
+  tokensOut: number;
+  costEstimatedUsd: number;
+  cached?: boolean; // Veio do cache de respostas (custo zero; ver cache.ts)
+};
+
+/**
+ * Vetores para busca semântica (ver lib/embeddings). Sem fallback entre
+ * modelos: vetores de modelos diferentes não são comparáveis.
+ */
+export type EmbeddingRequest = {
+  model: string;
+  texts: string[];
+};
+
+export type EmbeddingResponse = {
+  provider: AIProvider;
+  model: string;
+  vectors: number[][]; // Mesma ordem de request.texts
+  latencyMs: number;
+  tokensIn: number;
+  costEstimatedUsd: number;
+};
+
+/**
+ * Operações de documento que chamam a IA (escopo dos jobs, ledger, cache)
+ */
+export const AI_OPERATIONS = ['improve', 'update', 'translate', 'adjust', 'adapt'] as const;
+export type AIOperation = typeof AI_OPERATIONS[number];
+
+/**
+ * Interface comum de um provedor de IA. Todo acesso a modelos passa por aqui
+ * (ver lib/ai/registry.ts); adicionar um provedor = implementar e registrar.
+ */
+export interface AIProviderClient {
+  id: AIProvider;
+  label: string;
+  webSearch: boolean; // Atende CompletionRequest.webSearch (busca feita pelo próprio provedor)
+  isConfigured(): boolean;
+  chat(request: ChatRequest): Promise<AIResponse>;
+  stream(request: ChatRequest, onToken: TokenHandler): Promise<AIResponse>;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResponse>; // Só provedores com modelos de embedding
+  listModels(): Promise<string[]>;
+  pricing(model: string): ModelPricing;
+  testConnection(model?: string): Promise<{ model: string; latencyMs: number }>;
+}
+
+// O que cada provedor implementa; o registro completa o teste de conexão
+export type ProviderDefinition = Omit<AIProviderClient, 'testConnection'>;
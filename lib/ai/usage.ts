@@ -0,0 +1,141 @@
+import { db } from '../storage';
+import { currentAIScope } from './scope';
+import type { AIProvider } from './types';
+
+/**
+ * Ledger de custo de IA
+ *
+ * Cada chamada que respondeu (depois de retries/fallbacks) vira uma linha em
+ * ai_usage_ledger com o provedor/modelo que de fato respondeu, tokens e custo
+ * estimado (settings.pricesUSD), atribuída ao escopo atual: operação, usuário,
+ * tese/capítulo ou documento e job (ver scope.ts). Respostas do cache
+ * (cache.ts) entram com cache_hit e custo/tokens zero.
+ */
+
+export type UsageRecord = {
+  provider: AIProvider;
+  model: string;
+  tokensIn: number;
+  tokensOut: number;
+  costEstimatedUsd: number;
+};
+
+export type UsageFilter = {
+  userId?: string;
+  thesisId?: string;
+  jobId?: string;
+};
+
+export type UsageBreakdown = {
+  calls: number; // Chamadas pagas (sem os hits do cache)
+  cacheHits: number;
+  tokensIn: number;
+  tokensOut: number;
+  costUsd: number;
+};
+
+export type UsageSummary = UsageBreakdown & {
+  byOperation: Array<UsageBreakdown & { operation: string }>;
+  byMonth: Array<UsageBreakdown & { month: string; operations: Record<string, number> }>; // month: YYYY-MM (UTC)
+};
+
+/**
+ * Registra uma chamada no ledger e soma nos totais do escopo (metadata.usage do job).
+ * Falha ao gravar não interrompe a operação.
+ */
+export async function recordUsage(response: UsageRecord & { cached?: boolean }): Promise<void> {
+  const scope = currentAIScope();
+
+  if (scope && response.cached) {
+    scope.usage.cacheHits++;
+  } else if (scope) {
+    scope.usage.calls++;
+    scope.usage.tokensIn += response.tokensIn;
+    scope.usage.tokensOut += response.tokensOut;
+    scope.usage.costUsd += response.costEstimatedUsd;
+  }
+
+  const { error } = await db.from('ai_usage_ledger').insert({
+    provider: response.provider,
+    model: response.model,
+    tokens_in: response.tokensIn,
+    tokens_out: response.tokensOut,
+    cost_usd: response.costEstimatedUsd,
+    operation: scope?.operation || null,
+    user_id: scope?.userId || null,
+    thesis_id: scope?.thesisId || null,
+    chapter_id: scope?.chapterId || null,
+    document_id: scope?.documentId || null,
+    job_table: scope?.job?.table || null,
+    job_id: scope?.job?.id || null,
+    cache_hit: !!response.cached,
+    created_at: new Date().toISOString()
+  });
+
+  if (error) {
+    console.error(`[AI-USAGE] Failed to record ${response.provider}/${response.model} usage:`, error.message);
+  }
+}
+
+async function loadLedger(columns: string, filter: UsageFilter, since?: string): Promise<any[]> {
+  let query = db.from('ai_usage_ledger').select(columns);
+
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.thesisId) query = query.eq('thesis_id', filter.thesisId);
+  if (filter.jobId) query = query.eq('job_id', filter.jobId);
+  if (since) query = query.gte('created_at', since);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load AI usage: ${error.message}`);
+
+  return data || [];
+}
+
+/**
+ * Gasto total (USD) desde `since` (ISO; sem valor = desde sempre)
+ */
+export async function sumUsageCost(filter: UsageFilter, since?: string): Promise<number> {
+  const rows = await loadLedger('cost_usd', filter, since);
+  return rows.reduce((sum, row) => sum + Number(row.cost_usd || 0), 0);
+}
+
+/**
+ * Uso agregado por operação e por mês (painel em /settings)
+ */
+export async function getUsageSummary(filter: UsageFilter, since?: string): Promise<UsageSummary> {
+  const rows = await loadLedger('operation, tokens_in, tokens_out, cost_usd, cache_hit, created_at', filter, since);
+
+  const empty = (): UsageBreakdown => ({ calls: 0, cacheHits: 0, tokensIn: 0, tokensOut: 0, costUsd: 0 });
+  const add = (target: UsageBreakdown, row: any) => {
+    if (row.cache_hit) target.cacheHits++;
+    else target.calls++;
+    target.tokensIn += row.tokens_in || 0;
+    target.tokensOut += row.tokens_out || 0;
+    target.costUsd += Number(row.cost_usd || 0);
+  };
+
+  const total = empty();
+  const byOperation = new Map<string, UsageBreakdown & { operation: string }>();
+  const byMonth = new Map<string, UsageBreakdown & { month: string; operations: Record<string, number> }>();
+
+  for (const row of rows) {
+    const operation = row.operation || 'other';
+    const month = String(row.created_at).substring(0, 7);
+
+    add(total, row);
+
+    if (!byOperation.has(operation)) byOperation.set(operation, { operation, ...empty() });
+    add(byOperation.get(operation)!, row);
+
+    if (!byMonth.has(month)) byMonth.set(month, { month, ...empty(), operations: {} });
+    const monthEntry = byMonth.get(month)!;
+    add(monthEntry, row);
+    monthEntry.operations[operation] = (monthEntry.operations[operation] || 0) + Number(row.cost_usd || 0);
+  }
+
+  return {
+    ...total,
+    byOperation: Array.from(byOperation.values()).sort((a, b) => b.costUsd - a.costUsd),
+    byMonth: Array.from(byMonth.values()).sort((a, b) => b.month.localeCompare(a.month))
+  };
+}
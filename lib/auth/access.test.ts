@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { db } from '@/lib/storage';
+import { findChapterAccess, findThesisAccess, normalizeStoragePath, resolveUserStoragePath, roleCan } from './access';
+
+// Sessão não é usada aqui: os helpers recebem o userId
+vi.mock('@/auth', () => ({ auth: async () => null }));
+
+async function createUser(email: string) {
+  const { data } = await db.from('users').insert({ email, name: email, password_hash: 'x' }).select().single();
+  return data.id as string;
+}
+
+describe('roleCan', () => {
+  it('grants each role only its permissions', () => {
+    expect(roleCan('owner', 'manage')).toBe(true);
+    expect(roleCan('coauthor', 'edit')).toBe(true);
+    expect(roleCan('coauthor', 'manage')).toBe(false);
+    expect(roleCan('reviewer', 'review')).toBe(true);
+    expect(roleCan('reviewer', 'edit')).toBe(false);
+  });
+});
+
+describe('normalizeStoragePath', () => {
+  it('keeps and normalizes relative paths', () => {
+    expect(normalizeStoragePath('uploads/u1/file.docx')).toBe('uploads/u1/file.docx');
+    expect(normalizeStoragePath('uploads/u1/./sub//file.docx')).toBe('uploads/u1/sub/file.docx');
+  });
+
+  it.each([
+    '',
+    '.',
+    '/etc/passwd',
+    '../secret.docx',
+    'uploads/u1/../u2/file.docx',
+    'uploads/u1/../../autoria.sqlite',
+    'uploads\\u1\\file.docx',
+    'uploads/u1/file\0.docx'
+  ])('rejects %j', (filePath) => {
+    expect(normalizeStoragePath(filePath)).toBeNull();
+  });
+});
+
+describe('thesis access and storage paths', () => {
+  let owner: string;
+  let reviewer: string;
+  let stranger: string;
+  let thesisId: string;
+  let chapterId: string;
+
+  beforeAll(async () => {
+    owner = await createUser('owner@test.dev');
+    reviewer = await createUser('reviewer@test.dev');
+    stranger = await createUser('stranger@test.dev');
+
+    thesisId = (await db.from('theses').insert({ title: 'Tese', owner_id: owner }).select().single()).data.id;
+    await db.from('thesis_members').insert({ thesis_id: thesisId, user_id: reviewer, role: 'reviewer', invited_by: owner });
+    chapterId = (await db.from('chapters').insert({ thesis_id: thesisId, title: 'Cap', chapter_order: 1 }).select().single()).data.id;
+
+    const { data: document } = await db
+      .from('documents')
+      .insert({ title: 'Doc', file_path: 'docs/owned.docx', owner_id: owner })
+      .select()
+      .single();
+    await db.from('translation_jobs').insert({
+      document_id: document.id,
+      target_language: 'en',
+      provider: 'mock',
+      model: 'mock-1',
+      output_path: 'translated/owned_en.docx'
+    });
+  });
+
+  it('resolves the role of owners and members and hides the thesis from others', async () => {
+    expect((await findThesisAccess(thesisId, owner))?.role).toBe('owner');
+    expect((await findThesisAccess(thesisId, reviewer))?.role).toBe('reviewer');
+    expect(await findThesisAccess(thesisId, stranger)).toBeNull();
+
+    expect((await findChapterAccess(chapterId, reviewer))?.role).toBe('reviewer');
+    expect(await findChapterAccess(chapterId, stranger)).toBeNull();
+  });
+
+  it('allows own uploads, accessible theses and owned documents', async () => {
+    expect(await resolveUserStoragePath('documents', `uploads/${owner}/a.docx`, owner)).toBe(`uploads/${owner}/a.docx`);
+    expect(await resolveUserStoragePath('documents', `theses/${thesisId}/c.docx`, reviewer)).toBe(`theses/${thesisId}/c.docx`);
+    expect(await resolveUserStoragePath('documents', 'docs/owned.docx', owner)).toBe('docs/owned.docx');
+    expect(await resolveUserStoragePath('translations', 'translated/./owned_en.docx', owner)).toBe('translated/owned_en.docx');
+  });
+
+  it('denies paths of other users and other buckets', async () => {
+    expect(await resolveUserStoragePath('documents', `uploads/${owner}/a.docx`, stranger)).toBeNull();
+    expect(await resolveUserStoragePath('documents', `theses/${thesisId}/c.docx`, stranger)).toBeNull();
+    expect(await resolveUserStoragePath('documents', 'docs/owned.docx', stranger)).toBeNull();
+    expect(await resolveUserStoragePath('translations', 'translated/owned_en.docx', stranger)).toBeNull();
+    expect(await resolveUserStoragePath('translations', `uploads/${owner}/a.docx`, owner)).toBeNull();
+    expect(await resolveUserStoragePath('reference-materials', `uploads/${owner}/a.docx`, owner)).toBeNull();
+  });
+
+  it('denies traversal out of an allowed prefix', async () => {
+    expect(await resolveUserStoragePath('documents', `uploads/${stranger}/../${owner}/a.docx`, stranger)).toBeNull();
+    expect(await resolveUserStoragePath('documents', `theses/${thesisId}/../../uploads/${owner}/a.docx`, reviewer)).toBeNull();
+    expect(await resolveUserStoragePath('documents', `uploads/${stranger}/../../autoria.sqlite`, stranger)).toBeNull();
+  });
+});
@@ -0,0 +1,228 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { db } from '@/lib/storage';
+import { ThesisRole } from '@/lib/thesis/types';
+import path from 'path';
+
+/**
+ * Controle de acesso por dono (owner_id / created_by) e, nas teses, por papel
+ * de membro (thesis_members).
+ *
+ * Os helpers find* retornam null tanto para "não existe" quanto para
+ * "pertence a outro usuário", para que as rotas respondam 404 sem revelar
+ * a existência de dados alheios. Quem enxerga o recurso mas não tem o papel
+ * necessário recebe 403.
+ */
+
+/**
+ * read   -> ver tese, capítulos, versões e resultados de operações
+ * review -> comentar e aprovar sugestões
+ * edit   -> criar capítulos, enviar versões, rodar operações, compilar
+ * manage -> editar/excluir a tese, excluir capítulos, gerenciar membros
+ */
+export type ThesisPermission = 'read' | 'review' | 'edit' | 'manage';
+
+const ROLE_PERMISSIONS: Record<ThesisRole, ThesisPermission[]> = {
+  owner: ['read', 'review', 'edit', 'manage'],
+  coauthor: ['read', 'review', 'edit'],
+  reviewer: ['read', 'review']
+};
+
+export function roleCan(role: ThesisRole, permission: ThesisPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Id do usuário logado (ou null se não houver sessão)
+ */
+export async function getCurrentUserId(): Promise<string | null> {
+  const session = await auth();
+  return session?.user?.id || null;
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+}
+
+export function forbiddenResponse(permission: ThesisPermission) {
+  return NextResponse.json(
+    { error: `Forbidden: your role on this thesis does not allow '${permission}'` },
+    { status: 403 }
+  );
+}
+
+/**
+ * Tese + papel do usuário nela (dono via owner_id, demais via thesis_members)
+ */
+export async function findThesisAccess(thesisId: string, userId: string) {
+  const { data: thesis } = await db
+    .from('theses')
+    .select('*')
+    .eq('id', thesisId)
+    .maybeSingle();
+
+  if (!thesis) return null;
+
+  if (thesis.owner_id === userId) {
+    return { thesis, role: 'owner' as ThesisRole };
+  }
+
+  const { data: member } = await db
+    .from('thesis_members')
+    .select('role')
+    .eq('thesis_id', thesisId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!member) return null;
+
+  return { thesis, role: member.role as ThesisRole };
+}
+
+export async function findChapterAccess(chapterId: string, userId: string) {
+  const { data: chapter } = await db
+    .from('chapters')
+    .select('*')
+    .eq('id', chapterId)
+    .maybeSingle();
+
+  if (!chapter) return null;
+
+  const access = await findThesisAccess(chapter.thesis_id, userId);
+  if (!access) return null;
+
+  return { chapter, role: access.role };
+}
+
+export async function findChapterVersionAccess(versionId: string, userId: string) {
+  const { data: version } = await db
+    .from('chapter_versions')
+    .select('*')
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (!version) return null;
+
+  const access = await findChapterAccess(version.chapter_id, userId);
+  if (!access) return null;
+
+  return { version, chapter: access.chapter, role: access.role };
+}
+
+export async function findOwnedProject(projectId: string, userId: string) {
+  const { data } = await db
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  return data || null;
+}
+
+export async function findOwnedDocument(documentId: string, userId: string) {
+  const { data } = await db
+    .from('documents')
+    .select('*')
+    .eq('id', documentId)
+    .eq('owner_id', userId)
+    .maybeSingle();
+
+  return data || null;
+}
+
+export async function findOwnedPipelineJob(jobId: string, userId: string) {
+  const { data } = await db
+    .from('pipeline_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('created_by', userId)
+    .maybeSingle();
+
+  return data || null;
+}
+
+/**
+ * Jobs ligados a um documento (translation_jobs, improvement_jobs, norm_update_jobs):
+ * o acesso é herdado do documento.
+ */
+export async function findOwnedDocumentJob(
+  table: 'translation_jobs' | 'improvement_jobs' | 'norm_update_jobs',
+  jobId: string,
+  userId: string
+) {
+  const { data: job } = await db
+    .from(table)
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (!job || !(await findOwnedDocument(job.document_id, userId))) {
+    return null;
+  }
+
+  return job;
+}
+
+/**
+ * Caminho de Storage relativo à raiz do bucket, ou null se ele puder sair do
+ * prefixo verificado: segmentos "..", caminho absoluto, barra invertida ou NUL.
+ * O backend local resolve o caminho no filesystem, então "uploads/<eu>/../<outro>"
+ * passaria na comparação de prefixo e devolveria o arquivo de outro usuário.
+ */
+export function normalizeStoragePath(filePath: string): string | null {
+  if (!filePath || filePath.startsWith('/') || /[\\\0]/.test(filePath)) return null;
+  if (filePath.split('/').includes('..')) return null;
+
+  const normalized = path.posix.normalize(filePath);
+  if (normalized === '.' || normalized.startsWith('/') || normalized.split('/').includes('..')) return null;
+
+  return normalized;
+}
+
+/**
+ * Caminhos de Storage aceitos pelas rotas genéricas de download/extração,
+ * sempre ligados a um bucket:
+ * - documents: uploads do próprio usuário, arquivos dos documentos dele ou
+ *   de teses em que ele é membro
+ * - translations: saída de um job de tradução de documento dele
+ *
+ * Retorna o caminho normalizado (o que deve ser baixado) ou null.
+ */
+export async function resolveUserStoragePath(
+  bucket: string,
+  filePath: string,
+  userId: string
+): Promise<string | null> {
+  const normalized = normalizeStoragePath(filePath);
+  if (!normalized) return null;
+
+  if (bucket === 'translations') {
+    const { data: translation } = await db
+      .from('translation_jobs')
+      .select('document_id')
+      .eq('output_path', normalized)
+      .limit(1);
+
+    if (!translation || translation.length === 0) return null;
+    return (await findOwnedDocument(translation[0].document_id, userId)) ? normalized : null;
+  }
+
+  if (bucket !== 'documents') return null;
+
+  if (normalized.startsWith(`uploads/${userId}/`)) return normalized;
+
+  const thesisMatch = normalized.match(/^theses\/([^/]+)\//);
+  if (thesisMatch) {
+    return (await findThesisAccess(thesisMatch[1], userId)) ? normalized : null;
+  }
+
+  const { data: document } = await db
+    .from('documents')
+    .select('id')
+    .eq('file_path', normalized)
+    .eq('owner_id', userId)
+    .limit(1);
+
+  return document && document.length > 0 ? normalized : null;
+}
@@ -0,0 +1,131 @@
+import bcrypt from 'bcryptjs';
+import { db } from '@/lib/storage';
+
+const BCRYPT_ROUNDS = 12;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type User = {
+  id: string;
+  email: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export class UserError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'UserError';
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function validatePassword(password: string): void {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserError(`A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`);
+  }
+}
+
+/**
+ * Cria usuário com senha em hash bcrypt
+ */
+export async function createUser(input: { email: string; password: string; name?: string }): Promise<User> {
+  const email = normalizeEmail(input.email || '');
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new UserError('Email inválido');
+  }
+  validatePassword(input.password);
+
+  const { data: existing } = await db
+    .from('users')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existing) {
+    throw new UserError('Email já cadastrado', 409);
+  }
+
+  const passwordHash = await bcrypt.hash(input.password, BCRYPT_ROUNDS);
+
+  const { data: user, error } = await db
+    .from('users')
+    .insert({
+      email,
+      name: input.name?.trim() || email.split('@')[0],
+      password_hash: passwordHash
+    })
+    .select('id, email, name, created_at, updated_at')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new UserError('Email já cadastrado', 409);
+    throw new Error(`Failed to create user: ${error.message}`);
+  }
+
+  console.log(`[USERS] Created user: ${user.id} (${user.email})`);
+  return user;
+}
+
+/**
+ * Valida email/senha. Retorna null se as credenciais forem inválidas.
+ */
+export async function verifyCredentials(email: string, password: string): Promise<User | null> {
+  if (!email || !password) return null;
+
+  const { data: user } = await db
+    .from('users')
+    .select('*')
+    .eq('email', normalizeEmail(email))
+    .maybeSingle();
+
+  if (!user || !(await bcrypt.compare(password, user.password_hash))) {
+    return null;
+  }
+
+  const { password_hash, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Troca a senha após conferir a senha atual
+ */
+export async function changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+  const { data: user } = await db
+    .from('users')
+    .select('id, password_hash')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!user) {
+    throw new UserError('Usuário não encontrado', 404);
+  }
+
+  if (!(await bcrypt.compare(currentPassword || '', user.password_hash))) {
+    throw new UserError('Senha atual incorreta', 403);
+  }
+
+  validatePassword(newPassword);
+
+  const { error } = await db
+    .from('users')
+    .update({ password_hash: await bcrypt.hash(newPassword, BCRYPT_ROUNDS) })
+    .eq('id', userId);
+
+  if (error) throw new Error(`Failed to change password: ${error.message}`);
+
+  console.log(`[USERS] Password changed for user: ${userId}`);
+}
+
+export async function getUserById(userId: string): Promise<User | null> {
+  const { data } = await db
+    .from('users')
+    .select('id, email, name, created_at, updated_at')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return data || null;
+}
@@ -0,0 +1,196 @@
+/**
+ * Chat context - Trechos enviados à IA em /api/chat e /api/chat/stream
+ *
+ * Responsibilities:
+ * - Validar acesso ao documento / versões de capítulo
+ * - Buscar os trechos relevantes (documento único ou múltiplos capítulos)
+ * - Em conversas, reescrever a pergunta com o histórico antes da busca
+ * - Montar as fontes exibidas no chat e o modo de citação
+ */
+
+import { searchIndex, type Chunk } from './state';
+import { ensureDocumentInMemory } from './document-loader';
+import { findChapterVersionAccess, findOwnedDocument } from './auth/access';
+import { buildMultiChapterContext, determineCitationMode } from './thesis/context-builder';
+import type { ChunkRelevance, CitationDisplayMode, ContextSearchMode } from './thesis/types';
+import { completeAI } from './ai/executor';
+import { renderPrompt } from './ai/prompt-templates';
+import type { AITarget, ChatTurn } from './ai/types';
+
+export class ChatContextError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ChatContextError';
+  }
+}
+
+export type ChatSource = {
+  chunkId: string; // Liga as citações verificadas (Citation.chunkId) ao capítulo/versão
+  chapterOrder: number;
+  chapterTitle: string;
+  versionNumber: number;
+  pageFrom: number;
+  pageTo: number;
+  sectionPath?: string[];
+  excerpt: string;
+  relevance?: ChunkRelevance;
+};
+
+export type ChatContext = {
+  chunks: Chunk[];
+  citationMode?: CitationDisplayMode;
+  sources?: ChatSource[]; // Só no modo capítulos
+  thesisId?: string; // Tese dos capítulos consultados (custo atribuído a ela no ledger)
+  retrievalQuery: string; // Texto usado na busca (a pergunta, ou a reescrita com o histórico)
+};
+
+// Respostas longas do histórico entram cortadas no prompt de reescrita
+const REWRITE_ANSWER_CHARS = 500;
+
+/**
+ * Pergunta de acompanhamento ("e no capítulo 3?") vira uma consulta autônoma
+ * para a busca. Sem histórico ou se a reescrita falhar, usa a pergunta.
+ */
+export async function rewriteRetrievalQuery(
+  question: string,
+  history: ChatTurn[],
+  target: AITarget
+): Promise<string> {
+  if (history.length === 0) return question;
+
+  const historyText = history
+    .map(turn => turn.role === 'user'
+      ? `Usuário: ${turn.content}`
+      : `Assistente: ${turn.content.replace(/\s+/g, ' ').substring(0, REWRITE_ANSWER_CHARS)}`)
+    .join('\n');
+
+  try {
+    const completion = await completeAI(target.provider, {
+      model: target.model,
+      prompt: await renderPrompt('chat.rewrite_query', { history: historyText, question }),
+      temperature: 0,
+      maxTokens: 200
+    }, { maxRetries: 1 });
+
+    const rewritten = completion.text.trim().split('\n')[0].trim();
+    console.log(`[CHAT] Retrieval query: "${question}" → "${rewritten}"`);
+    return rewritten || question;
+  } catch (error: any) {
+    console.warn(`[CHAT] Query rewrite failed, using the question: ${error.message}`);
+    return question;
+  }
+}
+
+export async function resolveChatContext(
+  params: {
+    documentId?: string;
+    chapterVersionIds?: string[];
+    question: string;
+    searchMode: ContextSearchMode;
+    thesisId?: string; // Conversa: as versões precisam ser desta tese
+    history?: ChatTurn[]; // Conversa: turnos anteriores
+    rewriteWith?: AITarget; // Modelo que reescreve a pergunta com o histórico
+  },
+  userId: string
+): Promise<ChatContext> {
+  const { documentId, chapterVersionIds, searchMode, history = [], rewriteWith } = params;
+
+  // Só depois de validar o acesso (a reescrita é uma chamada paga)
+  const retrievalQuery = () => rewriteWith
+    ? rewriteRetrievalQuery(params.question, history, rewriteWith)
+    : Promise.resolve(params.question);
+
+  // Sistema novo: múltiplos capítulos
+  if (chapterVersionIds && chapterVersionIds.length > 0) {
+    console.log(`[CHAT] Multi-chapter mode: ${chapterVersionIds.length} versions (${searchMode})`);
+
+    const thesisIds = new Set<string>();
+    for (const versionId of chapterVersionIds) {
+      const access = await findChapterVersionAccess(versionId, userId);
+      if (!access) {
+        throw new ChatContextError(`Chapter version not found: ${versionId}`, 404);
+      }
+      if (params.thesisId && access.chapter.thesis_id !== params.thesisId) {
+        throw new ChatContextError('Chapter versions must belong to the conversation thesis');
+      }
+      thesisIds.add(access.chapter.thesis_id);
+    }
+
+    const question = await retrievalQuery();
+
+    const contextResult = await buildMultiChapterContext(
+      { chapter_version_ids: chapterVersionIds, search_mode: searchMode },
+      question
+    );
+
+    if (!contextResult || contextResult.chunks.length === 0) {
+      throw new ChatContextError('No relevant context found');
+    }
+
+    // Converte chunks para formato esperado pela AI
+    const chunks = contextResult.chunks.map((chunk, ix) => ({
+      ix,
+      text: chunk.text,
+      pageFrom: chunk.page_from,
+      pageTo: chunk.page_to,
+      sectionPath: chunk.section_path || undefined,
+      source: { chunkId: chunk.id, chapterId: chunk.chapter_id, chapterVersionId: chunk.chapter_version_id },
+      metadata: {
+        chapterTitle: chunk.chapter_title,
+        chapterOrder: chunk.chapter_order,
+        versionNumber: chunk.version_number
+      }
+    }));
+
+    // Trechos usados e por que foram escolhidos (scores da busca)
+    const sources = contextResult.chunks.map(chunk => ({
+      chunkId: chunk.id,
+      chapterOrder: chunk.chapter_order,
+      chapterTitle: chunk.chapter_title,
+      versionNumber: chunk.version_number,
+      pageFrom: chunk.page_from,
+      pageTo: chunk.page_to,
+      sectionPath: chunk.section_path || undefined,
+      excerpt: chunk.text.substring(0, 240),
+      relevance: chunk.relevance
+    }));
+
+    // Determina modo de citação
+    const citationMode = determineCitationMode(contextResult);
+
+    console.log(`[CHAT] Found ${chunks.length} chunks from ${contextResult.chapters_included.length} chapters`);
+    console.log(`[CHAT] Citation mode: ${citationMode}`);
+
+    return {
+      chunks,
+      citationMode,
+      sources,
+      thesisId: thesisIds.size === 1 ? Array.from(thesisIds)[0] : undefined,
+      retrievalQuery: question
+    };
+  }
+
+  // Sistema antigo: documento único
+  if (documentId) {
+    if (params.thesisId) {
+      throw new ChatContextError('Conversations require chapterVersionIds');
+    }
+
+    console.log(`[CHAT] Single document mode: ${documentId}`);
+
+    const doc = (await findOwnedDocument(documentId, userId))
+      ? await ensureDocumentInMemory(documentId)
+      : null;
+
+    if (!doc) throw new ChatContextError('Document not found', 404);
+
+    const question = await retrievalQuery();
+
+    const chunks = searchIndex(doc.index, doc.chunks, question, 8);
+    if (chunks.length === 0) throw new ChatContextError('No relevant context found');
+
+    return { chunks, retrievalQuery: question };
+  }
+
+  throw new ChatContextError('Missing required fields: (documentId or chapterVersionIds)');
+}
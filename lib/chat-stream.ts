@@ -0,0 +1,67 @@
+import { readSSE } from './sse';
+import type { AIResponse } from './ai/types';
+import type { JudgmentResult } from './ai/judge';
+import type { ChatSource } from './chat-context';
+import type { CitationDisplayMode } from './thesis/types';
+
+/**
+ * Cliente de POST /api/chat/stream (usado pelas telas de chat)
+ */
+
+export type ChatStreamHandlers = {
+  onContext?: (context: { citationMode?: CitationDisplayMode; sources?: ChatSource[]; retrievalQuery?: string }) => void;
+  onToken: (provider: string, delta: string) => void;
+  onAnswer: (answer: AIResponse) => void;
+  onJudgment?: (judged: { judgment: JudgmentResult | null; error?: string }) => void;
+  onDone?: (done: ChatStreamDone) => void;
+};
+
+// Em conversas, ids das mensagens gravadas
+export type ChatStreamDone = {
+  answers: number;
+  conversationId?: string;
+  questionId?: string;
+  answerIds?: string[];
+};
+
+export async function streamChat(body: Record<string, unknown>, handlers: ChatStreamHandlers): Promise<void> {
+  const res = await fetch('/api/chat/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.error || 'Falha na consulta');
+  }
+
+  let streamError: string | null = null;
+
+  await readSSE(res, ({ event, data }) => {
+    const payload = JSON.parse(data);
+
+    switch (event) {
+      case 'context':
+        handlers.onContext?.(payload);
+        break;
+      case 'token':
+        handlers.onToken(payload.provider, payload.delta);
+        break;
+      case 'answer':
+        handlers.onAnswer(payload);
+        break;
+      case 'judgment':
+        handlers.onJudgment?.(payload);
+        break;
+      case 'done':
+        handlers.onDone?.(payload);
+        break;
+      case 'error':
+        streamError = payload.error;
+        break;
+    }
+  });
+
+  if (streamError) throw new Error(streamError);
+}
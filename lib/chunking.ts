@@ -1,4 +1,5 @@
 import { Chunk } from './state';
+import type { DocumentBlock, ParseResult } from './parsers';
 
 export type ChunkingOptions = {
   minSize?: number;
@@ -6,17 +7,16 @@ export type ChunkingOptions = {
   overlap?: number;
 };
 
-// Faz chunking do texto com overlap
-export function chunkText(
-  text: string,
-  totalPages: number,
-  options: ChunkingOptions = {}
-): Chunk[] {
-  const { minSize = 900, maxSize = 1200, overlap = 200 } = options;
+type TextSpan = {
+  start: number;
+  end: number;
+  text: string;
+};
 
-  const chunks: Chunk[] = [];
+// Janelas de até maxSize caracteres com overlap, quebrando em linha ou espaço
+function splitText(text: string, minSize: number, maxSize: number, overlap: number): TextSpan[] {
+  const spans: TextSpan[] = [];
   let currentPos = 0;
-  let chunkIndex = 0;
 
   while (currentPos < text.length) {
     let endPos = Math.min(currentPos + maxSize, text.length);
@@ -33,25 +33,142 @@ export function chunkText(
       }
     }
 
-    const chunkText = text.substring(currentPos, endPos).trim();
-
-    if (chunkText.length > 0) {
-      // Estimativa simples de página baseada na posição
-      const pageProgress = currentPos / text.length;
-      const pageFrom = Math.max(1, Math.floor(pageProgress * totalPages) + 1);
-      const pageTo = Math.min(totalPages, Math.ceil((endPos / text.length) * totalPages) + 1);
-
-      chunks.push({
-        ix: chunkIndex++,
-        pageFrom,
-        pageTo,
-        text: chunkText
-      });
+    const spanText = text.substring(currentPos, endPos).trim();
+    if (spanText.length > 0) {
+      spans.push({ start: currentPos, end: endPos, text: spanText });
     }
 
     currentPos = endPos - overlap;
     if (currentPos <= 0 || endPos >= text.length) break;
   }
 
+  return spans;
+}
+
+// Faz chunking do texto com overlap
+export function chunkText(
+  text: string,
+  totalPages: number,
+  options: ChunkingOptions = {}
+): Chunk[] {
+  const { minSize = 900, maxSize = 1200, overlap = 200 } = options;
+
+  return splitText(text, minSize, maxSize, overlap).map((span, chunkIndex) => {
+    // Estimativa simples de página baseada na posição
+    const pageProgress = span.start / text.length;
+    const pageFrom = Math.max(1, Math.floor(pageProgress * totalPages) + 1);
+    const pageTo = Math.min(totalPages, Math.ceil((span.end / text.length) * totalPages) + 1);
+
+    return {
+      ix: chunkIndex,
+      pageFrom,
+      pageTo,
+      text: span.text
+    };
+  });
+}
+
+/**
+ * Chunking pela estrutura do documento: um chunk nunca atravessa um título,
+ * parágrafos e tabelas só são quebrados quando sozinhos passam de maxSize,
+ * e as páginas vêm dos blocos (não de interpolação).
+ */
+export function chunkBlocks(blocks: DocumentBlock[], options: ChunkingOptions = {}): Chunk[] {
+  const { minSize = 900, maxSize = 1200, overlap = 200 } = options;
+
+  const chunks: Chunk[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let current: DocumentBlock[] = [];
+  let currentPath: string[] | null = null;
+  // Se o chunk atual tem conteúdo novo (além de títulos e do overlap herdado)
+  let hasContent = false;
+
+  const sectionPath = () => headings.map(h => h.text);
+
+  const emit = () => {
+    chunks.push({
+      ix: chunks.length,
+      pageFrom: Math.min(...current.map(block => block.pageFrom)),
+      pageTo: Math.max(...current.map(block => block.pageTo)),
+      text: current.map(block => block.text).join('\n\n'),
+      sectionPath: currentPath || sectionPath()
+    });
+  };
+
+  const flush = (carryOverlap: boolean) => {
+    if (!hasContent) return;
+    emit();
+
+    // Overlap: o último bloco do chunk anterior abre o próximo, se for curto
+    const last = current[current.length - 1];
+    current = carryOverlap && last.text.length <= overlap ? [last] : [];
+    hasContent = false;
+    if (current.length === 0) currentPath = null;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      // Títulos seguidos (capítulo + seção) ficam juntos no mesmo chunk
+      flush(false);
+      current = current.filter(b => b.type === 'heading');
+      currentPath = null;
+
+      const level = block.level || 1;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, text: block.text });
+
+      current.push(block);
+      continue;
+    }
+
+    const text = block.type === 'footnote' ? `[Nota de rodapé] ${block.text}` : block.text;
+    const currentLength = current.reduce((sum, b) => sum + b.text.length + 2, 0);
+
+    if (text.length > maxSize) {
+      flush(false);
+
+      // Bloco grande sozinho (com os títulos pendentes): janelas de texto,
+      // páginas interpoladas dentro do próprio bloco
+      const pending = current.filter(b => b.type === 'heading');
+      const fullText = [...pending.map(b => b.text), text].join('\n\n');
+      const pageFrom = Math.min(block.pageFrom, ...pending.map(b => b.pageFrom));
+      const pageSpan = block.pageTo - pageFrom;
+
+      for (const span of splitText(fullText, minSize, maxSize, overlap)) {
+        chunks.push({
+          ix: chunks.length,
+          pageFrom: pageFrom + Math.floor((span.start / fullText.length) * pageSpan),
+          pageTo: pageFrom + Math.min(pageSpan, Math.floor((span.end / fullText.length) * pageSpan)),
+          text: span.text,
+          sectionPath: sectionPath()
+        });
+      }
+
+      current = [];
+      currentPath = null;
+      continue;
+    }
+
+    if (hasContent && currentLength + text.length > maxSize) {
+      flush(true);
+    }
+
+    current.push({ ...block, text });
+    hasContent = true;
+    if (!currentPath) currentPath = sectionPath();
+  }
+
+  // Documento terminando em título também vira chunk
+  if (hasContent || current.length > 0) emit();
   return chunks;
 }
+
+/**
+ * Chunks de um documento parseado: usa a estrutura quando o parser a fornece
+ */
+export function chunkDocument(parseResult: ParseResult, options: ChunkingOptions = {}): Chunk[] {
+  if (parseResult.blocks && parseResult.blocks.length > 0) {
+    return chunkBlocks(parseResult.blocks, options);
+  }
+  return chunkText(parseResult.text, parseResult.pages, options);
+}
@@ -1,7 +1,7 @@
 import { state, buildIndex } from './state';
-import { supabase } from './supabase';
+import { db, storage } from '@/lib/storage';
 import { parseDocument } from './parsers';
-import { chunkText } from './chunking';
+import { chunkDocument } from './chunking';
 
 /**
  * Garante que o documento está carregado em memória.
@@ -16,7 +16,7 @@ export async function ensureDocumentInMemory(documentId: string) {
   console.log(`[DocumentLoader] Loading document ${documentId} from Supabase...`);
 
   // Busca metadados do banco
-  const { data: doc, error: dbError } = await supabase
+  const { data: doc, error: dbError } = await db
     .from('documents')
     .select('*')
     .eq('id', documentId)
@@ -27,7 +27,7 @@ export async function ensureDocumentInMemory(documentId: string) {
   }
 
   // Baixa arquivo do Storage
-  const { data: fileBuffer, error: storageError } = await supabase.storage
+  const { data: fileBuffer, error: storageError } = await storage
     .from('documents')
     .download(doc.file_path);
 
@@ -40,8 +40,7 @@ export async function ensureDocumentInMemory(documentId: string) {
   const buffer = Buffer.from(arrayBuffer);
 
   // Processa documento (parse + chunk + index)
-  const { text, pages } = await parseDocument(buffer, doc.title);
-  const chunks = chunkText(text, pages);
+  const chunks = chunkDocument(await parseDocument(buffer, doc.title));
 
   // Cria índice BM25 usando função do state.ts
   const index = buildIndex(chunks);
@@ -0,0 +1,195 @@
+import { splitDocumentBody, unescapeXml, xmlText } from './docx-xml';
+import { headerLevelFromStyle } from './improvement/document-analyzer';
+import type { DocumentBlock } from './parsers';
+
+/**
+ * Blocos estruturais de um DOCX (títulos, parágrafos, tabelas e notas de
+ * rodapé) com as páginas em que aparecem.
+ *
+ * Páginas: se o Word salvou a paginação (w:lastRenderedPageBreak), ela é a
+ * fonte da verdade. Sem ela (DOCX gerado por outras ferramentas) usamos as
+ * quebras explícitas (w:br de página, pageBreakBefore, quebras de seção) e,
+ * entre elas, a estimativa de ~500 palavras por página.
+ */
+
+const WORDS_PER_PAGE = 500;
+
+const MARKER_REGEX = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:lastRenderedPageBreak\s*\/>|<w:br\s[^>]*w:type="page"[^>]*\/>|<w:pageBreakBefore(?:\s+w:val="([^"]*)")?\s*\/>|<w:footnoteReference\s[^>]*w:id="(-?\d+)"[^>]*\/>/g;
+const PARAGRAPH_REGEX = /<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g;
+const ROW_REGEX = /<w:tr(?:\s[^>]*)?>[\s\S]*?<\/w:tr>/g;
+const CELL_REGEX = /<w:tc(?:\s[^>]*)?>[\s\S]*?<\/w:tc>/g;
+
+type PageCursor = {
+  page: number;
+  wordsOnPage: number;
+  rendered: boolean;
+  // Quebra de seção pendente: a próxima seção começa em nova página
+  pendingBreak: boolean;
+};
+
+type Span = {
+  pageFrom: number;
+  pageTo: number;
+  footnoteRefs: Array<{ id: string; page: number }>;
+};
+
+function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+function newPage(cursor: PageCursor): void {
+  cursor.page++;
+  cursor.wordsOnPage = 0;
+}
+
+/**
+ * Percorre o XML de um elemento em ordem, avançando o cursor nas quebras de página.
+ * pageFrom/pageTo são as páginas do primeiro e do último texto do elemento.
+ */
+function scanElement(xml: string, text: string, cursor: PageCursor): Span {
+  if (cursor.pendingBreak) {
+    newPage(cursor);
+    cursor.pendingBreak = false;
+  }
+  if (!cursor.rendered && cursor.wordsOnPage >= WORDS_PER_PAGE) newPage(cursor);
+
+  let pageFrom: number | null = null;
+  let pageTo = cursor.page;
+  const footnoteRefs: Span['footnoteRefs'] = [];
+
+  for (const match of xml.matchAll(MARKER_REGEX)) {
+    const marker = match[0];
+
+    if (marker.startsWith('<w:t')) {
+      if (!match[1].trim()) continue;
+      if (pageFrom === null) pageFrom = cursor.page;
+      pageTo = cursor.page;
+    } else if (marker.startsWith('<w:footnoteReference')) {
+      footnoteRefs.push({ id: match[3], page: cursor.page });
+    } else if (marker.startsWith('<w:lastRenderedPageBreak')) {
+      if (cursor.rendered) newPage(cursor);
+    } else if (marker.startsWith('<w:pageBreakBefore')) {
+      if (!cursor.rendered && match[2] !== '0' && match[2] !== 'false') newPage(cursor);
+    } else if (!cursor.rendered) {
+      newPage(cursor);
+    }
+  }
+
+  // Estimativa entre quebras explícitas: o bloco pode transbordar para as páginas seguintes
+  if (!cursor.rendered) {
+    const total = cursor.wordsOnPage + countWords(text);
+    const overflow = Math.floor(Math.max(0, total - 1) / WORDS_PER_PAGE);
+    cursor.page += overflow;
+    cursor.wordsOnPage = total - overflow * WORDS_PER_PAGE;
+    pageTo += overflow;
+  }
+
+  return { pageFrom: pageFrom ?? cursor.page, pageTo: Math.max(pageTo, pageFrom ?? cursor.page), footnoteRefs };
+}
+
+/**
+ * Tipo de cada seção (w:sectPr em ordem). A seção i+1 só começa em nova página
+ * se o seu tipo não for "continuous" (ausente = nextPage).
+ */
+function sectionTypes(elements: Array<{ xml: string }>): string[] {
+  const types: string[] = [];
+  for (const element of elements) {
+    for (const sectPr of element.xml.matchAll(/<w:sectPr[\s>][\s\S]*?<\/w:sectPr>|<w:sectPr\s*\/>/g)) {
+      types.push(sectPr[0].match(/<w:type\s+w:val="([^"]+)"/)?.[1] || 'nextPage');
+    }
+  }
+  return types;
+}
+
+function tableText(xml: string): string {
+  return Array.from(xml.matchAll(ROW_REGEX))
+    .map(row => Array.from(row[0].matchAll(CELL_REGEX)).map(cell => xmlText(cell[0]).trim()).join(' | '))
+    .filter(row => row.replace(/[|\s]/g, ''))
+    .join('\n');
+}
+
+/**
+ * Texto das notas de rodapé por id (ignora separadores)
+ */
+function parseFootnotes(footnotesXml?: string): Map<string, string> {
+  const footnotes = new Map<string, string>();
+  if (!footnotesXml) return footnotes;
+
+  for (const match of footnotesXml.matchAll(/<w:footnote\s([^>]*)>([\s\S]*?)<\/w:footnote>/g)) {
+    const id = match[1].match(/w:id="(-?\d+)"/)?.[1];
+    if (!id || /w:type="/.test(match[1])) continue;
+
+    const text = Array.from(match[2].matchAll(PARAGRAPH_REGEX))
+      .map(p => xmlText(p[0]).trim())
+      .filter(Boolean)
+      .join(' ');
+    if (text) footnotes.set(id, text);
+  }
+
+  return footnotes;
+}
+
+/**
+ * Extrai os blocos de word/document.xml (e word/footnotes.xml, se houver).
+ * Notas de rodapé entram logo após o parágrafo que as referencia.
+ */
+export function extractDocxBlocks(documentXml: string, footnotesXml?: string): { blocks: DocumentBlock[]; pages: number } {
+  const { elements } = splitDocumentBody(documentXml);
+  const footnotes = parseFootnotes(footnotesXml);
+  const sections = sectionTypes(elements);
+
+  const cursor: PageCursor = {
+    page: 1,
+    wordsOnPage: 0,
+    rendered: /<w:lastRenderedPageBreak\s*\/>/.test(documentXml),
+    pendingBreak: false
+  };
+
+  const blocks: DocumentBlock[] = [];
+  let sectionIndex = 0;
+
+  const addParagraph = (xml: string) => {
+    const text = xmlText(xml).trim();
+    const span = scanElement(xml, text, cursor);
+
+    if (text) {
+      const style = xml.match(/<w:pStyle\s+w:val="([^"]+)"/)?.[1];
+      const level = style ? headerLevelFromStyle(unescapeXml(style)) : null;
+
+      blocks.push(level !== null
+        ? { type: 'heading', text, level, pageFrom: span.pageFrom, pageTo: span.pageTo }
+        : { type: 'paragraph', text, pageFrom: span.pageFrom, pageTo: span.pageTo });
+    }
+
+    for (const ref of span.footnoteRefs) {
+      const footnote = footnotes.get(ref.id);
+      if (footnote) blocks.push({ type: 'footnote', text: footnote, pageFrom: ref.page, pageTo: ref.page });
+    }
+
+    // Parágrafo com w:sectPr fecha uma seção
+    if (/<w:sectPr[\s>/]/.test(xml)) {
+      sectionIndex++;
+      if (!cursor.rendered && sections[sectionIndex] !== 'continuous') cursor.pendingBreak = true;
+    }
+  };
+
+  for (const element of elements) {
+    if (element.tag === 'w:p') {
+      addParagraph(element.xml);
+    } else if (element.tag === 'w:tbl') {
+      const text = tableText(element.xml);
+      const span = scanElement(element.xml, text, cursor);
+      if (text) blocks.push({ type: 'table', text, pageFrom: span.pageFrom, pageTo: span.pageTo });
+    } else if (element.tag !== 'w:sectPr') {
+      // w:sdt (sumário, controles de conteúdo) e afins: parágrafos internos
+      for (const paragraph of element.xml.matchAll(PARAGRAPH_REGEX)) {
+        addParagraph(paragraph[0]);
+      }
+    }
+  }
+
+  // Quebras depois do último texto não criam páginas
+  const pages = blocks.reduce((max, block) => Math.max(max, block.pageTo), 1);
+  return { blocks, pages };
+}
@@ -0,0 +1,147 @@
+import { Document, Packer, Paragraph, TextRun } from 'docx';
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { applyTrackedChangesToDocx, isApplyMode, trackChangesAuthor } from './docx-track-changes';
+
+const DATE = new Date('2026-03-10T14:30:00.123Z');
+
+async function fixture(): Promise<Buffer> {
+  return Packer.toBuffer(new Document({
+    sections: [{
+      children: [
+        new Paragraph('Introdução'),
+        new Paragraph({ children: [new TextRun('O estudo analisa a '), new TextRun({ text: 'politica educacional', bold: true }), new TextRun(' recente.')] }),
+        new Paragraph({ children: [new TextRun('Os dados'), new TextRun({ text: 'coletados', break: 1 }), new TextRun(' em 2022.')] })
+      ]
+    }]
+  }));
+}
+
+async function parts(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  const read = (name: string) => zip.file(name)?.async('string') ?? Promise.resolve(undefined);
+  return {
+    document: (await read('word/document.xml'))!,
+    comments: await read('word/comments.xml'),
+    contentTypes: (await read('[Content_Types].xml'))!,
+    rels: (await read('word/_rels/document.xml.rels'))!
+  };
+}
+
+const ids = (xml: string, tag: string) =>
+  Array.from(xml.matchAll(new RegExp(`<${tag} w:id="(\\d+)"`, 'g')), match => match[1]);
+
+describe('applyTrackedChangesToDocx', () => {
+  it('writes accepted changes as w:del/w:ins revisions, also across runs', async () => {
+    const { buffer, applied } = await applyTrackedChangesToDocx(await fixture(), [
+      { originalText: 'Introdução', newText: 'Introduction' },
+      { originalText: 'analisa a politica', newText: 'analisa a política' }
+    ], { author: 'Autoria IA', date: DATE });
+
+    expect(applied).toBe(2);
+    const { document, comments } = await parts(buffer);
+
+    expect(document).toContain('<w:del w:id="');
+    expect(document).toMatch(/<w:del [^>]*w:author="Autoria IA" w:date="2026-03-10T14:30:00Z">/);
+    expect(document).toMatch(/<w:ins [^>]*w:author="Autoria IA" w:date="2026-03-10T14:30:00Z">/);
+
+    const deleted = Array.from(document.matchAll(/<w:delText[^>]*>([^<]*)<\/w:delText>/g), m => m[1]);
+    const inserted = Array.from(document.matchAll(/<w:ins [^>]*>[\s\S]*?<w:t[^>]*>([^<]*)<\/w:t>[\s\S]*?<\/w:ins>/g), m => m[1]);
+    expect(deleted).toEqual(['Introdução', 'analisa a ', 'politica']);
+    expect(inserted).toEqual(['Introduction', 'analisa a política']);
+
+    // Texto fora do trecho fica nos runs originais
+    expect(document).toContain('>O estudo </w:t>');
+    expect(document).toContain('> educacional</w:t>');
+
+    // Sem comentários, o comments.xml (vazio no fixture) fica como estava
+    expect(comments).not.toContain('<w:comment ');
+
+    // Ids das revisões não se repetem
+    const revisionIds = [...ids(document, 'w:del'), ...ids(document, 'w:ins')];
+    expect(new Set(revisionIds).size).toBe(revisionIds.length);
+  });
+
+  it('skips suggestions whose text is missing or spans complex runs', async () => {
+    const { buffer, applied } = await applyTrackedChangesToDocx(await fixture(), [
+      { originalText: 'Um parágrafo que não existe', newText: 'Nada', comment: 'Não se aplica' },
+      { originalText: 'dadoscoletados', newText: 'dados coletados' },
+      { originalText: 'recente', newText: 'atual' }
+    ], { author: 'Autoria IA', date: DATE });
+
+    expect(applied).toBe(1);
+    const { document, comments } = await parts(buffer);
+
+    expect(Array.from(document.matchAll(/<w:delText[^>]*>([^<]*)<\/w:delText>/g), m => m[1])).toEqual(['recente']);
+    expect(document).not.toContain('Nada');
+    expect(document).not.toContain('commentReference');
+    expect(comments).not.toContain('Não se aplica');
+  });
+
+  it('anchors change and paragraph comments to entries of word/comments.xml', async () => {
+    const { buffer, applied } = await applyTrackedChangesToDocx(await fixture(), [
+      { originalText: 'politica', newText: 'política', comment: 'Acentuação' },
+      { originalText: 'recente', newText: 'atual' }
+    ], {
+      author: 'Autoria IA (aprovado por Ana Souza)',
+      date: DATE,
+      paragraphComments: [
+        { paragraphIndex: 0, author: 'Prof. Carlos Lima', date: new Date('2026-03-01T09:00:00Z'), text: 'Título ok?\nVer norma' },
+        { paragraphIndex: 99, author: 'Ninguém', text: 'Parágrafo inexistente' }
+      ]
+    });
+
+    expect(applied).toBe(2);
+    const { document, comments, contentTypes, rels } = await parts(buffer);
+
+    const starts = ids(document, 'w:commentRangeStart');
+    expect(starts).toHaveLength(2);
+    expect(ids(document, 'w:commentRangeEnd')).toEqual(starts);
+    expect(ids(document, 'w:commentReference')).toEqual(starts);
+    expect(ids(comments!, 'w:comment').sort()).toEqual([...starts].sort());
+
+    // Ids de comentários e revisões compartilham a mesma sequência
+    const revisionIds = [...ids(document, 'w:del'), ...ids(document, 'w:ins')];
+    expect(revisionIds.filter(id => starts.includes(id))).toEqual([]);
+
+    expect(comments).toMatch(/<w:comment w:id="\d+" w:author="Prof. Carlos Lima" w:date="2026-03-01T09:00:00Z" w:initials="PCL">/);
+    expect(comments).toContain('>Título ok?</w:t></w:r></w:p><w:p><w:r><w:t xml:space="preserve">Ver norma<');
+    expect(comments).toMatch(/w:author="Autoria IA \(aprovado por Ana Souza\)" w:date="2026-03-10T14:30:00Z"[^>]*>.*Acentuação/);
+    expect(comments).not.toContain('Parágrafo inexistente');
+
+    // O comentário do parágrafo cobre o parágrafo inteiro
+    expect(document).toMatch(/<w:commentRangeStart w:id="(\d+)"\/>(?:(?!<\/w:p>)[\s\S])*Introdução(?:(?!<\/w:p>)[\s\S])*<w:commentRangeEnd w:id="\1"\/>/);
+
+    expect(contentTypes.match(/PartName="\/word\/comments.xml"/g)).toHaveLength(1);
+    expect(rels.match(/relationships\/comments"/g)).toHaveLength(1);
+  });
+
+  it('creates and registers word/comments.xml when the document has none', async () => {
+    const zip = await JSZip.loadAsync(await fixture());
+    zip.remove('word/comments.xml');
+    zip.file('[Content_Types].xml', (await zip.file('[Content_Types].xml')!.async('string')).replace(/<Override PartName="\/word\/comments.xml"[^>]*\/>/, ''));
+    zip.file('word/_rels/document.xml.rels', (await zip.file('word/_rels/document.xml.rels')!.async('string')).replace(/<Relationship [^>]*relationships\/comments"[^>]*\/>/, ''));
+    const input = await zip.generateAsync({ type: 'nodebuffer' });
+    expect((await parts(input)).comments).toBeUndefined();
+
+    const { buffer } = await applyTrackedChangesToDocx(input, [
+      { originalText: 'recente', newText: 'atual', comment: 'Termo mais preciso' }
+    ], { author: 'Autoria IA', date: DATE });
+    const { document, comments, contentTypes, rels } = await parts(buffer);
+
+    expect(ids(comments!, 'w:comment')).toEqual(ids(document, 'w:commentRangeStart'));
+    expect(comments).toContain('Termo mais preciso');
+    expect(contentTypes.match(/PartName="\/word\/comments.xml"/g)).toHaveLength(1);
+    expect(rels).toMatch(/<Relationship Id="rId\d+" Type="[^"]*relationships\/comments" Target="comments.xml"\/>/);
+  });
+});
+
+describe('isApplyMode / trackChangesAuthor', () => {
+  it('accepts only the known modes and names the approver', () => {
+    expect(isApplyMode('track')).toBe(true);
+    expect(isApplyMode('replace')).toBe(true);
+    expect(isApplyMode('merge')).toBe(false);
+    expect(trackChangesAuthor('Ana')).toBe('Autoria IA (aprovado por Ana)');
+    expect(trackChangesAuthor(null)).toBe('Autoria IA');
+  });
+});
@@ -0,0 +1,319 @@
+import JSZip from 'jszip';
+import { escapeXml, parseRuns, splitDocumentBody, textRun } from './docx-xml';
+
+/**
+ * Track changes - escreve sugestões aceitas como revisões nativas do Word
+ * (w:del + w:ins) com um comentário em word/comments.xml explicando cada uma,
+ * para que o orientador possa aceitar/rejeitar as edições dentro do Word.
+ *
+ * Os textos são localizados por parágrafo (concatenando os w:t dos runs), então
+ * uma sugestão pode atravessar vários runs. Runs com conteúdo além de texto
+ * (tabulações, quebras, imagens, campos) não são divididos: a sugestão é pulada.
+ *
+ * Comentários de revisão (threads dos capítulos) vão como comentários do Word
+ * sobre o parágrafo inteiro, com o autor e a data de cada mensagem.
+ */
+
+export type ApplyMode = 'replace' | 'track';
+
+export const APPLY_MODES: ApplyMode[] = ['replace', 'track'];
+
+export function isApplyMode(value: unknown): value is ApplyMode {
+  return APPLY_MODES.includes(value as ApplyMode);
+}
+
+export type TrackedChange = {
+  originalText: string;
+  newText: string;
+  comment?: string;
+};
+
+/**
+ * Comentário sobre um parágrafo (mesma indexação de extractDocumentStructure)
+ */
+export type ParagraphComment = {
+  paragraphIndex: number;
+  author: string;
+  date?: Date;
+  text: string;
+};
+
+export type TrackChangesOptions = {
+  author: string;
+  date?: Date;
+  paragraphComments?: ParagraphComment[];
+};
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const COMMENTS_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml';
+const COMMENTS_REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments';
+
+const PARAGRAPH_REGEX = /<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g;
+
+type Revision = {
+  author: string;
+  date: string;
+  nextId: () => number;
+  comments: string[];
+};
+
+// Word não aceita milissegundos em w:date
+const wordDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+function commentXml(id: number, author: string, date: string, text: string): string {
+  const initials = author
+    .split(/\s+/)
+    .filter(word => /^[A-Za-zÀ-ÿ]/.test(word))
+    .map(word => word[0].toUpperCase())
+    .join('')
+    .substring(0, 4);
+
+  const paragraphs = text
+    .split('\n')
+    .map(line => `<w:p>${textRun('', line)}</w:p>`)
+    .join('');
+
+  return `<w:comment w:id="${id}" w:author="${escapeXml(author)}" w:date="${date}" w:initials="${escapeXml(initials)}">${paragraphs}</w:comment>`;
+}
+
+/**
+ * Ancora os comentários nos parágrafos (o intervalo cobre o parágrafo inteiro).
+ * Retorna o document.xml com os marcadores e quantos comentários foram ancorados.
+ */
+function anchorParagraphComments(
+  documentXml: string,
+  comments: ParagraphComment[],
+  revision: Revision
+): { xml: string; anchored: number } {
+  const { head, elements, tail } = splitDocumentBody(documentXml);
+
+  let anchored = 0;
+  for (const comment of comments) {
+    const element = elements.find(e => e.paragraphIndex === comment.paragraphIndex);
+    if (!element) {
+      console.warn(`[TRACK-CHANGES] ⚠ Paragraph ${comment.paragraphIndex} not found for comment`);
+      continue;
+    }
+
+    const id = revision.nextId();
+    const openTag = element.xml.match(/^<w:p(?:\s[^>]*)?>(?:\s*<w:pPr>[\s\S]*?<\/w:pPr>)?/)![0];
+    const closeAt = element.xml.lastIndexOf('</w:p>');
+
+    element.xml =
+      openTag +
+      `<w:commentRangeStart w:id="${id}"/>` +
+      element.xml.slice(openTag.length, closeAt) +
+      `<w:commentRangeEnd w:id="${id}"/><w:r><w:commentReference w:id="${id}"/></w:r>` +
+      element.xml.slice(closeAt);
+
+    const date = comment.date ? wordDate(comment.date) : revision.date;
+    revision.comments.push(commentXml(id, comment.author, date, comment.text));
+    anchored++;
+  }
+
+  return { xml: head + elements.map(e => e.xml).join('') + tail, anchored };
+}
+
+/**
+ * Marca a primeira ocorrência de change.originalText no parágrafo.
+ * Retorna o XML do parágrafo com as revisões, ou null se não for possível.
+ */
+function markParagraph(paragraphXml: string, change: TrackedChange, revision: Revision): string | null {
+  const original = change.originalText.normalize('NFC');
+  const runs = parseRuns(paragraphXml);
+
+  let offset = 0;
+  const positioned = runs.map(run => {
+    const textStart = offset;
+    offset += run.text.length;
+    return { ...run, textStart, textEnd: offset };
+  });
+
+  const fullText = positioned.map(r => r.text).join('');
+  const matchStart = fullText.indexOf(original);
+  if (!original || matchStart === -1) return null;
+  const matchEnd = matchStart + original.length;
+
+  const affected = positioned.filter(r => r.text && r.textStart < matchEnd && r.textEnd > matchStart);
+  if (affected.some(r => !r.simple)) {
+    console.warn(`[TRACK-CHANGES] ⚠ Skipping "${original.substring(0, 50)}...": text spans complex runs`);
+    return null;
+  }
+
+  const commentId = change.comment ? revision.nextId() : null;
+  const newText = change.newText.normalize('NFC');
+
+  const replacements = affected.map((run, i) => {
+    const localStart = Math.max(matchStart, run.textStart) - run.textStart;
+    const localEnd = Math.min(matchEnd, run.textEnd) - run.textStart;
+    const before = run.text.slice(0, localStart);
+    const inside = run.text.slice(localStart, localEnd);
+    const after = run.text.slice(localEnd);
+
+    const parts: string[] = [];
+    if (before) parts.push(textRun(run.rPr, before));
+    if (i === 0 && commentId !== null) parts.push(`<w:commentRangeStart w:id="${commentId}"/>`);
+
+    parts.push(
+      `<w:del w:id="${revision.nextId()}" w:author="${escapeXml(revision.author)}" w:date="${revision.date}">` +
+      textRun(run.rPr, inside, 'w:delText') +
+      '</w:del>'
+    );
+
+    if (i === affected.length - 1) {
+      if (newText) {
+        parts.push(
+          `<w:ins w:id="${revision.nextId()}" w:author="${escapeXml(revision.author)}" w:date="${revision.date}">` +
+          textRun(affected[0].rPr, newText) +
+          '</w:ins>'
+        );
+      }
+      if (commentId !== null) {
+        parts.push(`<w:commentRangeEnd w:id="${commentId}"/>`);
+        parts.push(`<w:r><w:commentReference w:id="${commentId}"/></w:r>`);
+      }
+    }
+
+    if (after) parts.push(textRun(run.rPr, after));
+    return { run, xml: parts.join('') };
+  });
+
+  if (commentId !== null) {
+    revision.comments.push(commentXml(commentId, revision.author, revision.date, change.comment!));
+  }
+
+  // Substitui de trás para frente para preservar as posições
+  let result = paragraphXml;
+  for (const { run, xml } of replacements.reverse()) {
+    result = result.slice(0, run.start) + xml + result.slice(run.end);
+  }
+  return result;
+}
+
+function maxId(xml: string): number {
+  let max = -1;
+  for (const match of xml.matchAll(/w:id="(\d+)"/g)) {
+    max = Math.max(max, parseInt(match[1], 10));
+  }
+  return max;
+}
+
+/**
+ * Garante que word/comments.xml existe e está registrado em
+ * [Content_Types].xml e word/_rels/document.xml.rels
+ */
+async function loadCommentsPart(zip: JSZip): Promise<string> {
+  const existing = zip.file('word/comments.xml');
+  if (existing) return existing.async('string');
+
+  const contentTypesFile = zip.file('[Content_Types].xml');
+  if (contentTypesFile) {
+    const contentTypes = await contentTypesFile.async('string');
+    if (!contentTypes.includes('/word/comments.xml')) {
+      zip.file('[Content_Types].xml', contentTypes.replace(
+        '</Types>',
+        `<Override PartName="/word/comments.xml" ContentType="${COMMENTS_CONTENT_TYPE}"/></Types>`
+      ));
+    }
+  }
+
+  const relsPath = 'word/_rels/document.xml.rels';
+  const relsFile = zip.file(relsPath);
+  const rels = relsFile
+    ? await relsFile.async('string')
+    : '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+  if (!rels.includes(COMMENTS_REL_TYPE)) {
+    const usedIds = Array.from(rels.matchAll(/Id="rId(\d+)"/g)).map(m => parseInt(m[1], 10));
+    const relId = `rId${Math.max(0, ...usedIds) + 1}`;
+    zip.file(relsPath, rels.replace(
+      '</Relationships>',
+      `<Relationship Id="${relId}" Type="${COMMENTS_REL_TYPE}" Target="comments.xml"/></Relationships>`
+    ));
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:comments xmlns:w="${W_NS}"></w:comments>`;
+}
+
+/**
+ * Aplica as alterações como revisões rastreadas. Cada alteração marca a
+ * primeira ocorrência do texto original no documento.
+ */
+export async function applyTrackedChangesToDocx(
+  input: Buffer,
+  changes: TrackedChange[],
+  options: TrackChangesOptions
+): Promise<{ buffer: Buffer; applied: number }> {
+  const zip = await JSZip.loadAsync(input);
+
+  const file = zip.file('word/document.xml');
+  if (!file) throw new Error('document.xml not found');
+
+  let xmlContent = (await file.async('string')).normalize('NFC');
+  const paragraphComments = options.paragraphComments || [];
+  const hasComments = changes.some(c => c.comment) || paragraphComments.length > 0;
+  let commentsContent = hasComments ? await loadCommentsPart(zip) : '';
+
+  let lastId = Math.max(maxId(xmlContent), maxId(commentsContent));
+  const revision: Revision = {
+    author: options.author,
+    date: wordDate(options.date || new Date()),
+    nextId: () => ++lastId,
+    comments: []
+  };
+
+  // Antes das revisões: a indexação dos parágrafos é a do documento original
+  if (paragraphComments.length > 0) {
+    const { xml, anchored } = anchorParagraphComments(xmlContent, paragraphComments, revision);
+    xmlContent = xml;
+    console.log(`[TRACK-CHANGES] Anchored ${anchored}/${paragraphComments.length} review comments`);
+  }
+
+  let applied = 0;
+  for (const change of changes) {
+    let done = false;
+
+    xmlContent = xmlContent.replace(PARAGRAPH_REGEX, paragraph => {
+      // Parágrafos com caixas de texto aninhadas não são seguros para a regex
+      if (done || paragraph.includes('<w:txbxContent')) return paragraph;
+
+      const marked = markParagraph(paragraph, change, revision);
+      if (!marked) return paragraph;
+
+      done = true;
+      return marked;
+    });
+
+    if (done) {
+      applied++;
+    } else {
+      console.warn(`[TRACK-CHANGES] ⚠ Text not found: "${change.originalText.substring(0, 50)}..."`);
+    }
+  }
+
+  zip.file('word/document.xml', Buffer.from(xmlContent, 'utf-8'));
+
+  if (hasComments) {
+    // Documentos sem comentários podem trazer a raiz vazia (<w:comments .../>)
+    commentsContent = commentsContent.includes('</w:comments>')
+      ? commentsContent.replace('</w:comments>', `${revision.comments.join('')}</w:comments>`)
+      : commentsContent.replace(/<w:comments(\s[^>]*?)?\s*\/>/, `<w:comments$1>${revision.comments.join('')}</w:comments>`);
+    zip.file('word/comments.xml', Buffer.from(commentsContent, 'utf-8'));
+  }
+
+  console.log(`[TRACK-CHANGES] Marked ${applied}/${changes.length} changes as revisions by "${options.author}"`);
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE'
+  });
+
+  return { buffer, applied };
+}
+
+/**
+ * Autor das revisões: deixa claro no Word que a edição veio da IA e quem a aprovou
+ */
+export function trackChangesAuthor(approverName?: string | null): string {
+  return approverName ? `Autoria IA (aprovado por ${approverName})` : 'Autoria IA';
+}
@@ -0,0 +1,186 @@
+/**
+ * Helpers para manipular o XML de word/document.xml sem perder formatação
+ */
+
+export type BodyElement = {
+  tag: string;
+  xml: string;
+  // Índice entre os parágrafos não vazios (mesma indexação de extractDocumentStructure), ou null
+  paragraphIndex: number | null;
+};
+
+/**
+ * Run (w:r) de um parágrafo: posição no XML do parágrafo, formatação e texto.
+ * simple = o run só tem texto (sem tabulação, quebra, imagem, campo...)
+ */
+export type XmlRun = {
+  start: number;
+  end: number;
+  rPr: string;
+  text: string;
+  simple: boolean;
+};
+
+const TEXT_REGEX = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g;
+const RUN_REGEX = /<w:r(?:\s[^>]*)?>[\s\S]*?<\/w:r>/g;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Texto de um trecho de XML (todos os w:t, em ordem)
+ */
+export function xmlText(xml: string): string {
+  return unescapeXml(Array.from(xml.matchAll(TEXT_REGEX)).map(t => t[1]).join(''));
+}
+
+/**
+ * Fim do elemento que começa em `start` (considera elementos aninhados com a mesma tag)
+ */
+function elementEnd(xml: string, start: number, tag: string): number {
+  const tagRegex = new RegExp(`<(/?)${tag.replace(/[.:]/g, '\\$&')}(?=[\\s/>])[^>]*?(/?)>`, 'g');
+  tagRegex.lastIndex = start;
+
+  let depth = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(xml))) {
+    if (match[1]) {
+      depth--;
+    } else if (!match[2]) {
+      depth++;
+    }
+
+    if (depth <= 0) return match.index + match[0].length;
+  }
+
+  throw new Error(`Unclosed <${tag}> in document.xml`);
+}
+
+/**
+ * Separa word/document.xml em cabeçalho, elementos de primeiro nível do
+ * w:body (parágrafos, tabelas, w:sectPr) e rodapé
+ */
+export function splitDocumentBody(documentXml: string): { head: string; elements: BodyElement[]; tail: string } {
+  const bodyOpen = documentXml.match(/<w:body(?:\s[^>]*)?>/);
+  const bodyClose = documentXml.lastIndexOf('</w:body>');
+  if (!bodyOpen || bodyClose === -1) throw new Error('Document body not found');
+
+  const bodyStart = bodyOpen.index! + bodyOpen[0].length;
+  const elements: BodyElement[] = [];
+  let paragraphCount = 0;
+  let pos = bodyStart;
+
+  while (pos < bodyClose) {
+    const next = documentXml.indexOf('<', pos);
+    if (next === -1 || next >= bodyClose) break;
+
+    const tag = documentXml.slice(next).match(/^<([\w:.-]+)/)?.[1];
+    if (!tag) {
+      pos = next + 1;
+      continue;
+    }
+
+    const end = elementEnd(documentXml, next, tag);
+    const xml = documentXml.slice(next, end);
+    const isParagraph = tag === 'w:p' && xmlText(xml).trim() !== '';
+
+    elements.push({ tag, xml, paragraphIndex: isParagraph ? paragraphCount++ : null });
+    pos = end;
+  }
+
+  return {
+    head: documentXml.slice(0, bodyStart),
+    elements,
+    tail: documentXml.slice(bodyClose)
+  };
+}
+
+/**
+ * Parágrafo simples com o texto dado, herdando pPr e o rPr do primeiro run de `template`
+ */
+export function paragraphLike(template: string | null, text: string): string {
+  const pPr = template?.match(/<w:pPr>[\s\S]*?<\/w:pPr>/)?.[0] || '';
+  const rPr = template?.match(/<w:r(?:\s[^>]*)?>\s*(<w:rPr>[\s\S]*?<\/w:rPr>)/)?.[1] || '';
+  return `<w:p>${pPr}<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+}
+
+export function parseRuns(paragraphXml: string): XmlRun[] {
+  return Array.from(paragraphXml.matchAll(RUN_REGEX)).map(match => {
+    const xml = match[0];
+    const inner = xml.replace(/^<w:r(?:\s[^>]*)?>/, '').replace(/<\/w:r>$/, '');
+    const rPr = inner.match(/<w:rPr>[\s\S]*?<\/w:rPr>/)?.[0] || '';
+    const texts = Array.from(inner.matchAll(TEXT_REGEX)).map(t => t[1]);
+    const rest = inner.replace(rPr, '').replace(TEXT_REGEX, '').trim();
+
+    return {
+      start: match.index!,
+      end: match.index! + xml.length,
+      rPr,
+      text: unescapeXml(texts.join('')).normalize('NFC'),
+      simple: rest === ''
+    };
+  });
+}
+
+export function textRun(rPr: string, text: string, tag: 'w:t' | 'w:delText' = 'w:t'): string {
+  return `<w:r>${rPr}<${tag} xml:space="preserve">${escapeXml(text)}</${tag}></w:r>`;
+}
+
+/**
+ * Troca a primeira ocorrência de `original` no parágrafo por `replacement`,
+ * mantendo os runs em volta. O texto novo herda a formatação do primeiro run
+ * afetado. Retorna null se o texto não estiver no parágrafo ou atravessar
+ * runs com conteúdo além de texto.
+ */
+export function replaceParagraphText(paragraphXml: string, original: string, replacement: string): string | null {
+  const target = original.normalize('NFC');
+  if (!target) return null;
+
+  let offset = 0;
+  const runs = parseRuns(paragraphXml).map(run => {
+    const textStart = offset;
+    offset += run.text.length;
+    return { ...run, textStart, textEnd: offset };
+  });
+
+  const matchStart = runs.map(r => r.text).join('').indexOf(target);
+  if (matchStart === -1) return null;
+  const matchEnd = matchStart + target.length;
+
+  const affected = runs.filter(r => r.text && r.textStart < matchEnd && r.textEnd > matchStart);
+  if (affected.some(r => !r.simple)) return null;
+
+  const pieces = affected.map((run, i) => {
+    const before = run.text.slice(0, Math.max(matchStart, run.textStart) - run.textStart);
+    const after = run.text.slice(Math.min(matchEnd, run.textEnd) - run.textStart);
+
+    const parts: string[] = [];
+    if (before) parts.push(textRun(run.rPr, before));
+    if (i === affected.length - 1 && replacement) parts.push(textRun(affected[0].rPr, replacement.normalize('NFC')));
+    if (after) parts.push(textRun(run.rPr, after));
+    return { run, xml: parts.join('') };
+  });
+
+  // De trás para frente para preservar as posições
+  let result = paragraphXml;
+  for (const { run, xml } of pieces.reverse()) {
+    result = result.slice(0, run.start) + xml + result.slice(run.end);
+  }
+  return result;
+}
@@ -0,0 +1,44 @@
+/**
+ * Embeddings - Provedores de vetores para busca semântica
+ *
+ * EMBEDDING_PROVIDER escolhe o provedor ('local' por padrão, 'openai' ou 'gemini')
+ * e EMBEDDING_MODEL troca o modelo padrão do provedor. OpenAI e Gemini passam
+ * pelo registro de provedores de IA, como o chat (ver remote.ts).
+ */
+
+import { createLocalEmbeddingProvider } from './local';
+import { createRemoteEmbeddingProvider } from './remote';
+import type { EmbeddingProvider, EmbeddingProviderId } from './types';
+
+export type { EmbeddingProvider, EmbeddingProviderId } from './types';
+export { localEmbedding, createLocalEmbeddingProvider } from './local';
+
+export function getEmbeddingProvider(
+  providerId: EmbeddingProviderId = (process.env.EMBEDDING_PROVIDER as EmbeddingProviderId) || 'local'
+): EmbeddingProvider {
+  const model = process.env.EMBEDDING_MODEL || undefined;
+
+  switch (providerId) {
+    case 'local':
+      return createLocalEmbeddingProvider();
+    case 'openai':
+    case 'gemini':
+      return createRemoteEmbeddingProvider(providerId, model);
+    default:
+      throw new Error(`Unsupported embedding provider: ${providerId}`);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,64 @@
+import type { EmbeddingProvider } from './types';
+
+const DEFAULT_DIMENSIONS = 384;
+
+// Peso dos trigramas de caracteres em relação às palavras inteiras
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * FNV-1a 32 bits
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]{2,}/gu) || [];
+}
+
+/**
+ * Embedding determinístico por feature hashing (palavras + trigramas).
+ * Não entende sinônimos, mas funciona offline e dá o mesmo vetor sempre,
+ * o que serve para desenvolvimento e testes.
+ */
+export function localEmbedding(text: string, dimensions: number = DEFAULT_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const counts = new Map<string, number>();
+
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+
+    const padded = `#${token}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const trigram = `~${padded.slice(i, i + 3)}`;
+      counts.set(trigram, (counts.get(trigram) || 0) + TRIGRAM_WEIGHT);
+    }
+  }
+
+  for (const [feature, count] of counts) {
+    const h = hash(feature);
+    // Bit alto decide o sinal, para colisões se cancelarem em média
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % dimensions] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+export function createLocalEmbeddingProvider(dimensions: number = DEFAULT_DIMENSIONS): EmbeddingProvider {
+  return {
+    id: 'local',
+    model: `hash-${dimensions}`,
+    embed: async (texts) => texts.map(text => localEmbedding(text, dimensions))
+  };
+}
@@ -0,0 +1,28 @@
+import { embedAI } from '../ai/executor';
+import { getProvider } from '../ai/registry';
+import type { EmbeddingProvider } from './types';
+
+export type RemoteEmbeddingProviderId = 'openai' | 'gemini';
+
+const DEFAULT_MODELS: Record<RemoteEmbeddingProviderId, string> = {
+  openai: 'text-embedding-3-small',
+  gemini: 'text-embedding-004'
+};
+
+/**
+ * Embeddings de um provedor de IA registrado (lib/ai/registry.ts): a chamada
+ * passa por embedAI, com as chaves de /settings, retry e circuit breaker
+ */
+export function createRemoteEmbeddingProvider(
+  providerId: RemoteEmbeddingProviderId,
+  model: string = DEFAULT_MODELS[providerId]
+): EmbeddingProvider {
+  const client = getProvider(providerId);
+  if (!client.isConfigured()) throw new Error(`${client.label} API key not configured for embeddings`);
+
+  return {
+    id: providerId,
+    model,
+    embed: async (texts) => (await embedAI(providerId, { model, texts })).vectors
+  };
+}
@@ -0,0 +1,11 @@
+export type EmbeddingProviderId = 'local' | 'openai' | 'gemini';
+
+/**
+ * Gera vetores para textos. Vetores de provedores/modelos diferentes não são
+ * comparáveis, por isso são persistidos com (provider, model).
+ */
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
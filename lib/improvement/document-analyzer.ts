@@ -2,6 +2,9 @@ import JSZip from 'jszip';
 import { parseStringPromise } from 'xml2js';
 import fs from 'fs/promises';
 import { DocumentStructure, GlobalContext } from './types';
+import { completeAI } from '../ai/executor';
+import { renderPrompt } from '../ai/prompt-templates';
+import type { AIProvider } from '../ai/types';
 
 /**
  * Extrai texto de um nó recursivamente
@@ -38,6 +41,27 @@ function extractTextFromNode(obj: any): string {
   return text;
 }
 
+/**
+ * Nível de header a partir do nome do estilo do parágrafo (w:pStyle), ou null
+ */
+export function headerLevelFromStyle(styleName: string): number | null {
+  // Detecta Heading1, Heading2, etc
+  if (styleName.toLowerCase().includes('heading')) {
+    const match = styleName.match(/(\d+)/);
+    if (match) return parseInt(match[1]);
+    return 1; // Heading sem número = H1
+  }
+
+  // Detecta Título, Ttulo1, etc
+  if (styleName.toLowerCase().match(/t[ií]?tulo|title/)) {
+    const match = styleName.match(/(\d+)/);
+    if (match) return parseInt(match[1]);
+    return 1;
+  }
+
+  return null;
+}
+
 /**
  * Detecta se um parágrafo é um header (título de capítulo/seção)
  */
@@ -49,19 +73,7 @@ function detectHeaderLevel(paragraph: any): number | null {
       const style = Array.isArray(pPr['w:pStyle']) ? pPr['w:pStyle'][0] : pPr['w:pStyle'];
       const styleName = style.$?.['w:val'] || style._ || '';
 
-      // Detecta Heading1, Heading2, etc
-      if (styleName.toLowerCase().includes('heading')) {
-        const match = styleName.match(/(\d+)/);
-        if (match) return parseInt(match[1]);
-        return 1; // Heading sem número = H1
-      }
-
-      // Detecta Título, Ttulo1, etc
-      if (styleName.toLowerCase().match(/t[ií]tulo|title/)) {
-        const match = styleName.match(/(\d+)/);
-        if (match) return parseInt(match[1]);
-        return 1;
-      }
+      return headerLevelFromStyle(styleName);
     }
   }
 
@@ -174,9 +186,8 @@ export async function extractDocumentStructure(filePath: string): Promise<{
 export async function generateGlobalContext(
   paragraphs: Array<{ text: string; isHeader: boolean; headerLevel?: number }>,
   structure: DocumentStructure,
-  provider: 'openai' | 'gemini',
+  provider: AIProvider,
   model: string,
-  apiKey: string,
   referencesContext: string = ''
 ): Promise<GlobalContext> {
   // Pega primeiras páginas (até 3000 chars) + índice (títulos dos capítulos)
@@ -207,68 +218,25 @@ export async function generateGlobalContext(
       };
     });
 
-  const prompt = `Você é um analista de documentos acadêmicos. Analise este documento e extraia:
-
-1. TEMA PRINCIPAL: Qual é o assunto central do documento? (1 frase)
-2. OBJETIVO: Qual o objetivo/propósito do documento? (1 frase)
-3. TIPO: Que tipo de documento é? (tese, dissertação, artigo, etc)
-4. RESUMO DE CADA CAPÍTULO: Para cada capítulo, faça um resumo de 1-2 frases do conteúdo
-
-INÍCIO DO DOCUMENTO:
----
-${initialText}
----
-
-CAPÍTULOS E TRECHOS:
-${chapterPreviews.map((ch, i) => `
+  const prompt = await renderPrompt('improve.global_context', {
+    initial_text: initialText,
+    chapter_previews: chapterPreviews.map((ch, i) => `
 ${i + 1}. ${ch.title}
 ---
 ${ch.preview}
 ---
-`).join('\n')}
-${referencesContext ? `\n${referencesContext}` : ''}
-
-Retorne APENAS um JSON válido no formato:
-{
-  "theme": "tema principal em 1 frase",
-  "objective": "objetivo em 1 frase",
-  "type": "tipo do documento",
-  "chapterSummaries": [
-    {"title": "título do capítulo 1", "summary": "resumo em 1-2 frases"},
-    {"title": "título do capítulo 2", "summary": "resumo em 1-2 frases"}
-  ]
-}`;
-
-  let response: string;
-
-  if (provider === 'openai') {
-    const OpenAI = (await import('openai')).default;
-    const openai = new OpenAI({ apiKey });
-
-    const completion = await openai.chat.completions.create({
-      model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.3,
-      max_tokens: 2000, // Aumentado para comportar resumos dos capítulos
-      response_format: { type: 'json_object' }
-    });
-
-    response = completion.choices[0]?.message?.content?.trim() || '{}';
-  } else {
-    // Gemini
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const geminiModel = genAI.getGenerativeModel({
-      model,
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 2000
-      }
-    });
+`).join('\n'),
+    references_context: referencesContext ? `\n${referencesContext}` : ''
+  });
 
-    const result = await geminiModel.generateContent(prompt);
-    response = result.response.text().trim();
-  }
+  const completion = await completeAI(provider, {
+    model,
+    prompt,
+    temperature: 0.3,
+    maxTokens: 2000, // Aumentado para comportar resumos dos capítulos
+    json: true
+  });
+  const response = completion.text || '{}';
 
   // Parse JSON response
   const jsonMatch = response.match(/\{[\s\S]*\}/);
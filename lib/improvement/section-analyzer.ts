@@ -1,5 +1,8 @@
 import { GlobalContext, ImprovementSuggestion, ImprovementType } from './types';
 import { randomUUID } from 'crypto';
+import { completeAI } from '../ai/executor';
+import { renderPrompt } from '../ai/prompt-templates';
+import type { AIProvider } from '../ai/types';
 
 /**
  * Analisa uma seção do documento e gera sugestões de melhoria
@@ -9,9 +12,8 @@ export async function analyzeSectionForImprovements(
   globalContext: GlobalContext,
   chapterTitle: string,
   paragraphStartIndex: number,
-  provider: 'openai' | 'gemini',
-  model: string,
-  apiKey: string
+  provider: AIProvider,
+  model: string
 ): Promise<ImprovementSuggestion[]> {
 
   const fullText = paragraphs.join('\n\n');
@@ -23,88 +25,23 @@ export async function analyzeSectionForImprovements(
         .join('\n')
     : '';
 
-  const prompt = `Você é um revisor acadêmico especializado. Analise o texto abaixo e sugira melhorias APENAS quando houver real necessidade.
-
-CONTEXTO DO DOCUMENTO:
-- Tema: ${globalContext.theme}
-- Objetivo: ${globalContext.objective || 'Não especificado'}
-- Capítulo atual: ${chapterTitle}${chapterContext}
-
-ÁREAS DE ANÁLISE:
-1. GRAMÁTICA: Erros gramaticais, concordância, pontuação
-2. CLAREZA: Frases confusas ou ambíguas que podem ser simplificadas
-3. ESTILO ACADÊMICO: Linguagem informal, voz passiva excessiva, falta de precisão
-4. COERÊNCIA: Falta de coesão entre ideias, transições abruptas
-5. CONCISÃO: Redundâncias, verbosidade desnecessária
-
-REGRAS IMPORTANTES:
-❌ NÃO sugira mudanças apenas por estilo pessoal
-❌ NÃO mude termos técnicos corretos
-❌ NÃO altere significados ou fatos
-✅ APENAS sugira quando houver melhoria CLARA e OBJETIVA
-✅ Mantenha o tom acadêmico e formal
-✅ Preserve a voz do autor
-
-TEXTO PARA ANÁLISE:
----
-${fullText}
----
-
-Para cada melhoria sugerida, retorne JSON no formato:
-{
-  "suggestions": [
-    {
-      "paragraphIndex": 0,
-      "originalText": "texto original exato da frase ou trecho (mínimo 30 caracteres)",
-      "improvedText": "texto melhorado",
-      "reason": "explicação clara do motivo (1-2 frases)",
-      "type": "grammar|style|clarity|coherence|conciseness",
-      "confidence": 0.95
-    }
-  ]
-}
-
-IMPORTANTE:
-- "paragraphIndex" deve ser 0 para o primeiro parágrafo da seção, 1 para o segundo, etc
-- "originalText" deve ser um trecho COMPLETO e EXATO do texto (mínimo 30 caracteres, incluindo pontuação)
-- NÃO truncar ou resumir o "originalText" - deve ser copiado EXATAMENTE como está
-- Se não houver melhorias necessárias, retorne: {"suggestions": []}
-- Confidence: 1.0 = certeza absoluta, 0.7 = sugestão moderada
-- Foque em 3-5 sugestões mais importantes (não precisa sugerir tudo)
-
-Retorne APENAS o JSON, sem texto adicional.`;
-
-  let response: string;
+  const prompt = await renderPrompt('improve.section', {
+    theme: globalContext.theme,
+    objective: globalContext.objective || 'Não especificado',
+    chapter_title: chapterTitle,
+    chapter_context: chapterContext,
+    text: fullText
+  });
 
   try {
-    if (provider === 'openai') {
-      const OpenAI = (await import('openai')).default;
-      const openai = new OpenAI({ apiKey });
-
-      const completion = await openai.chat.completions.create({
-        model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 4000,
-        response_format: { type: 'json_object' }
-      });
-
-      response = completion.choices[0]?.message?.content?.trim() || '{"suggestions":[]}';
-    } else {
-      // Gemini
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const geminiModel = genAI.getGenerativeModel({
-        model,
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 4000,
-        }
-      });
-
-      const result = await geminiModel.generateContent(prompt);
-      response = result.response.text().trim();
-    }
+    const completion = await completeAI(provider, {
+      model,
+      prompt,
+      temperature: 0.3,
+      maxTokens: 4000,
+      json: true
+    });
+    const response = completion.text || '{"suggestions":[]}';
 
     // Parse JSON response
     const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -165,7 +102,9 @@ Retorne APENAS o JSON, sem texto adicional.`;
         improvedText: sug.improvedText.trim(),
         reason: sug.reason,
         type: sug.type as ImprovementType,
-        confidence: sug.confidence || 0.8
+        confidence: sug.confidence || 0.8,
+        provider: completion.provider,
+        model: completion.model
       });
     }
 
@@ -1,3 +1,5 @@
+import type { AIProvider } from '../ai/types';
+
 export type ImprovementType = 'grammar' | 'style' | 'clarity' | 'coherence' | 'conciseness';
 
 export type ImprovementSuggestion = {
@@ -9,6 +11,8 @@ export type ImprovementSuggestion = {
   reason: string; // Why this improvement is suggested
   type: ImprovementType; // Type of improvement
   confidence: number; // 0-1, how confident the AI is about this suggestion
+  provider?: AIProvider; // Who produced it (differs from the job's provider after a fallback)
+  model?: string;
 };
 
 export type DocumentStructure = {
@@ -57,7 +61,7 @@ export type ImprovementJob = {
 };
 
 export type ImprovementOptions = {
-  provider: 'openai' | 'gemini'; // AI provider
+  provider: AIProvider; // AI provider
   model: string; // Model to use
   focusAreas?: ImprovementType[]; // Specific areas to focus on (default: all)
   maxSuggestions?: number; // Max suggestions per section (default: unlimited)
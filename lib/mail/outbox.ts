@@ -0,0 +1,41 @@
+import { db } from '@/lib/storage';
+
+/**
+ * Caixa de saída de emails.
+ *
+ * Ainda não há provedor de email configurado: as mensagens ficam gravadas na
+ * tabela mail_outbox (e no log do servidor) e o destinatário as lê em
+ * GET /api/account/outbox.
+ */
+
+export type OutboxMessage = {
+  id: string;
+  to_email: string;
+  subject: string;
+  body: string;
+  created_at: string;
+};
+
+export async function sendMail(message: { to: string; subject: string; body: string }): Promise<void> {
+  const { error } = await db.from('mail_outbox').insert({
+    to_email: message.to.trim().toLowerCase(),
+    subject: message.subject,
+    body: message.body
+  });
+
+  if (error) throw new Error(`Failed to queue email: ${error.message}`);
+
+  console.log(`[MAIL] To: ${message.to} | ${message.subject}`);
+}
+
+export async function listOutbox(email: string): Promise<OutboxMessage[]> {
+  const { data, error } = await db
+    .from('mail_outbox')
+    .select('*')
+    .eq('to_email', email.trim().toLowerCase())
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load outbox: ${error.message}`);
+
+  return data || [];
+}
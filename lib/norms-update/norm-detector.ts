@@ -1,14 +1,16 @@
 import { NormReference, NormType } from './types';
 import { randomUUID } from 'crypto';
+import { completeAI } from '../ai/executor';
+import { renderPrompt } from '../ai/prompt-templates';
+import type { AIProvider } from '../ai/types';
 
 /**
  * Detecta referências a normas, leis, decretos no documento usando IA
  */
 export async function detectNormsInDocument(
   paragraphs: Array<{ text: string; index: number; chapterTitle?: string }>,
-  provider: 'openai' | 'gemini',
-  model: string,
-  apiKey: string
+  provider: AIProvider,
+  model: string
 ): Promise<NormReference[]> {
 
   // Processa em batches de 20 parágrafos
@@ -24,101 +26,29 @@ export async function detectNormsInDocument(
 
     console.log(`[NORMS] Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(paragraphs.length / batchSize)} (paragraphs ${i}-${Math.min(i + batchSize, paragraphs.length)})...`);
 
-    const prompt = `Você é um especialista em análise de documentos jurídicos e técnicos. Analise o texto abaixo e identifique TODAS as referências a normas, leis, decretos, portarias, resoluções e normas técnicas.
-
-TIPOS DE NORMAS A IDENTIFICAR (com número/identificação específica):
-1. LEIS: Lei nº 8.078/1990, Lei Federal 12.345/2020, Ley 123/2020, etc
-2. DECRETOS: Decreto nº 10.024/2019, Real Decreto 456/2019, etc
-3. PORTARIAS: Portaria nº 123/2021, etc
-4. RESOLUÇÕES: Resolución nº 456/2022, etc
-5. NORMAS ABNT: ABNT NBR 14724:2011, NBR ISO 9001:2015, etc
-6. NORMAS ISO: ISO 9001:2015, ISO/IEC 27001:2013, etc
-7. REGULAMENTOS COM NÚMERO: Regulamento (UE) 2016/679, Directiva 2011/16/UE, etc
-8. TRATADOS/CONVENIOS ESPECÍFICOS: Convenio de Mutua Asistencia Administrativa en Materia Fiscal de la OCDE, etc
-
-NÃO IDENTIFIQUE (falsos positivos):
-❌ Menções genéricas a organizações: "OCDE", "UE", "ONU"
-❌ Referências genéricas: "esta ley", "la legislación", "normas de la organización"
-❌ Informes/relatórios: "informe de 1998", "informe de la OCDE"
-❌ Artigos sem contexto: "artículo 6º" (a menos que seja parte de uma norma específica citada antes)
-❌ Siglas sem número: "FATCA" (a menos que seja uma lei específica com número)
-
-TEXTO PARA ANÁLISE:
----
-${batchText}
----
-
-Para cada referência encontrada, retorne JSON no formato:
-{
-  "references": [
-    {
-      "type": "lei|decreto|portaria|resolucao|abnt|iso|regulamento|outro",
-      "number": "número da norma (ex: 8.078/1990, NBR 14724:2011)",
-      "fullText": "texto completo como aparece (ex: Lei nº 8.078/1990)",
-      "paragraphIndex": 0,
-      "context": "trecho do texto ao redor (30-50 chars antes e depois)"
-    }
-  ]
-}
-
-REGRAS IMPORTANTES:
-- Extraia APENAS referências explícitas a normas
-- NÃO invente números ou referências que não existem
-- Capture o texto EXATO como aparece no documento
-- Se não houver referências, retorne: {"references": []}
-- paragraphIndex deve corresponder ao número entre colchetes [X]
-
-FORMATO DA RESPOSTA:
-Retorne APENAS um objeto JSON válido, sem markdown, sem explicações, sem texto adicional.
-Comece sua resposta com { e termine com }
-Não use blocos de código markdown.
-
-Retorne APENAS o JSON.`;
+    const prompt = await renderPrompt('norms.detect', { text: batchText });
 
     try {
-      let response: string;
-
-      if (provider === 'openai') {
-        const OpenAI = (await import('openai')).default;
-        const openai = new OpenAI({ apiKey });
-
-        const completion = await openai.chat.completions.create({
-          model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.1, // Bem baixo para ser preciso
-          max_tokens: 3000,
-          response_format: { type: 'json_object' }
-        });
+      const completion = await completeAI(provider, {
+        model,
+        prompt,
+        temperature: 0.1, // Bem baixo para ser preciso
+        maxTokens: 3000,
+        json: true
+      });
 
-        response = completion.choices[0]?.message?.content?.trim() || '{"references":[]}';
-      } else {
-        // Gemini
-        const { GoogleGenerativeAI } = await import('@google/generative-ai');
-        const genAI = new GoogleGenerativeAI(apiKey);
-        const geminiModel = genAI.getGenerativeModel({
-          model,
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 3000,
-          }
+      // Debug: Verifica se há bloqueios ou resposta cortada
+      if (completion.finishReason !== 'stop') {
+        errors.push({
+          batch: Math.floor(i / batchSize) + 1,
+          type: completion.finishReason === 'blocked' ? 'BLOCKED' : 'TRUNCATED',
+          details: `provider: ${provider}/${model}\nfinishReason: ${completion.finishReason}\nResponse length: ${completion.text.length} chars`
         });
-
-        const result = await geminiModel.generateContent(prompt);
-
-        // Debug: Verifica se há bloqueios ou problemas
-        const candidate = result.response.candidates?.[0];
-        if (candidate?.finishReason && candidate.finishReason !== 'STOP') {
-          errors.push({
-            batch: Math.floor(i / batchSize) + 1,
-            type: 'GEMINI_BLOCKED',
-            details: `finishReason: ${candidate.finishReason}\nfullResponse: ${JSON.stringify(result.response, null, 2)}`
-          });
-          continue;
-        }
-
-        response = result.response.text().trim();
+        continue;
       }
 
+      const response = completion.text;
+
       // Parse JSON response - remove markdown code blocks primeiro
       const batchNum = Math.floor(i / batchSize) + 1;
 
@@ -1,4 +1,8 @@
 import { NormReference, NormStatus, UpdateType } from './types';
+import { completeAI } from '../ai/executor';
+import { getProvider } from '../ai/registry';
+import { renderPrompt } from '../ai/prompt-templates';
+import type { AIProvider } from '../ai/types';
 
 /**
  * Verifica o status de uma norma usando IA (com web search para Gemini)
@@ -6,10 +10,9 @@ import { NormReference, NormStatus, UpdateType } from './types';
  */
 export async function verifyNormStatus(
   reference: NormReference,
-  provider: 'openai' | 'gemini',
+  provider: AIProvider,
   model: string,
-  apiKey: string,
-  webSearchFn?: (query: string) => Promise<string> // Opcional - só para OpenAI
+  webSearchFn?: (query: string) => Promise<string> // Opcional - para provedores sem busca própria
 ): Promise<NormReference> {
 
   console.log(`[NORMS] Verifying: ${reference.type} ${reference.number}`);
@@ -17,23 +20,22 @@ export async function verifyNormStatus(
   try {
     let searchResults = '';
 
-    // Se for OpenAI, precisa de web search manual
-    if (provider === 'openai' && webSearchFn) {
+    // Provedores sem busca própria precisam de web search manual
+    if (getProvider(provider).webSearch) {
+      console.log(`[NORMS] Using ${provider} web search (grounding)`);
+      // Gemini faz busca automaticamente via grounding
+    } else if (webSearchFn) {
       const searchQuery = buildSearchQuery(reference);
       console.log(`[NORMS] Searching: ${searchQuery}`);
       searchResults = await webSearchFn(searchQuery);
-    } else if (provider === 'gemini') {
-      console.log(`[NORMS] Using Gemini with Google Search grounding`);
-      // Gemini faz busca automaticamente via grounding
     }
 
-    // Usa IA para analisar (Gemini busca automaticamente, OpenAI usa searchResults)
+    // Usa IA para analisar (Gemini busca automaticamente, os outros usam searchResults)
     const analysis = await analyzeSearchResults(
       reference,
       searchResults,
       provider,
-      model,
-      apiKey
+      model
     );
 
     return {
@@ -95,119 +97,66 @@ function buildSearchQuery(reference: NormReference): string {
 async function analyzeSearchResults(
   reference: NormReference,
   searchResults: string,
-  provider: 'openai' | 'gemini',
-  model: string,
-  apiKey: string
+  provider: AIProvider,
+  model: string
 ): Promise<Partial<NormReference>> {
 
   const isPaid = reference.type === 'abnt' || reference.type === 'iso';
+  const webSearch = getProvider(provider).webSearch;
 
   // Para Gemini, usa grounding (Google Search) ao invés de web search manual
-  const prompt = `Você é um especialista em análise de normas jurídicas e técnicas. ${provider === 'gemini' ? 'Use Google Search para verificar' : 'Analise os resultados de busca abaixo e determine'} o status da seguinte norma:
-
-NORMA ANALISADA:
-Tipo: ${reference.type}
-Número: ${reference.number}
-Texto: ${reference.fullText}
-
-${provider === 'gemini' ? 'INSTRUÇÕES: Faça uma pesquisa na web para verificar o status atual desta norma. Procure em sites oficiais como planalto.gov.br, eur-lex.europa.eu, boe.es, abnt.org.br, iso.org, etc.' : `RESULTADOS DA BUSCA:\n---\n${searchResults.substring(0, 4000)}\n---`}
-
-Determine:
-1. STATUS atual da norma:
-   - "vigente": Norma está em vigor sem alterações
-   - "alterada": Norma está em vigor mas foi modificada/atualizada
-   - "revogada": Norma foi revogada/cancelada
-   - "substituida": Norma foi substituída por outra
-   - "desconhecido": Não há informação suficiente
-
-2. Se foi ALTERADA ou SUBSTITUÍDA:
-   - Qual o número/identificação da nova versão?
-   - Quando foi alterada/substituída?
-   - Breve descrição da mudança
-
-3. TIPO DE ATUALIZAÇÃO necessária (OBRIGATÓRIO - escolha um):
-   - "auto": Pode atualizar automaticamente (leis/decretos públicos revogadas ou substituídas)
-   - "manual": Requer verificação manual (normas ABNT/ISO pagas OU não há info suficiente)
-   - "none": Não precisa atualização (norma está vigente sem alterações)
-
-4. Se possível ATUALIZAR AUTOMATICAMENTE:
-   - Sugira o texto atualizado para substituir no documento
-   - Ex: "Lei nº 8.078/1990 (alterada pela Lei 14.181/2021)"
-
-IMPORTANTE:
-- Normas ABNT/ISO são PAGAS → sempre "manual"
-- Leis/Decretos brasileiros são PÚBLICOS → pode ser "auto"
-- Se não tiver certeza, marque como "desconhecido"
-- URL oficial da fonte (se disponível)
-
-FORMATO DA RESPOSTA:
-Retorne APENAS um objeto JSON válido, sem markdown, sem explicações, sem texto adicional.
-Comece sua resposta com { e termine com }
-
-JSON:
-{
-  "status": "vigente|alterada|revogada|substituida|desconhecido",
-  "updatedNumber": "número da versão atualizada (se houver)",
-  "updatedDate": "data da atualização (se disponível)",
-  "updateDescription": "descrição breve da mudança",
-  "updateType": "auto|manual|none",
-  "sourceUrl": "URL oficial da fonte",
-  "isPaid": ${isPaid},
-  "suggestedText": "texto sugerido para substituição (se updateType = auto)",
-  "confidence": 0.95
-}`;
+  const prompt = await renderPrompt('norms.verify', {
+    task: webSearch ? 'Use Google Search para verificar' : 'Analise os resultados de busca abaixo e determine',
+    type: reference.type,
+    number: reference.number,
+    full_text: reference.fullText,
+    search_context: webSearch
+      ? 'INSTRUÇÕES: Faça uma pesquisa na web para verificar o status atual desta norma. Procure em sites oficiais como planalto.gov.br, eur-lex.europa.eu, boe.es, abnt.org.br, iso.org, etc.'
+      : `RESULTADOS DA BUSCA:\n---\n${searchResults.substring(0, 4000)}\n---`,
+    is_paid: isPaid
+  });
 
   let response: string;
 
-  if (provider === 'openai') {
-    const OpenAI = (await import('openai')).default;
-    const openai = new OpenAI({ apiKey });
-
-    const completion = await openai.chat.completions.create({
+  if (!webSearch) {
+    const completion = await completeAI(provider, {
       model,
-      messages: [{ role: 'user', content: prompt }],
+      prompt,
       temperature: 0.2,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' }
+      maxTokens: 1000,
+      json: true
     });
 
-    response = completion.choices[0]?.message?.content?.trim() || '{}';
+    response = completion.text || '{}';
   } else {
-    // Gemini com Google Search (grounding)
+    // Com busca na web (Gemini: Google Search grounding)
     // Força uso de modelo compatível com grounding
     const groundingModel = model === 'gemini-flash-latest' ? 'gemini-2.5-flash' : model;
-    console.log(`[NORMS] Initializing Gemini with model: ${groundingModel} (original: ${model})`);
+    console.log(`[NORMS] Initializing ${provider} with model: ${groundingModel} (original: ${model})`);
 
     try {
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const geminiModel = genAI.getGenerativeModel({
+      console.log(`[NORMS] Calling ${provider} with web search for ${reference.number}...`);
+      const completion = await completeAI(provider, {
         model: groundingModel,
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: 2000,  // Aumentado para acomodar grounding + resposta JSON
-        },
-        tools: [{
-          google_search: {}  // Sintaxe correta conforme documentação
-        }]
+        prompt,
+        temperature: 0.2,
+        maxTokens: 2000, // Aumentado para acomodar grounding + resposta JSON
+        json: true,
+        webSearch: true
       });
 
-      console.log(`[NORMS] Calling Gemini API with Google Search for ${reference.number}...`);
-      const result = await geminiModel.generateContent(prompt);
-
-      console.log(`[NORMS] Gemini API response received for ${reference.number}`);
-      console.log(`[NORMS] Raw response:`, JSON.stringify(result.response, null, 2));
+      console.log(`[NORMS] Response received for ${reference.number} (finishReason: ${completion.finishReason})`);
 
-      response = result.response.text().trim();
+      response = completion.text;
       console.log(`[NORMS] Parsed text response:`, response);
 
-    } catch (geminiError: any) {
-      console.error(`[NORMS] Gemini API Error for ${reference.number}:`, {
-        message: geminiError.message,
-        stack: geminiError.stack,
-        fullError: geminiError
+    } catch (searchError: any) {
+      console.error(`[NORMS] ${provider} API Error for ${reference.number}:`, {
+        message: searchError.message,
+        stack: searchError.stack,
+        fullError: searchError
       });
-      throw geminiError; // Re-throw to be caught by outer try-catch
+      throw searchError; // Re-throw to be caught by outer try-catch
     }
   }
 
@@ -282,9 +231,8 @@ JSON:
  */
 export async function verifyMultipleNorms(
   references: NormReference[],
-  provider: 'openai' | 'gemini',
+  provider: AIProvider,
   model: string,
-  apiKey: string,
   webSearchFn?: (query: string) => Promise<string>,
   onProgress?: (current: number, total: number) => void
 ): Promise<NormReference[]> {
@@ -296,7 +244,7 @@ export async function verifyMultipleNorms(
     const batch = references.slice(i, i + batchSize);
 
     const batchResults = await Promise.all(
-      batch.map(ref => verifyNormStatus(ref, provider, model, apiKey, webSearchFn))
+      batch.map(ref => verifyNormStatus(ref, provider, model, webSearchFn))
     );
 
     results.push(...batchResults);
@@ -1,3 +1,5 @@
+import type { AIProvider } from '../ai/types';
+
 export type NormType = 'lei' | 'decreto' | 'portaria' | 'resolucao' | 'abnt' | 'iso' | 'regulamento' | 'outro';
 
 export type NormStatus =
@@ -60,7 +62,7 @@ export type NormUpdateJob = {
 };
 
 export type NormUpdateOptions = {
-  provider: 'openai' | 'gemini';
+  provider: AIProvider;
   model: string;
   onProgress?: (progress: {
     current: number;
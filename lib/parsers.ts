@@ -1,32 +1,84 @@
 import pdf from 'pdf-parse';
-import mammoth from 'mammoth';
+import JSZip from 'jszip';
 import path from 'path';
+import { extractDocxBlocks } from './docx-blocks';
+
+/**
+ * Bloco estrutural do documento, com as páginas reais onde aparece
+ */
+export type DocumentBlock = {
+  type: 'heading' | 'paragraph' | 'table' | 'footnote';
+  text: string;
+  level?: number; // Só em headings (1 = capítulo)
+  pageFrom: number;
+  pageTo: number;
+};
 
 export type ParseResult = {
   text: string;
   pages: number;
+  blocks?: DocumentBlock[]; // Ausente quando o formato não tem estrutura (TXT)
 };
 
+/**
+ * Texto de uma página no mesmo formato do render padrão do pdf-parse
+ */
+async function renderPage(pageData: any): Promise<string> {
+  const content = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of content.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
 export async function parsePDF(buffer: Buffer): Promise<ParseResult> {
-  const data = await pdf(buffer);
+  const pageTexts: string[] = [];
+
+  const data = await pdf(buffer, {
+    pagerender: async (pageData: any) => {
+      const text = await renderPage(pageData);
+      pageTexts[pageData.pageNumber - 1] = text;
+      return text;
+    }
+  });
+
+  // PDF não tem estilos: cada página vira blocos de parágrafo (separados por linha em branco)
+  const blocks: DocumentBlock[] = [];
+  pageTexts.forEach((pageText, i) => {
+    for (const paragraph of (pageText || '').split(/\n\s*\n/)) {
+      const text = paragraph.trim();
+      if (text) blocks.push({ type: 'paragraph', text, pageFrom: i + 1, pageTo: i + 1 });
+    }
+  });
 
   return {
     text: data.text,
-    pages: data.numpages
+    pages: data.numpages,
+    blocks
   };
 }
 
 export async function parseDOCX(buffer: Buffer): Promise<ParseResult> {
-  const result = await mammoth.extractRawText({ buffer });
-  const text = result.value;
+  const zip = await JSZip.loadAsync(buffer);
 
-  // Estimativa de páginas (aproximadamente 500 palavras por página)
-  const wordCount = text.split(/\s+/).length;
-  const estimatedPages = Math.max(1, Math.ceil(wordCount / 500));
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) throw new Error('document.xml not found');
+
+  const documentXml = await documentFile.async('string');
+  const footnotesXml = await zip.file('word/footnotes.xml')?.async('string');
+  const { blocks, pages } = extractDocxBlocks(documentXml, footnotesXml);
 
   return {
-    text,
-    pages: estimatedPages
+    text: blocks.filter(block => block.type !== 'footnote').map(block => block.text).join('\n\n'),
+    pages,
+    blocks
   };
 }
 
@@ -3,7 +3,7 @@
  * Orchestrates sequential execution of document processing operations
  */
 
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
 import {
   PipelineJob,
   PipelineOperation,
@@ -12,6 +12,8 @@ import {
   OperationConfigs,
   PipelineStatus
 } from './types';
+import { BudgetExceededError, findExceededBudgets } from '@/lib/ai/budgets';
+import { getUsageSummary } from '@/lib/ai/usage';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
@@ -67,6 +69,9 @@ export class PipelineEngine {
         // Check for execution control (pause/cancel)
         await this.checkExecutionControl();
 
+        // Check AI budget of the pipeline owner (may pause or fail the pipeline)
+        await this.checkBudget(job);
+
         const operation = job.selected_operations[i];
         const config = job.operation_configs[operation];
 
@@ -235,6 +240,7 @@ export class PipelineEngine {
       body: JSON.stringify({
         provider: updateConfig.provider,
         model: updateConfig.model,
+        promptVersions: updateConfig.promptVersions,
         sourceDocumentPath
       })
     });
@@ -254,6 +260,7 @@ export class PipelineEngine {
 
     // Get results
     const updateJob = await this.getNormsUpdateJob(updateJobId);
+    const usage = await getUsageSummary({ jobId: updateJobId });
 
     return {
       operation: 'update',
@@ -264,7 +271,11 @@ export class PipelineEngine {
       requiresApproval: true,
       approvalStatus: 'pending',
       metadata: {
-        items_generated: updateJob.references?.length || 0
+        items_generated: updateJob.references?.length || 0,
+        cost_usd: usage.costUsd,
+        cache_hits: usage.cacheHits,
+        fallbacks: updateJob.metadata?.fallbacks,
+        prompts: updateJob.metadata?.prompts
       },
       completedAt: new Date().toISOString()
     };
@@ -289,6 +300,7 @@ export class PipelineEngine {
       body: JSON.stringify({
         provider: improveConfig.provider,
         model: improveConfig.model,
+        promptVersions: improveConfig.promptVersions,
         sourceDocumentPath
       })
     });
@@ -308,6 +320,7 @@ export class PipelineEngine {
 
     // Get results
     const improveJob = await this.getImproveJob(improveJobId);
+    const usage = await getUsageSummary({ jobId: improveJobId });
 
     return {
       operation: 'improve',
@@ -318,7 +331,11 @@ export class PipelineEngine {
       requiresApproval: true,
       approvalStatus: 'pending',
       metadata: {
-        items_generated: improveJob.suggestions?.length || 0
+        items_generated: improveJob.suggestions?.length || 0,
+        cost_usd: usage.costUsd,
+        cache_hits: usage.cacheHits,
+        fallbacks: improveJob.metadata?.fallbacks,
+        prompts: improveJob.metadata?.prompts
       },
       completedAt: new Date().toISOString()
     };
@@ -366,6 +383,7 @@ export class PipelineEngine {
         provider: translateConfig.provider,
         model: translateConfig.model,
         maxPages: translateConfig.maxPages,
+        promptVersions: translateConfig.promptVersions,
         sourceDocumentPath
       })
     });
@@ -385,13 +403,14 @@ export class PipelineEngine {
 
     // Get translation job details
     const translationJob = await this.getTranslationJob(translateJobId);
+    const usage = await getUsageSummary({ jobId: translateJobId });
 
     if (!translationJob.output_path) {
       throw new Error('Translation job completed without output_path');
     }
 
     // Download translated document from Storage to a temp path
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('translations')
       .download(translationJob.output_path);
 
@@ -414,7 +433,11 @@ export class PipelineEngine {
       metadata: {
         items_processed: translationJob.total_chunks || 0,
         progress_percentage: translationJob.progress_percentage || 0,
-        output_path: translationJob.output_path
+        output_path: translationJob.output_path,
+        cost_usd: usage.costUsd,
+        cache_hits: usage.cacheHits,
+        fallbacks: translationJob.metadata?.fallbacks,
+        prompts: translationJob.metadata?.prompts
       },
       completedAt: new Date().toISOString()
     };
@@ -441,11 +464,47 @@ export class PipelineEngine {
     }
   }
 
+  /**
+   * AI budget of the pipeline owner (ledger): "block" fails the pipeline,
+   * "pause" pauses it before the next operation until the budget is raised
+   * and the pipeline is resumed
+   */
+  private async checkBudget(job: PipelineJob): Promise<void> {
+    if (!job.created_by) return;
+
+    while (true) {
+      const exceeded = await findExceededBudgets({ userId: job.created_by });
+      if (exceeded.length === 0) return;
+
+      const blocking = exceeded.find(b => b.on_exceed === 'block');
+      if (blocking) throw new BudgetExceededError(blocking);
+
+      const reason = new BudgetExceededError(exceeded[0]).message;
+      console.log(`[PIPELINE ${this.pipelineJobId}] ⏸️ ${reason}; pausing`);
+
+      await db
+        .from('pipeline_jobs')
+        .update({ status: 'paused', error_message: reason })
+        .eq('id', this.pipelineJobId);
+
+      // Waits for "resume"; then checks the budget again
+      await this.checkExecutionControl();
+
+      const resumed = await this.loadJob();
+      if (resumed.status === 'cancelled') throw new PipelineCancelledException();
+
+      await db
+        .from('pipeline_jobs')
+        .update({ error_message: null })
+        .eq('id', this.pipelineJobId);
+    }
+  }
+
   /**
    * Get original document path from Storage
    */
   private async getOriginalDocumentPath(documentId: string): Promise<string> {
-    const { data: doc, error } = await supabase
+    const { data: doc, error } = await db
       .from('documents')
       .select('file_path')
       .eq('id', documentId)
@@ -456,7 +515,7 @@ export class PipelineEngine {
     }
 
     // Download from Storage to temp path
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(doc.file_path);
 
@@ -489,7 +548,7 @@ export class PipelineEngine {
       // Upload to Storage
       const storagePath = `${this.pipelineJobId}/${operationIndex}_${operation}_${Date.now()}.docx`;
 
-      const { error: uploadError } = await supabase.storage
+      const { error: uploadError } = await storage
         .from('pipeline-outputs')
         .upload(storagePath, fileBuffer, {
           contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
@@ -502,7 +561,7 @@ export class PipelineEngine {
       }
 
       // Save to database
-      await supabase
+      await db
         .from('pipeline_intermediate_documents')
         .insert({
           pipeline_job_id: this.pipelineJobId,
@@ -529,7 +588,7 @@ export class PipelineEngine {
     const job = await this.loadJob();
     const updatedResults = [...job.operation_results, result];
 
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({ operation_results: updatedResults })
       .eq('id', this.pipelineJobId);
@@ -546,7 +605,7 @@ export class PipelineEngine {
     const endTime = Date.now();
     const totalDuration = Math.round((endTime - startTime) / 1000);
 
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({
         status: 'completed',
@@ -561,7 +620,7 @@ export class PipelineEngine {
    * Handle pipeline error
    */
   private async handleError(error: Error): Promise<void> {
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({
         status: 'failed',
@@ -576,7 +635,7 @@ export class PipelineEngine {
   // ============================================
 
   private async loadJob(): Promise<PipelineJob> {
-    const { data, error } = await supabase
+    const { data, error } = await db
       .from('pipeline_jobs')
       .select('*')
       .eq('id', this.pipelineJobId)
@@ -590,21 +649,21 @@ export class PipelineEngine {
   }
 
   private async updateStatus(status: PipelineStatus): Promise<void> {
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({ status })
       .eq('id', this.pipelineJobId);
   }
 
   private async updateCurrentOperation(index: number): Promise<void> {
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({ current_operation_index: index })
       .eq('id', this.pipelineJobId);
   }
 
   private async updateTimestamp(field: 'started_at' | 'completed_at'): Promise<void> {
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({ [field]: new Date().toISOString() })
       .eq('id', this.pipelineJobId);
@@ -614,7 +673,7 @@ export class PipelineEngine {
     const job = await this.loadJob();
     const newCost = (job.total_cost_usd || 0) + cost;
 
-    await supabase
+    await db
       .from('pipeline_jobs')
       .update({ total_cost_usd: newCost })
       .eq('id', this.pipelineJobId);
@@ -685,7 +744,7 @@ export class PipelineEngine {
    * Get improve job details
    */
   private async getImproveJob(jobId: string): Promise<any> {
-    const { data, error } = await supabase
+    const { data, error } = await db
       .from('improvement_jobs')
       .select('*')
       .eq('id', jobId)
@@ -702,8 +761,8 @@ export class PipelineEngine {
    * Get norms-update job details
    */
   private async getNormsUpdateJob(jobId: string): Promise<any> {
-    const { data, error } = await supabase
-      .from('norms_update_jobs')
+    const { data, error } = await db
+      .from('norm_update_jobs')
       .select('*')
       .eq('id', jobId)
       .single();
@@ -719,7 +778,7 @@ export class PipelineEngine {
    * Get translation job details
    */
   private async getTranslationJob(jobId: string): Promise<any> {
-    const { data, error } = await supabase
+    const { data, error } = await db
       .from('translation_jobs')
       .select('*')
       .eq('id', jobId)
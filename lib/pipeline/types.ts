@@ -3,6 +3,10 @@
  * Defines all types for the document processing pipeline
  */
 
+import type { AIProvider } from '@/lib/ai/types';
+import type { FallbackEvent } from '@/lib/ai/scope';
+import type { PromptVersions } from '@/lib/ai/prompt-templates';
+
 // ============================================
 // Operation Types
 // ============================================
@@ -26,33 +30,38 @@ export type PipelineStatus =
 export interface AdjustConfig {
   instructions: string;
   creativity: number; // 0-10
-  provider: 'openai' | 'gemini' | 'grok';
+  provider: AIProvider;
   model: string;
+  promptVersions?: PromptVersions; // Versões fixadas dos prompts (sem valor = ativas)
 }
 
 export interface UpdateConfig {
-  provider: 'gemini';
+  provider: 'gemini' | 'mock'; // Busca na web (grounding) ou simulado
   model: string;
+  promptVersions?: PromptVersions;
 }
 
 export interface ImproveConfig {
-  provider: 'openai' | 'gemini';
+  provider: AIProvider;
   model: string;
+  promptVersions?: PromptVersions;
 }
 
 export interface AdaptConfig {
   style: 'academic' | 'professional' | 'simplified' | 'custom';
   targetAudience?: string;
-  provider: 'openai' | 'gemini';
+  provider: AIProvider;
   model: string;
+  promptVersions?: PromptVersions;
 }
 
 export interface TranslateConfig {
   sourceLanguage?: string;
   targetLanguage: string;
-  provider: 'openai' | 'gemini' | 'grok';
+  provider: AIProvider;
   model: string;
   maxPages?: number;
+  promptVersions?: PromptVersions;
 }
 
 // Union type for all operation configs
@@ -97,9 +106,12 @@ export interface OperationResult {
   metadata: {
     duration_seconds?: number;
     cost_usd?: number;
+    cache_hits?: number; // AI responses served from the cache (zero cost)
     items_processed?: number; // suggestions, norms, paragraphs, etc
     items_generated?: number; // Total items for approval
     error_message?: string;
+    fallbacks?: FallbackEvent[]; // Modelos da cadeia de fallback usados no lugar do configurado
+    prompts?: PromptVersions; // Versão de cada prompt usada pelo job da operação
     [key: string]: any;
   };
 
@@ -0,0 +1,55 @@
+/**
+ * Server-Sent Events: formatação no servidor e leitura de respostas fetch
+ * (EventSource não suporta POST, então o cliente lê o corpo da resposta)
+ */
+
+export type SSEMessage = {
+  event: string; // "message" quando o evento não tem nome
+  data: string;
+};
+
+/**
+ * Um evento SSE com payload JSON
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Lê o corpo de uma resposta SSE e chama onMessage para cada evento completo
+ */
+export async function readSSE(response: Response, onMessage: (message: SSEMessage) => void): Promise<void> {
+  if (!response.body) throw new Error('Response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (raw: string) => {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of raw.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+
+    if (data.length > 0) onMessage({ event, data: data.join('\n') });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: RegExpExecArray | null;
+    while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+      dispatch(buffer.slice(0, boundary.index));
+      buffer = buffer.slice(boundary.index + boundary[0].length);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -1,12 +1,16 @@
 import elasticlunr from 'elasticlunr';
 import { TranslationProgress } from './translation/types';
 import type { Thesis, Chapter, ChapterVersion, ChapterChunk } from './thesis/types';
+import { AI_OPERATIONS, type AIOperation, type AIProvider, type AITarget } from './ai/types';
+import { parseFallbackChains } from './ai/fallbacks';
 
 export type Chunk = {
   ix: number;
   pageFrom: number;
   pageTo: number;
   text: string;
+  sectionPath?: string[]; // Títulos (capítulo > seção > ...) que contêm o chunk
+  source?: { chunkId: string; chapterId: string; chapterVersionId: string }; // Trecho de capítulo (chapter_chunks)
 };
 
 export type InMemoryDoc = {
@@ -58,6 +62,7 @@ export type ChapterVersionInMemory = {
   pages: number | null;
   chunks: ChapterChunk[]; // Loaded chunks
   index: elasticlunr.Index<any>; // BM25 index for search
+  embeddings?: Record<string, number[][]>; // `${provider}:${model}` -> one vector per chunk (same order as chunks)
   metadata: Record<string, any>;
   created_at: string;
 };
@@ -66,11 +71,14 @@ export type Settings = {
   openaiKey: string;
   googleKey: string;
   xaiKey: string;
-  models: {
-    openai: string[];
-    gemini: string[];
-    grok: string[];
-  };
+  localBaseUrl: string; // Servidor compatível com a OpenAI (Ollama, llama.cpp, vLLM)
+  localApiKey: string;
+  mockEnabled: boolean; // Provedor simulado (offline, determinístico) para demos e testes
+  models: Record<AIProvider, string[]>; // Modelos habilitados por provedor
+  fallbackChains: AITarget[][]; // Cadeias de fallback (ver lib/ai/fallbacks.ts)
+  cacheEnabled: boolean; // Cache de respostas das operações de documento (ver lib/ai/cache.ts)
+  cacheTtlHours: number;
+  cacheDisabledOperations: AIOperation[]; // Operações que sempre chamam o modelo
   pricesUSD: {
     [modelName: string]: {
       in: number;
@@ -79,6 +87,16 @@ export type Settings = {
   };
 };
 
+// AI_FALLBACK_CHAINS inválido não deve derrubar o servidor
+function envFallbackChains(): AITarget[][] {
+  try {
+    return parseFallbackChains(process.env.AI_FALLBACK_CHAINS ?? "");
+  } catch (error: any) {
+    console.error(`[STATE] Ignoring AI_FALLBACK_CHAINS: ${error.message}`);
+    return [];
+  }
+}
+
 // Use globalThis para garantir singleton mesmo com hot reload
 const globalForState = globalThis as unknown as {
   __appState?: {
@@ -107,13 +125,25 @@ export const state: {
   chapterVersions: new Map(),
   settings: {
     openaiKey: process.env.OPENAI_API_KEY ?? "",
-    googleKey: process.env.GOOGLE_API_KEY ?? "",
-    xaiKey: process.env.XAI_API_KEY ?? "",
+    googleKey: process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY || "",
+    xaiKey: process.env.XAI_API_KEY || process.env.GROK_API_KEY || "",
+    localBaseUrl: process.env.LOCAL_AI_BASE_URL ?? "",
+    localApiKey: process.env.LOCAL_AI_API_KEY ?? "",
+    mockEnabled: process.env.MOCK_AI === "true",
     models: {
       openai: ["gpt-4o-mini", "gpt-4o"],
       gemini: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.0-flash"],
-      grok: ["grok-2-1212", "grok-2-vision-1212"]
+      grok: ["grok-2-1212", "grok-2-vision-1212"],
+      local: (process.env.LOCAL_AI_MODELS ?? "").split(",").map(m => m.trim()).filter(Boolean),
+      mock: ["mock-1"]
     },
+    fallbackChains: envFallbackChains(),
+    cacheEnabled: process.env.AI_CACHE !== "false",
+    cacheTtlHours: Number(process.env.AI_CACHE_TTL_HOURS) || 168,
+    cacheDisabledOperations: (process.env.AI_CACHE_DISABLED_OPERATIONS ?? "")
+      .split(",")
+      .map(op => op.trim())
+      .filter((op): op is AIOperation => (AI_OPERATIONS as readonly string[]).includes(op)),
     pricesUSD: {
       // Preços aproximados por 1K tokens
       "gpt-4o-mini": { in: 0.00015, out: 0.0006 },
@@ -124,7 +154,11 @@ export const state: {
       "gemini-flash-latest": { in: 0.000075, out: 0.0003 },
       "gemini-pro-latest": { in: 0.00125, out: 0.005 },
       "grok-2-1212": { in: 0.002, out: 0.01 },
-      "grok-2-vision-1212": { in: 0.002, out: 0.01 }
+      "grok-2-vision-1212": { in: 0.002, out: 0.01 },
+      // Embeddings (só entrada)
+      "text-embedding-3-small": { in: 0.00002, out: 0 },
+      "text-embedding-3-large": { in: 0.00013, out: 0 },
+      "text-embedding-004": { in: 0.00001, out: 0 }
     }
   }
 };
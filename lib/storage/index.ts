@@ -0,0 +1,46 @@
+import { localBlobStore, localDataStore } from './local';
+import { supabaseBlobStore, supabaseDataStore } from './supabase-store';
+import { BlobStore, DataStore, StorageBackend } from './types';
+
+export * from './types';
+
+/**
+ * Backend de persistência escolhido por STORAGE_BACKEND ('supabase' | 'local').
+ * Sem a variável, usa Supabase se NEXT_PUBLIC_SUPABASE_URL estiver definida,
+ * senão o backend local (SQLite + filesystem em LOCAL_DATA_DIR).
+ */
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+
+  if (configured === 'supabase' || configured === 'local') {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Invalid STORAGE_BACKEND "${configured}". Use "supabase" or "local".`);
+  }
+
+  return process.env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'local';
+}
+
+function pickDataStore(): DataStore {
+  return getStorageBackend() === 'supabase' ? supabaseDataStore : localDataStore;
+}
+
+function pickBlobStore(): BlobStore {
+  return getStorageBackend() === 'supabase' ? supabaseBlobStore : localBlobStore;
+}
+
+/**
+ * Tabelas e funções (substitui `supabase.from(...)` / `supabase.rpc(...)`)
+ */
+export const db: DataStore = {
+  from: (table) => pickDataStore().from(table),
+  rpc: (fn, args) => pickDataStore().rpc(fn, args)
+};
+
+/**
+ * Buckets de arquivos (substitui `supabase.storage`)
+ */
+export const storage: BlobStore = {
+  from: (bucket) => pickBlobStore().from(bucket)
+};
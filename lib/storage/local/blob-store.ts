@@ -0,0 +1,125 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BlobEntry, BlobResult, BlobStore, BucketApi, UploadBody, UploadOptions } from '../types';
+import { getLocalDataDir } from './database';
+
+const MIME_TYPES: Record<string, string> = {
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.xlf': 'application/xliff+xml',
+  '.json': 'application/json'
+};
+
+function storageError(message: string, statusCode: string): BlobResult<never> {
+  return { data: null, error: { message, code: statusCode } };
+}
+
+async function toBuffer(body: UploadBody): Promise<Buffer> {
+  if (Buffer.isBuffer(body)) return body;
+  if (body instanceof Uint8Array) return Buffer.from(body);
+  if (body instanceof ArrayBuffer) return Buffer.from(body);
+  return Buffer.from(await body.arrayBuffer());
+}
+
+/**
+ * Bucket local: arquivos em <LOCAL_DATA_DIR>/buckets/<bucket>/<path>
+ */
+class LocalBucket implements BucketApi {
+  private root: string;
+
+  constructor(bucket: string) {
+    this.root = path.join(getLocalDataDir(), 'buckets', bucket);
+  }
+
+  private resolve(objectPath: string): string | null {
+    const resolved = path.resolve(this.root, objectPath.replace(/^\/+/, ''));
+    // Impede path traversal para fora do bucket
+    return resolved.startsWith(this.root + path.sep) ? resolved : null;
+  }
+
+  async upload(objectPath: string, body: UploadBody, options?: UploadOptions): Promise<BlobResult<{ path: string }>> {
+    const filePath = this.resolve(objectPath);
+    if (!filePath) return storageError(`Invalid key: ${objectPath}`, '400');
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // flag 'wx' falha se o arquivo existir (mesmo comportamento de upsert: false)
+      await fs.writeFile(filePath, await toBuffer(body), { flag: options?.upsert ? 'w' : 'wx' });
+      return { data: { path: objectPath }, error: null };
+    } catch (error: any) {
+      if (error.code === 'EEXIST') return storageError('The resource already exists', '409');
+      return storageError(error.message, '500');
+    }
+  }
+
+  async download(objectPath: string): Promise<BlobResult<Blob>> {
+    const filePath = this.resolve(objectPath);
+    if (!filePath) return storageError(`Invalid key: ${objectPath}`, '400');
+
+    try {
+      const buffer = await fs.readFile(filePath);
+      const type = MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+      return { data: new Blob([new Uint8Array(buffer)], { type }), error: null };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return storageError('Object not found', '404');
+      return storageError(error.message, '500');
+    }
+  }
+
+  async remove(objectPaths: string[]): Promise<BlobResult<Array<{ name: string }>>> {
+    const removed: Array<{ name: string }> = [];
+
+    for (const objectPath of objectPaths) {
+      const filePath = this.resolve(objectPath);
+      if (!filePath) continue;
+      try {
+        await fs.unlink(filePath);
+        removed.push({ name: objectPath });
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') return storageError(error.message, '500');
+      }
+    }
+
+    return { data: removed, error: null };
+  }
+
+  async list(prefix = ''): Promise<BlobResult<BlobEntry[]>> {
+    const dirPath = prefix ? this.resolve(prefix) : this.root;
+    if (!dirPath) return storageError(`Invalid key: ${prefix}`, '400');
+
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      const result: BlobEntry[] = [];
+
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          result.push({ name: entry.name, id: null, updated_at: null, created_at: null, metadata: null });
+          continue;
+        }
+        const stat = await fs.stat(path.join(dirPath, entry.name));
+        result.push({
+          name: entry.name,
+          id: path.posix.join(prefix, entry.name),
+          updated_at: stat.mtime.toISOString(),
+          created_at: stat.birthtime.toISOString(),
+          metadata: { size: stat.size }
+        });
+      }
+
+      return { data: result.sort((a, b) => a.name.localeCompare(b.name)), error: null };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { data: [], error: null };
+      return storageError(error.message, '500');
+    }
+  }
+}
+
+export const localBlobStore: BlobStore = {
+  from(bucket: string): BucketApi {
+    if (!/^[a-z0-9][a-z0-9._-]*$/.test(bucket)) {
+      throw new Error(`Invalid bucket name: ${bucket}`);
+    }
+    return new LocalBucket(bucket);
+  }
+};
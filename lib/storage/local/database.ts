@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database as SqlJsDatabase, SqlValue } from 'sql.js';
+import { LOCAL_MIGRATIONS } from './schema';
+
+export type ColumnInfo = {
+  name: string;
+  type: string; // tipo declarado em maiúsculas (TEXT, INTEGER, JSON, BOOLEAN...)
+  notNull: boolean;
+  primaryKey: boolean;
+};
+
+export type ForeignKeyInfo = {
+  column: string;
+  refTable: string;
+  refColumn: string;
+};
+
+export type TableInfo = {
+  name: string;
+  isView: boolean;
+  columns: Map<string, ColumnInfo>;
+  foreignKeys: ForeignKeyInfo[];
+};
+
+export type Row = Record<string, any>;
+
+/**
+ * Diretório raiz dos dados locais (banco SQLite + blobs dos buckets)
+ */
+export function getLocalDataDir(): string {
+  return path.resolve(process.env.LOCAL_DATA_DIR || path.join(process.cwd(), '.local-data'));
+}
+
+/**
+ * Banco SQLite em memória (sql.js) persistido em arquivo após cada escrita.
+ *
+ * Só um processo deve escrever no arquivo por vez: a instância é
+ * compartilhada por todas as rotas do servidor Next.js (ver getLocalDatabase).
+ */
+export class LocalDatabase {
+  private tables: Map<string, TableInfo> | null = null;
+
+  constructor(private db: SqlJsDatabase, private filePath: string) {
+    this.db.run('PRAGMA foreign_keys = ON');
+  }
+
+  all(sql: string, params: SqlValue[] = []): Row[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Row[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject());
+      }
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  run(sql: string, params: SqlValue[] = []): void {
+    this.db.run(sql, params);
+  }
+
+  /**
+   * Executa fn dentro de uma transação e persiste o arquivo no commit
+   */
+  transaction<T>(fn: () => T): T {
+    this.db.run('BEGIN');
+    try {
+      const result = fn();
+      this.db.run('COMMIT');
+      this.persist();
+      return result;
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  getTable(name: string): TableInfo | null {
+    if (!this.tables) {
+      this.tables = this.loadTables();
+    }
+    return this.tables.get(name) || null;
+  }
+
+  migrate(): void {
+    const [{ user_version: current }] = this.all('PRAGMA user_version');
+
+    for (let version = Number(current); version < LOCAL_MIGRATIONS.length; version++) {
+      console.log(`[LOCAL-DB] Applying migration ${version + 1}/${LOCAL_MIGRATIONS.length}`);
+      this.transaction(() => {
+        this.db.exec(LOCAL_MIGRATIONS[version]);
+        this.db.run(`PRAGMA user_version = ${version + 1}`);
+      });
+    }
+
+    this.tables = null;
+  }
+
+  private persist(): void {
+    // export() fecha e reabre a conexão interna do sql.js, resetando os PRAGMAs
+    const data = this.db.export();
+    this.db.run('PRAGMA foreign_keys = ON');
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, Buffer.from(data));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private loadTables(): Map<string, TableInfo> {
+    const tables = new Map<string, TableInfo>();
+    const objects = this.all(
+      `SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'`
+    );
+
+    for (const object of objects) {
+      const name = String(object.name);
+      const columns = new Map<string, ColumnInfo>();
+
+      for (const col of this.all(`PRAGMA table_info("${name}")`)) {
+        columns.set(String(col.name), {
+          name: String(col.name),
+          type: String(col.type || '').toUpperCase(),
+          notNull: col.notnull === 1,
+          primaryKey: Number(col.pk) > 0
+        });
+      }
+
+      const foreignKeys = this.all(`PRAGMA foreign_key_list("${name}")`).map(fk => ({
+        column: String(fk.from),
+        refTable: String(fk.table),
+        refColumn: String(fk.to || 'id')
+      }));
+
+      tables.set(name, { name, isView: object.type === 'view', columns, foreignKeys });
+    }
+
+    return tables;
+  }
+}
+
+const globalForLocalDb = globalThis as unknown as {
+  __localDatabase?: Promise<LocalDatabase>;
+};
+
+/**
+ * Retorna a instância única do banco local, criando/migrando na primeira chamada.
+ * Fica em globalThis para sobreviver ao hot reload e aos bundles separados por rota.
+ */
+export function getLocalDatabase(): Promise<LocalDatabase> {
+  if (!globalForLocalDb.__localDatabase) {
+    globalForLocalDb.__localDatabase = openLocalDatabase().catch(error => {
+      globalForLocalDb.__localDatabase = undefined;
+      throw error;
+    });
+  }
+  return globalForLocalDb.__localDatabase;
+}
+
+async function openLocalDatabase(): Promise<LocalDatabase> {
+  const dataDir = getLocalDataDir();
+  fs.mkdirSync(dataDir, { recursive: true });
+
+  const filePath = path.join(dataDir, 'autoria.sqlite');
+  const SQL = await initSqlJs();
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+
+  console.log(`[LOCAL-DB] ${existing ? 'Opening' : 'Creating'} database at ${filePath}`);
+
+  const database = new LocalDatabase(new SQL.Database(existing || undefined), filePath);
+  database.migrate();
+  return database;
+}
@@ -0,0 +1,39 @@
+import { DataStore, QueryBuilder, StoreResponse } from '../types';
+import { getLocalDatabase } from './database';
+import { LocalQueryBuilder, LocalStoreError } from './query-builder';
+import { LOCAL_RPC } from './rpc';
+
+export { localBlobStore } from './blob-store';
+export { getLocalDataDir } from './database';
+
+async function callRpc(fn: string, args: Record<string, any>): Promise<StoreResponse> {
+  const handler = LOCAL_RPC[fn];
+  if (!handler) {
+    return {
+      data: null,
+      error: { message: `Could not find the function public.${fn} in the schema cache`, code: 'PGRST202' }
+    };
+  }
+
+  try {
+    const database = await getLocalDatabase();
+    return { data: handler(database, args), error: null };
+  } catch (error: any) {
+    return {
+      data: null,
+      error: { message: error.message, code: error instanceof LocalStoreError ? error.code : undefined }
+    };
+  }
+}
+
+/**
+ * Backend local: SQLite (sql.js) em <LOCAL_DATA_DIR>/autoria.sqlite
+ */
+export const localDataStore: DataStore = {
+  from(table: string): QueryBuilder {
+    return new LocalQueryBuilder(table, getLocalDatabase);
+  },
+  rpc(fn: string, args: Record<string, any> = {}): PromiseLike<StoreResponse> {
+    return callRpc(fn, args);
+  }
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { db } from '../index';
+import { parseSelect } from './query-builder';
+
+async function createThesis(title: string) {
+  const { data, error } = await db.from('theses').insert({ title }).select().single();
+  expect(error).toBeNull();
+  return data;
+}
+
+describe('parseSelect', () => {
+  it('parses columns, aliases and embedded relations with hints', () => {
+    expect(parseSelect('id, name:title, chapters!chapters_thesis_id_fkey(id, theses(title))')).toEqual([
+      { kind: 'column', name: 'id', alias: 'id' },
+      { kind: 'column', name: 'title', alias: 'name' },
+      {
+        kind: 'embed',
+        target: 'chapters',
+        alias: 'chapters',
+        hint: 'chapters_thesis_id_fkey',
+        children: [
+          { kind: 'column', name: 'id', alias: 'id' },
+          { kind: 'embed', target: 'theses', alias: 'theses', hint: null, children: [{ kind: 'column', name: 'title', alias: 'title' }] }
+        ]
+      }
+    ]);
+  });
+});
+
+describe('LocalQueryBuilder', () => {
+  it('inserts with generated id and defaults and reads it back', async () => {
+    const thesis = await createThesis('Tese A');
+
+    expect(thesis.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(thesis.created_at).toBeTruthy();
+
+    const { data } = await db.from('theses').select('id, title').eq('id', thesis.id).single();
+    expect(data).toEqual({ id: thesis.id, title: 'Tese A' });
+  });
+
+  it('filters, orders and limits', async () => {
+    const thesis = await createThesis('Tese B');
+    await db.from('chapters').insert([1, 2, 3].map(order => ({
+      thesis_id: thesis.id,
+      title: `Capítulo ${order}`,
+      chapter_order: order
+    })));
+
+    const { data: ordered } = await db
+      .from('chapters')
+      .select('chapter_order')
+      .eq('thesis_id', thesis.id)
+      .gte('chapter_order', 2)
+      .order('chapter_order', { ascending: false });
+    expect(ordered.map((c: any) => c.chapter_order)).toEqual([3, 2]);
+
+    const { data: limited } = await db
+      .from('chapters')
+      .select('title')
+      .in('chapter_order', [1, 3])
+      .eq('thesis_id', thesis.id)
+      .order('chapter_order')
+      .limit(1);
+    expect(limited).toEqual([{ title: 'Capítulo 1' }]);
+
+    const { count } = await db
+      .from('chapters')
+      .select('*', { count: 'exact', head: true })
+      .eq('thesis_id', thesis.id);
+    expect(count).toBe(3);
+  });
+
+  it('embeds related rows in both directions', async () => {
+    const thesis = await createThesis('Tese C');
+    const { data: chapter } = await db
+      .from('chapters')
+      .insert({ thesis_id: thesis.id, title: 'Introdução', chapter_order: 1 })
+      .select('id, theses(title)')
+      .single();
+    expect(chapter.theses).toEqual({ title: 'Tese C' });
+
+    const { data: withChapters } = await db
+      .from('theses')
+      .select('title, chapters(title)')
+      .eq('id', thesis.id)
+      .single();
+    expect(withChapters).toEqual({ title: 'Tese C', chapters: [{ title: 'Introdução' }] });
+  });
+
+  it('round-trips JSON columns and upserts on conflict', async () => {
+    const thesis = await createThesis('Tese D');
+    const { data: chapter } = await db
+      .from('chapters')
+      .insert({ thesis_id: thesis.id, title: 'Cap', chapter_order: 1 })
+      .select()
+      .single();
+
+    const row = { chapter_id: chapter.id, version_number: 1, file_path: 'x.docx', metadata: { pages: [1, 2] } };
+    const { data: version } = await db.from('chapter_versions').insert(row).select().single();
+    expect(version.metadata).toEqual({ pages: [1, 2] });
+
+    const { data: upserted } = await db
+      .from('chapter_versions')
+      .upsert({ ...row, file_path: 'y.docx' }, { onConflict: 'chapter_id,version_number' })
+      .select();
+    expect(upserted).toHaveLength(1);
+    expect(upserted[0].id).toBe(version.id);
+    expect(upserted[0].file_path).toBe('y.docx');
+  });
+
+  it('updates and deletes only the filtered rows', async () => {
+    const first = await createThesis('Tese E');
+    const second = await createThesis('Tese F');
+
+    const { data: updated } = await db.from('theses').update({ description: 'nova' }).eq('id', first.id).select();
+    expect(updated).toHaveLength(1);
+
+    const { data: untouched } = await db.from('theses').select('description').eq('id', second.id).single();
+    expect(untouched.description).toBeNull();
+
+    await db.from('theses').delete().eq('id', first.id);
+    const { data: remaining } = await db.from('theses').select('id').in('id', [first.id, second.id]);
+    expect(remaining).toEqual([{ id: second.id }]);
+  });
+
+  it('reports errors with PostgREST/Postgres codes', async () => {
+    const single = await db.from('theses').select().eq('id', 'missing').single();
+    expect(single.error?.code).toBe('PGRST116');
+
+    const maybe = await db.from('theses').select().eq('id', 'missing').maybeSingle();
+    expect(maybe).toMatchObject({ data: null, error: null });
+
+    const fk = await db.from('chapters').insert({ thesis_id: 'missing', title: 'X', chapter_order: 1 });
+    expect(fk.error?.code).toBe('23503');
+
+    const column = await db.from('theses').select('nope');
+    expect(column.error?.code).toBe('42703');
+
+    const table = await db.from('nope').select();
+    expect(table.error?.code).toBe('42P01');
+
+    const injected = await db.from('theses').select().eq('id; DROP TABLE theses', 'x');
+    expect(injected.error?.code).toBe('42703');
+    expect((await db.from('theses').select('id').limit(1)).error).toBeNull();
+  });
+});
@@ -0,0 +1,551 @@
+import { randomUUID } from 'crypto';
+import { SqlValue } from 'sql.js';
+import {
+  OrderOptions,
+  QueryBuilder,
+  SelectOptions,
+  StoreError,
+  StoreResponse,
+  UpsertOptions
+} from '../types';
+import { LocalDatabase, Row, TableInfo } from './database';
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+
+type Filter = {
+  column: string;
+  op: '=' | '<>' | '>' | '>=' | '<' | '<=' | 'in' | 'is';
+  value: any;
+};
+
+/**
+ * Nó de um select no formato PostgREST:
+ *   'id, title, chapters:chapter_id(id, theses(title))'
+ *   '*, chapters!chapter_versions_chapter_id_fkey(title)'
+ */
+type SelectNode =
+  | { kind: 'star' }
+  | { kind: 'column'; name: string; alias: string }
+  | { kind: 'embed'; target: string; alias: string; hint: string | null; children: SelectNode[] };
+
+export class LocalStoreError extends Error {
+  constructor(message: string, public code?: string, public details: string | null = null) {
+    super(message);
+    this.name = 'LocalStoreError';
+  }
+}
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function quote(identifier: string): string {
+  if (!IDENTIFIER.test(identifier)) {
+    throw new LocalStoreError(`Invalid identifier: ${identifier}`, '42602');
+  }
+  return `"${identifier}"`;
+}
+
+/**
+ * Divide uma lista por vírgulas respeitando parênteses
+ */
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of input) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(p => p.trim()).filter(Boolean);
+}
+
+export function parseSelect(columns: string): SelectNode[] {
+  return splitTopLevel(columns.replace(/\s+/g, ' ')).map(part => {
+    if (part === '*') return { kind: 'star' } as const;
+
+    const open = part.indexOf('(');
+    if (open !== -1) {
+      // alias:target!hint(children)
+      const head = part.slice(0, open).trim();
+      const body = part.slice(open + 1, part.lastIndexOf(')'));
+      const [aliasPart, targetPart] = head.includes(':') ? head.split(':') : [null, head];
+      const [target, hint] = targetPart.trim().split('!');
+      return {
+        kind: 'embed',
+        target: target.trim(),
+        alias: (aliasPart || target).trim(),
+        hint: hint ? hint.trim() : null,
+        children: parseSelect(body)
+      } as const;
+    }
+
+    const [aliasPart, name] = part.includes(':') ? part.split(':') : [null, part];
+    return { kind: 'column', name: name.trim(), alias: (aliasPart || name).trim() } as const;
+  });
+}
+
+function encodeValue(table: TableInfo, column: string, value: any): SqlValue {
+  if (value === undefined || value === null) return null;
+
+  const type = table.columns.get(column)?.type;
+  if (type === 'JSON') return JSON.stringify(value);
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+function decodeRow(table: TableInfo, row: Row): Row {
+  const decoded: Row = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const type = table.columns.get(key)?.type;
+
+    if (type === 'JSON' && typeof value === 'string') {
+      try {
+        decoded[key] = JSON.parse(value);
+      } catch {
+        decoded[key] = value;
+      }
+    } else if (type === 'BOOLEAN' && value !== null) {
+      decoded[key] = Boolean(value);
+    } else {
+      decoded[key] = value;
+    }
+  }
+
+  return decoded;
+}
+
+function toStoreError(error: any): StoreError {
+  if (error instanceof LocalStoreError) {
+    return { message: error.message, code: error.code, details: error.details, hint: null };
+  }
+
+  const message = String(error?.message || error);
+  let code: string | undefined;
+  if (message.includes('UNIQUE constraint failed')) code = '23505';
+  else if (message.includes('FOREIGN KEY constraint failed')) code = '23503';
+  else if (message.includes('NOT NULL constraint failed')) code = '23502';
+
+  return { message, code, details: null, hint: null };
+}
+
+/**
+ * Query builder compatível com o subconjunto do supabase-js usado no projeto,
+ * executado sobre o banco SQLite local.
+ */
+export class LocalQueryBuilder implements QueryBuilder {
+  private action: Action = 'select';
+  private columns = '*';
+  private returning = false;
+  private countMode: SelectOptions['count'] | null = null;
+  private head = false;
+  private values: Row[] = [];
+  private onConflict: string | null = null;
+  private filters: Filter[] = [];
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private limitCount: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+
+  constructor(
+    private tableName: string,
+    private getDatabase: () => Promise<LocalDatabase>
+  ) {}
+
+  select(columns = '*', options?: SelectOptions): this {
+    if (this.action === 'select') {
+      this.countMode = options?.count || null;
+      this.head = options?.head || false;
+    } else {
+      this.returning = true;
+    }
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: UpsertOptions): this {
+    this.action = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options?.onConflict || null;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this {
+    return this.addFilter(column, '=', value);
+  }
+
+  neq(column: string, value: any): this {
+    return this.addFilter(column, '<>', value);
+  }
+
+  gt(column: string, value: any): this {
+    return this.addFilter(column, '>', value);
+  }
+
+  gte(column: string, value: any): this {
+    return this.addFilter(column, '>=', value);
+  }
+
+  lt(column: string, value: any): this {
+    return this.addFilter(column, '<', value);
+  }
+
+  lte(column: string, value: any): this {
+    return this.addFilter(column, '<=', value);
+  }
+
+  in(column: string, values: any[]): this {
+    return this.addFilter(column, 'in', values);
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.addFilter(column, 'is', value);
+  }
+
+  order(column: string, options?: OrderOptions): this {
+    this.orders.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = StoreResponse, TResult2 = never>(
+    onfulfilled?: ((value: StoreResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private addFilter(column: string, op: Filter['op'], value: any): this {
+    this.filters.push({ column, op, value });
+    return this;
+  }
+
+  private async execute(): Promise<StoreResponse> {
+    try {
+      const database = await this.getDatabase();
+      const table = database.getTable(this.tableName);
+
+      if (!table) {
+        throw new LocalStoreError(`relation "public.${this.tableName}" does not exist`, '42P01');
+      }
+
+      if (table.isView && this.action !== 'select') {
+        throw new LocalStoreError(`cannot modify view "${this.tableName}"`, '55000');
+      }
+
+      switch (this.action) {
+        case 'select':
+          return this.executeSelect(database, table);
+        case 'insert':
+        case 'upsert':
+          return this.finish(database, table, this.executeInsert(database, table));
+        case 'update':
+          return this.finish(database, table, this.executeUpdate(database, table));
+        case 'delete':
+          return this.executeDelete(database, table);
+      }
+    } catch (error) {
+      return { data: null, error: toStoreError(error), count: null };
+    }
+  }
+
+  private buildWhere(table: TableInfo): { sql: string; params: SqlValue[] } {
+    const clauses: string[] = [];
+    const params: SqlValue[] = [];
+
+    for (const filter of this.filters) {
+      this.assertColumn(table, filter.column);
+      const column = quote(filter.column);
+
+      if (filter.op === 'in') {
+        const list = (filter.value as any[]) || [];
+        if (list.length === 0) {
+          clauses.push('0 = 1');
+          continue;
+        }
+        clauses.push(`${column} IN (${list.map(() => '?').join(', ')})`);
+        params.push(...list.map(v => encodeValue(table, filter.column, v)));
+      } else if (filter.op === 'is') {
+        clauses.push(filter.value === null ? `${column} IS NULL` : `${column} = ?`);
+        if (filter.value !== null) params.push(filter.value ? 1 : 0);
+      } else {
+        clauses.push(`${column} ${filter.op} ?`);
+        params.push(encodeValue(table, filter.column, filter.value));
+      }
+    }
+
+    return {
+      sql: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  private assertColumn(table: TableInfo, column: string): void {
+    if (!table.columns.has(column)) {
+      throw new LocalStoreError(`column ${table.name}.${column} does not exist`, '42703');
+    }
+  }
+
+  private executeSelect(database: LocalDatabase, table: TableInfo): StoreResponse {
+    const where = this.buildWhere(table);
+    let count: number | null = null;
+
+    if (this.countMode === 'exact') {
+      const [row] = database.all(`SELECT COUNT(*) AS count FROM ${quote(table.name)}${where.sql}`, where.params);
+      count = Number(row.count);
+    }
+
+    if (this.head) {
+      return { data: null, error: null, count };
+    }
+
+    let sql = `SELECT * FROM ${quote(table.name)}${where.sql}`;
+
+    if (this.orders.length > 0) {
+      sql += ' ORDER BY ' + this.orders.map(o => {
+        this.assertColumn(table, o.column);
+        // Mesmo comportamento do Postgres: NULLs no fim em ASC, no início em DESC
+        return `${quote(o.column)} ${o.ascending ? 'ASC NULLS LAST' : 'DESC NULLS FIRST'}`;
+      }).join(', ');
+    }
+
+    if (this.limitCount !== null) {
+      sql += ` LIMIT ${Math.max(0, Math.floor(this.limitCount))}`;
+    }
+
+    const rows = database.all(sql, where.params).map(row => decodeRow(table, row));
+    return this.shape(database, table, rows, count);
+  }
+
+  private executeInsert(database: LocalDatabase, table: TableInfo): number[] {
+    return database.transaction(() => {
+      const rowIds: number[] = [];
+
+      for (const input of this.values) {
+        const row: Row = { ...input };
+        const generatedId = table.columns.has('id') && (row.id === undefined || row.id === null);
+        if (generatedId) row.id = randomUUID();
+
+        const columns = Object.keys(row).filter(c => row[c] !== undefined);
+        columns.forEach(c => this.assertWritableColumn(table, c));
+
+        let sql = `INSERT INTO ${quote(table.name)} (${columns.map(quote).join(', ')}) ` +
+          `VALUES (${columns.map(() => '?').join(', ')})`;
+
+        if (this.action === 'upsert') {
+          const conflict = (this.onConflict || 'id').split(',').map(c => c.trim());
+          // id gerado só vale para linha nova: no conflito a existente mantém o dela
+          const updates = columns.filter(c => !conflict.includes(c) && !(generatedId && c === 'id'));
+          sql += ` ON CONFLICT (${conflict.map(quote).join(', ')}) ` + (updates.length > 0
+            ? `DO UPDATE SET ${updates.map(c => `${quote(c)} = excluded.${quote(c)}`).join(', ')}`
+            : 'DO NOTHING');
+        }
+
+        const inserted = database.all(
+          `${sql} RETURNING rowid AS __rowid`,
+          columns.map(c => encodeValue(table, c, row[c]))
+        );
+        rowIds.push(...inserted.map(r => Number(r.__rowid)));
+      }
+
+      return rowIds;
+    });
+  }
+
+  private executeUpdate(database: LocalDatabase, table: TableInfo): number[] {
+    const patch: Row = { ...this.values[0] };
+
+    // Equivalente ao trigger update_updated_at_column() do Supabase
+    if (table.columns.has('updated_at') && patch.updated_at === undefined) {
+      patch.updated_at = new Date().toISOString();
+    }
+
+    const columns = Object.keys(patch).filter(c => patch[c] !== undefined);
+    columns.forEach(c => this.assertWritableColumn(table, c));
+
+    if (columns.length === 0) return [];
+
+    const where = this.buildWhere(table);
+
+    return database.transaction(() => {
+      const updated = database.all(
+        `UPDATE ${quote(table.name)} SET ${columns.map(c => `${quote(c)} = ?`).join(', ')}` +
+          `${where.sql} RETURNING rowid AS __rowid`,
+        [...columns.map(c => encodeValue(table, c, patch[c])), ...where.params]
+      );
+      return updated.map(r => Number(r.__rowid));
+    });
+  }
+
+  private executeDelete(database: LocalDatabase, table: TableInfo): StoreResponse {
+    const where = this.buildWhere(table);
+
+    const deleted = database.transaction(() =>
+      database.all(`DELETE FROM ${quote(table.name)}${where.sql} RETURNING *`, where.params)
+    );
+
+    if (!this.returning) {
+      return { data: null, error: null, count: null };
+    }
+
+    // Linhas já removidas: relações embutidas não podem ser resolvidas
+    const nodes = parseSelect(this.columns).filter(n => n.kind !== 'embed');
+    const rows = deleted.map(row => this.project(database, table, decodeRow(table, row), nodes));
+    return this.applySingle(rows, null);
+  }
+
+  private assertWritableColumn(table: TableInfo, column: string): void {
+    if (!table.columns.has(column)) {
+      throw new LocalStoreError(
+        `Could not find the '${column}' column of '${table.name}' in the schema cache`,
+        'PGRST204'
+      );
+    }
+  }
+
+  /**
+   * Após insert/upsert/update: retorna as linhas afetadas se .select() foi chamado
+   */
+  private finish(database: LocalDatabase, table: TableInfo, rowIds: number[]): StoreResponse {
+    if (!this.returning) {
+      return { data: null, error: null, count: null };
+    }
+
+    const rows = rowIds.flatMap(rowId =>
+      database.all(`SELECT * FROM ${quote(table.name)} WHERE rowid = ?`, [rowId])
+    ).map(row => decodeRow(table, row));
+
+    return this.shape(database, table, rows, null);
+  }
+
+  private shape(database: LocalDatabase, table: TableInfo, rows: Row[], count: number | null): StoreResponse {
+    const nodes = parseSelect(this.columns);
+    const projected = rows.map(row => this.project(database, table, row, nodes));
+    return this.applySingle(projected, count);
+  }
+
+  private applySingle(rows: Row[], count: number | null): StoreResponse {
+    if (!this.singleMode) {
+      return { data: rows, error: null, count };
+    }
+
+    if (rows.length === 1 || (this.singleMode === 'maybeSingle' && rows.length === 0)) {
+      return { data: rows[0] || null, error: null, count };
+    }
+
+    return {
+      data: null,
+      error: {
+        message: 'JSON object requested, multiple (or no) rows returned',
+        code: 'PGRST116',
+        details: `The result contains ${rows.length} rows`,
+        hint: null
+      },
+      count
+    };
+  }
+
+  private project(database: LocalDatabase, table: TableInfo, row: Row, nodes: SelectNode[]): Row {
+    const result: Row = {};
+
+    for (const node of nodes) {
+      if (node.kind === 'star') {
+        Object.assign(result, row);
+      } else if (node.kind === 'column') {
+        this.assertColumn(table, node.name);
+        result[node.alias] = row[node.name];
+      } else {
+        result[node.alias] = this.resolveEmbed(database, table, row, node);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve uma relação embutida usando as foreign keys do schema:
+   * - FK na tabela atual -> objeto (muitos-para-um)
+   * - FK na tabela alvo apontando para a atual -> array (um-para-muitos)
+   */
+  private resolveEmbed(
+    database: LocalDatabase,
+    table: TableInfo,
+    row: Row,
+    node: Extract<SelectNode, { kind: 'embed' }>
+  ): Row | Row[] | null {
+    const hintColumn = (fkColumn: string) =>
+      !node.hint || node.hint === fkColumn || node.hint === `${table.name}_${fkColumn}_fkey`;
+
+    // 'alias:fk_column(...)' ou 'tabela(...)' / 'tabela!hint(...)'
+    const manyToOne = table.foreignKeys.find(fk =>
+      fk.column === node.target || (fk.refTable === node.target && hintColumn(fk.column))
+    );
+
+    if (manyToOne) {
+      const target = database.getTable(manyToOne.refTable);
+      if (!target || row[manyToOne.column] === null || row[manyToOne.column] === undefined) return null;
+
+      const [related] = database.all(
+        `SELECT * FROM ${quote(target.name)} WHERE ${quote(manyToOne.refColumn)} = ? LIMIT 1`,
+        [row[manyToOne.column]]
+      );
+      return related ? this.project(database, target, decodeRow(target, related), node.children) : null;
+    }
+
+    const target = database.getTable(node.target);
+    const oneToMany = target?.foreignKeys.find(fk =>
+      fk.refTable === table.name && (!node.hint || node.hint === fk.column || node.hint === `${target.name}_${fk.column}_fkey`)
+    );
+
+    if (!target || !oneToMany) {
+      throw new LocalStoreError(
+        `Could not find a relationship between '${table.name}' and '${node.target}' in the schema cache`,
+        'PGRST200'
+      );
+    }
+
+    return database
+      .all(`SELECT * FROM ${quote(target.name)} WHERE ${quote(oneToMany.column)} = ?`, [row[oneToMany.refColumn]])
+      .map(related => this.project(database, target, decodeRow(target, related), node.children));
+  }
+}
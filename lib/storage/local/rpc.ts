@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import { LocalDatabase } from './database';
+
+type RpcHandler = (database: LocalDatabase, args: Record<string, any>) => any;
+
+function nextNumber(database: LocalDatabase, sql: string, param: string): number {
+  const [row] = database.all(sql, [param]);
+  return Number(row?.next ?? 1);
+}
+
+/**
+ * Funções do Postgres (supabase/migrations) reimplementadas para o backend local.
+ * Recebem os mesmos parâmetros nomeados usados em `db.rpc(...)`.
+ */
+export const LOCAL_RPC: Record<string, RpcHandler> = {
+  get_next_chapter_order(database, { p_thesis_id }) {
+    return nextNumber(
+      database,
+      'SELECT COALESCE(MAX(chapter_order), 0) + 1 AS next FROM chapters WHERE thesis_id = ?',
+      p_thesis_id
+    );
+  },
+
+  get_next_version_number(database, { p_chapter_id }) {
+    return nextNumber(
+      database,
+      'SELECT COALESCE(MAX(version_number), 0) + 1 AS next FROM chapter_versions WHERE chapter_id = ?',
+      p_chapter_id
+    );
+  },
+
+  get_next_thesis_version_number(database, { p_thesis_id }) {
+    return nextNumber(
+      database,
+      'SELECT COALESCE(MAX(version_number), 0) + 1 AS next FROM thesis_versions WHERE thesis_id = ?',
+      p_thesis_id
+    );
+  },
+
+  /**
+   * Duas assinaturas no Supabase:
+   * - 010: (p_chapter_id, p_file_path, p_pages, p_chunks_count, ...) -> também atualiza current_version_id
+   * - 012: (p_chapter_id, p_file_path, p_parent_version_id, p_created_by_operation, p_metadata)
+   */
+  create_chapter_version(database, args) {
+    const updatesCurrentVersion = 'p_pages' in args || 'p_chunks_count' in args;
+    const versionId = randomUUID();
+
+    return database.transaction(() => {
+      const versionNumber = LOCAL_RPC.get_next_version_number(database, args);
+
+      database.run(
+        `INSERT INTO chapter_versions
+          (id, chapter_id, version_number, parent_version_id, file_path, pages, chunks_count, created_by_operation, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          versionId,
+          args.p_chapter_id,
+          versionNumber,
+          args.p_parent_version_id ?? null,
+          args.p_file_path,
+          args.p_pages ?? null,
+          args.p_chunks_count ?? null,
+          args.p_created_by_operation ?? null,
+          JSON.stringify(args.p_metadata ?? {})
+        ]
+      );
+
+      if (updatesCurrentVersion) {
+        database.run(
+          'UPDATE chapters SET current_version_id = ?, updated_at = ? WHERE id = ?',
+          [versionId, new Date().toISOString(), args.p_chapter_id]
+        );
+      }
+
+      return versionId;
+    });
+  },
+
+  create_thesis_version(database, args) {
+    const versionId = randomUUID();
+
+    return database.transaction(() => {
+      const versionNumber = LOCAL_RPC.get_next_thesis_version_number(database, args);
+
+      database.run(
+        `INSERT INTO thesis_versions (id, thesis_id, version_number, file_path, total_pages, chapters_included, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          versionId,
+          args.p_thesis_id,
+          versionNumber,
+          args.p_file_path,
+          args.p_total_pages ?? null,
+          JSON.stringify(args.p_chapters_included ?? []),
+          JSON.stringify(args.p_metadata ?? {})
+        ]
+      );
+
+      return versionId;
+    });
+  }
+};
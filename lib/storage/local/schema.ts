@@ -0,0 +1,640 @@
+/**
+ * Schema SQLite do backend local.
+ *
+ * Espelha supabase-schema.sql e supabase/migrations/*.sql. Convenções:
+ * - UUID e TIMESTAMPTZ viram TEXT (ISO 8601); ids são gerados pela aplicação
+ * - JSONB / arrays viram colunas declaradas como JSON (serializadas pelo query builder)
+ * - BOOLEAN é guardado como 0/1 e convertido de volta na leitura
+ * - CHECK constraints não são replicadas (validação fica na aplicação)
+ *
+ * Cada item de LOCAL_MIGRATIONS roda uma única vez, em ordem, controlado por
+ * PRAGMA user_version. Para evoluir o schema, adicione um novo item no final
+ * (nunca edite um item já publicado) junto com a migration SQL do Supabase.
+ */
+
+const NOW = `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+export const LOCAL_MIGRATIONS: string[] = [
+  // 001 - supabase-schema.sql + supabase-migration-time-estimate.sql
+  `
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+  CREATE INDEX IF NOT EXISTS idx_projects_updated_at ON projects(updated_at DESC);
+
+  CREATE TABLE IF NOT EXISTS documents (
+    id TEXT PRIMARY KEY,
+    project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    pages INTEGER NOT NULL DEFAULT 0,
+    file_path TEXT NOT NULL,
+    chunks_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+  CREATE INDEX IF NOT EXISTS idx_documents_project_id ON documents(project_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents(created_at DESC);
+
+  CREATE TABLE IF NOT EXISTS translation_jobs (
+    id TEXT PRIMARY KEY,
+    document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    target_language TEXT NOT NULL,
+    source_language TEXT,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    progress_percentage INTEGER NOT NULL DEFAULT 0,
+    current_chunk INTEGER NOT NULL DEFAULT 0,
+    total_chunks INTEGER NOT NULL DEFAULT 0,
+    current_section TEXT,
+    error_message TEXT,
+    output_path TEXT,
+    stats JSON,
+    started_at TEXT,
+    elapsed_seconds INTEGER,
+    estimated_seconds_remaining INTEGER,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW},
+    completed_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_translation_jobs_document_id ON translation_jobs(document_id);
+  CREATE INDEX IF NOT EXISTS idx_translation_jobs_status ON translation_jobs(status);
+
+  CREATE TABLE IF NOT EXISTS settings (
+    id TEXT PRIMARY KEY,
+    openai_key TEXT,
+    google_key TEXT,
+    xai_key TEXT,
+    models JSON NOT NULL DEFAULT '{}',
+    prices_usd JSON NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+  `,
+
+  // 002 - 004_create_improvement_jobs.sql + create_norm_update_jobs.sql
+  `
+  CREATE TABLE IF NOT EXISTS improvement_jobs (
+    id TEXT PRIMARY KEY,
+    document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending',
+    global_context JSON,
+    document_structure JSON,
+    suggestions JSON DEFAULT '[]',
+    current_section INTEGER DEFAULT 0,
+    total_sections INTEGER DEFAULT 0,
+    progress_percentage INTEGER DEFAULT 0,
+    error_message TEXT,
+    created_at TEXT DEFAULT ${NOW},
+    started_at TEXT,
+    completed_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_improvement_jobs_document_id ON improvement_jobs(document_id);
+
+  CREATE TABLE IF NOT EXISTS norm_update_jobs (
+    id TEXT PRIMARY KEY,
+    document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    norm_references JSON DEFAULT '[]',
+    total_references INTEGER DEFAULT 0,
+    vigentes INTEGER DEFAULT 0,
+    alteradas INTEGER DEFAULT 0,
+    revogadas INTEGER DEFAULT 0,
+    substituidas INTEGER DEFAULT 0,
+    manual_review INTEGER DEFAULT 0,
+    current_reference INTEGER DEFAULT 0,
+    progress_percentage INTEGER DEFAULT 0,
+    error_message TEXT,
+    created_at TEXT DEFAULT ${NOW},
+    started_at TEXT,
+    completed_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_norm_update_jobs_document_id ON norm_update_jobs(document_id);
+  `,
+
+  // 003 - 010_create_thesis_system_clean.sql + 015_create_thesis_versions.sql
+  `
+  CREATE TABLE IF NOT EXISTS theses (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE TABLE IF NOT EXISTS chapters (
+    id TEXT PRIMARY KEY,
+    thesis_id TEXT NOT NULL REFERENCES theses(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    chapter_order INTEGER NOT NULL,
+    current_version_id TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(thesis_id, chapter_order),
+    UNIQUE(thesis_id, title)
+  );
+  CREATE INDEX IF NOT EXISTS idx_chapters_thesis_id ON chapters(thesis_id);
+
+  CREATE TABLE IF NOT EXISTS chapter_versions (
+    id TEXT PRIMARY KEY,
+    chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    parent_version_id TEXT REFERENCES chapter_versions(id) ON DELETE SET NULL,
+    file_path TEXT NOT NULL,
+    pages INTEGER,
+    chunks_count INTEGER,
+    created_by_operation TEXT NOT NULL DEFAULT 'upload',
+    metadata JSON DEFAULT '{}',
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(chapter_id, version_number)
+  );
+  CREATE INDEX IF NOT EXISTS idx_chapter_versions_chapter_id ON chapter_versions(chapter_id);
+
+  CREATE TABLE IF NOT EXISTS chapter_chunks (
+    id TEXT PRIMARY KEY,
+    chapter_version_id TEXT NOT NULL REFERENCES chapter_versions(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    page_from INTEGER NOT NULL,
+    page_to INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(chapter_version_id, chunk_index)
+  );
+  CREATE INDEX IF NOT EXISTS idx_chapter_chunks_version_id ON chapter_chunks(chapter_version_id);
+
+  CREATE TABLE IF NOT EXISTS thesis_versions (
+    id TEXT PRIMARY KEY,
+    thesis_id TEXT NOT NULL REFERENCES theses(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    file_path TEXT NOT NULL,
+    total_pages INTEGER,
+    chapters_included JSON NOT NULL DEFAULT '[]',
+    metadata JSON DEFAULT '{}',
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE(thesis_id, version_number)
+  );
+  CREATE INDEX IF NOT EXISTS idx_thesis_versions_thesis_id ON thesis_versions(thesis_id);
+
+  CREATE VIEW IF NOT EXISTS thesis_summary AS
+  SELECT
+    t.id,
+    t.title,
+    t.description,
+    t.created_at,
+    t.updated_at,
+    COUNT(c.id) AS chapter_count,
+    MIN(c.chapter_order) AS first_chapter_order,
+    MAX(c.chapter_order) AS last_chapter_order
+  FROM theses t
+  LEFT JOIN chapters c ON c.thesis_id = t.id
+  GROUP BY t.id;
+
+  CREATE VIEW IF NOT EXISTS chapter_details AS
+  SELECT
+    c.id AS chapter_id,
+    c.thesis_id,
+    c.title AS chapter_title,
+    c.chapter_order,
+    c.created_at AS chapter_created_at,
+    c.updated_at AS chapter_updated_at,
+    cv.id AS current_version_id,
+    cv.version_number,
+    cv.file_path,
+    cv.pages,
+    cv.chunks_count,
+    cv.created_by_operation,
+    cv.metadata,
+    cv.created_at AS version_created_at,
+    (SELECT COUNT(*) FROM chapter_versions WHERE chapter_id = c.id) AS total_versions
+  FROM chapters c
+  LEFT JOIN chapter_versions cv ON cv.id = c.current_version_id;
+  `,
+
+  // 004 - 011_create_chapter_operation_jobs.sql, 012_create_operation_references.sql,
+  //       013_add_metadata_to_chapter_operation_jobs.sql
+  `
+  CREATE TABLE IF NOT EXISTS chapter_operation_jobs (
+    id TEXT PRIMARY KEY,
+    chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+    version_id TEXT NOT NULL REFERENCES chapter_versions(id) ON DELETE CASCADE,
+    operation TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    progress INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+    new_version_id TEXT REFERENCES chapter_versions(id) ON DELETE SET NULL,
+    metadata JSON DEFAULT '{}',
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    completed_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_chapter_operation_jobs_chapter_id ON chapter_operation_jobs(chapter_id);
+
+  CREATE TABLE IF NOT EXISTS operation_references (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES chapter_operation_jobs(id) ON DELETE CASCADE,
+    reference_type TEXT NOT NULL,
+    reference_content TEXT NOT NULL,
+    title TEXT,
+    description TEXT,
+    file_name TEXT,
+    file_size INTEGER,
+    mime_type TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+  CREATE INDEX IF NOT EXISTS idx_operation_references_job_id ON operation_references(job_id);
+  `,
+
+  // 005 - pipeline (SUPABASE_SETUP_DOCUMENTATION.md, tabelas 14 e 15)
+  `
+  CREATE TABLE IF NOT EXISTS pipeline_jobs (
+    id TEXT PRIMARY KEY,
+    document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    selected_operations JSON NOT NULL,
+    operation_configs JSON NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending',
+    current_operation_index INTEGER DEFAULT 0,
+    operation_results JSON DEFAULT '[]',
+    final_document_id TEXT,
+    final_document_path TEXT,
+    error_message TEXT,
+    total_cost_usd REAL DEFAULT 0,
+    total_duration_seconds INTEGER,
+    created_at TEXT DEFAULT ${NOW},
+    started_at TEXT,
+    completed_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_document_id ON pipeline_jobs(document_id);
+
+  CREATE TABLE IF NOT EXISTS pipeline_intermediate_documents (
+    id TEXT PRIMARY KEY,
+    pipeline_job_id TEXT NOT NULL REFERENCES pipeline_jobs(id) ON DELETE CASCADE,
+    operation_name TEXT NOT NULL,
+    operation_index INTEGER NOT NULL,
+    storage_path TEXT NOT NULL,
+    file_size_bytes INTEGER,
+    operation_job_id TEXT,
+    metadata JSON DEFAULT '{}',
+    created_at TEXT DEFAULT ${NOW}
+  );
+  CREATE INDEX IF NOT EXISTS idx_pipeline_intermediate_documents_job_id ON pipeline_intermediate_documents(pipeline_job_id);
+  `,
+
+  // 006 - 016_create_users_and_ownership.sql
+  `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  ALTER TABLE theses ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+  ALTER TABLE projects ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+  ALTER TABLE documents ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+  ALTER TABLE chapters ADD COLUMN created_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+  ALTER TABLE pipeline_jobs ADD COLUMN created_by TEXT REFERENCES users(id) ON DELETE CASCADE;
+
+  CREATE INDEX IF NOT EXISTS idx_theses_owner_id ON theses(owner_id);
+  CREATE INDEX IF NOT EXISTS idx_projects_owner_id ON projects(owner_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_owner_id ON documents(owner_id);
+  CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_created_by ON pipeline_jobs(created_by);
+  `,
+
+  // 007 - 017_create_thesis_members.sql
+  `
+  CREATE TABLE IF NOT EXISTS thesis_members (
+    id TEXT PRIMARY KEY,
+    thesis_id TEXT NOT NULL REFERENCES theses(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE (thesis_id, user_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS thesis_invitations (
+    id TEXT PRIMARY KEY,
+    thesis_id TEXT NOT NULL REFERENCES theses(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'pending',
+    invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    accepted_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    accepted_at TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE TABLE IF NOT EXISTS mail_outbox (
+    id TEXT PRIMARY KEY,
+    to_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_thesis_members_thesis_id ON thesis_members(thesis_id);
+  CREATE INDEX IF NOT EXISTS idx_thesis_members_user_id ON thesis_members(user_id);
+  CREATE INDEX IF NOT EXISTS idx_thesis_invitations_thesis_id ON thesis_invitations(thesis_id);
+  CREATE INDEX IF NOT EXISTS idx_thesis_invitations_email ON thesis_invitations(email);
+  CREATE INDEX IF NOT EXISTS idx_mail_outbox_to_email ON mail_outbox(to_email);
+  `,
+
+  // 008 - 018_create_chapter_comments.sql
+  `
+  CREATE TABLE IF NOT EXISTS comment_threads (
+    id TEXT PRIMARY KEY,
+    chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+    origin_version_id TEXT REFERENCES chapter_versions(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    resolved_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE TABLE IF NOT EXISTS comment_thread_anchors (
+    id TEXT PRIMARY KEY,
+    thread_id TEXT NOT NULL REFERENCES comment_threads(id) ON DELETE CASCADE,
+    chapter_version_id TEXT NOT NULL REFERENCES chapter_versions(id) ON DELETE CASCADE,
+    paragraph_index INTEGER NOT NULL,
+    paragraph_text TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE (thread_id, chapter_version_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS comment_messages (
+    id TEXT PRIMARY KEY,
+    thread_id TEXT NOT NULL REFERENCES comment_threads(id) ON DELETE CASCADE,
+    author_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_comment_threads_chapter_id ON comment_threads(chapter_id);
+  CREATE INDEX IF NOT EXISTS idx_comment_thread_anchors_version ON comment_thread_anchors(chapter_version_id);
+  CREATE INDEX IF NOT EXISTS idx_comment_messages_thread_id ON comment_messages(thread_id);
+  `,
+
+  // 009 - 019_add_chapter_version_merge_parent.sql
+  `
+  ALTER TABLE chapter_versions ADD COLUMN merge_parent_version_id TEXT REFERENCES chapter_versions(id) ON DELETE SET NULL;
+  `,
+
+  // 010 - 020_create_chapter_chunk_embeddings.sql
+  `
+  CREATE TABLE IF NOT EXISTS chapter_chunk_embeddings (
+    id TEXT PRIMARY KEY,
+    chunk_id TEXT NOT NULL REFERENCES chapter_chunks(id) ON DELETE CASCADE,
+    chapter_version_id TEXT NOT NULL REFERENCES chapter_versions(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    dimensions INTEGER NOT NULL,
+    embedding JSON NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE (chunk_id, provider, model)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chapter_chunk_embeddings_version ON chapter_chunk_embeddings(chapter_version_id, provider, model);
+  `,
+
+  // 011 - 021_add_chapter_chunk_section_path.sql
+  `
+  ALTER TABLE chapter_chunks ADD COLUMN section_path JSON;
+  `,
+
+  // 012 - 022_add_metadata_to_document_jobs.sql
+  `
+  ALTER TABLE improvement_jobs ADD COLUMN metadata JSON DEFAULT '{}';
+  ALTER TABLE norm_update_jobs ADD COLUMN metadata JSON DEFAULT '{}';
+  ALTER TABLE translation_jobs ADD COLUMN metadata JSON DEFAULT '{}';
+  `,
+
+  // 013 - 023_create_ai_usage_ledger_and_budgets.sql
+  `
+  CREATE TABLE IF NOT EXISTS ai_usage_ledger (
+    id TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    tokens_in INTEGER NOT NULL DEFAULT 0,
+    tokens_out INTEGER NOT NULL DEFAULT 0,
+    cost_usd REAL NOT NULL DEFAULT 0,
+    operation TEXT,
+    user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    thesis_id TEXT REFERENCES theses(id) ON DELETE SET NULL,
+    chapter_id TEXT REFERENCES chapters(id) ON DELETE SET NULL,
+    document_id TEXT REFERENCES documents(id) ON DELETE SET NULL,
+    job_table TEXT,
+    job_id TEXT,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_user ON ai_usage_ledger(user_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_thesis ON ai_usage_ledger(thesis_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_job ON ai_usage_ledger(job_id);
+
+  CREATE TABLE IF NOT EXISTS ai_budgets (
+    id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL CHECK (scope IN ('thesis', 'user')),
+    thesis_id TEXT REFERENCES theses(id) ON DELETE CASCADE,
+    user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+    limit_usd REAL NOT NULL CHECK (limit_usd >= 0),
+    period TEXT NOT NULL DEFAULT 'monthly' CHECK (period IN ('monthly', 'total')),
+    on_exceed TEXT NOT NULL DEFAULT 'block' CHECK (on_exceed IN ('block', 'pause')),
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_thesis ON ai_budgets(thesis_id) WHERE scope = 'thesis';
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_user ON ai_budgets(user_id) WHERE scope = 'user';
+  `,
+
+  // 014 - 024_create_ai_response_cache.sql
+  `
+  CREATE TABLE IF NOT EXISTS ai_response_cache (
+    key TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    operation TEXT,
+    response JSON NOT NULL,
+    cost_usd REAL NOT NULL DEFAULT 0,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    expires_at TEXT NOT NULL,
+    last_hit_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires_at ON ai_response_cache(expires_at);
+
+  ALTER TABLE ai_usage_ledger ADD COLUMN cache_hit BOOLEAN NOT NULL DEFAULT 0;
+  `,
+
+  // 015 - 025_create_prompt_templates.sql
+  `
+  CREATE TABLE IF NOT EXISTS prompt_templates (
+    id TEXT PRIMARY KEY,
+    key TEXT NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    body TEXT NOT NULL,
+    note TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT 0,
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE (key, version)
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active ON prompt_templates(key) WHERE is_active;
+  `,
+
+  // 016 - 026_create_chat_conversations.sql
+  `
+  CREATE TABLE IF NOT EXISTS chat_conversations (
+    id TEXT PRIMARY KEY,
+    thesis_id TEXT NOT NULL REFERENCES theses(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE TABLE IF NOT EXISTS chat_messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    chapter_version_ids JSON NOT NULL DEFAULT '[]',
+    search_mode TEXT,
+    retrieval_query TEXT,
+    citation_mode TEXT,
+    citations JSON NOT NULL DEFAULT '[]',
+    sources JSON NOT NULL DEFAULT '[]',
+    provider TEXT,
+    model TEXT,
+    error TEXT,
+    tokens_in INTEGER,
+    tokens_out INTEGER,
+    cost_usd REAL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE (conversation_id, seq)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chat_conversations_thesis_user ON chat_conversations(thesis_id, user_id, updated_at DESC);
+  `,
+
+  // 017 - 027_create_chat_judgments.sql
+  `
+  CREATE TABLE IF NOT EXISTS chat_judgments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    thesis_id TEXT REFERENCES theses(id) ON DELETE CASCADE,
+    document_id TEXT REFERENCES documents(id) ON DELETE SET NULL,
+    conversation_id TEXT REFERENCES chat_conversations(id) ON DELETE SET NULL,
+    question TEXT NOT NULL,
+    judge_provider TEXT NOT NULL,
+    judge_model TEXT NOT NULL,
+    synthesis TEXT NOT NULL,
+    citations JSON NOT NULL DEFAULT '[]',
+    dropped_citations INTEGER NOT NULL DEFAULT 0,
+    disagreements JSON NOT NULL DEFAULT '[]',
+    tokens_in INTEGER,
+    tokens_out INTEGER,
+    cost_usd REAL,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE TABLE IF NOT EXISTS chat_judgment_ratings (
+    id TEXT PRIMARY KEY,
+    judgment_id TEXT NOT NULL REFERENCES chat_judgments(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    score INTEGER NOT NULL CHECK (score BETWEEN 1 AND 5),
+    rationale TEXT,
+    unsupported_citations INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT ${NOW}
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chat_judgments_user ON chat_judgments(user_id, created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_chat_judgments_thesis ON chat_judgments(thesis_id, created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_chat_judgment_ratings_judgment ON chat_judgment_ratings(judgment_id);
+  CREATE INDEX IF NOT EXISTS idx_chat_judgment_ratings_model ON chat_judgment_ratings(provider, model);
+  `,
+
+  // 018 - 029_create_translation_memory.sql
+  `
+  CREATE TABLE IF NOT EXISTS translation_memory (
+    id TEXT PRIMARY KEY,
+    thesis_id TEXT NOT NULL REFERENCES theses(id) ON DELETE CASCADE,
+    source_language TEXT NOT NULL,
+    target_language TEXT NOT NULL,
+    source_hash TEXT NOT NULL,
+    source_text TEXT NOT NULL,
+    target_text TEXT NOT NULL,
+    provider TEXT,
+    model TEXT,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW},
+    last_used_at TEXT,
+    UNIQUE (thesis_id, source_language, target_language, source_hash)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_translation_memory_pair ON translation_memory(thesis_id, source_language, target_language);
+  `,
+
+  // 019 - 030_create_termbase.sql
+  `
+  CREATE TABLE IF NOT EXISTS termbase_entries (
+    id TEXT PRIMARY KEY,
+    thesis_id TEXT NOT NULL REFERENCES theses(id) ON DELETE CASCADE,
+    source_term TEXT NOT NULL,
+    target_language TEXT NOT NULL,
+    translation TEXT NOT NULL,
+    forbidden JSON NOT NULL DEFAULT '[]',
+    part_of_speech TEXT,
+    notes TEXT,
+    case_sensitive BOOLEAN NOT NULL DEFAULT 0,
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    updated_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE (thesis_id, source_term, target_language)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_termbase_entries_language ON termbase_entries(thesis_id, target_language);
+  `,
+
+  // 020 - 031_scope_prompt_templates_per_user.sql (SQLite não troca UNIQUE: recria a tabela)
+  `
+  CREATE TABLE prompt_templates_new (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    body TEXT NOT NULL,
+    note TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT 0,
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT ${NOW},
+    UNIQUE (owner_id, key, version)
+  );
+
+  INSERT INTO prompt_templates_new (id, owner_id, key, version, body, note, is_active, created_by, created_at)
+    SELECT id, created_by, key, version, body, note, is_active, created_by, created_at
+    FROM prompt_templates
+    WHERE created_by IS NOT NULL;
+
+  DROP TABLE prompt_templates;
+  ALTER TABLE prompt_templates_new RENAME TO prompt_templates;
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active ON prompt_templates(owner_id, key) WHERE is_active;
+  `
+];
@@ -0,0 +1,20 @@
+import { getSupabaseClient } from '@/lib/supabase';
+import { BlobStore, BucketApi, DataStore, QueryBuilder, StoreResponse } from './types';
+
+/**
+ * Backend Supabase: repassa as chamadas para o cliente supabase-js.
+ */
+export const supabaseDataStore: DataStore = {
+  from(table: string): QueryBuilder {
+    return getSupabaseClient().from(table as any) as unknown as QueryBuilder;
+  },
+  rpc(fn: string, args?: Record<string, any>): PromiseLike<StoreResponse> {
+    return getSupabaseClient().rpc(fn as any, args as any) as unknown as PromiseLike<StoreResponse>;
+  }
+};
+
+export const supabaseBlobStore: BlobStore = {
+  from(bucket: string): BucketApi {
+    return getSupabaseClient().storage.from(bucket) as unknown as BucketApi;
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Contratos da camada de persistência.
+ *
+ * O formato segue a API do supabase-js (query builder encadeável que resolve
+ * em `{ data, error }`), para que as rotas e módulos funcionem igual com o
+ * backend Supabase ou com o backend local (SQLite + filesystem).
+ */
+
+export type StorageBackend = 'supabase' | 'local';
+
+export type StoreError = {
+  message: string;
+  code?: string;
+  details?: string | null;
+  hint?: string | null;
+};
+
+export type StoreResponse<T = any> = {
+  data: T;
+  error: StoreError | null;
+  count?: number | null;
+};
+
+/**
+ * Resultado das operações de bucket: data só é null quando há erro
+ */
+export type BlobResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: StoreError };
+
+export type SelectOptions = {
+  count?: 'exact';
+  head?: boolean;
+};
+
+export type OrderOptions = {
+  ascending?: boolean;
+};
+
+export type UpsertOptions = {
+  onConflict?: string;
+};
+
+export interface QueryBuilder<T = any> extends PromiseLike<StoreResponse<T>> {
+  select(columns?: string, options?: SelectOptions): QueryBuilder<T>;
+  insert(values: Record<string, any> | Record<string, any>[]): QueryBuilder<T>;
+  upsert(values: Record<string, any> | Record<string, any>[], options?: UpsertOptions): QueryBuilder<T>;
+  update(values: Record<string, any>): QueryBuilder<T>;
+  delete(): QueryBuilder<T>;
+
+  eq(column: string, value: any): QueryBuilder<T>;
+  neq(column: string, value: any): QueryBuilder<T>;
+  gt(column: string, value: any): QueryBuilder<T>;
+  gte(column: string, value: any): QueryBuilder<T>;
+  lt(column: string, value: any): QueryBuilder<T>;
+  lte(column: string, value: any): QueryBuilder<T>;
+  in(column: string, values: any[]): QueryBuilder<T>;
+  is(column: string, value: null | boolean): QueryBuilder<T>;
+
+  order(column: string, options?: OrderOptions): QueryBuilder<T>;
+  limit(count: number): QueryBuilder<T>;
+  single(): QueryBuilder<T>;
+  maybeSingle(): QueryBuilder<T>;
+}
+
+/**
+ * Repositório de tabelas + funções (equivalente a `supabase.from` / `supabase.rpc`)
+ */
+export interface DataStore {
+  from(table: string): QueryBuilder;
+  rpc(fn: string, args?: Record<string, any>): PromiseLike<StoreResponse>;
+}
+
+export type UploadBody = Buffer | ArrayBuffer | Uint8Array | Blob;
+
+export type UploadOptions = {
+  contentType?: string;
+  upsert?: boolean;
+  cacheControl?: string;
+};
+
+export type BlobEntry = {
+  name: string;
+  id: string | null;
+  updated_at: string | null;
+  created_at: string | null;
+  metadata: Record<string, any> | null;
+};
+
+export interface BucketApi {
+  upload(path: string, body: UploadBody, options?: UploadOptions): Promise<BlobResult<{ path: string }>>;
+  download(path: string): Promise<BlobResult<Blob>>;
+  remove(paths: string[]): Promise<BlobResult<Array<{ name: string }>>>;
+  list(prefix?: string): Promise<BlobResult<BlobEntry[]>>;
+}
+
+/**
+ * Armazenamento de arquivos por bucket (equivalente a `supabase.storage`)
+ */
+export interface BlobStore {
+  from(bucket: string): BucketApi;
+}
@@ -0,0 +1,18 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+/**
+ * Testes usam o backend local (SQLite + filesystem) num diretório temporário,
+ * sem Supabase nem chaves de provedores
+ */
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'autoria-test-'));
+
+process.env.STORAGE_BACKEND = 'local';
+process.env.LOCAL_DATA_DIR = dataDir;
+delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
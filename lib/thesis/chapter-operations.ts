@@ -1,19 +1,29 @@
-import { supabase } from '@/lib/supabase';
+import { db, storage } from '@/lib/storage';
 import { translateDocx } from '@/lib/translation/docx-translator';
 import { extractDocumentStructure, generateGlobalContext } from '@/lib/improvement/document-analyzer';
 import { analyzeSectionForImprovements } from '@/lib/improvement/section-analyzer';
 import { analyzeDocumentForAdjustments } from '@/lib/adjust/processor';
+import { completeAI } from '@/lib/ai/executor';
+import { renderPrompt } from '@/lib/ai/prompt-templates';
 import { AIProvider } from '@/lib/ai/types';
 import { SupportedLanguage } from '@/lib/translation/types';
+import { formatMemoryHints, loadTranslationMemory, normalizeSegment } from '@/lib/translation/memory';
+import { checkTerminology, describeViolation, formatTerminology, listTermbase, termsInText } from '@/lib/translation/termbase';
 import { processChapterVersion } from './chapter-processor';
 import { processReferences, formatReferencesForContext, type ReferenceInput } from './reference-processor';
-import type { OperationContextSummary } from './types';
+import { carryForwardThreads } from './comments';
+import { buildMultiChapterContext } from './context-builder';
+import type { ContextSearchMode, OperationContextSummary } from './types';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { randomUUID } from 'crypto';
 
-export type ChapterOperation = 'improve' | 'translate' | 'adjust' | 'adapt' | 'update';
+// Busca de contexto nas operações: quantos chunks e tamanho máximo da consulta
+const OPERATION_CONTEXT_TOP_K = 24;
+const CONTEXT_QUERY_MAX_CHARS = 2000;
+
+export type ChapterOperation = 'improve' | 'translate' | 'adjust' | 'adapt' | 'update' | 'chat_edit';
 
 export interface OperationJobStatus {
   id: string;
@@ -38,7 +48,7 @@ export async function createOperationJob(
 ): Promise<string> {
   const jobId = randomUUID();
 
-  const { error } = await supabase.from('chapter_operation_jobs').insert({
+  const { error } = await db.from('chapter_operation_jobs').insert({
     id: jobId,
     chapter_id: chapterId,
     version_id: versionId,
@@ -71,7 +81,7 @@ export async function updateOperationJob(
   if (updates.newVersionId !== undefined) dbUpdates.new_version_id = updates.newVersionId;
   if (updates.completedAt !== undefined) dbUpdates.completed_at = updates.completedAt;
 
-  const { error } = await supabase
+  const { error } = await db
     .from('chapter_operation_jobs')
     .update(dbUpdates)
     .eq('id', jobId);
@@ -85,7 +95,7 @@ export async function updateOperationJob(
  * Busca status do job
  */
 export async function getOperationJob(jobId: string): Promise<OperationJobStatus | null> {
-  const { data, error } = await supabase
+  const { data, error } = await db
     .from('chapter_operation_jobs')
     .select('*')
     .eq('id', jobId)
@@ -119,7 +129,8 @@ export async function executeImproveOperation(
   provider: AIProvider,
   model: string,
   references: ReferenceInput[] = [],
-  contextVersionIds: string[] = []
+  contextVersionIds: string[] = [],
+  contextSearchMode?: ContextSearchMode
 ): Promise<string> {
   try {
     console.log(`[CHAPTER-IMPROVE] Starting job ${jobId} for version ${versionId}`);
@@ -127,7 +138,7 @@ export async function executeImproveOperation(
     await updateOperationJob(jobId, { status: 'processing', progress: 10 });
 
     // Busca versão atual
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('id', versionId)
@@ -138,7 +149,7 @@ export async function executeImproveOperation(
     }
 
     // Baixa arquivo do Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -169,23 +180,21 @@ export async function executeImproveOperation(
     }
 
     // Build chapter context if provided
-    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(contextVersionIds);
+    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(
+      contextVersionIds,
+      contextSearchMode && { searchMode: contextSearchMode, sourcePath }
+    );
 
     // Combine all contexts
     const combinedContext = referencesContext + chapterContext;
 
     // Gera contexto global
     console.log(`[CHAPTER-IMPROVE] Generating global context...`);
-    const apiKey = provider === 'openai'
-      ? process.env.OPENAI_API_KEY!
-      : (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY)!;
-
     const globalContext = await generateGlobalContext(
       paragraphs,
       structure,
       provider,
       model,
-      apiKey,
       combinedContext // Pass combined context (references + chapters)
     );
 
@@ -210,8 +219,7 @@ export async function executeImproveOperation(
         section.title,
         section.startParagraphIndex,
         provider,
-        model,
-        apiKey
+        model
       );
 
       allSuggestions.push(...suggestions);
@@ -286,7 +294,7 @@ export async function executeTranslateOperation(
     await updateOperationJob(jobId, { status: 'processing', progress: 10 });
 
     // Busca versão atual
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('id', versionId)
@@ -297,7 +305,7 @@ export async function executeTranslateOperation(
     }
 
     // Baixa arquivo do Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -314,8 +322,6 @@ export async function executeTranslateOperation(
     await updateOperationJob(jobId, { progress: 20 });
 
     // Get API key
-    const apiKey = getAPIKey(provider);
-
     // Process references (if any)
     let referenceContext = '';
     if (references.length > 0) {
@@ -326,6 +332,22 @@ export async function executeTranslateOperation(
 
     await updateOperationJob(jobId, { progress: 40 });
 
+    // Memória de tradução e termbase da tese: parágrafos já traduzidos em
+    // outras versões não vão para a IA; os termos da termbase são obrigatórios
+    const { data: chapter } = await db
+      .from('chapters')
+      .select('thesis_id')
+      .eq('id', chapterId)
+      .single();
+
+    const memory = chapter
+      ? await loadTranslationMemory(chapter.thesis_id, sourceLanguage, targetLanguage)
+      : undefined;
+    const termbase = chapter
+      ? await listTermbase(chapter.thesis_id, targetLanguage)
+      : [];
+    const translationStats = { memoryHits: 0, memoryFuzzyHits: 0, terminologyViolations: 0 };
+
     // Generate translation suggestions
     console.log(`[CHAPTER-TRANSLATE] Generating translation suggestions to ${targetLanguage}...`);
 
@@ -349,17 +371,63 @@ export async function executeTranslateOperation(
         const batchEnd = Math.min(batchStart + BATCH_SIZE, sectionParagraphs.length);
         const batch = sectionParagraphs.slice(batchStart, batchEnd);
 
-        const suggestions = await generateTranslationSuggestions(
-          batch,
-          section.title,
-          targetLanguage,
-          sourceLanguage,
-          provider as 'openai' | 'gemini' | 'grok',
-          model,
-          apiKey
-        );
+        const remembered = new Map<number, string>();
+        for (const p of batch) {
+          const text = memory?.lookup(p.text);
+          // Tradução gravada que contraria a termbase atual é traduzida de novo
+          if (text !== undefined && checkTerminology(termbase, p.text, text).length === 0) {
+            remembered.set(p.index, text);
+            memory?.recordHit(p.text);
+          }
+        }
+
+        const pending = batch.filter(p => !remembered.has(p.index));
+        const similar = pending.map(p => memory?.similar(p.text) ?? []);
+        translationStats.memoryHits += remembered.size;
+        translationStats.memoryFuzzyHits += similar.filter(matches => matches.length > 0).length;
+
+        const suggestions = pending.length > 0
+          ? await generateTranslationSuggestions(
+              pending,
+              section.title,
+              targetLanguage,
+              sourceLanguage,
+              provider,
+              model,
+              formatTerminology(termsInText(termbase, pending.map(p => p.text).join('\n'))),
+              formatMemoryHints(similar.flat())
+            )
+          : [];
+
+        // Na ordem do capítulo: tradução da memória ou a gerada para o parágrafo
+        const generated = new Map(suggestions.map(s => [normalizeSegment(s.originalText), s]));
+        for (const p of batch) {
+          const text = remembered.get(p.index);
+          if (text !== undefined) {
+            allSuggestions.push({ id: randomUUID(), originalText: p.text, translatedText: text, sectionTitle: section.title, fromMemory: true });
+            continue;
+          }
+
+          const suggestion = generated.get(normalizeSegment(p.text));
+          if (!suggestion) continue;
+
+          generated.delete(normalizeSegment(p.text));
+          allSuggestions.push(suggestion);
+        }
+
+        // Traduções cujo original o modelo não copiou exatamente
+        allSuggestions.push(...Array.from(generated.values()));
+
+        // Confere a terminologia; só traduções sem violações vão para a memória
+        for (const suggestion of suggestions) {
+          suggestion.terminologyIssues = checkTerminology(termbase, suggestion.originalText, suggestion.translatedText)
+            .map(describeViolation);
+          translationStats.terminologyViolations += suggestion.terminologyIssues.length;
 
-        allSuggestions.push(...suggestions);
+          if (suggestion.terminologyIssues.length === 0) {
+            memory?.add(suggestion.originalText, suggestion.translatedText, { provider: suggestion.provider, model: suggestion.model });
+          }
+        }
       }
 
       // Update progress (40-75%)
@@ -367,7 +435,9 @@ export async function executeTranslateOperation(
       await updateOperationJob(jobId, { progress: sectionProgress });
     }
 
-    console.log(`[CHAPTER-TRANSLATE] Generated ${allSuggestions.length} translation suggestions`);
+    await memory?.save();
+
+    console.log(`[CHAPTER-TRANSLATE] Generated ${allSuggestions.length} translation suggestions (${translationStats.memoryHits} from translation memory, ${translationStats.terminologyViolations} terminology violations)`);
 
     await updateOperationJob(jobId, { progress: 80 });
 
@@ -377,7 +447,7 @@ export async function executeTranslateOperation(
       versionId,
       sourcePath, // Use source path as placeholder
       'translate',
-      { targetLanguage, sourceLanguage, suggestionsCount: allSuggestions.length }
+      { targetLanguage, sourceLanguage, suggestionsCount: allSuggestions.length, ...translationStats }
     );
 
     await updateOperationJob(jobId, { progress: 85 });
@@ -388,7 +458,7 @@ export async function executeTranslateOperation(
     await updateOperationJob(jobId, { progress: 95 });
 
     // Save suggestions to job metadata
-    const { error: updateError } = await supabase
+    const { error: updateError } = await db
       .from('chapter_operation_jobs')
       .update({
         status: 'completed',
@@ -398,14 +468,21 @@ export async function executeTranslateOperation(
         metadata: {
           targetLanguage,
           sourceLanguage,
+          ...translationStats,
           suggestions: allSuggestions.map((s: any) => ({
             id: s.id,
             type: 'translation',
             originalText: s.originalText || '',
             improvedText: s.translatedText || '',
-            reason: `Translated to ${targetLanguage}`,
-            confidence: 0.95,
-            chapterTitle: s.sectionTitle || ''
+            reason: s.fromMemory
+              ? `Translation memory (${targetLanguage})`
+              : s.terminologyIssues?.length
+                ? `Translated to ${targetLanguage} — Terminology: ${s.terminologyIssues.join('; ')}`
+                : `Translated to ${targetLanguage}`,
+            confidence: s.fromMemory ? 1 : s.terminologyIssues?.length ? 0.6 : 0.95,
+            chapterTitle: s.sectionTitle || '',
+            provider: s.provider,
+            model: s.model
           }))
         }
       })
@@ -437,7 +514,7 @@ export async function executeTranslateOperation(
 /**
  * Cria nova versão do capítulo com arquivo processado
  */
-async function createNewChapterVersion(
+export async function createNewChapterVersion(
   chapterId: string,
   parentVersionId: string,
   filePath: string,
@@ -451,7 +528,7 @@ async function createNewChapterVersion(
 
   // Upload para Storage
   const fileName = `${newVersionId}.docx`;
-  const { data: chapter } = await supabase
+  const { data: chapter } = await db
     .from('chapters')
     .select('thesis_id')
     .eq('id', chapterId)
@@ -463,7 +540,7 @@ async function createNewChapterVersion(
 
   const storagePath = `theses/${chapter.thesis_id}/chapters/${chapterId}/${fileName}`;
 
-  const { error: uploadError } = await supabase.storage
+  const { error: uploadError } = await storage
     .from('documents')
     .upload(storagePath, fileBuffer, {
       contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
@@ -475,7 +552,7 @@ async function createNewChapterVersion(
   }
 
   // Cria versão usando função do banco
-  const { data, error } = await supabase.rpc('create_chapter_version', {
+  const { data, error } = await db.rpc('create_chapter_version', {
     p_chapter_id: chapterId,
     p_file_path: storagePath,
     p_parent_version_id: parentVersionId,
@@ -487,6 +564,13 @@ async function createNewChapterVersion(
     throw new Error(`Failed to create version: ${error.message}`);
   }
 
+  // Comentários abertos acompanham os parágrafos que sobreviveram à operação
+  try {
+    await carryForwardThreads(parentVersionId, data);
+  } catch (carryError: any) {
+    console.warn(`[CHAPTER-OPS] Failed to carry comments forward: ${carryError.message}`);
+  }
+
   console.log(`[CHAPTER-OPS] Created new version ${newVersionId} from ${operation}`);
   return data;
 }
@@ -504,7 +588,8 @@ export async function executeAdjustOperation(
   model: string,
   references: ReferenceInput[] = [],
   useGrounding: boolean = false,
-  contextVersionIds: string[] = []
+  contextVersionIds: string[] = [],
+  contextSearchMode?: ContextSearchMode
 ): Promise<string> {
   try {
     console.log(`[CHAPTER-ADJUST] Starting job ${jobId} for version ${versionId}`);
@@ -514,7 +599,7 @@ export async function executeAdjustOperation(
     await updateOperationJob(jobId, { status: 'processing', progress: 10 });
 
     // Busca versão atual
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('id', versionId)
@@ -525,7 +610,7 @@ export async function executeAdjustOperation(
     }
 
     // Baixa arquivo do Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -550,7 +635,10 @@ export async function executeAdjustOperation(
     }
 
     // Build chapter context if provided
-    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(contextVersionIds);
+    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(
+      contextVersionIds,
+      contextSearchMode && { searchMode: contextSearchMode, sourcePath, instructions: instructions }
+    );
 
     // Combine all contexts and add to instructions
     const combinedContext = referencesContext + chapterContext;
@@ -560,19 +648,12 @@ export async function executeAdjustOperation(
 
     // Executa análise de ajustes
     console.log(`[CHAPTER-ADJUST] Analyzing document with instructions...`);
-    const apiKey = provider === 'openai'
-      ? process.env.OPENAI_API_KEY!
-      : provider === 'gemini'
-      ? (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY)!
-      : process.env.GROK_API_KEY!;
-
     const suggestions = await analyzeDocumentForAdjustments(
       sourcePath,
       enhancedInstructions,
       creativity,
-      provider as 'openai' | 'gemini' | 'grok',
+      provider,
       model,
-      apiKey,
       useGrounding
     );
 
@@ -605,7 +686,7 @@ export async function executeAdjustOperation(
     } catch {}
 
     // Atualiza job com status completo E sugestões no metadata
-    const { error: updateError } = await supabase
+    const { error: updateError } = await db
       .from('chapter_operation_jobs')
       .update({
         status: 'completed',
@@ -623,7 +704,9 @@ export async function executeAdjustOperation(
             improvedText: s.adjustedText, // Map adjustedText to improvedText
             reason: s.reason,
             confidence: 0.9,
-            chapterTitle: s.sectionTitle
+            chapterTitle: s.sectionTitle,
+            provider: s.provider,
+            model: s.model
           }))
         }
       })
@@ -658,7 +741,8 @@ export async function executeAdaptOperation(
   provider: AIProvider,
   model: string,
   references: ReferenceInput[] = [],
-  contextVersionIds: string[] = []
+  contextVersionIds: string[] = [],
+  contextSearchMode?: ContextSearchMode
 ): Promise<string> {
   try {
     console.log(`[CHAPTER-ADAPT] Starting job ${jobId} for version ${versionId}`);
@@ -667,7 +751,7 @@ export async function executeAdaptOperation(
     await updateOperationJob(jobId, { status: 'processing', progress: 10 });
 
     // Busca versão atual
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('id', versionId)
@@ -678,7 +762,7 @@ export async function executeAdaptOperation(
     }
 
     // Baixa arquivo do Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -702,13 +786,14 @@ export async function executeAdaptOperation(
     }
 
     // Build chapter context if provided
-    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(contextVersionIds);
+    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(
+      contextVersionIds,
+      contextSearchMode && { searchMode: contextSearchMode, sourcePath, instructions: targetAudience }
+    );
 
     await updateOperationJob(jobId, { progress: 40 });
 
     // Get API key for the provider
-    const apiKey = getAPIKey(provider);
-
     // Generate adaptation suggestions
     const { analyzeDocumentForAdaptation } = await import('@/lib/adapt/processor');
 
@@ -717,9 +802,8 @@ export async function executeAdaptOperation(
       sourcePath,
       style,
       targetAudience,
-      provider as 'openai' | 'gemini' | 'grok',
-      model,
-      apiKey
+      provider,
+      model
     );
 
     console.log(`[CHAPTER-ADAPT] Generated ${suggestions.length} suggestions`);
@@ -748,7 +832,7 @@ export async function executeAdaptOperation(
     await updateOperationJob(jobId, { progress: 95 });
 
     // Save suggestions to job metadata
-    const { error: updateError } = await supabase
+    const { error: updateError } = await db
       .from('chapter_operation_jobs')
       .update({
         status: 'completed',
@@ -767,7 +851,9 @@ export async function executeAdaptOperation(
             reason: s.reason,
             confidence: 0.9,
             chapterTitle: s.sectionTitle,
-            adaptationType: s.adaptationType
+            adaptationType: s.adaptationType,
+            provider: s.provider,
+            model: s.model
           }))
         }
       })
@@ -806,7 +892,8 @@ export async function executeUpdateOperation(
   provider: AIProvider,
   model: string,
   references: ReferenceInput[] = [],
-  contextVersionIds: string[] = []
+  contextVersionIds: string[] = [],
+  contextSearchMode?: ContextSearchMode
 ): Promise<string> {
   try {
     console.log(`[CHAPTER-UPDATE] Starting job ${jobId} for version ${versionId}`);
@@ -815,7 +902,7 @@ export async function executeUpdateOperation(
     await updateOperationJob(jobId, { status: 'processing', progress: 10 });
 
     // Busca versão atual
-    const { data: version, error: versionError } = await supabase
+    const { data: version, error: versionError } = await db
       .from('chapter_versions')
       .select('*')
       .eq('id', versionId)
@@ -826,7 +913,7 @@ export async function executeUpdateOperation(
     }
 
     // Baixa arquivo do Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -853,7 +940,10 @@ export async function executeUpdateOperation(
     }
 
     // Build chapter context if provided
-    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(contextVersionIds);
+    const { context: chapterContext, summary: contextSummary } = await buildChapterContextForOperation(
+      contextVersionIds,
+      contextSearchMode && { searchMode: contextSearchMode, sourcePath }
+    );
 
     // Combine all contexts
     const combinedContext = referencesContext + chapterContext;
@@ -868,16 +958,11 @@ export async function executeUpdateOperation(
 
     // Gera contexto global com referências
     console.log(`[CHAPTER-UPDATE] Generating global context with references...`);
-    const apiKey = provider === 'openai'
-      ? process.env.OPENAI_API_KEY!
-      : (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY)!;
-
     const globalContext = await generateGlobalContext(
       paragraphs,
       structure,
       provider,
       model,
-      apiKey,
       combinedContext
     );
 
@@ -902,8 +987,7 @@ export async function executeUpdateOperation(
         section.title,
         section.startParagraphIndex,
         provider,
-        model,
-        apiKey
+        model
       );
 
       allSuggestions.push(...suggestions);
@@ -938,7 +1022,7 @@ export async function executeUpdateOperation(
     await updateOperationJob(jobId, { progress: 95 });
 
     // Save suggestions to job metadata
-    const { error: updateError } = await supabase
+    const { error: updateError } = await db
       .from('chapter_operation_jobs')
       .update({
         status: 'completed',
@@ -992,68 +1076,26 @@ async function generateTranslationSuggestions(
   sectionTitle: string,
   targetLanguage: string,
   sourceLanguage: string | undefined,
-  provider: 'openai' | 'gemini' | 'grok',
+  provider: AIProvider,
   model: string,
-  apiKey: string
+  terminology: string = '',
+  memoryHints: string = ''
 ): Promise<any[]> {
-  const prompt = `You are a professional translator. Translate the following text ${sourceLanguage ? `from ${sourceLanguage}` : ''} to ${targetLanguage}.
-
-For each paragraph, provide:
-- originalText: the exact original text (unchanged)
-- translatedText: the professional translation in ${targetLanguage}
-
-Maintain the same tone, style, and technical accuracy. Preserve formatting, numbers, and technical terms appropriately.
-
-Paragraphs to translate:
-${paragraphs.map((p, i) => `[${i + 1}] ${p.text}`).join('\n\n')}
-
-Respond with ONLY a JSON object in this format:
-{
-  "translations": [
-    {
-      "originalText": "...",
-      "translatedText": "..."
-    }
-  ]
-}`;
-
-  let responseText: string;
-
-  if (provider === 'openai' || provider === 'grok') {
-    const OpenAI = (await import('openai')).default;
-    const client = new OpenAI({
-      apiKey,
-      baseURL: provider === 'grok' ? 'https://api.x.ai/v1' : undefined
-    });
-
-    const response = await client.chat.completions.create({
-      model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.3, // Lower temperature for more consistent translations
-      response_format: { type: 'json_object' }
-    });
-
-    responseText = response.choices[0].message.content || '{}';
-
-  } else {
-    // Gemini
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const geminiModel = genAI.getGenerativeModel({ model });
-
-    const result = await geminiModel.generateContent({
-      contents: [{
-        role: 'user',
-        parts: [{ text: prompt }]
-      }],
-      generationConfig: {
-        temperature: 0.3,
-        responseMimeType: 'application/json'
-      }
-    });
+  const prompt = await renderPrompt('translate.chapter', {
+    source_language: sourceLanguage ? `from ${sourceLanguage}` : '',
+    target_language: targetLanguage,
+    paragraphs: paragraphs.map((p, i) => `[${i + 1}] ${p.text}`).join('\n\n'),
+    terminology,
+    memory_hints: memoryHints
+  });
 
-    responseText = result.response.text();
-  }
+  const completion = await completeAI(provider, {
+    model,
+    prompt,
+    temperature: 0.3, // Lower temperature for more consistent translations
+    json: true
+  });
+  const responseText = completion.text || '{}';
 
   // Parse response
   try {
@@ -1063,7 +1105,9 @@ Respond with ONLY a JSON object in this format:
       id: randomUUID(),
       originalText: t.originalText || '',
       translatedText: t.translatedText || '',
-      sectionTitle
+      sectionTitle,
+      provider: completion.provider,
+      model: completion.model
     }));
 
     return translations;
@@ -1074,27 +1118,28 @@ Respond with ONLY a JSON object in this format:
 }
 
 /**
- * Get API key for the specified provider
+ * Consulta usada para buscar contexto: instruções da operação + títulos e início do capítulo
  */
-function getAPIKey(provider: AIProvider): string {
-  switch (provider) {
-    case 'openai':
-      return process.env.OPENAI_API_KEY!;
-    case 'gemini':
-      return process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY!;
-    case 'grok':
-      return process.env.GROK_API_KEY!;
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
-  }
+async function buildContextQuery(sourcePath: string, instructions?: string): Promise<string> {
+  const { paragraphs } = await extractDocumentStructure(sourcePath);
+  const headers = paragraphs.filter(p => p.isHeader).map(p => p.text);
+  const opening = paragraphs.filter(p => !p.isHeader).slice(0, 5).map(p => p.text);
+
+  return [instructions, ...headers, ...opening]
+    .filter(Boolean)
+    .join('\n')
+    .substring(0, CONTEXT_QUERY_MAX_CHARS);
 }
 
 /**
  * Build context from other chapter versions for operation prompts
- * Loads chapter chunks and formats them as readable context
+ * Loads chapter chunks and formats them as readable context.
+ * Without `retrieval` every chunk is included; with it, only the chunks most
+ * relevant to the chapter being processed (bm25, semantic or hybrid search).
  */
 async function buildChapterContextForOperation(
-  contextVersionIds: string[]
+  contextVersionIds: string[],
+  retrieval?: { searchMode: ContextSearchMode; sourcePath: string; instructions?: string }
 ): Promise<{ context: string; summary: OperationContextSummary[] }> {
   if (!contextVersionIds || contextVersionIds.length === 0) {
     return { context: '', summary: [] };
@@ -1103,7 +1148,7 @@ async function buildChapterContextForOperation(
   console.log(`[CHAPTER-CONTEXT] Building context from ${contextVersionIds.length} chapter versions`);
 
   // Fetch version metadata and chunks
-  const { data: versionsData, error } = await supabase
+  const { data: versionsData, error } = await db
     .from('chapter_versions')
     .select(`
       id,
@@ -1136,11 +1181,34 @@ async function buildChapterContextForOperation(
   // Fetch chunks for each version
   const contextParts: string[] = [];
 
-  for (const versionData of versionsData) {
+  if (retrieval) {
+    const query = await buildContextQuery(retrieval.sourcePath, retrieval.instructions);
+    const { chunks } = await buildMultiChapterContext(
+      { chapter_version_ids: contextVersionIds, top_k: OPERATION_CONTEXT_TOP_K, search_mode: retrieval.searchMode },
+      query
+    );
+
+    // Agrupa por versão, na ordem do documento
+    for (const versionData of versionsData) {
+      const chapter = Array.isArray(versionData.chapters) ? versionData.chapters[0] : versionData.chapters;
+      const versionChunks = chunks
+        .filter(c => c.chapter_version_id === versionData.id)
+        .sort((a, b) => a.chunk_index - b.chunk_index);
+
+      if (versionChunks.length === 0) continue;
+
+      const contextHeader = `\n\n=== CAPÍTULO ${chapter.chapter_order}: ${chapter.title} (Versão ${versionData.version_number}, trechos relevantes) ===\n\n`;
+      contextParts.push(contextHeader + versionChunks.map(c => c.text).join('\n\n[...]\n\n'));
+    }
+
+    console.log(`[CHAPTER-CONTEXT] Retrieved ${chunks.length} chunks (${retrieval.searchMode})`);
+  }
+
+  for (const versionData of retrieval ? [] : versionsData) {
     const chapter = Array.isArray(versionData.chapters) ? versionData.chapters[0] : versionData.chapters;
 
     // Fetch chunks for this version
-    const { data: chunks, error: chunksError } = await supabase
+    const { data: chunks, error: chunksError } = await db
       .from('chapter_chunks')
       .select('text, page_from, page_to')
       .eq('chapter_version_id', versionData.id)
@@ -9,11 +9,11 @@
  * - Build BM25 index for search
  */
 
-import { supabase } from '../supabase';
+import { db, storage } from '@/lib/storage';
 import { parseDocument } from '../parsers';
-import { chunkText } from '../chunking';
+import { chunkDocument } from '../chunking';
 import { buildIndex } from '../state';
-import type { ChapterChunk } from './types';
+import type { ChapterChunk, ScoredChunk } from './types';
 import type { ChapterVersionInMemory } from '../state';
 import elasticlunr from 'elasticlunr';
 
@@ -29,7 +29,7 @@ export async function processChapterVersion(
   console.log(`[CHAPTER-PROCESSOR] Processing version: ${versionId}`);
 
   // 1. Fetch version from database
-  const { data: version, error: versionError } = await supabase
+  const { data: version, error: versionError } = await db
     .from('chapter_versions')
     .select('*')
     .eq('id', versionId)
@@ -40,7 +40,7 @@ export async function processChapterVersion(
   }
 
   // 2. Check if chunks already exist in database
-  const { data: existingChunks, error: chunksError } = await supabase
+  const { data: existingChunks, error: chunksError } = await db
     .from('chapter_chunks')
     .select('*')
     .eq('chapter_version_id', versionId)
@@ -56,12 +56,13 @@ export async function processChapterVersion(
   // 3. If chunks exist, use them; otherwise, process document
   if (existingChunks && existingChunks.length > 0) {
     console.log(`[CHAPTER-PROCESSOR] Found ${existingChunks.length} existing chunks`);
-    chunks = existingChunks.map(c => ({
+    chunks = existingChunks.map((c: ChapterChunk) => ({
       id: c.id,
       chapter_version_id: c.chapter_version_id,
       chunk_index: c.chunk_index,
       page_from: c.page_from,
       page_to: c.page_to,
+      section_path: c.section_path || null,
       text: c.text,
       created_at: c.created_at
     }));
@@ -70,7 +71,7 @@ export async function processChapterVersion(
     console.log(`[CHAPTER-PROCESSOR] No existing chunks, processing document...`);
 
     // Download file from Storage
-    const { data: fileData, error: downloadError } = await supabase.storage
+    const { data: fileData, error: downloadError } = await storage
       .from('documents')
       .download(version.file_path);
 
@@ -91,8 +92,8 @@ export async function processChapterVersion(
 
     console.log(`[CHAPTER-PROCESSOR] Parsed document: ${pages} pages, ${parseResult.text.length} characters`);
 
-    // Create chunks
-    const rawChunks = chunkText(parseResult.text, pages);
+    // Create chunks (pela estrutura do documento quando o parser a fornece)
+    const rawChunks = chunkDocument(parseResult);
 
     console.log(`[CHAPTER-PROCESSOR] Created ${rawChunks.length} chunks`);
 
@@ -102,10 +103,11 @@ export async function processChapterVersion(
       chunk_index: index,
       page_from: chunk.pageFrom,
       page_to: chunk.pageTo,
+      section_path: chunk.sectionPath || null,
       text: chunk.text
     }));
 
-    const { data: insertedChunks, error: insertError } = await supabase
+    const { data: insertedChunks, error: insertError } = await db
       .from('chapter_chunks')
       .insert(chunksToInsert)
       .select();
@@ -116,18 +118,19 @@ export async function processChapterVersion(
 
     console.log(`[CHAPTER-PROCESSOR] Persisted ${insertedChunks.length} chunks to database`);
 
-    chunks = insertedChunks.map(c => ({
+    chunks = insertedChunks.map((c: ChapterChunk) => ({
       id: c.id,
       chapter_version_id: c.chapter_version_id,
       chunk_index: c.chunk_index,
       page_from: c.page_from,
       page_to: c.page_to,
+      section_path: c.section_path || null,
       text: c.text,
       created_at: c.created_at
     }));
 
     // Update version with pages and chunks_count
-    const { error: updateError } = await supabase
+    const { error: updateError } = await db
       .from('chapter_versions')
       .update({
         pages,
@@ -212,13 +215,13 @@ export async function loadChapterVersion(
  * @param versionInMemory - Loaded chapter version with index
  * @param query - Search query
  * @param topK - Number of results to return
- * @returns Top matching chunks
+ * @returns Top matching chunks with their raw BM25 scores (best first)
  */
 export function searchChapterVersion(
   versionInMemory: ChapterVersionInMemory,
   query: string,
   topK: number = 8
-): ChapterChunk[] {
+): ScoredChunk[] {
   const results = versionInMemory.index.search(query, {
     fields: {
       text: { boost: 1 }
@@ -227,8 +230,11 @@ export function searchChapterVersion(
 
   const topResults = results.slice(0, topK);
   const topChunks = topResults
-    .map((r) => versionInMemory.chunks.find((c) => c.chunk_index === parseInt(r.ref)))
-    .filter((c): c is ChapterChunk => c !== undefined);
+    .map((r) => ({
+      chunk: versionInMemory.chunks.find((c) => c.chunk_index === parseInt(r.ref)),
+      score: r.score
+    }))
+    .filter((r): r is ScoredChunk => r.chunk !== undefined);
 
   return topChunks;
 }
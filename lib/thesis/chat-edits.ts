@@ -0,0 +1,221 @@
+/**
+ * Chat edits - edições pedidas no chat do capítulo, como sugestões revisáveis
+ *
+ * O pedido ("reescreva o segundo parágrafo da seção 2.3 de forma mais formal")
+ * vai ao modelo com os parágrafos numerados da versão atual. As alterações
+ * voltam no formato de ImprovementSuggestion e ficam num job de operação
+ * (operation = chat_edit, sugestões em metadata.suggestions), para passar pela
+ * mesma tela de revisão e pela mesma rota de aplicação das demais operações.
+ * Aplicar as aceitas gera a nova versão (applyChatEditsToDocx).
+ */
+
+import { db } from '@/lib/storage';
+import { completeAI } from '@/lib/ai/executor';
+import { renderPrompt } from '@/lib/ai/prompt-templates';
+import type { AIProvider, CompletionResponse } from '@/lib/ai/types';
+import { replaceParagraphText, splitDocumentBody } from '@/lib/docx-xml';
+import type { ImprovementSuggestion, ImprovementType } from '@/lib/improvement/types';
+import { updateOperationJob } from './chapter-operations';
+import { getVersionParagraphs, type VersionParagraph } from './version-paragraphs';
+import JSZip from 'jszip';
+import { randomUUID } from 'crypto';
+
+export class ChatEditError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ChatEditError';
+  }
+}
+
+export type ChatEditResult = {
+  message: string; // Resumo do modelo (ou por que não há sugestões)
+  suggestions: ImprovementSuggestion[];
+};
+
+const IMPROVEMENT_TYPES: ImprovementType[] = ['grammar', 'style', 'clarity', 'coherence', 'conciseness'];
+
+export const INSTRUCTION_MAX_CHARS = 2000;
+
+// O capítulo inteiro vai no prompt; acima disso, use a operação Ajustar
+const CHAPTER_MAX_CHARS = 150_000;
+
+/**
+ * Valida o pedido de edição do chat
+ */
+export function validateInstruction(instruction: unknown): string {
+  const text = typeof instruction === 'string' ? instruction.trim() : '';
+  if (!text) throw new ChatEditError('Instruction is required');
+  if (text.length > INSTRUCTION_MAX_CHARS) {
+    throw new ChatEditError(`Instruction is too long (max ${INSTRUCTION_MAX_CHARS} characters)`);
+  }
+  return text;
+}
+
+function formatParagraphs(paragraphs: VersionParagraph[]): string {
+  return paragraphs
+    .map(p => `[${p.index}] ${p.isHeader ? '## ' : ''}${p.text}`)
+    .join('\n\n');
+}
+
+// Título da seção em que o parágrafo está (último título antes dele)
+function sectionTitle(paragraphs: VersionParagraph[], index: number): string | undefined {
+  return paragraphs.filter(p => p.isHeader && p.index < index).pop()?.text;
+}
+
+/**
+ * Edições do modelo -> sugestões; descarta as que não apontam para um
+ * parágrafo de texto da versão
+ */
+function toSuggestions(
+  edits: any[],
+  paragraphs: VersionParagraph[],
+  completion: CompletionResponse
+): ImprovementSuggestion[] {
+  const byIndex = new Map(paragraphs.map(p => [p.index, p]));
+  const suggestions: ImprovementSuggestion[] = [];
+
+  for (const edit of edits) {
+    const paragraph = byIndex.get(Number(edit?.paragraphIndex));
+    const improvedText = typeof edit?.improvedText === 'string' ? edit.improvedText.trim() : '';
+
+    if (!paragraph || paragraph.isHeader || !improvedText) {
+      console.warn('[CHAT-EDIT] Skipping invalid edit:', JSON.stringify(edit).substring(0, 200));
+      continue;
+    }
+
+    // Texto original fora do parágrafo: a edição vale para o parágrafo inteiro
+    const quoted = typeof edit.originalText === 'string' ? edit.originalText.trim() : '';
+    const originalText = quoted && paragraph.text.includes(quoted) ? quoted : paragraph.text;
+    if (originalText === improvedText) continue;
+
+    const confidence = Number(edit.confidence);
+
+    suggestions.push({
+      id: randomUUID(),
+      paragraphIndex: paragraph.index,
+      chapterTitle: sectionTitle(paragraphs, paragraph.index),
+      originalText,
+      improvedText,
+      reason: String(edit.reason || 'Pedido no chat'),
+      type: IMPROVEMENT_TYPES.includes(edit.type) ? edit.type : 'style',
+      confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0.8,
+      provider: completion.provider,
+      model: completion.model
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Gera as sugestões do pedido e grava no job (status completed, sugestões em
+ * metadata.suggestions). Erros marcam o job com erro e são repassados.
+ */
+export async function executeChatEditOperation(
+  jobId: string,
+  versionId: string,
+  chapterTitle: string,
+  instruction: string,
+  provider: AIProvider,
+  model: string
+): Promise<ChatEditResult> {
+  try {
+    await updateOperationJob(jobId, { status: 'processing', progress: 10 });
+
+    const paragraphs = await getVersionParagraphs(versionId);
+    const text = formatParagraphs(paragraphs);
+
+    if (paragraphs.length === 0) throw new ChatEditError('This version has no text to edit');
+    if (text.length > CHAPTER_MAX_CHARS) {
+      throw new ChatEditError('Chapter is too long for chat edits; use the Adjust operation instead');
+    }
+
+    await updateOperationJob(jobId, { progress: 30 });
+
+    const completion = await completeAI(provider, {
+      model,
+      prompt: await renderPrompt('chat.edit', {
+        chapter_title: chapterTitle,
+        instruction,
+        paragraphs: text
+      }),
+      temperature: 0.3,
+      maxTokens: 4000,
+      json: true
+    });
+
+    const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
+    let parsed: any;
+    try {
+      parsed = JSON.parse(jsonMatch ? jsonMatch[0] : completion.text);
+    } catch (error: any) {
+      console.error('[CHAT-EDIT] Invalid JSON from model:', completion.text.substring(0, 200));
+      throw new ChatEditError(`Model returned invalid JSON: ${error.message}`, 502);
+    }
+
+    const suggestions = toSuggestions(Array.isArray(parsed.edits) ? parsed.edits : [], paragraphs, completion);
+    const message = String(parsed.message || '').trim() ||
+      (suggestions.length > 0 ? `${suggestions.length} edits proposed` : 'No edits proposed');
+
+    const { error: updateError } = await db
+      .from('chapter_operation_jobs')
+      .update({
+        status: 'completed',
+        progress: 100,
+        completed_at: new Date().toISOString(),
+        metadata: { instruction, message, suggestions }
+      })
+      .eq('id', jobId);
+
+    if (updateError) throw new Error(`Failed to save chat edits: ${updateError.message}`);
+
+    console.log(`[CHAT-EDIT] Job ${jobId}: ${suggestions.length} suggestions for version ${versionId}`);
+    return { message, suggestions };
+
+  } catch (error: any) {
+    console.error('[CHAT-EDIT] Error:', error.message);
+    await updateOperationJob(jobId, { status: 'error', errorMessage: error.message });
+    throw error;
+  }
+}
+
+/**
+ * Aplica as sugestões aceitas no DOCX, cada uma no seu parágrafo (mesma
+ * indexação de getVersionParagraphs), mantendo a formatação dos runs em volta
+ */
+export async function applyChatEditsToDocx(
+  input: Buffer,
+  suggestions: ImprovementSuggestion[]
+): Promise<{ buffer: Buffer; applied: number }> {
+  const zip = await JSZip.loadAsync(input);
+
+  const file = zip.file('word/document.xml');
+  if (!file) throw new Error('document.xml not found');
+
+  const { head, elements, tail } = splitDocumentBody((await file.async('string')).normalize('NFC'));
+
+  let applied = 0;
+  for (const suggestion of suggestions) {
+    const element = elements.find(e => e.paragraphIndex === suggestion.paragraphIndex);
+    const edited = element && replaceParagraphText(element.xml, suggestion.originalText, suggestion.improvedText);
+
+    if (!element || !edited) {
+      console.warn(`[CHAT-EDIT] ⚠ Could not apply to paragraph ${suggestion.paragraphIndex}: "${suggestion.originalText.substring(0, 50)}..."`);
+      continue;
+    }
+
+    element.xml = edited;
+    applied++;
+  }
+
+  zip.file('word/document.xml', Buffer.from(head + elements.map(e => e.xml).join('') + tail, 'utf-8'));
+
+  console.log(`[CHAT-EDIT] Applied ${applied}/${suggestions.length} edits`);
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE'
+  });
+
+  return { buffer, applied };
+}
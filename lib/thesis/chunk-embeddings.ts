@@ -0,0 +1,86 @@
+/**
+ * Chunk Embeddings - Vetores dos chunks de capítulo para busca semântica
+ *
+ * Responsibilities:
+ * - Calcular os vetores que faltam para uma versão (só na primeira busca semântica)
+ * - Persistir em chapter_chunk_embeddings por (provider, model)
+ * - Manter os vetores junto da versão em memória
+ * - Ranquear chunks por similaridade de cosseno
+ */
+
+import { db } from '@/lib/storage';
+import { cosineSimilarity, type EmbeddingProvider } from '@/lib/embeddings';
+import type { ScoredChunk } from './types';
+import type { ChapterVersionInMemory } from '../state';
+
+/**
+ * Vetores de todos os chunks da versão (mesma ordem de version.chunks)
+ */
+export async function ensureVersionEmbeddings(
+  version: ChapterVersionInMemory,
+  provider: EmbeddingProvider
+): Promise<number[][]> {
+  const key = `${provider.id}:${provider.model}`;
+  const cached = version.embeddings?.[key];
+  if (cached && cached.length === version.chunks.length) return cached;
+
+  const { data: rows, error } = await db
+    .from('chapter_chunk_embeddings')
+    .select('chunk_id, embedding')
+    .eq('chapter_version_id', version.id)
+    .eq('provider', provider.id)
+    .eq('model', provider.model);
+
+  if (error) throw new Error(`Failed to load embeddings: ${error.message}`);
+
+  const stored = new Map<string, number[]>(
+    (rows || []).map((row: any) => [row.chunk_id, row.embedding])
+  );
+  const missing = version.chunks.filter(chunk => !stored.has(chunk.id));
+
+  if (missing.length > 0) {
+    console.log(`[EMBEDDINGS] Computing ${missing.length} embeddings for version ${version.id} (${key})`);
+
+    const vectors = await provider.embed(missing.map(chunk => chunk.text));
+    const newRows = missing.map((chunk, i) => ({
+      chunk_id: chunk.id,
+      chapter_version_id: version.id,
+      provider: provider.id,
+      model: provider.model,
+      dimensions: vectors[i].length,
+      embedding: vectors[i]
+    }));
+
+    const { error: upsertError } = await db
+      .from('chapter_chunk_embeddings')
+      .upsert(newRows, { onConflict: 'chunk_id,provider,model' });
+
+    // Sem persistência a busca ainda funciona; os vetores ficam só em memória
+    if (upsertError) {
+      console.warn(`[EMBEDDINGS] Failed to persist embeddings: ${upsertError.message}`);
+    }
+
+    missing.forEach((chunk, i) => stored.set(chunk.id, vectors[i]));
+  }
+
+  const embeddings = version.chunks.map(chunk => stored.get(chunk.id)!);
+  version.embeddings = { ...version.embeddings, [key]: embeddings };
+  return embeddings;
+}
+
+/**
+ * Chunks mais parecidos com a consulta (já vetorizada), do mais ao menos similar
+ */
+export async function searchChapterVersionSemantic(
+  version: ChapterVersionInMemory,
+  queryVector: number[],
+  provider: EmbeddingProvider,
+  topK: number = 8
+): Promise<ScoredChunk[]> {
+  const embeddings = await ensureVersionEmbeddings(version, provider);
+
+  return version.chunks
+    .map((chunk, i) => ({ chunk, score: cosineSimilarity(queryVector, embeddings[i]) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
@@ -0,0 +1,289 @@
+/**
+ * Comments - Review threads anchored to chapter paragraphs
+ *
+ * Responsibilities:
+ * - Open threads, reply and resolve/reopen
+ * - Carry open threads forward to a new version when the paragraph text survives
+ * - Export open threads as Word comments (tracked-changes apply mode)
+ */
+
+import { db } from '@/lib/storage';
+import { getVersionParagraphs, type VersionParagraph } from './version-paragraphs';
+import type { ParagraphComment } from '@/lib/docx-track-changes';
+import type { CommentThread } from './types';
+
+export class CommentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CommentError';
+  }
+}
+
+function normalizeParagraph(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export type VersionThread = {
+  id: string;
+  status: CommentThread['status'];
+  paragraphIndex: number;
+  paragraphText: string;
+  carriedOver: boolean;
+  createdBy: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  messages: Array<{
+    id: string;
+    body: string;
+    authorId: string | null;
+    authorName: string | null;
+    createdAt: string;
+  }>;
+};
+
+/**
+ * Threads anchored to a version, with messages and author names
+ */
+export async function listVersionThreads(versionId: string): Promise<VersionThread[]> {
+  const { data: anchors, error } = await db
+    .from('comment_thread_anchors')
+    .select('paragraph_index, paragraph_text, thread:thread_id(*)')
+    .eq('chapter_version_id', versionId)
+    .order('paragraph_index', { ascending: true });
+
+  if (error) throw new Error(`Failed to load comments: ${error.message}`);
+  if (!anchors || anchors.length === 0) return [];
+
+  const threadIds = anchors.map((a: any) => a.thread.id);
+
+  const { data: messages, error: messagesError } = await db
+    .from('comment_messages')
+    .select('id, thread_id, body, created_at, author:author_id(id, name)')
+    .in('thread_id', threadIds)
+    .order('created_at', { ascending: true });
+
+  if (messagesError) throw new Error(`Failed to load comments: ${messagesError.message}`);
+
+  return anchors.map((anchor: any) => {
+    const thread: CommentThread = anchor.thread;
+    return {
+      id: thread.id,
+      status: thread.status,
+      paragraphIndex: anchor.paragraph_index,
+      paragraphText: anchor.paragraph_text,
+      carriedOver: thread.origin_version_id !== versionId,
+      createdBy: thread.created_by,
+      resolvedBy: thread.resolved_by,
+      resolvedAt: thread.resolved_at,
+      createdAt: thread.created_at,
+      messages: (messages || [])
+        .filter((m: any) => m.thread_id === thread.id)
+        .map((m: any) => ({
+          id: m.id,
+          body: m.body,
+          authorId: m.author?.id || null,
+          authorName: m.author?.name || null,
+          createdAt: m.created_at
+        }))
+    };
+  });
+}
+
+/**
+ * Open threads of a version as Word comments on their paragraphs: one comment
+ * per message, keeping its author and date (replies follow the first message)
+ */
+export async function versionWordComments(versionId: string): Promise<ParagraphComment[]> {
+  const threads = await listVersionThreads(versionId);
+
+  return threads
+    .filter(thread => thread.status === 'open')
+    .flatMap(thread => thread.messages.map(message => ({
+      paragraphIndex: thread.paragraphIndex,
+      author: message.authorName || 'Revisor',
+      date: message.createdAt ? new Date(message.createdAt) : undefined,
+      text: message.body
+    })));
+}
+
+function validateBody(body: string): string {
+  const trimmed = (body || '').trim();
+  if (!trimmed) throw new CommentError('Comment body is required');
+  return trimmed;
+}
+
+export async function createThread(input: {
+  chapterId: string;
+  versionId: string;
+  paragraphIndex: number;
+  body: string;
+  userId: string;
+}): Promise<string> {
+  const body = validateBody(input.body);
+  const paragraphs = await getVersionParagraphs(input.versionId);
+  const paragraph = paragraphs.find(p => p.index === input.paragraphIndex);
+
+  if (!paragraph) {
+    throw new CommentError(`Paragraph ${input.paragraphIndex} not found in this version`);
+  }
+
+  const { data: thread, error } = await db
+    .from('comment_threads')
+    .insert({
+      chapter_id: input.chapterId,
+      origin_version_id: input.versionId,
+      created_by: input.userId
+    })
+    .select()
+    .single();
+
+  if (error || !thread) throw new Error(`Failed to create thread: ${error?.message}`);
+
+  const { error: anchorError } = await db.from('comment_thread_anchors').insert({
+    thread_id: thread.id,
+    chapter_version_id: input.versionId,
+    paragraph_index: paragraph.index,
+    paragraph_text: paragraph.text
+  });
+
+  if (anchorError) throw new Error(`Failed to anchor thread: ${anchorError.message}`);
+
+  const { error: messageError } = await db.from('comment_messages').insert({
+    thread_id: thread.id,
+    author_id: input.userId,
+    body
+  });
+
+  if (messageError) throw new Error(`Failed to add comment: ${messageError.message}`);
+
+  console.log(`[COMMENTS] Opened thread ${thread.id} on version ${input.versionId}, paragraph ${paragraph.index}`);
+  return thread.id;
+}
+
+async function findChapterThread(threadId: string, chapterId: string) {
+  const { data: thread } = await db
+    .from('comment_threads')
+    .select('*')
+    .eq('id', threadId)
+    .eq('chapter_id', chapterId)
+    .maybeSingle();
+
+  if (!thread) throw new CommentError('Thread not found', 404);
+  return thread;
+}
+
+export async function addReply(input: {
+  chapterId: string;
+  threadId: string;
+  body: string;
+  userId: string;
+}): Promise<void> {
+  const body = validateBody(input.body);
+  await findChapterThread(input.threadId, input.chapterId);
+
+  const { error } = await db.from('comment_messages').insert({
+    thread_id: input.threadId,
+    author_id: input.userId,
+    body
+  });
+
+  if (error) throw new Error(`Failed to add reply: ${error.message}`);
+
+  await db
+    .from('comment_threads')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', input.threadId);
+}
+
+export async function setThreadStatus(input: {
+  chapterId: string;
+  threadId: string;
+  status: 'open' | 'resolved';
+  userId: string;
+}): Promise<void> {
+  if (input.status !== 'open' && input.status !== 'resolved') {
+    throw new CommentError(`Invalid status: ${input.status}`);
+  }
+
+  await findChapterThread(input.threadId, input.chapterId);
+
+  const resolved = input.status === 'resolved';
+  const { error } = await db
+    .from('comment_threads')
+    .update({
+      status: input.status,
+      resolved_by: resolved ? input.userId : null,
+      resolved_at: resolved ? new Date().toISOString() : null
+    })
+    .eq('id', input.threadId);
+
+  if (error) throw new Error(`Failed to update thread: ${error.message}`);
+
+  console.log(`[COMMENTS] Thread ${input.threadId} is now ${input.status}`);
+}
+
+function groupByText(paragraphs: VersionParagraph[]): Map<string, VersionParagraph[]> {
+  const byText = new Map<string, VersionParagraph[]>();
+  for (const p of paragraphs) {
+    const key = normalizeParagraph(p.text);
+    byText.set(key, [...(byText.get(key) || []), p]);
+  }
+  return byText;
+}
+
+/**
+ * Re-anchors the open threads of parentVersionId in newVersionId. A thread
+ * follows its paragraph when the same text (ignoring whitespace) exists in the
+ * new version. Repeated text is matched by occurrence order when both versions
+ * have the same number of copies, otherwise by the closest index.
+ *
+ * @returns number of threads carried forward
+ */
+export async function carryForwardThreads(parentVersionId: string, newVersionId: string): Promise<number> {
+  const { data: anchors, error } = await db
+    .from('comment_thread_anchors')
+    .select('thread_id, paragraph_index, paragraph_text, thread:thread_id(status)')
+    .eq('chapter_version_id', parentVersionId);
+
+  if (error) throw new Error(`Failed to load comments: ${error.message}`);
+
+  const openAnchors = (anchors || []).filter((a: any) => a.thread?.status === 'open');
+  if (openAnchors.length === 0) return 0;
+
+  const oldByText = groupByText(await getVersionParagraphs(parentVersionId));
+  const newByText = groupByText(await getVersionParagraphs(newVersionId));
+
+  const newAnchors = openAnchors.flatMap((anchor: any) => {
+    const key = normalizeParagraph(anchor.paragraph_text);
+    const candidates = newByText.get(key);
+    if (!candidates) return [];
+
+    const previous = oldByText.get(key) || [];
+    const occurrence = previous.findIndex(p => p.index === anchor.paragraph_index);
+
+    const closest = previous.length === candidates.length && occurrence >= 0
+      ? candidates[occurrence]
+      : candidates.reduce((best, p) =>
+        Math.abs(p.index - anchor.paragraph_index) < Math.abs(best.index - anchor.paragraph_index) ? p : best
+      );
+
+    return [{
+      thread_id: anchor.thread_id,
+      chapter_version_id: newVersionId,
+      paragraph_index: closest.index,
+      paragraph_text: closest.text
+    }];
+  });
+
+  if (newAnchors.length > 0) {
+    const { error: insertError } = await db
+      .from('comment_thread_anchors')
+      .upsert(newAnchors, { onConflict: 'thread_id,chapter_version_id' });
+
+    if (insertError) throw new Error(`Failed to carry comments forward: ${insertError.message}`);
+  }
+
+  console.log(`[COMMENTS] Carried ${newAnchors.length}/${openAnchors.length} open threads from ${parentVersionId} to ${newVersionId}`);
+  return newAnchors.length;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { scoreCandidates, selectWithQuota, type Candidate } from './context-builder';
+import type { ChunkWithContext } from './types';
+
+const candidate = (id: string, chapterId: string, scores: { bm25Raw?: number; semantic?: number }): Candidate => ({
+  chunk: { id, chapter_id: chapterId } as ChunkWithContext,
+  ...scores
+});
+
+const ids = (candidates: Candidate[]) => candidates.map(c => c.chunk.id);
+
+describe('scoreCandidates', () => {
+  it('normalizes BM25 by the global maximum across chapters', () => {
+    const ranked = scoreCandidates('bm25', [
+      candidate('weak', 'c1', { bm25Raw: 2 }),
+      candidate('strong', 'c2', { bm25Raw: 8 })
+    ]);
+
+    expect(ranked.map(c => [c.chunk.id, c.score])).toEqual([['strong', 1], ['weak', 0.25]]);
+  });
+
+  it('fuses BM25 and semantic ranks with reciprocal-rank fusion', () => {
+    const ranked = scoreCandidates('hybrid', [
+      candidate('both-second', 'c1', { bm25Raw: 5, semantic: 0.7 }),
+      candidate('bm25-only', 'c1', { bm25Raw: 9 }),
+      candidate('both-first', 'c2', { bm25Raw: 10, semantic: 0.9 }),
+      candidate('semantic-only', 'c2', { semantic: 0.8 })
+    ]);
+
+    // Primeiro nas duas listas = 1; os demais somam 1/(60 + rank) de cada lista
+    const rrf = (...ranks: number[]) => ranks.reduce((sum, rank) => sum + 1 / (60 + rank), 0) / (2 / 61);
+    expect(ids(ranked)).toEqual(['both-first', 'both-second', 'bm25-only', 'semantic-only']);
+    expect(ranked[0].score).toBeCloseTo(1);
+    expect(ranked[1].score).toBeCloseTo(rrf(3, 3));
+    expect(ranked[2].score).toBeCloseTo(rrf(2));
+    expect(ranked[3].score).toBeCloseTo(rrf(2));
+  });
+
+  it('uses the raw similarity in semantic mode', () => {
+    const ranked = scoreCandidates('semantic', [
+      candidate('a', 'c1', { semantic: 0.3 }),
+      candidate('b', 'c1', { bm25Raw: 10 })
+    ]);
+
+    expect(ranked.map(c => [c.chunk.id, c.score])).toEqual([['a', 0.3], ['b', 0]]);
+  });
+});
+
+describe('selectWithQuota', () => {
+  it('limits chunks per chapter and fills remaining slots with the best left out', () => {
+    const ranked = scoreCandidates('bm25', [
+      candidate('c1-a', 'c1', { bm25Raw: 10 }),
+      candidate('c1-b', 'c1', { bm25Raw: 9 }),
+      candidate('c1-c', 'c1', { bm25Raw: 8 }),
+      candidate('c2-a', 'c2', { bm25Raw: 1 })
+    ]);
+
+    expect(ids(selectWithQuota(ranked, 3, 1))).toEqual(['c1-a', 'c1-b', 'c2-a']);
+    expect(ids(selectWithQuota(ranked, 2, 1))).toEqual(['c1-a', 'c2-a']);
+  });
+});
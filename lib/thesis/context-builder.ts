@@ -3,22 +3,30 @@
  *
  * Responsibilities:
  * - Load multiple chapter versions
- * - Search across all loaded chapters
+ * - Search across all loaded chapters (BM25, semantic or hybrid)
+ * - Rank chunks globally by normalized scores, with a per-chapter diversity quota
  * - Return chunks with full metadata for adaptive citations
  * - Determine citation display mode based on context
  */
 
-import { supabase } from '../supabase';
+import { db } from '@/lib/storage';
+import { getEmbeddingProvider } from '@/lib/embeddings';
 import { loadChapterVersion, searchChapterVersion } from './chapter-processor';
+import { searchChapterVersionSemantic } from './chunk-embeddings';
 import type {
+  ChapterChunk,
   ChunkWithContext,
   ContextConfig,
   ContextResult,
+  ContextSearchMode,
   CitationDisplayMode
 } from './types';
 import type { ChapterVersionInMemory } from '../state';
 import { state } from '../state';
 
+// Constante da reciprocal-rank fusion (valor usual da literatura)
+const RRF_K = 60;
+
 /**
  * Build context for RAG query from multiple chapter versions
  *
@@ -30,11 +38,11 @@ export async function buildMultiChapterContext(
   config: ContextConfig,
   query: string
 ): Promise<ContextResult> {
-  const { chapter_version_ids, top_k = 16, search_mode = 'bm25' } = config;
+  const { chapter_version_ids, top_k = 16, search_mode = 'bm25', max_chunks_per_chapter } = config;
 
   console.log(`[CONTEXT-BUILDER] Building context for ${chapter_version_ids.length} chapter versions`);
   console.log(`[CONTEXT-BUILDER] Query: "${query}"`);
-  console.log(`[CONTEXT-BUILDER] Top-K: ${top_k}`);
+  console.log(`[CONTEXT-BUILDER] Top-K: ${top_k}, mode: ${search_mode}`);
 
   // 1. Load all chapter versions (with caching)
   const loadedVersions: ChapterVersionInMemory[] = [];
@@ -57,18 +65,23 @@ export async function buildMultiChapterContext(
   // 2. Fetch chapter metadata for each version
   const versionMetadata = await fetchVersionMetadata(loadedVersions.map(v => v.id));
 
-  // 3. Search across all versions
-  const allResults: ChunkWithContext[] = [];
+  // 3. Search across all versions (candidates: top_k per version)
+  const embeddingProvider = search_mode === 'bm25' ? null : getEmbeddingProvider();
+  const queryVector = embeddingProvider ? (await embeddingProvider.embed([query]))[0] : null;
+
+  const candidates = new Map<string, Candidate>();
+  const candidateFor = (chunk: ChunkWithContext) => {
+    const key = `${chunk.chapter_version_id}:${chunk.chunk_index}`;
+    if (!candidates.has(key)) candidates.set(key, { chunk });
+    return candidates.get(key)!;
+  };
 
   for (const version of loadedVersions) {
     const metadata = versionMetadata.get(version.id);
     if (!metadata) continue;
 
-    // Search this version
-    const chunks = searchChapterVersion(version, query, top_k);
-
     // Add metadata to chunks
-    const chunksWithContext: ChunkWithContext[] = chunks.map(chunk => ({
+    const withContext = (chunk: ChapterChunk): ChunkWithContext => ({
       ...chunk,
       chapter_id: metadata.chapter_id,
       chapter_title: metadata.chapter_title,
@@ -76,16 +89,40 @@ export async function buildMultiChapterContext(
       version_number: version.version_number,
       thesis_id: metadata.thesis_id,
       thesis_title: metadata.thesis_title
-    }));
+    });
 
-    allResults.push(...chunksWithContext);
+    // Search this version
+    if (search_mode !== 'semantic') {
+      for (const { chunk, score } of searchChapterVersion(version, query, top_k)) {
+        candidateFor(withContext(chunk)).bm25Raw = score;
+      }
+    }
+
+    if (embeddingProvider && queryVector) {
+      const scored = await searchChapterVersionSemantic(version, queryVector, embeddingProvider, top_k);
+      // Similaridade <= 0: nada em comum com a consulta
+      for (const { chunk, score } of scored.filter(result => result.score > 0)) {
+        candidateFor(withContext(chunk)).semantic = score;
+      }
+    }
   }
 
-  // 4. Sort by relevance (BM25 score proxy: assume earlier results are better)
-  // In a real implementation, you'd sort by actual BM25 scores
-  const topResults = allResults.slice(0, top_k);
+  // 4. Rank globally by score, then apply the per-chapter quota
+  const ranked = scoreCandidates(search_mode, Array.from(candidates.values()));
+  const chapterCount = new Set(ranked.map(c => c.chunk.chapter_id)).size;
+  const quota = max_chunks_per_chapter ?? Math.ceil(top_k / Math.max(1, chapterCount));
+
+  const topResults = selectWithQuota(ranked, top_k, quota).map((candidate, i) => ({
+    ...candidate.chunk,
+    relevance: {
+      score: candidate.score,
+      bm25: candidate.bm25,
+      semantic: candidate.semantic,
+      rank: i + 1
+    }
+  }));
 
-  console.log(`[CONTEXT-BUILDER] Found ${topResults.length} relevant chunks`);
+  console.log(`[CONTEXT-BUILDER] Found ${topResults.length} relevant chunks from ${candidates.size} candidates (max ${quota} per chapter)`);
 
   // 5. Build result
   const chaptersIncluded = Array.from(versionMetadata.values()).map(m => ({
@@ -97,11 +134,87 @@ export async function buildMultiChapterContext(
 
   return {
     chunks: topResults,
-    total_chunks_searched: allResults.length,
+    total_chunks_searched: candidates.size,
     chapters_included: chaptersIncluded
   };
 }
 
+export type Candidate = {
+  chunk: ChunkWithContext;
+  bm25Raw?: number;
+  bm25?: number;
+  semantic?: number;
+  score?: number;
+};
+
+/**
+ * Pontua os candidatos (0-1) e ordena do melhor ao pior.
+ * BM25 é dividido pelo maior score entre todas as versões, para que um capítulo
+ * pouco relevante não tenha seus melhores trechos tratados como 1.0.
+ * Híbrido usa reciprocal-rank fusion das duas listas globais, dividida pelo
+ * máximo possível (primeiro nas duas).
+ */
+export function scoreCandidates(mode: ContextSearchMode, candidates: Candidate[]): Array<Candidate & { score: number }> {
+  const maxBm25 = Math.max(0, ...candidates.map(c => c.bm25Raw ?? 0));
+  for (const candidate of candidates) {
+    if (candidate.bm25Raw !== undefined) {
+      candidate.bm25 = maxBm25 > 0 ? candidate.bm25Raw / maxBm25 : 0;
+    }
+  }
+
+  const rankBy = (key: 'bm25' | 'semantic') => {
+    const ranks = new Map<Candidate, number>();
+    candidates
+      .filter(c => c[key] !== undefined)
+      .sort((a, b) => b[key]! - a[key]!)
+      .forEach((c, i) => ranks.set(c, i + 1));
+    return ranks;
+  };
+
+  if (mode === 'hybrid') {
+    const bm25Ranks = rankBy('bm25');
+    const semanticRanks = rankBy('semantic');
+    const rrf = (rank?: number) => (rank ? 1 / (RRF_K + rank) : 0);
+
+    for (const candidate of candidates) {
+      candidate.score = (rrf(bm25Ranks.get(candidate)) + rrf(semanticRanks.get(candidate))) / (2 / (RRF_K + 1));
+    }
+  } else {
+    for (const candidate of candidates) {
+      candidate.score = (mode === 'semantic' ? candidate.semantic : candidate.bm25) ?? 0;
+    }
+  }
+
+  return (candidates as Array<Candidate & { score: number }>).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Escolhe os top_k respeitando a cota por capítulo. A cota é flexível: se os
+ * outros capítulos não tiverem candidatos suficientes, as vagas restantes vão
+ * para os melhores que ficaram de fora.
+ */
+export function selectWithQuota<T extends Candidate>(ranked: T[], topK: number, quota: number): T[] {
+  const selected: T[] = [];
+  const skipped: T[] = [];
+  const perChapter = new Map<string, number>();
+
+  for (const candidate of ranked) {
+    if (selected.length >= topK) break;
+
+    const count = perChapter.get(candidate.chunk.chapter_id) || 0;
+    if (count >= quota) {
+      skipped.push(candidate);
+      continue;
+    }
+
+    perChapter.set(candidate.chunk.chapter_id, count + 1);
+    selected.push(candidate);
+  }
+
+  selected.push(...skipped.slice(0, topK - selected.length));
+  return selected.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
 /**
  * Fetch metadata for chapter versions (chapter title, order, thesis title)
  */
@@ -113,7 +226,7 @@ async function fetchVersionMetadata(versionIds: string[]): Promise<Map<string, {
   thesis_id: string;
   thesis_title: string;
 }>> {
-  const { data: versionsData, error } = await supabase
+  const { data: versionsData, error } = await db
     .from('chapter_versions')
     .select(`
       id,
@@ -219,5 +332,6 @@ export function formatCitation(chunk: ChunkWithContext, mode: CitationDisplayMod
  * @returns Full citation details for tooltip
  */
 export function getFullCitationTooltip(chunk: ChunkWithContext): string {
-  return `${chunk.thesis_title || 'Tese'} > Capítulo ${chunk.chapter_order}: ${chunk.chapter_title} > Versão ${chunk.version_number} > Páginas ${chunk.page_from}${chunk.page_to !== chunk.page_from ? `-${chunk.page_to}` : ''}`;
+  const section = chunk.section_path?.length ? ` > ${chunk.section_path.join(' > ')}` : '';
+  return `${chunk.thesis_title || 'Tese'} > Capítulo ${chunk.chapter_order}: ${chunk.chapter_title} > Versão ${chunk.version_number}${section} > Páginas ${chunk.page_from}${chunk.page_to !== chunk.page_from ? `-${chunk.page_to}` : ''}`;
 }
@@ -0,0 +1,233 @@
+/**
+ * Conversations - Chat conversations persisted per thesis
+ *
+ * Responsibilities:
+ * - List, create, rename and delete a user's conversations in a thesis
+ * - Load the messages (question + one answer per provider) of a conversation
+ * - Build the history sent to the model on the next question
+ * - Persist a question with its answers, selected versions and citations
+ */
+
+import { db } from '@/lib/storage';
+import { findThesisAccess } from '@/lib/auth/access';
+import type { AIResponse, ChatTurn } from '@/lib/ai/types';
+import type { ChatSource } from '@/lib/chat-context';
+import type { ChatConversation, ChatMessage, CitationDisplayMode, ContextSearchMode } from './types';
+
+export class ConversationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ConversationError';
+  }
+}
+
+const DEFAULT_TITLE = 'Nova conversa';
+const TITLE_MAX_CHARS = 60;
+
+// Perguntas anteriores enviadas ao modelo (cada uma com uma resposta)
+const HISTORY_TURNS = 6;
+
+function validateTitle(title: string): string {
+  const trimmed = (title || '').trim();
+  if (!trimmed) throw new ConversationError('Conversation title is required');
+  return trimmed.substring(0, 200);
+}
+
+function titleFromQuestion(question: string): string {
+  const text = question.replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_MAX_CHARS ? `${text.substring(0, TITLE_MAX_CHARS - 1)}…` : text;
+}
+
+export async function listConversations(thesisId: string, userId: string): Promise<ChatConversation[]> {
+  const { data, error } = await db
+    .from('chat_conversations')
+    .select('*')
+    .eq('thesis_id', thesisId)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load conversations: ${error.message}`);
+  return data || [];
+}
+
+export async function createConversation(input: {
+  thesisId: string;
+  userId: string;
+  title?: string;
+}): Promise<ChatConversation> {
+  const { data, error } = await db
+    .from('chat_conversations')
+    .insert({
+      thesis_id: input.thesisId,
+      user_id: input.userId,
+      title: input.title ? validateTitle(input.title) : DEFAULT_TITLE
+    })
+    .select()
+    .single();
+
+  if (error || !data) throw new Error(`Failed to create conversation: ${error?.message}`);
+
+  console.log(`[CONVERSATIONS] Created ${data.id} in thesis ${input.thesisId}`);
+  return data;
+}
+
+/**
+ * Conversa do usuário, se ele ainda tiver acesso à tese
+ */
+export async function findConversation(conversationId: string, userId: string): Promise<ChatConversation> {
+  const { data: conversation } = await db
+    .from('chat_conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!conversation || !(await findThesisAccess(conversation.thesis_id, userId))) {
+    throw new ConversationError('Conversation not found', 404);
+  }
+
+  return conversation;
+}
+
+export async function renameConversation(conversationId: string, title: string): Promise<void> {
+  const { error } = await db
+    .from('chat_conversations')
+    .update({ title: validateTitle(title) })
+    .eq('id', conversationId);
+
+  if (error) throw new Error(`Failed to rename conversation: ${error.message}`);
+}
+
+export async function deleteConversation(conversationId: string): Promise<void> {
+  const { error } = await db
+    .from('chat_conversations')
+    .delete()
+    .eq('id', conversationId);
+
+  if (error) throw new Error(`Failed to delete conversation: ${error.message}`);
+
+  console.log(`[CONVERSATIONS] Deleted ${conversationId}`);
+}
+
+export async function listConversationMessages(conversationId: string): Promise<ChatMessage[]> {
+  const { data, error } = await db
+    .from('chat_messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('seq', { ascending: true });
+
+  if (error) throw new Error(`Failed to load messages: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Turnos anteriores para o modelo: as últimas perguntas, cada uma com a
+ * primeira resposta que não falhou (perguntas sem resposta ficam de fora)
+ */
+export async function getConversationHistory(conversationId: string): Promise<ChatTurn[]> {
+  const messages = await listConversationMessages(conversationId);
+  const turns: ChatTurn[][] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    if (messages[i].role !== 'user') continue;
+
+    let answer: ChatMessage | undefined;
+    for (let j = i + 1; j < messages.length && messages[j].role === 'assistant'; j++) {
+      if (!messages[j].error) {
+        answer = messages[j];
+        break;
+      }
+    }
+
+    if (answer) {
+      turns.push([
+        { role: 'user', content: messages[i].content },
+        { role: 'assistant', content: answer.content }
+      ]);
+    }
+  }
+
+  return turns.slice(-HISTORY_TURNS).flat();
+}
+
+/**
+ * Grava a pergunta e as respostas de cada provedor; a primeira pergunta
+ * vira o título de uma conversa ainda sem nome
+ */
+export async function saveChatExchange(input: {
+  conversation: ChatConversation;
+  question: string;
+  answers: AIResponse[];
+  chapterVersionIds: string[];
+  searchMode: ContextSearchMode;
+  retrievalQuery: string;
+  citationMode?: CitationDisplayMode;
+  sources?: ChatSource[];
+}): Promise<{ questionId: string; answerIds: string[] }> {
+  const { conversation } = input;
+
+  const { data: last, error: lastError } = await db
+    .from('chat_messages')
+    .select('seq')
+    .eq('conversation_id', conversation.id)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) throw new Error(`Failed to load messages: ${lastError.message}`);
+
+  let seq = last?.seq || 0;
+  const shared = {
+    conversation_id: conversation.id,
+    chapter_version_ids: input.chapterVersionIds,
+    search_mode: input.searchMode,
+    retrieval_query: input.retrievalQuery,
+    citation_mode: input.citationMode || null,
+    sources: input.sources || []
+  };
+
+  const { data: questionRow, error: questionError } = await db
+    .from('chat_messages')
+    .insert({ ...shared, seq: ++seq, role: 'user', content: input.question })
+    .select('id')
+    .single();
+
+  if (questionError || !questionRow) throw new Error(`Failed to save question: ${questionError?.message}`);
+
+  const answerIds: string[] = [];
+  for (const answer of input.answers) {
+    const { data, error } = await db
+      .from('chat_messages')
+      .insert({
+        ...shared,
+        seq: ++seq,
+        role: 'assistant',
+        content: answer.text,
+        citations: answer.citations || [],
+        provider: answer.provider,
+        model: answer.model,
+        error: answer.error || null,
+        tokens_in: answer.tokensIn,
+        tokens_out: answer.tokensOut,
+        cost_usd: answer.costEstimatedUsd
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) throw new Error(`Failed to save answer: ${error?.message}`);
+    answerIds.push(data.id);
+  }
+
+  // Toca updated_at (ordem da lista) e dá nome à conversa na primeira pergunta
+  const { error: touchError } = await db
+    .from('chat_conversations')
+    .update(conversation.title === DEFAULT_TITLE && !last
+      ? { title: titleFromQuestion(input.question) }
+      : { updated_at: new Date().toISOString() })
+    .eq('id', conversation.id);
+
+  if (touchError) console.error(`[CONVERSATIONS] Failed to update ${conversation.id}:`, touchError.message);
+
+  console.log(`[CONVERSATIONS] Saved question ${questionRow.id} with ${answerIds.length} answers in ${conversation.id}`);
+  return { questionId: questionRow.id, answerIds };
+}
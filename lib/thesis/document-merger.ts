@@ -1,5 +1,5 @@
 import DocxMerger from 'docx-merger';
-import { supabase } from '@/lib/supabase';
+import { storage } from '@/lib/storage';
 
 export type ChapterSelection = {
   chapterId: string;
@@ -19,7 +19,7 @@ export type MergeOptions = {
  * Downloads a DOCX file from Supabase Storage and returns its buffer
  */
 async function downloadDocument(filePath: string): Promise<Buffer> {
-  const { data, error } = await supabase.storage
+  const { data, error } = await storage
     .from('documents')
     .download(filePath);
 
@@ -160,7 +160,7 @@ export async function uploadMergedDocument(
 ): Promise<string> {
   const storagePath = `theses/${thesisId}/compiled/${versionId}.docx`;
 
-  const { error } = await supabase.storage
+  const { error } = await storage
     .from('documents')
     .upload(storagePath, buffer, {
       contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
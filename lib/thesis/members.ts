@@ -0,0 +1,280 @@
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/storage';
+import { sendMail } from '@/lib/mail/outbox';
+import { getUserById, normalizeEmail } from '@/lib/auth/users';
+import { ThesisInvitation, ThesisMember, ThesisRole } from './types';
+
+/**
+ * Compartilhamento de teses: membros (coautor / orientador-revisor) e convites por email.
+ * As verificações de papel de quem chama ficam nas rotas (lib/auth/access.ts).
+ */
+
+type MemberRole = Exclude<ThesisRole, 'owner'>;
+
+const MEMBER_ROLES: MemberRole[] = ['coauthor', 'reviewer'];
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  coauthor: 'coautor(a)',
+  reviewer: 'orientador(a)/revisor(a)'
+};
+
+export class MembershipError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MembershipError';
+  }
+}
+
+function validateRole(role: string): MemberRole {
+  if (!MEMBER_ROLES.includes(role as MemberRole)) {
+    throw new MembershipError(`Invalid role: ${role}. Use 'coauthor' or 'reviewer'`);
+  }
+  return role as MemberRole;
+}
+
+function invitationUrl(token: string): string {
+  const appUrl = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return `${appUrl}/invitations/${token}`;
+}
+
+/**
+ * Dono + membros da tese, com nome/email de cada usuário
+ */
+export async function listThesisMembers(thesisId: string) {
+  const { data: thesis } = await db
+    .from('theses')
+    .select('owner_id')
+    .eq('id', thesisId)
+    .single();
+
+  const owner = thesis?.owner_id ? await getUserById(thesis.owner_id) : null;
+
+  const { data: members, error } = await db
+    .from('thesis_members')
+    .select('user_id, role, created_at, user:user_id(id, name, email)')
+    .eq('thesis_id', thesisId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to load members: ${error.message}`);
+
+  return [
+    ...(owner ? [{ userId: owner.id, name: owner.name, email: owner.email, role: 'owner' as ThesisRole, joinedAt: null }] : []),
+    ...(members || []).map((m: any) => ({
+      userId: m.user_id,
+      name: m.user?.name || null,
+      email: m.user?.email || null,
+      role: m.role as ThesisRole,
+      joinedAt: m.created_at
+    }))
+  ];
+}
+
+export async function listPendingInvitations(thesisId: string): Promise<ThesisInvitation[]> {
+  const { data, error } = await db
+    .from('thesis_invitations')
+    .select('*')
+    .eq('thesis_id', thesisId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load invitations: ${error.message}`);
+
+  return data || [];
+}
+
+/**
+ * Convida um email para a tese. Um convite pendente anterior para o mesmo
+ * email é revogado e substituído pelo novo.
+ */
+export async function inviteToThesis(input: {
+  thesisId: string;
+  email: string;
+  role: string;
+  invitedBy: string;
+}): Promise<ThesisInvitation> {
+  const email = normalizeEmail(input.email || '');
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new MembershipError('Email inválido');
+  }
+  const role = validateRole(input.role);
+
+  const { data: thesis } = await db
+    .from('theses')
+    .select('id, title, owner_id')
+    .eq('id', input.thesisId)
+    .single();
+
+  if (!thesis) throw new MembershipError('Thesis not found', 404);
+
+  const { data: existingUser } = await db
+    .from('users')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existingUser) {
+    if (existingUser.id === thesis.owner_id) {
+      throw new MembershipError('O dono da tese não pode ser convidado');
+    }
+
+    const { data: member } = await db
+      .from('thesis_members')
+      .select('id')
+      .eq('thesis_id', thesis.id)
+      .eq('user_id', existingUser.id)
+      .maybeSingle();
+
+    if (member) throw new MembershipError('Usuário já é membro desta tese', 409);
+  }
+
+  await db
+    .from('thesis_invitations')
+    .update({ status: 'revoked' })
+    .eq('thesis_id', thesis.id)
+    .eq('email', email)
+    .eq('status', 'pending');
+
+  const token = randomBytes(24).toString('hex');
+
+  const { data: invitation, error } = await db
+    .from('thesis_invitations')
+    .insert({
+      thesis_id: thesis.id,
+      email,
+      role,
+      token,
+      invited_by: input.invitedBy
+    })
+    .select()
+    .single();
+
+  if (error || !invitation) {
+    throw new Error(`Failed to create invitation: ${error?.message}`);
+  }
+
+  const inviter = await getUserById(input.invitedBy);
+
+  await sendMail({
+    to: email,
+    subject: `Convite para colaborar na tese "${thesis.title}"`,
+    body: [
+      `${inviter?.name || 'Um usuário'} convidou você como ${ROLE_LABELS[role]} na tese "${thesis.title}".`,
+      '',
+      `Para aceitar, entre com este email e acesse: ${invitationUrl(token)}`
+    ].join('\n')
+  });
+
+  console.log(`[MEMBERS] Invited ${email} as ${role} to thesis ${thesis.id}`);
+  return invitation;
+}
+
+/**
+ * Aceita um convite. O usuário logado precisa ter o mesmo email do convite.
+ */
+export async function acceptInvitation(token: string, userId: string): Promise<{ thesisId: string; role: MemberRole }> {
+  const { data: invitation } = await db
+    .from('thesis_invitations')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (!invitation || invitation.status !== 'pending') {
+    throw new MembershipError('Convite inválido ou expirado', 404);
+  }
+
+  const user = await getUserById(userId);
+  if (!user || user.email !== invitation.email) {
+    throw new MembershipError('Este convite foi enviado para outro email', 403);
+  }
+
+  const { error: memberError } = await db
+    .from('thesis_members')
+    .upsert({
+      thesis_id: invitation.thesis_id,
+      user_id: userId,
+      role: invitation.role,
+      invited_by: invitation.invited_by
+    }, { onConflict: 'thesis_id,user_id' });
+
+  if (memberError) throw new Error(`Failed to add member: ${memberError.message}`);
+
+  await db
+    .from('thesis_invitations')
+    .update({
+      status: 'accepted',
+      accepted_by: userId,
+      accepted_at: new Date().toISOString()
+    })
+    .eq('id', invitation.id);
+
+  console.log(`[MEMBERS] User ${userId} joined thesis ${invitation.thesis_id} as ${invitation.role}`);
+  return { thesisId: invitation.thesis_id, role: invitation.role };
+}
+
+/**
+ * Convites pendentes endereçados ao email do usuário, com o título da tese
+ */
+export async function listInvitationsForUser(userId: string) {
+  const user = await getUserById(userId);
+  if (!user) return [];
+
+  const { data, error } = await db
+    .from('thesis_invitations')
+    .select('id, role, token, created_at, thesis:thesis_id(id, title)')
+    .eq('email', user.email)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load invitations: ${error.message}`);
+
+  return (data || []).map((inv: any) => ({
+    id: inv.id,
+    role: inv.role as MemberRole,
+    token: inv.token,
+    createdAt: inv.created_at,
+    thesisId: inv.thesis?.id,
+    thesisTitle: inv.thesis?.title
+  }));
+}
+
+export async function updateMemberRole(thesisId: string, memberUserId: string, role: string): Promise<ThesisMember> {
+  const { data: member, error } = await db
+    .from('thesis_members')
+    .update({ role: validateRole(role) })
+    .eq('thesis_id', thesisId)
+    .eq('user_id', memberUserId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to update member: ${error.message}`);
+  if (!member) throw new MembershipError('Member not found', 404);
+
+  return member;
+}
+
+export async function removeMember(thesisId: string, memberUserId: string): Promise<void> {
+  const { data: removed, error } = await db
+    .from('thesis_members')
+    .delete()
+    .eq('thesis_id', thesisId)
+    .eq('user_id', memberUserId)
+    .select();
+
+  if (error) throw new Error(`Failed to remove member: ${error.message}`);
+  if (!removed || removed.length === 0) throw new MembershipError('Member not found', 404);
+
+  console.log(`[MEMBERS] Removed user ${memberUserId} from thesis ${thesisId}`);
+}
+
+export async function revokeInvitation(thesisId: string, invitationId: string): Promise<void> {
+  const { data: revoked, error } = await db
+    .from('thesis_invitations')
+    .update({ status: 'revoked' })
+    .eq('id', invitationId)
+    .eq('thesis_id', thesisId)
+    .eq('status', 'pending')
+    .select();
+
+  if (error) throw new Error(`Failed to revoke invitation: ${error.message}`);
+  if (!revoked || revoked.length === 0) throw new MembershipError('Invitation not found', 404);
+}
@@ -1,4 +1,4 @@
-import { supabase } from '@/lib/supabase';
+import { storage } from '@/lib/storage';
 import mammoth from 'mammoth';
 import fs from 'fs/promises';
 import path from 'path';
@@ -98,7 +98,7 @@ async function processFileReference(
 ): Promise<string> {
   try {
     // Download file from Supabase Storage
-    const { data: fileBlob, error: downloadError } = await supabase.storage
+    const { data: fileBlob, error: downloadError } = await storage
       .from('reference-materials')
       .download(storagePath);
 
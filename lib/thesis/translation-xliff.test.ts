@@ -0,0 +1,67 @@
+import { Document, Packer, Paragraph } from 'docx';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { db, storage } from '@/lib/storage';
+import { exportTranslationXliff, importTranslationXliff } from './translation-xliff';
+
+describe('translation XLIFF export and import', () => {
+  let userId: string;
+  let chapterId: string;
+  let jobId: string;
+  let versionId: string;
+
+  beforeAll(async () => {
+    userId = (await db.from('users').insert({ email: 'xliff@test.dev', name: 'Tradutor', password_hash: 'x' }).select().single()).data.id;
+    const thesisId = (await db.from('theses').insert({ title: 'Tese', owner_id: userId }).select().single()).data.id;
+    chapterId = (await db.from('chapters').insert({ thesis_id: thesisId, title: 'Introdução', chapter_order: 1 }).select().single()).data.id;
+
+    const buffer = await Packer.toBuffer(new Document({
+      sections: [{ children: [new Paragraph('Introdução'), new Paragraph('O estudo analisa a política educacional.')] }]
+    }));
+    await storage.from('documents').upload(`${chapterId}/v1.docx`, buffer);
+
+    const { data } = await db.rpc('create_chapter_version', {
+      p_chapter_id: chapterId,
+      p_file_path: `${chapterId}/v1.docx`,
+      p_parent_version_id: null,
+      p_created_by_operation: 'upload',
+      p_metadata: {}
+    });
+    versionId = data;
+
+    jobId = (await db.from('chapter_operation_jobs').insert({
+      chapter_id: chapterId,
+      version_id: versionId,
+      operation: 'translate',
+      status: 'completed',
+      metadata: {
+        sourceLanguage: 'pt',
+        targetLanguage: 'en',
+        suggestions: [{ id: 's1', originalText: 'O estudo analisa a política educacional.', improvedText: 'The study analyses education policy.' }]
+      }
+    }).select().single()).data.id;
+  });
+
+  it('exports the source version and the AI translations', async () => {
+    const { content, fileName, units } = await exportTranslationXliff(chapterId, jobId, 'Introdução');
+
+    expect(fileName).toBe('Introdução_en.xlf');
+    expect(units).toBe(2);
+    expect(content).toContain(`<mda:meta type="sourceVersionId">${versionId}</mda:meta>`);
+    expect(content).toContain('<target>The study analyses education policy.</target>');
+  });
+
+  it('rejects XLIFF exported from another version of the chapter', async () => {
+    const { content } = await exportTranslationXliff(chapterId, jobId, 'Introdução');
+    const otherVersion = content.replace(versionId, 'outra-versao');
+
+    await expect(importTranslationXliff(chapterId, jobId, otherVersion, userId))
+      .rejects.toMatchObject({ status: 409, message: 'XLIFF was exported from a different version of this chapter' });
+  });
+
+  it('rejects XLIFF for another target language', async () => {
+    const { content } = await exportTranslationXliff(chapterId, jobId, 'Introdução');
+
+    await expect(importTranslationXliff(chapterId, jobId, content.replace('trgLang="en"', 'trgLang="es"'), userId))
+      .rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Pós-edição humana da tradução de um capítulo via XLIFF 2.0
+ *
+ * Exporta os textos da versão de origem de um job de tradução (operation =
+ * translate) com as traduções da IA — as sugestões do job e, para o que elas
+ * não cobrem (títulos, por exemplo), a memória de tradução da tese. O
+ * tradutor revisa o arquivo na ferramenta dele e a importação reconstrói o
+ * DOCX traduzido a partir da mesma versão de origem, criando uma nova versão
+ * do capítulo (created_by_operation = translate, metadata.postEdited). O
+ * arquivo leva o id da versão de origem e XLIFF de outra versão é recusado.
+ *
+ * As traduções revisadas entram na memória de tradução da tese, então as
+ * próximas traduções reaproveitam o texto aprovado pelo tradutor.
+ */
+
+import { db, storage } from '@/lib/storage';
+import { extractTextsFromDocx } from '@/lib/translation/docx-translator';
+import { loadTranslationMemory, normalizeSegment, type TranslationMemory } from '@/lib/translation/memory';
+import { addElementContext, buildXliff, parseXliff, rebuildDocxFromXliff, XliffError, type XliffApplyStats } from '@/lib/translation/xliff';
+import { createNewChapterVersion } from './chapter-operations';
+import { processChapterVersion } from './chapter-processor';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+
+export type XliffImportResult = {
+  newVersionId: string;
+  stats: XliffApplyStats & { edited: number }; // edited = unidades alteradas em relação à IA
+};
+
+type TranslationJobSource = {
+  job: any;
+  thesisId: string;
+  sourceLanguage?: string;
+  targetLanguage: string;
+  sourceBuffer: Buffer;
+  memory: TranslationMemory;
+};
+
+/**
+ * Job de tradução concluído do capítulo, com o DOCX da versão de origem
+ */
+async function loadTranslationJob(chapterId: string, jobId: string): Promise<TranslationJobSource> {
+  const { data: job } = await db
+    .from('chapter_operation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('chapter_id', chapterId)
+    .maybeSingle();
+
+  if (!job) throw new XliffError('Job not found', 404);
+  if (job.operation !== 'translate') throw new XliffError('XLIFF is only available for translation jobs');
+  if (job.status !== 'completed') throw new XliffError('Translation job is not completed yet', 409);
+
+  const { data: version } = await db
+    .from('chapter_versions')
+    .select('file_path')
+    .eq('id', job.version_id)
+    .single();
+
+  const { data: chapter } = await db
+    .from('chapters')
+    .select('thesis_id')
+    .eq('id', chapterId)
+    .single();
+
+  if (!version || !chapter) throw new XliffError('Source version not found', 404);
+
+  const { data: fileBlob, error: downloadError } = await storage
+    .from('documents')
+    .download(version.file_path);
+
+  if (downloadError || !fileBlob) {
+    throw new Error(`Failed to download source version: ${downloadError?.message}`);
+  }
+
+  const metadata = job.metadata || {};
+
+  return {
+    job,
+    thesisId: chapter.thesis_id,
+    sourceLanguage: metadata.sourceLanguage,
+    targetLanguage: metadata.targetLanguage,
+    sourceBuffer: Buffer.from(await fileBlob.arrayBuffer()),
+    memory: await loadTranslationMemory(chapter.thesis_id, metadata.sourceLanguage, metadata.targetLanguage)
+  };
+}
+
+/**
+ * Tradução da IA para um texto da versão de origem: sugestão do job ou memória
+ */
+function aiTranslations(source: TranslationJobSource): (text: string) => string | undefined {
+  const suggestions = new Map<string, string>(
+    (source.job.metadata?.suggestions || [])
+      .filter((s: any) => s.originalText && s.improvedText)
+      .map((s: any) => [normalizeSegment(s.originalText), s.improvedText])
+  );
+
+  return text => suggestions.get(normalizeSegment(text)) ?? source.memory.lookup(text);
+}
+
+/**
+ * XLIFF 2.0 da tradução, para revisão por um tradutor
+ */
+export async function exportTranslationXliff(
+  chapterId: string,
+  jobId: string,
+  chapterTitle: string
+): Promise<{ content: string; fileName: string; units: number }> {
+  const source = await loadTranslationJob(chapterId, jobId);
+  const translationFor = aiTranslations(source);
+
+  const sourcePath = path.join(os.tmpdir(), `${randomUUID()}_xliff_export.docx`);
+  await fs.writeFile(sourcePath, source.sourceBuffer);
+
+  try {
+    const { textElements } = await extractTextsFromDocx(sourcePath);
+    addElementContext(textElements);
+    textElements.forEach(elem => {
+      elem.translatedText = translationFor(elem.originalText);
+    });
+
+    const baseName = chapterTitle.replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_|_$/g, '') || 'capitulo';
+    const content = buildXliff(textElements, {
+      sourceLanguage: source.sourceLanguage || 'und',
+      targetLanguage: source.targetLanguage,
+      original: `${baseName}.docx`,
+      sourceVersionId: source.job.version_id
+    });
+
+    const translated = textElements.filter(elem => elem.translatedText).length;
+    console.log(`[XLIFF] Exported job ${jobId}: ${textElements.length} units (${translated} translated)`);
+
+    return { content, fileName: `${baseName}_${source.targetLanguage}.xlf`, units: textElements.length };
+  } finally {
+    await fs.unlink(sourcePath).catch(() => {});
+  }
+}
+
+/**
+ * Importa o XLIFF pós-editado e cria a versão traduzida do capítulo
+ */
+export async function importTranslationXliff(
+  chapterId: string,
+  jobId: string,
+  content: string,
+  userId: string
+): Promise<XliffImportResult> {
+  const document = await parseXliff(content);
+  const source = await loadTranslationJob(chapterId, jobId);
+
+  // Sem o id (ferramenta que descarta metadados), valem as checagens por unidade
+  if (document.sourceVersionId && document.sourceVersionId !== source.job.version_id) {
+    throw new XliffError('XLIFF was exported from a different version of this chapter', 409);
+  }
+
+  // trgLang pode vir com região ("en-US")
+  const targetLanguage = document.targetLanguage.split(/[-_]/)[0].toLowerCase();
+  if (targetLanguage && targetLanguage !== source.targetLanguage) {
+    throw new XliffError(
+      `XLIFF target language (${document.targetLanguage}) does not match the translation (${source.targetLanguage})`,
+      409
+    );
+  }
+
+  const translationFor = aiTranslations(source);
+  const { buffer, elements, stats } = await rebuildDocxFromXliff(source.sourceBuffer, document.units);
+
+  let edited = 0;
+  for (const elem of elements) {
+    if (!elem.translatedText) continue;
+
+    if (normalizeSegment(translationFor(elem.originalText) || '') !== normalizeSegment(elem.translatedText)) {
+      edited++;
+    }
+    source.memory.add(elem.originalText, elem.translatedText, { provider: 'post-edit' });
+  }
+
+  const outputPath = path.join(os.tmpdir(), `${randomUUID()}_xliff_import.docx`);
+  await fs.writeFile(outputPath, buffer);
+
+  let newVersionId: string;
+  try {
+    newVersionId = await createNewChapterVersion(chapterId, source.job.version_id, outputPath, 'translate', {
+      targetLanguage: source.targetLanguage,
+      sourceLanguage: source.sourceLanguage,
+      translationJobId: jobId,
+      postEdited: true,
+      postEditedBy: userId,
+      postEditedAt: new Date().toISOString(),
+      xliff: { ...stats, edited }
+    });
+  } finally {
+    await fs.unlink(outputPath).catch(() => {});
+  }
+
+  await processChapterVersion(newVersionId);
+  await source.memory.save();
+
+  console.log(`[XLIFF] Imported job ${jobId}: version ${newVersionId}, ${stats.applied} units applied (${edited} post-edited)`);
+  return { newVersionId, stats: { ...stats, edited } };
+}
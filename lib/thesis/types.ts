@@ -3,6 +3,8 @@
  * Corresponds to database schema in 010_create_thesis_system.sql
  */
 
+import type { Citation as AnswerCitation } from '@/lib/ai/types';
+
 // ============================================================================
 // CORE TYPES
 // ============================================================================
@@ -14,10 +16,46 @@ export interface Thesis {
   id: string;
   title: string;
   description: string | null;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Role of a user on a thesis. The owner comes from theses.owner_id;
+ * co-authors and reviewers are stored in thesis_members.
+ */
+export type ThesisRole = 'owner' | 'coauthor' | 'reviewer';
+
+/**
+ * Shared access to a thesis (017_create_thesis_members.sql)
+ */
+export interface ThesisMember {
+  id: string;
+  thesis_id: string;
+  user_id: string;
+  role: Exclude<ThesisRole, 'owner'>;
+  invited_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Pending/accepted invitation sent by email to join a thesis
+ */
+export interface ThesisInvitation {
+  id: string;
+  thesis_id: string;
+  email: string;
+  role: Exclude<ThesisRole, 'owner'>;
+  token: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  invited_by: string | null;
+  accepted_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
 /**
  * Chapter within a thesis, with ordering
  */
@@ -39,6 +77,7 @@ export interface ChapterVersion {
   chapter_id: string;
   version_number: number; // 1, 2, 3...
   parent_version_id: string | null; // Tracks lineage
+  merge_parent_version_id: string | null; // Second parent when created by a merge
   file_path: string; // Supabase Storage path
   pages: number | null;
   chunks_count: number | null;
@@ -56,6 +95,7 @@ export interface ChapterChunk {
   chunk_index: number; // Position in document (0-based)
   page_from: number;
   page_to: number;
+  section_path: string[] | null; // Heading titles containing the chunk (null for chunks created before structure-aware chunking)
   text: string;
   created_at: string;
 }
@@ -79,6 +119,80 @@ export interface ThesisVersion {
   created_at: string;
 }
 
+/**
+ * Review thread on a chapter (018_create_chapter_comments.sql)
+ */
+export interface CommentThread {
+  id: string;
+  chapter_id: string;
+  origin_version_id: string | null; // Version where the thread was opened
+  status: 'open' | 'resolved';
+  created_by: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Position of a thread in one version. paragraph_index follows
+ * extractDocumentStructure (non-empty paragraphs, 0-based).
+ */
+export interface CommentThreadAnchor {
+  id: string;
+  thread_id: string;
+  chapter_version_id: string;
+  paragraph_index: number;
+  paragraph_text: string;
+  created_at: string;
+}
+
+export interface CommentMessage {
+  id: string;
+  thread_id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Chat conversation of one user inside a thesis (026_create_chat_conversations.sql)
+ */
+export interface ChatConversation {
+  id: string;
+  thesis_id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A question (role 'user') or one provider's answer (role 'assistant').
+ * A question and its answers share the retrieval fields.
+ */
+export interface ChatMessage {
+  id: string;
+  conversation_id: string;
+  seq: number;
+  role: 'user' | 'assistant';
+  content: string;
+  chapter_version_ids: string[];
+  search_mode: ContextSearchMode | null;
+  retrieval_query: string | null; // Query sent to retrieval (rewritten from the history)
+  citation_mode: CitationDisplayMode | null;
+  citations: AnswerCitation[]; // Citations in the answer text, checked against the retrieved chunks
+  sources: any[]; // Retrieved chunks shown under the answer (ChatSource)
+  provider: string | null;
+  model: string | null;
+  error: string | null; // Provider failed; not sent back as history
+  tokens_in: number | null;
+  tokens_out: number | null;
+  cost_usd: number | null;
+  created_at: string;
+}
+
 // ============================================================================
 // ENUMS & CONSTANTS
 // ============================================================================
@@ -92,7 +206,9 @@ export type ChapterOperation =
   | 'translate'   // Translation
   | 'adjust'      // Custom adjustments
   | 'adapt'       // Restructuring
-  | 'update';     // Norm updates
+  | 'update'      // Norm updates
+  | 'merge'       // Merge of two branches
+  | 'chat_edit';  // Edits proposed in the chapter chat
 
 export const CHAPTER_OPERATIONS: ChapterOperation[] = [
   'upload',
@@ -101,6 +217,8 @@ export const CHAPTER_OPERATIONS: ChapterOperation[] = [
   'adjust',
   'adapt',
   'update',
+  'merge',
+  'chat_edit',
 ];
 
 // ============================================================================
@@ -162,6 +280,27 @@ export interface ChunkWithContext extends ChapterChunk {
   // Thesis info (optional)
   thesis_id?: string;
   thesis_title?: string;
+
+  // Why the chunk was retrieved (set by buildMultiChapterContext)
+  relevance?: ChunkRelevance;
+}
+
+/**
+ * Retrieval scores of a chunk. All values are 0-1 and comparable across chapters.
+ */
+export interface ChunkRelevance {
+  score: number; // Final score used for ranking (depends on the search mode)
+  bm25?: number; // BM25 score divided by the best BM25 score among all searched versions
+  semantic?: number; // Cosine similarity between query and chunk embeddings
+  rank: number; // 1-based position in the final context
+}
+
+/**
+ * Chunk with its raw search score
+ */
+export interface ScoredChunk {
+  chunk: ChapterChunk;
+  score: number;
 }
 
 // ============================================================================
@@ -296,9 +435,23 @@ export interface ContextConfig {
   top_k?: number; // Default: 16
 
   // Search mode
-  search_mode?: 'bm25' | 'semantic'; // Default: bm25
+  search_mode?: ContextSearchMode; // Default: bm25
+
+  // Diversity quota: at most this many chunks from the same chapter, unless
+  // there are not enough chunks from other chapters to fill top_k.
+  // Default: ceil(top_k / number of chapters)
+  max_chunks_per_chapter?: number;
 }
 
+/**
+ * bm25 -> keyword search (elasticlunr)
+ * semantic -> cosine similarity between embeddings
+ * hybrid -> both, fused with reciprocal-rank fusion
+ */
+export type ContextSearchMode = 'bm25' | 'semantic' | 'hybrid';
+
+export const CONTEXT_SEARCH_MODES: ContextSearchMode[] = ['bm25', 'semantic', 'hybrid'];
+
 /**
  * Context result for RAG query
  */
@@ -350,6 +503,23 @@ export type CitationDisplayMode =
 // VERSION COMPARISON TYPES
 // ============================================================================
 
+/**
+ * Word-level highlight inside a changed paragraph
+ */
+export interface WordDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * One aligned entry of a paragraph diff (indexes follow extractDocumentStructure)
+ */
+export type ParagraphDiff =
+  | { type: 'unchanged'; index_a: number; index_b: number; text: string }
+  | { type: 'added'; index_b: number; text: string }
+  | { type: 'removed'; index_a: number; text: string }
+  | { type: 'changed'; index_a: number; index_b: number; text_a: string; text_b: string; words: WordDiffSegment[] };
+
 /**
  * Comparison between two versions
  */
@@ -361,14 +531,55 @@ export interface VersionComparison {
   pages_diff: number;
   chunks_diff: number;
 
-  // Content diff (optional, for future implementation)
-  diff?: {
-    added_lines: number;
-    removed_lines: number;
-    changed_lines: number;
+  // Content diff (paragraph alignment of both DOCX files)
+  diff: {
+    added_paragraphs: number;
+    removed_paragraphs: number;
+    changed_paragraphs: number;
+    unchanged_paragraphs: number;
+    paragraphs: ParagraphDiff[];
   };
 }
 
+// ============================================================================
+// VERSION MERGE TYPES
+// ============================================================================
+
+/**
+ * unchanged -> same in both versions
+ * take_a / take_b -> only one side changed it since the common ancestor
+ * conflict -> both sides changed it differently; needs a resolution
+ */
+export type MergeHunkType = 'unchanged' | 'take_a' | 'take_b' | 'conflict';
+
+/**
+ * Block of aligned paragraphs in a three-way merge (base, A, B)
+ */
+export interface MergeHunk {
+  id: string;
+  type: MergeHunkType;
+  base_text: string[];
+  a_indexes: number[];
+  a_text: string[];
+  b_indexes: number[];
+  b_text: string[];
+}
+
+/**
+ * How the user resolved a conflict hunk
+ */
+export type MergeResolution =
+  | { choice: 'a' | 'b' | 'both' }
+  | { choice: 'custom'; text: string };
+
+export interface MergePreview {
+  version_a: ChapterVersion;
+  version_b: ChapterVersion;
+  base_version: ChapterVersion | null; // Closest common ancestor
+  hunks: MergeHunk[];
+  conflicts: number;
+}
+
 // ============================================================================
 // UI STATE TYPES
 // ============================================================================
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { diffParagraphs, diffWords, lcsPairs } from './version-diff';
+
+const paragraphs = (...texts: string[]) => texts.map((text, index) => ({ index, text, isHeader: false }));
+
+describe('lcsPairs', () => {
+  it('returns the index pairs of a longest common subsequence', () => {
+    const pairs = lcsPairs('ABCBDAB'.split(''), 'BDCABA'.split(''), (x, y) => x === y);
+
+    expect(pairs).toHaveLength(4);
+    // Pares crescentes nos dois lados e com elementos iguais
+    pairs.forEach(([i, j], k) => {
+      expect('ABCBDAB'[i]).toBe('BDCABA'[j]);
+      if (k > 0) {
+        expect(i).toBeGreaterThan(pairs[k - 1][0]);
+        expect(j).toBeGreaterThan(pairs[k - 1][1]);
+      }
+    });
+  });
+
+  it('handles empty and disjoint lists', () => {
+    expect(lcsPairs([], [1, 2], (x, y) => x === y)).toEqual([]);
+    expect(lcsPairs([1, 2], [3, 4], (x, y) => x === y)).toEqual([]);
+    expect(lcsPairs([1, 2, 3], [1, 2, 3], (x, y) => x === y)).toEqual([[0, 0], [1, 1], [2, 2]]);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks removed and added words and merges consecutive segments', () => {
+    expect(diffWords('O estudo analisa dados', 'O estudo examina dados')).toEqual([
+      { type: 'equal', text: 'O estudo ' },
+      { type: 'removed', text: 'analisa' },
+      { type: 'added', text: 'examina' },
+      { type: 'equal', text: ' dados' }
+    ]);
+  });
+});
+
+describe('diffParagraphs', () => {
+  it('keeps unchanged paragraphs aligned and reports additions and removals', () => {
+    const diff = diffParagraphs(
+      paragraphs('Introdução', 'Parágrafo removido por completo.', 'Conclusão'),
+      paragraphs('Introdução', 'Conclusão', 'Anexo novo')
+    );
+
+    expect(diff.map(d => d.type)).toEqual(['unchanged', 'removed', 'unchanged', 'added']);
+    expect(diff[2]).toMatchObject({ index_a: 2, index_b: 1 });
+  });
+
+  it('pairs similar removed/added paragraphs as changed, ignoring whitespace-only edits', () => {
+    const diff = diffParagraphs(
+      paragraphs('A   pesquisa usa dados de três estados.', 'Os resultados mostram desigualdade no acesso à escola.'),
+      paragraphs('A pesquisa usa dados de três estados.', 'Os resultados mostram forte desigualdade no acesso à escola.')
+    );
+
+    expect(diff.map(d => d.type)).toEqual(['unchanged', 'changed']);
+    const changed = diff[1];
+    expect(changed.type === 'changed' && changed.words.filter(w => w.type !== 'equal')).toEqual([
+      { type: 'added', text: 'forte ' }
+    ]);
+  });
+});
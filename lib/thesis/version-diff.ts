@@ -0,0 +1,222 @@
+/**
+ * Version diff - Comparação parágrafo a parágrafo entre duas versões
+ *
+ * Responsibilities:
+ * - Alinhar os parágrafos das duas versões (LCS sobre o texto normalizado)
+ * - Parear blocos removidos/adicionados parecidos como "alterados"
+ * - Destacar as palavras alteradas dentro de cada parágrafo alterado
+ */
+
+import { db } from '@/lib/storage';
+import { getVersionParagraphs, VersionContentError, type VersionParagraph } from './version-paragraphs';
+import type { ParagraphDiff, VersionComparison, WordDiffSegment } from './types';
+
+// Similaridade mínima (0-1, por palavras) para considerar dois parágrafos a mesma passagem editada
+const CHANGED_SIMILARITY = 0.5;
+
+// Quantos parágrafos adicionados são testados como par de cada removido
+const PAIRING_WINDOW = 10;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Pares [i, j] da maior subsequência comum entre a e b
+ */
+export function lcsPairs<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = equals(a[i], b[j])
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (equals(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) || [];
+}
+
+/**
+ * Diff por palavras entre dois textos (segmentos consecutivos do mesmo tipo são unidos)
+ */
+export function diffWords(a: string, b: string): WordDiffSegment[] {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const pairs = lcsPairs(tokensA, tokensB, (x, y) => x === y);
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of [...pairs, [tokensA.length, tokensB.length] as [number, number]]) {
+    while (i < pi) push('removed', tokensA[i++]);
+    while (j < pj) push('added', tokensB[j++]);
+    if (pi < tokensA.length) {
+      push('equal', tokensA[pi]);
+      i++;
+      j++;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Similaridade por palavras (0-1) a partir do diff
+ */
+function similarity(segments: WordDiffSegment[]): number {
+  let equal = 0;
+  let total = 0;
+  for (const segment of segments) {
+    const words = segment.text.trim() ? segment.text.trim().split(/\s+/).length : 0;
+    total += segment.type === 'equal' ? words * 2 : words;
+    if (segment.type === 'equal') equal += words * 2;
+  }
+  return total === 0 ? 1 : equal / total;
+}
+
+/**
+ * Trecho sem correspondência exata: pareia removidos com adicionados parecidos
+ */
+function diffGap(removed: VersionParagraph[], added: VersionParagraph[]): ParagraphDiff[] {
+  const result: ParagraphDiff[] = [];
+  let next = 0;
+
+  for (const paragraphA of removed) {
+    let best: { k: number; score: number; words: WordDiffSegment[] } | null = null;
+
+    for (let k = next; k < Math.min(added.length, next + PAIRING_WINDOW); k++) {
+      const words = diffWords(paragraphA.text, added[k].text);
+      const score = similarity(words);
+      if (score >= CHANGED_SIMILARITY && (!best || score > best.score)) {
+        best = { k, score, words };
+      }
+    }
+
+    if (!best) {
+      result.push({ type: 'removed', index_a: paragraphA.index, text: paragraphA.text });
+      continue;
+    }
+
+    for (; next < best.k; next++) {
+      result.push({ type: 'added', index_b: added[next].index, text: added[next].text });
+    }
+
+    result.push({
+      type: 'changed',
+      index_a: paragraphA.index,
+      index_b: added[best.k].index,
+      text_a: paragraphA.text,
+      text_b: added[best.k].text,
+      words: best.words
+    });
+    next = best.k + 1;
+  }
+
+  for (; next < added.length; next++) {
+    result.push({ type: 'added', index_b: added[next].index, text: added[next].text });
+  }
+
+  return result;
+}
+
+/**
+ * Alinha os parágrafos de A e B e classifica cada um
+ */
+export function diffParagraphs(a: VersionParagraph[], b: VersionParagraph[]): ParagraphDiff[] {
+  const keysA = a.map(p => normalize(p.text));
+  const keysB = b.map(p => normalize(p.text));
+  const pairs = lcsPairs(keysA, keysB, (x, y) => x === y);
+
+  const result: ParagraphDiff[] = [];
+  let i = 0;
+  let j = 0;
+
+  for (const [pi, pj] of [...pairs, [a.length, b.length] as [number, number]]) {
+    result.push(...diffGap(a.slice(i, pi), b.slice(j, pj)));
+
+    if (pi < a.length) {
+      result.push({ type: 'unchanged', index_a: a[pi].index, index_b: b[pj].index, text: b[pj].text });
+    }
+    i = pi + 1;
+    j = pj + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Compara duas versões do mesmo capítulo (de A para B)
+ */
+export async function compareChapterVersions(
+  chapterId: string,
+  versionIdA: string,
+  versionIdB: string
+): Promise<VersionComparison> {
+  const { data: versions, error } = await db
+    .from('chapter_versions')
+    .select('*')
+    .eq('chapter_id', chapterId)
+    .in('id', [versionIdA, versionIdB]);
+
+  if (error) throw new Error(`Failed to load versions: ${error.message}`);
+
+  const versionA = versions?.find((v: any) => v.id === versionIdA);
+  const versionB = versions?.find((v: any) => v.id === versionIdB);
+
+  if (!versionA || !versionB) throw new VersionContentError('Version not found', 404);
+
+  const [paragraphsA, paragraphsB] = await Promise.all([
+    getVersionParagraphs(versionIdA),
+    getVersionParagraphs(versionIdB)
+  ]);
+
+  const paragraphs = diffParagraphs(paragraphsA, paragraphsB);
+  const count = (type: ParagraphDiff['type']) => paragraphs.filter(p => p.type === type).length;
+
+  console.log(`[VERSION-DIFF] Compared v${versionA.version_number} (${paragraphsA.length} paragraphs) with v${versionB.version_number} (${paragraphsB.length} paragraphs)`);
+
+  return {
+    version_a: versionA,
+    version_b: versionB,
+    pages_diff: (versionB.pages || 0) - (versionA.pages || 0),
+    chunks_diff: (versionB.chunks_count || 0) - (versionA.chunks_count || 0),
+    diff: {
+      added_paragraphs: count('added'),
+      removed_paragraphs: count('removed'),
+      changed_paragraphs: count('changed'),
+      unchanged_paragraphs: count('unchanged'),
+      paragraphs
+    }
+  };
+}
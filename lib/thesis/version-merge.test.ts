@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { mergeParagraphs } from './version-merge';
+
+const summary = (hunks: ReturnType<typeof mergeParagraphs>) =>
+  hunks.map(h => [h.type, h.a_text, h.b_text]);
+
+describe('mergeParagraphs (diff3)', () => {
+  const base = ['Título', 'Primeiro parágrafo.', 'Segundo parágrafo.', 'Conclusão.'];
+
+  it('takes each side when only that side changed a block', () => {
+    const a = ['Título', 'Primeiro parágrafo revisado.', 'Segundo parágrafo.', 'Conclusão.'];
+    const b = ['Título', 'Primeiro parágrafo.', 'Segundo parágrafo.', 'Conclusão ampliada.'];
+
+    expect(summary(mergeParagraphs(base, a, b))).toEqual([
+      ['unchanged', ['Título'], ['Título']],
+      ['take_a', ['Primeiro parágrafo revisado.'], ['Primeiro parágrafo.']],
+      ['unchanged', ['Segundo parágrafo.'], ['Segundo parágrafo.']],
+      ['take_b', ['Conclusão.'], ['Conclusão ampliada.']]
+    ]);
+  });
+
+  it('reports a conflict when both sides changed the same block differently', () => {
+    const a = ['Título', 'Versão de A.', 'Segundo parágrafo.', 'Conclusão.'];
+    const b = ['Título', 'Versão de B.', 'Segundo parágrafo.', 'Conclusão.'];
+
+    const hunks = mergeParagraphs(base, a, b);
+    const conflict = hunks.find(h => h.type === 'conflict');
+
+    expect(hunks.filter(h => h.type === 'conflict')).toHaveLength(1);
+    expect(conflict).toMatchObject({
+      base_text: ['Primeiro parágrafo.'],
+      a_text: ['Versão de A.'],
+      a_indexes: [1],
+      b_text: ['Versão de B.'],
+      b_indexes: [1]
+    });
+  });
+
+  it('accepts identical changes on both sides without conflict', () => {
+    const edited = ['Título', 'Mesmo texto novo.', 'Segundo parágrafo.', 'Conclusão.'];
+
+    const hunks = mergeParagraphs(base, edited, [...edited]);
+    expect(hunks.map(h => h.type)).toEqual(['unchanged', 'take_a', 'unchanged']);
+  });
+
+  it('keeps insertions and deletions from both sides', () => {
+    const a = ['Título', 'Primeiro parágrafo.', 'Inserido por A.', 'Segundo parágrafo.', 'Conclusão.'];
+    const b = ['Título', 'Primeiro parágrafo.', 'Segundo parágrafo.'];
+
+    expect(summary(mergeParagraphs(base, a, b))).toEqual([
+      ['unchanged', ['Título', 'Primeiro parágrafo.'], ['Título', 'Primeiro parágrafo.']],
+      ['take_a', ['Inserido por A.'], []],
+      ['unchanged', ['Segundo parágrafo.'], ['Segundo parágrafo.']],
+      ['take_b', ['Conclusão.'], []]
+    ]);
+  });
+
+  it('treats everything as a conflict without a common base', () => {
+    expect(mergeParagraphs([], ['A'], ['B']).map(h => h.type)).toEqual(['conflict']);
+  });
+});
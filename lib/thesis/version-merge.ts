@@ -0,0 +1,393 @@
+/**
+ * Version merge - Mescla dois ramos (versões irmãs) de um capítulo
+ *
+ * Responsibilities:
+ * - Encontrar o ancestral comum mais próximo (parent_version_id + merge_parent_version_id)
+ * - Merge de três vias por parágrafo: o que só um lado alterou entra sozinho,
+ *   o que os dois lados alteraram de formas diferentes vira conflito
+ * - Gerar o DOCX mesclado usando A como base (estilos, seções, tabelas) e
+ *   reaproveitando o XML original de cada parágrafo escolhido
+ */
+
+import { db, storage } from '@/lib/storage';
+import { paragraphLike, splitDocumentBody, xmlText, type BodyElement } from '@/lib/docx-xml';
+import JSZip from 'jszip';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { lcsPairs } from './version-diff';
+import { carryForwardThreads } from './comments';
+import type { ChapterVersion, MergeHunk, MergeHunkType, MergePreview, MergeResolution } from './types';
+
+export class MergeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MergeError';
+  }
+}
+
+type LoadedDocument = {
+  zip: JSZip;
+  head: string;
+  tail: string;
+  elements: BodyElement[];
+  paragraphs: BodyElement[];
+};
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function sameParagraphs(x: string[], y: string[]): boolean {
+  return x.length === y.length && x.every((text, i) => normalize(text) === normalize(y[i]));
+}
+
+/**
+ * Ancestral comum mais próximo de B que também é ancestral de A (ou null)
+ */
+function findMergeBase(versions: ChapterVersion[], versionIdA: string, versionIdB: string): ChapterVersion | null {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const parentsOf = (id: string) => {
+    const version = byId.get(id);
+    return [version?.parent_version_id, version?.merge_parent_version_id].filter(Boolean) as string[];
+  };
+
+  const ancestorsOfA = new Set<string>();
+  const stack = [versionIdA];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (ancestorsOfA.has(id)) continue;
+    ancestorsOfA.add(id);
+    stack.push(...parentsOf(id));
+  }
+
+  // BFS a partir de B: o primeiro ancestral compartilhado é o mais próximo
+  const queue = [versionIdB];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    if (ancestorsOfA.has(id)) return byId.get(id) || null;
+    queue.push(...parentsOf(id));
+  }
+
+  return null;
+}
+
+/**
+ * Merge de três vias (diff3) sobre listas de parágrafos
+ */
+export function mergeParagraphs(base: string[], a: string[], b: string[]): MergeHunk[] {
+  const equals = (x: string, y: string) => x === y;
+  const matchA = new Map(lcsPairs(base.map(normalize), a.map(normalize), equals));
+  const matchB = new Map(lcsPairs(base.map(normalize), b.map(normalize), equals));
+  const range = (from: number, to: number) => Array.from({ length: to - from }, (_, k) => from + k);
+
+  const hunks: MergeHunk[] = [];
+  const push = (type: MergeHunkType, o: [number, number], ra: [number, number], rb: [number, number]) => {
+    const last = hunks[hunks.length - 1];
+    if (type === 'unchanged' && last?.type === 'unchanged') {
+      last.base_text.push(...base.slice(o[0], o[1]));
+      last.a_indexes.push(...range(ra[0], ra[1]));
+      last.a_text.push(...a.slice(ra[0], ra[1]));
+      last.b_indexes.push(...range(rb[0], rb[1]));
+      last.b_text.push(...b.slice(rb[0], rb[1]));
+      return;
+    }
+
+    hunks.push({
+      id: `h${hunks.length}`,
+      type,
+      base_text: base.slice(o[0], o[1]),
+      a_indexes: range(ra[0], ra[1]),
+      a_text: a.slice(ra[0], ra[1]),
+      b_indexes: range(rb[0], rb[1]),
+      b_text: b.slice(rb[0], rb[1])
+    });
+  };
+
+  let o = 0;
+  let ai = 0;
+  let bi = 0;
+
+  for (let i = 0; i <= base.length; i++) {
+    const isEnd = i === base.length;
+    if (!isEnd && !(matchA.has(i) && matchB.has(i))) continue;
+
+    const aEnd = isEnd ? a.length : matchA.get(i)!;
+    const bEnd = isEnd ? b.length : matchB.get(i)!;
+
+    if (o < i || ai < aEnd || bi < bEnd) {
+      const baseSlice = base.slice(o, i);
+      const aSlice = a.slice(ai, aEnd);
+      const bSlice = b.slice(bi, bEnd);
+
+      const type: MergeHunkType = sameParagraphs(aSlice, baseSlice)
+        ? 'take_b'
+        : sameParagraphs(bSlice, baseSlice) || sameParagraphs(aSlice, bSlice)
+          ? 'take_a'
+          : 'conflict';
+
+      push(type, [o, i], [ai, aEnd], [bi, bEnd]);
+    }
+
+    if (!isEnd) push('unchanged', [i, i + 1], [aEnd, aEnd + 1], [bEnd, bEnd + 1]);
+
+    o = i + 1;
+    ai = aEnd + 1;
+    bi = bEnd + 1;
+  }
+
+  return hunks;
+}
+
+async function loadDocument(version: ChapterVersion): Promise<LoadedDocument> {
+  if (path.extname(version.file_path).toLowerCase() !== '.docx') {
+    throw new MergeError(`Version ${version.version_number} is not a DOCX file`);
+  }
+
+  const { data: fileBlob, error } = await storage
+    .from('documents')
+    .download(version.file_path);
+
+  if (error || !fileBlob) {
+    throw new Error(`Failed to download file: ${error?.message}`);
+  }
+
+  const zip = await JSZip.loadAsync(Buffer.from(await fileBlob.arrayBuffer()));
+  const file = zip.file('word/document.xml');
+  if (!file) throw new Error('document.xml not found');
+
+  const { head, elements, tail } = splitDocumentBody(await file.async('string'));
+
+  return {
+    zip,
+    head,
+    tail,
+    elements,
+    paragraphs: elements.filter(el => el.paragraphIndex !== null)
+  };
+}
+
+const paragraphTexts = (doc: LoadedDocument) => doc.paragraphs.map(p => xmlText(p.xml).trim());
+
+async function prepareMerge(chapterId: string, versionIdA: string, versionIdB: string) {
+  if (versionIdA === versionIdB) {
+    throw new MergeError('Choose two different versions to merge');
+  }
+
+  const { data: versions, error } = await db
+    .from('chapter_versions')
+    .select('*')
+    .eq('chapter_id', chapterId);
+
+  if (error) throw new Error(`Failed to load versions: ${error.message}`);
+
+  const versionA = (versions || []).find((v: ChapterVersion) => v.id === versionIdA);
+  const versionB = (versions || []).find((v: ChapterVersion) => v.id === versionIdB);
+  if (!versionA || !versionB) throw new MergeError('Version not found', 404);
+
+  const baseVersion = findMergeBase(versions || [], versionIdA, versionIdB);
+
+  if (baseVersion?.id === versionIdA || baseVersion?.id === versionIdB) {
+    throw new MergeError('One version already derives from the other; there is nothing to merge');
+  }
+
+  const [docA, docB, docBase] = await Promise.all([
+    loadDocument(versionA),
+    loadDocument(versionB),
+    baseVersion ? loadDocument(baseVersion) : Promise.resolve(null)
+  ]);
+
+  const hunks = mergeParagraphs(
+    docBase ? paragraphTexts(docBase) : [],
+    paragraphTexts(docA),
+    paragraphTexts(docB)
+  );
+
+  const preview: MergePreview = {
+    version_a: versionA,
+    version_b: versionB,
+    base_version: baseVersion,
+    hunks,
+    conflicts: hunks.filter(h => h.type === 'conflict').length
+  };
+
+  return { preview, docA, docB };
+}
+
+/**
+ * Prévia do merge: blocos automáticos e conflitos a resolver
+ */
+export async function previewMerge(chapterId: string, versionIdA: string, versionIdB: string): Promise<MergePreview> {
+  const { preview } = await prepareMerge(chapterId, versionIdA, versionIdB);
+
+  console.log(`[VERSION-MERGE] Preview v${preview.version_a.version_number} + v${preview.version_b.version_number}: ${preview.hunks.length} blocks, ${preview.conflicts} conflicts`);
+  return preview;
+}
+
+function hunkOutput(
+  hunk: MergeHunk,
+  docA: LoadedDocument,
+  docB: LoadedDocument,
+  resolution: MergeResolution | undefined
+): string[] {
+  const fromA = hunk.a_indexes.map(i => docA.paragraphs[i].xml);
+  const fromB = hunk.b_indexes.map(i => docB.paragraphs[i].xml);
+
+  switch (hunk.type) {
+    case 'unchanged':
+    case 'take_a':
+      return fromA;
+    case 'take_b':
+      return fromB;
+    case 'conflict':
+      if (!resolution) throw new MergeError(`Conflict ${hunk.id} is not resolved`);
+
+      switch (resolution.choice) {
+        case 'a':
+          return fromA;
+        case 'b':
+          return fromB;
+        case 'both':
+          return [...fromA, ...fromB];
+        case 'custom': {
+          const template = fromA[0] || fromB[0] || null;
+          return (resolution.text || '')
+            .split(/\n+/)
+            .map(line => line.trim())
+            .filter(Boolean)
+            .map(line => paragraphLike(template, line));
+        }
+        default:
+          throw new MergeError(`Invalid resolution for conflict ${hunk.id}`);
+      }
+  }
+}
+
+/**
+ * Monta o document.xml mesclado. Elementos de A que não são parágrafos com
+ * texto (tabelas, parágrafos vazios, w:sectPr) ficam no lugar; cada bloco é
+ * emitido na posição do seu primeiro parágrafo em A.
+ */
+function buildMergedDocument(
+  hunks: MergeHunk[],
+  docA: LoadedDocument,
+  docB: LoadedDocument,
+  resolutions: Record<string, MergeResolution>
+): string {
+  const emitAt = new Map<number, string[]>();
+  let nextA = 0;
+
+  for (const hunk of hunks) {
+    const position = hunk.a_indexes.length > 0 ? hunk.a_indexes[0] : nextA;
+    emitAt.set(position, [...(emitAt.get(position) || []), ...hunkOutput(hunk, docA, docB, resolutions[hunk.id])]);
+    if (hunk.a_indexes.length > 0) nextA = hunk.a_indexes[hunk.a_indexes.length - 1] + 1;
+  }
+
+  const endPosition = docA.paragraphs.length;
+  const body: string[] = [];
+  let endEmitted = false;
+
+  docA.elements.forEach((element, i) => {
+    if (element.paragraphIndex !== null) {
+      body.push(...(emitAt.get(element.paragraphIndex) || []));
+      return;
+    }
+
+    if (element.tag === 'w:sectPr' && i === docA.elements.length - 1) {
+      body.push(...(emitAt.get(endPosition) || []));
+      endEmitted = true;
+    }
+    body.push(element.xml);
+  });
+
+  if (!endEmitted) body.push(...(emitAt.get(endPosition) || []));
+
+  return docA.head + body.join('') + docA.tail;
+}
+
+/**
+ * Cria a versão mesclada (pai: A, segundo pai: B). Todos os conflitos
+ * precisam de uma resolução em `resolutions` (chave = id do bloco).
+ */
+export async function createMergedVersion(
+  chapterId: string,
+  versionIdA: string,
+  versionIdB: string,
+  resolutions: Record<string, MergeResolution>
+): Promise<string> {
+  const { preview, docA, docB } = await prepareMerge(chapterId, versionIdA, versionIdB);
+
+  const unresolved = preview.hunks.filter(h => h.type === 'conflict' && !resolutions[h.id]);
+  if (unresolved.length > 0) {
+    throw new MergeError(`${unresolved.length} conflict(s) still need a resolution`);
+  }
+
+  docA.zip.file('word/document.xml', Buffer.from(buildMergedDocument(preview.hunks, docA, docB, resolutions), 'utf-8'));
+  const outputBuffer = await docA.zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE'
+  });
+
+  const { data: chapter } = await db
+    .from('chapters')
+    .select('thesis_id')
+    .eq('id', chapterId)
+    .single();
+
+  if (!chapter) throw new MergeError('Chapter not found', 404);
+
+  const storagePath = `theses/${chapter.thesis_id}/chapters/${chapterId}/${randomUUID()}.docx`;
+
+  const { error: uploadError } = await storage
+    .from('documents')
+    .upload(storagePath, outputBuffer, {
+      contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      upsert: false
+    });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload file: ${uploadError.message}`);
+  }
+
+  const { data: newVersionId, error: versionError } = await db.rpc('create_chapter_version', {
+    p_chapter_id: chapterId,
+    p_file_path: storagePath,
+    p_parent_version_id: versionIdA,
+    p_created_by_operation: 'merge',
+    p_metadata: {
+      mergedFrom: [versionIdA, versionIdB],
+      baseVersionId: preview.base_version?.id || null,
+      conflicts: preview.conflicts,
+      resolutions: Object.fromEntries(
+        Object.entries(resolutions).map(([id, resolution]) => [id, resolution.choice])
+      )
+    }
+  });
+
+  if (versionError) {
+    throw new Error(`Failed to create version: ${versionError.message}`);
+  }
+
+  const { error: parentError } = await db
+    .from('chapter_versions')
+    .update({ merge_parent_version_id: versionIdB })
+    .eq('id', newVersionId);
+
+  if (parentError) {
+    throw new Error(`Failed to record merge parent: ${parentError.message}`);
+  }
+
+  // Comentários abertos dos dois ramos seguem para a versão mesclada
+  for (const parentId of [versionIdA, versionIdB]) {
+    try {
+      await carryForwardThreads(parentId, newVersionId);
+    } catch (carryError: any) {
+      console.warn(`[VERSION-MERGE] Failed to carry comments forward: ${carryError.message}`);
+    }
+  }
+
+  console.log(`[VERSION-MERGE] Created version ${newVersionId} merging ${versionIdA} + ${versionIdB} (${preview.conflicts} conflicts resolved)`);
+  return newVersionId;
+}
@@ -0,0 +1,100 @@
+/**
+ * Version paragraphs - texto de uma versão de capítulo, parágrafo a parágrafo
+ *
+ * Usa a mesma indexação de extractDocumentStructure (parágrafos não vazios),
+ * para que comentários e comparações apontem para os mesmos índices.
+ * Também localiza o parágrafo de um trecho citado no chat (locateChunkParagraph).
+ */
+
+import { db, storage } from '@/lib/storage';
+import { extractDocumentStructure } from '@/lib/improvement/document-analyzer';
+import { matchScore } from '@/lib/ai/grounding';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+
+export type VersionParagraph = {
+  index: number;
+  text: string;
+  isHeader: boolean;
+};
+
+export class VersionContentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'VersionContentError';
+  }
+}
+
+/**
+ * Paragraphs of a chapter version (DOCX only)
+ */
+export async function getVersionParagraphs(versionId: string): Promise<VersionParagraph[]> {
+  const { data: version } = await db
+    .from('chapter_versions')
+    .select('id, file_path')
+    .eq('id', versionId)
+    .single();
+
+  if (!version) throw new VersionContentError('Version not found', 404);
+
+  if (path.extname(version.file_path).toLowerCase() !== '.docx') {
+    throw new VersionContentError('Only DOCX versions can be read paragraph by paragraph');
+  }
+
+  const { data: fileBlob, error: downloadError } = await storage
+    .from('documents')
+    .download(version.file_path);
+
+  if (downloadError || !fileBlob) {
+    throw new Error(`Failed to download file: ${downloadError?.message}`);
+  }
+
+  const tempPath = path.join(os.tmpdir(), `${versionId}_${randomUUID()}_paragraphs.docx`);
+  await fs.writeFile(tempPath, Buffer.from(await fileBlob.arrayBuffer()));
+
+  try {
+    const { paragraphs } = await extractDocumentStructure(tempPath);
+    return paragraphs.map(p => ({ index: p.index, text: p.text, isHeader: p.isHeader }));
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+}
+
+// Parte do parágrafo que precisa estar no trecho (ou da citação no parágrafo)
+const PARAGRAPH_MATCH = 0.6;
+const QUOTE_MATCH = 0.5;
+
+/**
+ * Paragraph a chat citation points to: the one holding the quoted text or,
+ * without a quote (or if it is not found), the first paragraph of the chunk
+ */
+export async function locateChunkParagraph(
+  versionId: string,
+  paragraphs: VersionParagraph[],
+  chunkId: string,
+  quote?: string
+): Promise<number | null> {
+  const { data: chunk } = await db
+    .from('chapter_chunks')
+    .select('text')
+    .eq('id', chunkId)
+    .eq('chapter_version_id', versionId)
+    .maybeSingle();
+
+  if (!chunk) throw new VersionContentError('Chunk not found in this version', 404);
+
+  const inChunk = paragraphs.filter(p => p.text.trim() && matchScore(p.text, chunk.text) >= PARAGRAPH_MATCH);
+
+  if (quote?.trim()) {
+    let best: { index: number; score: number } | null = null;
+    for (const paragraph of inChunk.length > 0 ? inChunk : paragraphs) {
+      const score = matchScore(quote, paragraph.text);
+      if (!best || score > best.score) best = { index: paragraph.index, score };
+    }
+    if (best && best.score >= QUOTE_MATCH) return best.index;
+  }
+
+  return inChunk[0]?.index ?? null;
+}
@@ -4,6 +4,9 @@ import fs from 'fs/promises';
 import path from 'path';
 import { TranslationOptions, TextElement, TranslationResult, TranslationProgress } from './types';
 import { translateTextDirect } from './translate-direct';
+import { currentAIScope } from '../ai/scope';
+import { formatMemoryHints } from './memory';
+import { checkTerminology, describeViolation, formatTerminology, termsInText } from './termbase';
 
 /**
  * Extrai todos os textos de um arquivo DOCX preservando estrutura XML
@@ -449,7 +452,7 @@ function groupShortTexts(elements: TextElement[]): Array<{ indices: number[]; te
 async function translateBatch(
   elements: TextElement[],
   options: TranslationOptions,
-  stats: { validationPassed: number; validationFailed: number; retriesSucceeded: number; originalKept: number }
+  stats: NonNullable<TranslationProgress['stats']>
 ): Promise<string[]> {
   const { targetLanguage, sourceLanguage, provider, model } = options;
 
@@ -484,6 +487,16 @@ async function translateBatch(
         return;
       }
 
+      // Segmentos parecidos da memória de tradução vão ao prompt como referência
+      const similar = options.memory
+        ? group.indices.map(idx => options.memory!.similar(texts[idx]))
+        : [];
+      const memoryHints = formatMemoryHints(similar.flat());
+      stats.memoryFuzzyHits += similar.filter(matches => matches.length > 0).length;
+
+      // Termos da termbase que aparecem no grupo vão ao prompt como obrigatórios
+      const terminology = formatTerminology(termsInText(options.termbase || [], text));
+
       try {
       let finalTranslation = '';
 
@@ -499,7 +512,8 @@ async function translateBatch(
             sourceLanguage,
             provider,
             model,
-            options.glossary
+            terminology,
+            memoryHints
           );
           finalTranslation += partTranslation + ' ';
         }
@@ -513,7 +527,8 @@ async function translateBatch(
           sourceLanguage,
           provider,
           model,
-          options.glossary
+          terminology,
+          memoryHints
         );
       }
 
@@ -602,7 +617,8 @@ async function translateBatch(
               sourceLanguage,
               provider,
               model,
-              options.glossary
+              terminology,
+              memoryHints
             );
             finalTranslation += partTranslation + ' ';
           }
@@ -629,7 +645,8 @@ async function translateBatch(
               sourceLanguage,
               provider,
               model,
-              options.glossary
+              terminology,
+              memoryHints
             );
 
             const retry2Validation = validateTranslation(text, finalTranslation, true);
@@ -659,7 +676,8 @@ async function translateBatch(
                 sourceLanguage,
                 provider,
                 model,
-                options.glossary
+                terminology,
+                memoryHints
               );
               finalTranslation += partTranslation + ' ';
             } catch (error: any) {
@@ -711,7 +729,8 @@ async function translateBatch(
             sourceLanguage,
             provider,
             model,
-            options.glossary
+            terminology,
+            memoryHints
           );
 
           if (emergencyTranslation && emergencyTranslation.trim().length > 0) {
@@ -748,7 +767,7 @@ async function translateBatch(
 /**
  * Substitui textos no XML usando objeto parseado (funciona com texto fragmentado)
  */
-async function replaceTextsInXml(
+export async function replaceTextsInXml(
   zip: JSZip,
   xmlPath: string,
   elements: TextElement[]
@@ -968,8 +987,19 @@ export async function translateDocx(
       validationPassed: 0,
       validationFailed: 0,
       retriesSucceeded: 0,
-      originalKept: 0
+      originalKept: 0,
+      memoryHits: 0,
+      memoryFuzzyHits: 0,
+      terminologyViolations: 0
     };
+    const termbase = options.termbase || [];
+
+    if (termbase.length > 0) {
+      log(`[TERMBASE] 📚 ${termbase.length} terms for ${options.targetLanguage}`);
+    }
+    if (options.memory) {
+      log(`[TM] 🧠 Translation memory: ${options.memory.size} segments (${options.memory.sourceLanguage} → ${options.memory.targetLanguage})`);
+    }
 
     // Para cálculo de tempo estimado
     const translationStartTime = Date.now();
@@ -1010,25 +1040,51 @@ export async function translateDocx(
         log(`\n[TRANSLATE] ⏳ Batch ${currentChunk}/${totalChunks} (${progress.percentage}%) - Section: ${progress.currentSection}`);
         log(`[TRANSLATE] 📝 Processing ${batch.length} text elements...`);
 
+        // Memória de tradução: segmentos já traduzidos não vão para a IA
+        // (a não ser que a tradução gravada contrarie a termbase atual)
+        const pending = batch.filter(elem => {
+          const remembered = options.memory?.lookup(elem.originalText);
+          if (remembered === undefined) return true;
+          if (checkTerminology(termbase, elem.originalText, remembered).length > 0) return true;
+
+          elem.translatedText = remembered;
+          options.memory?.recordHit(elem.originalText);
+          stats.memoryHits++;
+          return false;
+        });
+
         // Traduz batch (passa elementos completos para detectar text boxes)
         const startBatch = Date.now();
-        const translations = await translateBatch(batch, options, stats);
+        const translations = pending.length > 0 ? await translateBatch(pending, options, stats) : [];
         const batchDuration = Date.now() - startBatch;
 
         // Registra tempo do batch para estimativa futura
         batchTimes.push(batchDuration);
 
         log(`[TRANSLATE] ✓ Batch completed in ${(batchDuration / 1000).toFixed(1)}s`);
-        log(`[TRANSLATE] 📊 Stats: ✓${stats.validationPassed} passed, ⟳${stats.retriesSucceeded} retried, ⚠${stats.originalKept} kept`);
+        log(`[TRANSLATE] 📊 Stats: ✓${stats.validationPassed} passed, ⟳${stats.retriesSucceeded} retried, ⚠${stats.originalKept} kept, 🧠${stats.memoryHits} from memory`);
 
-        // Mapeia traduções para elementos
-        batch.forEach((elem, idx) => {
+        // Mapeia traduções para elementos e confere a terminologia; só
+        // traduções sem violações vão para a memória
+        pending.forEach((elem, idx) => {
           elem.translatedText = translations[idx];
+
+          const violations = checkTerminology(termbase, elem.originalText, translations[idx]);
+          if (violations.length > 0) {
+            stats.terminologyViolations += violations.length;
+            log(`[TERMBASE] ⚠️ ${violations.map(describeViolation).join('; ')}`);
+            return;
+          }
+
+          options.memory?.add(elem.originalText, translations[idx], { provider: options.provider, model: options.model });
         });
       }
 
       // Substitui no XML usando elementos com tagPath
       await replaceTextsInXml(zip, xmlPath, elements);
+
+      // Grava por seção: uma falha adiante não perde o que já foi traduzido
+      await options.memory?.save();
     }
 
     // 4. Gera novo DOCX
@@ -1056,13 +1112,22 @@ export async function translateDocx(
       validationPassed: stats.validationPassed,
       validationFailed: stats.validationFailed,
       retriesSucceeded: stats.retriesSucceeded,
-      keptOriginal: stats.originalKept
+      keptOriginal: stats.originalKept,
+      memoryHits: stats.memoryHits,
+      memoryFuzzyHits: stats.memoryFuzzyHits,
+      terminologyViolations: stats.terminologyViolations
     };
 
     log('\n========== TRANSLATION VALIDATION REPORT ==========');
     log(`Original:    ${originalStats.chars} chars, ${originalStats.words} words, ${originalStats.sentences} sentences`);
     log(`Translated:  ${translatedStats.chars} chars (${validationReport.charRatio}), ${translatedStats.words} words (${validationReport.wordRatio}), ${translatedStats.sentences} sentences (${validationReport.sentenceRatio})`);
     log(`Validation:  ✓ ${stats.validationPassed} passed, ✗ ${stats.validationFailed} failed, ⟳ ${stats.retriesSucceeded} retried, ⚠ ${stats.originalKept} kept original`);
+    if (options.memory) {
+      log(`Memory:      🧠 ${stats.memoryHits} reused, ${stats.memoryFuzzyHits} with similar segments as hints`);
+    }
+    if (termbase.length > 0) {
+      log(`Terminology: 📚 ${stats.terminologyViolations} violations of ${termbase.length} terms`);
+    }
     log('===================================================\n');
 
     return {
@@ -1070,7 +1135,8 @@ export async function translateDocx(
       outputPath,
       elementsTranslated: textElements.length,
       durationMs,
-      costEstimatedUsd: estimateCost(textElements, options),
+      // Custo real das chamadas deste job (ledger; ver lib/ai/usage.ts)
+      costEstimatedUsd: currentAIScope()?.usage.costUsd,
       validationReport
     };
 
@@ -1082,26 +1148,3 @@ export async function translateDocx(
     };
   }
 }
-
-/**
- * Estima custo da tradução
- */
-function estimateCost(elements: TextElement[], options: TranslationOptions): number {
-  const totalChars = elements.reduce((sum, e) => sum + e.originalText.length, 0);
-  const totalTokens = Math.ceil(totalChars / 4); // Aproximação: 4 chars = 1 token
-
-  // Custos aproximados por 1M tokens (input + output)
-  const costs: Record<string, number> = {
-    'gpt-4o': 7.5,
-    'gpt-4o-mini': 0.45,
-    'gpt-4-turbo': 20,
-    'gemini-2.5-flash': 0.15,
-    'gemini-2.5-pro': 3.0,
-    'gemini-2.0-flash': 0.15,
-    'grok-2-1212': 5,
-    'grok-2-vision-1212': 5
-  };
-
-  const costPer1M = costs[options.model] || 5;
-  return (totalTokens * 2 * costPer1M) / 1_000_000; // x2 porque há input + output
-}
@@ -0,0 +1,133 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { db } from '@/lib/storage';
+import { formatMemoryHints, loadTranslationMemory, normalizeSegment } from './memory';
+
+const SOURCE = 'O estudo analisa a política educacional brasileira recente.';
+const TARGET = 'The study analyses recent Brazilian education policy.';
+
+let thesisId: string;
+
+async function storedRows() {
+  const { data } = await db
+    .from('translation_memory')
+    .select('source_text, target_text, hit_count, last_used_at')
+    .eq('thesis_id', thesisId);
+  return data as Array<{ source_text: string; target_text: string; hit_count: number; last_used_at: string | null }>;
+}
+
+beforeAll(async () => {
+  thesisId = (await db.from('theses').insert({ title: 'Tese' }).select().single()).data.id;
+
+  const memory = await loadTranslationMemory(thesisId, 'pt', 'en');
+  memory.add(SOURCE, TARGET, { provider: 'mock', model: 'mock-1' });
+  expect(await memory.save()).toBe(1);
+});
+
+describe('normalizeSegment', () => {
+  it('collapses whitespace and normalizes to NFC', () => {
+    expect(normalizeSegment('  Educação \n básica ')).toBe('Educação básica');
+  });
+});
+
+describe('TranslationMemory', () => {
+  it('finds exact segments ignoring whitespace, per language pair', async () => {
+    const memory = await loadTranslationMemory(thesisId, 'pt', 'en');
+    expect(memory.size).toBe(1);
+    expect(memory.lookup(`  ${SOURCE.replace(/ /g, '   ')}`)).toBe(TARGET);
+    expect(memory.lookup('Outro parágrafo qualquer.')).toBeUndefined();
+
+    const otherPair = await loadTranslationMemory(thesisId, 'pt', 'es');
+    expect(otherPair.lookup(SOURCE)).toBeUndefined();
+  });
+
+  it('does not count lookups, only recorded hits', async () => {
+    const memory = await loadTranslationMemory(thesisId, 'pt', 'en');
+    memory.lookup(SOURCE);
+    expect(await memory.save()).toBe(0);
+    expect((await storedRows())[0]).toMatchObject({ hit_count: 0, last_used_at: null });
+
+    memory.recordHit(SOURCE);
+    memory.recordHit('Segmento que não está na memória.');
+    expect(await memory.save()).toBe(1);
+
+    const [row] = await storedRows();
+    expect(row.hit_count).toBe(1);
+    expect(row.last_used_at).toBeTruthy();
+  });
+
+  it('saves new and used segments in batches with the same columns in every row', async () => {
+    const newSource = 'A pesquisa usa dados do censo escolar de 2022.';
+    const { data: before } = await db
+      .from('translation_memory')
+      .select('updated_at, last_used_at')
+      .eq('thesis_id', thesisId)
+      .single();
+
+    const upserts: Array<Array<Record<string, unknown>>> = [];
+    const from = db.from.bind(db);
+    const spy = vi.spyOn(db, 'from').mockImplementation((table: string) => {
+      const builder = from(table);
+      const upsert = builder.upsert.bind(builder);
+      builder.upsert = (rows: any, options?: any) => {
+        upserts.push(rows);
+        return upsert(rows, options);
+      };
+      return builder;
+    });
+
+    try {
+      const memory = await loadTranslationMemory(thesisId, 'pt', 'en');
+      memory.recordHit(SOURCE);
+      memory.add(newSource, 'The research uses 2022 school census data.');
+      expect(await memory.save()).toBe(2);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(upserts).toHaveLength(2);
+    for (const rows of upserts) {
+      const columns = Object.keys(rows[0]).sort();
+      rows.forEach(row => expect(Object.keys(row).sort()).toEqual(columns));
+    }
+    expect(upserts[0].map(row => row.source_text)).toEqual([newSource]);
+    expect(upserts[0][0]).not.toHaveProperty('last_used_at');
+    expect(upserts[1].map(row => row.source_text)).toEqual([SOURCE]);
+    expect(upserts[1][0]).not.toHaveProperty('updated_at');
+
+    const { data: used } = await db
+      .from('translation_memory')
+      .select('updated_at, last_used_at, hit_count')
+      .eq('thesis_id', thesisId)
+      .eq('source_text', SOURCE)
+      .single();
+    expect(used.updated_at).toBe(before.updated_at);
+    expect(used.last_used_at).not.toBe(before.last_used_at);
+    expect(used.hit_count).toBe(2);
+  });
+
+  it('ignores short, untranslated and unchanged segments', async () => {
+    const memory = await loadTranslationMemory(thesisId, 'pt', 'en');
+    memory.add('Sim', 'Yes');
+    memory.add('Uma frase sem tradução.', '   ');
+    memory.add('Título idêntico', 'Título idêntico');
+    memory.add(SOURCE, TARGET);
+
+    expect(memory.lookup('Sim')).toBeUndefined();
+    expect(await memory.save()).toBe(0);
+  });
+
+  it('returns similar segments as hints, without the segment itself', async () => {
+    const memory = await loadTranslationMemory(thesisId, 'pt', 'en');
+    const similar = memory.similar('O estudo analisa a política educacional brasileira atual.');
+
+    expect(similar).toHaveLength(1);
+    expect(similar[0]).toMatchObject({ sourceText: SOURCE, targetText: TARGET });
+    expect(similar[0].score).toBeGreaterThanOrEqual(0.6);
+    expect(memory.similar(SOURCE)).toEqual([]);
+    expect(memory.similar('Um texto completamente diferente sobre outro assunto.')).toEqual([]);
+
+    const hints = formatMemoryHints([...similar, ...similar]);
+    expect(hints.match(/- SOURCE:/g)).toHaveLength(1);
+    expect(formatMemoryHints([])).toBe('');
+  });
+});
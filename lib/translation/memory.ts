@@ -0,0 +1,252 @@
+import { createHash } from 'crypto';
+import { db } from '../storage';
+import { normalizeForMatch } from '../ai/grounding';
+
+/**
+ * Memória de tradução (TM) por tese e par de idiomas
+ *
+ * Cada segmento traduzido (parágrafo de origem -> tradução) fica em
+ * translation_memory. Ao traduzir de novo, segmentos iguais (ignorando só
+ * espaços) reaproveitam a tradução sem chamar a IA, e segmentos parecidos vão
+ * ao prompt como referência de terminologia. Retraduzir a versão 5 de um
+ * capítulo paga só pelos parágrafos que mudaram.
+ *
+ * A memória é carregada inteira no início do job (uma tese tem no máximo
+ * alguns milhares de segmentos) e as novas traduções são gravadas com save().
+ */
+
+export type TranslationMemoryMatch = {
+  sourceText: string;
+  targetText: string;
+  score: number; // Similaridade com o segmento pedido (0-1)
+};
+
+export type TranslationMemory = {
+  thesisId: string;
+  sourceLanguage: string; // 'auto' quando o idioma de origem é detectado
+  targetLanguage: string;
+  size: number;
+  /** Tradução gravada para o mesmo segmento (só consulta; ver recordHit) */
+  lookup(sourceText: string): string | undefined;
+  /** Conta o uso da tradução gravada, quando ela de fato entra no documento */
+  recordHit(sourceText: string): void;
+  /** Segmentos parecidos (sem o próprio), do mais ao menos similar */
+  similar(sourceText: string, limit?: number): TranslationMemoryMatch[];
+  add(sourceText: string, targetText: string, origin?: { provider?: string; model?: string }): void;
+  /** Grava os segmentos novos e os usos; retorna quantos foram gravados */
+  save(): Promise<number>;
+};
+
+// Similaridade mínima para um segmento ir como referência
+const FUZZY_MIN_SCORE = 0.6;
+const FUZZY_LIMIT = 3;
+
+// Referências por prompt (um lote pode juntar vários parágrafos)
+const MAX_HINTS = 5;
+
+// Segmentos muito curtos (números, siglas) não entram na memória
+const MIN_SEGMENT_CHARS = 4;
+
+type Entry = {
+  sourceText: string;
+  targetText: string;
+  provider?: string | null;
+  model?: string | null;
+  hitCount: number;
+  bigrams: Set<string>;
+  length: number;
+  dirty: boolean;
+  used: boolean;
+};
+
+export function normalizeSegment(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+function segmentHash(text: string): string {
+  return createHash('sha256').update(normalizeSegment(text)).digest('hex');
+}
+
+function bigrams(text: string): Set<string> {
+  const words = normalizeForMatch(text).split(' ').filter(Boolean);
+  if (words.length === 1) return new Set(words);
+  return new Set(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+}
+
+// Coeficiente de Dice sobre pares de palavras
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(pair => { if (b.has(pair)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Memória da tese para o par de idiomas (origem desconhecida = 'auto')
+ */
+export async function loadTranslationMemory(
+  thesisId: string,
+  sourceLanguage: string | undefined,
+  targetLanguage: string
+): Promise<TranslationMemory> {
+  const source = sourceLanguage || 'auto';
+
+  const { data: rows, error } = await db
+    .from('translation_memory')
+    .select('source_hash, source_text, target_text, provider, model, hit_count')
+    .eq('thesis_id', thesisId)
+    .eq('source_language', source)
+    .eq('target_language', targetLanguage);
+
+  if (error) throw new Error(`Failed to load translation memory: ${error.message}`);
+
+  const entries = new Map<string, Entry>();
+  const toEntry = (sourceText: string, targetText: string, extra: Partial<Entry> = {}): Entry => ({
+    sourceText,
+    targetText,
+    hitCount: 0,
+    bigrams: bigrams(sourceText),
+    length: normalizeSegment(sourceText).length,
+    dirty: false,
+    used: false,
+    ...extra
+  });
+
+  for (const row of rows || []) {
+    entries.set(row.source_hash, toEntry(row.source_text, row.target_text, {
+      provider: row.provider,
+      model: row.model,
+      hitCount: row.hit_count || 0
+    }));
+  }
+
+  console.log(`[TM] Loaded ${entries.size} segments for thesis ${thesisId} (${source} -> ${targetLanguage})`);
+
+  return {
+    thesisId,
+    sourceLanguage: source,
+    targetLanguage,
+
+    get size() {
+      return entries.size;
+    },
+
+    lookup(sourceText) {
+      if (normalizeSegment(sourceText).length < MIN_SEGMENT_CHARS) return undefined;
+
+      return entries.get(segmentHash(sourceText))?.targetText;
+    },
+
+    recordHit(sourceText) {
+      if (normalizeSegment(sourceText).length < MIN_SEGMENT_CHARS) return;
+
+      const entry = entries.get(segmentHash(sourceText));
+      if (!entry) return;
+
+      entry.hitCount++;
+      entry.used = true;
+    },
+
+    similar(sourceText, limit = FUZZY_LIMIT) {
+      const length = normalizeSegment(sourceText).length;
+      if (length < MIN_SEGMENT_CHARS) return [];
+
+      const hash = segmentHash(sourceText);
+      const target = bigrams(sourceText);
+      const matches: TranslationMemoryMatch[] = [];
+
+      entries.forEach((entry, key) => {
+        // Tamanhos muito diferentes não chegam à similaridade mínima
+        if (key === hash || entry.length < length / 2 || entry.length > length * 2) return;
+
+        const score = dice(target, entry.bigrams);
+        if (score >= FUZZY_MIN_SCORE) {
+          matches.push({ sourceText: entry.sourceText, targetText: entry.targetText, score });
+        }
+      });
+
+      return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+
+    add(sourceText, targetText, origin = {}) {
+      const sourceSegment = normalizeSegment(sourceText);
+      const targetSegment = targetText.trim();
+      if (sourceSegment.length < MIN_SEGMENT_CHARS || !targetSegment || targetSegment === sourceSegment) return;
+
+      const hash = segmentHash(sourceText);
+      const existing = entries.get(hash);
+      if (existing?.targetText === targetSegment) return;
+
+      entries.set(hash, toEntry(sourceSegment, targetSegment, {
+        provider: origin.provider,
+        model: origin.model,
+        hitCount: existing?.hitCount || 0,
+        dirty: true
+      }));
+    },
+
+    async save() {
+      const now = new Date().toISOString();
+      const changed = Array.from(entries.entries()).filter(([, entry]) => entry.dirty || entry.used);
+      if (changed.length === 0) return 0;
+
+      const row = (hash: string, entry: Entry) => ({
+        thesis_id: thesisId,
+        source_language: source,
+        target_language: targetLanguage,
+        source_hash: hash,
+        source_text: entry.sourceText,
+        target_text: entry.targetText,
+        hit_count: entry.hitCount
+      });
+
+      // Um lote por conjunto de colunas: no Supabase o upsert em lote grava
+      // null na coluna que falta em alguma das linhas
+      const batches = [
+        changed.filter(([, entry]) => entry.dirty).map(([hash, entry]) => ({
+          ...row(hash, entry),
+          provider: entry.provider || null,
+          model: entry.model || null,
+          updated_at: now
+        })),
+        changed.filter(([, entry]) => entry.used).map(([hash, entry]) => ({
+          ...row(hash, entry),
+          last_used_at: now
+        }))
+      ];
+
+      for (const batch of batches) {
+        if (batch.length === 0) continue;
+
+        const { error: upsertError } = await db
+          .from('translation_memory')
+          .upsert(batch, { onConflict: 'thesis_id,source_language,target_language,source_hash' });
+
+        // Sem persistência a tradução continua valendo; só a próxima não reaproveita
+        if (upsertError) {
+          console.warn(`[TM] Failed to save translation memory: ${upsertError.message}`);
+          return 0;
+        }
+      }
+
+      changed.forEach(([, entry]) => { entry.dirty = false; entry.used = false; });
+      console.log(`[TM] Saved ${changed.length} segments for thesis ${thesisId}`);
+      return changed.length;
+    }
+  };
+}
+
+/**
+ * Referências da memória para o prompt (vazio sem referências)
+ */
+export function formatMemoryHints(matches: TranslationMemoryMatch[]): string {
+  if (matches.length === 0) return '';
+
+  const unique = Array.from(new Map(matches.map(m => [m.sourceText, m])).values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HINTS);
+  return [
+    'TRANSLATION MEMORY (earlier translations of similar segments - reuse their terminology and phrasing where the text is the same):',
+    ...unique.map(m => `- SOURCE: ${m.sourceText}\n  TARGET: ${m.targetText}`)
+  ].join('\n') + '\n\n';
+}
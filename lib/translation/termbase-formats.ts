@@ -0,0 +1,277 @@
+import { parseStringPromise, Builder } from 'xml2js';
+import { TermbaseError } from './termbase';
+import type { PartOfSpeech, TermbaseEntry, TermbaseEntryInput } from './types';
+
+/**
+ * Importação/exportação da termbase em CSV e TBX
+ *
+ * CSV: uma linha por termo e idioma de destino, com cabeçalho (CSV_COLUMNS);
+ * as traduções proibidas vão separadas por "|".
+ *
+ * TBX (TBX-Basic, raiz <martif>): um termEntry por termo de origem, com o
+ * langSet de origem (termo + classe gramatical) e um langSet por idioma de
+ * destino (tradução preferida + proibidas como deprecatedTerm-admn-sts). Na
+ * importação também são aceitos <ntig>/<termGrp> e o TBX v3
+ * (<conceptEntry>/<langSec>/<termSec>).
+ */
+
+export type TermbaseFormat = 'csv' | 'tbx';
+
+export const CSV_COLUMNS = [
+  'source_term',
+  'target_language',
+  'translation',
+  'forbidden',
+  'part_of_speech',
+  'notes',
+  'case_sensitive'
+] as const;
+
+const FORBIDDEN_SEPARATOR = '|';
+
+// Status TBX de termos que não devem ser usados
+const FORBIDDEN_STATUSES = ['deprecatedterm-admn-sts', 'supersededterm-admn-sts', 'deprecated', 'superseded', 'notrecommended'];
+
+export function detectTermbaseFormat(content: string): TermbaseFormat {
+  return content.trimStart().startsWith('<') ? 'tbx' : 'csv';
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Linhas do CSV (aspas duplas, vírgula ou ponto e vírgula como separador)
+ */
+function parseCsvRows(content: string): string[][] {
+  const text = content.replace(/^﻿/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const separator = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+export function termbaseToCsv(entries: TermbaseEntry[]): string {
+  const lines = entries.map(entry => [
+    entry.source_term,
+    entry.target_language,
+    entry.translation,
+    entry.forbidden.join(FORBIDDEN_SEPARATOR),
+    entry.part_of_speech || '',
+    entry.notes || '',
+    entry.case_sensitive ? 'true' : 'false'
+  ].map(csvCell).join(','));
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+export function parseTermbaseCsv(content: string): Array<Partial<TermbaseEntryInput>> {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const index = (name: typeof CSV_COLUMNS[number]) => columns.indexOf(name);
+
+  if (index('source_term') === -1 || index('target_language') === -1 || index('translation') === -1) {
+    throw new TermbaseError('CSV header must include source_term, target_language and translation');
+  }
+
+  return rows.map(row => {
+    const value = (name: typeof CSV_COLUMNS[number]) => (index(name) === -1 ? '' : row[index(name)] || '').trim();
+
+    return {
+      sourceTerm: value('source_term'),
+      targetLanguage: value('target_language').toLowerCase() as TermbaseEntryInput['targetLanguage'],
+      translation: value('translation'),
+      forbidden: value('forbidden').split(FORBIDDEN_SEPARATOR).map(term => term.trim()).filter(Boolean),
+      partOfSpeech: (value('part_of_speech').toLowerCase() || null) as PartOfSpeech | null,
+      notes: value('notes') || null,
+      caseSensitive: ['true', '1', 'yes', 'sim'].includes(value('case_sensitive').toLowerCase())
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// TBX
+// ---------------------------------------------------------------------------
+
+export function termbaseToTbx(entries: TermbaseEntry[], sourceLanguage: string): string {
+  const bySourceTerm = new Map<string, TermbaseEntry[]>();
+  for (const entry of entries) {
+    bySourceTerm.set(entry.source_term, [...(bySourceTerm.get(entry.source_term) || []), entry]);
+  }
+
+  const termEntries = Array.from(bySourceTerm.entries()).map(([sourceTerm, translations], i) => {
+    const partOfSpeech = translations.find(t => t.part_of_speech)?.part_of_speech;
+
+    return {
+      $: { id: `term-${i + 1}` },
+      langSet: [
+        {
+          $: { 'xml:lang': sourceLanguage },
+          tig: [{
+            term: [sourceTerm],
+            ...(partOfSpeech ? { termNote: [{ $: { type: 'partOfSpeech' }, _: partOfSpeech }] } : {})
+          }]
+        },
+        ...translations.map(entry => ({
+          $: { 'xml:lang': entry.target_language },
+          ...(entry.notes ? { note: [entry.notes] } : {}),
+          tig: [
+            { term: [entry.translation], termNote: [{ $: { type: 'administrativeStatus' }, _: 'preferredTerm-admn-sts' }] },
+            ...entry.forbidden.map(term => ({
+              term: [term],
+              termNote: [{ $: { type: 'administrativeStatus' }, _: 'deprecatedTerm-admn-sts' }]
+            }))
+          ]
+        }))
+      ]
+    };
+  });
+
+  const builder = new Builder({ xmldec: { version: '1.0', encoding: 'UTF-8' } });
+  return builder.buildObject({
+    martif: {
+      $: { type: 'TBX-Basic', 'xml:lang': sourceLanguage },
+      martifHeader: [{
+        fileDesc: [{ sourceDesc: [{ p: ['Autoria - termbase da tese'] }] }],
+        encodingDesc: [{ p: [{ $: { type: 'XCSURI' }, _: 'TBXBasicXCSV02.xcs' }] }]
+      }],
+      text: [{ body: [{ termEntry: termEntries }] }]
+    }
+  });
+}
+
+const asArray = (value: any): any[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+const textOf = (value: any): string => (typeof value === 'string' ? value : value?._ || '').trim();
+
+// Código primário do idioma ("en-US" -> "en")
+const languageOf = (node: any): string =>
+  String(node?.$?.['xml:lang'] || node?.$?.lang || '').split(/[-_]/)[0].toLowerCase();
+
+type TbxTerm = { term: string; status: string; partOfSpeech?: string };
+
+// Termos de um langSet/langSec: <tig>, <ntig><termGrp> ou <termSec>
+function termsOf(langSet: any): TbxTerm[] {
+  const groups = [
+    ...asArray(langSet.tig),
+    ...asArray(langSet.termSec),
+    ...asArray(langSet.ntig).flatMap(ntig => asArray(ntig.termGrp))
+  ];
+
+  return groups
+    .map(group => {
+      const notes = [...asArray(group.termNote), ...asArray(group.termNoteGrp).flatMap(g => asArray(g.termNote))];
+      const note = (type: string) => textOf(notes.find(n => n?.$?.type === type));
+
+      return {
+        term: textOf(asArray(group.term)[0]),
+        status: (note('administrativeStatus') || note('normativeAuthorization')).toLowerCase(),
+        partOfSpeech: note('partOfSpeech').toLowerCase() || undefined
+      };
+    })
+    .filter(term => term.term);
+}
+
+export async function parseTermbaseTbx(
+  content: string,
+  sourceLanguage: string
+): Promise<Array<Partial<TermbaseEntryInput>>> {
+  let parsed: any;
+  try {
+    parsed = await parseStringPromise(content);
+  } catch (error: any) {
+    throw new TermbaseError(`Invalid TBX: ${error.message}`);
+  }
+
+  const root = parsed?.martif || parsed?.tbx;
+  if (!root) throw new TermbaseError('Invalid TBX: expected a <martif> or <tbx> root element');
+
+  const body = asArray(root.text)[0]?.body?.[0] || {};
+  const concepts = [...asArray(body.termEntry), ...asArray(body.conceptEntry)];
+  const inputs: Array<Partial<TermbaseEntryInput>> = [];
+
+  for (const concept of concepts) {
+    const langSets = [...asArray(concept.langSet), ...asArray(concept.langSec)];
+    const sourceSet = langSets.find(set => languageOf(set) === sourceLanguage) || langSets[0];
+    const source = sourceSet && termsOf(sourceSet).find(term => !FORBIDDEN_STATUSES.includes(term.status));
+    if (!source) continue;
+
+    const conceptNote = textOf(asArray(concept.note)[0]) || textOf(asArray(concept.descrip)[0]);
+
+    for (const set of langSets) {
+      if (set === sourceSet) continue;
+
+      const terms = termsOf(set);
+      const allowed = terms.filter(term => !FORBIDDEN_STATUSES.includes(term.status));
+      const preferred = allowed.find(term => term.status.startsWith('preferred')) || allowed[0];
+      if (!preferred) continue;
+
+      inputs.push({
+        sourceTerm: source.term,
+        targetLanguage: languageOf(set) as TermbaseEntryInput['targetLanguage'],
+        translation: preferred.term,
+        forbidden: terms.filter(term => FORBIDDEN_STATUSES.includes(term.status)).map(term => term.term),
+        partOfSpeech: (source.partOfSpeech || preferred.partOfSpeech || null) as PartOfSpeech | null,
+        notes: textOf(asArray(set.note)[0]) || conceptNote || null
+      });
+    }
+  }
+
+  return inputs;
+}
+
+/**
+ * Termos do arquivo (formato detectado pelo conteúdo se não informado)
+ */
+export async function parseTermbaseFile(
+  content: string,
+  options: { format?: TermbaseFormat; sourceLanguage: string }
+): Promise<Array<Partial<TermbaseEntryInput>>> {
+  const format = options.format || detectTermbaseFormat(content);
+  return format === 'tbx'
+    ? parseTermbaseTbx(content, options.sourceLanguage)
+    : parseTermbaseCsv(content);
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { db } from '@/lib/storage';
+import {
+  checkTerminology,
+  formatTerminology,
+  importTermbase,
+  listTermbase,
+  saveTermbaseEntry,
+  termsInText,
+  TermbaseError,
+  validateTermbaseEntry
+} from './termbase';
+import type { TermbaseEntry } from './types';
+
+const entry = (overrides: Partial<TermbaseEntry>): TermbaseEntry => ({
+  id: overrides.source_term || 'id',
+  thesis_id: 't',
+  source_term: 'termo',
+  target_language: 'en',
+  translation: 'term',
+  forbidden: [],
+  part_of_speech: null,
+  notes: null,
+  case_sensitive: false,
+  created_by: null,
+  created_at: '',
+  updated_at: '',
+  ...overrides
+});
+
+const entries = [
+  entry({ source_term: 'políticas públicas', translation: 'public policies', forbidden: ['public politics'] }),
+  entry({ source_term: 'escola', translation: 'school' }),
+  entry({ source_term: 'SUS', translation: 'SUS', case_sensitive: true })
+];
+
+describe('validateTermbaseEntry', () => {
+  it('cleans the term and drops forbidden translations equal to the preferred one', () => {
+    expect(validateTermbaseEntry({
+      sourceTerm: '  políticas   públicas ',
+      targetLanguage: 'en',
+      translation: 'public policies',
+      forbidden: ['public politics', 'Public Policies', 'public politics']
+    })).toMatchObject({
+      source_term: 'políticas públicas',
+      forbidden: ['public politics'],
+      case_sensitive: false
+    });
+  });
+
+  it('rejects missing fields and unsupported languages', () => {
+    expect(() => validateTermbaseEntry({ sourceTerm: 'x', targetLanguage: 'en' })).toThrow(TermbaseError);
+    expect(() => validateTermbaseEntry({ sourceTerm: 'x', translation: 'y', targetLanguage: 'xx' as any })).toThrow(/targetLanguage/);
+  });
+});
+
+describe('termsInText', () => {
+  it('matches whole words, accents included, respecting case sensitivity', () => {
+    const found = termsInText(entries, 'As Políticas  Públicas da escola e do SUS.');
+    expect(found.map(e => e.source_term)).toEqual(['políticas públicas', 'escola', 'SUS']);
+
+    expect(termsInText(entries, 'As escolas e o sus.')).toEqual([]);
+  });
+});
+
+describe('checkTerminology', () => {
+  it('reports forbidden and missing translations', () => {
+    const original = 'As políticas públicas chegam à escola.';
+
+    expect(checkTerminology(entries, original, 'Public policies reach the school.')).toEqual([]);
+    expect(checkTerminology(entries, original, 'Public politics reach the institution.')).toEqual([
+      { sourceTerm: 'políticas públicas', expected: 'public policies', kind: 'forbidden', found: 'public politics' },
+      { sourceTerm: 'escola', expected: 'school', kind: 'missing' }
+    ]);
+  });
+
+  it('formats only the given terms for the prompt', () => {
+    const prompt = formatTerminology(termsInText(entries, 'O SUS.'));
+    expect(prompt).toContain('"SUS" → keep "SUS" (do not translate)');
+    expect(prompt).not.toContain('escola');
+    expect(formatTerminology([])).toBe('');
+  });
+});
+
+describe('termbase storage', () => {
+  it('upserts by term and language and imports valid rows only', async () => {
+    const thesisId = (await db.from('theses').insert({ title: 'Tese' }).select().single()).data.id;
+    const userId = (await db.from('users').insert({ email: 'tb@test.dev', name: 'TB', password_hash: 'x' }).select().single()).data.id;
+
+    await saveTermbaseEntry(thesisId, { sourceTerm: 'escola', targetLanguage: 'en', translation: 'school' }, userId);
+    await saveTermbaseEntry(thesisId, { sourceTerm: 'escola', targetLanguage: 'en', translation: 'schoolhouse' }, userId);
+
+    const result = await importTermbase(thesisId, [
+      { sourceTerm: 'aluno', targetLanguage: 'en', translation: 'student' },
+      { sourceTerm: 'aluno', targetLanguage: 'en', translation: 'pupil' },
+      { sourceTerm: 'aluno', targetLanguage: 'es', translation: 'alumno' },
+      { sourceTerm: 'sem tradução', targetLanguage: 'en' }
+    ], userId);
+
+    expect(result.imported).toBe(2);
+    expect(result.skipped).toEqual([{ sourceTerm: 'sem tradução', error: 'translation is required' }]);
+
+    const english = await listTermbase(thesisId, 'en');
+    expect(english.map(e => [e.source_term, e.translation])).toEqual([['aluno', 'pupil'], ['escola', 'schoolhouse']]);
+    expect(await listTermbase(thesisId)).toHaveLength(3);
+  });
+});
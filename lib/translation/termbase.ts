@@ -0,0 +1,284 @@
+/**
+ * Termbase - Terminologia bilíngue por tese
+ *
+ * Responsibilities:
+ * - Listar, gravar, excluir e importar termos (termbase_entries)
+ * - Escolher os termos que aparecem num texto e montar as instruções do prompt
+ * - Conferir a tradução: tradução preferida presente e nenhuma proibida
+ *
+ * Cada termo vale para um idioma de destino. Tradução igual ao termo de
+ * origem significa "não traduzir" (o antigo glossário de termos protegidos).
+ */
+
+import { db } from '@/lib/storage';
+import {
+  LANGUAGE_NAMES,
+  PARTS_OF_SPEECH,
+  type SupportedLanguage,
+  type TermbaseEntry,
+  type TermbaseEntryInput,
+  type TerminologyViolation
+} from './types';
+
+export class TermbaseError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'TermbaseError';
+  }
+}
+
+const TERM_MAX_CHARS = 200;
+const NOTES_MAX_CHARS = 1000;
+const MAX_FORBIDDEN = 20;
+
+export function isSupportedLanguage(language: unknown): language is SupportedLanguage {
+  return typeof language === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGE_NAMES, language);
+}
+
+function cleanTerm(value: unknown, field: string): string {
+  const text = typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+  if (!text) throw new TermbaseError(`${field} is required`);
+  if (text.length > TERM_MAX_CHARS) throw new TermbaseError(`${field} is too long (max ${TERM_MAX_CHARS} characters)`);
+  return text;
+}
+
+/**
+ * Valida o termo e converte para a linha da tabela
+ */
+export function validateTermbaseEntry(input: Partial<TermbaseEntryInput>) {
+  const sourceTerm = cleanTerm(input.sourceTerm, 'sourceTerm');
+  const translation = cleanTerm(input.translation, 'translation');
+
+  if (!isSupportedLanguage(input.targetLanguage)) {
+    throw new TermbaseError(`Unsupported targetLanguage: ${input.targetLanguage}`);
+  }
+
+  if (input.partOfSpeech && !PARTS_OF_SPEECH.includes(input.partOfSpeech)) {
+    throw new TermbaseError(`Invalid partOfSpeech: ${input.partOfSpeech}`);
+  }
+
+  const forbidden = Array.from(new Set(
+    (Array.isArray(input.forbidden) ? input.forbidden : [])
+      .map(term => cleanTerm(term, 'forbidden'))
+      .filter(term => term.toLowerCase() !== translation.toLowerCase())
+  ));
+  if (forbidden.length > MAX_FORBIDDEN) {
+    throw new TermbaseError(`Too many forbidden translations (max ${MAX_FORBIDDEN})`);
+  }
+
+  const notes = typeof input.notes === 'string' ? input.notes.trim() : '';
+  if (notes.length > NOTES_MAX_CHARS) {
+    throw new TermbaseError(`notes is too long (max ${NOTES_MAX_CHARS} characters)`);
+  }
+
+  return {
+    source_term: sourceTerm,
+    target_language: input.targetLanguage,
+    translation,
+    forbidden,
+    part_of_speech: input.partOfSpeech || null,
+    notes: notes || null,
+    case_sensitive: !!input.caseSensitive
+  };
+}
+
+export async function listTermbase(
+  thesisId: string,
+  targetLanguage?: string
+): Promise<TermbaseEntry[]> {
+  let query = db
+    .from('termbase_entries')
+    .select('*')
+    .eq('thesis_id', thesisId);
+
+  if (targetLanguage) query = query.eq('target_language', targetLanguage);
+
+  const { data, error } = await query.order('source_term', { ascending: true });
+
+  if (error) throw new Error(`Failed to load termbase: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Grava o termo (mesmo termo e idioma de destino = atualiza)
+ */
+export async function saveTermbaseEntry(
+  thesisId: string,
+  input: Partial<TermbaseEntryInput>,
+  userId: string
+): Promise<TermbaseEntry> {
+  const { data, error } = await db
+    .from('termbase_entries')
+    .upsert({
+      thesis_id: thesisId,
+      ...validateTermbaseEntry(input),
+      created_by: userId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'thesis_id,source_term,target_language' })
+    .select()
+    .single();
+
+  if (error || !data) throw new Error(`Failed to save term: ${error?.message}`);
+  return data;
+}
+
+export async function updateTermbaseEntry(
+  thesisId: string,
+  entryId: string,
+  input: Partial<TermbaseEntryInput>
+): Promise<TermbaseEntry> {
+  const { data: existing } = await db
+    .from('termbase_entries')
+    .select('*')
+    .eq('id', entryId)
+    .eq('thesis_id', thesisId)
+    .maybeSingle();
+
+  if (!existing) throw new TermbaseError('Term not found', 404);
+
+  const row = validateTermbaseEntry({
+    sourceTerm: existing.source_term,
+    targetLanguage: existing.target_language,
+    translation: existing.translation,
+    forbidden: existing.forbidden,
+    partOfSpeech: existing.part_of_speech,
+    notes: existing.notes,
+    caseSensitive: existing.case_sensitive,
+    ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined))
+  });
+
+  const { data, error } = await db
+    .from('termbase_entries')
+    .update({ ...row, updated_at: new Date().toISOString() })
+    .eq('id', entryId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    // Outro termo igual no mesmo idioma (UNIQUE)
+    throw new TermbaseError(`Failed to update term: ${error?.message}`, 409);
+  }
+  return data;
+}
+
+export async function deleteTermbaseEntry(thesisId: string, entryId: string): Promise<void> {
+  const { data: existing } = await db
+    .from('termbase_entries')
+    .select('id')
+    .eq('id', entryId)
+    .eq('thesis_id', thesisId)
+    .maybeSingle();
+
+  if (!existing) throw new TermbaseError('Term not found', 404);
+
+  const { error } = await db
+    .from('termbase_entries')
+    .delete()
+    .eq('id', entryId);
+
+  if (error) throw new Error(`Failed to delete term: ${error.message}`);
+}
+
+/**
+ * Importa termos (TBX/CSV já convertidos); termos inválidos são pulados com o motivo
+ */
+export async function importTermbase(
+  thesisId: string,
+  inputs: Array<Partial<TermbaseEntryInput>>,
+  userId: string
+): Promise<{ imported: number; skipped: Array<{ sourceTerm?: string; error: string }> }> {
+  const rows: Array<Record<string, any>> = [];
+  const skipped: Array<{ sourceTerm?: string; error: string }> = [];
+  const now = new Date().toISOString();
+
+  for (const input of inputs) {
+    try {
+      rows.push({ thesis_id: thesisId, ...validateTermbaseEntry(input), created_by: userId, updated_at: now });
+    } catch (error: any) {
+      skipped.push({ sourceTerm: input.sourceTerm, error: error.message });
+    }
+  }
+
+  // O último termo repetido no arquivo prevalece
+  const unique = Array.from(new Map(rows.map(row => [`${row.source_term}\u0000${row.target_language}`, row])).values());
+
+  if (unique.length > 0) {
+    const { error } = await db
+      .from('termbase_entries')
+      .upsert(unique, { onConflict: 'thesis_id,source_term,target_language' });
+
+    if (error) throw new Error(`Failed to import termbase: ${error.message}`);
+  }
+
+  console.log(`[TERMBASE] Imported ${unique.length} terms into thesis ${thesisId} (${skipped.length} skipped)`);
+  return { imported: unique.length, skipped };
+}
+
+// Termo como palavra inteira (letras acentuadas contam como letra)
+function termPattern(term: string, caseSensitive: boolean): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, caseSensitive ? 'u' : 'iu');
+}
+
+function containsTerm(text: string, term: string, caseSensitive: boolean): boolean {
+  return termPattern(term, caseSensitive).test(text.normalize('NFC'));
+}
+
+/**
+ * Termos da termbase que aparecem no texto
+ */
+export function termsInText(entries: TermbaseEntry[], text: string): TermbaseEntry[] {
+  return entries.filter(entry => containsTerm(text, entry.source_term, entry.case_sensitive));
+}
+
+/**
+ * Instruções de terminologia para o prompt (vazio sem termos)
+ */
+export function formatTerminology(entries: TermbaseEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const lines = entries.map(entry => {
+    const keep = entry.translation === entry.source_term;
+    const details = [entry.part_of_speech, entry.notes].filter(Boolean).join('; ');
+    return [
+      keep
+        ? `- "${entry.source_term}" → keep "${entry.source_term}" (do not translate)`
+        : `- "${entry.source_term}" → "${entry.translation}"`,
+      details ? ` (${details})` : '',
+      entry.forbidden.length > 0 ? `\n  NEVER use: ${entry.forbidden.map(term => `"${term}"`).join(', ')}` : ''
+    ].join('');
+  });
+
+  return [
+    'TERMINOLOGY (mandatory - translate these terms exactly as given, adapting only inflection where the grammar requires):',
+    ...lines
+  ].join('\n') + '\n\n';
+}
+
+/**
+ * Confere a tradução contra os termos que aparecem no original
+ */
+export function checkTerminology(
+  entries: TermbaseEntry[],
+  original: string,
+  translation: string
+): TerminologyViolation[] {
+  const violations: TerminologyViolation[] = [];
+
+  for (const entry of termsInText(entries, original)) {
+    const found = entry.forbidden.find(term => containsTerm(translation, term, entry.case_sensitive));
+    if (found) {
+      violations.push({ sourceTerm: entry.source_term, expected: entry.translation, kind: 'forbidden', found });
+    } else if (!containsTerm(translation, entry.translation, entry.case_sensitive)) {
+      violations.push({ sourceTerm: entry.source_term, expected: entry.translation, kind: 'missing' });
+    }
+  }
+
+  return violations;
+}
+
+export function describeViolation(violation: TerminologyViolation): string {
+  return violation.kind === 'forbidden'
+    ? `"${violation.found}" is forbidden for "${violation.sourceTerm}" (use "${violation.expected}")`
+    : `"${violation.sourceTerm}" should be translated as "${violation.expected}"`;
+}
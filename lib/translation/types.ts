@@ -1,4 +1,5 @@
 import { AIProvider } from '../ai/types';
+import type { TranslationMemory } from './memory';
 
 export type SupportedLanguage =
   | 'en' // Inglês
@@ -39,6 +40,9 @@ export type TranslationProgress = {
     validationFailed: number;
     retriesSucceeded: number;
     originalKept: number; // Textos que mantiveram o original por falha
+    memoryHits: number; // Textos reaproveitados da memória de tradução (sem IA)
+    memoryFuzzyHits: number; // Textos traduzidos com segmentos parecidos da memória como referência
+    terminologyViolations: number; // Termos da termbase sem a tradução preferida ou com tradução proibida
   };
 };
 
@@ -49,11 +53,55 @@ export type TranslationOptions = {
   model: string;
   chunkSize?: number; // Tamanho do chunk de texto (default: 2000)
   maxPages?: number; // Limita tradução às primeiras N páginas (útil para testes)
-  glossary?: Array<{ term: string; caseSensitive: boolean; wholeWord: boolean }>; // Termos que não devem ser traduzidos
+  termbase?: TermbaseEntry[]; // Terminologia da tese para o idioma de destino (ver termbase.ts)
+  memory?: TranslationMemory; // Memória de tradução da tese (ver memory.ts)
   onProgress?: (progress: TranslationProgress) => void;
   onLog?: (message: string) => void; // Callback para logs em tempo real
 };
 
+export const PARTS_OF_SPEECH = ['noun', 'verb', 'adjective', 'adverb', 'phrase', 'other'] as const;
+
+export type PartOfSpeech = typeof PARTS_OF_SPEECH[number];
+
+/**
+ * Termo da termbase da tese: tradução preferida para um idioma de destino.
+ * translation igual a source_term = não traduzir
+ */
+export type TermbaseEntry = {
+  id: string;
+  thesis_id: string;
+  source_term: string;
+  target_language: SupportedLanguage;
+  translation: string;
+  forbidden: string[]; // Traduções que não devem aparecer
+  part_of_speech: PartOfSpeech | null;
+  notes: string | null;
+  case_sensitive: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TermbaseEntryInput = {
+  sourceTerm: string;
+  targetLanguage: SupportedLanguage;
+  translation: string;
+  forbidden?: string[];
+  partOfSpeech?: PartOfSpeech | null;
+  notes?: string | null;
+  caseSensitive?: boolean;
+};
+
+/**
+ * Termo da termbase que a tradução não respeitou
+ */
+export type TerminologyViolation = {
+  sourceTerm: string;
+  expected: string;
+  kind: 'missing' | 'forbidden';
+  found?: string; // Tradução proibida encontrada
+};
+
 export type TextElement = {
   id: string;
   xmlPath: string; // Ex: "word/document.xml", "word/header1.xml"
@@ -86,5 +134,8 @@ export type TranslationResult = {
     validationFailed: number;
     retriesSucceeded: number;
     keptOriginal: number;
+    memoryHits: number;
+    memoryFuzzyHits: number;
+    terminologyViolations: number;
   };
 };
@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { describe, expect, it } from 'vitest';
+import { extractTextsFromDocx } from './docx-translator';
+import { addElementContext, applyXliffUnits, buildXliff, parseXliff, rebuildDocxFromXliff, XliffError } from './xliff';
+
+const PARAGRAPHS = [
+  'Introdução',
+  'O estudo analisa a política educacional recente.',
+  'Os dados foram coletados em escolas & públicas <três>.'
+];
+
+async function sourceDocx(): Promise<Buffer> {
+  return Packer.toBuffer(new Document({
+    sections: [{
+      children: [
+        new Paragraph(PARAGRAPHS[0]),
+        new Paragraph({ children: [new TextRun('O estudo analisa a '), new TextRun({ text: 'política educacional', bold: true }), new TextRun(' recente.')] }),
+        new Paragraph(PARAGRAPHS[2])
+      ]
+    }]
+  }));
+}
+
+async function textsOf(buffer: Buffer) {
+  const filePath = path.join(os.tmpdir(), `${randomUUID()}_xliff_test.docx`);
+  await fs.writeFile(filePath, buffer);
+  try {
+    return (await extractTextsFromDocx(filePath)).textElements;
+  } finally {
+    await fs.unlink(filePath);
+  }
+}
+
+describe('XLIFF round trip', () => {
+  it('exports units with context and metadata and reads them back', async () => {
+    const elements = await textsOf(await sourceDocx());
+    expect(elements.map(e => e.originalText)).toEqual(PARAGRAPHS);
+
+    addElementContext(elements);
+    elements[1].translatedText = 'The study analyses recent education policy.';
+
+    const content = buildXliff(elements, { sourceLanguage: 'pt', targetLanguage: 'en', original: 'cap.docx', sourceVersionId: 'v1' });
+    expect(content).toContain('<note category="context">Previous: Introdução\nNext: Os dados');
+    expect(content).toContain('escolas &amp; públicas &lt;três&gt;');
+
+    const document = await parseXliff(content);
+    expect(document).toMatchObject({ sourceLanguage: 'pt', targetLanguage: 'en', original: 'cap.docx', sourceVersionId: 'v1' });
+    expect(document.units.map(u => [u.id, u.source, u.target, u.state])).toEqual(
+      elements.map(e => [e.id, e.originalText, e.translatedText || '', e.translatedText ? 'translated' : 'initial'])
+    );
+    expect(document.units[0]).toMatchObject({ xmlPath: elements[0].xmlPath, tagPath: elements[0].tagPath });
+  });
+
+  it('rebuilds the DOCX with post-edited targets, including split segments and inline markup', async () => {
+    const source = await sourceDocx();
+    const elements = await textsOf(source);
+    const content = buildXliff(elements, { sourceLanguage: 'pt', targetLanguage: 'en', original: 'cap.docx' })
+      // Ferramenta de tradução dividiu a unidade em dois segmentos com espaço ignorável
+      .replace(
+        /<segment state="initial">\s*<source>O estudo analisa a política educacional recente.<\/source>\s*<\/segment>/,
+        '<segment state="final"><source>O estudo analisa</source><target>The study <mrk id="m1">analyses</mrk></target></segment>' +
+        '<ignorable><source> </source></ignorable>' +
+        '<segment><source>a política educacional recente.</source><target>recent education policy.</target></segment>'
+      )
+      .replace(
+        /(<source>Os dados foram[^<]*<\/source>)/,
+        '$1<target>The data were collected in public schools &amp; &lt;three&gt;.</target>'
+      );
+
+    const { buffer, stats } = await rebuildDocxFromXliff(source, (await parseXliff(content)).units);
+
+    expect(stats).toEqual({ units: 3, applied: 2, untranslated: 1, mismatched: 0 });
+    expect((await textsOf(buffer)).map(e => e.originalText)).toEqual([
+      'Introdução',
+      'The study analyses recent education policy.',
+      'The data were collected in public schools & <three>.'
+    ]);
+  });
+
+  it('skips units whose source no longer matches the document', async () => {
+    const elements = await textsOf(await sourceDocx());
+    const units = elements.map(e => ({ id: e.id, xmlPath: e.xmlPath, tagPath: e.tagPath, source: e.originalText, target: `[en] ${e.originalText}` }));
+    units[1].source = 'Um parágrafo que foi reescrito.';
+    units.push({ ...units[0], id: 'elem_999' });
+
+    expect(applyXliffUnits(elements, units)).toEqual({ units: 4, applied: 2, untranslated: 0, mismatched: 2 });
+    expect(elements[1].translatedText).toBeUndefined();
+
+    const source = await sourceDocx();
+    const mismatched = units.map(u => ({ ...u, source: `${u.source} (editado)` }));
+    await expect(rebuildDocxFromXliff(source, mismatched)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('rejects invalid and unsupported files', async () => {
+    await expect(parseXliff('not xml')).rejects.toThrow(XliffError);
+    await expect(parseXliff('<xliff version="1.2"></xliff>')).rejects.toThrow(/Unsupported XLIFF version 1.2/);
+    await expect(parseXliff('<other/>')).rejects.toThrow(/expected an <xliff> root/);
+  });
+});
@@ -0,0 +1,280 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { parseStringPromise, processors, Builder } from 'xml2js';
+import { extractTextsFromDocx, replaceTextsInXml } from './docx-translator';
+import { normalizeSegment } from './memory';
+import type { TextElement } from './types';
+
+/**
+ * XLIFF 2.0 para pós-edição humana das traduções
+ *
+ * Cada TextElement do DOCX de origem vira uma <unit> (id = elem.id) com o
+ * texto original em <source>, a tradução da IA em <target> e a localização
+ * no DOCX (xmlPath/tagPath) no módulo de metadados (mda). O parágrafo
+ * anterior e o seguinte vão numa <note category="context"> para o tradutor.
+ * O <file> leva nos metadados a versão de origem (sourceVersionId).
+ *
+ * Na volta, as unidades são casadas de novo com os TextElements do mesmo
+ * DOCX de origem (id + localização + texto original) e o DOCX traduzido é
+ * reconstruído com replaceTextsInXml, como na tradução automática.
+ *
+ * O arquivo exportado só tem texto; marcação inline que a ferramenta do
+ * tradutor acrescentar (<mrk>, <pc>) é descartada, mantendo o texto dela.
+ */
+
+export class XliffError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'XliffError';
+  }
+}
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+const METADATA_NAMESPACE = 'urn:oasis:names:tc:xliff:metadata:2.0';
+
+// Tamanho do parágrafo vizinho na nota de contexto
+const CONTEXT_MAX_CHARS = 200;
+
+export type XliffUnit = {
+  id: string;
+  xmlPath?: string;
+  tagPath?: string;
+  source: string;
+  target: string;
+  state?: string; // initial | translated | reviewed | final
+};
+
+export type XliffDocument = {
+  sourceLanguage: string;
+  targetLanguage: string;
+  original?: string;
+  sourceVersionId?: string; // Versão do capítulo exportada (ausente em XLIFF de outra origem)
+  units: XliffUnit[];
+};
+
+export type XliffApplyStats = {
+  units: number;
+  applied: number; // Unidades com tradução aplicada ao DOCX
+  untranslated: number; // Unidades sem <target> (o texto original fica)
+  mismatched: number; // Unidades que não batem com o DOCX de origem (ignoradas)
+};
+
+const truncate = (text: string) =>
+  text.length > CONTEXT_MAX_CHARS ? `${text.substring(0, CONTEXT_MAX_CHARS)}...` : text;
+
+/**
+ * Preenche elem.context com o parágrafo anterior e o seguinte da mesma parte do DOCX
+ */
+export function addElementContext(elements: TextElement[]): void {
+  elements.forEach((elem, i) => {
+    const previous = elements[i - 1]?.xmlPath === elem.xmlPath ? elements[i - 1].originalText : '';
+    const next = elements[i + 1]?.xmlPath === elem.xmlPath ? elements[i + 1].originalText : '';
+
+    elem.context = [
+      previous && `Previous: ${truncate(previous)}`,
+      next && `Next: ${truncate(next)}`
+    ].filter(Boolean).join('\n') || undefined;
+  });
+}
+
+/**
+ * XLIFF 2.0 com os elementos do DOCX e as traduções (elem.translatedText)
+ */
+export function buildXliff(
+  elements: TextElement[],
+  options: { sourceLanguage: string; targetLanguage: string; original: string; sourceVersionId?: string }
+): string {
+  const units = elements.map(elem => {
+    const meta = [
+      { $: { type: 'xmlPath' }, _: elem.xmlPath },
+      { $: { type: 'tagPath' }, _: elem.tagPath },
+      ...(elem.isTextBox ? [{ $: { type: 'textBox' }, _: 'true' }] : [])
+    ];
+
+    return {
+      $: { id: elem.id, 'xml:space': 'preserve' },
+      'mda:metadata': [{ 'mda:metaGroup': [{ $: { category: 'docx' }, 'mda:meta': meta }] }],
+      ...(elem.context ? { notes: [{ note: [{ $: { category: 'context' }, _: elem.context }] }] } : {}),
+      segment: [{
+        $: { state: elem.translatedText ? 'translated' : 'initial' },
+        source: [elem.originalText],
+        ...(elem.translatedText ? { target: [elem.translatedText] } : {})
+      }]
+    };
+  });
+
+  const builder = new Builder({ xmldec: { version: '1.0', encoding: 'UTF-8' } });
+  return builder.buildObject({
+    xliff: {
+      $: {
+        xmlns: XLIFF_NAMESPACE,
+        'xmlns:mda': METADATA_NAMESPACE,
+        version: '2.0',
+        srcLang: options.sourceLanguage,
+        trgLang: options.targetLanguage
+      },
+      file: [{
+        $: { id: 'f1', original: options.original },
+        ...(options.sourceVersionId
+          ? { 'mda:metadata': [{ 'mda:metaGroup': [{ $: { category: 'autoria' }, 'mda:meta': [{ $: { type: 'sourceVersionId' }, _: options.sourceVersionId }] }] }] }
+          : {}),
+        unit: units
+      }]
+    }
+  });
+}
+
+// Filhos na ordem do documento (parse com preserveChildrenOrder)
+const childrenOf = (node: any, ...names: string[]): any[] =>
+  (node?.$$ || []).filter((child: any) => names.includes(child['#name']));
+
+// Texto do elemento na ordem, incluindo o de marcação inline (<mrk>, <pc>)
+function textOf(node: any): string {
+  if (typeof node === 'string') return node;
+  if (!node?.$$) return node?._ || '';
+  return node.$$.map((child: any) => (child['#name'] === '__text__' ? child._ : textOf(child))).join('');
+}
+
+// Valor de <mda:meta type="..."> dos metadados do elemento (<file> ou <unit>)
+function metaValue(node: any, type: string): string | undefined {
+  const meta = childrenOf(node, 'metadata')
+    .flatMap(metadata => childrenOf(metadata, 'metaGroup'))
+    .flatMap(group => childrenOf(group, 'meta'));
+  return textOf(meta.find(m => m.$?.type === type)) || undefined;
+}
+
+// Unidades do arquivo e dos grupos (<group> pode aninhar)
+function collectUnits(container: any): any[] {
+  return childrenOf(container, 'unit', 'group').flatMap(child =>
+    child['#name'] === 'unit' ? [child] : collectUnits(child)
+  );
+}
+
+/**
+ * Lê um XLIFF 2.0 (prefixos de namespace são ignorados)
+ */
+export async function parseXliff(content: string): Promise<XliffDocument> {
+  let parsed: any;
+  try {
+    parsed = await parseStringPromise(content, {
+      tagNameProcessors: [processors.stripPrefix],
+      explicitChildren: true,
+      preserveChildrenOrder: true,
+      charsAsChildren: true,
+      includeWhiteChars: true // <ignorable> costuma ter só espaços
+    });
+  } catch (error: any) {
+    throw new XliffError(`Invalid XLIFF: ${error.message}`);
+  }
+
+  const root = parsed?.xliff;
+  if (!root) throw new XliffError('Invalid XLIFF: expected an <xliff> root element');
+
+  const version = String(root.$?.version || '');
+  if (!version.startsWith('2')) {
+    throw new XliffError(`Unsupported XLIFF version ${version || '(missing)'}: expected 2.0`);
+  }
+
+  const files = childrenOf(root, 'file');
+  const units: XliffUnit[] = files.flatMap(collectUnits).map(unit => {
+    // Ferramentas de tradução podem dividir a unidade em vários segmentos
+    // (com <ignorable> entre eles); o texto é remontado na ordem
+    const parts = childrenOf(unit, 'segment', 'ignorable');
+    const source = parts.map(part => textOf(childrenOf(part, 'source')[0])).join('');
+    const target = parts.map(part => {
+      const [partTarget] = childrenOf(part, 'target');
+      // <ignorable> sem <target> (espaços entre segmentos) fica como na origem
+      if (!partTarget && part['#name'] === 'ignorable') return textOf(childrenOf(part, 'source')[0]);
+      return textOf(partTarget);
+    }).join('');
+
+    return {
+      id: String(unit.$?.id || ''),
+      xmlPath: metaValue(unit, 'xmlPath'),
+      tagPath: metaValue(unit, 'tagPath'),
+      source,
+      target,
+      state: childrenOf(unit, 'segment')[0]?.$?.state
+    };
+  });
+
+  return {
+    sourceLanguage: root.$?.srcLang || '',
+    targetLanguage: root.$?.trgLang || '',
+    original: files[0]?.$?.original,
+    sourceVersionId: files[0] ? metaValue(files[0], 'sourceVersionId') : undefined,
+    units
+  };
+}
+
+/**
+ * Aplica as traduções pós-editadas aos elementos do DOCX de origem
+ */
+export function applyXliffUnits(elements: TextElement[], units: XliffUnit[]): XliffApplyStats {
+  const byId = new Map(units.map(unit => [unit.id, unit]));
+  const stats: XliffApplyStats = { units: units.length, applied: 0, untranslated: 0, mismatched: 0 };
+
+  for (const elem of elements) {
+    const unit = byId.get(elem.id);
+    if (!unit) continue;
+
+    // XLIFF de outra versão ou de um DOCX diferente
+    const sameLocation = (!unit.xmlPath || unit.xmlPath === elem.xmlPath) && (!unit.tagPath || unit.tagPath === elem.tagPath);
+    if (!sameLocation || normalizeSegment(unit.source) !== normalizeSegment(elem.originalText)) {
+      console.warn(`[XLIFF] Unit ${unit.id} does not match the source document, skipped`);
+      stats.mismatched++;
+      continue;
+    }
+
+    if (!unit.target.trim()) {
+      stats.untranslated++;
+      continue;
+    }
+
+    elem.translatedText = unit.target;
+    stats.applied++;
+  }
+
+  const elementIds = new Set(elements.map(elem => elem.id));
+  stats.mismatched += units.filter(unit => !elementIds.has(unit.id)).length;
+  return stats;
+}
+
+/**
+ * Reconstrói o DOCX de origem com as traduções do XLIFF
+ */
+export async function rebuildDocxFromXliff(
+  sourceBuffer: Buffer,
+  units: XliffUnit[]
+): Promise<{ buffer: Buffer; elements: TextElement[]; stats: XliffApplyStats }> {
+  const sourcePath = path.join(os.tmpdir(), `${randomUUID()}_xliff_source.docx`);
+  await fs.writeFile(sourcePath, sourceBuffer);
+
+  try {
+    const { zip, textElements } = await extractTextsFromDocx(sourcePath);
+    const stats = applyXliffUnits(textElements, units);
+
+    if (stats.applied === 0) {
+      throw new XliffError(
+        stats.mismatched > 0
+          ? 'XLIFF does not match the source version of this translation'
+          : 'XLIFF has no translated units',
+        stats.mismatched > 0 ? 409 : 400
+      );
+    }
+
+    const xmlPaths = Array.from(new Set(textElements.map(elem => elem.xmlPath)));
+    for (const xmlPath of xmlPaths) {
+      await replaceTextsInXml(zip, xmlPath, textElements.filter(elem => elem.xmlPath === xmlPath));
+    }
+
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+    console.log(`[XLIFF] Rebuilt DOCX: ${stats.applied}/${stats.units} units applied, ${stats.untranslated} untranslated, ${stats.mismatched} mismatched`);
+
+    return { buffer, elements: textElements, stats };
+  } finally {
+    await fs.unlink(sourcePath).catch(() => {});
+  }
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Modelos do servidor local escolhidos em Configurações (settings.models.local).
+ * Diferente dos provedores pagos, não há lista fixa: depende do que está instalado.
+ */
+export function useLocalModels(enabled: boolean = true): string[] {
+  const [models, setModels] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    fetch('/api/settings')
+      .then(res => res.json())
+      .then(data => setModels(data.settings?.models?.local || []))
+      .catch(() => setModels([]));
+  }, [enabled]);
+
+  return models;
+}
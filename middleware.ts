@@ -1,12 +1,16 @@
-import { auth } from "@/auth"
+import NextAuth from "next-auth"
 import { NextResponse } from "next/server"
+import { authConfig } from "./auth.config"
+
+// Instância sem providers: o middleware roda no Edge e só valida o JWT da sessão
+const { auth } = NextAuth(authConfig);
 
 export default auth((req) => {
   const { pathname } = req.nextUrl;
   const isLoggedIn = !!req.auth;
 
   // Public routes that don't require authentication
-  const publicRoutes = ["/login", "/api/auth", "/api/health"];
+  const publicRoutes = ["/login", "/api/auth", "/api/account/signup", "/api/health"];
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
 
   // Redirect to login if not authenticated and trying to access protected route
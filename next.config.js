@@ -1,6 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  serverExternalPackages: ['pdf-parse', 'mammoth'],
+  serverExternalPackages: ['pdf-parse', 'mammoth', 'sql.js'],
   typescript: {
     // ⚠️ Permite build em produção mesmo com erros de tipo
     ignoreBuildErrors: true,
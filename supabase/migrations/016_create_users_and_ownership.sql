@@ -0,0 +1,53 @@
+-- Persistent user accounts (replaces the in-memory Map in auth.ts)
+-- and per-user ownership of theses, chapters, documents, projects and pipeline jobs
+
+CREATE TABLE IF NOT EXISTS public.users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  password_hash TEXT NOT NULL, -- bcrypt
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_users_updated_at
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Ownership columns
+ALTER TABLE public.theses
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.chapters
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.pipeline_jobs
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_theses_owner_id ON public.theses(owner_id);
+CREATE INDEX IF NOT EXISTS idx_projects_owner_id ON public.projects(owner_id);
+CREATE INDEX IF NOT EXISTS idx_documents_owner_id ON public.documents(owner_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_jobs_created_by ON public.pipeline_jobs(created_by);
+
+-- RLS aberto como nas demais tabelas: o filtro por dono é feito nas rotas da API
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on users"
+  ON public.users
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Dados criados antes desta migration ficam sem dono (owner_id NULL) e não
+-- aparecem para nenhum usuário. Para atribuí-los a uma conta existente:
+--   UPDATE public.theses    SET owner_id = '<user-id>' WHERE owner_id IS NULL;
+--   UPDATE public.projects  SET owner_id = '<user-id>' WHERE owner_id IS NULL;
+--   UPDATE public.documents SET owner_id = '<user-id>' WHERE owner_id IS NULL;
+--   UPDATE public.pipeline_jobs SET created_by = '<user-id>' WHERE created_by IS NULL;
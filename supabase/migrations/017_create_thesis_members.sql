@@ -0,0 +1,73 @@
+-- Thesis sharing: members with roles, email invitations and a mail outbox
+--
+-- Roles:
+--   owner    -> theses.owner_id (not stored in thesis_members)
+--   coauthor -> uploads chapter versions and runs operations
+--   reviewer -> read-only access; can comment and approve suggestions
+
+CREATE TABLE IF NOT EXISTS public.thesis_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thesis_id UUID NOT NULL REFERENCES public.theses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('coauthor', 'reviewer')),
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (thesis_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.thesis_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thesis_id UUID NOT NULL REFERENCES public.theses(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('coauthor', 'reviewer')),
+  token TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  accepted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Stand-in for a real mail provider: messages are stored here and read via /api/account/outbox
+CREATE TABLE IF NOT EXISTS public.mail_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  to_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_thesis_members_thesis_id ON public.thesis_members(thesis_id);
+CREATE INDEX IF NOT EXISTS idx_thesis_members_user_id ON public.thesis_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_thesis_invitations_thesis_id ON public.thesis_invitations(thesis_id);
+CREATE INDEX IF NOT EXISTS idx_thesis_invitations_email ON public.thesis_invitations(email);
+CREATE INDEX IF NOT EXISTS idx_mail_outbox_to_email ON public.mail_outbox(to_email);
+
+CREATE TRIGGER update_thesis_members_updated_at
+  BEFORE UPDATE ON public.thesis_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS aberto como nas demais tabelas: os papéis são verificados nas rotas da API
+ALTER TABLE public.thesis_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.thesis_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mail_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on thesis_members"
+  ON public.thesis_members
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on thesis_invitations"
+  ON public.thesis_invitations
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on mail_outbox"
+  ON public.mail_outbox
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
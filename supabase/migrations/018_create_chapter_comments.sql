@@ -0,0 +1,74 @@
+-- Review comments anchored to chapter paragraphs
+--
+-- A thread belongs to a chapter and is anchored to one paragraph per version
+-- (comment_thread_anchors). When a new version is created, open threads get a
+-- new anchor if their paragraph text survives, so the discussion carries forward.
+-- paragraph_index uses the same indexing as extractDocumentStructure (non-empty paragraphs).
+
+CREATE TABLE IF NOT EXISTS public.comment_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chapter_id UUID NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  origin_version_id UUID REFERENCES public.chapter_versions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.comment_thread_anchors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES public.comment_threads(id) ON DELETE CASCADE,
+  chapter_version_id UUID NOT NULL REFERENCES public.chapter_versions(id) ON DELETE CASCADE,
+  paragraph_index INTEGER NOT NULL CHECK (paragraph_index >= 0),
+  paragraph_text TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (thread_id, chapter_version_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.comment_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES public.comment_threads(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_threads_chapter_id ON public.comment_threads(chapter_id);
+CREATE INDEX IF NOT EXISTS idx_comment_thread_anchors_version ON public.comment_thread_anchors(chapter_version_id);
+CREATE INDEX IF NOT EXISTS idx_comment_messages_thread_id ON public.comment_messages(thread_id);
+
+CREATE TRIGGER update_comment_threads_updated_at
+  BEFORE UPDATE ON public.comment_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_comment_messages_updated_at
+  BEFORE UPDATE ON public.comment_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS aberto como nas demais tabelas: os papéis são verificados nas rotas da API
+ALTER TABLE public.comment_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_thread_anchors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on comment_threads"
+  ON public.comment_threads
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on comment_thread_anchors"
+  ON public.comment_thread_anchors
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on comment_messages"
+  ON public.comment_messages
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,10 @@
+-- Version branching and merge
+--
+-- parent_version_id keeps the lineage of every version; a version produced by
+-- merging two branches also records the other branch in merge_parent_version_id.
+
+ALTER TABLE public.chapter_versions
+  ADD COLUMN IF NOT EXISTS merge_parent_version_id UUID REFERENCES public.chapter_versions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.chapter_versions.merge_parent_version_id IS 'Second parent when the version was created by a merge (created_by_operation = merge)';
+COMMENT ON COLUMN public.chapter_versions.created_by_operation IS 'How this version was created: upload, improve, translate, adjust, adapt, update, merge';
@@ -0,0 +1,30 @@
+-- Embeddings of chapter chunks for semantic / hybrid search
+--
+-- One row per (chunk, provider, model): vectors from different providers or
+-- models are not comparable, so switching EMBEDDING_PROVIDER keeps both sets.
+-- Vectors are computed lazily the first time a version is searched semantically.
+
+CREATE TABLE IF NOT EXISTS public.chapter_chunk_embeddings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chunk_id UUID NOT NULL REFERENCES public.chapter_chunks(id) ON DELETE CASCADE,
+  chapter_version_id UUID NOT NULL REFERENCES public.chapter_versions(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL CHECK (dimensions > 0),
+  embedding REAL[] NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (chunk_id, provider, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_chunk_embeddings_version
+  ON public.chapter_chunk_embeddings(chapter_version_id, provider, model);
+
+ALTER TABLE public.chapter_chunk_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on chapter_chunk_embeddings"
+  ON public.chapter_chunk_embeddings
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.chapter_chunk_embeddings IS 'Vetores dos chunks de capítulo por provedor/modelo de embedding';
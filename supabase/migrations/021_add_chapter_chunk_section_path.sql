@@ -0,0 +1,11 @@
+-- Structure-aware chunking
+--
+-- Chunks now follow the document structure (headings, paragraphs, tables,
+-- footnotes) and carry real page numbers. section_path records the headings
+-- that contain each chunk, e.g. {"1 Introdução", "1.2 Objetivos"}.
+-- Chunks created before this migration keep section_path NULL.
+
+ALTER TABLE public.chapter_chunks
+  ADD COLUMN IF NOT EXISTS section_path TEXT[];
+
+COMMENT ON COLUMN public.chapter_chunks.section_path IS 'Heading titles (chapter > section > subsection) containing the chunk';
@@ -0,0 +1,18 @@
+-- Add metadata column to the document-level job tables
+--
+-- Same shape as chapter_operation_jobs.metadata (013). For now it records
+-- AI provider fallbacks (metadata.fallbacks): which configured model failed
+-- and which model from the fallback chain answered instead.
+
+ALTER TABLE public.improvement_jobs
+  ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.norm_update_jobs
+  ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.translation_jobs
+  ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.improvement_jobs.metadata IS 'Job data such as AI fallbacks (metadata.fallbacks)';
+COMMENT ON COLUMN public.norm_update_jobs.metadata IS 'Job data such as AI fallbacks (metadata.fallbacks)';
+COMMENT ON COLUMN public.translation_jobs.metadata IS 'Job data such as AI fallbacks (metadata.fallbacks)';
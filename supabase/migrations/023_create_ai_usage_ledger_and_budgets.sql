@@ -0,0 +1,70 @@
+-- AI cost ledger and budgets
+--
+-- ai_usage_ledger: one row per AI call that answered (after retries/fallbacks),
+-- with the provider/model that actually answered, tokens and estimated cost,
+-- attributed to the operation, user, thesis/chapter or document and job.
+--
+-- ai_budgets: spending limits per thesis or per user, monthly or lifetime.
+--   block -> new jobs are refused and running jobs stop at the next AI call
+--   pause -> new jobs are refused; running jobs finish, pipelines pause
+--            before their next operation until the budget is raised
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  tokens_in INTEGER NOT NULL DEFAULT 0,
+  tokens_out INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  operation TEXT,
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  thesis_id UUID REFERENCES public.theses(id) ON DELETE SET NULL,
+  chapter_id UUID REFERENCES public.chapters(id) ON DELETE SET NULL,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  job_table TEXT,
+  job_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_user ON public.ai_usage_ledger(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_thesis ON public.ai_usage_ledger(thesis_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_job ON public.ai_usage_ledger(job_id);
+
+CREATE TABLE IF NOT EXISTS public.ai_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope TEXT NOT NULL CHECK (scope IN ('thesis', 'user')),
+  thesis_id UUID REFERENCES public.theses(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  limit_usd NUMERIC(12, 2) NOT NULL CHECK (limit_usd >= 0),
+  period TEXT NOT NULL DEFAULT 'monthly' CHECK (period IN ('monthly', 'total')),
+  on_exceed TEXT NOT NULL DEFAULT 'block' CHECK (on_exceed IN ('block', 'pause')),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    (scope = 'thesis' AND thesis_id IS NOT NULL AND user_id IS NULL) OR
+    (scope = 'user' AND user_id IS NOT NULL AND thesis_id IS NULL)
+  )
+);
+
+-- One budget per thesis and one per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_thesis ON public.ai_budgets(thesis_id) WHERE scope = 'thesis';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_budgets_user ON public.ai_budgets(user_id) WHERE scope = 'user';
+
+ALTER TABLE public.ai_usage_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ai_usage_ledger"
+  ON public.ai_usage_ledger
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on ai_budgets"
+  ON public.ai_budgets
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.ai_usage_ledger IS 'Custo de cada chamada de IA (provedor/modelo, tokens) por operação, usuário, tese/capítulo ou documento e job';
+COMMENT ON TABLE public.ai_budgets IS 'Limites de gasto com IA por tese ou por usuário (mensal ou total)';
@@ -0,0 +1,35 @@
+-- AI response cache
+--
+-- Completions (document operations: improve, norms, translate, adjust, adapt)
+-- are cached by content hash: provider + model + normalized system/user prompt
+-- + temperature + output mode. Entries expire after the configured TTL.
+-- Cache hits are recorded in the cost ledger with zero cost (cache_hit = true).
+
+CREATE TABLE IF NOT EXISTS public.ai_response_cache (
+  key TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  operation TEXT,
+  response JSONB NOT NULL,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_hit_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires_at ON public.ai_response_cache(expires_at);
+
+ALTER TABLE public.ai_usage_ledger
+  ADD COLUMN IF NOT EXISTS cache_hit BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.ai_response_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ai_response_cache"
+  ON public.ai_response_cache
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.ai_response_cache IS 'Respostas de IA por hash do conteúdo (provedor, modelo, prompt normalizado, temperatura)';
+COMMENT ON COLUMN public.ai_usage_ledger.cache_hit IS 'Resposta veio do cache (custo zero)';
@@ -0,0 +1,32 @@
+-- Prompt templates
+--
+-- Every prompt sent to the models has a key (e.g. improve.section) and a
+-- built-in default (version 0, kept in lib/ai/prompt-templates.ts). Editing a
+-- prompt in /settings saves a new version here; versions are never changed.
+-- At most one version per key is active (none = built-in default). Jobs can
+-- pin versions per key, and record the versions they used in metadata.prompts.
+
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  body TEXT NOT NULL,
+  note TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (key, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active ON public.prompt_templates(key) WHERE is_active;
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on prompt_templates"
+  ON public.prompt_templates
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.prompt_templates IS 'Versões editadas dos prompts (a versão 0 de cada chave é o padrão embutido)';
+COMMENT ON COLUMN public.prompt_templates.body IS 'Texto do prompt com variáveis {{nome}}';
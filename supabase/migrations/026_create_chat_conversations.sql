@@ -0,0 +1,63 @@
+-- Chat conversations per thesis
+--
+-- A conversation belongs to one user inside one thesis (other members don't
+-- see it). Messages keep the question/answer text plus what the answer was
+-- based on: the selected chapter versions, the search mode, the query used
+-- for retrieval (rewritten from the conversation history), citations and
+-- the retrieved sources. Assistant messages keep provider, model and cost.
+-- seq orders the messages of a conversation (a question and its answers
+-- from several providers are inserted together).
+
+CREATE TABLE IF NOT EXISTS public.chat_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thesis_id UUID NOT NULL REFERENCES public.theses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  chapter_version_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  search_mode TEXT,
+  retrieval_query TEXT,
+  citation_mode TEXT,
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  provider TEXT,
+  model TEXT,
+  error TEXT,
+  tokens_in INTEGER,
+  tokens_out INTEGER,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (conversation_id, seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_thesis_user ON public.chat_conversations(thesis_id, user_id, updated_at DESC);
+
+CREATE TRIGGER update_chat_conversations_updated_at
+  BEFORE UPDATE ON public.chat_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS aberto como nas demais tabelas: dono e acesso à tese são verificados nas rotas da API
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on chat_conversations"
+  ON public.chat_conversations
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on chat_messages"
+  ON public.chat_messages
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
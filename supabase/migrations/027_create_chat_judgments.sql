@@ -0,0 +1,57 @@
+-- Chat judge mode
+--
+-- A judge model merges the answers of several providers into one response,
+-- flags the claims they disagree on and rates each answer (1-5). Judgments
+-- are kept to compare models over time: one row per judgment and one rating
+-- per judged provider/model.
+
+CREATE TABLE IF NOT EXISTS public.chat_judgments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  thesis_id UUID REFERENCES public.theses(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES public.chat_conversations(id) ON DELETE SET NULL,
+  question TEXT NOT NULL,
+  judge_provider TEXT NOT NULL,
+  judge_model TEXT NOT NULL,
+  synthesis TEXT NOT NULL,
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  dropped_citations INTEGER NOT NULL DEFAULT 0,
+  disagreements JSONB NOT NULL DEFAULT '[]'::jsonb,
+  tokens_in INTEGER,
+  tokens_out INTEGER,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_judgment_ratings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  judgment_id UUID NOT NULL REFERENCES public.chat_judgments(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  score INTEGER NOT NULL CHECK (score BETWEEN 1 AND 5),
+  rationale TEXT,
+  unsupported_citations INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_judgments_user ON public.chat_judgments(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_judgments_thesis ON public.chat_judgments(thesis_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_judgment_ratings_judgment ON public.chat_judgment_ratings(judgment_id);
+CREATE INDEX IF NOT EXISTS idx_chat_judgment_ratings_model ON public.chat_judgment_ratings(provider, model);
+
+-- RLS aberto como nas demais tabelas: acesso verificado nas rotas da API
+ALTER TABLE public.chat_judgments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_judgment_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on chat_judgments"
+  ON public.chat_judgments
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on chat_judgment_ratings"
+  ON public.chat_judgment_ratings
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
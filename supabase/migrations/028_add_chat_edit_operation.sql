@@ -0,0 +1,15 @@
+-- Chat edit mode
+--
+-- Edits proposed in the chapter chat are stored as a chapter_operation_jobs
+-- row (operation = chat_edit) with the proposals in metadata.suggestions, so
+-- they go through the same review screen and apply route as the other
+-- operations. Applying them creates a version with created_by_operation = chat_edit.
+
+ALTER TABLE public.chapter_operation_jobs
+  DROP CONSTRAINT IF EXISTS chapter_operation_jobs_operation_check;
+
+ALTER TABLE public.chapter_operation_jobs
+  ADD CONSTRAINT chapter_operation_jobs_operation_check
+  CHECK (operation IN ('improve', 'translate', 'adjust', 'adapt', 'update', 'chat_edit'));
+
+COMMENT ON COLUMN public.chapter_versions.created_by_operation IS 'How this version was created: upload, improve, translate, adjust, adapt, update, merge, chat_edit';
@@ -0,0 +1,35 @@
+-- Translation memory
+--
+-- Source segment -> target segment per thesis and language pair. Translating
+-- a new version of a chapter reuses exact matches without calling the AI and
+-- sends similar segments to the prompt as terminology hints.
+-- source_language is 'auto' when the source language was auto-detected.
+
+CREATE TABLE IF NOT EXISTS public.translation_memory (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thesis_id UUID NOT NULL REFERENCES public.theses(id) ON DELETE CASCADE,
+  source_language TEXT NOT NULL,
+  target_language TEXT NOT NULL,
+  source_hash TEXT NOT NULL, -- sha256 of the whitespace-normalized source
+  source_text TEXT NOT NULL,
+  target_text TEXT NOT NULL,
+  provider TEXT,
+  model TEXT,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  UNIQUE (thesis_id, source_language, target_language, source_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_translation_memory_pair
+  ON public.translation_memory(thesis_id, source_language, target_language);
+
+-- RLS aberto como nas demais tabelas: acesso verificado nas rotas da API
+ALTER TABLE public.translation_memory ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on translation_memory"
+  ON public.translation_memory
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,35 @@
+-- Termbase (bilingual terminology)
+--
+-- Source term -> preferred translation per thesis and target language, with
+-- forbidden translations, part of speech and notes. Replaces the glossary
+-- that lived in the browser's localStorage. Enforced in the translation
+-- prompts and checked after translation; imported/exported as TBX or CSV.
+-- translation = source_term means "do not translate".
+
+CREATE TABLE IF NOT EXISTS public.termbase_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thesis_id UUID NOT NULL REFERENCES public.theses(id) ON DELETE CASCADE,
+  source_term TEXT NOT NULL,
+  target_language TEXT NOT NULL,
+  translation TEXT NOT NULL,
+  forbidden JSONB NOT NULL DEFAULT '[]'::jsonb,
+  part_of_speech TEXT CHECK (part_of_speech IN ('noun', 'verb', 'adjective', 'adverb', 'phrase', 'other')),
+  notes TEXT,
+  case_sensitive BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (thesis_id, source_term, target_language)
+);
+
+CREATE INDEX IF NOT EXISTS idx_termbase_entries_language
+  ON public.termbase_entries(thesis_id, target_language);
+
+-- RLS aberto como nas demais tabelas: acesso verificado nas rotas da API
+ALTER TABLE public.termbase_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on termbase_entries"
+  ON public.termbase_entries
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
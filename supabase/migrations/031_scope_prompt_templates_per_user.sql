@@ -0,0 +1,22 @@
+-- Prompt templates per user
+--
+-- Saving or activating a prompt changed the prompts every user's jobs ran
+-- with. Versions and the active version are now per user (owner_id); jobs
+-- render the prompts of the user who started them. Existing versions stay
+-- with whoever saved them (created_by); versions without an author go away.
+
+ALTER TABLE public.prompt_templates
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+
+UPDATE public.prompt_templates SET owner_id = created_by WHERE owner_id IS NULL;
+DELETE FROM public.prompt_templates WHERE owner_id IS NULL;
+
+ALTER TABLE public.prompt_templates ALTER COLUMN owner_id SET NOT NULL;
+
+ALTER TABLE public.prompt_templates DROP CONSTRAINT IF EXISTS prompt_templates_key_version_key;
+ALTER TABLE public.prompt_templates ADD CONSTRAINT prompt_templates_owner_key_version_key UNIQUE (owner_id, key, version);
+
+DROP INDEX IF EXISTS public.idx_prompt_templates_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active ON public.prompt_templates(owner_id, key) WHERE is_active;
+
+COMMENT ON COLUMN public.prompt_templates.owner_id IS 'Usuário dono da versão (cada usuário tem as próprias versões e a própria versão ativa)';
@@ -0,0 +1,18 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname),
+      // O index do pdf-parse roda um exemplo quando não tem module.parent (caso do vitest)
+      'pdf-parse': 'pdf-parse/lib/pdf-parse.js'
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts', 'app/**/*.test.ts'],
+    // Cada arquivo de teste roda com o backend local num diretório temporário próprio
+    setupFiles: ['./lib/test-setup.ts']
+  }
+});